@@ -1,4 +1,4 @@
-import type { Message, ToolCall, ToolResult, ScopeContext, DocumentAttachment } from '@hasna/assistants-shared';
+import type { Message, ToolCall, ToolResult, ScopeContext, DocumentAttachment, ThinkingBlock } from '@hasna/assistants-shared';
 import { generateId, now } from '@hasna/assistants-shared';
 
 /**
@@ -39,7 +39,7 @@ export class AssistantContext {
   /**
    * Add an assistant message
    */
-  addAssistantMessage(content: string, toolCalls?: ToolCall[]): Message {
+  addAssistantMessage(content: string, toolCalls?: ToolCall[], thinking?: ThinkingBlock[]): Message {
     const message: Message = {
       id: generateId(),
       role: 'assistant',
@@ -47,6 +47,9 @@ export class AssistantContext {
       timestamp: now(),
       toolCalls,
     };
+    if (thinking && thinking.length > 0) {
+      message.thinking = thinking;
+    }
     this.messages.push(message);
     this.prune();
     return message;
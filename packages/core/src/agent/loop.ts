@@ -1,5 +1,5 @@
-import type { Message, Tool, StreamChunk, ToolCall, ToolResult, AssistantsConfig, ScheduledCommand, VoiceState, ActiveIdentityInfo, HeartbeatState } from '@hasna/assistants-shared';
-import { generateId } from '@hasna/assistants-shared';
+import type { Message, Tool, StreamChunk, ToolCall, ToolResult, AssistantsConfig, ScheduledCommand, VoiceState, ActiveIdentityInfo, HeartbeatState, ThinkingBlock, LLMConfig } from '@hasna/assistants-shared';
+import { generateId, sleep } from '@hasna/assistants-shared';
 import { join } from 'path';
 import { AssistantContext } from './context';
 import {
@@ -32,12 +32,13 @@ import { WebTools } from '../tools/web';
 import { FeedbackTool } from '../tools/feedback';
 import { registerSchedulerTools, type SchedulerContext } from '../tools/scheduler';
 import { ImageTools } from '../tools/image';
-import { SkillTool, createSkillListTool, createSkillReadTool, createSkillExecuteTool } from '../tools/skills';
+import { SkillTool, createSkillListTool, createSkillReadTool, createSkillExecuteTool, createSkillArgumentTools } from '../tools/skills';
 import { createAskUserTool, type AskUserHandler } from '../tools/ask-user';
 import { WaitTool, SleepTool } from '../tools/wait';
 import { runHookAssistant } from './subagent';
 import { SkillLoader } from '../skills/loader';
 import { SkillExecutor } from '../skills/executor';
+import { SkillArgumentError, formatSkillUsage, parseSkillArguments } from '../skills/arguments';
 import {
   HookLoader,
   HookExecutor,
@@ -84,11 +85,24 @@ import { createSecretsManager, registerSecretsTools, type SecretsManager } from
 import { JobManager, createJobTools } from '../jobs';
 import { createMessagesManager, registerMessagesTools, type MessagesManager } from '../messages';
 import { createWebhooksManager, registerWebhookTools, type WebhooksManager } from '../webhooks';
+import { McpManager, registerMcpTools } from '../mcp';
 import { createChannelsManager, registerChannelTools, ChannelAgentPool, type ChannelsManager } from '../channels';
 import { createPeopleManager, type PeopleManager } from '../people';
 import { createTelephonyManager, registerTelephonyTools, type TelephonyManager } from '../telephony';
 import { createOrdersManager, registerOrderTools, type OrdersManager } from '../orders';
-import { registerSessionTools, type SessionContext, type SessionQueryFunctions } from '../sessions';
+import {
+  registerSessionTools,
+  registerSessionSearchTools,
+  CheckpointStore,
+  getToolWritePaths,
+  forkSession,
+  type Checkpoint,
+  type ForkSessionResult,
+  type RewindResult,
+  type SessionContext,
+  type SessionQueryFunctions,
+} from '../sessions';
+import { SessionStorage } from '../logger';
 import { registerProjectTools, type ProjectToolContext } from '../tools/projects';
 import { registerSelfAwarenessTools } from '../tools/self-awareness';
 import { registerMemoryTools } from '../tools/memory';
@@ -99,13 +113,25 @@ import { registerVoiceTools } from '../tools/voice';
 import { registerTaskTools } from '../tools/tasks';
 import { registerSwarmTools, type SwarmToolContext } from '../tools/swarm';
 import { SwarmCoordinator, type SwarmCoordinatorContext } from '../swarm/coordinator';
-import { GlobalMemoryManager, MemoryInjector, type MemoryConfig } from '../memory';
-import { SubassistantManager, type SubassistantManagerContext, type SubassistantResult, type SubassistantLoopConfig } from './subagent-manager';
+import { SwarmRunStore } from '../swarm/store';
+import { TaskQueueRunner, createSubassistantTaskExecutor } from '../tasks/runner';
+import { GlobalMemoryManager, MemoryConsolidator, MemoryInjector, type MemoryConfig } from '../memory';
+import { SubassistantManager, type SubassistantManagerContext, type SubassistantResult, type SubassistantLoopConfig, type SubassistantTool } from './subagent-manager';
 import { BudgetTracker, registerBudgetTools, type BudgetScope } from '../budget';
-import { PolicyEvaluator, GuardrailsStore, registerGuardrailsTools, type GuardrailsConfig, type PolicyEvaluationResult } from '../guardrails';
+import {
+  PolicyEvaluator,
+  GuardrailsStore,
+  GuardrailsAuditLog,
+  GuardrailsRateLimiter,
+  registerGuardrailsTools,
+  type EvaluationContext,
+  type GuardrailsConfig,
+  type PolicyCondition,
+  type PolicyEvaluationResult,
+} from '../guardrails';
 import { getGlobalRegistry, type AssistantRegistryService, type RegisteredAssistant, type AssistantType } from '../registry';
 import { CapabilityEnforcer, type CapabilityEnforcementResult } from '../capabilities';
-import type { BudgetConfig, CapabilitiesConfigShared } from '@hasna/assistants-shared';
+import type { BudgetConfig, CapabilitiesConfigShared, HookHandler, HookOutput } from '@hasna/assistants-shared';
 
 export interface AssistantLoopOptions {
   config?: AssistantsConfig;
@@ -130,14 +156,31 @@ export interface AssistantLoopOptions {
   depth?: number;
   /** Budget configuration for resource limits */
   budgetConfig?: BudgetConfig;
+  /** Shared budget tracker (e.g. the parent's, for subassistants) */
+  budgetTracker?: BudgetTracker;
+  /** Record LLM usage under this assistant in the budget tracker */
+  budgetAssistantId?: string;
   /** Callback when budget warning/exceeded occurs */
   onBudgetWarning?: (warning: string) => void;
+  /** Shared MCP manager (e.g. the parent's, for subassistants); never connected or shut down by this loop */
+  mcpManager?: McpManager;
   /** Guardrails configuration for security policies */
   guardrailsConfig?: GuardrailsConfig;
   /** Callback when guardrails violation occurs */
   onGuardrailsViolation?: (result: PolicyEvaluationResult, toolName: string) => void;
+  /** Shared guardrails rate limit counters (e.g. the parent's, for subassistants) */
+  guardrailsRateLimiter?: GuardrailsRateLimiter;
+  /** Checkpoint store to record file snapshots in (e.g. the parent's, for subassistants) */
+  checkpointStore?: CheckpointStore;
+  /** Called after the conversation was rewound to a checkpoint */
+  onRewind?: (checkpoint: Checkpoint) => void;
+  /** Tools registered only in this loop (e.g. swarm collaboration tools for a worker) */
+  extraTools?: SubassistantTool[];
 }
 
+/** How long the first turn waits for MCP servers still connecting */
+const MCP_STARTUP_WAIT_MS = 5000;
+
 /**
  * Main assistant loop - orchestrates the conversation
  */
@@ -159,6 +202,7 @@ export class AssistantLoop {
   private connectorBridge: ConnectorBridge;
   private skillLoader: SkillLoader;
   private skillExecutor: SkillExecutor;
+  private skillArgumentToolNames = new Set<string>();
   private hookLoader: HookLoader;
   private hookExecutor: HookExecutor;
   private scopeContextManager: ScopeContextManager;
@@ -166,6 +210,8 @@ export class AssistantLoop {
   private commandExecutor: CommandExecutor;
   private builtinCommands: BuiltinCommands;
   private llmClient: LLMClient | null = null;
+  /** Main provider API key, held while a custom provider is active */
+  private mainApiKey?: string;
   private config: AssistantsConfig | null = null;
   private allowedTools: Set<string> | null = null;
   private currentAllowedTools: Set<string> | null = null;
@@ -194,6 +240,11 @@ export class AssistantLoop {
   private jobManager: JobManager | null = null;
   private messagesManager: MessagesManager | null = null;
   private webhooksManager: WebhooksManager | null = null;
+  private mcpManager: McpManager | null = null;
+  private mcpConnection: Promise<void> | null = null;
+  private mcpPromptSkillNames: Set<string> = new Set();
+  private sharedMcpManager = false;
+  private removeMcpListener: (() => void) | null = null;
   private channelsManager: ChannelsManager | null = null;
   private channelAgentPool: ChannelAgentPool | null = null;
   private peopleManager: PeopleManager | null = null;
@@ -221,8 +272,16 @@ export class AssistantLoop {
   private modelOverride: string | null = null;
   private budgetTracker: BudgetTracker | null = null;
   private budgetConfig: BudgetConfig | null = null;
+  private sharedBudgetTracker = false;
+  private budgetAssistantId: string | undefined;
   private policyEvaluator: PolicyEvaluator | null = null;
   private guardrailsConfig: GuardrailsConfig | null = null;
+  private guardrailsAuditLog: GuardrailsAuditLog | null = null;
+  private guardrailsRateLimiter: GuardrailsRateLimiter;
+  private checkpointStore: CheckpointStore | null = null;
+  private ownsCheckpoints = true;
+  private onRewind?: (checkpoint: Checkpoint) => void;
+  private extraTools: SubassistantTool[] = [];
   private onGuardrailsViolation?: (result: PolicyEvaluationResult, toolName: string) => void;
   private capabilityEnforcer: CapabilityEnforcer | null = null;
   private capabilitiesConfig: CapabilitiesConfigShared | null = null;
@@ -230,6 +289,7 @@ export class AssistantLoop {
   private registryService: AssistantRegistryService | null = null;
   private registeredAssistantId: string | null = null;
   private swarmCoordinator: SwarmCoordinator | null = null;
+  private taskRunner: TaskQueueRunner | null = null;
   private paused = false;
   private pauseResolve: (() => void) | null = null;
 
@@ -271,9 +331,26 @@ export class AssistantLoop {
     this.budgetConfig = options.budgetConfig || null;
     this.guardrailsConfig = options.guardrailsConfig || null;
     this.onGuardrailsViolation = options.onGuardrailsViolation;
+    this.guardrailsRateLimiter = options.guardrailsRateLimiter ?? new GuardrailsRateLimiter();
+    if (options.mcpManager) {
+      this.mcpManager = options.mcpManager;
+      this.sharedMcpManager = true;
+    }
+    if (options.checkpointStore) {
+      // Subassistants snapshot into the parent's checkpoints but never start turns
+      this.checkpointStore = options.checkpointStore;
+      this.ownsCheckpoints = false;
+    }
+    this.onRewind = options.onRewind;
+    this.extraTools = options.extraTools ?? [];
+
+    this.budgetAssistantId = options.budgetAssistantId;
 
     // Initialize budget tracker if config provided
-    if (this.budgetConfig) {
+    if (options.budgetTracker) {
+      this.budgetTracker = options.budgetTracker;
+      this.sharedBudgetTracker = true;
+    } else if (this.budgetConfig) {
       this.budgetTracker = new BudgetTracker(this.sessionId, this.budgetConfig);
     }
 
@@ -318,7 +395,7 @@ export class AssistantLoop {
     if (!this.budgetTracker && this.config.budget) {
       this.budgetConfig = this.config.budget;
       this.budgetTracker = new BudgetTracker(this.sessionId, this.budgetConfig);
-    } else if (this.budgetTracker && this.config.budget) {
+    } else if (this.budgetTracker && this.config.budget && !this.sharedBudgetTracker) {
       // Merge config budget with options budget (options take precedence)
       this.budgetConfig = { ...this.config.budget, ...this.budgetConfig };
       this.budgetTracker.updateConfig(this.budgetConfig);
@@ -346,6 +423,7 @@ export class AssistantLoop {
       this.contextInjector = new ContextInjector(this.cwd, injectionConfig as Partial<ContextInjectionConfig>);
     }
     await this.initializeIdentitySystem();
+    this.syncBudgetOwner();
     await ConnectorAutoRefreshManager.getInstance().start();
 
     // Normalize connectors config to extract enabled list
@@ -427,6 +505,7 @@ export class AssistantLoop {
     this.toolRegistry.register(skillReadTool.tool, skillReadTool.executor);
     const skillExecuteTool = createSkillExecuteTool(() => this.skillLoader);
     this.toolRegistry.register(skillExecuteTool.tool, skillExecuteTool.executor);
+    this.registerSkillArgumentTools();
     const askUserTool = createAskUserTool(() => this.askUserHandler);
     this.toolRegistry.register(askUserTool.tool, askUserTool.executor);
     this.toolRegistry.register(FeedbackTool.tool, FeedbackTool.executor);
@@ -511,6 +590,26 @@ export class AssistantLoop {
       });
     }
 
+    // Connect MCP servers in the background so chat can start immediately;
+    // subassistants use the parent's servers instead of spawning their own
+    const mcpConfig = this.config?.mcp;
+    if (!this.sharedMcpManager && mcpConfig && mcpConfig.enabled !== false && Object.keys(mcpConfig.servers ?? {}).length > 0) {
+      this.mcpManager = new McpManager({ config: mcpConfig, cwd: this.cwd });
+      this.mcpConnection = this.mcpManager.connectAll().catch(() => {});
+    }
+    if (this.mcpManager) {
+      this.mcpManager.attachRegistry(this.toolRegistry);
+      registerMcpTools(this.toolRegistry, () => this.mcpManager);
+      this.removeMcpListener = this.mcpManager.addEventListener((event) => {
+        if (event.type === 'server:prompts') {
+          this.registerMcpPromptSkills();
+        }
+      });
+      if (this.sharedMcpManager) {
+        this.registerMcpPromptSkills();
+      }
+    }
+
     // Initialize channels if enabled
     if (this.config?.channels?.enabled) {
       const assistant = this.assistantManager?.getActive();
@@ -573,6 +672,8 @@ export class AssistantLoop {
             sharedEnabled: memoryConfig?.scopes?.sharedEnabled ?? true,
             privateEnabled: memoryConfig?.scopes?.privateEnabled ?? true,
           },
+          consolidation: memoryConfig?.consolidation,
+          search: memoryConfig?.search,
         },
       });
       this.memoryInjector = new MemoryInjector(this.memoryManager, {
@@ -597,6 +698,12 @@ export class AssistantLoop {
       });
     }
 
+    // Register session search (always available; searches saved transcripts on disk)
+    registerSessionSearchTools(this.toolRegistry, {
+      getAssistantId: () => this.getAssistantId(),
+      getSessionId: () => this.sessionId,
+    });
+
     // Register project tools (always available for managing projects and plans)
     registerProjectTools(this.toolRegistry, () => ({
       cwd: this.cwd,
@@ -731,6 +838,11 @@ export class AssistantLoop {
       isSwarmEnabled: () => this.subassistantManager !== null,
     });
 
+    // Register tools scoped to this loop
+    for (const { tool, executor } of this.extraTools) {
+      this.toolRegistry.register(tool, executor);
+    }
+
     // Register capability tools (for querying assistant capabilities)
     registerCapabilityTools(this.toolRegistry, {
       getCapabilities: () => this.capabilityEnforcer?.getResolvedCapabilities() ?? null,
@@ -834,6 +946,10 @@ export class AssistantLoop {
     this.hookExecutor.setAssistantRunner((hook, input, timeout) =>
       runHookAssistant({ hook, input, timeout, cwd: this.cwd })
     );
+    this.hookExecutor.setContextProvider(() => ({
+      messages: this.context.getMessages(),
+      llmClient: this.llmClient ?? undefined,
+    }));
 
     // Set system prompt (store for re-use on clear)
     this.systemPrompt = systemPrompt || null;
@@ -976,6 +1092,8 @@ You are running in **autonomous mode**. You manage your own wakeup schedule.
     this.cumulativeTurns = 0;
 
     try {
+      // Let MCP servers finish connecting so their tools are available
+      await this.waitForMcpServers();
       // Inject pending messages before processing
       await this.injectPendingMessages();
       // Inject pending webhook events before processing
@@ -1036,7 +1154,7 @@ You are running in **autonomous mode**. You manage your own wakeup schedule.
         }
       }
 
-      const explicitToolResult = await this.handleExplicitToolCommand(userMessage);
+      const explicitToolResult = await this.handleExplicitToolCommand(userMessage, source);
       if (explicitToolResult) {
         // Clear pending context - explicit tool commands bypass the LLM
         this.pendingMemoryContext = null;
@@ -1076,6 +1194,7 @@ You are running in **autonomous mode**. You manage your own wakeup schedule.
                 number: commandResult.sessionNumber,
                 label: commandResult.sessionLabel,
                 agent: commandResult.sessionAgent,
+                sessionId: commandResult.sessionId,
               });
               this.emit({
                 type: 'show_panel',
@@ -1134,7 +1253,7 @@ You are running in **autonomous mode**. You manage your own wakeup schedule.
         }
       }
 
-      this.context.addUserMessage(userMessage);
+      this.addUserTurn(userMessage, source === 'user');
       await this.runLoop();
       this.contextManager?.refreshState(this.context.getMessages());
 
@@ -1154,7 +1273,8 @@ You are running in **autonomous mode**. You manage your own wakeup schedule.
   }
 
   private async handleExplicitToolCommand(
-    userMessage: string
+    userMessage: string,
+    source: 'user' | 'schedule'
   ): Promise<{ ok: boolean; summary?: string; error?: string } | null> {
     const match = userMessage.match(/^!\[(\w+)\]\s*([\s\S]*)$/);
     if (!match) return null;
@@ -1184,7 +1304,7 @@ You are running in **autonomous mode**. You manage your own wakeup schedule.
       },
     };
 
-    this.context.addUserMessage(userMessage);
+    this.addUserTurn(userMessage, source === 'user');
     this.context.addAssistantMessage('', [toolCall]);
 
     this.emit({ type: 'tool_use', toolCall });
@@ -1257,6 +1377,12 @@ You are running in **autonomous mode**. You manage your own wakeup schedule.
 
         let responseText = '';
         let toolCalls: ToolCall[] = [];
+        const thinkingBlocks: ThinkingBlock[] = [];
+
+        if (!this.checkGuardrailsLlmRateLimit()) {
+          break;
+        }
+        this.guardrailsRateLimiter.record('llm');
 
         // Stream response from LLM
         for await (const chunk of this.llmClient!.chat(messages, tools, systemPrompt)) {
@@ -1266,11 +1392,13 @@ You are running in **autonomous mode**. You manage your own wakeup schedule.
 
           if (chunk.type === 'text' && chunk.content) {
             responseText += chunk.content;
+          } else if (chunk.type === 'thinking' && chunk.thinking) {
+            thinkingBlocks.push(chunk.thinking);
           } else if (chunk.type === 'tool_use' && chunk.toolCall) {
             toolCalls.push(chunk.toolCall);
           } else if (chunk.type === 'usage' && chunk.usage) {
             // Update token usage
-            this.updateTokenUsage(chunk.usage);
+            this.updateTokenUsage(chunk.usage, toolCalls.map((call) => call.name));
           } else if (chunk.type === 'error') {
             this.recordLLMError(chunk.error);
             streamError = new Error(chunk.error || 'LLM stream error');
@@ -1281,7 +1409,11 @@ You are running in **autonomous mode**. You manage your own wakeup schedule.
         // Add assistant message if any content/tool calls
         const shouldStopNow = this.shouldStop || streamError !== null;
         if (responseText.trim() || toolCalls.length > 0) {
-          this.context.addAssistantMessage(responseText, toolCalls.length > 0 ? toolCalls : undefined);
+          this.context.addAssistantMessage(
+            responseText,
+            toolCalls.length > 0 ? toolCalls : undefined,
+            thinkingBlocks
+          );
         }
 
         // If stopped or error mid-stream, don't execute tool calls
@@ -1469,8 +1601,10 @@ You are running in **autonomous mode**. You manage your own wakeup schedule.
       actionDescription = `reading: ${String(toolInput.file_path)}`;
     } else if (toolName === 'write' && toolInput && typeof toolInput === 'object' && 'file_path' in toolInput) {
       actionDescription = `writing to: ${String(toolInput.file_path)}`;
-    } else if (toolName === 'edit' && toolInput && typeof toolInput === 'object' && 'file_path' in toolInput) {
-      actionDescription = `editing: ${String(toolInput.file_path)}`;
+    } else if (toolName === 'edit' && toolInput && typeof toolInput === 'object' && ('path' in toolInput || 'file_path' in toolInput)) {
+      actionDescription = `editing: ${String(toolInput.path ?? toolInput.file_path)}`;
+    } else if (toolName === 'apply_patch') {
+      actionDescription = 'applying a patch';
     } else if (toolName === 'glob' && toolInput && typeof toolInput === 'object' && 'pattern' in toolInput) {
       actionDescription = `searching for files matching: ${String(toolInput.pattern)}`;
     } else if (toolName === 'grep' && toolInput && typeof toolInput === 'object' && 'pattern' in toolInput) {
@@ -1587,64 +1721,84 @@ You are running in **autonomous mode**. You manage your own wakeup schedule.
 
       // Check guardrails policy if enabled
       if (this.policyEvaluator?.isEnabled()) {
-        const policyResult = this.policyEvaluator.evaluateToolUse({
+        const evaluationContext: EvaluationContext = {
           toolName: toolCall.name,
           toolInput: toolCall.input as Record<string, unknown>,
           depth: this.depth,
-        });
+          sessionDuration: Date.now() - this.sessionStartTime,
+          context: this.getGuardrailsContext(),
+          rateCounts: this.guardrailsRateLimiter.getCounts(),
+        };
+        evaluationContext.customConditions = await this.policyEvaluator.resolveCustomConditions(
+          evaluationContext,
+          (hook, context, condition) => this.runGuardrailsConditionHook(hook, context, condition)
+        );
+        const policyResult = this.policyEvaluator.evaluateToolUse(evaluationContext);
+        const guardrailsMode = this.policyEvaluator.getMode();
+
+        // Audit mode logs every decision without enforcing it
+        if (guardrailsMode === 'audit' || this.policyEvaluator.getConfig().logEvaluations) {
+          this.guardrailsAuditLog ??= new GuardrailsAuditLog();
+          this.guardrailsAuditLog.record(toolCall.name, policyResult, {
+            mode: guardrailsMode,
+            sessionId: this.sessionId,
+          });
+        }
 
-        // Handle warnings (log them - they don't block execution)
-        if (policyResult.warnings.length > 0) {
-          for (const warning of policyResult.warnings) {
-            // Use the callback if available, otherwise warnings are silent
-            this.onGuardrailsViolation?.(policyResult, toolCall.name);
+        if (guardrailsMode === 'enforce') {
+          // Handle warnings (log them - they don't block execution)
+          if (policyResult.warnings.length > 0) {
+            for (const warning of policyResult.warnings) {
+              // Use the callback if available, otherwise warnings are silent
+              this.onGuardrailsViolation?.(policyResult, toolCall.name);
+            }
           }
-        }
 
-        // If denied, block the tool call
-        if (!policyResult.allowed && policyResult.action === 'deny') {
-          const reason = policyResult.reasons.join('; ') || 'Blocked by guardrails policy';
-          const blockedResult: ToolResult = {
-            toolCallId: toolCall.id,
-            content: `Tool call denied by guardrails: ${reason}`,
-            isError: true,
-            toolName: toolCall.name,
-          };
-          this.emit({ type: 'tool_result', toolResult: blockedResult });
-          this.onGuardrailsViolation?.(policyResult, toolCall.name);
-          await this.hookExecutor.execute(this.hookLoader.getHooks('PostToolUseFailure'), {
-            session_id: this.sessionId,
-            hook_event_name: 'PostToolUseFailure',
-            cwd: this.cwd,
-            tool_name: toolCall.name,
-            tool_input: toolCall.input,
-            tool_result: blockedResult.content,
-          });
-          results.push(blockedResult);
-          continue;
-        }
+          // If denied, block the tool call
+          if (!policyResult.allowed && policyResult.action === 'deny') {
+            const reason = policyResult.reasons.join('; ') || 'Blocked by guardrails policy';
+            const blockedResult: ToolResult = {
+              toolCallId: toolCall.id,
+              content: `Tool call denied by guardrails: ${reason}`,
+              isError: true,
+              toolName: toolCall.name,
+            };
+            this.emit({ type: 'tool_result', toolResult: blockedResult });
+            this.onGuardrailsViolation?.(policyResult, toolCall.name);
+            await this.hookExecutor.execute(this.hookLoader.getHooks('PostToolUseFailure'), {
+              session_id: this.sessionId,
+              hook_event_name: 'PostToolUseFailure',
+              cwd: this.cwd,
+              tool_name: toolCall.name,
+              tool_input: toolCall.input,
+              tool_result: blockedResult.content,
+            });
+            results.push(blockedResult);
+            continue;
+          }
 
-        // If requires approval, emit the need for approval
-        if (policyResult.requiresApproval) {
-          const reason = policyResult.reasons.join('; ') || 'Requires approval per guardrails policy';
-          const approvalResult: ToolResult = {
-            toolCallId: toolCall.id,
-            content: `Tool call requires approval: ${reason}`,
-            isError: true,
-            toolName: toolCall.name,
-          };
-          this.emit({ type: 'tool_result', toolResult: approvalResult });
-          this.onGuardrailsViolation?.(policyResult, toolCall.name);
-          await this.hookExecutor.execute(this.hookLoader.getHooks('PostToolUseFailure'), {
-            session_id: this.sessionId,
-            hook_event_name: 'PostToolUseFailure',
-            cwd: this.cwd,
-            tool_name: toolCall.name,
-            tool_input: toolCall.input,
-            tool_result: approvalResult.content,
-          });
-          results.push(approvalResult);
-          continue;
+          // If requires approval, emit the need for approval
+          if (policyResult.requiresApproval) {
+            const reason = policyResult.reasons.join('; ') || 'Requires approval per guardrails policy';
+            const approvalResult: ToolResult = {
+              toolCallId: toolCall.id,
+              content: `Tool call requires approval: ${reason}`,
+              isError: true,
+              toolName: toolCall.name,
+            };
+            this.emit({ type: 'tool_result', toolResult: approvalResult });
+            this.onGuardrailsViolation?.(policyResult, toolCall.name);
+            await this.hookExecutor.execute(this.hookLoader.getHooks('PostToolUseFailure'), {
+              session_id: this.sessionId,
+              hook_event_name: 'PostToolUseFailure',
+              cwd: this.cwd,
+              tool_name: toolCall.name,
+              tool_input: toolCall.input,
+              tool_result: approvalResult.content,
+            });
+            results.push(approvalResult);
+            continue;
+          }
         }
       }
 
@@ -1821,11 +1975,32 @@ You are running in **autonomous mode**. You manage your own wakeup schedule.
       this.pendingToolCalls.set(toolCall.id, toolCall.name);
       this.onToolStart?.(toolCall);
 
+      // Snapshot files before the tool changes them so /rewind can restore them
+      this.snapshotToolWrites(toolCall);
+
       // Execute the tool with timing
+      this.guardrailsRateLimiter.recordToolCall(toolCall.name);
       const toolStartTime = Date.now();
-      const result = await this.toolRegistry.execute(toolCall, signal);
+      const result = await this.toolRegistry.execute(toolCall, signal, (update) => {
+        if (this.shouldStop) return;
+        this.emit({
+          type: 'tool_progress',
+          toolProgress: { ...update, toolCallId: toolCall.id, toolName: toolCall.name },
+        });
+      });
       const toolDuration = Date.now() - toolStartTime;
 
+      // Redact restricted data before it reaches the model or the session log
+      if (this.policyEvaluator?.isEnabled() && this.policyEvaluator.getMode() === 'enforce') {
+        const redaction = this.policyEvaluator.redactToolOutput(
+          { toolName: toolCall.name, toolInput: toolCall.input as Record<string, unknown> },
+          result.content
+        );
+        if (redaction.redacted) {
+          result.content = redaction.content;
+        }
+      }
+
       // Record tool call in budget tracker
       this.recordToolCallBudget(toolDuration);
 
@@ -1876,6 +2051,9 @@ You are running in **autonomous mode**. You manage your own wakeup schedule.
   private async handleCommand(message: string): Promise<CommandResult> {
     const parsed = this.commandExecutor.parseCommand(message);
     const command = parsed ? this.commandLoader.getCommand(parsed.name) : undefined;
+    if (parsed?.name === 'mcp') {
+      await this.waitForMcpServers();
+    }
     if (parsed?.name === 'connectors' && this.connectorDiscovery) {
       try {
         await this.connectorDiscovery;
@@ -1904,6 +2082,7 @@ You are running in **autonomous mode**. You manage your own wakeup schedule.
       })),
       getContextInfo: () => this.getContextInfo(),
       getModel: () => this.llmClient?.getModel(),
+      getLLMConfig: () => this.config?.llm ?? null,
       summarizeContext: async () => {
         if (!this.contextManager) {
           return {
@@ -1929,19 +2108,27 @@ You are running in **autonomous mode**. You manage your own wakeup schedule.
       getSecretsManager: () => this.secretsManager,
       getMessagesManager: () => this.messagesManager,
       getWebhooksManager: () => this.webhooksManager,
+      getMcpManager: () => this.mcpManager,
       getChannelsManager: () => this.channelsManager,
       getChannelAgentPool: () => this.channelAgentPool,
       getPeopleManager: () => this.peopleManager,
       getTelephonyManager: () => this.telephonyManager,
       getOrdersManager: () => this.ordersManager,
       getMemoryManager: () => this.memoryManager,
+      consolidateMemory: async (options) => {
+        if (!this.memoryManager) {
+          throw new Error('Memory system not available.');
+        }
+        const consolidator = new MemoryConsolidator(this.memoryManager, { llmClient: this.llmClient });
+        return consolidator.run(options);
+      },
       refreshIdentityContext: async () => {
         if (this.identityManager) {
           this.identityContext = await this.identityManager.buildSystemPromptContext();
         }
       },
       refreshSkills: async () => {
-        await this.skillLoader.loadAll(this.cwd, { includeContent: false });
+        await this.refreshSkills();
       },
       switchAssistant: async (assistantId: string) => {
         await this.switchAssistant(assistantId);
@@ -2030,6 +2217,7 @@ You are running in **autonomous mode**. You manage your own wakeup schedule.
           // Create tracker if enabling and we have config
           this.budgetTracker = new BudgetTracker(this.sessionId, this.budgetConfig);
           this.budgetTracker.setEnabled(true);
+          this.syncBudgetOwner();
         }
       },
       resetBudget: (scope?: BudgetScope) => {
@@ -2084,7 +2272,24 @@ You are running in **autonomous mode**. You manage your own wakeup schedule.
           this.policyEvaluator.updateConfig({ ...config, defaultAction: action });
         }
       },
+      setGuardrailsMode: (mode) => {
+        if (this.policyEvaluator) {
+          this.policyEvaluator.setMode(mode);
+        } else {
+          this.guardrailsConfig = {
+            enabled: true,
+            mode,
+            policies: [],
+            defaultAction: 'allow',
+          };
+          this.policyEvaluator = new PolicyEvaluator(this.guardrailsConfig);
+        }
+      },
       getSwarmCoordinator: () => this.getOrCreateSwarmCoordinator(),
+      getTaskRunner: () => this.getOrCreateTaskRunner(),
+      listCheckpoints: () => this.listCheckpoints(),
+      rewindToCheckpoint: (ref, options) => this.rewindToCheckpoint(ref, options),
+      forkSession: (ref) => this.forkSession(ref),
     };
 
     const result = await this.commandExecutor.execute(message, context);
@@ -2140,7 +2345,19 @@ You are running in **autonomous mode**. You manage your own wakeup schedule.
       this.context.addAssistantMessage(`Skill "${skillName}" could not be loaded.`);
       return true;
     }
-    const content = await this.skillExecutor.prepare(hydrated, argsList);
+    let content: string;
+    if (hydrated.arguments) {
+      try {
+        const values = parseSkillArguments(hydrated, args || '');
+        content = await this.skillExecutor.prepare(hydrated, [], values);
+      } catch (error) {
+        if (!(error instanceof SkillArgumentError)) throw error;
+        this.emit({ type: 'text', content: `${error.message}\n${formatSkillUsage(hydrated)}\n` });
+        return true;
+      }
+    } else {
+      content = await this.skillExecutor.prepare(hydrated, argsList);
+    }
 
     // Add skill content as context
     this.currentAllowedTools = this.normalizeAllowedTools(skill.allowedTools);
@@ -2241,6 +2458,8 @@ You are running in **autonomous mode**. You manage your own wakeup schedule.
       this.heartbeatTimer = null;
     }
     this.heartbeatManager?.stop();
+    // Return running queue tasks to the queue
+    this.taskRunner?.stop().catch(() => {});
     // Deregister from registry
     this.deregisterFromRegistry();
     this.energyManager?.stop();
@@ -2250,6 +2469,15 @@ You are running in **autonomous mode**. You manage your own wakeup schedule.
     this.messagesManager?.stopWatching();
     // Stop webhook watching
     this.webhooksManager?.stopWatching();
+    // Disconnect MCP servers (stops stdio server processes); a shared
+    // manager belongs to the parent, which keeps its servers running
+    this.removeMcpListener?.();
+    this.removeMcpListener = null;
+    if (this.sharedMcpManager) {
+      this.mcpManager?.detachRegistry(this.toolRegistry);
+    } else {
+      this.mcpManager?.shutdown().catch(() => {});
+    }
     // Close channels database connection and agent pool
     this.channelAgentPool?.shutdown();
     this.channelAgentPool = null;
@@ -2371,6 +2599,10 @@ You are running in **autonomous mode**. You manage your own wakeup schedule.
     return this.webhooksManager;
   }
 
+  getMcpManager(): McpManager | null {
+    return this.mcpManager;
+  }
+
   getChannelsManager(): ChannelsManager | null {
     return this.channelsManager;
   }
@@ -2413,6 +2645,119 @@ You are running in **autonomous mode**. You manage your own wakeup schedule.
     return this.assistantManager?.getActiveId() ?? null;
   }
 
+  /**
+   * Checkpoint store for this session (created on first use)
+   */
+  getCheckpointStore(): CheckpointStore | null {
+    if (!this.checkpointStore) {
+      try {
+        this.checkpointStore = new CheckpointStore(this.sessionId);
+      } catch {
+        return null;
+      }
+    }
+    return this.checkpointStore;
+  }
+
+  /**
+   * Checkpoints recorded for this session, oldest first
+   */
+  listCheckpoints(): Checkpoint[] {
+    return this.getCheckpointStore()?.list() ?? [];
+  }
+
+  /**
+   * Rewind the conversation and/or the workspace to a checkpoint.
+   * The checkpoint's own turn is removed, so the user can send it again.
+   */
+  rewindToCheckpoint(
+    ref: string,
+    options: { conversation?: boolean; files?: boolean } = {}
+  ): RewindResult {
+    const store = this.getCheckpointStore();
+    const checkpoint = store?.resolve(ref);
+    if (!store || !checkpoint) {
+      throw new Error(`Checkpoint not found: ${ref}`);
+    }
+
+    const result: RewindResult = { checkpoint, conversationRestored: false, removedMessages: 0 };
+    if (options.files !== false) {
+      result.files = store.restoreFiles(checkpoint.id);
+    }
+    if (options.conversation !== false) {
+      const messages = this.context.getMessages();
+      let end = checkpoint.messageId
+        ? messages.findIndex((message) => message.id === checkpoint.messageId)
+        : -1;
+      if (end === -1 && messages[checkpoint.messageIndex]?.role === 'user') {
+        end = checkpoint.messageIndex;
+      }
+      if (end !== -1) {
+        result.removedMessages = messages.length - end;
+        this.context.import(messages.slice(0, end));
+        this.contextManager?.refreshState(this.context.getMessages());
+        result.conversationRestored = true;
+      }
+      store.truncate(checkpoint.id);
+      this.onRewind?.(checkpoint);
+    }
+    return result;
+  }
+
+  /**
+   * Branch this session into a new session ID, optionally from before a checkpoint
+   */
+  forkSession(ref?: string): ForkSessionResult {
+    const store = this.getCheckpointStore();
+    let checkpoint: Checkpoint | null = null;
+    if (ref) {
+      checkpoint = store?.resolve(ref) ?? null;
+      if (!checkpoint) {
+        throw new Error(`Checkpoint not found: ${ref}`);
+      }
+    }
+    const assistantId = this.getAssistantId();
+    // The saved session holds the full history; the context may have been summarized
+    const saved = new SessionStorage(this.sessionId, undefined, assistantId).load();
+    return forkSession({
+      sessionId: this.sessionId,
+      assistantId,
+      cwd: this.cwd,
+      messages: (saved?.messages as Message[] | undefined) ?? this.context.getMessages(),
+      checkpoint,
+      checkpoints: store,
+    });
+  }
+
+  /**
+   * Add a user message, starting a checkpoint for the turn
+   */
+  private addUserTurn(content: string, checkpoint: boolean): void {
+    const messageIndex = this.context.getMessages().length;
+    const message = this.context.addUserMessage(content);
+    if (!checkpoint || !this.ownsCheckpoints) return;
+    try {
+      this.getCheckpointStore()?.create({ messageIndex, messageId: message.id, prompt: content });
+    } catch {
+      // Checkpoints are best-effort
+    }
+  }
+
+  /**
+   * Snapshot the files a tool call is about to change into the current checkpoint
+   */
+  private snapshotToolWrites(toolCall: ToolCall): void {
+    try {
+      const input = (toolCall.input ?? {}) as Record<string, unknown>;
+      const paths = getToolWritePaths(toolCall.name, input, this.cwd);
+      if (paths.length > 0) {
+        this.getCheckpointStore()?.snapshot(paths);
+      }
+    } catch {
+      // Checkpoints are best-effort
+    }
+  }
+
   getIdentityInfo(): ActiveIdentityInfo {
     return {
       assistant: this.assistantManager?.getActive() ?? null,
@@ -2425,6 +2770,7 @@ You are running in **autonomous mode**. You manage your own wakeup schedule.
       throw new Error('Assistant manager not initialized');
     }
     await this.assistantManager.switchAssistant(assistantId);
+    this.syncBudgetOwner();
     const active = this.assistantManager.getActive();
     if (!active) {
       this.identityManager = null;
@@ -2459,22 +2805,34 @@ You are running in **autonomous mode**. You manage your own wakeup schedule.
     const { getModelById, getProviderForModel } = await import('../llm/models');
 
     const modelDef = getModelById(modelId);
-    if (!modelDef) {
+    // Models on configured providers are addressed as "<provider>:<model>"
+    const separator = modelId.indexOf(':');
+    const customProviderId = separator > 0 ? modelId.slice(0, separator) : '';
+    const customProvider = customProviderId ? this.config.llm.providers?.[customProviderId] : undefined;
+
+    let newConfig: LLMConfig;
+    let contextWindow: number;
+    if (modelDef) {
+      const provider = getProviderForModel(modelId);
+      if (!provider) {
+        throw new Error(`Cannot determine provider for model: ${modelId}`);
+      }
+      newConfig = { ...this.config.llm, provider, model: modelId };
+      if (!newConfig.apiKey && this.mainApiKey) {
+        newConfig.apiKey = this.mainApiKey;
+      }
+      contextWindow = modelDef.contextWindow;
+    } else if (customProvider) {
+      // The main API key must never reach a custom provider's server; keep it for switching back
+      const { apiKey, ...llm } = this.config.llm;
+      this.mainApiKey = apiKey ?? this.mainApiKey;
+      newConfig = { ...llm, provider: customProviderId, model: modelId.slice(separator + 1) };
+      contextWindow = customProvider.contextWindow ?? 128000;
+    } else {
       throw new Error(`Unknown model: ${modelId}. Use /model list to see available models.`);
     }
 
-    const provider = getProviderForModel(modelId);
-    if (!provider) {
-      throw new Error(`Cannot determine provider for model: ${modelId}`);
-    }
-
     // Create new LLM client with the new model
-    const newConfig = {
-      ...this.config.llm,
-      provider,
-      model: modelId,
-    };
-
     this.llmClient = await createLLMClient(newConfig);
     this.hookExecutor.setLLMClient(this.llmClient);
 
@@ -2487,11 +2845,11 @@ You are running in **autonomous mode**. You manage your own wakeup schedule.
     if (this.contextConfig) {
       const limits = getLimits();
       // Use config's maxContextTokens if set, otherwise use the model's context window
-      const configuredMax = this.config.context?.maxContextTokens ?? modelDef.contextWindow;
+      const configuredMax = this.config.context?.maxContextTokens ?? contextWindow;
       // Cap at both validation limits and model's actual context window
       const newMaxContextTokens = Math.max(
         1000,
-        Math.min(configuredMax, limits.maxTotalContextTokens, modelDef.contextWindow)
+        Math.min(configuredMax, limits.maxTotalContextTokens, contextWindow)
       );
 
       this.contextConfig.maxContextTokens = newMaxContextTokens;
@@ -2538,6 +2896,51 @@ You are running in **autonomous mode**. You manage your own wakeup schedule.
    */
   async refreshSkills(): Promise<void> {
     await this.skillLoader.loadAll(this.cwd, { includeContent: false });
+    this.registerSkillArgumentTools();
+  }
+
+  /**
+   * Register one tool per skill with a typed argument schema, replacing
+   * tools left over from a previous skill load.
+   */
+  private registerSkillArgumentTools(): void {
+    for (const name of this.skillArgumentToolNames) {
+      this.toolRegistry.unregister(name);
+    }
+    this.skillArgumentToolNames.clear();
+    const tools = createSkillArgumentTools(this.skillLoader.getSkills(), () => this.skillLoader);
+    for (const { tool, executor } of tools) {
+      if (this.toolRegistry.hasTool(tool.name)) continue;
+      this.toolRegistry.register(tool, executor);
+      this.skillArgumentToolNames.add(tool.name);
+    }
+  }
+
+  /**
+   * Offer the prompts of connected MCP servers as skills, replacing the
+   * previous set
+   */
+  private registerMcpPromptSkills(): void {
+    for (const name of this.mcpPromptSkillNames) {
+      this.skillLoader.removeSkill(name);
+    }
+    this.mcpPromptSkillNames.clear();
+    for (const skill of this.mcpManager?.getPromptSkills() ?? []) {
+      // Skills on disk take precedence
+      if (this.skillLoader.getSkill(skill.name)) continue;
+      this.skillLoader.addSkill(skill);
+      this.mcpPromptSkillNames.add(skill.name);
+    }
+  }
+
+  /**
+   * Wait (briefly) for MCP servers still connecting from startup
+   */
+  private async waitForMcpServers(): Promise<void> {
+    const connection = this.mcpConnection;
+    if (!connection) return;
+    this.mcpConnection = null;
+    await Promise.race([connection, sleep(MCP_STARTUP_WAIT_MS)]);
   }
 
   /**
@@ -2588,8 +2991,9 @@ You are running in **autonomous mode**. You manage your own wakeup schedule.
 
   /**
    * Update token usage (called by LLM client)
+   * toolNames are the tools requested in the same turn, for cost attribution.
    */
-  updateTokenUsage(usage: Partial<TokenUsage>): void {
+  updateTokenUsage(usage: Partial<TokenUsage>, toolNames?: string[]): void {
     this.builtinCommands.updateTokenUsage(usage);
     this.onTokenUsage?.(this.builtinCommands.getTokenUsage());
 
@@ -2598,12 +3002,92 @@ You are running in **autonomous mode**. You manage your own wakeup schedule.
       this.budgetTracker.recordLlmCall(
         usage.inputTokens || 0,
         usage.outputTokens || 0,
-        0 // Duration tracked separately
+        0, // Duration tracked separately
+        this.budgetAssistantId,
+        {
+          cacheReadTokens: usage.cacheReadTokens,
+          cacheWriteTokens: usage.cacheWriteTokens,
+          model: this.llmClient?.getModel() ?? this.config?.llm?.model,
+          toolNames,
+        }
       );
       this.checkBudgetWarnings();
     }
   }
 
+  /**
+   * Attribute this loop's budget usage to the active assistant, so
+   * rolling-window assistant limits follow it across sessions
+   */
+  private syncBudgetOwner(): void {
+    if (!this.budgetTracker || this.sharedBudgetTracker) return;
+    this.budgetTracker.setOwnerAssistant(this.assistantManager?.getActive()?.id ?? null);
+  }
+
+  /**
+   * Facts available to 'context_has' guardrails conditions
+   */
+  private getGuardrailsContext(): Record<string, unknown> {
+    const context: Record<string, unknown> = {
+      sessionId: this.sessionId,
+      cwd: this.cwd,
+    };
+    if (this.registeredAssistantId) {
+      context.assistantId = this.registeredAssistantId;
+    }
+    if (this.depth > 0) {
+      context.subassistant = true;
+    }
+    const model = this.llmClient?.getModel();
+    if (model) {
+      context.model = model;
+    }
+    return context;
+  }
+
+  /**
+   * Run the hook behind a 'custom' guardrails condition
+   */
+  private runGuardrailsConditionHook(
+    hook: HookHandler,
+    context: EvaluationContext,
+    condition: PolicyCondition
+  ): Promise<HookOutput | null> {
+    return this.hookExecutor.execute([{ hooks: [hook] }], {
+      session_id: this.sessionId,
+      hook_event_name: 'PreToolUse',
+      cwd: this.cwd,
+      tool_name: context.toolName,
+      tool_input: context.toolInput,
+      guardrails_condition: String(condition.value),
+    });
+  }
+
+  /**
+   * Check guardrails LLM rate limits before a call; false stops the turn
+   */
+  private checkGuardrailsLlmRateLimit(): boolean {
+    if (!this.policyEvaluator?.isEnabled()) return true;
+
+    const result = this.policyEvaluator.evaluateLlmCall(this.guardrailsRateLimiter.count('llm'));
+    if (result.matchedRules.length === 0) return true;
+
+    const mode = this.policyEvaluator.getMode();
+    if (mode === 'audit' || this.policyEvaluator.getConfig().logEvaluations) {
+      this.guardrailsAuditLog ??= new GuardrailsAuditLog();
+      this.guardrailsAuditLog.record('llm', result, { mode, sessionId: this.sessionId });
+    }
+    if (mode !== 'enforce') return true;
+
+    this.onGuardrailsViolation?.(result, 'llm');
+    if (!result.allowed) {
+      const reason = result.reasons.join('; ') || 'LLM rate limit exceeded';
+      this.emit({ type: 'text', content: `\n[Guardrails: ${reason}. Stopping.]\n` });
+      return false;
+    }
+    return true;
+  }
+
   /**
    * Record a tool call in the budget tracker
    */
@@ -2631,6 +3115,20 @@ You are running in **autonomous mode**. You manage your own wakeup schedule.
       }
     }
 
+    // Also answer to per-assistant limits (subassistants, or the owning assistant)
+    const budgetAssistantId = this.budgetAssistantId ?? this.budgetTracker.getOwnerAssistant();
+    if (budgetAssistantId) {
+      const assistantStatus = this.budgetTracker.checkBudget('assistant', budgetAssistantId);
+      for (const [_metric, check] of Object.entries(assistantStatus.checks)) {
+        if (check?.warning) {
+          warnings.push(`[assistant] ${check.warning}`);
+        }
+      }
+      if (assistantStatus.overallExceeded) {
+        exceeded = true;
+      }
+    }
+
     // Also check project budget if active
     if (this.budgetTracker.getActiveProject()) {
       const projectStatus = this.budgetTracker.checkBudget('project');
@@ -2677,6 +3175,54 @@ You are running in **autonomous mode**. You manage your own wakeup schedule.
     return this.paused;
   }
 
+  /**
+   * Why work requested from outside the conversation should be refused,
+   * when the budget is exhausted and set to stop or pause
+   */
+  getBudgetBlockReason(): string | null {
+    if (this.paused) {
+      return 'Budget exceeded - assistant is paused. Use /budget resume to continue.';
+    }
+    if (this.isBudgetExceeded() && (this.budgetConfig?.onExceeded || 'warn') !== 'warn') {
+      return 'Budget exceeded';
+    }
+    return null;
+  }
+
+  /**
+   * Run one tool call for an external caller (e.g. an MCP client) with the
+   * same allowed-tools, guardrails, capability, hook and budget checks as
+   * tool calls made during a turn
+   */
+  async executeExternalToolCall(
+    name: string,
+    input: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<ToolResult> {
+    const toolCall: ToolCall = { id: generateId(), name, input: { ...input } };
+    const denied = (reason: string): ToolResult => ({
+      toolCallId: toolCall.id,
+      content: `Tool call denied: ${reason}`,
+      isError: true,
+      toolName: name,
+    });
+
+    const budgetBlock = this.getBudgetBlockReason();
+    if (budgetBlock) return denied(budgetBlock);
+    if (this.isRunning) return denied('the assistant is busy with another request');
+    if (signal?.aborted) return denied('cancelled');
+
+    this.shouldStop = false;
+    const onAbort = () => this.toolAbortController?.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    try {
+      const [result] = await this.executeToolCalls([toolCall]);
+      return result ?? denied('cancelled');
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
   /**
    * Resume from budget pause
    */
@@ -2762,7 +3308,8 @@ You are running in **autonomous mode**. You manage your own wakeup schedule.
       {
         autoResume: false,
         maxAgeMs: 24 * 60 * 60 * 1000,
-      }
+      },
+      new SwarmRunStore()
     );
 
     this.heartbeatManager.onHeartbeat((heartbeat) => {
@@ -2897,6 +3444,16 @@ You are running in **autonomous mode**. You manage your own wakeup schedule.
 
   private async checkRecovery(): Promise<void> {
     if (!this.heartbeatRecovery) return;
+
+    const interruptedSwarms = this.heartbeatRecovery.findInterruptedSwarmRuns(this.cwd);
+    if (interruptedSwarms.length > 0) {
+      let message = `\n[${interruptedSwarms.length} interrupted swarm run(s) can be resumed]\n`;
+      for (const run of interruptedSwarms.slice(0, 3)) {
+        message += `  /swarm resume ${run.id.slice(0, 8)}  - ${run.goal.slice(0, 60)} (${run.completedTasks}/${run.totalTasks} tasks)\n`;
+      }
+      this.emit({ type: 'text', content: message });
+    }
+
     const recovery = await this.heartbeatRecovery.checkForRecovery();
     if (!recovery.available || !recovery.state) return;
 
@@ -3359,6 +3916,11 @@ You are running in **autonomous mode**. You manage your own wakeup schedule.
       parts.push(autoRefreshContext);
     }
 
+    const mcpContext = this.mcpManager?.buildPromptSection();
+    if (mcpContext) {
+      parts.push(mcpContext);
+    }
+
     // Add context injection if available (datetime, cwd, project, etc.)
     if (this.pendingContextInjection) {
       parts.push(this.pendingContextInjection);
@@ -3521,6 +4083,7 @@ You are running in **autonomous mode**. You manage your own wakeup schedule.
         depth: this.depth,
         onChunk: this.onChunk,
         getAvailableTools: () => this.toolRegistry.getTools().map(t => t.name),
+        runStore: new SwarmRunStore(),
       };
 
       this.swarmCoordinator = new SwarmCoordinator({}, context);
@@ -3529,6 +4092,29 @@ You are running in **autonomous mode**. You manage your own wakeup schedule.
     return this.swarmCoordinator;
   }
 
+  /**
+   * Get or create the task queue runner, which executes queued tasks with
+   * subassistants
+   */
+  private getOrCreateTaskRunner(): TaskQueueRunner | null {
+    if (!this.subassistantManager) {
+      return null;
+    }
+
+    if (!this.taskRunner) {
+      this.taskRunner = new TaskQueueRunner({}, {
+        cwd: this.cwd,
+        execute: createSubassistantTaskExecutor(this.subassistantManager, {
+          sessionId: this.sessionId,
+          cwd: this.cwd,
+          depth: this.depth,
+        }),
+      });
+    }
+
+    return this.taskRunner;
+  }
+
   /**
    * Create a subassistant loop for spawning
    */
@@ -3541,12 +4127,21 @@ You are running in **autonomous mode**. You manage your own wakeup schedule.
     let toolCalls = 0;
     let stopped = false;
 
+    const extraTools = config.extraTools ?? [];
     const subassistant = new AssistantLoop({
       cwd: config.cwd,
       sessionId: config.sessionId,
-      allowedTools: config.tools,
+      allowedTools: [...config.tools, ...extraTools.map(({ tool }) => tool.name)],
+      extraTools,
       depth: config.depth,
       llmClient: config.llmClient,
+      model: config.model,
+      // Share the parent's tracker so subassistant spend counts against the session
+      budgetTracker: this.budgetTracker ?? undefined,
+      guardrailsRateLimiter: this.guardrailsRateLimiter,
+      mcpManager: this.mcpManager ?? undefined,
+      checkpointStore: this.getCheckpointStore() ?? undefined,
+      budgetAssistantId: config.subassistantId,
       extraSystemPrompt: `You are a subassistant spawned to complete a specific task.
 
 Task: ${config.task}
@@ -3588,6 +4183,7 @@ Be concise but thorough. Focus only on this task.`,
             turns,
             toolCalls,
             tokensUsed,
+            costUsd: this.getSubassistantCost(config.subassistantId),
           };
         } catch (error) {
           // Get token usage even on error
@@ -3600,6 +4196,7 @@ Be concise but thorough. Focus only on this task.`,
             turns,
             toolCalls,
             tokensUsed,
+            costUsd: this.getSubassistantCost(config.subassistantId),
           };
         } finally {
           subassistant.shutdown();
@@ -3612,6 +4209,14 @@ Be concise but thorough. Focus only on this task.`,
     };
   }
 
+  /**
+   * Dollar cost recorded for a subassistant in the shared budget tracker
+   */
+  private getSubassistantCost(subassistantId?: string): number | undefined {
+    if (!this.budgetTracker || !subassistantId) return undefined;
+    return this.budgetTracker.getUsage('assistant', subassistantId).costUsd;
+  }
+
   /**
    * Normalize tool names to a canonical set (case-insensitive with aliases)
    */
@@ -3620,8 +4225,9 @@ Be concise but thorough. Focus only on this task.`,
 
     const aliases: Record<string, string[]> = {
       read: ['read'],
-      edit: ['write'],
+      edit: ['write', 'edit', 'apply_patch'],
       write: ['write'],
+      apply_patch: ['apply_patch'],
       bash: ['bash'],
       search: ['web_search'],
       web_search: ['web_search'],
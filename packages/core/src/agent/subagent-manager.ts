@@ -11,6 +11,7 @@
 import { generateId } from '@hasna/assistants-shared';
 import type { StreamChunk, Tool, HookInput, HookOutput } from '@hasna/assistants-shared';
 import type { LLMClient } from '../llm/client';
+import type { ToolExecutor } from '../tools/registry';
 
 // ============================================
 // Types
@@ -37,6 +38,15 @@ export interface SubassistantConfig {
   cwd: string;
   /** Timeout in ms (default: uses SubassistantManagerConfig.defaultTimeoutMs) */
   timeoutMs?: number;
+  /** Tools that only exist for this subassistant (e.g. swarm collaboration tools) */
+  extraTools?: SubassistantTool[];
+  /** Stops the subassistant when aborted */
+  signal?: AbortSignal;
+}
+
+export interface SubassistantTool {
+  tool: Tool;
+  executor: ToolExecutor;
 }
 
 export interface SubassistantResult {
@@ -52,6 +62,8 @@ export interface SubassistantResult {
   toolCalls: number;
   /** Total tokens used (input + output) */
   tokensUsed?: number;
+  /** Dollar cost of the subassistant's LLM calls, when the model is priced */
+  costUsd?: number;
   /** The unique ID of the subassistant that produced this result */
   subassistantId?: string;
 }
@@ -115,6 +127,12 @@ export interface SubassistantLoopConfig {
   cwd: string;
   sessionId: string;
   depth: number;
+  /** ID used to attribute budget usage to this subassistant */
+  subassistantId?: string;
+  /** Model override (default: inherit from parent) */
+  model?: string;
+  /** Tools registered only in this subassistant, in addition to `tools` */
+  extraTools?: SubassistantTool[];
   llmClient?: LLMClient;
   onChunk?: (chunk: StreamChunk) => void;
 }
@@ -340,11 +358,21 @@ export class SubassistantManager {
         cwd: config.cwd,
         sessionId: `subassistant-${subassistantId}`,
         depth: config.depth + 1,
+        subassistantId,
+        model: config.model,
+        extraTools: config.extraTools,
         // llmClient intentionally not passed - subassistant creates its own
       });
 
       // Track the runner so we can stop it if needed
       this.activeRunners.set(subassistantId, runner);
+      if (config.signal) {
+        if (config.signal.aborted) {
+          runner.stop();
+        } else {
+          config.signal.addEventListener('abort', () => this.stopSubassistant(subassistantId), { once: true });
+        }
+      }
 
       // Run with timeout (use config-specific timeout if provided, otherwise use default)
       const timeoutMs = config.timeoutMs ?? this.config.defaultTimeoutMs;
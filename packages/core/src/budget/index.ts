@@ -1,5 +1,7 @@
 export * from './types';
-export { BudgetTracker } from './tracker';
+export { BudgetTracker, formatCostUsd, formatSparkline } from './tracker';
+export { BudgetWindowStore, BUDGET_WINDOW_MS, getBudgetWindow, summarizeEvents } from './window-store';
+export type { BudgetWindow, BudgetUsageEvent, BudgetEventFilter } from './window-store';
 export {
   DEFAULT_BUDGET_CONFIG,
   DEFAULT_SESSION_LIMITS,
@@ -14,6 +16,7 @@ export {
   budgetGetTool,
   budgetSetTool,
   budgetResetTool,
+  budgetHistoryTool,
   createBudgetToolExecutors,
   registerBudgetTools,
 } from './tools';
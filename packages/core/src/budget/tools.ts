@@ -7,6 +7,7 @@ import type { Tool } from '@hasna/assistants-shared';
 import type { ToolExecutor, ToolRegistry } from '../tools/registry';
 import type { BudgetTracker } from './tracker';
 import type { BudgetScope } from './types';
+import { formatCostUsd, formatSparkline } from './tracker';
 
 /**
  * budget_status - Get current budget status
@@ -78,11 +79,48 @@ export const budgetSetTool: Tool = {
         type: 'number',
         description: 'Maximum duration in milliseconds (0 = unlimited)',
       },
+      maxCostUsd: {
+        type: 'number',
+        description: 'Maximum spend in US dollars (0 = unlimited)',
+      },
+      period: {
+        type: 'string',
+        description: 'Limit period: "session", or a rolling "hour", "day", or "month" that spans sessions',
+        enum: ['session', 'hour', 'day', 'month'],
+      },
     },
     required: ['scope'],
   },
 };
 
+/**
+ * budget_history - Usage over time
+ */
+export const budgetHistoryTool: Tool = {
+  name: 'budget_history',
+  description: 'Get budget usage over time: hourly buckets for the last 24 hours or daily buckets for the last 30 days, including usage from earlier sessions.',
+  parameters: {
+    type: 'object',
+    properties: {
+      granularity: {
+        type: 'string',
+        description: 'Bucket size: "hour" (default, last 24 hours) or "day" (last 30 days)',
+        enum: ['hour', 'day'],
+      },
+      scope: {
+        type: 'string',
+        description: 'Whose usage: "all" (default, every session), "session" (this session only), "assistant", "swarm", or "project"',
+        enum: ['all', 'session', 'assistant', 'swarm', 'project'],
+      },
+      id: {
+        type: 'string',
+        description: 'Assistant or project ID for the assistant/project scopes (defaults to the current one)',
+      },
+    },
+    required: [],
+  },
+};
+
 /**
  * budget_reset - Reset budget counters
  */
@@ -120,6 +158,9 @@ export function createBudgetToolExecutors(
 
       const lines: string[] = [];
       lines.push(`## Budget Status (${scope})`);
+      if (status.window) {
+        lines.push(`Usage over the last ${status.window} (rolling)`);
+      }
       lines.push('');
 
       // Usage summary
@@ -131,6 +172,7 @@ export function createBudgetToolExecutors(
       lines.push(`  LLM calls: ${u.llmCalls}`);
       lines.push(`  Tool calls: ${u.toolCalls}`);
       lines.push(`  Duration: ${Math.round(u.durationMs / 1000)}s`);
+      lines.push(`  Cost: ${formatCostUsd(u.costUsd || 0)}`);
       lines.push('');
 
       // Limits
@@ -142,7 +184,8 @@ export function createBudgetToolExecutors(
       if (l.maxLlmCalls) lines.push(`  LLM calls: ${l.maxLlmCalls}`);
       if (l.maxToolCalls) lines.push(`  Tool calls: ${l.maxToolCalls}`);
       if (l.maxDurationMs) lines.push(`  Duration: ${Math.round(l.maxDurationMs / 1000)}s`);
-      if (!l.maxInputTokens && !l.maxOutputTokens && !l.maxTotalTokens && !l.maxLlmCalls && !l.maxToolCalls && !l.maxDurationMs) {
+      if (l.maxCostUsd) lines.push(`  Cost: ${formatCostUsd(l.maxCostUsd)}`);
+      if (!l.maxInputTokens && !l.maxOutputTokens && !l.maxTotalTokens && !l.maxLlmCalls && !l.maxToolCalls && !l.maxDurationMs && !l.maxCostUsd) {
         lines.push('  (no limits set)');
       }
       lines.push('');
@@ -182,25 +225,30 @@ export function createBudgetToolExecutors(
       let limitsKey: string;
       switch (scope) {
         case 'session':
-          limitsKey = 'sessionLimits';
-          break;
         case 'swarm':
-          limitsKey = 'swarmLimits';
-          break;
         case 'project':
-          limitsKey = 'projectLimits';
+          limitsKey = scope;
           break;
         default:
           return `Invalid scope: ${scope}. Use "session", "swarm", or "project".`;
       }
 
-      const updates: Record<string, number> = {};
+      const updates: Record<string, number | string> = {};
       if (input.maxInputTokens !== undefined) updates.maxInputTokens = Number(input.maxInputTokens);
       if (input.maxOutputTokens !== undefined) updates.maxOutputTokens = Number(input.maxOutputTokens);
       if (input.maxTotalTokens !== undefined) updates.maxTotalTokens = Number(input.maxTotalTokens);
       if (input.maxLlmCalls !== undefined) updates.maxLlmCalls = Number(input.maxLlmCalls);
       if (input.maxToolCalls !== undefined) updates.maxToolCalls = Number(input.maxToolCalls);
       if (input.maxDurationMs !== undefined) updates.maxDurationMs = Number(input.maxDurationMs);
+      if (input.maxCostUsd !== undefined) updates.maxCostUsd = Number(input.maxCostUsd);
+
+      if (input.period !== undefined) {
+        const period = String(input.period);
+        if (!['session', 'hour', 'day', 'month'].includes(period)) {
+          return `Invalid period: ${period}. Use "session", "hour", "day", or "month".`;
+        }
+        updates.period = period;
+      }
 
       if (Object.keys(updates).length === 0) {
         return 'No limits specified. Provide at least one limit to update.';
@@ -216,6 +264,37 @@ export function createBudgetToolExecutors(
       return `Budget limits updated for ${scope} scope:\n${JSON.stringify(updates, null, 2)}`;
     },
 
+    budget_history: async (input) => {
+      const tracker = getBudgetTracker();
+      if (!tracker) {
+        return 'Budget tracking is not enabled.';
+      }
+
+      const granularity = input.granularity === 'day' ? 'day' : 'hour';
+      const scope = String(input.scope || 'all') as BudgetScope | 'all';
+      const id = input.id ? String(input.id) : undefined;
+      const buckets = tracker.getHistory(granularity, scope, id);
+
+      const lines: string[] = [];
+      lines.push(`## Budget History (${scope}${id ? `: ${id}` : ''}, per ${granularity})`);
+      lines.push('');
+      lines.push(`Tokens: ${formatSparkline(buckets.map((b) => b.usage.totalTokens))}`);
+      lines.push(`Cost:   ${formatSparkline(buckets.map((b) => b.usage.costUsd || 0))}`);
+      lines.push('');
+
+      const active = buckets.filter((b) => b.usage.llmCalls > 0 || b.usage.toolCalls > 0);
+      if (active.length === 0) {
+        lines.push('No usage recorded in this period.');
+        return lines.join('\n');
+      }
+      for (const bucket of active) {
+        const u = bucket.usage;
+        const label = granularity === 'hour' ? bucket.start.slice(0, 13).replace('T', ' ') + ':00' : bucket.start.slice(0, 10);
+        lines.push(`  ${label}  ${u.totalTokens.toLocaleString()} tokens, ${u.llmCalls} LLM calls, ${u.toolCalls} tool calls, ${formatCostUsd(u.costUsd || 0)}`);
+      }
+      return lines.join('\n');
+    },
+
     budget_reset: async (input) => {
       const tracker = getBudgetTracker();
       if (!tracker) {
@@ -243,6 +322,7 @@ export const budgetTools: Tool[] = [
   budgetGetTool,
   budgetSetTool,
   budgetResetTool,
+  budgetHistoryTool,
 ];
 
 /**
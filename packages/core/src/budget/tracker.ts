@@ -1,6 +1,14 @@
 import type { BudgetConfig, BudgetLimits, BudgetUsage } from '@hasna/assistants-shared';
-import type { BudgetScope, BudgetCheckResult, BudgetStatus, BudgetUpdate } from './types';
+import type { BudgetScope, BudgetCheckResult, BudgetStatus, BudgetUpdate, BudgetHistoryBucket, LlmCallDetails, ToolCostEntry } from './types';
 import { DEFAULT_BUDGET_CONFIG, WARNING_THRESHOLD } from './defaults';
+import {
+  BudgetWindowStore,
+  BUDGET_WINDOW_MS,
+  getBudgetWindow,
+  summarizeEvents,
+  type BudgetEventFilter,
+} from './window-store';
+import { calculateCost, getModelPricing } from '../llm/models';
 import { join, dirname } from 'path';
 import { homedir } from 'os';
 import { existsSync, mkdirSync, readFileSync } from 'fs';
@@ -23,6 +31,61 @@ function createEmptyUsage(): BudgetUsage {
   };
 }
 
+/**
+ * Add an update to a usage record
+ */
+function applyUpdate(usage: BudgetUsage, update: BudgetUpdate, now: string): BudgetUsage {
+  const next: BudgetUsage = {
+    ...usage,
+    inputTokens: usage.inputTokens + (update.inputTokens || 0),
+    outputTokens: usage.outputTokens + (update.outputTokens || 0),
+    totalTokens: usage.totalTokens + (update.totalTokens || 0),
+    llmCalls: usage.llmCalls + (update.llmCalls || 0),
+    toolCalls: usage.toolCalls + (update.toolCalls || 0),
+    durationMs: usage.durationMs + (update.durationMs || 0),
+    lastUpdatedAt: now,
+  };
+  if (update.cacheReadTokens) {
+    next.cacheReadTokens = (usage.cacheReadTokens || 0) + update.cacheReadTokens;
+  }
+  if (update.cacheWriteTokens) {
+    next.cacheWriteTokens = (usage.cacheWriteTokens || 0) + update.cacheWriteTokens;
+  }
+  if (update.costUsd) {
+    next.costUsd = (usage.costUsd || 0) + update.costUsd;
+  }
+  return next;
+}
+
+/**
+ * Format a dollar amount for display
+ */
+export function formatCostUsd(usd: number): string {
+  return `$${usd.toFixed(usd > 0 && usd < 1 ? 4 : 2)}`;
+}
+
+const SPARKLINE_CHARS = '▁▂▃▄▅▆▇█';
+
+/**
+ * Render values as a unicode sparkline, scaled to the largest value
+ */
+export function formatSparkline(values: number[]): string {
+  const max = Math.max(0, ...values);
+  return values
+    .map((value) => {
+      if (max === 0 || value <= 0) return SPARKLINE_CHARS[0];
+      const level = Math.round((value / max) * (SPARKLINE_CHARS.length - 1));
+      return SPARKLINE_CHARS[Math.max(1, level)];
+    })
+    .join('');
+}
+
+/** Number of buckets returned by getHistory */
+const HISTORY_BUCKETS: Record<'hour' | 'day', number> = {
+  hour: 24,
+  day: 30,
+};
+
 /**
  * Persisted budget state
  */
@@ -32,6 +95,7 @@ interface PersistedBudgetState {
   assistants: Record<string, BudgetUsage>;
   swarm: BudgetUsage;
   projects?: Record<string, BudgetUsage>;
+  tools?: Record<string, ToolCostEntry>;
 }
 
 const PERSISTENCE_VERSION = 2;
@@ -45,14 +109,18 @@ export class BudgetTracker {
   private assistantUsages: Map<string, BudgetUsage> = new Map();
   private swarmUsage: BudgetUsage;
   private projectUsages: Map<string, BudgetUsage> = new Map();
+  private toolCosts: Map<string, ToolCostEntry> = new Map();
+  private windowStore: BudgetWindowStore;
   private sessionId: string;
   private activeProjectId: string | null = null;
+  private ownerAssistantId: string | null = null;
 
   constructor(sessionId: string, config?: Partial<BudgetConfig>) {
     this.sessionId = sessionId;
     this.config = { ...DEFAULT_BUDGET_CONFIG, ...config };
     this.sessionUsage = createEmptyUsage();
     this.swarmUsage = createEmptyUsage();
+    this.windowStore = new BudgetWindowStore(this.getWindowStorePath(), !!this.config.persist);
 
     // Load persisted state if enabled
     if (this.config.persist) {
@@ -65,6 +133,11 @@ export class BudgetTracker {
     return join(envHome, '.assistants', 'budget', `${this.sessionId}.json`);
   }
 
+  private getWindowStorePath(): string {
+    const envHome = process.env.HOME || process.env.USERPROFILE || homedir();
+    return join(envHome, '.assistants', 'budget', 'usage-events.jsonl');
+  }
+
   private getProjectStatePath(projectId: string): string {
     const envHome = process.env.HOME || process.env.USERPROFILE || homedir();
     return join(envHome, '.assistants', 'budget', `project-${projectId}.json`);
@@ -91,6 +164,11 @@ export class BudgetTracker {
           this.projectUsages.set(projectId, usage);
         }
       }
+      if (data.tools) {
+        for (const [toolName, entry] of Object.entries(data.tools)) {
+          this.toolCosts.set(toolName, entry);
+        }
+      }
     } catch {
       // Failed to load state, start fresh
     }
@@ -137,6 +215,7 @@ export class BudgetTracker {
         assistants: Object.fromEntries(this.assistantUsages),
         swarm: this.swarmUsage,
         projects: Object.fromEntries(this.projectUsages),
+        tools: Object.fromEntries(this.toolCosts),
       };
 
       atomicWriteFileSync(statePath, JSON.stringify(state, null, 2));
@@ -178,6 +257,21 @@ export class BudgetTracker {
     return this.activeProjectId;
   }
 
+  /**
+   * Set the assistant this tracker's own usage belongs to.
+   * Rolling-window assistant limits count its usage across sessions.
+   */
+  setOwnerAssistant(assistantId: string | null): void {
+    this.ownerAssistantId = assistantId;
+  }
+
+  /**
+   * Get the assistant this tracker's own usage belongs to
+   */
+  getOwnerAssistant(): string | null {
+    return this.ownerAssistantId;
+  }
+
   /**
    * Get the current configuration
    */
@@ -190,6 +284,61 @@ export class BudgetTracker {
    */
   updateConfig(updates: Partial<BudgetConfig>): void {
     this.config = { ...this.config, ...updates };
+    this.windowStore.setPersist(!!this.config.persist);
+  }
+
+  /**
+   * Events that count toward a scope's rolling window
+   */
+  private getWindowFilter(scope: BudgetScope, idOrAssistant?: string): BudgetEventFilter | null {
+    switch (scope) {
+      case 'session':
+        return { sessionId: this.sessionId };
+      case 'assistant': {
+        const assistantId = idOrAssistant || this.ownerAssistantId;
+        return assistantId ? { assistantId } : null;
+      }
+      case 'swarm':
+        return { swarm: true };
+      case 'project': {
+        const projectId = idOrAssistant || this.activeProjectId;
+        return projectId ? { projectId } : null;
+      }
+    }
+  }
+
+  /**
+   * Get usage for a scope over a rolling window, including other sessions
+   */
+  getWindowUsage(scope: BudgetScope, window: 'hour' | 'day' | 'month', idOrAssistant?: string): BudgetUsage {
+    const since = Date.now() - BUDGET_WINDOW_MS[window];
+    const filter = this.getWindowFilter(scope, idOrAssistant);
+    const events = filter ? this.windowStore.query({ ...filter, since }) : [];
+    return summarizeEvents(events, since);
+  }
+
+  /**
+   * Get usage history in hourly (last 24h) or daily (last 30 days) buckets, oldest first.
+   * The 'all' scope (the default) covers every session.
+   */
+  getHistory(
+    granularity: 'hour' | 'day' = 'hour',
+    scope: BudgetScope | 'all' = 'all',
+    idOrAssistant?: string
+  ): BudgetHistoryBucket[] {
+    const bucketMs = BUDGET_WINDOW_MS[granularity];
+    const count = HISTORY_BUCKETS[granularity];
+    const firstStart = (Math.floor(Date.now() / bucketMs) - (count - 1)) * bucketMs;
+    const filter = scope === 'all' ? {} : this.getWindowFilter(scope, idOrAssistant);
+    const events = filter ? this.windowStore.query({ ...filter, since: firstStart }) : [];
+
+    const buckets: BudgetHistoryBucket[] = [];
+    for (let i = 0; i < count; i++) {
+      const start = firstStart + i * bucketMs;
+      const inBucket = events.filter((event) => event.at >= start && event.at < start + bucketMs);
+      buckets.push({ start: new Date(start).toISOString(), usage: summarizeEvents(inBucket, start) });
+    }
+    return buckets;
   }
 
   /**
@@ -204,7 +353,7 @@ export class BudgetTracker {
       return { exceeded: false };
     }
 
-    const percentUsed = (current / limit) * 100;
+    const percentUsed = limit > 0 ? (current / limit) * 100 : 100;
     const exceeded = current >= limit;
     const result: BudgetCheckResult = {
       exceeded,
@@ -254,6 +403,11 @@ export class BudgetTracker {
         break;
     }
 
+    const window = getBudgetWindow(limits.period);
+    if (window) {
+      usage = this.getWindowUsage(scope, window, idOrAssistant);
+    }
+
     const checks = {
       inputTokens: this.checkLimit(usage.inputTokens, limits.maxInputTokens, 'inputTokens'),
       outputTokens: this.checkLimit(usage.outputTokens, limits.maxOutputTokens, 'outputTokens'),
@@ -261,6 +415,7 @@ export class BudgetTracker {
       llmCalls: this.checkLimit(usage.llmCalls, limits.maxLlmCalls, 'llmCalls'),
       toolCalls: this.checkLimit(usage.toolCalls, limits.maxToolCalls, 'toolCalls'),
       durationMs: this.checkLimit(usage.durationMs, limits.maxDurationMs, 'durationMs'),
+      costUsd: this.checkLimit(usage.costUsd || 0, limits.maxCostUsd, 'costUsd'),
     };
 
     const overallExceeded = Object.values(checks).some((c) => c.exceeded);
@@ -270,6 +425,7 @@ export class BudgetTracker {
       scope,
       limits,
       usage,
+      ...(window ? { window } : {}),
       checks,
       overallExceeded,
       warningsCount,
@@ -291,6 +447,7 @@ export class BudgetTracker {
     if (!this.config.enabled) return false;
     if (this.isExceeded('session')) return true;
     if (this.activeProjectId && this.isExceeded('project', this.activeProjectId)) return true;
+    if (this.ownerAssistantId && this.isExceeded('assistant', this.ownerAssistantId)) return true;
     return false;
   }
 
@@ -301,72 +458,55 @@ export class BudgetTracker {
     const now = new Date().toISOString();
 
     // Update session usage (always)
-    this.sessionUsage = {
-      ...this.sessionUsage,
-      inputTokens: this.sessionUsage.inputTokens + (update.inputTokens || 0),
-      outputTokens: this.sessionUsage.outputTokens + (update.outputTokens || 0),
-      totalTokens: this.sessionUsage.totalTokens + (update.totalTokens || 0),
-      llmCalls: this.sessionUsage.llmCalls + (update.llmCalls || 0),
-      toolCalls: this.sessionUsage.toolCalls + (update.toolCalls || 0),
-      durationMs: this.sessionUsage.durationMs + (update.durationMs || 0),
-      lastUpdatedAt: now,
-    };
+    this.sessionUsage = applyUpdate(this.sessionUsage, update, now);
 
     // Update assistant usage if specified
     if (scope === 'assistant' && idOrAssistant) {
       const assistantUsage = this.assistantUsages.get(idOrAssistant) || createEmptyUsage();
-      this.assistantUsages.set(idOrAssistant, {
-        ...assistantUsage,
-        inputTokens: assistantUsage.inputTokens + (update.inputTokens || 0),
-        outputTokens: assistantUsage.outputTokens + (update.outputTokens || 0),
-        totalTokens: assistantUsage.totalTokens + (update.totalTokens || 0),
-        llmCalls: assistantUsage.llmCalls + (update.llmCalls || 0),
-        toolCalls: assistantUsage.toolCalls + (update.toolCalls || 0),
-        durationMs: assistantUsage.durationMs + (update.durationMs || 0),
-        lastUpdatedAt: now,
-      });
+      this.assistantUsages.set(idOrAssistant, applyUpdate(assistantUsage, update, now));
     }
 
     // Update swarm usage if in swarm scope
     if (scope === 'swarm') {
-      this.swarmUsage = {
-        ...this.swarmUsage,
-        inputTokens: this.swarmUsage.inputTokens + (update.inputTokens || 0),
-        outputTokens: this.swarmUsage.outputTokens + (update.outputTokens || 0),
-        totalTokens: this.swarmUsage.totalTokens + (update.totalTokens || 0),
-        llmCalls: this.swarmUsage.llmCalls + (update.llmCalls || 0),
-        toolCalls: this.swarmUsage.toolCalls + (update.toolCalls || 0),
-        durationMs: this.swarmUsage.durationMs + (update.durationMs || 0),
-        lastUpdatedAt: now,
-      };
+      this.swarmUsage = applyUpdate(this.swarmUsage, update, now);
     }
 
     // Update project usage if active
     if (this.activeProjectId) {
       const projectId = (scope === 'project' && idOrAssistant) ? idOrAssistant : this.activeProjectId;
       const projectUsage = this.projectUsages.get(projectId) || createEmptyUsage();
-      const updatedProject = {
-        ...projectUsage,
-        inputTokens: projectUsage.inputTokens + (update.inputTokens || 0),
-        outputTokens: projectUsage.outputTokens + (update.outputTokens || 0),
-        totalTokens: projectUsage.totalTokens + (update.totalTokens || 0),
-        llmCalls: projectUsage.llmCalls + (update.llmCalls || 0),
-        toolCalls: projectUsage.toolCalls + (update.toolCalls || 0),
-        durationMs: projectUsage.durationMs + (update.durationMs || 0),
-        lastUpdatedAt: now,
-      };
+      const updatedProject = applyUpdate(projectUsage, update, now);
       this.projectUsages.set(projectId, updatedProject);
       this.saveProjectState(projectId, updatedProject);
     }
 
+    this.windowStore.append({
+      ...update,
+      at: Date.parse(now),
+      sessionId: this.sessionId,
+      assistantId: (scope === 'assistant' && idOrAssistant) ? idOrAssistant : this.ownerAssistantId ?? undefined,
+      projectId: (scope === 'project' && idOrAssistant) ? idOrAssistant : this.activeProjectId ?? undefined,
+      swarm: scope === 'swarm' ? true : undefined,
+    });
+
     // Persist if enabled
     this.saveState();
   }
 
   /**
    * Record an LLM call
+   * inputTokens includes cached tokens. When the model is known the call is
+   * priced and its cost split between the tools it requested.
    */
-  recordLlmCall(inputTokens: number, outputTokens: number, durationMs: number, assistantId?: string): void {
+  recordLlmCall(
+    inputTokens: number,
+    outputTokens: number,
+    durationMs: number,
+    assistantId?: string,
+    details: LlmCallDetails = {}
+  ): void {
+    const costUsd = this.priceLlmCall(inputTokens, outputTokens, details);
+
     this.recordUsage(
       {
         inputTokens,
@@ -374,10 +514,40 @@ export class BudgetTracker {
         totalTokens: inputTokens + outputTokens,
         llmCalls: 1,
         durationMs,
+        cacheReadTokens: details.cacheReadTokens,
+        cacheWriteTokens: details.cacheWriteTokens,
+        costUsd,
       },
       assistantId ? 'assistant' : 'session',
       assistantId
     );
+
+    if (details.toolNames && details.toolNames.length > 0) {
+      const share = costUsd / details.toolNames.length;
+      for (const toolName of details.toolNames) {
+        const entry = this.toolCosts.get(toolName) || { calls: 0, costUsd: 0 };
+        this.toolCosts.set(toolName, { calls: entry.calls + 1, costUsd: entry.costUsd + share });
+      }
+      this.saveState();
+    }
+  }
+
+  /**
+   * Price an LLM call; unknown models cost nothing
+   */
+  private priceLlmCall(inputTokens: number, outputTokens: number, details: LlmCallDetails): number {
+    if (!details.model) return 0;
+    const pricing = getModelPricing(details.model, this.config.pricing);
+    if (!pricing) return 0;
+    return calculateCost(
+      {
+        inputTokens,
+        outputTokens,
+        cacheReadTokens: details.cacheReadTokens,
+        cacheWriteTokens: details.cacheWriteTokens,
+      },
+      pricing
+    );
   }
 
   /**
@@ -422,6 +592,15 @@ export class BudgetTracker {
     return new Map(this.assistantUsages);
   }
 
+  /**
+   * Get spend attributed to each tool, most expensive first
+   */
+  getToolCosts(): Array<{ toolName: string } & ToolCostEntry> {
+    return Array.from(this.toolCosts.entries())
+      .map(([toolName, entry]) => ({ toolName, ...entry }))
+      .sort((a, b) => b.costUsd - a.costUsd);
+  }
+
   /**
    * Get all project usages
    */
@@ -438,6 +617,7 @@ export class BudgetTracker {
     switch (scope) {
       case 'session':
         this.sessionUsage = newUsage;
+        this.toolCosts.clear();
         break;
       case 'assistant':
         if (idOrAssistant) {
@@ -456,6 +636,12 @@ export class BudgetTracker {
         break;
     }
 
+    // Rolling windows restart too
+    const filter = this.getWindowFilter(scope, idOrAssistant);
+    if (filter) {
+      this.windowStore.remove(filter);
+    }
+
     this.saveState();
   }
 
@@ -467,6 +653,9 @@ export class BudgetTracker {
     this.assistantUsages.clear();
     this.swarmUsage = createEmptyUsage();
     this.projectUsages.clear();
+    this.toolCosts.clear();
+    // Other sessions' events still count toward their own windows
+    this.windowStore.remove({ sessionId: this.sessionId });
     this.saveState();
   }
 
@@ -540,6 +729,9 @@ export class BudgetTracker {
 
     lines.push(`Budget Status (${scope}${idOrAssistant ? `: ${idOrAssistant}` : ''}):`);
     lines.push(`  Enabled: ${this.config.enabled ? 'Yes' : 'No'}`);
+    if (status.window) {
+      lines.push(`  Window: rolling ${status.window}`);
+    }
     lines.push('');
 
     if (status.limits.maxTotalTokens) {
@@ -549,6 +741,18 @@ export class BudgetTracker {
       lines.push(`  Tokens: ${status.usage.totalTokens.toLocaleString()} (no limit)`);
     }
 
+    const cost = status.usage.costUsd || 0;
+    if (status.limits.maxCostUsd) {
+      const pct = status.checks.costUsd?.percentUsed || 0;
+      lines.push(`  Cost: ${formatCostUsd(cost)} / ${formatCostUsd(status.limits.maxCostUsd)} (${pct}%)`);
+    } else {
+      lines.push(`  Cost: ${formatCostUsd(cost)} (no limit)`);
+    }
+
+    if (status.usage.cacheReadTokens || status.usage.cacheWriteTokens) {
+      lines.push(`  Cache: ${(status.usage.cacheReadTokens || 0).toLocaleString()} read / ${(status.usage.cacheWriteTokens || 0).toLocaleString()} written`);
+    }
+
     if (status.limits.maxLlmCalls) {
       const pct = status.checks.llmCalls?.percentUsed || 0;
       lines.push(`  LLM Calls: ${status.usage.llmCalls} / ${status.limits.maxLlmCalls} (${pct}%)`);
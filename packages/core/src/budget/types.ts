@@ -29,7 +29,10 @@ export interface BudgetCheckResult {
 export interface BudgetStatus {
   scope: BudgetScope;
   limits: BudgetLimits;
+  /** Usage counted against the limits (the rolling window, if any) */
   usage: BudgetUsage;
+  /** Rolling window the usage covers; absent for per-session limits */
+  window?: 'hour' | 'day' | 'month';
   checks: {
     inputTokens?: BudgetCheckResult;
     outputTokens?: BudgetCheckResult;
@@ -37,6 +40,7 @@ export interface BudgetStatus {
     llmCalls?: BudgetCheckResult;
     toolCalls?: BudgetCheckResult;
     durationMs?: BudgetCheckResult;
+    costUsd?: BudgetCheckResult;
   };
   overallExceeded: boolean;
   warningsCount: number;
@@ -52,4 +56,38 @@ export interface BudgetUpdate {
   llmCalls?: number;
   toolCalls?: number;
   durationMs?: number;
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
+  costUsd?: number;
+}
+
+/**
+ * Extra details for an LLM call
+ */
+export interface LlmCallDetails {
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
+  /** Model used; priced from the model registry and budget pricing overrides */
+  model?: string;
+  /** Tools requested by this call; its cost is split evenly between them */
+  toolNames?: string[];
+}
+
+/**
+ * Spend attributed to a tool
+ */
+export interface ToolCostEntry {
+  /** Number of calls to the tool */
+  calls: number;
+  /** Share of LLM spend for the turns that requested the tool */
+  costUsd: number;
+}
+
+/**
+ * Usage within one history bucket
+ */
+export interface BudgetHistoryBucket {
+  /** Bucket start (ISO timestamp) */
+  start: string;
+  usage: BudgetUsage;
 }
@@ -0,0 +1,280 @@
+import type { BudgetLimits, BudgetUsage } from '@hasna/assistants-shared';
+import type { BudgetUpdate } from './types';
+import { dirname } from 'path';
+import { appendFileSync, closeSync, existsSync, mkdirSync, openSync, readFileSync, statSync, unlinkSync } from 'fs';
+import { atomicWriteFileSync } from '../utils/atomic-write';
+
+/**
+ * Rolling window for budget limits
+ */
+export type BudgetWindow = 'hour' | 'day' | 'month';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Length of each rolling window (a month is 30 days)
+ */
+export const BUDGET_WINDOW_MS: Record<BudgetWindow, number> = {
+  hour: HOUR_MS,
+  day: DAY_MS,
+  month: 30 * DAY_MS,
+};
+
+/** Events older than the longest window are dropped */
+const RETENTION_MS = BUDGET_WINDOW_MS.month + DAY_MS;
+const LOCK_WAIT_MS = 2000;
+const LOCK_RETRY_MS = 10;
+const LOCK_STALE_MS = 10_000;
+
+/**
+ * Get the rolling window for a limits period, or null for per-session limits
+ */
+export function getBudgetWindow(period: BudgetLimits['period']): BudgetWindow | null {
+  return period === 'hour' || period === 'day' || period === 'month' ? period : null;
+}
+
+/**
+ * A single recorded usage event
+ */
+export interface BudgetUsageEvent extends BudgetUpdate {
+  /** Epoch milliseconds */
+  at: number;
+  sessionId: string;
+  assistantId?: string;
+  projectId?: string;
+  swarm?: boolean;
+}
+
+/**
+ * Which events to match; omitted fields match everything
+ */
+export interface BudgetEventFilter {
+  since?: number;
+  until?: number;
+  sessionId?: string;
+  assistantId?: string;
+  projectId?: string;
+  swarm?: boolean;
+}
+
+function matches(event: BudgetUsageEvent, filter: BudgetEventFilter): boolean {
+  if (filter.since !== undefined && event.at < filter.since) return false;
+  if (filter.until !== undefined && event.at >= filter.until) return false;
+  if (filter.sessionId !== undefined && event.sessionId !== filter.sessionId) return false;
+  if (filter.assistantId !== undefined && event.assistantId !== filter.assistantId) return false;
+  if (filter.projectId !== undefined && event.projectId !== filter.projectId) return false;
+  if (filter.swarm !== undefined && Boolean(event.swarm) !== filter.swarm) return false;
+  return true;
+}
+
+/**
+ * Sum events into a usage record covering [periodStart, now]
+ */
+export function summarizeEvents(events: BudgetUsageEvent[], periodStart: number): BudgetUsage {
+  const usage: BudgetUsage = {
+    inputTokens: 0,
+    outputTokens: 0,
+    totalTokens: 0,
+    llmCalls: 0,
+    toolCalls: 0,
+    durationMs: 0,
+    periodStartedAt: new Date(periodStart).toISOString(),
+    lastUpdatedAt: new Date(periodStart).toISOString(),
+  };
+  let lastAt = periodStart;
+  for (const event of events) {
+    usage.inputTokens += event.inputTokens || 0;
+    usage.outputTokens += event.outputTokens || 0;
+    usage.totalTokens += event.totalTokens || 0;
+    usage.llmCalls += event.llmCalls || 0;
+    usage.toolCalls += event.toolCalls || 0;
+    usage.durationMs += event.durationMs || 0;
+    if (event.cacheReadTokens) usage.cacheReadTokens = (usage.cacheReadTokens || 0) + event.cacheReadTokens;
+    if (event.cacheWriteTokens) usage.cacheWriteTokens = (usage.cacheWriteTokens || 0) + event.cacheWriteTokens;
+    if (event.costUsd) usage.costUsd = (usage.costUsd || 0) + event.costUsd;
+    lastAt = Math.max(lastAt, event.at);
+  }
+  usage.lastUpdatedAt = new Date(lastAt).toISOString();
+  return usage;
+}
+
+/**
+ * Append-only store of usage events backing rolling-window limits.
+ * Events live in a JSONL file shared by all sessions, so windows survive
+ * restarts. The file is always read; it is only written when persistence is on.
+ */
+export class BudgetWindowStore {
+  private path: string;
+  private persist: boolean;
+  /** Events read from (or written to) the file */
+  private fileEvents: BudgetUsageEvent[] = [];
+  /** Events recorded while persistence is off */
+  private localEvents: BudgetUsageEvent[] = [];
+  private loadedSize = -1;
+
+  constructor(path: string, persist: boolean) {
+    this.path = path;
+    this.persist = persist;
+  }
+
+  setPersist(persist: boolean): void {
+    this.persist = persist;
+  }
+
+  /**
+   * Re-read the file if another process has appended to it
+   */
+  private refresh(): void {
+    try {
+      if (!existsSync(this.path)) {
+        this.fileEvents = [];
+        this.loadedSize = 0;
+        return;
+      }
+      const size = statSync(this.path).size;
+      if (size === this.loadedSize) return;
+
+      const { events, expired } = this.readFile();
+      this.fileEvents = events;
+      this.loadedSize = size;
+
+      if (expired > 0 && this.persist) {
+        this.compact();
+      }
+    } catch {
+      // Unreadable store, keep what we have
+    }
+  }
+
+  private readFile(): { events: BudgetUsageEvent[]; expired: number } {
+    const cutoff = Date.now() - RETENTION_MS;
+    const events: BudgetUsageEvent[] = [];
+    let expired = 0;
+    if (!existsSync(this.path)) return { events, expired };
+    for (const line of readFileSync(this.path, 'utf-8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const event = JSON.parse(line) as BudgetUsageEvent;
+        if (typeof event.at !== 'number') continue;
+        if (event.at < cutoff) {
+          expired++;
+          continue;
+        }
+        events.push(event);
+      } catch {
+        // Skip partial or corrupt lines
+      }
+    }
+    return { events, expired };
+  }
+
+  /**
+   * Rewrite the file without expired events and events matching a filter.
+   * The file is re-read under the lock so appends from other processes are kept.
+   */
+  private compact(filter?: BudgetEventFilter): void {
+    try {
+      this.withLock(() => {
+        const { events } = this.readFile();
+        this.fileEvents = filter ? events.filter((event) => !matches(event, filter)) : events;
+        const data = this.fileEvents.map((event) => JSON.stringify(event)).join('\n');
+        atomicWriteFileSync(this.path, data ? `${data}\n` : '');
+        this.loadedSize = statSync(this.path).size;
+      });
+    } catch {
+      // Non-critical
+    }
+  }
+
+  /**
+   * Run fn while holding <path>.lock, shared with other processes
+   */
+  private withLock<T>(fn: () => T): T {
+    const lockPath = `${this.path}.lock`;
+    const dir = dirname(this.path);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+    const deadline = Date.now() + LOCK_WAIT_MS;
+    let fd: number | null = null;
+    while (fd === null) {
+      try {
+        fd = openSync(lockPath, 'wx');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+        if (Date.now() > deadline) {
+          throw new Error(`Budget window store is locked: ${lockPath}`);
+        }
+        try {
+          // A crashed holder leaves its lock behind
+          if (Date.now() - statSync(lockPath).mtimeMs > LOCK_STALE_MS) {
+            unlinkSync(lockPath);
+            continue;
+          }
+        } catch {
+          // Released in the meantime
+          continue;
+        }
+        Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, LOCK_RETRY_MS);
+      }
+    }
+    try {
+      return fn();
+    } finally {
+      closeSync(fd);
+      try {
+        unlinkSync(lockPath);
+      } catch {
+        // Already removed
+      }
+    }
+  }
+
+  /**
+   * Record a usage event
+   */
+  append(event: BudgetUsageEvent): void {
+    if (!this.persist) {
+      this.localEvents.push(event);
+      return;
+    }
+    this.refresh();
+    try {
+      const line = `${JSON.stringify(event)}\n`;
+      this.withLock(() => {
+        const sizeBefore = existsSync(this.path) ? statSync(this.path).size : 0;
+        appendFileSync(this.path, line, 'utf-8');
+        // Only our line was added since the last read; otherwise another
+        // process wrote to the file and it is re-read next time
+        this.loadedSize = sizeBefore === this.loadedSize ? sizeBefore + Buffer.byteLength(line) : -1;
+      });
+      this.fileEvents.push(event);
+    } catch {
+      this.localEvents.push(event);
+    }
+  }
+
+  /**
+   * Get events matching a filter, oldest first
+   */
+  query(filter: BudgetEventFilter = {}): BudgetUsageEvent[] {
+    this.refresh();
+    return [...this.fileEvents, ...this.localEvents]
+      .filter((event) => matches(event, filter))
+      .sort((a, b) => a.at - b.at);
+  }
+
+  /**
+   * Delete events matching a filter
+   */
+  remove(filter: BudgetEventFilter = {}): void {
+    this.refresh();
+    this.localEvents = this.localEvents.filter((event) => !matches(event, filter));
+    if (this.persist && this.fileEvents.some((event) => matches(event, filter))) {
+      this.compact(filter);
+    } else {
+      this.fileEvents = this.fileEvents.filter((event) => !matches(event, filter));
+    }
+  }
+}
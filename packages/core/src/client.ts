@@ -1,4 +1,4 @@
-import type { AssistantClient, StreamChunk, Tool, Skill, Message, TokenUsage, EnergyState, VoiceState, ActiveIdentityInfo, HeartbeatState } from '@hasna/assistants-shared';
+import type { AssistantClient, StreamChunk, Tool, ToolResult, Skill, Message, TokenUsage, EnergyState, VoiceState, ActiveIdentityInfo, HeartbeatState } from '@hasna/assistants-shared';
 import { generateId } from '@hasna/assistants-shared';
 import { AssistantLoop } from './agent/loop';
 import type { AskUserHandler } from './tools/ask-user';
@@ -21,9 +21,12 @@ export class EmbeddedClient implements AssistantClient {
   private startedAt: string;
   private initialMessages: Message[] | null = null;
   private assistantId: string | null = null;
+  private parentSessionId: string | null = null;
+  private forkedFromCheckpointId: string | null = null;
   private messageQueue: string[] = [];
   private processingQueue = false;
   private sawErrorChunk = false;
+  private saveFailing = false;
 
   constructor(
     cwd?: string,
@@ -36,6 +39,8 @@ export class EmbeddedClient implements AssistantClient {
       /** Override the model from config (e.g., assistant-specific model selection) */
       model?: string;
       startedAt?: string;
+      /** Session this one was forked from */
+      parentSessionId?: string | null;
       assistantFactory?: (options: ConstructorParameters<typeof AssistantLoop>[0]) => AssistantLoop;
     }
   ) {
@@ -48,6 +53,7 @@ export class EmbeddedClient implements AssistantClient {
     this.cwd = cwd || process.cwd();
     this.startedAt = options?.startedAt || new Date().toISOString();
     this.initialMessages = options?.initialMessages || null;
+    this.parentSessionId = options?.parentSessionId || null;
 
     this.logger.info('Session started', { cwd: this.cwd });
 
@@ -59,6 +65,9 @@ export class EmbeddedClient implements AssistantClient {
       allowedTools: options?.allowedTools,
       extraSystemPrompt: options?.systemPrompt,
       model: options?.model,
+      onRewind: (checkpoint) => {
+        this.truncateMessages(checkpoint.messageId);
+      },
       onChunk: (chunk) => {
         for (const callback of this.chunkCallbacks) {
           callback(chunk);
@@ -100,6 +109,10 @@ export class EmbeddedClient implements AssistantClient {
         this.session = new SessionStorage(this.session.getSessionId(), undefined, this.assistantId);
       }
     }
+    // Keep the branch link of a resumed fork when the session is saved again
+    const saved = this.session.load();
+    this.parentSessionId = this.parentSessionId || saved?.parentSessionId || null;
+    this.forkedFromCheckpointId = saved?.forkedFromCheckpointId || null;
     if (this.initialMessages && this.initialMessages.length > 0) {
       const contextSeed = this.selectContextSeed(this.initialMessages);
       if (typeof (this.assistantLoop as any).importContext === 'function') {
@@ -196,12 +209,39 @@ export class EmbeddedClient implements AssistantClient {
   }
 
   private saveSession() {
-    this.session.save({
-      messages: this.messages,
-      startedAt: this.startedAt,
-      updatedAt: new Date().toISOString(),
-      cwd: this.cwd,
-    });
+    try {
+      this.session.save({
+        messages: this.messages,
+        startedAt: this.startedAt,
+        updatedAt: new Date().toISOString(),
+        cwd: this.cwd,
+        parentSessionId: this.parentSessionId ?? undefined,
+        forkedFromCheckpointId: this.forkedFromCheckpointId ?? undefined,
+      });
+      this.saveFailing = false;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('Failed to save session', { error: err.message });
+      // Report once per run of failures; later saves retry with the full diff
+      if (!this.saveFailing) {
+        this.saveFailing = true;
+        for (const callback of this.errorCallbacks) {
+          callback(err);
+        }
+      }
+    }
+  }
+
+  /**
+   * Drop the message with this ID and everything after it (after a rewind)
+   */
+  private truncateMessages(messageId?: string): void {
+    if (!messageId) return;
+    const index = this.messages.findIndex((message) => message.id === messageId);
+    if (index === -1) return;
+    this.messages = this.messages.slice(0, index);
+    this.messageIds = new Set(this.messages.map((message) => message.id));
+    this.saveSession();
   }
 
   /**
@@ -245,6 +285,30 @@ export class EmbeddedClient implements AssistantClient {
     return this.assistantLoop.getTools();
   }
 
+  /**
+   * Run one tool call outside a turn, with the session's guardrails,
+   * capabilities, hooks and budget applied
+   */
+  async executeTool(name: string, input: Record<string, unknown>, signal?: AbortSignal): Promise<ToolResult> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+    if (typeof (this.assistantLoop as any).executeExternalToolCall !== 'function') {
+      throw new Error('This assistant does not support external tool calls');
+    }
+    return (this.assistantLoop as any).executeExternalToolCall(name, input, signal);
+  }
+
+  /**
+   * Why new work should be refused because of the budget, if it should
+   */
+  getBudgetBlockReason(): string | null {
+    if (typeof (this.assistantLoop as any).getBudgetBlockReason === 'function') {
+      return (this.assistantLoop as any).getBudgetBlockReason();
+    }
+    return null;
+  }
+
   /**
    * Get available skills
    */
@@ -313,6 +377,13 @@ export class EmbeddedClient implements AssistantClient {
     return this.session.getSessionId();
   }
 
+  /**
+   * Get the session this one was forked from
+   */
+  getParentSessionId(): string | null {
+    return this.parentSessionId;
+  }
+
   /**
    * Get available commands
    */
@@ -439,6 +510,16 @@ export class EmbeddedClient implements AssistantClient {
     return null;
   }
 
+  /**
+   * Get the MCP server manager
+   */
+  getMcpManager(): any {
+    if (typeof (this.assistantLoop as any).getMcpManager === 'function') {
+      return (this.assistantLoop as any).getMcpManager();
+    }
+    return null;
+  }
+
   /**
    * Get the channels manager
    */
@@ -548,6 +629,16 @@ export class EmbeddedClient implements AssistantClient {
     return null;
   }
 
+  /**
+   * Get the task queue runner (for tasks panel progress)
+   */
+  getTaskRunner(): any {
+    if (typeof (this.assistantLoop as any).getOrCreateTaskRunner === 'function') {
+      return (this.assistantLoop as any).getOrCreateTaskRunner();
+    }
+    return null;
+  }
+
   /**
    * Get the assistant loop (for pause/resume, budget checks)
    */
@@ -1,6 +1,6 @@
 import type { Command, CommandContext, CommandResult, TokenUsage } from './types';
 import type { CommandLoader } from './loader';
-import { join } from 'path';
+import { join, resolve } from 'path';
 import { homedir, platform, release, arch } from 'os';
 import { getRuntime } from '../runtime';
 import { parseMentions, resolveNameToKnown } from '../channels/mentions';
@@ -8,8 +8,11 @@ import { buildCommandArgs } from '../utils/command-line';
 import { existsSync, mkdirSync, writeFileSync } from 'fs';
 import { getConfigDir } from '../config';
 import { SessionStorage } from '../logger';
-import { generateId } from '@hasna/assistants-shared';
+import { buildSessionTree } from '../sessions/branches';
+import { searchSessions, type SessionSearchOptions } from '../sessions/search';
+import { formatDuration, generateId } from '@hasna/assistants-shared';
 import { saveFeedbackEntry, type FeedbackType } from '../tools/feedback';
+import { MemoryConsolidator } from '../memory/consolidation';
 import type { ScheduledCommand } from '@hasna/assistants-shared';
 import type { InboxManager } from '../inbox';
 import type { WalletManager } from '../wallet';
@@ -48,6 +51,8 @@ import { buildProjectContext } from '../projects/context';
 import { VerificationSessionStore } from '../sessions/verification';
 import { nativeHookRegistry, HookStore, HookTester } from '../hooks';
 import { createSkill, type SkillScope } from '../skills/create';
+import { SkillPackageManager, SKILL_LOCKFILE, type SkillPackageInstallResult } from '../skills/packages';
+import { formatResourceContents } from '../mcp/manager';
 import {
   listJobs,
   listJobsForSession,
@@ -71,6 +76,9 @@ import {
   completeTask,
   failTask,
   getTaskCounts,
+  cancelTask,
+  isAutoRun,
+  parseTaskDuration,
   type Task,
   type TaskPriority,
   PRIORITY_ORDER,
@@ -165,6 +173,8 @@ export class BuiltinCommands {
     loader.register(this.newCommand());
     loader.register(this.sessionCommand());
     loader.register(this.resumeCommand());
+    loader.register(this.rewindCommand());
+    loader.register(this.forkCommand());
     loader.register(this.statusCommand());
     loader.register(this.tokensCommand());
     loader.register(this.contextCommand());
@@ -203,6 +213,7 @@ export class BuiltinCommands {
     loader.register(this.jobsCommand());
     loader.register(this.messagesCommand());
     loader.register(this.webhooksCommand());
+    loader.register(this.mcpCommand());
     loader.register(this.channelsCommand());
     loader.register(this.peopleCommand());
     loader.register(this.phoneCommand());
@@ -710,7 +721,11 @@ export class BuiltinCommands {
 
           const result = await tester.test(hookInfo.handler, hookInfo.event);
 
-          context.emit('text', `**Exit code:** ${result.exitCode ?? 'N/A'}\n`);
+          if (result.status !== undefined) {
+            context.emit('text', `**HTTP status:** ${result.status}\n`);
+          } else {
+            context.emit('text', `**Exit code:** ${result.exitCode ?? 'N/A'}\n`);
+          }
           if (result.stdout) {
             context.emit('text', `**Stdout:**\n\`\`\`\n${result.stdout}\n\`\`\`\n`);
           } else {
@@ -1150,10 +1165,17 @@ export class BuiltinCommands {
           DEFAULT_GUARDRAILS_CONFIG,
           PERMISSIVE_POLICY,
           RESTRICTIVE_POLICY,
+          GuardrailsAuditLog,
+          loadSessionToolCalls,
+          loadCandidateConfig,
+          simulateGuardrails,
+          formatSimulationReport,
         } = await import('../guardrails');
 
         const [action, ...rest] = args.trim().toLowerCase().split(/\s+/);
         const target = rest.join(' ');
+        // Session IDs and file paths are case-sensitive
+        const rawRest = args.trim().split(/\s+/).slice(1);
 
         // Create evaluator instance
         const evaluator = new PolicyEvaluator(context.guardrailsConfig);
@@ -1171,6 +1193,10 @@ export class BuiltinCommands {
           message += '/guardrails add-rule <pattern> <action>   Add a tool rule\n';
           message += '/guardrails remove-rule <pattern>         Remove a tool rule\n';
           message += '/guardrails check <tool>          Check if a tool is allowed\n';
+          message += '/guardrails mode <enforce|audit>  Enforce decisions or only log them\n';
+          message += '/guardrails audit [n]             Show recent logged decisions\n';
+          message += '/guardrails simulate [session] [--policy <file|preset>]\n';
+          message += '                                  Replay a saved session against policies\n';
           message += '/guardrails help                  Show this help\n';
           message += '\n**Presets:**\n';
           message += '  - `permissive`: Allow most operations, deny only dangerous commands\n';
@@ -1406,6 +1432,76 @@ export class BuiltinCommands {
           return { handled: true };
         }
 
+        // /guardrails mode <enforce|audit>
+        if (action === 'mode') {
+          if (target !== 'enforce' && target !== 'audit') {
+            context.emit('text', `\nCurrent mode: ${evaluator.getMode()}\n`);
+            context.emit('text', 'Usage: /guardrails mode <enforce|audit>\n');
+          } else if (context.setGuardrailsMode) {
+            context.setGuardrailsMode(target);
+            context.emit('text', target === 'audit'
+              ? '\n✓ Guardrails in **audit** mode: decisions are logged, not enforced\n'
+              : '\n✓ Guardrails in **enforce** mode\n');
+          } else {
+            context.emit('text', '\n⚠ Guardrails control not available in this context\n');
+          }
+          context.emit('done');
+          return { handled: true };
+        }
+
+        // /guardrails audit [n]
+        if (action === 'audit') {
+          const limit = Math.max(1, parseInt(target || '20', 10) || 20);
+          const entries = new GuardrailsAuditLog().read({ limit });
+          if (entries.length === 0) {
+            context.emit('text', '\nNo guardrails decisions logged. Use `/guardrails mode audit` or set logEvaluations.\n');
+          } else {
+            let message = `\n**Guardrails Audit Log** (${entries.length} most recent)\n\n`;
+            for (const entry of entries) {
+              const enforced = entry.enforced ? '' : ' (not enforced)';
+              message += `${entry.timestamp}  ${entry.toolName} → ${entry.decision}${enforced}\n`;
+              for (const rule of entry.matchedRules) {
+                message += `    ${rule}\n`;
+              }
+            }
+            context.emit('text', message);
+          }
+          context.emit('done');
+          return { handled: true };
+        }
+
+        // /guardrails simulate [session|latest] [--policy <file|preset>]
+        if (action === 'simulate') {
+          let sessionId = 'latest';
+          let policySource: string | undefined;
+          for (let i = 0; i < rawRest.length; i++) {
+            if (rawRest[i] === '--policy' && rawRest[i + 1]) {
+              policySource = rawRest[i + 1];
+              i++;
+            } else if (!rawRest[i].startsWith('--')) {
+              sessionId = rawRest[i];
+            }
+          }
+
+          try {
+            const { sessionId: resolvedId, calls } = loadSessionToolCalls(sessionId);
+            let config = evaluator.getConfig();
+            if (policySource) {
+              const source = policySource === 'permissive' || policySource === 'restrictive'
+                ? policySource
+                : resolve(context.cwd, policySource);
+              config = loadCandidateConfig(source, config);
+            }
+            const report = simulateGuardrails(calls, config);
+            const title = `\n**Guardrails Simulation** (session ${resolvedId}${policySource ? `, policy ${policySource}` : ', current policies'})`;
+            context.emit('text', `${formatSimulationReport(report, { title })}\n`);
+          } catch (error) {
+            context.emit('text', `\n⚠ ${error instanceof Error ? error.message : String(error)}\n`);
+          }
+          context.emit('done');
+          return { handled: true };
+        }
+
         // /guardrails - Show interactive panel
         if (!action || action === 'ui') {
           context.emit('done');
@@ -1416,6 +1512,7 @@ export class BuiltinCommands {
         const config = evaluator.getConfig();
         let message = '\n**Guardrails Status**\n\n';
         message += `Enforcement: ${config.enabled ? '**enabled**' : 'disabled'}\n`;
+        message += `Mode: ${config.mode || 'enforce'}\n`;
         message += `Default action: ${config.defaultAction}\n`;
         message += `Policies: ${config.policies.length}\n`;
 
@@ -2874,6 +2971,171 @@ Created: ${new Date(job.createdAt).toISOString()}
     };
   }
 
+  /**
+   * /mcp - Model Context Protocol servers
+   */
+  private mcpCommand(): Command {
+    return {
+      name: 'mcp',
+      description: 'Show MCP servers and their tools, resources and prompts',
+      builtin: true,
+      selfHandled: true,
+      content: '',
+      handler: async (args, context) => {
+        const [subcommand, ...rest] = args.trim().split(/\s+/);
+        const subArgs = rest.join(' ').trim();
+
+        // /mcp (no args) or /mcp ui → open interactive panel
+        if (!subcommand || subcommand === 'ui') {
+          context.emit('done');
+          return { handled: true, showPanel: 'mcp' };
+        }
+
+        if (subcommand === 'help') {
+          let output = '\n**MCP Commands**\n\n';
+          output += '  /mcp                          Open the MCP servers panel\n';
+          output += '  /mcp list                     Server status and health\n';
+          output += '  /mcp check [server]           Ping servers and show latency\n';
+          output += '  /mcp tools [server]           List registered MCP tools\n';
+          output += '  /mcp resources [server]       List resources\n';
+          output += '  /mcp prompts [server]         List prompts (run with /<server>:<prompt>)\n';
+          output += '  /mcp read <server> <uri>      Add a resource to the conversation\n';
+          output += '  /mcp reconnect <server>       Reconnect a server\n';
+          output += '  /mcp disconnect <server>      Disconnect a server\n';
+          output += '\nServers are configured under "mcp.servers" in config.json.\n';
+          context.emit('text', output);
+          context.emit('done');
+          return { handled: true };
+        }
+
+        const manager = context.getMcpManager?.();
+        if (!manager) {
+          context.emit('text', 'No MCP servers configured. Add servers under "mcp.servers" in .assistants/config.json.\n');
+          context.emit('done');
+          return { handled: true };
+        }
+
+        const requireServer = (usage: string): string | null => {
+          const name = subArgs.split(/\s+/)[0];
+          if (!name) {
+            context.emit('text', `Usage: ${usage}\n`);
+            return null;
+          }
+          if (!manager.getServer(name)) {
+            context.emit('text', `Unknown MCP server: ${name}. Configured: ${manager.getServerNames().join(', ')}\n`);
+            return null;
+          }
+          return name;
+        };
+
+        const statusIcons: Record<string, string> = {
+          connected: '●',
+          connecting: '◐',
+          error: '✗',
+          disconnected: '○',
+          disabled: '○',
+        };
+
+        const formatServers = (servers: ReturnType<typeof manager.getServers>): string => {
+          let output = `\n**MCP Servers** (${servers.filter((server) => server.status === 'connected').length}/${servers.length} connected)\n\n`;
+          for (const server of servers) {
+            const info = server.serverInfo ? ` - ${server.serverInfo.name}${server.serverInfo.version ? ` ${server.serverInfo.version}` : ''}` : '';
+            output += `${statusIcons[server.status] ?? '?'} **${server.name}** [${server.transport}] ${server.status}${info}\n`;
+            output += `  ${server.target}\n`;
+            if (server.status === 'connected') {
+              const latency = server.latencyMs !== undefined ? ` | ${server.latencyMs}ms` : '';
+              output += `  ${server.tools.length} tools | ${server.resources.length} resources | ${server.prompts.length} prompts${latency}\n`;
+            }
+            if (server.error) {
+              output += `  Error: ${server.error}\n`;
+            }
+          }
+          return output;
+        };
+
+        try {
+          if (subcommand === 'list' || subcommand === 'status') {
+            context.emit('text', formatServers(manager.getServers()));
+          } else if (subcommand === 'check') {
+            const name = subArgs ? requireServer('/mcp check [server]') : undefined;
+            if (name !== null) {
+              context.emit('text', formatServers(await manager.checkHealth(name)));
+            }
+          } else if (subcommand === 'tools') {
+            const servers = manager.getServers().filter((server) => !subArgs || server.name === subArgs);
+            const names = servers.flatMap((server) => server.tools);
+            if (names.length === 0) {
+              context.emit('text', subArgs ? `No tools registered for ${subArgs}.\n` : 'No MCP tools registered.\n');
+            } else {
+              let output = `\n**MCP Tools** (${names.length})\n\n`;
+              for (const server of servers) {
+                for (const name of server.tools) {
+                  const description = context.tools.find((tool) => tool.name === name)?.description ?? '';
+                  output += `  ${name}${description ? ` - ${description.replace(`[${server.name}] `, '').slice(0, 80)}` : ''}\n`;
+                }
+              }
+              context.emit('text', output);
+            }
+          } else if (subcommand === 'resources') {
+            const resources = manager.listResources(subArgs || undefined);
+            if (resources.length === 0) {
+              context.emit('text', 'No MCP resources available.\n');
+            } else {
+              let output = `\n**MCP Resources** (${resources.length})\n\n`;
+              for (const resource of resources) {
+                output += `  ${resource.server}: ${resource.uri} - ${resource.name}\n`;
+              }
+              output += '\nAdd one to the conversation with /mcp read <server> <uri>\n';
+              context.emit('text', output);
+            }
+          } else if (subcommand === 'prompts') {
+            const servers = manager.getServers().filter((server) => !subArgs || server.name === subArgs);
+            const prompts = servers.flatMap((server) => server.prompts.map((prompt) => ({ server: server.name, prompt })));
+            if (prompts.length === 0) {
+              context.emit('text', 'No MCP prompts available.\n');
+            } else {
+              let output = `\n**MCP Prompts** (${prompts.length})\n\n`;
+              for (const { server, prompt } of prompts) {
+                const promptArgs = (prompt.arguments ?? []).map((argument) => argument.required ? `<${argument.name}>` : `[--${argument.name}]`).join(' ');
+                output += `  /${server}:${prompt.name}${promptArgs ? ` ${promptArgs}` : ''}${prompt.description ? ` - ${prompt.description}` : ''}\n`;
+              }
+              context.emit('text', output);
+            }
+          } else if (subcommand === 'read') {
+            const [server, uri] = subArgs.split(/\s+/);
+            if (!server || !uri) {
+              context.emit('text', 'Usage: /mcp read <server> <uri>\n');
+            } else {
+              const contents = await manager.readResource(server, uri);
+              const text = formatResourceContents(contents);
+              context.addSystemMessage(`MCP resource ${uri} (from ${server}):\n\n${text}`);
+              context.emit('text', `Added ${uri} to the conversation (${text.length} characters).\n`);
+            }
+          } else if (subcommand === 'reconnect' || subcommand === 'connect') {
+            const name = requireServer(`/mcp ${subcommand} <server>`);
+            if (name) {
+              await manager.reconnect(name).catch(() => {});
+              context.emit('text', formatServers([manager.getServer(name)!]));
+            }
+          } else if (subcommand === 'disconnect') {
+            const name = requireServer('/mcp disconnect <server>');
+            if (name) {
+              await manager.disconnect(name);
+              context.emit('text', `Disconnected ${name}.\n`);
+            }
+          } else {
+            context.emit('text', `Unknown command: ${subcommand}\n`);
+            context.emit('text', 'Use /mcp help for available commands.\n');
+          }
+        } catch (error) {
+          context.emit('text', `Error: ${error instanceof Error ? error.message : String(error)}\n`);
+        }
+        context.emit('done');
+        return { handled: true };
+      },
+    };
+  }
+
   /**
    * /channels - Slack-like channel collaboration
    */
@@ -3788,7 +4050,8 @@ Created: ${new Date(job.createdAt).toISOString()}
             for (const task of recent) {
               const statusIcon = task.status === 'pending' ? '○' :
                                  task.status === 'in_progress' ? '◐' :
-                                 task.status === 'completed' ? '●' : '✗';
+                                 task.status === 'completed' ? '●' :
+                               task.status === 'cancelled' ? '⊘' : '✗';
               const priorityIcon = task.priority === 'high' ? '↑' :
                                    task.priority === 'low' ? '↓' : '-';
               output += `  ${statusIcon} [${priorityIcon}] ${task.description.slice(0, 50)}${task.description.length > 50 ? '...' : ''}\n`;
@@ -3807,6 +4070,7 @@ Created: ${new Date(job.createdAt).toISOString()}
           output += '  /tasks add <desc>        Add a task (normal priority)\n';
           output += '  /tasks add -p high <desc>  Add high priority task\n';
           output += '  /tasks add -p low <desc>   Add low priority task\n';
+          output += '  /tasks add --retries 2 --timeout 5m <desc>  Retry policy and timeout for the runner\n';
           output += '  /tasks show <id>         Show task details\n';
           output += '  /tasks delete <id>       Delete a task\n';
           output += '  /tasks clear             Clear all pending tasks\n';
@@ -3815,6 +4079,10 @@ Created: ${new Date(job.createdAt).toISOString()}
           output += '  /tasks pause             Pause auto-processing\n';
           output += '  /tasks resume            Resume auto-processing\n';
           output += '  /tasks run               Run next pending task\n';
+          output += '  /tasks start [n] [--once|--watch]  Run queued tasks with n parallel subassistants\n';
+          output += '  /tasks stop              Stop the runner (running tasks return to the queue)\n';
+          output += '  /tasks status            Show runner progress\n';
+          output += '  /tasks cancel <id>       Cancel a task and the tasks that depend on it\n';
           output += '  /tasks help              Show this help\n';
           output += '\nNote: You can use a unique ID prefix from /tasks list.\n';
 
@@ -3840,7 +4108,8 @@ Created: ${new Date(job.createdAt).toISOString()}
           for (const task of tasks) {
             const statusIcon = task.status === 'pending' ? '○' :
                                task.status === 'in_progress' ? '◐' :
-                               task.status === 'completed' ? '●' : '✗';
+                               task.status === 'completed' ? '●' :
+                               task.status === 'cancelled' ? '⊘' : '✗';
             const priorityIcon = task.priority === 'high' ? '↑' :
                                  task.priority === 'low' ? '↓' : '-';
             const desc = task.description.slice(0, 40) + (task.description.length > 40 ? '...' : '');
@@ -3856,30 +4125,51 @@ Created: ${new Date(job.createdAt).toISOString()}
         // Add a task
         if (sub === 'add') {
           let priority: TaskPriority = 'normal';
+          let maxRetries: number | undefined;
+          let timeoutMs: number | undefined;
           let descriptionParts = parts.slice(1);
 
-          // Check for priority flag
-          if (descriptionParts[0] === '-p' && descriptionParts[1]) {
-            const p = descriptionParts[1].toLowerCase();
-            if (p === 'high' || p === 'normal' || p === 'low') {
-              priority = p as TaskPriority;
-              descriptionParts = descriptionParts.slice(2);
+          // Leading flags: priority, retries and timeout
+          while (descriptionParts.length > 1) {
+            const [flag, value] = descriptionParts;
+            if (flag === '-p' && ['high', 'normal', 'low'].includes(value.toLowerCase())) {
+              priority = value.toLowerCase() as TaskPriority;
+            } else if (flag === '--retries' && /^\d+$/.test(value)) {
+              maxRetries = Number(value);
+            } else if (flag === '--timeout' && parseTaskDuration(value) !== null) {
+              timeoutMs = parseTaskDuration(value)!;
+            } else {
+              break;
             }
+            descriptionParts = descriptionParts.slice(2);
           }
 
           const description = descriptionParts.join(' ').trim();
           if (!description) {
-            context.emit('text', 'Usage: /tasks add [-p high|normal|low] <description>\n');
+            context.emit('text', 'Usage: /tasks add [-p high|normal|low] [--retries <n>] [--timeout <90s|5m|1h>] <description>\n');
             context.emit('done');
             return { handled: true };
           }
 
           const projectId = context.getActiveProjectId?.() || undefined;
-          const task = await addTask(context.cwd, description, priority, projectId);
+          const task = await addTask(context.cwd, {
+            description,
+            priority,
+            projectId,
+            retry: maxRetries !== undefined ? { maxRetries } : undefined,
+            timeoutMs,
+          });
           const priorityLabel = task.priority === 'high' ? ' (high priority)' :
                                 task.priority === 'low' ? ' (low priority)' : '';
           context.emit('text', `Task added${priorityLabel}: ${task.description}\n`);
           context.emit('text', `ID: ${task.id}\n`);
+          if (task.retry || task.timeoutMs) {
+            const settings = [
+              task.retry ? `${task.retry.maxRetries} retr${task.retry.maxRetries === 1 ? 'y' : 'ies'}` : null,
+              task.timeoutMs ? `timeout ${formatDuration(task.timeoutMs)}` : null,
+            ].filter(Boolean).join(', ');
+            context.emit('text', `Runner: ${settings}\n`);
+          }
           context.emit('done');
           return { handled: true };
         }
@@ -3918,6 +4208,16 @@ Created: ${new Date(job.createdAt).toISOString()}
           if (task.error) {
             output += `**Error:** ${task.error}\n`;
           }
+          if (task.attempts) {
+            const maxAttempts = task.retry ? ` of ${task.retry.maxRetries + 1}` : '';
+            output += `**Attempts:** ${task.attempts}${maxAttempts}\n`;
+          }
+          if (task.nextAttemptAt && task.status === 'pending') {
+            output += `**Next attempt:** ${new Date(task.nextAttemptAt).toLocaleString()}\n`;
+          }
+          if (task.timeoutMs) {
+            output += `**Timeout:** ${formatDuration(task.timeoutMs)}\n`;
+          }
           if (task.projectId) {
             output += `**Project:** ${task.projectId}\n`;
           }
@@ -4042,6 +4342,104 @@ Created: ${new Date(job.createdAt).toISOString()}
           };
         }
 
+        // Start the task runner
+        if (sub === 'start') {
+          const runner = context.getTaskRunner?.();
+          if (!runner) {
+            context.emit('text', 'The task runner needs subassistants, which are not available in this session.\n');
+            context.emit('done');
+            return { handled: true };
+          }
+
+          const flags = parts.slice(1);
+          const countArg = flags.find((flag) => /^\d+$/.test(flag));
+          const concurrency = countArg ? Math.min(Math.max(Number(countArg), 1), 10) : runner.getConfig().concurrency;
+          const watch = flags.includes('--once') ? false : flags.includes('--watch') ? true : await isAutoRun(context.cwd);
+          runner.configure({ concurrency, watch });
+
+          const mode = watch ? 'watching for new tasks until /tasks stop' : 'until the queue is empty';
+          if (runner.isRunning()) {
+            context.emit('text', `Task runner already running; now ${concurrency} at a time, ${mode}.\n`);
+          } else {
+            runner.start().catch(() => {});
+            context.emit('text', `Task runner started: ${concurrency} at a time, ${mode}.\n`);
+            if (await isPaused(context.cwd)) {
+              context.emit('text', 'Note: the queue is paused. Use /tasks resume to let the runner pick up tasks.\n');
+            }
+          }
+          context.emit('text', 'Follow progress with /tasks or /tasks status.\n');
+          context.emit('done');
+          return { handled: true };
+        }
+
+        // Stop the task runner
+        if (sub === 'stop') {
+          const runner = context.getTaskRunner?.();
+          if (!runner?.isRunning()) {
+            context.emit('text', 'Task runner is not running.\n');
+            context.emit('done');
+            return { handled: true };
+          }
+          const interrupted = runner.getStatus().active.length;
+          await runner.stop();
+          context.emit('text', `Task runner stopped.${interrupted > 0 ? ` ${interrupted} running task${interrupted === 1 ? '' : 's'} returned to the queue.` : ''}\n`);
+          context.emit('done');
+          return { handled: true };
+        }
+
+        // Runner progress
+        if (sub === 'status') {
+          const runner = context.getTaskRunner?.();
+          const status = runner?.getStatus();
+          const counts = await getTaskCounts(context.cwd);
+          let output = `\n**Task Runner:** ${status?.running ? (status.stopping ? 'stopping' : `running (${status.concurrency} at a time${status.watch ? ', watching' : ''})`) : 'stopped'}\n`;
+          output += `**Queue:** ${counts.pending} pending, ${counts.in_progress} in progress, ${counts.completed} completed, ${counts.failed} failed, ${counts.cancelled} cancelled${(await isPaused(context.cwd)) ? ' (paused)' : ''}\n`;
+          if (status?.running) {
+            output += `**This run:** ${status.completed} completed, ${status.failed} failed, ${status.retried} retried, ${status.cancelled} cancelled\n`;
+            for (const run of status.active) {
+              const elapsed = formatDuration(Date.now() - run.startedAt);
+              output += `  ◐ ${run.taskId} - ${run.description.slice(0, 50)}${run.description.length > 50 ? '...' : ''} (attempt ${run.attempt}/${run.maxAttempts}, ${elapsed} of ${formatDuration(run.timeoutMs)})\n`;
+            }
+          }
+          context.emit('text', output);
+          context.emit('done');
+          return { handled: true };
+        }
+
+        // Cancel a task and its dependents
+        if (sub === 'cancel') {
+          const id = parts[1];
+          if (!id) {
+            context.emit('text', 'Usage: /tasks cancel <id>\n');
+            context.emit('done');
+            return { handled: true };
+          }
+
+          const { task, matches } = await resolveTaskId(context.cwd, id);
+          if (!task) {
+            emitResolveError(id, matches, 'Task');
+            context.emit('done');
+            return { handled: true };
+          }
+
+          const runner = context.getTaskRunner?.();
+          const cancelled = runner ? await runner.cancel(task.id) : await cancelTask(context.cwd, task.id);
+          if (cancelled.length === 0) {
+            context.emit('text', `Task ${task.id} is ${task.status.replace('_', ' ')} and cannot be cancelled.\n`);
+          } else {
+            context.emit('text', `Task cancelled: ${task.description}\n`);
+            const dependents = cancelled.slice(1);
+            if (dependents.length > 0) {
+              context.emit('text', `Also cancelled ${dependents.length} dependent task${dependents.length === 1 ? '' : 's'}:\n`);
+              for (const dependent of dependents) {
+                context.emit('text', `  ⊘ ${formatTaskMatch(dependent)}\n`);
+              }
+            }
+          }
+          context.emit('done');
+          return { handled: true };
+        }
+
         context.emit('text', `Unknown tasks command: ${sub}\n`);
         context.emit('text', 'Use /tasks help for available commands.\n');
         context.emit('done');
@@ -4213,7 +4611,7 @@ Created: ${new Date(job.createdAt).toISOString()}
     return {
       name: 'sessions',
       aliases: ['session'],
-      description: 'Manage sessions: list, create with agent, switch, assign agent',
+      description: 'Manage sessions: list, create with agent, switch, assign agent, search history',
       builtin: true,
       selfHandled: true,
       content: '',
@@ -4229,12 +4627,100 @@ Created: ${new Date(job.createdAt).toISOString()}
           message += '/session new [label] --agent <name>  Create session with agent\n';
           message += '/session assign <agent>            Assign agent to current session\n';
           message += '/session <number>                  Switch to session by number\n';
+          message += '/session search [query] [filters]  Full-text search all past sessions\n';
+          message += '    --assistant <name|default>     Only sessions of this assistant\n';
+          message += '    --project <path|name>          Only sessions in this project directory\n';
+          message += '    --since <date|7d>  --until <date|7d>\n';
+          message += '    --tool <name>                  Only calls and results of this tool\n';
           message += '/session help                      Show this help\n';
           context.emit('text', message);
           context.emit('done');
           return { handled: true };
         }
 
+        // /session search [query] [--assistant <name>] [--project <p>] [--since <d>] [--until <d>] [--tool <name>]
+        if (sub === 'search') {
+          const flags: Record<string, string> = {};
+          const terms: string[] = [];
+          const rest = parts.slice(1);
+          for (let i = 0; i < rest.length; i += 1) {
+            const flag = rest[i].match(/^--(assistant|agent|project|since|until|tool|limit)$/);
+            if (flag && rest[i + 1] !== undefined) {
+              flags[flag[1] === 'agent' ? 'assistant' : flag[1]] = rest[i + 1];
+              i += 1;
+            } else {
+              // Keep quoted phrases together
+              terms.push(/\s/.test(rest[i]) ? `"${rest[i]}"` : rest[i]);
+            }
+          }
+
+          const query = terms.join(' ');
+          const filters = Object.entries(flags)
+            .filter(([name]) => name !== 'limit')
+            .map(([name, value]) => `--${name} ${value}`)
+            .join(' ');
+          if (!query && !filters) {
+            context.emit('text', '\nUsage: /session search [query] [--assistant <name>] [--project <path>] [--since <date>] [--until <date>] [--tool <name>]\nGive a query, at least one filter, or both.\n');
+            context.emit('done');
+            return { handled: true };
+          }
+
+          const assistantManager = context.getAssistantManager?.();
+          const assistants = assistantManager?.listAssistants() ?? [];
+          const options: SessionSearchOptions = {
+            query,
+            project: flags.project,
+            since: flags.since,
+            until: flags.until,
+            toolName: flags.tool,
+            limit: flags.limit ? parseInt(flags.limit, 10) || undefined : undefined,
+          };
+          if (flags.assistant) {
+            const name = flags.assistant;
+            if (name.toLowerCase() === 'default') {
+              options.assistantId = null;
+            } else {
+              const found = assistants.find(
+                (a) => a.name.toLowerCase() === name.toLowerCase() || a.id === name
+              );
+              options.assistantId = found?.id ?? name;
+            }
+          }
+
+          let results;
+          try {
+            results = searchSessions(options);
+          } catch (error) {
+            context.emit('text', `\n⚠ Search failed: ${error instanceof Error ? error.message : String(error)}\n`);
+            context.emit('done');
+            return { handled: true };
+          }
+
+          if (results.length === 0) {
+            context.emit('text', `\nNo matches found${query ? ` for "${query}"` : ''}.\n`);
+            context.emit('done');
+            return { handled: true };
+          }
+
+          const assistantNames = new Map(assistants.map((a) => [a.id, a.name]));
+          let output = `\n## Session search: ${query || filters} (${results.length})\n\n`;
+          for (const result of results) {
+            const assistantLabel = result.assistantId
+              ? assistantNames.get(result.assistantId) || result.assistantId
+              : 'default';
+            const label = result.kind === 'message'
+              ? result.role || 'message'
+              : `${result.kind === 'tool_call' ? 'call' : 'result'} ${result.toolName || ''}`.trim();
+            const current = result.sessionId === context.sessionId ? ' (current)' : '';
+            output += `- \`${result.sessionId.slice(0, 8)}\`${current} · ${assistantLabel} · ${formatRelativeTime(new Date(result.timestamp).getTime())} · ${singleLine(result.cwd || '')}\n`;
+            output += `  [${label}] ${singleLine(result.snippet)}\n`;
+          }
+          output += '\nOpen a session with /resume --all.\n';
+          context.emit('text', output);
+          context.emit('done');
+          return { handled: true };
+        }
+
         // /session new [label] --agent <name>
         if (sub === 'new') {
           let label: string | undefined;
@@ -4399,11 +4885,11 @@ Created: ${new Date(job.createdAt).toISOString()}
             output += '|----|---------|----------|-----|\n';
           }
 
-          for (const session of sessions) {
+          for (const { session, prefix } of buildSessionTree(sessions)) {
             const updated = formatRelativeTime(new Date(session.updatedAt).getTime());
             const messageCount = session.messageCount ?? 0;
             const cwd = escapeCell(truncate(singleLine(session.cwd || ''), 48));
-            const id = escapeCell(session.id.slice(0, 8));
+            const id = escapeCell(prefix + session.id.slice(0, 8));
             if (showAll) {
               const assistantLabel = session.assistantId
                 ? assistantNames?.get(session.assistantId) || session.assistantId
@@ -4431,6 +4917,150 @@ Created: ${new Date(job.createdAt).toISOString()}
     };
   }
 
+  /**
+   * /rewind - Restore the conversation and/or files to a checkpoint
+   */
+  private rewindCommand(): Command {
+    return {
+      name: 'rewind',
+      aliases: ['checkpoints'],
+      description: 'Rewind the conversation and/or files to a checkpoint',
+      builtin: true,
+      selfHandled: true,
+      content: '',
+      handler: async (args, context) => {
+        const parts = splitArgs(args);
+        const flags = parts.filter((part) => part.startsWith('--'));
+        const target = parts.find((part) => !part.startsWith('--')) || '';
+        const sub = target.toLowerCase();
+
+        if (!context.listCheckpoints || !context.rewindToCheckpoint) {
+          context.emit('text', '\n⚠ Checkpoints are not available in this session.\n');
+          context.emit('done');
+          return { handled: true };
+        }
+
+        if (sub === 'help') {
+          let message = '\n## Rewind\n\n';
+          message += 'A checkpoint is recorded at every user turn, with snapshots of files changed by tools.\n\n';
+          message += '/rewind                     List checkpoints\n';
+          message += '/rewind <n|id>              Restore conversation and files to before turn n\n';
+          message += '/rewind <n|id> --chat       Restore the conversation only\n';
+          message += '/rewind <n|id> --files      Restore files only\n';
+          message += '/rewind -1                  Undo the last turn\n';
+          context.emit('text', message);
+          context.emit('done');
+          return { handled: true };
+        }
+
+        if (!sub || sub === 'list') {
+          const checkpoints = context.listCheckpoints();
+          if (checkpoints.length === 0) {
+            context.emit('text', '\nNo checkpoints yet. One is recorded at every message you send.\n');
+            context.emit('done');
+            return { handled: true };
+          }
+          let output = '\n| # | ID | Created | Files | Prompt |\n';
+          output += '|---|----|---------|-------|--------|\n';
+          checkpoints.forEach((checkpoint, index) => {
+            const created = formatRelativeTime(new Date(checkpoint.createdAt).getTime());
+            const prompt = singleLine(checkpoint.prompt).replace(/\|/g, '\\|');
+            const shortPrompt = prompt.length > 60 ? `${prompt.slice(0, 57)}...` : prompt;
+            output += `| ${index + 1} | ${checkpoint.id.slice(0, 8)} | ${created} | ${checkpoint.files.length} | ${shortPrompt} |\n`;
+          });
+          output += '\nUse /rewind <#> to restore, or /rewind help for options.\n';
+          context.emit('text', output);
+          context.emit('done');
+          return { handled: true };
+        }
+
+        const chatOnly = flags.includes('--chat') || flags.includes('--conversation');
+        const filesOnly = flags.includes('--files') || flags.includes('--code');
+        if (chatOnly && filesOnly) {
+          context.emit('text', '\nUse either --chat or --files, or neither to restore both.\n');
+          context.emit('done');
+          return { handled: true };
+        }
+
+        let result;
+        try {
+          result = context.rewindToCheckpoint(target, {
+            conversation: !filesOnly,
+            files: !chatOnly,
+          });
+        } catch (error) {
+          context.emit('text', `\n⚠ ${error instanceof Error ? error.message : String(error)}\n`);
+          context.emit('done');
+          return { handled: true };
+        }
+
+        let message = `\n✓ Rewound to checkpoint ${result.checkpoint.id.slice(0, 8)} (before "${singleLine(result.checkpoint.prompt).slice(0, 60)}")\n`;
+        if (!filesOnly) {
+          message += result.conversationRestored
+            ? `  Conversation: removed ${result.removedMessages} message${result.removedMessages === 1 ? '' : 's'}\n`
+            : '  Conversation: checkpoint turn is no longer in context, left unchanged\n';
+        }
+        if (result.files) {
+          const { restored, deleted, skipped } = result.files;
+          message += `  Files: ${restored.length} restored, ${deleted.length} deleted`;
+          message += skipped.length > 0 ? `, ${skipped.length} skipped (too large or unreadable)\n` : '\n';
+        }
+        context.emit('text', message);
+        context.emit('done');
+        return { handled: true, sessionAction: 'rewind' };
+      },
+    };
+  }
+
+  /**
+   * /fork - Branch the session into a new session ID
+   */
+  private forkCommand(): Command {
+    return {
+      name: 'fork',
+      aliases: ['branch'],
+      description: 'Branch this session into a new session (optionally from a checkpoint)',
+      builtin: true,
+      selfHandled: true,
+      content: '',
+      handler: async (args, context) => {
+        const target = splitArgs(args)[0] || '';
+
+        if (!context.forkSession) {
+          context.emit('text', '\n⚠ Forking is not available in this session.\n');
+          context.emit('done');
+          return { handled: true };
+        }
+
+        if (target.toLowerCase() === 'help') {
+          let message = '\n## Fork\n\n';
+          message += '/fork              Branch the whole session into a new session\n';
+          message += '/fork <n|id>       Branch from before checkpoint n (see /rewind)\n';
+          context.emit('text', message);
+          context.emit('done');
+          return { handled: true };
+        }
+
+        let result;
+        try {
+          result = context.forkSession(target || undefined);
+        } catch (error) {
+          context.emit('text', `\n⚠ ${error instanceof Error ? error.message : String(error)}\n`);
+          context.emit('done');
+          return { handled: true };
+        }
+
+        context.emit(
+          'text',
+          `\n✓ Forked session ${result.parentSessionId.slice(0, 8)} into ${result.sessionId.slice(0, 8)} ` +
+            `(${result.messageCount} messages, ${result.checkpointCount} checkpoints)\n`
+        );
+        context.emit('done');
+        return { handled: true, sessionAction: 'fork', sessionId: result.sessionId };
+      },
+    };
+  }
+
   /**
    * /tokens - Show token usage (alias for /status)
    */
@@ -4451,6 +5081,10 @@ Created: ${new Date(job.createdAt).toISOString()}
         let message = '\n**Token Usage**\n\n';
         message += `Input: ${usage.inputTokens.toLocaleString()}\n`;
         message += `Output: ${usage.outputTokens.toLocaleString()}\n`;
+        if (usage.cacheReadTokens || usage.cacheWriteTokens) {
+          message += `Cache read: ${(usage.cacheReadTokens || 0).toLocaleString()}\n`;
+          message += `Cache write: ${(usage.cacheWriteTokens || 0).toLocaleString()}\n`;
+        }
         message += `Total: ${usage.totalTokens.toLocaleString()} / ${usage.maxContextTokens.toLocaleString()} (${usedPercent}%)\n`;
 
         // Visual progress bar
@@ -5466,11 +6100,80 @@ Created: ${new Date(job.createdAt).toISOString()}
           }
         }
 
+        // /skills install|update|lock - skill packages
+        if (subcommand === 'install' || subcommand === 'update' || subcommand === 'lock') {
+          const scope: SkillScope = tokens.includes('--global') ? 'global' : 'project';
+          const positional = tokens.filter((token) => !token.startsWith('--'));
+          const manager = new SkillPackageManager({
+            cwd: context.cwd,
+            scope,
+            availableTools: context.tools.map((tool) => tool.name),
+            availableConnectors: context.connectors.map((connector) => connector.name),
+          });
+
+          try {
+            if (subcommand === 'lock') {
+              const result = await manager.lock();
+              const names = Object.keys(result.lockfile.packages);
+              let message = `\nWrote ${manager.getLockfilePath()} (${names.length} package${names.length === 1 ? '' : 's'}).\n`;
+              for (const name of names) {
+                const entry = result.lockfile.packages[name];
+                message += `  ${name}@${entry.version}  ${entry.source}\n`;
+              }
+              if (result.added.length > 0) message += `Added: ${result.added.join(', ')}\n`;
+              if (result.changed.length > 0) message += `Changed: ${result.changed.join(', ')}\n`;
+              if (result.removed.length > 0) message += `Removed: ${result.removed.join(', ')}\n`;
+              context.emit('text', message);
+              context.emit('done');
+              return { handled: true };
+            }
+
+            let result: SkillPackageInstallResult;
+            if (subcommand === 'update') {
+              result = await manager.update(positional);
+            } else if (positional.length > 0) {
+              result = await manager.install(positional[0]);
+            } else {
+              result = await manager.installFromLockfile();
+            }
+            await context.refreshSkills?.();
+
+            let message = '\n';
+            for (const pkg of result.installed) {
+              const change = pkg.previousVersion && pkg.previousVersion !== pkg.version
+                ? ` (was ${pkg.previousVersion})`
+                : pkg.previousVersion ? ' (reinstalled)' : '';
+              message += `Installed ${pkg.name}@${pkg.version}${change}\n`;
+            }
+            if (result.unchanged.length > 0) {
+              message += `Up to date: ${result.unchanged.join(', ')}\n`;
+            }
+            if (result.installed.length === 0 && result.unchanged.length === 0) {
+              message += 'No packages to install.\n';
+            }
+            for (const warning of result.warnings) {
+              message += `⚠️ ${warning}\n`;
+            }
+            if (result.installed.length > 0) {
+              message += `Location: ${manager.getPackagesDir()}\nLockfile: ${manager.getLockfilePath()}\n`;
+            }
+            context.emit('text', message);
+          } catch (error) {
+            context.emit('text', `Failed to ${subcommand} skill packages: ${error instanceof Error ? error.message : String(error)}\n`);
+          }
+          context.emit('done');
+          return { handled: true };
+        }
+
         // /skills help
         if (subcommand === 'help') {
           let message = '\n**/skills commands**\n\n';
           message += '/skills                Open interactive skills panel\n';
           message += '/skills create <name>  Create a new skill\n';
+          message += '/skills install <src>  Install a skill package (directory, .tgz or git URL)\n';
+          message += `/skills install        Install the packages pinned in ${SKILL_LOCKFILE}\n`;
+          message += '/skills update [name]  Update packages from their sources\n';
+          message += `/skills lock           Rewrite ${SKILL_LOCKFILE} from installed packages\n`;
           message += '\nOptions for create:\n';
           message += '  --project            Create in project (.assistants/skills)\n';
           message += '  --global             Create globally (~/.assistants/shared/skills)\n';
@@ -5481,6 +6184,7 @@ Created: ${new Date(job.createdAt).toISOString()}
           message += '  --interactive         Ask follow-up questions\n';
           message += '  --force              Overwrite existing skill\n';
           message += '  --yes                Accept default (project) scope\n';
+          message += '\nPackage commands use project scope; add --global for ~/.assistants/shared/skills.\n';
           context.emit('text', message);
           context.emit('done');
           return { handled: true };
@@ -5697,7 +6401,7 @@ Format the summary as a brief bullet-point list. This summary will replace the c
       content: '',
       handler: async (args, context) => {
         // Import budget tracker
-        const { BudgetTracker, DEFAULT_BUDGET_CONFIG } = await import('../budget');
+        const { BudgetTracker, DEFAULT_BUDGET_CONFIG, formatCostUsd, formatSparkline } = await import('../budget');
 
         const action = args.trim().toLowerCase();
         const sessionId = context.sessionId || 'default';
@@ -5715,6 +6419,7 @@ Format the summary as a brief bullet-point list. This summary will replace the c
           message += '/budget reset                 Reset all usage counters\n';
           message += '/budget reset session         Reset session usage only\n';
           message += '/budget limits                Show configured limits\n';
+          message += '/budget history [hour|day]    Show usage over the last 24h or 30 days\n';
           message += '/budget resume                Resume from budget pause\n';
           message += '/budget extend <tokens>       Extend token limit\n';
           message += '/budget project [name]        Show/set project budget\n';
@@ -5824,6 +6529,33 @@ Format the summary as a brief bullet-point list. This summary will replace the c
           return { handled: true };
         }
 
+        // /budget history [hour|day]
+        if (action.startsWith('history')) {
+          const granularity = action.split(/\s+/)[1] === 'day' ? 'day' : 'hour';
+          const buckets = tracker.getHistory(granularity);
+          const tokens = buckets.map((b) => b.usage.totalTokens);
+          const total = tokens.reduce((sum, value) => sum + value, 0);
+          const cost = buckets.reduce((sum, b) => sum + (b.usage.costUsd || 0), 0);
+
+          let message = `\n**Budget History** (${granularity === 'hour' ? 'last 24 hours' : 'last 30 days'}, all sessions)\n\n`;
+          message += `Tokens: ${formatSparkline(tokens)}  ${total.toLocaleString()} total\n`;
+          message += `Cost:   ${formatSparkline(buckets.map((b) => b.usage.costUsd || 0))}  ${formatCostUsd(cost)} total\n`;
+
+          const busiest = buckets.reduce((max, b) => (b.usage.totalTokens > max.usage.totalTokens ? b : max), buckets[0]);
+          if (total > 0 && busiest) {
+            const label = granularity === 'hour'
+              ? `${busiest.start.slice(11, 13)}:00 UTC`
+              : busiest.start.slice(0, 10);
+            message += `\nBusiest ${granularity}: ${label} (${busiest.usage.totalTokens.toLocaleString()} tokens)\n`;
+          } else {
+            message += '\nNo usage recorded in this period.\n';
+          }
+
+          context.emit('text', message);
+          context.emit('done');
+          return { handled: true };
+        }
+
         // /budget limits
         if (action === 'limits') {
           const config = tracker.getConfig();
@@ -5834,6 +6566,8 @@ Format the summary as a brief bullet-point list. This summary will replace the c
             message += `  Max tokens: ${config.session.maxTotalTokens?.toLocaleString() || 'unlimited'}\n`;
             message += `  Max LLM calls: ${config.session.maxLlmCalls?.toLocaleString() || 'unlimited'}\n`;
             message += `  Max tool calls: ${config.session.maxToolCalls?.toLocaleString() || 'unlimited'}\n`;
+            message += `  Max cost: ${config.session.maxCostUsd ? formatCostUsd(config.session.maxCostUsd) : 'unlimited'}\n`;
+            message += `  Period: ${config.session.period && config.session.period !== 'session' ? `rolling ${config.session.period}` : 'session'}\n`;
             const maxDurationMin = config.session.maxDurationMs ? Math.round(config.session.maxDurationMs / 60000) : null;
             message += `  Max duration: ${maxDurationMin ? `${maxDurationMin} min` : 'unlimited'}\n`;
           } else {
@@ -5845,6 +6579,8 @@ Format the summary as a brief bullet-point list. This summary will replace the c
             message += `  Max tokens: ${config.assistant.maxTotalTokens?.toLocaleString() || 'unlimited'}\n`;
             message += `  Max LLM calls: ${config.assistant.maxLlmCalls?.toLocaleString() || 'unlimited'}\n`;
             message += `  Max tool calls: ${config.assistant.maxToolCalls?.toLocaleString() || 'unlimited'}\n`;
+            message += `  Max cost: ${config.assistant.maxCostUsd ? formatCostUsd(config.assistant.maxCostUsd) : 'unlimited'}\n`;
+            message += `  Period: ${config.assistant.period && config.assistant.period !== 'session' ? `rolling ${config.assistant.period}` : 'session'}\n`;
             const maxDurationMin = config.assistant.maxDurationMs ? Math.round(config.assistant.maxDurationMs / 60000) : null;
             message += `  Max duration: ${maxDurationMin ? `${maxDurationMin} min` : 'unlimited'}\n`;
           } else {
@@ -5856,6 +6592,8 @@ Format the summary as a brief bullet-point list. This summary will replace the c
             message += `  Max tokens: ${config.swarm.maxTotalTokens?.toLocaleString() || 'unlimited'}\n`;
             message += `  Max LLM calls: ${config.swarm.maxLlmCalls?.toLocaleString() || 'unlimited'}\n`;
             message += `  Max tool calls: ${config.swarm.maxToolCalls?.toLocaleString() || 'unlimited'}\n`;
+            message += `  Max cost: ${config.swarm.maxCostUsd ? formatCostUsd(config.swarm.maxCostUsd) : 'unlimited'}\n`;
+            message += `  Period: ${config.swarm.period && config.swarm.period !== 'session' ? `rolling ${config.swarm.period}` : 'session'}\n`;
             const maxDurationMin = config.swarm.maxDurationMs ? Math.round(config.swarm.maxDurationMs / 60000) : null;
             message += `  Max duration: ${maxDurationMin ? `${maxDurationMin} min` : 'unlimited'}\n`;
           } else {
@@ -5867,6 +6605,8 @@ Format the summary as a brief bullet-point list. This summary will replace the c
             message += `  Max tokens: ${config.project.maxTotalTokens?.toLocaleString() || 'unlimited'}\n`;
             message += `  Max LLM calls: ${config.project.maxLlmCalls?.toLocaleString() || 'unlimited'}\n`;
             message += `  Max tool calls: ${config.project.maxToolCalls?.toLocaleString() || 'unlimited'}\n`;
+            message += `  Max cost: ${config.project.maxCostUsd ? formatCostUsd(config.project.maxCostUsd) : 'unlimited'}\n`;
+            message += `  Period: ${config.project.period && config.project.period !== 'session' ? `rolling ${config.project.period}` : 'session'}\n`;
             const maxDurationMin = config.project.maxDurationMs ? Math.round(config.project.maxDurationMs / 60000) : null;
             message += `  Max duration: ${maxDurationMin ? `${maxDurationMin} min` : 'unlimited'}\n`;
           } else {
@@ -5922,6 +6662,13 @@ Format the summary as a brief bullet-point list. This summary will replace the c
         } else {
           message += `  Duration: ${durationMin} min (no limit)\n`;
         }
+        const sessionCost = sessionUsage.costUsd || 0;
+        if (sessionLimits.maxCostUsd) {
+          const pct = Math.round((sessionCost / sessionLimits.maxCostUsd) * 100);
+          message += `  Cost: ${formatCostUsd(sessionCost)} / ${formatCostUsd(sessionLimits.maxCostUsd)} (${pct}%)\n`;
+        } else {
+          message += `  Cost: ${formatCostUsd(sessionCost)} (no limit)\n`;
+        }
 
         if (summary.session.overallExceeded) {
           message += '\n  ⚠️ **SESSION BUDGET EXCEEDED**\n';
@@ -5942,6 +6689,11 @@ Format the summary as a brief bullet-point list. This summary will replace the c
             const pct = Math.round((projUsage.llmCalls / projLimits.maxLlmCalls) * 100);
             message += `  LLM Calls: ${projUsage.llmCalls} / ${projLimits.maxLlmCalls} (${pct}%)\n`;
           }
+          if (projLimits.maxCostUsd) {
+            const projCost = projUsage.costUsd || 0;
+            const pct = Math.round((projCost / projLimits.maxCostUsd) * 100);
+            message += `  Cost: ${formatCostUsd(projCost)} / ${formatCostUsd(projLimits.maxCostUsd)} (${pct}%)\n`;
+          }
           if (summary.project.overallExceeded) {
             message += '\n  ⚠️ **PROJECT BUDGET EXCEEDED**\n';
           }
@@ -5952,6 +6704,15 @@ Format the summary as a brief bullet-point list. This summary will replace the c
           message += `\n## Assistants: ${summary.assistantCount} tracked\n`;
         }
 
+        // Show the tools driving spend
+        const toolCosts = tracker.getToolCosts().filter((entry) => entry.costUsd > 0).slice(0, 5);
+        if (toolCosts.length > 0) {
+          message += '\n## Cost by Tool\n';
+          for (const entry of toolCosts) {
+            message += `  ${entry.toolName}: ${formatCostUsd(entry.costUsd)} (${entry.calls} call${entry.calls === 1 ? '' : 's'})\n`;
+          }
+        }
+
         // Overall status
         if (summary.anyExceeded) {
           message += '\n⚠️ **BUDGET EXCEEDED** - Some limits have been reached\n';
@@ -6127,7 +6888,11 @@ Format the summary as a brief bullet-point list. This summary will replace the c
         // Import swarm config
         const { DEFAULT_SWARM_CONFIG } = await import('../swarm');
 
-        const trimmedArgs = args.trim();
+        // --worktrees gives each worker its own git worktree (goal and workflow runs)
+        const worktreeFlag = /(^|\s)--worktrees(?=\s|$)/;
+        const isolate = worktreeFlag.test(args);
+        const trimmedArgs = args.replace(worktreeFlag, ' ').trim();
+        const isolation = isolate ? { isolation: 'worktree' as const } : {};
 
         // Get swarm coordinator from context (available when running in full assistant loop)
         const coordinator = context.getSwarmCoordinator?.();
@@ -6136,11 +6901,17 @@ Format the summary as a brief bullet-point list. This summary will replace the c
         if (trimmedArgs === 'help' || trimmedArgs === '') {
           let message = '\n## Swarm Commands\n\n';
           message += '/swarm <goal>                 Execute swarm for a goal\n';
+          message += '/swarm run <workflow> [k=v]   Run a workflow (text after inputs fills the first unset input)\n';
+          message += '/swarm workflows              List workflows from .assistants/workflows and global workflows\n';
           message += '/swarm status                 Show swarm status\n';
           message += '/swarm stop                   Stop current swarm\n';
+          message += '/swarm runs                   List saved runs that can be resumed\n';
+          message += '/swarm resume <id>            Resume an interrupted or failed run\n';
           message += '/swarm memory                 Show shared memory contents\n';
           message += '/swarm config                 Show swarm configuration\n';
           message += '/swarm help                   Show this help\n\n';
+          message += 'Add --worktrees to a goal or workflow run to give each worker its own git worktree;\n';
+          message += 'their changes are merged back into the working tree when the swarm finishes.\n\n';
           message += '**Example:**\n';
           message += '/swarm Research and summarize the authentication patterns in this codebase\n';
           context.emit('text', message);
@@ -6159,6 +6930,7 @@ Format the summary as a brief bullet-point list. This summary will replace the c
           message += `Swarm Timeout: ${Math.round(DEFAULT_SWARM_CONFIG.swarmTimeoutMs / 1000)}s\n`;
           message += `Auto-Approve Plans: ${DEFAULT_SWARM_CONFIG.autoApprove}\n`;
           message += `Enable Critic: ${DEFAULT_SWARM_CONFIG.enableCritic}\n`;
+          message += `Worker Isolation: ${DEFAULT_SWARM_CONFIG.isolation}\n`;
           message += `Token Budget: ${DEFAULT_SWARM_CONFIG.tokenBudget || 'unlimited'}\n\n`;
           message += '**Default Tools:**\n';
           message += `  Planner: ${DEFAULT_SWARM_CONFIG.plannerTools.join(', ')}\n`;
@@ -6259,6 +7031,167 @@ Format the summary as a brief bullet-point list. This summary will replace the c
           return { handled: true };
         }
 
+        // /swarm runs - List resumable runs
+        if (trimmedArgs === 'runs' || trimmedArgs === 'resume') {
+          const store = coordinator?.getRunStore();
+          if (!store) {
+            context.emit('text', '\n⚠️ Swarm run persistence not available in this context.\n');
+            context.emit('done');
+            return { handled: true };
+          }
+
+          const runs = store.list({ resumableOnly: true });
+          if (runs.length === 0) {
+            context.emit('text', '\nNo swarm runs to resume.\n');
+            context.emit('done');
+            return { handled: true };
+          }
+
+          let message = '\n**Resumable Swarm Runs**\n\n';
+          message += '| ID | Status | Tasks | Updated | Goal |\n';
+          message += '|----|--------|-------|---------|------|\n';
+          for (const run of runs.slice(0, 20)) {
+            const status = run.interrupted ? 'interrupted' : run.status;
+            const goal = singleLine(run.goal).replace(/\|/g, '\\|');
+            message += `| ${run.id.slice(0, 8)} | ${status} | ${run.completedTasks}/${run.totalTasks} | ${formatRelativeTime(run.updatedAt)} | ${goal.length > 50 ? `${goal.slice(0, 47)}...` : goal} |\n`;
+          }
+          message += '\nUse /swarm resume <id> to continue a run.\n';
+          context.emit('text', message);
+          context.emit('done');
+          return { handled: true };
+        }
+
+        // /swarm resume <id> - Resume a persisted run
+        if (trimmedArgs.startsWith('resume ')) {
+          if (!coordinator) {
+            context.emit('text', '\n⚠️ Swarm coordinator not available in this context.\n');
+            context.emit('done');
+            return { handled: true };
+          }
+
+          const runId = trimmedArgs.slice('resume '.length).trim();
+          try {
+            // The run keeps its own config, including whether plans need approval
+            const result = await coordinator.resume(runId);
+            if (result.success) {
+              let message = '\n**✓ Swarm completed successfully**\n\n';
+              if (result.result) {
+                message += '**Result:**\n';
+                message += result.result + '\n\n';
+              }
+              message += `  Tasks: ${result.metrics.completedTasks}/${result.metrics.totalTasks} completed\n`;
+              message += `  Duration: ${Math.round(result.durationMs / 1000)}s\n`;
+              context.emit('text', message);
+            } else {
+              context.emit('text', `\n**✗ Swarm resume failed**\n\nError: ${result.error}\n`);
+            }
+          } catch (error) {
+            context.emit('text', `\n**✗ Swarm resume error:**\n${error instanceof Error ? error.message : String(error)}\n`);
+          }
+          context.emit('done');
+          return { handled: true };
+        }
+
+        // /swarm workflows - List declarative workflows
+        if (trimmedArgs === 'workflows') {
+          const { loadSwarmWorkflows, getSwarmWorkflowDirs } = await import('../swarm');
+          const { workflows, errors } = loadSwarmWorkflows(context.cwd);
+          let message = '\n**Swarm Workflows**\n\n';
+          if (workflows.length === 0) {
+            message += 'No workflows found. Add YAML or JSON files to:\n';
+            for (const { dir } of getSwarmWorkflowDirs(context.cwd)) {
+              message += `  ${dir}\n`;
+            }
+          }
+          for (const workflow of workflows) {
+            const inputs = Object.entries(workflow.inputs)
+              .map(([name, spec]) => (spec.required ? name : `[${name}]`))
+              .join(' ');
+            message += `- **${workflow.name}** (${workflow.source}, ${workflow.steps.length} steps)${inputs ? ` inputs: ${inputs}` : ''}\n`;
+            if (workflow.description) {
+              message += `  ${singleLine(workflow.description)}\n`;
+            }
+          }
+          if (errors.length > 0) {
+            message += '\n**Invalid workflow files:**\n';
+            for (const error of errors) {
+              message += `- ${error.path}: ${error.error}\n`;
+            }
+          }
+          if (workflows.length > 0) {
+            message += '\nRun one with /swarm run <workflow> [input=value ...].\n';
+          }
+          context.emit('text', message);
+          context.emit('done');
+          return { handled: true };
+        }
+
+        // /swarm run <workflow> [key=value ...] [text] - Run a declarative workflow
+        if (trimmedArgs === 'run' || trimmedArgs.startsWith('run ')) {
+          const [workflowName, ...rest] = splitArgs(trimmedArgs.slice('run'.length));
+          if (!workflowName) {
+            context.emit('text', '\nUsage: /swarm run <workflow> [input=value ...] [text]\n');
+            context.emit('done');
+            return { handled: true };
+          }
+          if (!coordinator) {
+            context.emit('text', '\n⚠️ Swarm coordinator not available in this context.\n');
+            context.emit('done');
+            return { handled: true };
+          }
+
+          try {
+            const { findSwarmWorkflow } = await import('../swarm');
+            const workflow = findSwarmWorkflow(workflowName, context.cwd);
+            if (!workflow) {
+              context.emit('text', `\nWorkflow not found: ${workflowName}. Use /swarm workflows to list them.\n`);
+              context.emit('done');
+              return { handled: true };
+            }
+
+            const inputs: Record<string, string> = {};
+            const text: string[] = [];
+            for (const arg of rest) {
+              const match = arg.match(/^([A-Za-z_][\w-]*)=([\s\S]*)$/);
+              if (match && workflow.inputs[match[1]]) {
+                inputs[match[1]] = match[2];
+              } else {
+                text.push(arg);
+              }
+            }
+            if (text.length > 0) {
+              const unset = Object.keys(workflow.inputs).find((name) => inputs[name] === undefined);
+              if (!unset) {
+                context.emit('text', `\nWorkflow "${workflow.name}" has no input for: ${text.join(' ')}\n`);
+                context.emit('done');
+                return { handled: true };
+              }
+              inputs[unset] = text.join(' ');
+            }
+
+            context.emit('text', `\n🧩 Running workflow ${workflow.name}\n\n`);
+            const result = await coordinator.executeWorkflow(workflow, inputs, {
+              config: { autoApprove: true, ...isolation },
+            });
+            if (result.success) {
+              let message = '\n**✓ Workflow completed successfully**\n\n';
+              if (result.result) {
+                message += '**Result:**\n';
+                message += result.result + '\n\n';
+              }
+              message += `  Tasks: ${result.metrics.completedTasks}/${result.metrics.totalTasks} completed\n`;
+              message += `  Duration: ${Math.round(result.durationMs / 1000)}s\n`;
+              context.emit('text', message);
+            } else {
+              context.emit('text', `\n**✗ Workflow failed**\n\nError: ${result.error}\n`);
+            }
+          } catch (error) {
+            context.emit('text', `\n**✗ Workflow error:**\n${error instanceof Error ? error.message : String(error)}\n`);
+          }
+          context.emit('done');
+          return { handled: true };
+        }
+
         // /swarm stop - Stop current swarm
         if (trimmedArgs === 'stop') {
           if (!coordinator) {
@@ -6298,6 +7231,7 @@ Format the summary as a brief bullet-point list. This summary will replace the c
             goal: trimmedArgs,
             config: {
               autoApprove: true, // Auto-approve for command-line usage
+              ...isolation,
             },
           });
 
@@ -6401,27 +7335,34 @@ Please summarize the last interaction and suggest 2-3 next steps.
       handler: async (args, context) => {
         const usage = this.tokenUsage;
 
-        // Look up pricing from model registry based on active model
-        const { getModelById } = await import('../llm/models');
+        // Look up pricing from model registry (or budget overrides) based on active model
+        const { getModelById, getModelPricing, calculateCost } = await import('../llm/models');
         const activeModelId = context.getModel?.();
         const model = activeModelId ? getModelById(activeModelId) : null;
-
-        const inputCostPer1M = model?.inputCostPer1M ?? 3.0;
-        const outputCostPer1M = model?.outputCostPer1M ?? 15.0;
-        const modelName = model?.name ?? 'Unknown model';
-
-        const inputCost = (usage.inputTokens / 1_000_000) * inputCostPer1M;
-        const outputCost = (usage.outputTokens / 1_000_000) * outputCostPer1M;
-        const totalCost = inputCost + outputCost;
-
-        // Cache savings (if applicable)
-        const cacheReadCostPer1M = inputCostPer1M * 0.1; // ~10% of input cost
-        const cacheSavings = usage.cacheReadTokens
-          ? ((usage.cacheReadTokens / 1_000_000) * (inputCostPer1M - cacheReadCostPer1M))
-          : 0;
+        const pricing = (activeModelId ? getModelPricing(activeModelId, context.budgetConfig?.pricing) : null)
+          ?? { inputPer1M: 3.0, outputPer1M: 15.0, cacheReadPer1M: 0.3, cacheWritePer1M: 3.75 };
+        const modelName = model?.name ?? activeModelId ?? 'Unknown model';
+
+        const cacheReadTokens = usage.cacheReadTokens || 0;
+        const cacheWriteTokens = usage.cacheWriteTokens || 0;
+        const uncachedInput = Math.max(0, usage.inputTokens - cacheReadTokens - cacheWriteTokens);
+        const inputCost = calculateCost({ inputTokens: uncachedInput, outputTokens: 0 }, pricing);
+        const outputCost = calculateCost({ inputTokens: 0, outputTokens: usage.outputTokens }, pricing);
+        const cacheCost = calculateCost(
+          { inputTokens: cacheReadTokens + cacheWriteTokens, outputTokens: 0, cacheReadTokens, cacheWriteTokens },
+          pricing
+        );
+        const totalCost = inputCost + outputCost + cacheCost;
+
+        // Savings versus paying the full input price for cache reads
+        const cacheReadCostPer1M = pricing.cacheReadPer1M ?? pricing.inputPer1M;
+        const cacheSavings = (cacheReadTokens / 1_000_000) * (pricing.inputPer1M - cacheReadCostPer1M);
 
         let message = '\n**Estimated Session Cost**\n\n';
-        message += `Input tokens: ${usage.inputTokens.toLocaleString()} (~$${inputCost.toFixed(4)})\n`;
+        message += `Input tokens: ${uncachedInput.toLocaleString()} (~$${inputCost.toFixed(4)})\n`;
+        if (cacheReadTokens || cacheWriteTokens) {
+          message += `Cache tokens: ${cacheReadTokens.toLocaleString()} read / ${cacheWriteTokens.toLocaleString()} written (~$${cacheCost.toFixed(4)})\n`;
+        }
         message += `Output tokens: ${usage.outputTokens.toLocaleString()} (~$${outputCost.toFixed(4)})\n`;
         message += `**Total: ~$${totalCost.toFixed(4)}**\n`;
 
@@ -6429,7 +7370,7 @@ Please summarize the last interaction and suggest 2-3 next steps.
           message += `\nCache savings: ~$${cacheSavings.toFixed(4)}\n`;
         }
 
-        message += `\n*Based on ${modelName} pricing ($${inputCostPer1M}/1M in, $${outputCostPer1M}/1M out)*\n`;
+        message += `\n*Based on ${modelName} pricing ($${pricing.inputPer1M}/1M in, $${pricing.outputPer1M}/1M out)*\n`;
 
         context.emit('text', message);
         context.emit('done');
@@ -6476,8 +7417,11 @@ Please summarize the last interaction and suggest 2-3 next steps.
             message += `Cost: $${modelDef.inputCostPer1M}/1M in, $${modelDef.outputCostPer1M}/1M out\n`;
           }
           message += '\n**Usage**\n';
-          message += '  /model list         List all available models\n';
-          message += '  /model <model-id>   Switch to a different model\n';
+          message += '  /model list                  List all available models\n';
+          message += '  /model providers             List LLM providers\n';
+          message += '  /model discover <provider>   Query a provider for its models\n';
+          message += '  /model <model-id>            Switch to a different model\n';
+          message += '  /model <provider>:<model>    Switch to a model on a configured provider\n';
 
           context.emit('text', message);
           context.emit('done');
@@ -6511,6 +7455,22 @@ Please summarize the last interaction and suggest 2-3 next steps.
             message += '\n';
           }
 
+          const customProviders = Object.entries(context.getLLMConfig?.()?.providers || {});
+          if (customProviders.length > 0) {
+            message += '## Configured Providers\n';
+            for (const [providerId, providerConfig] of customProviders) {
+              message += `  ${providerId} (${providerConfig.type}${providerConfig.baseUrl ? `, ${providerConfig.baseUrl}` : ''})\n`;
+              for (const model of providerConfig.models || []) {
+                const id = `${providerId}:${model}`;
+                message += `    ${id}${id === currentModel || model === currentModel ? ' ← current' : ''}\n`;
+              }
+              if (!providerConfig.models || providerConfig.models.length === 0) {
+                message += `    Use \`/model discover ${providerId}\` to list models\n`;
+              }
+            }
+            message += '\n';
+          }
+
           message += '\nUse `/model <model-id>` to switch models.\n';
 
           context.emit('text', message);
@@ -6518,10 +7478,85 @@ Please summarize the last interaction and suggest 2-3 next steps.
           return { handled: true };
         }
 
+        // /model providers - List registered provider types and configured providers
+        if (trimmedArgs === 'providers') {
+          const { getLLMProviderRegistry } = await import('../llm/registry');
+          const llmConfig = context.getLLMConfig?.();
+          let message = '\n**LLM Providers**\n\n';
+          for (const definition of getLLMProviderRegistry().list()) {
+            message += `  ${definition.id} - ${definition.name}\n`;
+          }
+          const customProviders = Object.entries(llmConfig?.providers || {});
+          if (customProviders.length > 0) {
+            message += '\n**Configured**\n\n';
+            for (const [providerId, providerConfig] of customProviders) {
+              const active = llmConfig?.provider === providerId ? ' ← current' : '';
+              message += `  ${providerId} → ${providerConfig.type}${providerConfig.baseUrl ? ` (${providerConfig.baseUrl})` : ''}${active}\n`;
+            }
+          } else {
+            message += '\nAdd providers under `llm.providers` in config.json.\n';
+          }
+          context.emit('text', message);
+          context.emit('done');
+          return { handled: true };
+        }
+
+        // /model discover <provider> - Ask a provider which models it serves
+        if (trimmedArgs === 'discover' || trimmedArgs.startsWith('discover ')) {
+          const providerId = trimmedArgs.slice('discover'.length).trim();
+          const llmConfig = context.getLLMConfig?.();
+          if (!providerId || !llmConfig) {
+            context.emit('text', 'Usage: /model discover <provider>\n');
+            context.emit('done');
+            return { handled: true };
+          }
+          try {
+            const { discoverModels } = await import('../llm/client');
+            const models = await discoverModels(llmConfig, providerId);
+            let message = `\n**Models on ${providerId}** (${models.length})\n\n`;
+            for (const model of models) {
+              message += `  ${providerId}:${model}\n`;
+            }
+            if (models.length > 0) {
+              message += `\nUse \`/model ${providerId}:<model>\` to switch.\n`;
+            }
+            context.emit('text', message);
+          } catch (error) {
+            const errMsg = error instanceof Error ? error.message : String(error);
+            context.emit('text', `Model discovery failed: ${errMsg}\n`);
+          }
+          context.emit('done');
+          return { handled: true };
+        }
+
         // /model <model-id> - Switch to a different model
         const modelId = trimmedArgs;
         const modelDef = getModelById(modelId);
 
+        // /model <provider>:<model> - Switch to a model on a configured provider
+        const separator = modelId.indexOf(':');
+        const customProviderId = !modelDef && separator > 0 ? modelId.slice(0, separator) : '';
+        const customProvider = customProviderId ? context.getLLMConfig?.()?.providers?.[customProviderId] : undefined;
+        if (customProvider) {
+          if (!context.switchModel) {
+            context.emit('text', 'Model switching not available in this context.\n');
+            context.emit('done');
+            return { handled: true };
+          }
+          try {
+            await context.switchModel(modelId);
+            let message = `\nSwitched to **${modelId.slice(separator + 1)}**\n`;
+            message += `Provider: ${customProviderId} (${customProvider.type})\n`;
+            message += `Context: ${(customProvider.contextWindow ?? 128000).toLocaleString()} tokens\n`;
+            context.emit('text', message);
+          } catch (error) {
+            const errMsg = error instanceof Error ? error.message : String(error);
+            context.emit('text', `Failed to switch model: ${errMsg}\n`);
+          }
+          context.emit('done');
+          return { handled: true };
+        }
+
         if (!modelDef) {
           // Try to find a close match
           const lowerInput = modelId.toLowerCase();
@@ -6582,7 +7617,7 @@ Please summarize the last interaction and suggest 2-3 next steps.
   private memoryCommand(): Command {
     return {
       name: 'memory',
-      description: 'Manage persistent memories (list, get, set, search, delete, stats, export, import)',
+      description: 'Manage persistent memories (list, get, set, search, delete, stats, consolidate, export, import)',
       builtin: true,
       selfHandled: true,
       content: '',
@@ -6616,9 +7651,12 @@ Please summarize the last interaction and suggest 2-3 next steps.
           context.emit('text', '  /memory get <key>             Get a specific memory\n');
           context.emit('text', '  /memory set <key> <value>     Save a memory (supports --scope, --scopeId)\n');
           context.emit('text', '  /memory update <key> [opts]   Update memory metadata\n');
-          context.emit('text', '  /memory search <query>        Search memories\n');
+          context.emit('text', '  /memory search <query>        Search memories by meaning\n');
           context.emit('text', '  /memory delete <key>          Delete a memory\n');
           context.emit('text', '  /memory stats                 Show detailed statistics\n');
+          context.emit('text', '  /memory consolidate [--dry-run]  Merge duplicates, flag conflicts, decay unused\n');
+          context.emit('text', '  /memory consolidate log       Show the consolidation audit trail\n');
+          context.emit('text', '  /memory conflicts             List contradictions awaiting a decision\n');
           context.emit('text', '  /memory export [file]         Export memories to JSON\n');
           context.emit('text', '  /memory import <file>         Import memories from JSON\n');
           context.emit('text', '\nList options:\n');
@@ -6852,14 +7890,14 @@ Please summarize the last interaction and suggest 2-3 next steps.
             return { handled: true };
           }
 
-          const result = await manager.query({ search: query, limit: 20 });
-          if (result.memories.length === 0) {
+          const results = await manager.search(query, { limit: 20 });
+          if (results.length === 0) {
             context.emit('text', `No memories found matching: ${query}\n`);
           } else {
-            context.emit('text', `\nSearch results for "${query}" (${result.memories.length} found):\n`);
-            for (const memory of result.memories) {
+            context.emit('text', `\nSearch results for "${query}" (${results.length} found):\n`);
+            for (const { memory, score } of results) {
               const summary = memory.summary || (typeof memory.value === 'string' ? memory.value.slice(0, 50) : JSON.stringify(memory.value).slice(0, 50));
-              context.emit('text', `  ${memory.key}: ${summary}${summary.length >= 50 ? '...' : ''}\n`);
+              context.emit('text', `  ${score.toFixed(2)}  ${memory.key}: ${summary}${summary.length >= 50 ? '...' : ''}\n`);
             }
           }
           context.emit('done');
@@ -6986,6 +8024,92 @@ Please summarize the last interaction and suggest 2-3 next steps.
           return { handled: true };
         }
 
+        // /memory consolidate [--dry-run] | /memory consolidate log [n]
+        if (action === 'consolidate') {
+          if (rest[0] === 'log') {
+            const limit = Math.max(1, parseInt(rest[1] || '20', 10) || 20);
+            const entries = manager.getConsolidationLog({ limit });
+            if (entries.length === 0) {
+              context.emit('text', 'No consolidation history yet.\n');
+            } else {
+              context.emit('text', `\nConsolidation log (${entries.length} most recent):\n`);
+              for (const entry of entries) {
+                const details = entry.details as Record<string, any>;
+                let description: string;
+                if (entry.action === 'merge') {
+                  const removed = Array.isArray(details.removed) ? details.removed.map((m: { key: string }) => m.key) : [];
+                  description = `merged ${removed.join(', ')} into ${details.before?.key ?? entry.memoryIds[0]}`;
+                } else if (entry.action === 'conflict') {
+                  description = `conflict ${(details.keys || []).join(' vs ')}: ${details.reason}`;
+                } else {
+                  description = `decayed ${details.key} ${details.from} -> ${details.to}`;
+                }
+                context.emit('text', `  ${entry.createdAt}  ${description}\n`);
+              }
+            }
+            context.emit('done');
+            return { handled: true };
+          }
+
+          if (!context.consolidateMemory) {
+            context.emit('text', 'Memory consolidation is not available in this session.\n');
+            context.emit('done');
+            return { handled: true };
+          }
+
+          const dryRun = rest.includes('--dry-run');
+          try {
+            const report = await context.consolidateMemory({ dryRun });
+            context.emit('text', `\nMemory consolidation${dryRun ? ' (dry run)' : ''}\n`);
+            context.emit('text', `Scanned ${report.scanned} memories, found ${report.clusters} similar group(s)\n`);
+            if (report.merged.length > 0) {
+              context.emit('text', `\n${dryRun ? 'Would merge' : 'Merged'}:\n`);
+              for (const merge of report.merged) {
+                context.emit('text', `  ${merge.removed.map(m => m.key).join(', ')} -> ${merge.kept.key}\n`);
+              }
+            }
+            if (report.conflicts.length > 0) {
+              context.emit('text', '\nConflicts (resolve with /memory delete or /memory set):\n');
+              for (const conflict of report.conflicts) {
+                context.emit('text', `  ${conflict.memories.map(m => m.key).join(' vs ')}: ${conflict.reason}\n`);
+              }
+            }
+            if (report.decayed.length > 0) {
+              context.emit('text', `\n${dryRun ? 'Would decay' : 'Decayed'} ${report.decayed.length} unused memor${report.decayed.length === 1 ? 'y' : 'ies'}:\n`);
+              for (const decay of report.decayed.slice(0, 20)) {
+                context.emit('text', `  ${decay.memory.key}: ${decay.from} -> ${decay.to}\n`);
+              }
+            }
+            if (report.merged.length === 0 && report.conflicts.length === 0 && report.decayed.length === 0) {
+              context.emit('text', 'Nothing to consolidate.\n');
+            }
+          } catch (error) {
+            context.emit('text', `Consolidation failed: ${error instanceof Error ? error.message : String(error)}\n`);
+          }
+          context.emit('done');
+          return { handled: true };
+        }
+
+        // /memory conflicts
+        if (action === 'conflicts') {
+          const conflicts = await new MemoryConsolidator(manager).getOpenConflicts();
+          if (conflicts.length === 0) {
+            context.emit('text', 'No open memory conflicts.\n');
+          } else {
+            context.emit('text', `\nOpen memory conflicts (${conflicts.length}):\n`);
+            for (const conflict of conflicts) {
+              context.emit('text', `\n  ${conflict.reason}\n`);
+              for (const memory of conflict.memories) {
+                const value = typeof memory.value === 'string' ? memory.value : JSON.stringify(memory.value);
+                context.emit('text', `    ${memory.key} = ${value.slice(0, 80)} (updated ${memory.updatedAt})\n`);
+              }
+            }
+            context.emit('text', '\nKeep the right value and remove the others with /memory delete <key>.\n');
+          }
+          context.emit('done');
+          return { handled: true };
+        }
+
         // /memory export [file]
         if (action === 'export') {
           const filePath = rest[0] || join(getConfigDir(), 'memories-export.json');
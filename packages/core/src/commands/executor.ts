@@ -147,7 +147,7 @@ export class CommandExecutor {
    */
   private async executeShell(command: string, cwd: string): Promise<string> {
     // Validate command before execution
-    const validation = validateBashCommand(command);
+    const validation = validateBashCommand(command, { cwd });
     if (!validation.valid) {
       getSecurityLogger().log({
         eventType: 'blocked_command',
@@ -1,6 +1,6 @@
-import type { Tool, TokenUsage, EnergyState, VoiceState, HeartbeatState, HeartbeatConfig, HookConfig, BudgetConfig, GuardrailsConfigShared } from '@hasna/assistants-shared';
+import type { Tool, TokenUsage, LLMConfig, EnergyState, VoiceState, HeartbeatState, HeartbeatConfig, HookConfig, BudgetConfig, GuardrailsConfigShared } from '@hasna/assistants-shared';
 import type { BudgetScope } from '../budget/types';
-import type { GuardrailsConfig, GuardrailsPolicy, PolicyAction } from '../guardrails/types';
+import type { GuardrailsConfig, GuardrailsMode, GuardrailsPolicy, PolicyAction } from '../guardrails/types';
 import type { RecordOptions } from '../voice/recorder';
 import type { ErrorStats } from '../errors';
 import type { ContextInfo, ContextProcessResult } from '../context';
@@ -11,11 +11,14 @@ import type { WalletManager } from '../wallet';
 import type { SecretsManager } from '../secrets';
 import type { MessagesManager } from '../messages';
 import type { WebhooksManager } from '../webhooks';
+import type { McpManager } from '../mcp';
 import type { ChannelsManager, ChannelAgentPool } from '../channels';
 import type { TelephonyManager } from '../telephony';
 import type { OrdersManager } from '../orders';
-import type { GlobalMemoryManager } from '../memory';
+import type { GlobalMemoryManager, MemoryConsolidationReport } from '../memory';
 import type { SwarmCoordinator } from '../swarm';
+import type { TaskQueueRunner } from '../tasks';
+import type { Checkpoint, RewindResult, ForkSessionResult } from '../sessions';
 
 // Re-export TokenUsage from shared
 export type { TokenUsage } from '@hasna/assistants-shared';
@@ -81,6 +84,7 @@ export interface CommandContext {
   getContextInfo?: () => ContextInfo | null;
   summarizeContext?: () => Promise<ContextProcessResult>;
   getModel?: () => string | undefined;
+  getLLMConfig?: () => LLMConfig | null;
   getEnergyState?: () => EnergyState | null;
   getVoiceState?: () => VoiceState | null;
   getHeartbeatState?: () => HeartbeatState | null;
@@ -99,11 +103,14 @@ export interface CommandContext {
   getSecretsManager?: () => SecretsManager | null;
   getMessagesManager?: () => MessagesManager | null;
   getWebhooksManager?: () => WebhooksManager | null;
+  getMcpManager?: () => McpManager | null;
   getChannelsManager?: () => ChannelsManager | null;
   getChannelAgentPool?: () => ChannelAgentPool | null;
   getTelephonyManager?: () => TelephonyManager | null;
   getOrdersManager?: () => OrdersManager | null;
   getMemoryManager?: () => GlobalMemoryManager | null;
+  /** Run a memory consolidation pass using the session's model */
+  consolidateMemory?: (options?: { dryRun?: boolean }) => Promise<MemoryConsolidationReport>;
   getHooks?: () => HookConfig;
   setHookEnabled?: (hookId: string, enabled: boolean) => Promise<boolean>;
   refreshIdentityContext?: () => Promise<void>;
@@ -125,7 +132,12 @@ export interface CommandContext {
   addGuardrailsPolicy?: (policy: GuardrailsPolicy) => void;
   removeGuardrailsPolicy?: (policyId: string) => void;
   setGuardrailsDefaultAction?: (action: PolicyAction) => void;
+  setGuardrailsMode?: (mode: GuardrailsMode) => void;
   getSwarmCoordinator?: () => SwarmCoordinator | null;
+  getTaskRunner?: () => TaskQueueRunner | null;
+  listCheckpoints?: () => Checkpoint[];
+  rewindToCheckpoint?: (ref: string, options?: { conversation?: boolean; files?: boolean }) => RewindResult;
+  forkSession?: (ref?: string) => ForkSessionResult;
   clearMessages: () => void;
   addSystemMessage: (content: string) => void;
   emit: (type: 'text' | 'done' | 'error', content?: string) => void;
@@ -146,7 +158,9 @@ export interface CommandResult {
   /** Whether to exit the application */
   exit?: boolean;
   /** Session action to perform */
-  sessionAction?: 'list' | 'switch' | 'new' | 'assign';
+  sessionAction?: 'list' | 'switch' | 'new' | 'assign' | 'rewind' | 'fork';
+  /** Session ID the action targets (e.g. a new fork) */
+  sessionId?: string;
   /** Session number to switch to (1-based) */
   sessionNumber?: number;
   /** Label for new session */
@@ -154,7 +168,7 @@ export interface CommandResult {
   /** Agent name/ID to assign to session */
   sessionAgent?: string;
   /** Panel to show (terminal-specific interactive UIs) */
-  showPanel?: 'connectors' | 'projects' | 'plans' | 'tasks' | 'assistants' | 'hooks' | 'config' | 'messages' | 'guardrails' | 'budget' | 'schedules' | 'wallet' | 'secrets' | 'identity' | 'memory' | 'inbox' | 'swarm' | 'workspace' | 'logs' | 'skills' | 'heartbeat' | 'resume' | 'webhooks' | 'channels' | 'telephony' | 'orders' | 'setup' | 'people';
+  showPanel?: 'connectors' | 'projects' | 'plans' | 'tasks' | 'assistants' | 'hooks' | 'config' | 'messages' | 'guardrails' | 'budget' | 'schedules' | 'wallet' | 'secrets' | 'identity' | 'memory' | 'inbox' | 'swarm' | 'workspace' | 'logs' | 'skills' | 'heartbeat' | 'resume' | 'webhooks' | 'channels' | 'telephony' | 'orders' | 'setup' | 'people' | 'mcp';
   /** Initial value for panel (e.g., connector name) */
   panelValue?: string;
 }
@@ -203,6 +203,16 @@ const DEFAULT_CONFIG: AssistantsConfig = {
       rateLimitPerMinute: 60,
     },
   },
+  mcp: {
+    enabled: true,
+    servers: {},
+    requestTimeoutMs: 60_000,
+    promptsAsSkills: true,
+    serve: {
+      tools: [],
+      askTool: true,
+    },
+  },
   channels: {
     enabled: false,
     injection: {
@@ -332,6 +342,9 @@ function mergeConfig(base: AssistantsConfig, override?: Partial<AssistantsConfig
     llm: {
       ...base.llm,
       ...(override.llm || {}),
+      ...(base.llm.providers || override.llm?.providers
+        ? { providers: { ...(base.llm.providers || {}), ...(override.llm?.providers || {}) } }
+        : {}),
     },
     voice: mergedVoice,
     connectors: mergeConnectorsConfig(base.connectors, override.connectors),
@@ -462,6 +475,18 @@ function mergeConfig(base: AssistantsConfig, override?: Partial<AssistantsConfig
         ...(override.webhooks?.security || {}),
       },
     },
+    mcp: {
+      ...(base.mcp || {}),
+      ...(override.mcp || {}),
+      servers: {
+        ...(base.mcp?.servers || {}),
+        ...(override.mcp?.servers || {}),
+      },
+      serve: {
+        ...(base.mcp?.serve || {}),
+        ...(override.mcp?.serve || {}),
+      },
+    },
     channels: {
       ...(base.channels || {}),
       ...(override.channels || {}),
@@ -517,6 +542,14 @@ function mergeConfig(base: AssistantsConfig, override?: Partial<AssistantsConfig
         ...(base.memory?.scopes || {}),
         ...(override.memory?.scopes || {}),
       },
+      consolidation: {
+        ...(base.memory?.consolidation || {}),
+        ...(override.memory?.consolidation || {}),
+      },
+      search: {
+        ...(base.memory?.search || {}),
+        ...(override.memory?.search || {}),
+      },
     },
     subassistants: {
       ...(base.subassistants || {}),
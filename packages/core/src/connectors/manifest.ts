@@ -0,0 +1,391 @@
+/**
+ * Connector manifests - machine-readable command descriptions
+ * Read from a file shipped with the connector or from `connect-<name> --manifest`,
+ * so discovery doesn't have to guess commands from --help output
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, realpathSync, statSync, writeFileSync } from 'fs';
+import { delimiter, dirname, isAbsolute, join } from 'path';
+import type {
+  Connector,
+  ConnectorArg,
+  ConnectorManifest,
+  ConnectorManifestCommand,
+  ConnectorOption,
+} from '@hasna/assistants-shared';
+import { getConfigDir } from '../config';
+import { getRuntime } from '../runtime';
+import { buildCommandArgs } from '../utils/command-line';
+
+export const CONNECTOR_MANIFEST_VERSION = 1;
+export const CONNECTOR_MANIFEST_FILE = 'connector.manifest.json';
+
+const MANIFEST_FLAG = '--manifest';
+const MANIFEST_TIMEOUT_MS = 3000;
+/** How far up from the binary to look for its package root */
+const MAX_PACKAGE_DEPTH = 4;
+const CACHE_VERSION = 1;
+
+export type ConnectorManifestSource = 'file' | 'cli';
+
+export interface LoadedConnectorManifest {
+  manifest: ConnectorManifest;
+  source: ConnectorManifestSource;
+  /** Manifest file path, or the CLI that printed it */
+  origin: string;
+}
+
+export interface LoadConnectorManifestOptions {
+  homeDir: string;
+  cwd?: string;
+}
+
+interface ManifestCacheEntry {
+  size: number;
+  mtimeMs: number;
+  sha256: string;
+  /** null when the CLI has no manifest to print */
+  manifest: ConnectorManifest | null;
+}
+
+interface ManifestCacheFile {
+  version: number;
+  entries: Record<string, ManifestCacheEntry>;
+}
+
+const caches = new Map<string, ManifestCacheFile>();
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function stringList(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  return value.filter((item): item is string => typeof item === 'string');
+}
+
+/**
+ * Validate a manifest; returns null unless it is a manifest this version understands
+ */
+export function parseConnectorManifest(value: unknown): ConnectorManifest | null {
+  if (!isRecord(value)) return null;
+  const manifestVersion = value.manifestVersion;
+  if (typeof manifestVersion !== 'number' || manifestVersion < 1 || manifestVersion > CONNECTOR_MANIFEST_VERSION) {
+    return null;
+  }
+  if (!Array.isArray(value.commands)) return null;
+
+  const commands: ConnectorManifestCommand[] = [];
+  for (const raw of value.commands) {
+    if (!isRecord(raw) || typeof raw.name !== 'string' || !raw.name.trim()) continue;
+    commands.push({
+      name: raw.name.trim(),
+      description: typeof raw.description === 'string' ? raw.description : undefined,
+      input: isRecord(raw.input) ? raw.input : undefined,
+      positional: stringList(raw.positional),
+      output: isRecord(raw.output) ? raw.output : undefined,
+      examples: stringList(raw.examples),
+    });
+  }
+
+  const auth = isRecord(value.auth) && ['oauth2', 'api_key', 'none'].includes(String(value.auth.type))
+    ? {
+      type: value.auth.type as 'oauth2' | 'api_key' | 'none',
+      statusCommand: typeof value.auth.statusCommand === 'string' ? value.auth.statusCommand : undefined,
+    }
+    : undefined;
+
+  return {
+    manifestVersion,
+    name: typeof value.name === 'string' ? value.name : undefined,
+    description: typeof value.description === 'string' ? value.description : undefined,
+    version: typeof value.version === 'string' ? value.version : undefined,
+    auth,
+    commands,
+  };
+}
+
+function describeSchemaType(schema: Record<string, unknown>): string | undefined {
+  if (Array.isArray(schema.enum)) return schema.enum.map(String).join('|');
+  if (Array.isArray(schema.type)) return schema.type.map(String).join('|');
+  return typeof schema.type === 'string' ? schema.type : undefined;
+}
+
+function optionType(schema: Record<string, unknown>): ConnectorOption['type'] {
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (types.includes('boolean')) return 'boolean';
+  if (types.includes('number') || types.includes('integer')) return 'number';
+  return 'string';
+}
+
+/**
+ * Build a connector from its manifest
+ */
+export function connectorFromManifest(name: string, cli: string, manifest: ConnectorManifest): Connector {
+  const commands = manifest.commands.map((command) => {
+    const schema = command.input ?? {};
+    const properties = isRecord(schema.properties) ? schema.properties : {};
+    const required = new Set(stringList(schema.required) ?? []);
+    const positional = command.positional ?? [];
+
+    const args: ConnectorArg[] = positional.map((argName) => {
+      const property = isRecord(properties[argName]) ? properties[argName] as Record<string, unknown> : {};
+      return {
+        name: argName,
+        description: typeof property.description === 'string' ? property.description : undefined,
+        required: required.has(argName),
+        type: describeSchemaType(property),
+        default: property.default !== undefined ? String(property.default) : undefined,
+      };
+    });
+
+    const options: ConnectorOption[] = Object.entries(properties)
+      .filter(([optionName]) => !positional.includes(optionName))
+      .map(([optionName, raw]) => {
+        const property = isRecord(raw) ? raw : {};
+        const description = typeof property.description === 'string' ? property.description : undefined;
+        return {
+          name: optionName,
+          description: required.has(optionName) ? `${description ?? optionName} (required)` : description,
+          type: optionType(property),
+          default: property.default,
+          alias: typeof property['x-alias'] === 'string' ? property['x-alias'] : undefined,
+        };
+      });
+
+    return {
+      name: command.name,
+      description: command.description || command.name,
+      args,
+      options,
+      examples: command.examples,
+      inputSchema: command.input,
+      outputSchema: command.output,
+    };
+  });
+
+  const auth = manifest.auth ?? { type: 'oauth2' as const };
+  return {
+    name,
+    cli,
+    description: manifest.description || `${name} connector`,
+    version: manifest.version,
+    commands,
+    auth: {
+      type: auth.type,
+      statusCommand: auth.statusCommand ?? (auth.type === 'none' ? undefined : `${cli} auth status`),
+    },
+    source: 'manifest',
+  };
+}
+
+/**
+ * Absolute path of a connector CLI, looking bare names up on PATH.
+ * Null when the binary cannot be found.
+ */
+export function resolveConnectorCliPath(cli: string): string | null {
+  if (isAbsolute(cli)) return cli;
+  if (cli.includes('/') || cli.includes('\\')) return null;
+  for (const dir of (process.env.PATH || '').split(delimiter)) {
+    if (!dir || !isAbsolute(dir)) continue;
+    const candidate = join(dir, cli);
+    try {
+      if (statSync(candidate).isFile()) return candidate;
+    } catch {
+      // Not in this directory
+    }
+  }
+  return null;
+}
+
+/**
+ * Manifest files that can ship with a connector, most specific first
+ */
+function getManifestFileCandidates(name: string, binary: string | null, homeDir: string): string[] {
+  const candidates: string[] = [];
+  if (binary) {
+    candidates.push(`${binary}.manifest.json`);
+    try {
+      const realCli = realpathSync(binary);
+      if (realCli !== binary) candidates.push(`${realCli}.manifest.json`);
+
+      // Package-installed CLIs link into their package; look in its root
+      let dir = dirname(realCli);
+      for (let depth = 0; depth < MAX_PACKAGE_DEPTH; depth++) {
+        if (existsSync(join(dir, 'package.json'))) {
+          candidates.push(join(dir, CONNECTOR_MANIFEST_FILE));
+          break;
+        }
+        const parent = dirname(dir);
+        if (parent === dir) break;
+        dir = parent;
+      }
+    } catch {
+      // Broken link; only the path itself is checked
+    }
+  }
+  candidates.push(join(homeDir, `.connect-${name}`, 'manifest.json'));
+  return candidates;
+}
+
+function readManifestFile(path: string): ConnectorManifest | null {
+  try {
+    if (!existsSync(path)) return null;
+    return parseConnectorManifest(JSON.parse(readFileSync(path, 'utf-8')));
+  } catch {
+    return null;
+  }
+}
+
+function getCachePath(): string {
+  return join(getConfigDir(), 'cache', 'connector-manifests.json');
+}
+
+function loadCache(): ManifestCacheFile {
+  const path = getCachePath();
+  const loaded = caches.get(path);
+  if (loaded) return loaded;
+
+  let cache: ManifestCacheFile = { version: CACHE_VERSION, entries: {} };
+  try {
+    if (existsSync(path)) {
+      const data = JSON.parse(readFileSync(path, 'utf-8')) as ManifestCacheFile;
+      if (data.version === CACHE_VERSION && isRecord(data.entries)) {
+        cache = data;
+      }
+    }
+  } catch {
+    // Unreadable cache; start over
+  }
+  caches.set(path, cache);
+  return cache;
+}
+
+function saveCache(cache: ManifestCacheFile): void {
+  try {
+    const path = getCachePath();
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, JSON.stringify(cache));
+  } catch {
+    // Cache write failed, non-critical
+  }
+}
+
+function hashFile(path: string): string {
+  return createHash('sha256').update(readFileSync(path)).digest('hex');
+}
+
+/**
+ * Run `<cli> --manifest`. Resolves null when the CLI answers without a
+ * manifest; rejects when it could not be run or timed out.
+ */
+async function readManifestFromCli(cli: string, cwd?: string): Promise<ConnectorManifest | null> {
+  const runtime = getRuntime();
+  const proc = runtime.spawn(buildCommandArgs(cli, [MANIFEST_FLAG]), {
+    cwd: cwd || process.cwd(),
+    stdin: 'ignore',
+    stdout: 'pipe',
+    stderr: 'ignore',
+  });
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    proc.kill();
+  }, MANIFEST_TIMEOUT_MS);
+
+  try {
+    const stdout = proc.stdout ? await new Response(proc.stdout).text() : '';
+    const exitCode = await proc.exited;
+    if (timedOut) throw new Error(`${cli} ${MANIFEST_FLAG} timed out`);
+    if (exitCode !== 0) return null;
+    try {
+      return parseConnectorManifest(JSON.parse(stdout));
+    } catch {
+      return null;
+    }
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Find a connector's manifest: a shipped manifest file first, then
+ * `<cli> --manifest`. What the CLI prints is cached against the binary's
+ * size, mtime and hash, so it is asked again only after the binary changes.
+ */
+export async function loadConnectorManifest(
+  name: string,
+  cli: string,
+  options: LoadConnectorManifestOptions
+): Promise<LoadedConnectorManifest | null> {
+  // Bare names are looked up on PATH so the binary's files and cache entry are found
+  const binary = resolveConnectorCliPath(cli);
+  for (const path of getManifestFileCandidates(name, binary, options.homeDir)) {
+    const manifest = readManifestFile(path);
+    if (manifest) return { manifest, source: 'file', origin: path };
+  }
+
+  let stats: { size: number; mtimeMs: number } | null = null;
+  if (binary) {
+    try {
+      stats = statSync(binary);
+    } catch {
+      stats = null;
+    }
+  }
+
+  const cache = stats ? loadCache() : null;
+  const entry = binary ? cache?.entries[binary] : undefined;
+  if (binary && stats && cache && entry && entry.size === stats.size) {
+    let fresh = entry.mtimeMs === stats.mtimeMs;
+    if (!fresh) {
+      // Touched but possibly unchanged (e.g. reinstalled): compare contents
+      try {
+        fresh = hashFile(binary) === entry.sha256;
+      } catch {
+        fresh = false;
+      }
+      if (fresh) {
+        entry.mtimeMs = stats.mtimeMs;
+        saveCache(cache);
+      }
+    }
+    if (fresh) {
+      return entry.manifest ? { manifest: entry.manifest, source: 'cli', origin: cli } : null;
+    }
+  }
+
+  let manifest: ConnectorManifest | null;
+  try {
+    manifest = await readManifestFromCli(cli, options.cwd);
+  } catch {
+    return null;
+  }
+
+  if (binary && stats && cache) {
+    try {
+      cache.entries[binary] = { size: stats.size, mtimeMs: stats.mtimeMs, sha256: hashFile(binary), manifest };
+      saveCache(cache);
+    } catch {
+      // Binary unreadable; skip caching
+    }
+  }
+
+  return manifest ? { manifest, source: 'cli', origin: cli } : null;
+}
+
+/**
+ * Forget cached CLI manifests (memory and disk)
+ */
+export function clearConnectorManifestCache(): void {
+  const path = getCachePath();
+  caches.delete(path);
+  try {
+    if (existsSync(path)) {
+      writeFileSync(path, JSON.stringify({ version: CACHE_VERSION, entries: {} }));
+    }
+  } catch {
+    // Ignore errors - cache file may not be writable
+  }
+}
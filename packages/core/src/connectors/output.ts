@@ -0,0 +1,321 @@
+/**
+ * Connector output - NDJSON progress events and structured results
+ *
+ * Connectors run with ASSISTANTS_CONNECTOR_OUTPUT=ndjson and may print one
+ * JSON event per line while they work:
+ *   {"type":"progress","message":"Fetched 50 of 200","current":50,"total":200}
+ *   {"type":"result","data":[...],"nextCursor":"abc"}
+ *   {"type":"error","message":"Rate limited"}
+ * Other lines are ordinary output. JSON results reach the model as compact
+ * JSON, split into pages when too large rather than cut off.
+ */
+
+import type { ToolProgressUpdate } from '@hasna/assistants-shared';
+import { generateId } from '@hasna/assistants-shared';
+
+export const CONNECTOR_OUTPUT_ENV = 'ASSISTANTS_CONNECTOR_OUTPUT';
+export const CONNECTOR_OUTPUT_FORMAT = 'ndjson';
+export const CONNECTOR_PAGE_CURSOR_PREFIX = 'page:';
+export const DEFAULT_CONNECTOR_RESULT_CHARS = 12_000;
+
+const EVENT_TYPES = new Set(['progress', 'result', 'error']);
+/** Room left in each page for the envelope around the items */
+const PAGE_ENVELOPE_CHARS = 200;
+const MAX_STRING_CHARS = 1_000;
+const PAGE_TTL_MS = 15 * 60 * 1000;
+const MAX_PAGED_RESULTS = 20;
+
+export interface ConnectorOutput {
+  /** Whether the output carried a JSON result */
+  hasData: boolean;
+  data?: unknown;
+  /** Output lines that were not events */
+  text: string;
+  /** The connector's own cursor for its next page */
+  nextCursor?: string;
+  /** Message from an error event */
+  error?: string;
+}
+
+interface PagedResult {
+  data: unknown;
+  /** Property holding the paged list, when the result is an object */
+  field?: string;
+  items: unknown[];
+  nextCursor?: string;
+  maxChars: number;
+  createdAt: number;
+}
+
+const pagedResults = new Map<string, PagedResult>();
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function parseEvent(line: string): Record<string, unknown> | null {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith('{') || !trimmed.includes('"type"')) return null;
+  try {
+    const parsed = JSON.parse(trimmed);
+    return isRecord(parsed) && EVENT_TYPES.has(String(parsed.type)) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a whole output as JSON, or as NDJSON records
+ */
+function parseJsonOutput(text: string): unknown | undefined {
+  if (!text.startsWith('{') && !text.startsWith('[')) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    // Not one document; try one record per line
+  }
+  const records: unknown[] = [];
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line));
+    } catch {
+      return undefined;
+    }
+  }
+  return records.length > 0 ? records : undefined;
+}
+
+/**
+ * Incremental parser for a connector's stdout
+ */
+export class ConnectorOutputParser {
+  private decoder = new TextDecoder();
+  private buffer = '';
+  private lines: string[] = [];
+  private result: { data: unknown; nextCursor?: string } | null = null;
+  private error?: string;
+
+  constructor(private onProgress?: (update: ToolProgressUpdate) => void) {}
+
+  push(chunk: Uint8Array | string): void {
+    this.buffer += typeof chunk === 'string' ? chunk : this.decoder.decode(chunk, { stream: true });
+    let index: number;
+    while ((index = this.buffer.indexOf('\n')) >= 0) {
+      this.handleLine(this.buffer.slice(0, index));
+      this.buffer = this.buffer.slice(index + 1);
+    }
+  }
+
+  end(): ConnectorOutput {
+    this.buffer += this.decoder.decode();
+    if (this.buffer) {
+      this.handleLine(this.buffer);
+      this.buffer = '';
+    }
+
+    const text = this.lines.join('\n').trim();
+    if (this.result) {
+      return { hasData: true, data: this.result.data, text, nextCursor: this.result.nextCursor, error: this.error };
+    }
+    const data = parseJsonOutput(text);
+    return data === undefined
+      ? { hasData: false, text, error: this.error }
+      : { hasData: true, data, text, error: this.error };
+  }
+
+  private handleLine(rawLine: string): void {
+    const line = rawLine.replace(/\r$/, '');
+    const event = parseEvent(line);
+    if (!event) {
+      this.lines.push(line);
+      return;
+    }
+
+    switch (event.type) {
+      case 'progress':
+        this.onProgress?.({
+          message: optionalString(event.message),
+          current: optionalNumber(event.current),
+          total: optionalNumber(event.total),
+          data: isRecord(event.data) ? event.data : undefined,
+        });
+        break;
+      case 'result':
+        this.result = { data: event.data ?? null, nextCursor: optionalString(event.nextCursor) };
+        break;
+      case 'error':
+        this.error = optionalString(event.message) ?? 'Connector reported an error';
+        break;
+    }
+  }
+}
+
+/**
+ * Read a connector's stdout to the end through a parser
+ */
+export async function readConnectorOutput(
+  stream: ReadableStream<Uint8Array> | null,
+  parser: ConnectorOutputParser
+): Promise<ConnectorOutput> {
+  if (stream) {
+    const reader = stream.getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      if (value) parser.push(value);
+    }
+  }
+  return parser.end();
+}
+
+function shortenStrings(value: unknown, maxChars: number): unknown {
+  if (typeof value === 'string') {
+    return value.length > maxChars ? `${value.slice(0, maxChars)}… (${value.length - maxChars} more chars)` : value;
+  }
+  if (Array.isArray(value)) return value.map((item) => shortenStrings(item, maxChars));
+  if (isRecord(value)) {
+    const shortened: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      shortened[key] = shortenStrings(item, maxChars);
+    }
+    return shortened;
+  }
+  return value;
+}
+
+/**
+ * The list to page through: the result itself, or its longest list property
+ */
+function findPagedList(data: unknown): { field?: string; items: unknown[] } | null {
+  if (Array.isArray(data)) return data.length > 1 ? { items: data } : null;
+  if (!isRecord(data)) return null;
+  let best: { field: string; items: unknown[] } | null = null;
+  for (const [field, value] of Object.entries(data)) {
+    if (Array.isArray(value) && value.length > 1 && (!best || value.length > best.items.length)) {
+      best = { field, items: value };
+    }
+  }
+  return best;
+}
+
+function prunePagedResults(): void {
+  const now = Date.now();
+  for (const [id, entry] of pagedResults) {
+    if (now - entry.createdAt > PAGE_TTL_MS) pagedResults.delete(id);
+  }
+  while (pagedResults.size > MAX_PAGED_RESULTS) {
+    const oldest = pagedResults.keys().next().value;
+    if (oldest === undefined) break;
+    pagedResults.delete(oldest);
+  }
+}
+
+function renderPage(id: string, entry: PagedResult, offset: number): string {
+  const budget = Math.max(1, entry.maxChars - PAGE_ENVELOPE_CHARS - (entry.field
+    ? JSON.stringify({ ...(entry.data as Record<string, unknown>), [entry.field]: [] }).length
+    : 2));
+
+  const items: unknown[] = [];
+  let used = 0;
+  for (let index = offset; index < entry.items.length; index++) {
+    let item = entry.items[index];
+    let size = JSON.stringify(item)?.length ?? 4;
+    if (size > budget) {
+      item = shortenStrings(item, MAX_STRING_CHARS);
+      size = JSON.stringify(item)?.length ?? 4;
+    }
+    // Every page moves forward by at least one item
+    if (items.length > 0 && used + size + 1 > budget) break;
+    items.push(item);
+    used += size + 1;
+  }
+
+  const next = offset + items.length;
+  const nextCursor = next < entry.items.length
+    ? `${CONNECTOR_PAGE_CURSOR_PREFIX}${id}:${next}`
+    : entry.nextCursor;
+  const data = entry.field ? { ...(entry.data as Record<string, unknown>), [entry.field]: items } : items;
+
+  return JSON.stringify({
+    data,
+    page: {
+      ...(entry.field ? { field: entry.field } : {}),
+      offset,
+      returned: items.length,
+      total: entry.items.length,
+      ...(nextCursor ? { nextCursor } : {}),
+    },
+  });
+}
+
+/**
+ * Text the model receives for a connector's output. JSON results are
+ * compacted; a result too large for maxChars is returned one page at a time,
+ * with a cursor for the next page.
+ */
+export function formatConnectorResult(
+  output: ConnectorOutput,
+  options: { maxChars?: number } = {}
+): string {
+  if (!output.hasData) {
+    return output.text || 'Command completed successfully';
+  }
+
+  const maxChars = options.maxChars ?? DEFAULT_CONNECTOR_RESULT_CHARS;
+  const compact = JSON.stringify(output.data) ?? 'null';
+  if (compact.length <= maxChars) {
+    return output.nextCursor
+      ? JSON.stringify({ data: output.data, page: { nextCursor: output.nextCursor } })
+      : compact;
+  }
+
+  const list = findPagedList(output.data);
+  if (!list) {
+    const shortened = shortenStrings(output.data, MAX_STRING_CHARS);
+    return output.nextCursor
+      ? JSON.stringify({ data: shortened, page: { nextCursor: output.nextCursor } })
+      : JSON.stringify(shortened);
+  }
+
+  prunePagedResults();
+  const id = generateId().slice(0, 8);
+  const entry: PagedResult = {
+    data: output.data,
+    field: list.field,
+    items: list.items,
+    nextCursor: output.nextCursor,
+    maxChars,
+    createdAt: Date.now(),
+  };
+  pagedResults.set(id, entry);
+  return renderPage(id, entry, 0);
+}
+
+/**
+ * Whether a cursor points into a result held here rather than at the connector
+ */
+export function isConnectorPageCursor(cursor: unknown): cursor is string {
+  return typeof cursor === 'string' && cursor.startsWith(CONNECTOR_PAGE_CURSOR_PREFIX);
+}
+
+/**
+ * Next page of a large result; null once the cursor has expired
+ */
+export function readConnectorResultPage(cursor: string): string | null {
+  prunePagedResults();
+  const match = cursor.slice(CONNECTOR_PAGE_CURSOR_PREFIX.length).match(/^(.+):(\d+)$/);
+  if (!match) return null;
+  const entry = pagedResults.get(match[1]);
+  const offset = Number(match[2]);
+  if (!entry || offset >= entry.items.length) return null;
+  return renderPage(match[1], entry, offset);
+}
@@ -21,6 +21,11 @@ export const ErrorCodes = {
   CONNECTOR_AUTH_FAILED: 'CONNECTOR_AUTH_FAILED',
   CONNECTOR_EXECUTION_FAILED: 'CONNECTOR_EXECUTION_FAILED',
 
+  // MCP errors (MCP_xxx)
+  MCP_CONNECTION_FAILED: 'MCP_CONNECTION_FAILED',
+  MCP_REQUEST_FAILED: 'MCP_REQUEST_FAILED',
+  MCP_TIMEOUT: 'MCP_TIMEOUT',
+
   // Validation errors (VALIDATION_xxx)
   VALIDATION_REQUIRED_FIELD: 'VALIDATION_REQUIRED_FIELD',
   VALIDATION_INVALID_TYPE: 'VALIDATION_INVALID_TYPE',
@@ -37,6 +42,10 @@ export const ErrorCodes = {
   JOB_CANCELLED: 'JOB_CANCELLED',
   JOB_EXECUTION_FAILED: 'JOB_EXECUTION_FAILED',
 
+  // Session errors (SESSION_xxx)
+  SESSION_WRITE_FAILED: 'SESSION_WRITE_FAILED',
+  SESSION_READ_FAILED: 'SESSION_READ_FAILED',
+
   // Generic
   UNKNOWN_ERROR: 'UNKNOWN_ERROR',
 } as const;
@@ -1,5 +1,5 @@
 export { ErrorCodes } from './codes';
 export type { ErrorCode } from './codes';
-export { AssistantError, ToolExecutionError, LLMError, ConfigurationError, ConnectorError, ValidationError, HookError, isAssistantError } from './types';
+export { AssistantError, ToolExecutionError, LLMError, ConfigurationError, ConnectorError, McpError, ValidationError, HookError, SessionStorageError, isAssistantError } from './types';
 export { ErrorAggregator } from './aggregator';
 export type { ErrorStats } from './aggregator';
@@ -136,6 +136,30 @@ export class ConnectorError extends AssistantError {
   }
 }
 
+export class McpError extends AssistantError {
+  serverName: string;
+  /** JSON-RPC error code returned by the server */
+  rpcCode?: number;
+
+  constructor(message: string, options: Omit<AssistantErrorOptions, 'code'> & {
+    serverName: string;
+    rpcCode?: number;
+    code?: ErrorCode;
+  }) {
+    super(message, {
+      code: options.code ?? ErrorCodes.MCP_REQUEST_FAILED,
+      recoverable: options.recoverable,
+      retryable: options.retryable,
+      userFacing: options.userFacing,
+      suggestion: options.suggestion,
+      cause: options.cause,
+    });
+    this.name = 'McpError';
+    this.serverName = options.serverName;
+    this.rpcCode = options.rpcCode;
+  }
+}
+
 export class ValidationError extends AssistantError {
   field?: string;
   expected?: string;
@@ -185,6 +209,26 @@ export class HookError extends AssistantError {
   }
 }
 
+export class SessionStorageError extends AssistantError {
+  path: string;
+
+  constructor(message: string, options: Omit<AssistantErrorOptions, 'code'> & {
+    path: string;
+    code?: ErrorCode;
+  }) {
+    super(message, {
+      code: options.code ?? ErrorCodes.SESSION_WRITE_FAILED,
+      recoverable: options.recoverable,
+      retryable: options.retryable,
+      userFacing: options.userFacing,
+      suggestion: options.suggestion,
+      cause: options.cause,
+    });
+    this.name = 'SessionStorageError';
+    this.path = options.path;
+  }
+}
+
 export function isAssistantError(error: unknown): error is AssistantError {
   return error instanceof AssistantError;
 }
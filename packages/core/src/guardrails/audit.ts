@@ -0,0 +1,113 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, statSync } from 'fs';
+import { dirname, join } from 'path';
+import { getConfigDir } from '../config';
+import type { GuardrailsDecision, GuardrailsMode, PolicyEvaluationResult } from './types';
+import { getGuardrailsDecision } from './evaluator';
+
+/** Rotate the log once it grows past this size */
+const MAX_AUDIT_LOG_BYTES = 5 * 1024 * 1024;
+
+/**
+ * A recorded guardrails decision
+ */
+export interface GuardrailsAuditEntry {
+  timestamp: string;
+  sessionId?: string;
+  toolName: string;
+  decision: GuardrailsDecision;
+  mode: GuardrailsMode;
+  /** Whether the decision was applied to the tool call */
+  enforced: boolean;
+  reasons: string[];
+  /** Matched rules as "policyId: pattern → action" */
+  matchedRules: string[];
+}
+
+/**
+ * Describe matched rules for logs and reports
+ */
+export function describeMatchedRules(result: PolicyEvaluationResult): string[] {
+  return result.matchedRules.map((match) => {
+    const rule = match.rule;
+    const label = 'pattern' in rule ? rule.pattern : rule.trigger;
+    const action = 'action' in rule ? rule.action : 'require_approval';
+    return `${match.policyId || match.policyScope}: ${label} → ${action}`;
+  });
+}
+
+/**
+ * Append-only JSONL log of guardrails decisions
+ * (~/.assistants/guardrails/audit.jsonl)
+ */
+export class GuardrailsAuditLog {
+  private path: string;
+
+  constructor(path: string = join(getConfigDir(), 'guardrails', 'audit.jsonl')) {
+    this.path = path;
+  }
+
+  getPath(): string {
+    return this.path;
+  }
+
+  /**
+   * Record an evaluation result
+   */
+  record(
+    toolName: string,
+    result: PolicyEvaluationResult,
+    options: { mode: GuardrailsMode; sessionId?: string }
+  ): GuardrailsAuditEntry {
+    const entry: GuardrailsAuditEntry = {
+      timestamp: new Date().toISOString(),
+      sessionId: options.sessionId,
+      toolName,
+      decision: getGuardrailsDecision(result),
+      mode: options.mode,
+      enforced: options.mode === 'enforce',
+      reasons: result.reasons,
+      matchedRules: describeMatchedRules(result),
+    };
+
+    try {
+      const dir = dirname(this.path);
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+      }
+      if (existsSync(this.path) && statSync(this.path).size > MAX_AUDIT_LOG_BYTES) {
+        renameSync(this.path, `${this.path}.1`);
+      }
+      appendFileSync(this.path, `${JSON.stringify(entry)}\n`, 'utf-8');
+    } catch {
+      // Audit logging must never break tool execution
+    }
+
+    return entry;
+  }
+
+  /**
+   * Read recent entries, newest first
+   */
+  read(options: { limit?: number; sessionId?: string } = {}): GuardrailsAuditEntry[] {
+    if (!existsSync(this.path)) return [];
+
+    const entries: GuardrailsAuditEntry[] = [];
+    try {
+      for (const line of readFileSync(this.path, 'utf-8').split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          const entry = JSON.parse(line) as GuardrailsAuditEntry;
+          if (options.sessionId && entry.sessionId !== options.sessionId) continue;
+          entries.push(entry);
+        } catch {
+          // Skip partial lines
+        }
+      }
+    } catch {
+      return [];
+    }
+
+    entries.reverse();
+    return options.limit ? entries.slice(0, options.limit) : entries;
+  }
+}
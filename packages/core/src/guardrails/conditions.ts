@@ -0,0 +1,87 @@
+import type { HookHandler, HookOutput } from '@hasna/assistants-shared';
+import type { PolicyCondition } from './types';
+import type { EvaluationContext } from './evaluator';
+
+/**
+ * Predicate behind a 'custom' policy condition
+ */
+export type CustomConditionPredicate = (
+  context: EvaluationContext,
+  condition: PolicyCondition
+) => boolean | Promise<boolean>;
+
+/**
+ * Runs the hook attached to a 'custom' condition
+ */
+export type ConditionHookRunner = (
+  hook: HookHandler,
+  context: EvaluationContext,
+  condition: PolicyCondition
+) => Promise<HookOutput | null>;
+
+/**
+ * Custom Condition Registry - named predicates for 'custom' policy conditions
+ *
+ * A condition `{ type: 'custom', value: 'name' }` holds when the predicate
+ * registered under `name` returns true. Unknown names never hold.
+ */
+export class CustomConditionRegistry {
+  private predicates: Map<string, CustomConditionPredicate> = new Map();
+
+  /**
+   * Register a predicate (replaces any existing one with the same name)
+   */
+  register(name: string, predicate: CustomConditionPredicate): void {
+    this.predicates.set(name, predicate);
+  }
+
+  /**
+   * Remove a predicate
+   */
+  unregister(name: string): boolean {
+    return this.predicates.delete(name);
+  }
+
+  /**
+   * Get a predicate by name
+   */
+  get(name: string): CustomConditionPredicate | undefined {
+    return this.predicates.get(name);
+  }
+
+  /**
+   * List registered predicate names
+   */
+  list(): string[] {
+    return Array.from(this.predicates.keys());
+  }
+
+  /**
+   * Clear all predicates (mainly for testing)
+   */
+  clear(): void {
+    this.predicates.clear();
+  }
+}
+
+/**
+ * Singleton registry instance for custom conditions
+ */
+export const customConditionRegistry = new CustomConditionRegistry();
+
+/**
+ * Key under which a resolved custom condition is stored
+ */
+export function getCustomConditionKey(condition: PolicyCondition): string {
+  return condition.hook
+    ? `hook:${condition.hook.id || condition.hook.command || condition.hook.prompt || String(condition.value)}`
+    : String(condition.value);
+}
+
+/**
+ * Whether a condition hook's output means the condition holds
+ */
+export function hookOutputMatches(output: HookOutput | null): boolean {
+  if (!output) return false;
+  return output.continue === false || output.permissionDecision === 'deny';
+}
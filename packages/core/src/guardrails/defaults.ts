@@ -38,28 +38,17 @@ export const DEFAULT_TOOL_RULES: ToolPolicyRule[] = [
     action: 'allow',
     reason: 'General file writes allowed',
   },
-  // Warn on bash commands
+  // Deny destructive shell commands (rm -rf ~, find / -delete, curl | sh, fork bombs)
   {
-    pattern: 'bash',
-    action: 'warn',
-    reason: 'Shell commands should be reviewed',
-  },
-  // Deny dangerous bash patterns
-  {
-    pattern: 'bash',
+    pattern: 'bash:@destructive',
     action: 'deny',
-    reason: 'Dangerous command pattern detected',
-    conditions: [
-      { type: 'input_contains', value: 'rm -rf /' },
-    ],
+    reason: 'Destructive command detected',
   },
+  // Warn on bash commands
   {
     pattern: 'bash',
-    action: 'deny',
-    reason: 'Dangerous command pattern detected',
-    conditions: [
-      { type: 'input_contains', value: ':(){:|:&};:' }, // Fork bomb
-    ],
+    action: 'warn',
+    reason: 'Shell commands should be reviewed',
   },
   // Allow web fetch
   {
@@ -92,6 +81,21 @@ export const DEFAULT_DATA_SENSITIVITY_RULES: DataSensitivityRule[] = [
     action: 'deny',
     redact: true,
   },
+  // Secrets appearing in tool output
+  {
+    pattern: '-----BEGIN [A-Z ]*PRIVATE KEY-----[\\s\\S]*?-----END [A-Z ]*PRIVATE KEY-----',
+    level: 'restricted',
+    action: 'deny',
+    redact: true,
+    target: 'content',
+  },
+  {
+    pattern: '\\bAKIA[0-9A-Z]{16}\\b',
+    level: 'restricted',
+    action: 'deny',
+    redact: true,
+    target: 'content',
+  },
   // Config files
   {
     pattern: 'config\\.json$',
@@ -177,11 +181,9 @@ export const PERMISSIVE_POLICY: GuardrailsPolicy = {
     rules: [
       // Only deny truly dangerous operations
       {
-        pattern: 'bash',
+        pattern: 'bash:@destructive',
         action: 'deny',
-        conditions: [
-          { type: 'input_contains', value: 'rm -rf /' },
-        ],
+        reason: 'Destructive command detected',
       },
     ],
   },
@@ -236,6 +238,7 @@ export const RESTRICTIVE_POLICY: GuardrailsPolicy = {
  */
 export const DEFAULT_GUARDRAILS_CONFIG: GuardrailsConfig = {
   enabled: false, // Disabled by default
+  mode: 'enforce',
   policies: [DEFAULT_SYSTEM_POLICY],
   defaultAction: 'allow',
   logEvaluations: false,
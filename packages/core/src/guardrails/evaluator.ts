@@ -6,8 +6,19 @@ import type {
   PolicyCondition,
   PolicyAction,
   PolicyScope,
+  GuardrailsDecision,
+  GuardrailsMode,
+  DataSensitivityRule,
 } from './types';
 import { POLICY_SCOPE_PRECEDENCE, DEFAULT_GUARDRAILS_CONFIG } from './defaults';
+import {
+  customConditionRegistry,
+  getCustomConditionKey,
+  hookOutputMatches,
+  type ConditionHookRunner,
+} from './conditions';
+import { isExternalTool, type RateLimitCounts } from './rate-limit';
+import { analyzeShellCommand, matchesShellPattern, type ShellAnalysis } from '../security/shell-analyzer';
 
 /**
  * Context for policy evaluation
@@ -23,8 +34,27 @@ export interface EvaluationContext {
   sessionDuration?: number;
   /** Additional context data */
   context?: Record<string, unknown>;
+  /** Calls already made in the current rate limit window (excluding this one) */
+  rateCounts?: RateLimitCounts;
+  /** Results of 'custom' conditions resolved ahead of time, by condition key */
+  customConditions?: Record<string, boolean>;
 }
 
+/**
+ * Result of redacting a tool output
+ */
+export interface RedactionResult {
+  /** Output with restricted data removed */
+  content: string;
+  /** Whether anything was redacted */
+  redacted: boolean;
+  /** Rules that caused redactions */
+  rules: DataSensitivityRule[];
+}
+
+/** Input fields added by the assistant loop, not by the model */
+const IMPLICIT_INPUT_KEYS = new Set(['cwd', 'sessionId']);
+
 /**
  * Match a pattern against a value
  * Supports glob patterns (* and **) and regex
@@ -54,6 +84,45 @@ function matchPattern(pattern: string, value: string): boolean {
   return regex.test(value);
 }
 
+/** Shell analyses of bash tool inputs, reused across rules */
+const shellAnalysisCache = new WeakMap<Record<string, unknown>, ShellAnalysis>();
+
+/**
+ * Match a tool rule pattern against the call being evaluated.
+ *
+ * `bash:<pattern>` rules match bash calls by the analyzed command rather than
+ * the tool name: `bash:git push*` matches any command in the line that starts
+ * with `git push`, and `bash:@network` matches commands classified as using
+ * the network.
+ */
+function matchRulePattern(pattern: string, context: EvaluationContext): boolean {
+  if (!pattern.startsWith('bash:') || context.toolName !== 'bash') {
+    return matchPattern(pattern, context.toolName);
+  }
+
+  const input = context.toolInput;
+  if (!input || typeof input.command !== 'string') return false;
+
+  let analysis = shellAnalysisCache.get(input);
+  if (!analysis || analysis.source !== input.command) {
+    analysis = analyzeShellCommand(input.command, {
+      cwd: typeof input.cwd === 'string' ? input.cwd : undefined,
+    });
+    shellAnalysisCache.set(input, analysis);
+  }
+  return matchesShellPattern(analysis, pattern.slice('bash:'.length));
+}
+
+/**
+ * Classify an evaluation result the way the assistant loop enforces it
+ */
+export function getGuardrailsDecision(result: PolicyEvaluationResult): GuardrailsDecision {
+  if (!result.allowed && result.action === 'deny') return 'denied';
+  if (result.requiresApproval) return 'approval_required';
+  if (result.warnings.length > 0) return 'warned';
+  return 'allowed';
+}
+
 /**
  * Evaluate a condition
  */
@@ -94,8 +163,25 @@ function evaluateCondition(
       break;
     }
     case 'custom': {
-      // Custom conditions would need external evaluation
-      result = false;
+      const key = getCustomConditionKey(condition);
+      if (context.customConditions && key in context.customConditions) {
+        result = context.customConditions[key];
+        break;
+      }
+      // Hooks and async predicates must be resolved up front (resolveCustomConditions)
+      const predicate = condition.hook ? undefined : customConditionRegistry.get(key);
+      if (predicate) {
+        try {
+          const value = predicate(context, condition);
+          if (typeof value === 'boolean') {
+            result = value;
+          } else {
+            Promise.resolve(value).catch(() => undefined);
+          }
+        } catch {
+          result = false;
+        }
+      }
       break;
     }
   }
@@ -126,7 +212,7 @@ function findMatchingRule(
   if (!policy.tools?.rules) return null;
 
   for (const rule of policy.tools.rules) {
-    if (matchPattern(rule.pattern, context.toolName)) {
+    if (matchRulePattern(rule.pattern, context)) {
       if (evaluateConditions(rule.conditions, context)) {
         return rule;
       }
@@ -136,6 +222,70 @@ function findMatchingRule(
   return null;
 }
 
+/**
+ * Compile a data sensitivity pattern, or null if it is invalid or too complex
+ */
+function compileSensitivityPattern(pattern: string, flags?: string): RegExp | null {
+  if (pattern.length > 500) return null;
+  try {
+    return new RegExp(pattern, flags);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Collect the string values of a tool input (nested objects and arrays included)
+ */
+function collectInputStrings(value: unknown, out: string[] = [], depth = 0): string[] {
+  if (depth > 5) return out;
+  if (typeof value === 'string') {
+    out.push(value.slice(0, 10000));
+  } else if (Array.isArray(value)) {
+    for (const item of value) collectInputStrings(item, out, depth + 1);
+  } else if (value && typeof value === 'object') {
+    for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+      if (depth === 0 && IMPLICIT_INPUT_KEYS.has(key)) continue;
+      collectInputStrings(item, out, depth + 1);
+    }
+  }
+  return out;
+}
+
+/**
+ * Apply an exceeded limit (depth or rate) to an evaluation result.
+ * Returns true when the result is now a denial.
+ */
+function applyLimitAction(
+  result: PolicyEvaluationResult,
+  policy: GuardrailsPolicy,
+  pattern: string,
+  action: PolicyAction,
+  reason: string,
+  warning: string = reason
+): boolean {
+  result.matchedRules.push({
+    policyId: policy.id,
+    policyScope: policy.scope,
+    rule: { pattern, action },
+  });
+  result.reasons.push(reason);
+
+  if (action === 'deny') {
+    result.allowed = false;
+    result.action = 'deny';
+    return true;
+  }
+  if (action === 'require_approval') {
+    result.allowed = false;
+    result.requiresApproval = true;
+    result.action = 'require_approval';
+  } else if (action === 'warn') {
+    result.warnings.push(warning);
+  }
+  return false;
+}
+
 /**
  * Sort policies by scope precedence
  */
@@ -171,6 +321,20 @@ export class PolicyEvaluator {
     this.config.enabled = enabled;
   }
 
+  /**
+   * Get the enforcement mode
+   */
+  getMode(): GuardrailsMode {
+    return this.config.mode ?? 'enforce';
+  }
+
+  /**
+   * Switch between enforcing and audit-only mode
+   */
+  setMode(mode: GuardrailsMode): void {
+    this.config.mode = mode;
+  }
+
   /**
    * Get current config
    */
@@ -307,31 +471,176 @@ export class PolicyEvaluator {
     if (context.depth !== undefined) {
       for (const policy of sortedPolicies) {
         if (policy.depth && context.depth > policy.depth.maxDepth) {
-          result.matchedRules.push({
-            policyId: policy.id,
-            policyScope: policy.scope,
-            rule: { pattern: 'depth', action: policy.depth.onExceeded },
-          });
-          result.reasons.push(`Max depth ${policy.depth.maxDepth} exceeded`);
-
-          if (policy.depth.onExceeded === 'deny') {
-            result.allowed = false;
-            result.action = 'deny';
-            break;
-          } else if (policy.depth.onExceeded === 'require_approval') {
-            result.allowed = false;
-            result.requiresApproval = true;
-            result.action = 'require_approval';
-          } else if (policy.depth.onExceeded === 'warn') {
-            result.warnings.push(`Assistant depth ${context.depth} exceeds limit ${policy.depth.maxDepth}`);
-          }
+          const denied = applyLimitAction(
+            result,
+            policy,
+            'depth',
+            policy.depth.onExceeded,
+            `Max depth ${policy.depth.maxDepth} exceeded`,
+            `Assistant depth ${context.depth} exceeds limit ${policy.depth.maxDepth}`
+          );
+          if (denied) break;
         }
       }
     }
 
+    // Check rate limits (this call counts towards the window)
+    if (context.rateCounts && result.action !== 'deny') {
+      const external = isExternalTool(context.toolName) ? 1 : 0;
+      for (const policy of sortedPolicies) {
+        const limits = policy.rateLimits;
+        if (!limits) continue;
+        const denied = this.applyRateLimit(result, policy, 'tool calls', context.rateCounts.toolCalls + 1, limits.toolCallsPerMinute)
+          || (external > 0 && this.applyRateLimit(
+            result,
+            policy,
+            'external requests',
+            context.rateCounts.externalRequests + external,
+            limits.externalRequestsPerMinute
+          ));
+        if (denied) break;
+      }
+    }
+
     return result;
   }
 
+  /**
+   * Evaluate an LLM call against the policies' rate limits
+   */
+  evaluateLlmCall(llmCallsInWindow: number): PolicyEvaluationResult {
+    const result: PolicyEvaluationResult = {
+      allowed: true,
+      action: 'allow',
+      matchedRules: [],
+      reasons: [],
+      requiresApproval: false,
+      warnings: [],
+    };
+
+    if (!this.config.enabled) {
+      return result;
+    }
+
+    const sortedPolicies = sortPoliciesByPrecedence(
+      this.config.policies.filter((p) => p.enabled)
+    );
+    for (const policy of sortedPolicies) {
+      if (!policy.rateLimits) continue;
+      if (this.applyRateLimit(result, policy, 'LLM calls', llmCallsInWindow + 1, policy.rateLimits.llmCallsPerMinute)) {
+        break;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Resolve the 'custom' conditions that could apply to a tool use.
+   * Runs async predicates and condition hooks so evaluateToolUse can use
+   * the results (pass them as context.customConditions).
+   */
+  async resolveCustomConditions(
+    context: EvaluationContext,
+    runHook?: ConditionHookRunner
+  ): Promise<Record<string, boolean>> {
+    const resolved: Record<string, boolean> = {};
+    if (!this.config.enabled) return resolved;
+
+    for (const policy of this.config.policies) {
+      if (!policy.enabled || !policy.tools?.rules) continue;
+      for (const rule of policy.tools.rules) {
+        if (!rule.conditions || !matchRulePattern(rule.pattern, context)) continue;
+        for (const condition of rule.conditions) {
+          if (condition.type !== 'custom') continue;
+          const key = getCustomConditionKey(condition);
+          if (key in resolved) continue;
+
+          try {
+            if (condition.hook) {
+              resolved[key] = runHook
+                ? hookOutputMatches(await runHook(condition.hook, context, condition))
+                : false;
+            } else {
+              const predicate = customConditionRegistry.get(key);
+              resolved[key] = predicate ? (await predicate(context, condition)) === true : false;
+            }
+          } catch {
+            resolved[key] = false;
+          }
+        }
+      }
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Redact restricted data from a tool output.
+   *
+   * Rules with `redact: true` and target 'path' (the default) hide the whole
+   * output when a tool input value matches; target 'content' rules replace
+   * each match in the output.
+   */
+  redactToolOutput(context: EvaluationContext, output: string): RedactionResult {
+    const redaction: RedactionResult = { content: output, redacted: false, rules: [] };
+    if (!this.config.enabled || !output) return redaction;
+
+    const inputValues = collectInputStrings(context.toolInput || {});
+    const sortedPolicies = sortPoliciesByPrecedence(
+      this.config.policies.filter((p) => p.enabled)
+    );
+
+    for (const policy of sortedPolicies) {
+      for (const rule of policy.dataSensitivity?.rules ?? []) {
+        if (!rule.redact) continue;
+
+        if ((rule.target ?? 'path') === 'path') {
+          const regex = compileSensitivityPattern(rule.pattern);
+          if (regex && inputValues.some((value) => regex.test(value))) {
+            return {
+              content: `[REDACTED: ${context.toolName} output contains ${rule.level} data]`,
+              redacted: true,
+              rules: [rule],
+            };
+          }
+          continue;
+        }
+
+        const regex = compileSensitivityPattern(rule.pattern, 'gm');
+        if (!regex) continue;
+        const content = redaction.content.replace(regex, (match) => (match ? '[REDACTED]' : match));
+        if (content !== redaction.content) {
+          redaction.content = content;
+          redaction.redacted = true;
+          redaction.rules.push(rule);
+        }
+      }
+    }
+
+    return redaction;
+  }
+
+  /**
+   * Apply one rate limit; returns true when it denies the call
+   */
+  private applyRateLimit(
+    result: PolicyEvaluationResult,
+    policy: GuardrailsPolicy,
+    label: string,
+    count: number,
+    limit: number | undefined
+  ): boolean {
+    if (limit === undefined || count <= limit) return false;
+    return applyLimitAction(
+      result,
+      policy,
+      `rate_limit:${label.replace(/\s+/g, '_').toLowerCase()}`,
+      policy.rateLimits?.onExceeded ?? 'warn',
+      `Rate limit exceeded: ${count} ${label} in the last minute (limit ${limit})`
+    );
+  }
+
   /**
    * Quick check if a tool is allowed
    */
@@ -10,13 +10,45 @@ export {
   RESTRICTIVE_POLICY,
   POLICY_SCOPE_PRECEDENCE,
 } from './defaults';
-export { PolicyEvaluator, type EvaluationContext } from './evaluator';
+export {
+  PolicyEvaluator,
+  getGuardrailsDecision,
+  type EvaluationContext,
+  type RedactionResult,
+} from './evaluator';
+export {
+  CustomConditionRegistry,
+  customConditionRegistry,
+  getCustomConditionKey,
+  hookOutputMatches,
+  type CustomConditionPredicate,
+  type ConditionHookRunner,
+} from './conditions';
+export {
+  GuardrailsRateLimiter,
+  EXTERNAL_TOOL_PATTERNS,
+  isExternalTool,
+  type RateLimitKind,
+  type RateLimitCounts,
+} from './rate-limit';
+export { GuardrailsAuditLog, describeMatchedRules, type GuardrailsAuditEntry } from './audit';
+export {
+  extractToolCalls,
+  loadSessionToolCalls,
+  loadCandidateConfig,
+  simulateGuardrails,
+  formatSimulationReport,
+  type RecordedToolCall,
+  type SimulatedToolCall,
+  type GuardrailsSimulationReport,
+} from './simulator';
 export { GuardrailsStore, type GuardrailsLocation, type PolicyInfo } from './store';
 export {
   guardrailsTools,
   guardrailsListTool,
   guardrailsGetTool,
   guardrailsStatusTool,
+  guardrailsSimulateTool,
   createGuardrailsToolExecutors,
   registerGuardrailsTools,
 } from './tools';
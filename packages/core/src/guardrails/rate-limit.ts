@@ -0,0 +1,110 @@
+/**
+ * What a rate limit counts
+ */
+export type RateLimitKind = 'tool' | 'llm' | 'external';
+
+/**
+ * Calls made within the current window
+ */
+export interface RateLimitCounts {
+  toolCalls: number;
+  llmCalls: number;
+  externalRequests: number;
+}
+
+/** Rate limits are expressed per minute */
+const RATE_LIMIT_WINDOW_MS = 60_000;
+
+/**
+ * Tools that reach outside the machine and count as external requests
+ */
+export const EXTERNAL_TOOL_PATTERNS: RegExp[] = [
+  /^web_fetch$/,
+  /^web_search$/,
+  /^curl$/,
+  /^connector_execute$/,
+  /^connect[_-]/,
+  /^webhook_test$/,
+];
+
+/**
+ * Check if a tool makes external requests
+ */
+export function isExternalTool(toolName: string): boolean {
+  return EXTERNAL_TOOL_PATTERNS.some((pattern) => pattern.test(toolName));
+}
+
+/**
+ * Sliding-window call counter for guardrails rate limits.
+ *
+ * One instance is shared between an assistant and its subassistants so the
+ * limits apply to the whole tree of assistants, not to each loop separately.
+ */
+export class GuardrailsRateLimiter {
+  private windowMs: number;
+  private events: Record<RateLimitKind, number[]> = {
+    tool: [],
+    llm: [],
+    external: [],
+  };
+
+  constructor(windowMs: number = RATE_LIMIT_WINDOW_MS) {
+    this.windowMs = windowMs;
+  }
+
+  /**
+   * Record a call
+   */
+  record(kind: RateLimitKind, now: number = Date.now()): void {
+    this.prune(kind, now);
+    this.events[kind].push(now);
+  }
+
+  /**
+   * Record a tool call (and an external request if the tool makes one)
+   */
+  recordToolCall(toolName: string, now: number = Date.now()): void {
+    this.record('tool', now);
+    if (isExternalTool(toolName)) {
+      this.record('external', now);
+    }
+  }
+
+  /**
+   * Number of calls within the window
+   */
+  count(kind: RateLimitKind, now: number = Date.now()): number {
+    this.prune(kind, now);
+    return this.events[kind].length;
+  }
+
+  /**
+   * Counts within the window for all kinds
+   */
+  getCounts(now: number = Date.now()): RateLimitCounts {
+    return {
+      toolCalls: this.count('tool', now),
+      llmCalls: this.count('llm', now),
+      externalRequests: this.count('external', now),
+    };
+  }
+
+  /**
+   * Forget all recorded calls
+   */
+  reset(): void {
+    this.events = { tool: [], llm: [], external: [] };
+  }
+
+  private prune(kind: RateLimitKind, now: number): void {
+    const cutoff = now - this.windowMs;
+    const events = this.events[kind];
+    let stale = 0;
+    while (stale < events.length && events[stale] <= cutoff) {
+      stale++;
+    }
+    if (stale > 0) {
+      events.splice(0, stale);
+    }
+  }
+}
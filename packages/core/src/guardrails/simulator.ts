@@ -0,0 +1,206 @@
+import { readFileSync } from 'fs';
+import type {
+  GuardrailsConfig,
+  GuardrailsDecision,
+  GuardrailsPolicy,
+} from './types';
+import { PolicyEvaluator, getGuardrailsDecision } from './evaluator';
+import { describeMatchedRules } from './audit';
+import { PERMISSIVE_POLICY, RESTRICTIVE_POLICY } from './defaults';
+import { SessionStorage } from '../logger';
+
+/**
+ * A tool call recorded in a saved session
+ */
+export interface RecordedToolCall {
+  toolName: string;
+  input: Record<string, unknown>;
+  /** Index of the message that made the call */
+  messageIndex: number;
+}
+
+/**
+ * How one recorded call fares under the candidate policies
+ */
+export interface SimulatedToolCall extends RecordedToolCall {
+  decision: GuardrailsDecision;
+  reasons: string[];
+  matchedRules: string[];
+}
+
+/**
+ * Result of replaying tool calls against a policy set
+ */
+export interface GuardrailsSimulationReport {
+  total: number;
+  counts: Record<GuardrailsDecision, number>;
+  calls: SimulatedToolCall[];
+  /** How often each rule matched, most frequent first */
+  ruleHits: Array<{ rule: string; count: number }>;
+}
+
+/**
+ * Pull tool calls out of saved session messages, in order
+ */
+export function extractToolCalls(messages: unknown[]): RecordedToolCall[] {
+  const calls: RecordedToolCall[] = [];
+  messages.forEach((message, messageIndex) => {
+    const toolCalls = (message as { toolCalls?: Array<{ name?: string; input?: unknown }> })?.toolCalls;
+    if (!Array.isArray(toolCalls)) return;
+    for (const call of toolCalls) {
+      if (!call?.name) continue;
+      const input = call.input && typeof call.input === 'object' ? call.input as Record<string, unknown> : {};
+      calls.push({ toolName: call.name, input, messageIndex });
+    }
+  });
+  return calls;
+}
+
+/**
+ * Load the tool calls of a saved session ('latest' for the most recent one)
+ */
+export function loadSessionToolCalls(sessionId: string): { sessionId: string; calls: RecordedToolCall[] } {
+  const sessions = SessionStorage.listAllSessions();
+  const info = sessionId === 'latest' ? sessions[0] : sessions.find((s) => s.id === sessionId);
+  if (!info) {
+    throw new Error(sessionId === 'latest' ? 'No saved sessions found.' : `Session not found: ${sessionId}`);
+  }
+  const resolvedId = info.id;
+  const assistantId = info.assistantId;
+
+  const data = SessionStorage.loadSession(resolvedId, assistantId);
+  if (!data) {
+    throw new Error(`Session not found: ${sessionId}`);
+  }
+  return { sessionId: resolvedId, calls: extractToolCalls(data.messages || []) };
+}
+
+/**
+ * Resolve a candidate policy set from a preset name or JSON file.
+ *
+ * A file holding a full guardrails config (`{ "guardrails": {...} }` or an
+ * object with `policies`) replaces the base config; a single policy or an
+ * array of policies is added on top of it.
+ */
+export function loadCandidateConfig(source: string, base: GuardrailsConfig): GuardrailsConfig {
+  const presets: Record<string, GuardrailsPolicy> = {
+    permissive: PERMISSIVE_POLICY,
+    restrictive: RESTRICTIVE_POLICY,
+  };
+
+  let candidate: unknown = presets[source];
+  if (!candidate) {
+    let raw: string;
+    try {
+      raw = readFileSync(source, 'utf-8');
+    } catch (error) {
+      throw new Error(`Could not read policy file ${source}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    try {
+      candidate = JSON.parse(raw);
+    } catch {
+      // Parse errors quote the file; keep its contents out of the message
+      throw new Error(`Policy file ${source} is not valid JSON`);
+    }
+  }
+
+  const data = candidate as Record<string, unknown>;
+  const full = (data.guardrails ?? (Array.isArray(data.policies) ? data : null)) as Partial<GuardrailsConfig> | null;
+  if (full) {
+    return {
+      ...base,
+      ...full,
+      policies: full.policies ?? [],
+    };
+  }
+
+  const added = (Array.isArray(candidate) ? candidate : [candidate]) as GuardrailsPolicy[];
+  if (added.some((policy) => !policy || typeof policy !== 'object' || !policy.scope)) {
+    throw new Error(`${source} does not contain a guardrails policy`);
+  }
+  return {
+    ...base,
+    policies: [...base.policies, ...added],
+  };
+}
+
+/**
+ * Replay recorded tool calls against a policy set without running anything.
+ * The policies are evaluated as if guardrails were enabled and enforcing.
+ */
+export function simulateGuardrails(
+  calls: RecordedToolCall[],
+  config: GuardrailsConfig,
+  options: { depth?: number } = {}
+): GuardrailsSimulationReport {
+  const evaluator = new PolicyEvaluator({ ...config, enabled: true, mode: 'enforce' });
+  const report: GuardrailsSimulationReport = {
+    total: calls.length,
+    counts: { allowed: 0, denied: 0, approval_required: 0, warned: 0 },
+    calls: [],
+    ruleHits: [],
+  };
+  const hits = new Map<string, number>();
+
+  for (const call of calls) {
+    const result = evaluator.evaluateToolUse({
+      toolName: call.toolName,
+      toolInput: call.input,
+      depth: options.depth,
+    });
+    const decision = getGuardrailsDecision(result);
+    const matchedRules = describeMatchedRules(result);
+    report.counts[decision]++;
+    report.calls.push({ ...call, decision, reasons: result.reasons, matchedRules });
+    for (const rule of matchedRules) {
+      hits.set(rule, (hits.get(rule) ?? 0) + 1);
+    }
+  }
+
+  report.ruleHits = Array.from(hits.entries())
+    .map(([rule, count]) => ({ rule, count }))
+    .sort((a, b) => b.count - a.count);
+
+  return report;
+}
+
+/**
+ * Render a simulation report as text
+ */
+export function formatSimulationReport(
+  report: GuardrailsSimulationReport,
+  options: { title?: string; maxCalls?: number } = {}
+): string {
+  const lines: string[] = [];
+  lines.push(options.title || '## Guardrails Simulation');
+  lines.push('');
+  lines.push(`Tool calls replayed: ${report.total}`);
+  lines.push(`  Allowed: ${report.counts.allowed}`);
+  lines.push(`  Warned: ${report.counts.warned}`);
+  lines.push(`  Approval required: ${report.counts.approval_required}`);
+  lines.push(`  Denied: ${report.counts.denied}`);
+
+  if (report.ruleHits.length > 0) {
+    lines.push('');
+    lines.push('Rules matched:');
+    for (const hit of report.ruleHits) {
+      lines.push(`  ${hit.count}× ${hit.rule}`);
+    }
+  }
+
+  const flagged = report.calls.filter((call) => call.decision !== 'allowed');
+  if (flagged.length > 0) {
+    const maxCalls = options.maxCalls ?? 20;
+    lines.push('');
+    lines.push('Calls affected:');
+    for (const call of flagged.slice(0, maxCalls)) {
+      const reason = call.reasons[0] ? ` - ${call.reasons[0]}` : '';
+      lines.push(`  [${call.decision}] ${call.toolName}${reason}`);
+    }
+    if (flagged.length > maxCalls) {
+      lines.push(`  ... and ${flagged.length - maxCalls} more`);
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -116,6 +116,7 @@ export class GuardrailsStore {
     // Start with defaults
     const merged: GuardrailsConfig = {
       enabled: DEFAULT_GUARDRAILS_CONFIG.enabled,
+      mode: DEFAULT_GUARDRAILS_CONFIG.mode,
       policies: [DEFAULT_SYSTEM_POLICY],
       overrides: [],
       defaultAction: DEFAULT_GUARDRAILS_CONFIG.defaultAction,
@@ -132,6 +133,10 @@ export class GuardrailsStore {
         merged.enabled = config.enabled;
       }
 
+      if (config.mode) {
+        merged.mode = config.mode;
+      }
+
       // Override default action
       if (config.defaultAction) {
         merged.defaultAction = config.defaultAction;
@@ -389,6 +394,13 @@ export class GuardrailsStore {
     return DEFAULT_GUARDRAILS_CONFIG.enabled;
   }
 
+  /**
+   * Get working directory
+   */
+  getCwd(): string {
+    return this.cwd;
+  }
+
   /**
    * Update working directory
    */
@@ -3,9 +3,18 @@
  * Allows assistants to inspect guardrails policies and status
  */
 
+import { isAbsolute, resolve } from 'path';
 import type { Tool } from '@hasna/assistants-shared';
 import type { ToolExecutor, ToolRegistry } from '../tools/registry';
+import { getConfigDir } from '../config';
+import { validatePath } from '../validation/paths';
 import type { GuardrailsStore } from './store';
+import {
+  formatSimulationReport,
+  loadCandidateConfig,
+  loadSessionToolCalls,
+  simulateGuardrails,
+} from './simulator';
 
 /**
  * guardrails_list - List all guardrail policies
@@ -51,6 +60,32 @@ export const guardrailsStatusTool: Tool = {
   },
 };
 
+/**
+ * guardrails_simulate - Replay a session's tool calls against candidate policies
+ */
+export const guardrailsSimulateTool: Tool = {
+  name: 'guardrails_simulate',
+  description: 'Dry-run guardrail policies: replay the tool calls of a saved session against the current or a candidate policy set and report which calls would be allowed, warned, approval-gated or denied, and which rules matched. Nothing is executed or changed.',
+  parameters: {
+    type: 'object',
+    properties: {
+      sessionId: {
+        type: 'string',
+        description: 'Saved session to replay (default: "latest")',
+      },
+      policy: {
+        type: 'string',
+        description: 'Candidate policies: a preset (permissive, restrictive) or a path to a JSON policy file. Omit to use the current policies.',
+      },
+      maxCalls: {
+        type: 'number',
+        description: 'Maximum affected calls to list (default: 20)',
+      },
+    },
+    required: [],
+  },
+};
+
 /**
  * Create executors for guardrails tools
  */
@@ -134,6 +169,7 @@ export function createGuardrailsToolExecutors(
       lines.push('## Guardrails Status');
       lines.push('');
       lines.push(`Enabled: ${config.enabled ? 'yes' : 'no'}`);
+      lines.push(`Mode: ${config.mode || 'enforce'}`);
       lines.push(`Default action: ${config.defaultAction || 'allow'}`);
       lines.push(`Policies: ${policies.length}`);
       lines.push(`  Enabled: ${policies.filter(p => p.enabled).length}`);
@@ -141,6 +177,45 @@ export function createGuardrailsToolExecutors(
 
       return lines.join('\n');
     },
+
+    guardrails_simulate: async (input) => {
+      const store = getGuardrailsStore();
+      if (!store) {
+        return 'Guardrails store is not available.';
+      }
+
+      try {
+        let config = store.loadAll();
+        const policy = typeof input.policy === 'string' ? input.policy.trim() : '';
+        if (policy) {
+          let source = policy;
+          if (policy !== 'permissive' && policy !== 'restrictive') {
+            // Policy files must live in the project or config directory
+            const validated = await validatePath(isAbsolute(policy) ? policy : resolve(store.getCwd(), policy), {
+              allowSymlinks: false,
+              allowedPaths: [store.getCwd(), getConfigDir()],
+            });
+            if (!validated.valid) {
+              return `Error: Policy file ${policy} is not allowed: ${validated.error || 'invalid path'}`;
+            }
+            source = validated.resolved;
+          }
+          config = loadCandidateConfig(source, config);
+        }
+
+        const sessionId = String(input.sessionId || 'latest').trim();
+        const { sessionId: resolvedId, calls } = loadSessionToolCalls(sessionId);
+
+        const report = simulateGuardrails(calls, config);
+        const maxCalls = typeof input.maxCalls === 'number' && input.maxCalls > 0 ? Math.floor(input.maxCalls) : 20;
+        return formatSimulationReport(report, {
+          title: `## Guardrails Simulation (session ${resolvedId}${policy ? `, policy ${policy}` : ''})`,
+          maxCalls,
+        });
+      } catch (error) {
+        return `Error: ${error instanceof Error ? error.message : String(error)}`;
+      }
+    },
   };
 }
 
@@ -151,6 +226,7 @@ export const guardrailsTools: Tool[] = [
   guardrailsListTool,
   guardrailsGetTool,
   guardrailsStatusTool,
+  guardrailsSimulateTool,
 ];
 
 /**
@@ -3,6 +3,8 @@
  * Defines security and safety policies for assistant behavior
  */
 
+import type { HookHandler } from '@hasna/assistants-shared';
+
 /**
  * Policy scope/level - determines precedence
  * Lower = higher precedence (system overrides all, session overrides project)
@@ -34,10 +36,15 @@ export interface ToolPolicyRule {
 export interface PolicyCondition {
   /** Type of condition */
   type: 'input_contains' | 'input_matches' | 'context_has' | 'depth_exceeds' | 'time_exceeds' | 'custom';
-  /** Value to check against */
+  /** Value to check against (for 'custom', the registered predicate name) */
   value: string | number | boolean;
   /** Negate the condition */
   negate?: boolean;
+  /**
+   * Hook to run for a 'custom' condition instead of a registered predicate.
+   * The condition holds when the hook blocks (exit code 2) or denies.
+   */
+  hook?: HookHandler;
 }
 
 /**
@@ -57,6 +64,12 @@ export interface DataSensitivityRule {
   action: PolicyAction;
   /** Whether to redact content matching this pattern */
   redact?: boolean;
+  /**
+   * What the pattern is matched against (default: 'path').
+   * 'path' redacts the whole output of tool calls whose input references a
+   * matching path; 'content' replaces matching text in any tool output.
+   */
+  target?: 'path' | 'content';
 }
 
 /**
@@ -85,6 +98,7 @@ export interface DepthPolicy {
 
 /**
  * Rate limit policy
+ * Limits are counted over a sliding one-minute window shared with subassistants
  */
 export interface RateLimitPolicy {
   /** Maximum tool calls per minute */
@@ -182,12 +196,24 @@ export interface PolicyOverride {
   scope: PolicyScope;
 }
 
+/**
+ * Guardrails mode - 'enforce' applies decisions, 'audit' only logs them
+ */
+export type GuardrailsMode = 'enforce' | 'audit';
+
+/**
+ * Outcome of a tool call under a policy set
+ */
+export type GuardrailsDecision = 'allowed' | 'denied' | 'approval_required' | 'warned';
+
 /**
  * Guardrails configuration
  */
 export interface GuardrailsConfig {
   /** Whether guardrails are enabled */
   enabled: boolean;
+  /** Enforce decisions or only log them (default: 'enforce') */
+  mode?: GuardrailsMode;
   /** Policies to apply (in order of precedence) */
   policies: GuardrailsPolicy[];
   /** Active overrides */
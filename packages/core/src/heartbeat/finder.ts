@@ -1,6 +1,8 @@
 import { existsSync, readdirSync, readFileSync } from 'fs';
 import { join } from 'path';
 import { getConfigDir } from '../config';
+import { readSessionLogMeta } from '../sessions/session-log';
+import { readLegacySessionFile } from '../migration/sessions';
 import type { Heartbeat, PersistedState } from './types';
 
 /**
@@ -52,7 +54,9 @@ export function findRecoverableSessions(
     const sessionId = file.replace('.json', '');
     const heartbeatPath = join(heartbeatsDir, file);
     const statePath = join(stateDir, `${sessionId}.json`);
-    const sessionPath = join(sessionsDir, `${sessionId}.json`);
+    const logPath = join(sessionsDir, `${sessionId}.jsonl`);
+    const legacyPath = join(sessionsDir, `${sessionId}.json`);
+    const sessionPath = existsSync(logPath) ? logPath : legacyPath;
 
     try {
       // Read heartbeat
@@ -83,15 +87,14 @@ export function findRecoverableSessions(
       // Try to get message count from session storage
       let messageCount = 0;
       let cwd = state?.context?.cwd || process.cwd();
-      if (existsSync(sessionPath)) {
-        try {
-          const sessionContent = readFileSync(sessionPath, 'utf-8');
-          const sessionData = JSON.parse(sessionContent) as { messages?: unknown[]; cwd?: string };
-          messageCount = sessionData.messages?.length || 0;
-          cwd = sessionData.cwd || cwd;
-        } catch {
-          // Ignore parse errors
-        }
+      if (sessionPath === logPath) {
+        const meta = readSessionLogMeta(logPath);
+        messageCount = meta?.messageCount || 0;
+        cwd = meta?.cwd || cwd;
+      } else if (existsSync(legacyPath)) {
+        const sessionData = readLegacySessionFile(legacyPath);
+        messageCount = sessionData?.messages.length || 0;
+        cwd = sessionData?.cwd || cwd;
       }
 
       // Skip if no meaningful data to recover (no state and no messages)
@@ -1,18 +1,27 @@
 import type { PersistedState, RecoveryOptions } from './types';
 import { StatePersistence } from './persistence';
 import { HeartbeatManager } from './manager';
+import type { SwarmRunStore, SwarmRunSummary } from '../swarm/store';
 
 export class RecoveryManager {
   private persistence: StatePersistence;
   private options: RecoveryOptions;
   private heartbeatPath: string;
   private staleThresholdMs: number;
+  private swarmRuns: SwarmRunStore | null;
 
-  constructor(persistence: StatePersistence, heartbeatPath: string, staleThresholdMs: number, options: RecoveryOptions) {
+  constructor(
+    persistence: StatePersistence,
+    heartbeatPath: string,
+    staleThresholdMs: number,
+    options: RecoveryOptions,
+    swarmRuns?: SwarmRunStore
+  ) {
     this.persistence = persistence;
     this.heartbeatPath = heartbeatPath;
     this.staleThresholdMs = staleThresholdMs;
     this.options = options;
+    this.swarmRuns = swarmRuns ?? null;
   }
 
   async checkForRecovery(): Promise<{
@@ -38,6 +47,22 @@ export class RecoveryManager {
     return { available: true, state };
   }
 
+  /**
+   * Swarm runs left in progress by a process that died (crash, Ctrl-C),
+   * newest first. Only runs updated within maxAgeMs are returned.
+   */
+  findInterruptedSwarmRuns(cwd?: string): SwarmRunSummary[] {
+    if (!this.swarmRuns) return [];
+    const cutoff = Date.now() - this.options.maxAgeMs;
+    try {
+      return this.swarmRuns
+        .list({ cwd, resumableOnly: true })
+        .filter((run) => run.interrupted && run.updatedAt >= cutoff);
+    } catch {
+      return [];
+    }
+  }
+
   async recover(state: PersistedState): Promise<void> {
     if (this.options.autoResume) {
       if (state.context?.cwd) {
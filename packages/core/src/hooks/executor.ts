@@ -1,16 +1,18 @@
-import type { HookMatcher, HookHandler, HookInput, HookOutput, Message } from '@hasna/assistants-shared';
+import type { HookMatcher, HookHandler, HookInput, HookOutput, Message, NativeHookContext } from '@hasna/assistants-shared';
 import type { LLMClient } from '../llm/client';
 import { existsSync } from 'fs';
 import { generateId, sleep } from '@hasna/assistants-shared';
 import { getRuntime } from '../runtime';
 import { HookLogger } from './logger';
 import { backgroundProcessManager } from './background';
+import { callHttpHook, callModuleHook } from './handlers';
 
 function killSpawnedProcess(proc: { kill: () => void }): void {
   proc.kill();
 }
 
 type AssistantRunner = (hook: HookHandler, input: HookInput, timeout: number) => Promise<string | null>;
+type HookContextProvider = () => Partial<NativeHookContext>;
 
 /**
  * Hook executor - runs hooks and collects results
@@ -18,6 +20,7 @@ type AssistantRunner = (hook: HookHandler, input: HookInput, timeout: number) =>
 export class HookExecutor {
   private llmClient?: LLMClient;
   private assistantRunner?: AssistantRunner;
+  private contextProvider?: HookContextProvider;
   private logger?: HookLogger;
 
   setLLMClient(client: LLMClient): void {
@@ -28,6 +31,13 @@ export class HookExecutor {
     this.assistantRunner = runner;
   }
 
+  /**
+   * Supply session context (messages, LLM client) to module hooks
+   */
+  setContextProvider(provider: HookContextProvider): void {
+    this.contextProvider = provider;
+  }
+
   setLogger(logger: HookLogger): void {
     this.logger = logger;
   }
@@ -162,6 +172,12 @@ export class HookExecutor {
         case 'assistant':
           result = await this.executeAssistantHook(hook, input, timeout);
           break;
+        case 'http':
+          result = await this.executeHttpHook(hook, input, timeout);
+          break;
+        case 'module':
+          result = await this.executeModuleHook(hook, input, timeout);
+          break;
         default:
           return null;
       }
@@ -388,6 +404,63 @@ Respond with JSON only: {"allow": boolean, "reason": string}`;
     }
   }
 
+  /**
+   * Execute an http hook (POST input to a URL)
+   */
+  private async executeHttpHook(
+    hook: HookHandler,
+    input: HookInput,
+    timeout: number
+  ): Promise<HookOutput | null> {
+    if (!hook.url) return null;
+
+    // Handle async hooks - fire and forget
+    if (hook.async) {
+      void callHttpHook(hook, input, timeout).catch((err) => {
+        console.debug(`Async hook ${hook.id || hook.url} error:`, err);
+      });
+      return { continue: true };
+    }
+
+    try {
+      const response = await callHttpHook(hook, input, timeout);
+      if (!response.ok) {
+        // Non-2xx responses are non-blocking errors, like non-zero exit codes
+        console.error(`HTTP hook ${hook.id || hook.url} returned ${response.status}`);
+        return null;
+      }
+      return response.output;
+    } catch (error) {
+      console.error('HTTP hook error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Execute a module hook (in-process JS/TS handler)
+   */
+  private async executeModuleHook(
+    hook: HookHandler,
+    input: HookInput,
+    timeout: number
+  ): Promise<HookOutput | null> {
+    if (!hook.module) return null;
+
+    const context: NativeHookContext = {
+      sessionId: input.session_id,
+      cwd: input.cwd && existsSync(input.cwd) ? input.cwd : process.cwd(),
+      messages: [],
+      ...this.contextProvider?.(),
+    };
+
+    try {
+      return await callModuleHook(hook, input, context, timeout);
+    } catch (error) {
+      console.error('Module hook error:', error);
+      return null;
+    }
+  }
+
   private parseDecision(raw: string): { allow: boolean; reason?: string } | null {
     const json = this.extractJson(raw);
     if (!json) return null;
@@ -0,0 +1,142 @@
+import type { HookHandler, HookInput, HookOutput, NativeHookContext, NativeHookHandler } from '@hasna/assistants-shared';
+import { existsSync } from 'fs';
+import { homedir } from 'os';
+import { isAbsolute, join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { signPayload } from '../webhooks/crypto';
+
+/**
+ * Response from an http hook endpoint
+ */
+export interface HttpHookResponse {
+  status: number;
+  ok: boolean;
+  body: string;
+  /** Hook output from a 2xx response; null when the body was empty */
+  output: HookOutput | null;
+}
+
+/**
+ * Replace ${VAR} with the environment value
+ */
+function expandEnv(value: string): string {
+  return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, name: string) => process.env[name] ?? '');
+}
+
+/**
+ * Parse a hook's reply the way command hook stdout is parsed: JSON is the
+ * output, other text becomes additional context
+ */
+function parseHookReply(text: string): HookOutput | null {
+  if (!text) return null;
+  try {
+    return JSON.parse(text) as HookOutput;
+  } catch {
+    return { continue: true, additionalContext: text };
+  }
+}
+
+/**
+ * POST hook input to an http hook. The JSON body is signed like outgoing
+ * webhooks: X-Webhook-Signature is its HMAC-SHA256 hex digest.
+ */
+export async function callHttpHook(hook: HookHandler, input: HookInput, timeout: number): Promise<HttpHookResponse> {
+  if (!hook.url) {
+    throw new Error('Hook has no url defined');
+  }
+
+  const body = JSON.stringify(input);
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'X-Webhook-Event': input.hook_event_name,
+    'X-Webhook-Timestamp': new Date().toISOString(),
+  };
+  for (const [name, value] of Object.entries(hook.headers ?? {})) {
+    headers[name] = expandEnv(String(value));
+  }
+  const secret = hook.secret ? expandEnv(hook.secret) : '';
+  if (secret) {
+    headers['X-Webhook-Signature'] = signPayload(body, secret);
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeout);
+  try {
+    const response = await fetch(expandEnv(hook.url), {
+      method: 'POST',
+      headers,
+      body,
+      signal: controller.signal,
+    });
+    const text = (await response.text()).trim();
+    return {
+      status: response.status,
+      ok: response.ok,
+      body: text,
+      output: response.ok ? parseHookReply(text) : null,
+    };
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new Error(`Hook timed out after ${timeout}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Resolve a module hook path: absolute, ~/..., or relative to cwd
+ */
+export function resolveHookModulePath(modulePath: string, cwd: string): string {
+  if (modulePath === '~' || modulePath.startsWith('~/')) {
+    return join(homedir(), modulePath.slice(1));
+  }
+  return isAbsolute(modulePath) ? modulePath : resolve(cwd, modulePath);
+}
+
+/**
+ * Load the handler a module hook points at. Modules are imported once per
+ * process, so edits take effect in the next session.
+ */
+export async function loadHookModule(hook: HookHandler, cwd: string): Promise<NativeHookHandler> {
+  if (!hook.module) {
+    throw new Error('Hook has no module defined');
+  }
+  const path = resolveHookModulePath(hook.module, cwd);
+  if (!existsSync(path)) {
+    throw new Error(`Hook module not found: ${path}`);
+  }
+
+  const exportName = hook.export || 'default';
+  const mod = await import(pathToFileURL(path).href) as Record<string, unknown>;
+  const handler = mod[exportName] ?? (exportName === 'default' ? mod.handler : undefined);
+  if (typeof handler !== 'function') {
+    throw new Error(`Hook module ${path} has no function export '${exportName}'`);
+  }
+  return handler as NativeHookHandler;
+}
+
+/**
+ * Run a module hook's handler in-process
+ */
+export async function callModuleHook(
+  hook: HookHandler,
+  input: HookInput,
+  context: NativeHookContext,
+  timeout: number
+): Promise<HookOutput | null> {
+  const handler = await loadHookModule(hook, context.cwd);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    const result = await Promise.race([
+      Promise.resolve(handler(input, context)),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Hook timed out after ${timeout}ms`)), timeout);
+      }),
+    ]);
+    return result ?? null;
+  } finally {
+    clearTimeout(timer);
+  }
+}
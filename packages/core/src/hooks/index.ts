@@ -7,6 +7,13 @@ export { HookStore, type HookLocation, type HookInfo } from './store';
 export { HookLogger, type HookLogEntry } from './logger';
 export { BackgroundProcessManager, backgroundProcessManager } from './background';
 export { HookTester, type HookTestResult } from './tester';
+export {
+  callHttpHook,
+  callModuleHook,
+  loadHookModule,
+  resolveHookModulePath,
+  type HttpHookResponse,
+} from './handlers';
 export {
   hooksTools,
   hooksListTool,
@@ -25,7 +25,7 @@ export interface HookInfo {
  * Generate a unique ID for a hook
  */
 function generateHookId(event: string, hook: HookHandler): string {
-  const content = hook.command || hook.prompt || '';
+  const content = hook.command || hook.prompt || hook.url || hook.module || '';
   const hash = createHash('sha256').update(content).digest('hex').slice(0, 8);
   return `${event.toLowerCase()}-${hook.type}-${hash}`;
 }
@@ -2,6 +2,7 @@ import type { HookEvent, HookHandler, HookInput, HookOutput } from '@hasna/assis
 import { existsSync } from 'fs';
 import { generateId } from '@hasna/assistants-shared';
 import { getRuntime } from '../runtime';
+import { callHttpHook, callModuleHook } from './handlers';
 
 /**
  * Result from testing a hook
@@ -9,6 +10,8 @@ import { getRuntime } from '../runtime';
 export interface HookTestResult {
   success: boolean;
   exitCode: number | null;
+  /** HTTP status (http hooks) */
+  status?: number;
   stdout: string;
   stderr: string;
   parsedOutput: HookOutput | null;
@@ -82,6 +85,28 @@ const sampleInputs: Record<HookEvent, Partial<HookInput>> = {
   },
 };
 
+/**
+ * Action a hook's output leads to
+ */
+function describeOutput(output: HookOutput | null): Pick<HookTestResult, 'action' | 'reason'> {
+  if (!output) {
+    return { action: 'ALLOW' };
+  }
+  if (output.continue === false) {
+    return { action: 'BLOCK', reason: output.stopReason };
+  }
+  if (output.updatedInput) {
+    return { action: 'MODIFY' };
+  }
+  if (output.permissionDecision) {
+    return {
+      action: output.permissionDecision === 'deny' ? 'BLOCK' : 'ALLOW',
+      reason: output.permissionDecision,
+    };
+  }
+  return { action: 'ALLOW' };
+}
+
 /**
  * HookTester - test hooks with sample input without running the full assistant
  */
@@ -110,8 +135,8 @@ export class HookTester {
       ...customInput,
     };
 
-    // Only command hooks can be tested directly
-    if (hook.type !== 'command') {
+    // Prompt and assistant hooks need an LLM, so only these can be tested directly
+    if (hook.type !== 'command' && hook.type !== 'http' && hook.type !== 'module') {
       return {
         success: false,
         exitCode: null,
@@ -119,12 +144,14 @@ export class HookTester {
         stderr: '',
         parsedOutput: null,
         action: 'ERROR',
-        error: `Cannot test hook type '${hook.type}' - only 'command' hooks can be tested`,
+        error: `Cannot test hook type '${hook.type}' - only 'command', 'http' and 'module' hooks can be tested`,
         durationMs: Date.now() - startTime,
       };
     }
 
-    if (!hook.command) {
+    const target = hook.type === 'http' ? hook.url : hook.type === 'module' ? hook.module : hook.command;
+    if (!target) {
+      const field = hook.type === 'http' ? 'url' : hook.type;
       return {
         success: false,
         exitCode: null,
@@ -132,13 +159,18 @@ export class HookTester {
         stderr: '',
         parsedOutput: null,
         action: 'ERROR',
-        error: 'Hook has no command defined',
+        error: `Hook has no ${field} defined`,
         durationMs: Date.now() - startTime,
       };
     }
 
     try {
-      const result = await this.executeCommand(hook.command, input, hook.timeout || 30000);
+      const timeout = hook.timeout || 30000;
+      const result = hook.type === 'http'
+        ? await this.executeHttp(hook, input, timeout)
+        : hook.type === 'module'
+          ? await this.executeModule(hook, input, timeout)
+          : await this.executeCommand(target, input, timeout);
       return {
         ...result,
         durationMs: Date.now() - startTime,
@@ -234,17 +266,7 @@ export class HookTester {
       // Try to parse JSON output
       try {
         parsedOutput = JSON.parse(stdout.trim()) as HookOutput;
-        if (parsedOutput.continue === false) {
-          action = 'BLOCK';
-          reason = parsedOutput.stopReason;
-        } else if (parsedOutput.updatedInput) {
-          action = 'MODIFY';
-        } else if (parsedOutput.permissionDecision) {
-          action = parsedOutput.permissionDecision === 'deny' ? 'BLOCK' : 'ALLOW';
-          reason = parsedOutput.permissionDecision;
-        } else {
-          action = 'ALLOW';
-        }
+        ({ action, reason } = describeOutput(parsedOutput));
       } catch {
         // Not JSON, just context addition
         action = 'ALLOW';
@@ -274,6 +296,59 @@ export class HookTester {
     };
   }
 
+  /**
+   * POST input to an http hook and collect results
+   */
+  private async executeHttp(
+    hook: HookHandler,
+    input: HookInput,
+    timeout: number
+  ): Promise<Omit<HookTestResult, 'durationMs'>> {
+    const response = await callHttpHook(hook, input, timeout);
+    if (!response.ok) {
+      return {
+        success: false,
+        exitCode: null,
+        status: response.status,
+        stdout: response.body,
+        stderr: '',
+        parsedOutput: null,
+        action: 'ERROR',
+        reason: `HTTP ${response.status}`,
+      };
+    }
+
+    return {
+      success: true,
+      exitCode: null,
+      status: response.status,
+      stdout: response.body,
+      stderr: '',
+      parsedOutput: response.output,
+      ...describeOutput(response.output),
+    };
+  }
+
+  /**
+   * Run a module hook's handler and collect results
+   */
+  private async executeModule(
+    hook: HookHandler,
+    input: HookInput,
+    timeout: number
+  ): Promise<Omit<HookTestResult, 'durationMs'>> {
+    const cwd = input.cwd && existsSync(input.cwd) ? input.cwd : process.cwd();
+    const output = await callModuleHook(hook, input, { sessionId: input.session_id, cwd, messages: [] }, timeout);
+    return {
+      success: true,
+      exitCode: null,
+      stdout: output ? JSON.stringify(output) : '',
+      stderr: '',
+      parsedOutput: output,
+      ...describeOutput(output),
+    };
+  }
+
   /**
    * Generate sample input for an event type
    */
@@ -19,6 +19,7 @@ export type {
   SubassistantManagerContext,
   SubassistantLoopConfig,
   SubassistantRunner,
+  SubassistantTool,
 } from './agent/subagent-manager';
 export type { ToolStats, SessionStats } from './agent/stats';
 
@@ -26,6 +27,27 @@ export type { ToolStats, SessionStats } from './agent/stats';
 export { ToolRegistry } from './tools/registry';
 export { ConnectorAutoRefreshManager } from './connectors/auto-refresh';
 export type { ConnectorAutoRefreshEntry, ConnectorAutoRefreshSchedule } from './connectors/auto-refresh';
+export {
+  CONNECTOR_MANIFEST_VERSION,
+  CONNECTOR_MANIFEST_FILE,
+  parseConnectorManifest,
+  connectorFromManifest,
+  loadConnectorManifest,
+  clearConnectorManifestCache,
+} from './connectors/manifest';
+export type { LoadedConnectorManifest, LoadConnectorManifestOptions, ConnectorManifestSource } from './connectors/manifest';
+export {
+  CONNECTOR_OUTPUT_ENV,
+  CONNECTOR_OUTPUT_FORMAT,
+  CONNECTOR_PAGE_CURSOR_PREFIX,
+  DEFAULT_CONNECTOR_RESULT_CHARS,
+  ConnectorOutputParser,
+  readConnectorOutput,
+  formatConnectorResult,
+  isConnectorPageCursor,
+  readConnectorResultPage,
+} from './connectors/output';
+export type { ConnectorOutput } from './connectors/output';
 export {
   ConnectorBridge,
   connectorExecuteTool,
@@ -140,8 +162,9 @@ export {
   swarmStopTool,
   createSwarmToolExecutors,
   registerSwarmTools,
+  createSwarmWorkerTools,
 } from './tools/swarm';
-export type { SwarmToolContext } from './tools/swarm';
+export type { SwarmToolContext, SwarmWorkerToolContext } from './tools/swarm';
 export {
   logsTools,
   logsQueryTool,
@@ -162,6 +185,39 @@ export { SkillLoader } from './skills/loader';
 export { SkillExecutor } from './skills/executor';
 export { createSkill, deleteSkill } from './skills/create';
 export type { SkillScope, CreateSkillOptions, CreateSkillResult } from './skills/create';
+export {
+  SkillPackageManager,
+  SKILL_PACKAGE_MANIFEST,
+  SKILL_LOCKFILE,
+  parseSkillPackageManifest,
+  readSkillPackageManifest,
+  parseSkillPackageSource,
+  compareSkillVersions,
+  satisfiesSkillVersion,
+} from './skills/packages';
+export type {
+  SkillPackageManifest,
+  SkillPackageDependency,
+  SkillPackageSource,
+  SkillLockfile,
+  SkillLockEntry,
+  InstalledSkillPackage,
+  SkillPackageInstallResult,
+  SkillLockResult,
+} from './skills/packages';
+export {
+  SkillArgumentError,
+  parseSkillArgumentSchema,
+  splitSkillArguments,
+  analyzeSkillArguments,
+  parseSkillArguments,
+  formatSkillArgumentHint,
+  formatSkillUsage,
+  skillArgumentsToParameters,
+  buildSkillArgumentRequest,
+  formatSkillArgumentAssignments,
+} from './skills/arguments';
+export type { SkillArgumentAnalysis } from './skills/arguments';
 
 // Hooks
 export { HookLoader } from './hooks/loader';
@@ -172,8 +228,10 @@ export { createScopeVerificationHook, scopeVerificationHandler } from './hooks/s
 export { HookStore } from './hooks/store';
 export { HookTester } from './hooks/tester';
 export { HookLogger } from './hooks/logger';
+export { callHttpHook, callModuleHook, loadHookModule, resolveHookModulePath } from './hooks/handlers';
 export type { HookLocation, HookInfo } from './hooks/store';
 export type { HookTestResult } from './hooks/tester';
+export type { HttpHookResponse } from './hooks/handlers';
 export type { HookLogEntry } from './hooks/logger';
 
 // Verification Sessions
@@ -184,6 +242,10 @@ export { MemoryStore } from './memory/store';
 export { SessionManager } from './memory/sessions';
 export { GlobalMemoryManager } from './memory/global-memory';
 export { MemoryInjector, buildContextInjection } from './memory/injector';
+export { HashingEmbedder, cosineSimilarity } from './memory/embeddings';
+export type { MemoryEmbedder } from './memory/embeddings';
+export { MemoryConsolidator } from './memory/consolidation';
+export type { MemoryConsolidatorOptions, ConsolidationRunOptions } from './memory/consolidation';
 export type {
   MemoryScope,
   MemoryCategory,
@@ -192,6 +254,12 @@ export type {
   MemoryOptions,
   MemoryQuery,
   MemoryQueryResult,
+  MemorySearchOptions,
+  MemorySearchResult,
+  MemoryConsolidationAction,
+  MemoryConsolidationLogEntry,
+  MemoryConsolidationReport,
+  MemoryConflict,
   MemoryStats,
   MemoryInjectionConfig,
   MemoryInjectionResult,
@@ -242,8 +310,22 @@ export {
   DEFAULT_ASSISTANT_LIMITS,
   DEFAULT_SWARM_LIMITS,
   WARNING_THRESHOLD,
+  formatCostUsd,
+  formatSparkline,
+  BudgetWindowStore,
+  getBudgetWindow,
+} from './budget';
+export type {
+  BudgetScope,
+  BudgetCheckResult,
+  BudgetStatus,
+  BudgetUpdate,
+  BudgetHistoryBucket,
+  BudgetWindow,
+  BudgetUsageEvent,
+  LlmCallDetails,
+  ToolCostEntry,
 } from './budget';
-export type { BudgetScope, BudgetCheckResult, BudgetStatus, BudgetUpdate } from './budget';
 
 // Voice
 export * from './voice/types';
@@ -261,9 +343,15 @@ export * from './migration';
 
 // LLM
 export type { LLMClient } from './llm/client';
-export { createLLMClient, ProviderMismatchError } from './llm/client';
+export { createLLMClient, discoverModels, ProviderMismatchError } from './llm/client';
+export { LLMProviderRegistry, getLLMProviderRegistry, registerBuiltinProviders } from './llm/registry';
+export type { LLMProviderDefinition } from './llm/registry';
 export { AnthropicClient } from './llm/anthropic';
 export { OpenAIClient } from './llm/openai';
+export type { OpenAIClientOptions } from './llm/openai';
+export { createOpenAICompatibleClient, listOpenAICompatibleModels, normalizeBaseUrl } from './llm/openai-compatible';
+export { ReplayClient, loadReplayScript } from './llm/replay';
+export type { ReplayScript, ReplayTurn } from './llm/replay';
 export {
   MODELS,
   getModelById,
@@ -274,8 +362,10 @@ export {
   getModelDisplayName,
   formatModelInfo,
   getModelsGroupedByProvider,
+  getModelPricing,
+  calculateCost,
 } from './llm/models';
-export type { ModelDefinition } from './llm/models';
+export type { ModelDefinition, CostableUsage } from './llm/models';
 
 // Config
 export { loadConfig, getConfigPath, getConfigDir, getProjectConfigDir } from './config';
@@ -301,6 +391,9 @@ export * from './messages';
 // Webhooks (External Event Reception)
 export * from './webhooks';
 
+// MCP (Model Context Protocol Servers)
+export * from './mcp';
+
 // Channels (Slack-like Agent Collaboration)
 export * from './channels';
 
@@ -329,8 +422,31 @@ export {
   sessionDeleteTool,
   createSessionToolExecutors,
   registerSessionTools,
+  CheckpointStore,
+  getToolWritePaths,
+  forkSession,
+  buildSessionTree,
+  SessionLog,
+  readSessionLogMeta,
+  SessionSearchIndex,
+  searchSessions,
+  sessionSearchTool,
+  registerSessionSearchTools,
 } from './sessions';
 export type {
+  Checkpoint,
+  FileSnapshot,
+  FileRestoreResult,
+  RewindResult,
+  ForkSessionOptions,
+  ForkSessionResult,
+  SessionTreeNode,
+  SessionLogEvent,
+  SessionLogReplay,
+  SessionSearchOptions,
+  SessionSearchResult,
+  SessionSearchEntryKind,
+  SessionSearchToolContext,
   SessionContext,
   SessionQueryFunctions,
   AssistantSessionData,
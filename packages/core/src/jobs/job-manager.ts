@@ -12,8 +12,16 @@ import { ErrorCodes } from '../errors/codes';
 import { getRuntime } from '../runtime';
 import { buildCommandArgs, splitCommandLine } from '../utils/command-line';
 import type { SpawnResult } from '../runtime';
+import {
+  CONNECTOR_OUTPUT_ENV,
+  CONNECTOR_OUTPUT_FORMAT,
+  ConnectorOutputParser,
+  formatConnectorResult,
+  readConnectorOutput,
+} from '../connectors/output';
 
 const DEFAULT_TIMEOUT_MS = 60_000; // 1 minute
+const PROGRESS_SAVE_INTERVAL_MS = 1000;
 const DEFAULT_MAX_JOB_AGE_MS = 24 * 60 * 60 * 1000; // 24 hours
 
 /**
@@ -147,6 +155,7 @@ export class JobManager {
         stdin: 'ignore',
         stdout: 'pipe',
         stderr: 'pipe',
+        env: { [CONNECTOR_OUTPUT_ENV]: CONNECTOR_OUTPUT_FORMAT },
       });
 
       // Set up timeout
@@ -156,12 +165,27 @@ export class JobManager {
 
       this.runningJobs.set(job.id, { proc, timer });
 
+      // Save streamed progress, at most once per interval
+      let progressSave: Promise<unknown> = Promise.resolve();
+      let lastProgressAt = 0;
+      const parser = new ConnectorOutputParser((update) => {
+        const now = Date.now();
+        if (now - lastProgressAt < PROGRESS_SAVE_INTERVAL_MS) return;
+        lastProgressAt = now;
+        progressSave = progressSave
+          .then(() => updateJob(job.id, (j) => (
+            j.status === 'running' ? { ...j, progress: { ...update, updatedAt: now } } : j
+          )))
+          .catch(() => {});
+      });
+
       // Wait for completion
-      const [stdout, stderr] = await Promise.all([
-        proc.stdout ? new Response(proc.stdout).text() : '',
+      const [output, stderr] = await Promise.all([
+        readConnectorOutput(proc.stdout, parser),
         proc.stderr ? new Response(proc.stderr).text() : '',
       ]);
       const exitCode = await proc.exited;
+      await progressSave;
 
       // Clear timeout
       clearTimeout(timer);
@@ -185,17 +209,20 @@ export class JobManager {
       }
 
       // Update job with result
+      const failed = exitCode !== 0 || Boolean(output.error);
       const completedJob = await updateJob(job.id, (j) => ({
         ...j,
-        status: (exitCode === 0 ? 'completed' : 'failed') as JobStatus,
+        status: (failed ? 'failed' : 'completed') as JobStatus,
         completedAt: Date.now(),
         result: {
-          content: stdout.trim() || stderr.trim() || 'Command completed',
+          content: output.hasData || output.text
+            ? formatConnectorResult(output)
+            : stderr.trim() || 'Command completed',
           exitCode,
         },
-        error: exitCode !== 0 ? {
+        error: failed ? {
           code: ErrorCodes.CONNECTOR_EXECUTION_FAILED,
-          message: stderr.trim() || `Exit code: ${exitCode}`,
+          message: output.error || stderr.trim() || `Exit code: ${exitCode}`,
         } : undefined,
       }));
 
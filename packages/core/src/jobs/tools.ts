@@ -89,6 +89,13 @@ function createJobStatusExecutor(getJobManager: () => JobManager | null): ToolEx
       const remaining = job.timeoutMs - elapsed;
       parts.push(`Elapsed: ${(elapsed / 1000).toFixed(1)}s`);
       parts.push(`Timeout in: ${Math.max(0, remaining / 1000).toFixed(1)}s`);
+      if (job.progress) {
+        const count = job.progress.current !== undefined
+          ? `${job.progress.current}${job.progress.total !== undefined ? `/${job.progress.total}` : ''}`
+          : '';
+        const progress = [job.progress.message, count && `(${count})`].filter(Boolean).join(' ');
+        if (progress) parts.push(`Progress: ${progress}`);
+      }
     }
 
     if (job.result) {
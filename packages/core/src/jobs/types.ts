@@ -1,3 +1,5 @@
+import type { ToolProgressUpdate } from '@hasna/assistants-shared';
+
 /**
  * Job status values
  */
@@ -11,6 +13,14 @@ export interface JobResult {
   exitCode?: number;
 }
 
+/**
+ * Latest progress reported by a running job
+ */
+export interface JobProgress extends ToolProgressUpdate {
+  /** Unix timestamp (ms) of the report */
+  updatedAt: number;
+}
+
 /**
  * Job error information
  */
@@ -43,6 +53,8 @@ export interface Job {
   completedAt?: number;
   /** Timeout in milliseconds */
   timeoutMs: number;
+  /** Latest progress, for connectors that stream it */
+  progress?: JobProgress;
   /** Result if completed successfully */
   result?: JobResult;
   /** Error if failed or timed out */
@@ -3,7 +3,7 @@ import { readFileSync, existsSync } from 'fs';
 import { homedir } from 'os';
 import { join } from 'path';
 import type { LLMClient } from './client';
-import type { Message, Tool, StreamChunk, LLMConfig, ToolCall } from '@hasna/assistants-shared';
+import type { Message, Tool, StreamChunk, LLMConfig, ToolCall, ThinkingBlock } from '@hasna/assistants-shared';
 import { generateId } from '@hasna/assistants-shared';
 import { ErrorCodes, LLMError } from '../errors';
 import { LLMRetryConfig, withRetry } from '../utils/retry';
@@ -29,6 +29,12 @@ function loadApiKeyFromSecrets(): string | undefined {
   return undefined;
 }
 
+/** Minimum thinking budget accepted by the API */
+const MIN_THINKING_BUDGET = 1024;
+const DEFAULT_THINKING_BUDGET = 4096;
+
+const EPHEMERAL_CACHE: Anthropic.CacheControlEphemeral = { type: 'ephemeral' };
+
 /**
  * Anthropic Claude client
  */
@@ -36,6 +42,8 @@ export class AnthropicClient implements LLMClient {
   private client: Anthropic;
   private model: string;
   private maxTokens: number;
+  private promptCaching: boolean;
+  private thinkingBudget: number | null;
 
   constructor(config: LLMConfig) {
     const apiKey = config.apiKey || process.env.ANTHROPIC_API_KEY || loadApiKeyFromSecrets();
@@ -51,6 +59,10 @@ export class AnthropicClient implements LLMClient {
     this.client = new Anthropic({ apiKey });
     this.model = config.model;
     this.maxTokens = config.maxTokens || 8192;
+    this.promptCaching = config.promptCaching ?? true;
+    this.thinkingBudget = config.thinking?.enabled
+      ? Math.max(MIN_THINKING_BUDGET, config.thinking.budgetTokens ?? DEFAULT_THINKING_BUDGET)
+      : null;
   }
 
   getModel(): string {
@@ -74,15 +86,34 @@ export class AnthropicClient implements LLMClient {
           ? `${this.getDefaultSystemPrompt()}\n\n---\n\n${systemPrompt}`
           : this.getDefaultSystemPrompt();
 
+      const system: Anthropic.TextBlockParam[] = [
+        {
+          type: 'text',
+          text: combinedSystem,
+          ...(this.promptCaching ? { cache_control: EPHEMERAL_CACHE } : {}),
+        },
+      ];
+      if (this.promptCaching) {
+        this.addHistoryCacheBreakpoint(anthropicMessages);
+      }
+
+      // max_tokens includes the thinking budget, so it must leave room for the answer
+      const maxTokens = this.thinkingBudget !== null && this.thinkingBudget >= this.maxTokens
+        ? this.thinkingBudget + this.maxTokens
+        : this.maxTokens;
+
       const stream = await withRetry(
         async () => {
           try {
             return this.client.messages.stream({
               model: this.model,
-              max_tokens: this.maxTokens,
-              system: combinedSystem,
+              max_tokens: maxTokens,
+              system,
               messages: anthropicMessages,
               tools: anthropicTools,
+              ...(this.thinkingBudget !== null
+                ? { thinking: { type: 'enabled' as const, budget_tokens: this.thinkingBudget } }
+                : {}),
             });
           } catch (error) {
             throw toLLMError(error);
@@ -96,6 +127,7 @@ export class AnthropicClient implements LLMClient {
 
       let currentToolCall: Partial<ToolCall> | null = null;
       let toolInputJson = '';
+      let currentThinking: ThinkingBlock | null = null;
 
       for await (const event of stream) {
         if (event.type === 'content_block_start') {
@@ -105,6 +137,13 @@ export class AnthropicClient implements LLMClient {
               name: event.content_block.name,
             };
             toolInputJson = '';
+          } else if (event.content_block.type === 'thinking') {
+            currentThinking = { thinking: '', signature: '' };
+          } else if (event.content_block.type === 'redacted_thinking') {
+            yield {
+              type: 'thinking',
+              thinking: { thinking: '', redactedData: event.content_block.data },
+            };
           }
         } else if (event.type === 'content_block_delta') {
           if (event.delta.type === 'text_delta') {
@@ -114,9 +153,20 @@ export class AnthropicClient implements LLMClient {
             };
           } else if (event.delta.type === 'input_json_delta') {
             toolInputJson += event.delta.partial_json;
+          } else if (event.delta.type === 'thinking_delta' && currentThinking) {
+            currentThinking.thinking += event.delta.thinking;
+            yield {
+              type: 'thinking',
+              content: event.delta.thinking,
+            };
+          } else if (event.delta.type === 'signature_delta' && currentThinking) {
+            currentThinking.signature = (currentThinking.signature || '') + event.delta.signature;
           }
         } else if (event.type === 'content_block_stop') {
-          if (currentToolCall && currentToolCall.id && currentToolCall.name) {
+          if (currentThinking) {
+            yield { type: 'thinking', thinking: currentThinking };
+            currentThinking = null;
+          } else if (currentToolCall && currentToolCall.id && currentToolCall.name) {
             try {
               currentToolCall.input = toolInputJson ? JSON.parse(toolInputJson) : {};
             } catch {
@@ -137,13 +187,19 @@ export class AnthropicClient implements LLMClient {
       // Get final usage from stream
       const finalMessage = await stream.finalMessage();
       if (finalMessage.usage) {
+        // input_tokens excludes cached tokens; report the full prompt size
+        const cacheReadTokens = finalMessage.usage.cache_read_input_tokens ?? 0;
+        const cacheWriteTokens = finalMessage.usage.cache_creation_input_tokens ?? 0;
+        const inputTokens = finalMessage.usage.input_tokens + cacheReadTokens + cacheWriteTokens;
         yield {
           type: 'usage',
           usage: {
-            inputTokens: finalMessage.usage.input_tokens,
+            inputTokens,
             outputTokens: finalMessage.usage.output_tokens,
-            totalTokens: finalMessage.usage.input_tokens + finalMessage.usage.output_tokens,
+            totalTokens: inputTokens + finalMessage.usage.output_tokens,
             maxContextTokens: 200000,
+            cacheReadTokens,
+            cacheWriteTokens,
           },
         };
       }
@@ -171,8 +227,21 @@ export class AnthropicClient implements LLMClient {
         | Anthropic.ToolUseBlockParam
         | Anthropic.ToolResultBlockParam
         | Anthropic.DocumentBlockParam
+        | Anthropic.ThinkingBlockParam
+        | Anthropic.RedactedThinkingBlockParam
       > = [];
 
+      // Thinking blocks must lead the assistant turn they belong to
+      if (msg.role === 'assistant' && msg.thinking && this.thinkingBudget !== null) {
+        for (const block of msg.thinking) {
+          if (block.redactedData) {
+            content.push({ type: 'redacted_thinking', data: block.redactedData });
+          } else if (block.signature) {
+            content.push({ type: 'thinking', thinking: block.thinking, signature: block.signature });
+          }
+        }
+      }
+
       // Add document attachments first (PDFs should come before text per Anthropic best practices)
       if (msg.documents && msg.documents.length > 0) {
         for (const doc of msg.documents) {
@@ -232,6 +301,21 @@ export class AnthropicClient implements LLMClient {
     return result;
   }
 
+  /**
+   * Mark the end of the conversation so far as a cache breakpoint, letting
+   * the next turn reuse the whole history prefix.
+   */
+  private addHistoryCacheBreakpoint(messages: Anthropic.MessageParam[]): void {
+    const last = messages[messages.length - 1];
+    if (!last || !Array.isArray(last.content)) return;
+    for (let i = last.content.length - 1; i >= 0; i--) {
+      const block = last.content[i];
+      if (block.type === 'thinking' || block.type === 'redacted_thinking') continue;
+      (block as Anthropic.TextBlockParam).cache_control = EPHEMERAL_CACHE;
+      return;
+    }
+  }
+
   private convertDocumentToBlock(doc: import('@hasna/assistants-shared').DocumentAttachment): Anthropic.DocumentBlockParam | null {
     if (doc.source.type === 'base64') {
       return {
@@ -256,7 +340,7 @@ export class AnthropicClient implements LLMClient {
   }
 
   private convertTools(tools: Tool[]): Anthropic.Tool[] {
-    return tools.map((tool) => ({
+    return tools.map((tool, index) => ({
       name: tool.name,
       description: tool.description,
       input_schema: {
@@ -264,6 +348,8 @@ export class AnthropicClient implements LLMClient {
         properties: tool.parameters.properties,
         required: tool.parameters.required,
       },
+      // A breakpoint on the last tool caches the full tool list
+      ...(this.promptCaching && index === tools.length - 1 ? { cache_control: EPHEMERAL_CACHE } : {}),
     }));
   }
 
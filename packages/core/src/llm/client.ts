@@ -1,5 +1,6 @@
 import type { Message, Tool, StreamChunk, LLMConfig } from '@hasna/assistants-shared';
 import { getProviderForModel } from './models';
+import { getLLMProviderRegistry, type LLMProviderRegistry } from './registry';
 
 /**
  * Abstract LLM client interface
@@ -37,43 +38,73 @@ export class ProviderMismatchError extends Error {
   }
 }
 
+/**
+ * Resolve the provider type for a provider ID: either a `llm.providers`
+ * entry's type or the ID itself for built-in providers
+ */
+function resolveProviderType(config: LLMConfig, providerId: string): string {
+  return config.providers?.[providerId]?.type ?? providerId;
+}
+
 /**
  * Create an LLM client based on config
  * Automatically detects and validates provider from model ID
  * @throws ProviderMismatchError if explicit provider doesn't match model (logged as warning, uses correct provider)
  */
-export async function createLLMClient(config: LLMConfig): Promise<LLMClient> {
+export async function createLLMClient(
+  config: LLMConfig,
+  registry: LLMProviderRegistry = getLLMProviderRegistry()
+): Promise<LLMClient> {
   // Detect provider from model ID
   const detectedProvider = getProviderForModel(config.model);
 
   // Determine the provider to use
   let provider = config.provider;
+  const providerType = provider ? resolveProviderType(config, provider) : undefined;
+  // Local and scripted providers can serve any model name, including hosted ones
+  const servesAnyModel = providerType !== undefined && providerType !== 'anthropic' && providerType !== 'openai';
 
-  if (detectedProvider) {
+  if (detectedProvider && !servesAnyModel) {
     // Model found in registry - validate and use correct provider
-    if (provider && provider !== detectedProvider) {
+    if (provider && providerType !== detectedProvider) {
       // Provider mismatch - log warning and use correct provider
       console.warn(
         `Provider mismatch: model '${config.model}' belongs to provider '${detectedProvider}', ` +
           `but '${provider}' was specified. Using correct provider '${detectedProvider}'.`
       );
+      provider = detectedProvider;
     }
-    provider = detectedProvider;
+    provider = provider || detectedProvider;
   } else if (!provider) {
     // Model not in registry and no provider specified - default to anthropic
     provider = 'anthropic';
   }
   // else: Model not in registry but provider specified - use specified provider
 
-  if (provider === 'anthropic') {
-    const { AnthropicClient } = await import('./anthropic');
-    return new AnthropicClient(config);
+  const definition = registry.get(resolveProviderType(config, provider));
+  if (!definition) {
+    throw new Error(`Unsupported LLM provider: ${provider}`);
   }
 
-  if (provider === 'openai') {
-    const { OpenAIClient } = await import('./openai');
-    return new OpenAIClient(config);
-  }
+  return definition.create({ ...config, provider }, config.providers?.[provider]);
+}
 
-  throw new Error(`Unsupported LLM provider: ${provider}`);
+/**
+ * List the models a provider serves. Configured model lists take precedence;
+ * OpenAI-compatible servers are queried through /v1/models.
+ */
+export async function discoverModels(
+  config: LLMConfig,
+  providerId: string,
+  registry: LLMProviderRegistry = getLLMProviderRegistry()
+): Promise<string[]> {
+  const definition = registry.get(resolveProviderType(config, providerId));
+  if (!definition) {
+    throw new Error(`Unsupported LLM provider: ${providerId}`);
+  }
+  const providerConfig = config.providers?.[providerId];
+  if (providerConfig?.models && providerConfig.models.length > 0) {
+    return providerConfig.models;
+  }
+  return definition.listModels ? definition.listModels(providerConfig) : [];
 }
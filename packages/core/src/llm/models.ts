@@ -2,6 +2,8 @@
  * Model Registry - Centralized model definitions for all providers
  */
 
+import type { ModelPricing } from '@hasna/assistants-shared';
+
 export interface ModelDefinition {
   id: string;
   provider: 'anthropic' | 'openai';
@@ -11,6 +13,10 @@ export interface ModelDefinition {
   maxOutputTokens: number;
   inputCostPer1M: number;
   outputCostPer1M: number;
+  /** Cost per 1M input tokens read from the prompt cache */
+  cacheReadCostPer1M?: number;
+  /** Cost per 1M input tokens written to the prompt cache */
+  cacheWriteCostPer1M?: number;
   /** Whether this model supports tool/function calling */
   supportsTools?: boolean;
   /** Whether this model supports streaming */
@@ -35,6 +41,8 @@ export const MODELS: ModelDefinition[] = [
     maxOutputTokens: 8192,
     inputCostPer1M: 15,
     outputCostPer1M: 75,
+    cacheReadCostPer1M: 1.5,
+    cacheWriteCostPer1M: 18.75,
     supportsTools: true,
     supportsStreaming: true,
   },
@@ -47,6 +55,8 @@ export const MODELS: ModelDefinition[] = [
     maxOutputTokens: 8192,
     inputCostPer1M: 3,
     outputCostPer1M: 15,
+    cacheReadCostPer1M: 0.3,
+    cacheWriteCostPer1M: 3.75,
     supportsTools: true,
     supportsStreaming: true,
   },
@@ -59,6 +69,8 @@ export const MODELS: ModelDefinition[] = [
     maxOutputTokens: 8192,
     inputCostPer1M: 1,
     outputCostPer1M: 5,
+    cacheReadCostPer1M: 0.1,
+    cacheWriteCostPer1M: 1.25,
     supportsTools: true,
     supportsStreaming: true,
   },
@@ -75,6 +87,7 @@ export const MODELS: ModelDefinition[] = [
     maxOutputTokens: 128000,
     inputCostPer1M: 1.75,
     outputCostPer1M: 14,
+    cacheReadCostPer1M: 0.175,
     supportsTools: true,
     supportsStreaming: true,
     notes: 'Best for professional use and complex reasoning',
@@ -88,6 +101,7 @@ export const MODELS: ModelDefinition[] = [
     maxOutputTokens: 128000,
     inputCostPer1M: 1.75,
     outputCostPer1M: 14,
+    cacheReadCostPer1M: 0.175,
     supportsTools: true,
     supportsStreaming: true,
     notes: 'Optimized for quick responses',
@@ -101,6 +115,7 @@ export const MODELS: ModelDefinition[] = [
     maxOutputTokens: 128000,
     inputCostPer1M: 21,
     outputCostPer1M: 84,
+    cacheReadCostPer1M: 2.1,
     supportsTools: true,
     supportsStreaming: true,
     notes: 'Supports xhigh reasoning effort',
@@ -114,6 +129,7 @@ export const MODELS: ModelDefinition[] = [
     maxOutputTokens: 128000,
     inputCostPer1M: 1.75,
     outputCostPer1M: 14,
+    cacheReadCostPer1M: 0.175,
     supportsTools: true,
     supportsStreaming: true,
     notes: 'Optimized for agentic coding tasks',
@@ -164,6 +180,51 @@ export function getModelDisplayName(modelId: string): string {
   return model?.name ?? modelId;
 }
 
+/**
+ * Token counts used to price an LLM call. inputTokens includes cached tokens.
+ */
+export interface CostableUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
+}
+
+/**
+ * Get pricing for a model: overrides first, then the model registry.
+ * Returns undefined for models with unknown pricing.
+ */
+export function getModelPricing(
+  modelId: string,
+  overrides?: Record<string, ModelPricing>
+): ModelPricing | undefined {
+  const override = overrides?.[modelId];
+  if (override) return override;
+  const model = getModelById(modelId);
+  if (!model) return undefined;
+  return {
+    inputPer1M: model.inputCostPer1M,
+    outputPer1M: model.outputCostPer1M,
+    cacheReadPer1M: model.cacheReadCostPer1M,
+    cacheWritePer1M: model.cacheWriteCostPer1M,
+  };
+}
+
+/**
+ * Calculate the cost of an LLM call in US dollars
+ */
+export function calculateCost(usage: CostableUsage, pricing: ModelPricing): number {
+  const cacheRead = usage.cacheReadTokens || 0;
+  const cacheWrite = usage.cacheWriteTokens || 0;
+  const uncachedInput = Math.max(0, usage.inputTokens - cacheRead - cacheWrite);
+  return (
+    uncachedInput * pricing.inputPer1M +
+    cacheRead * (pricing.cacheReadPer1M ?? pricing.inputPer1M) +
+    cacheWrite * (pricing.cacheWritePer1M ?? pricing.inputPer1M) +
+    usage.outputTokens * pricing.outputPer1M
+  ) / 1_000_000;
+}
+
 /**
  * Format model info for display
  */
@@ -176,6 +237,12 @@ export function formatModelInfo(model: ModelDefinition): string {
     `Max output: ${(model.maxOutputTokens / 1000).toFixed(0)}K tokens`,
     `Cost: $${model.inputCostPer1M}/1M in, $${model.outputCostPer1M}/1M out`,
   ];
+  if (model.cacheReadCostPer1M !== undefined) {
+    lines.push(
+      `Cache: $${model.cacheReadCostPer1M}/1M read` +
+        (model.cacheWriteCostPer1M !== undefined ? `, $${model.cacheWriteCostPer1M}/1M write` : '')
+    );
+  }
   if (model.notes) {
     lines.push(`Note: ${model.notes}`);
   }
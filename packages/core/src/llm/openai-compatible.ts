@@ -0,0 +1,93 @@
+import type { LLMConfig, LLMProviderConfig } from '@hasna/assistants-shared';
+import { OpenAIClient } from './openai';
+import { ErrorCodes, LLMError } from '../errors';
+
+const DEFAULT_CONTEXT_WINDOW = 128000;
+const DISCOVERY_TIMEOUT_MS = 5000;
+
+/**
+ * Normalize a server URL to its OpenAI API root.
+ * `http://localhost:11434` and `http://localhost:11434/v1/` both become
+ * `http://localhost:11434/v1`.
+ */
+export function normalizeBaseUrl(baseUrl: string): string {
+  const trimmed = baseUrl.trim().replace(/\/+$/, '');
+  return /\/v\d+$/.test(trimmed) ? trimmed : `${trimmed}/v1`;
+}
+
+function resolveApiKey(providerConfig: LLMProviderConfig): string | undefined {
+  if (providerConfig.apiKey) return providerConfig.apiKey;
+  if (providerConfig.apiKeyEnv) return process.env[providerConfig.apiKeyEnv];
+  return undefined;
+}
+
+/**
+ * Create a client for an OpenAI-compatible server (Ollama, vLLM, llama.cpp, ...)
+ */
+export function createOpenAICompatibleClient(
+  config: LLMConfig,
+  providerConfig: LLMProviderConfig
+): OpenAIClient {
+  if (!providerConfig.baseUrl) {
+    throw new LLMError('OpenAI-compatible provider requires a baseUrl', {
+      code: ErrorCodes.LLM_API_ERROR,
+      retryable: false,
+      suggestion: 'Set llm.providers.<id>.baseUrl, e.g. http://localhost:11434/v1',
+    });
+  }
+
+  return new OpenAIClient(config, {
+    baseUrl: normalizeBaseUrl(providerConfig.baseUrl),
+    apiKey: resolveApiKey(providerConfig),
+    headers: providerConfig.headers,
+    contextWindow: providerConfig.contextWindow ?? DEFAULT_CONTEXT_WINDOW,
+  });
+}
+
+/**
+ * List the models served by an OpenAI-compatible server via GET /v1/models
+ */
+export async function listOpenAICompatibleModels(providerConfig: LLMProviderConfig): Promise<string[]> {
+  if (!providerConfig.baseUrl) {
+    return providerConfig.models ?? [];
+  }
+
+  const url = `${normalizeBaseUrl(providerConfig.baseUrl)}/models`;
+  const headers: Record<string, string> = { ...(providerConfig.headers || {}) };
+  const apiKey = resolveApiKey(providerConfig);
+  if (apiKey) {
+    headers.Authorization = `Bearer ${apiKey}`;
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(url, { headers, signal: AbortSignal.timeout(DISCOVERY_TIMEOUT_MS) });
+  } catch (error) {
+    throw new LLMError(`Could not reach ${url}: ${error instanceof Error ? error.message : String(error)}`, {
+      code: ErrorCodes.LLM_API_ERROR,
+      retryable: true,
+      suggestion: 'Check that the model server is running and the baseUrl is correct.',
+    });
+  }
+
+  if (!response.ok) {
+    throw new LLMError(`Model discovery failed: ${url} returned ${response.status}`, {
+      code: ErrorCodes.LLM_API_ERROR,
+      statusCode: response.status,
+      retryable: response.status >= 500,
+    });
+  }
+
+  const body = await response.json().catch(() => null) as { data?: Array<{ id?: unknown }> } | null;
+  if (!body || !Array.isArray(body.data)) {
+    throw new LLMError(`Model discovery failed: ${url} did not return a model list`, {
+      code: ErrorCodes.LLM_INVALID_RESPONSE,
+      retryable: false,
+    });
+  }
+
+  return body.data
+    .map((entry) => entry.id)
+    .filter((id): id is string => typeof id === 'string' && id.length > 0)
+    .sort();
+}
@@ -29,6 +29,17 @@ function loadApiKeyFromSecrets(): string | undefined {
   return undefined;
 }
 
+/**
+ * Connection overrides for OpenAI-compatible servers
+ */
+export interface OpenAIClientOptions {
+  /** Base URL of the API; when set, an API key is optional */
+  baseUrl?: string;
+  apiKey?: string;
+  headers?: Record<string, string>;
+  contextWindow?: number;
+}
+
 /**
  * OpenAI GPT client implementation
  */
@@ -36,9 +47,24 @@ export class OpenAIClient implements LLMClient {
   private client: OpenAI;
   private model: string;
   private maxTokens: number;
+  private contextWindow?: number;
+
+  constructor(config: LLMConfig, options: OpenAIClientOptions = {}) {
+    if (options.baseUrl) {
+      // Local servers (Ollama, vLLM, llama.cpp) usually ignore the key.
+      // Only the provider's own key is sent; config.apiKey belongs to the main provider.
+      this.client = new OpenAI({
+        apiKey: options.apiKey || 'not-needed',
+        baseURL: options.baseUrl,
+        defaultHeaders: options.headers,
+      });
+      this.model = config.model;
+      this.maxTokens = config.maxTokens || 8192;
+      this.contextWindow = options.contextWindow;
+      return;
+    }
 
-  constructor(config: LLMConfig) {
-    const apiKey = config.apiKey || process.env.OPENAI_API_KEY || loadApiKeyFromSecrets();
+    const apiKey = options.apiKey || config.apiKey || process.env.OPENAI_API_KEY || loadApiKeyFromSecrets();
 
     if (!apiKey) {
       throw new Error(
@@ -48,9 +74,10 @@ export class OpenAIClient implements LLMClient {
       );
     }
 
-    this.client = new OpenAI({ apiKey });
+    this.client = new OpenAI({ apiKey, defaultHeaders: options.headers });
     this.model = config.model;
     this.maxTokens = config.maxTokens || 8192;
+    this.contextWindow = options.contextWindow;
   }
 
   getModel(): string {
@@ -196,6 +223,9 @@ export class OpenAIClient implements LLMClient {
    * Get the context window size for the current model
    */
   private getContextWindow(): number {
+    if (this.contextWindow) {
+      return this.contextWindow;
+    }
     // GPT-5.2 models have 400k context
     if (this.model.startsWith('gpt-5.2')) {
       return 400000;
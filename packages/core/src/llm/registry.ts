@@ -0,0 +1,129 @@
+import type { LLMConfig, LLMProviderConfig } from '@hasna/assistants-shared';
+import type { LLMClient } from './client';
+import { getModelsByProvider } from './models';
+
+/**
+ * A provider implementation that can create LLM clients
+ */
+export interface LLMProviderDefinition {
+  /** Provider type ID (e.g. 'anthropic', 'openai-compatible') */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Create a client; providerConfig is the matching `llm.providers` entry, if any */
+  create(config: LLMConfig, providerConfig?: LLMProviderConfig): Promise<LLMClient>;
+  /** List models served by this provider */
+  listModels?(providerConfig?: LLMProviderConfig): Promise<string[]>;
+}
+
+/**
+ * Provider registry - maps provider types to client factories
+ */
+export class LLMProviderRegistry {
+  private providers: Map<string, LLMProviderDefinition> = new Map();
+
+  /**
+   * Register a provider, replacing any existing one with the same ID
+   */
+  register(definition: LLMProviderDefinition): void {
+    this.providers.set(definition.id, definition);
+  }
+
+  /**
+   * Unregister a provider
+   */
+  unregister(id: string): boolean {
+    return this.providers.delete(id);
+  }
+
+  /**
+   * Get a provider by ID
+   */
+  get(id: string): LLMProviderDefinition | undefined {
+    return this.providers.get(id);
+  }
+
+  /**
+   * Check if a provider is registered
+   */
+  has(id: string): boolean {
+    return this.providers.has(id);
+  }
+
+  /**
+   * List registered providers
+   */
+  list(): LLMProviderDefinition[] {
+    return Array.from(this.providers.values());
+  }
+}
+
+/**
+ * Register the providers that ship with assistants
+ */
+export function registerBuiltinProviders(registry: LLMProviderRegistry): void {
+  registry.register({
+    id: 'anthropic',
+    name: 'Anthropic',
+    create: async (config, providerConfig) => {
+      const { AnthropicClient } = await import('./anthropic');
+      return new AnthropicClient(providerConfig?.apiKey ? { ...config, apiKey: providerConfig.apiKey } : config);
+    },
+    listModels: async () => getModelsByProvider('anthropic').map((m) => m.id),
+  });
+
+  registry.register({
+    id: 'openai',
+    name: 'OpenAI',
+    create: async (config, providerConfig) => {
+      const { OpenAIClient } = await import('./openai');
+      return new OpenAIClient(config, {
+        apiKey: providerConfig?.apiKey,
+        headers: providerConfig?.headers,
+      });
+    },
+    listModels: async () => getModelsByProvider('openai').map((m) => m.id),
+  });
+
+  registry.register({
+    id: 'openai-compatible',
+    name: 'OpenAI-compatible',
+    create: async (config, providerConfig) => {
+      const { createOpenAICompatibleClient } = await import('./openai-compatible');
+      return createOpenAICompatibleClient(config, providerConfig ?? { type: 'openai-compatible' });
+    },
+    listModels: async (providerConfig) => {
+      if (providerConfig?.models && providerConfig.models.length > 0) {
+        return providerConfig.models;
+      }
+      const { listOpenAICompatibleModels } = await import('./openai-compatible');
+      return listOpenAICompatibleModels(providerConfig ?? { type: 'openai-compatible' });
+    },
+  });
+
+  registry.register({
+    id: 'replay',
+    name: 'Replay',
+    create: async (config, providerConfig) => {
+      const { ReplayClient, loadReplayScript } = await import('./replay');
+      if (!providerConfig?.script) {
+        throw new Error('Replay provider requires a script path (llm.providers.<id>.script)');
+      }
+      return new ReplayClient(config, loadReplayScript(providerConfig.script));
+    },
+    listModels: async (providerConfig) => providerConfig?.models ?? ['replay'],
+  });
+}
+
+let defaultRegistry: LLMProviderRegistry | null = null;
+
+/**
+ * Get the process-wide provider registry, with built-in providers registered
+ */
+export function getLLMProviderRegistry(): LLMProviderRegistry {
+  if (!defaultRegistry) {
+    defaultRegistry = new LLMProviderRegistry();
+    registerBuiltinProviders(defaultRegistry);
+  }
+  return defaultRegistry;
+}
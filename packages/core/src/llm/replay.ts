@@ -0,0 +1,143 @@
+import { readFileSync } from 'fs';
+import type { Message, Tool, StreamChunk, LLMConfig, TokenUsage } from '@hasna/assistants-shared';
+import type { LLMClient } from './client';
+import { ErrorCodes, LLMError } from '../errors';
+
+/**
+ * One scripted model response
+ */
+export interface ReplayTurn {
+  text?: string;
+  thinking?: string;
+  toolCalls?: Array<{ id?: string; name: string; input?: Record<string, unknown> }>;
+  usage?: { inputTokens: number; outputTokens: number };
+  /** Emit an error chunk instead of a response */
+  error?: string;
+}
+
+export interface ReplayScript {
+  turns: ReplayTurn[];
+  /** Start over from the first turn once the script is exhausted (default: false) */
+  loop?: boolean;
+}
+
+/**
+ * Load and validate a replay script from a JSON file
+ */
+export function loadReplayScript(path: string): ReplayScript {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    throw new LLMError(`Could not read replay script ${path}: ${error instanceof Error ? error.message : String(error)}`, {
+      code: ErrorCodes.LLM_INVALID_RESPONSE,
+      retryable: false,
+    });
+  }
+
+  // A bare array is shorthand for { turns: [...] }
+  const script = (Array.isArray(parsed) ? { turns: parsed } : parsed) as ReplayScript | null;
+  if (!script || !Array.isArray(script.turns)) {
+    throw new LLMError(`Replay script ${path} must contain a "turns" array`, {
+      code: ErrorCodes.LLM_INVALID_RESPONSE,
+      retryable: false,
+    });
+  }
+  return script;
+}
+
+/**
+ * Deterministic LLM client that plays back a scripted conversation.
+ * Each call to chat() yields the next turn, so the agent loop can be
+ * exercised offline.
+ */
+export class ReplayClient implements LLMClient {
+  private model: string;
+  private script: ReplayScript;
+  private position = 0;
+  private calls: Array<{ messages: Message[]; tools?: Tool[]; systemPrompt?: string }> = [];
+
+  constructor(config: LLMConfig, script: ReplayScript) {
+    this.model = config.model;
+    this.script = script;
+  }
+
+  getModel(): string {
+    return this.model;
+  }
+
+  /**
+   * Requests received so far, in order
+   */
+  getCalls(): Array<{ messages: Message[]; tools?: Tool[]; systemPrompt?: string }> {
+    return this.calls;
+  }
+
+  /**
+   * Number of turns not yet played
+   */
+  getRemainingTurns(): number {
+    return Math.max(0, this.script.turns.length - this.position);
+  }
+
+  async *chat(
+    messages: Message[],
+    tools?: Tool[],
+    systemPrompt?: string
+  ): AsyncGenerator<StreamChunk> {
+    const callIndex = this.calls.length;
+    this.calls.push({ messages: [...messages], tools, systemPrompt });
+
+    if (this.position >= this.script.turns.length && this.script.loop && this.script.turns.length > 0) {
+      this.position = 0;
+    }
+    const turn = this.script.turns[this.position];
+    if (!turn) {
+      yield {
+        type: 'error',
+        error: `${ErrorCodes.LLM_INVALID_RESPONSE}: Replay script exhausted after ${this.script.turns.length} turn(s)`,
+      };
+      return;
+    }
+    this.position += 1;
+
+    if (turn.error) {
+      yield { type: 'error', error: turn.error };
+      return;
+    }
+
+    if (turn.thinking) {
+      yield { type: 'thinking', content: turn.thinking };
+      yield { type: 'thinking', thinking: { thinking: turn.thinking } };
+    }
+
+    if (turn.text) {
+      yield { type: 'text', content: turn.text };
+    }
+
+    const toolCalls = turn.toolCalls || [];
+    for (let index = 0; index < toolCalls.length; index++) {
+      const call = toolCalls[index];
+      yield {
+        type: 'tool_use',
+        toolCall: {
+          id: call.id ?? `replay_${callIndex + 1}_${index + 1}`,
+          name: call.name,
+          input: call.input ?? {},
+        },
+      };
+    }
+
+    yield { type: 'done' };
+
+    if (turn.usage) {
+      const usage: TokenUsage = {
+        inputTokens: turn.usage.inputTokens,
+        outputTokens: turn.usage.outputTokens,
+        totalTokens: turn.usage.inputTokens + turn.usage.outputTokens,
+        maxContextTokens: 200000,
+      };
+      yield { type: 'usage', usage };
+    }
+  }
+}
@@ -1,6 +1,9 @@
-import { existsSync, mkdirSync, appendFileSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { existsSync, mkdirSync, appendFileSync, readdirSync, readFileSync } from 'fs';
 import { join } from 'path';
 import { getConfigDir } from './config';
+import { SessionLog, readSessionLogMeta } from './sessions/session-log';
+import { migrateLegacySessionFile, readLegacySessionFile } from './migration/sessions';
+import { indexSavedSession } from './sessions/search';
 
 /**
  * Pattern for safe IDs - only alphanumeric, hyphens, and underscores allowed
@@ -161,11 +164,18 @@ export class Logger {
 
 /**
  * Session storage - saves conversations to ~/.assistants/assistants/{id}/sessions/
+ *
+ * Each session is an append-only JSONL event log (`{id}.jsonl`). Whole-file
+ * `{id}.json` sessions from older versions are migrated on first access.
  */
 export class SessionStorage {
   private sessionsDir: string;
-  private sessionFile: string;
+  private legacyFile: string;
+  private log: SessionLog;
   private sessionId: string;
+  private assistantId: string | null;
+  /** Sessions under a custom base path are not listed, so not searchable either */
+  private searchable: boolean;
 
   constructor(sessionId: string, basePath?: string, assistantId?: string | null) {
     // Validate sessionId to prevent path traversal
@@ -176,13 +186,16 @@ export class SessionStorage {
     }
     this.sessionId = sessionId;
     const root = basePath || getConfigDir();
+    this.searchable = !basePath;
     // Validate assistantId to prevent path traversal - fall back to root sessions dir if invalid
     const safeAssistantId = isValidId(assistantId) ? assistantId : null;
+    this.assistantId = safeAssistantId;
     this.sessionsDir = safeAssistantId
       ? join(root, 'assistants', safeAssistantId, 'sessions')
       : join(root, 'sessions');
     this.ensureDir(this.sessionsDir);
-    this.sessionFile = join(this.sessionsDir, `${sessionId}.json`);
+    this.legacyFile = join(this.sessionsDir, `${sessionId}.json`);
+    this.log = new SessionLog(join(this.sessionsDir, `${sessionId}.jsonl`));
   }
 
   private ensureDir(dir: string) {
@@ -191,16 +204,16 @@ export class SessionStorage {
     }
   }
 
-  save(data: {
-    messages: unknown[];
-    startedAt: string;
-    updatedAt: string;
-    cwd: string;
-  }) {
-    try {
-      writeFileSync(this.sessionFile, JSON.stringify(data, null, 2));
-    } catch {
-      // Ignore write errors
+  /**
+   * Save session data. Only messages added since the last save are written,
+   * and the new messages are added to the session search index.
+   * Throws SessionStorageError if the log cannot be written.
+   */
+  save(data: SessionData): void {
+    SessionStorage.migrateLegacy(this.log, this.legacyFile);
+    this.log.save(data);
+    if (this.searchable) {
+      indexSavedSession(this.sessionId, this.assistantId, data);
     }
   }
 
@@ -212,14 +225,53 @@ export class SessionStorage {
    * Load session data from file
    */
   load(): SessionData | null {
+    return SessionStorage.readSession(this.log, this.legacyFile);
+  }
+
+  /**
+   * Read session data as stored, without migrating a legacy session file
+   */
+  read(): SessionData | null {
+    if (!this.log.exists()) {
+      return existsSync(this.legacyFile) ? readLegacySessionFile(this.legacyFile) : null;
+    }
+    try {
+      return this.log.read().data;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Replay a session log, migrating a legacy session file first if needed
+   */
+  private static readSession(log: SessionLog, legacyFile: string): SessionData | null {
+    const migrated = SessionStorage.migrateLegacy(log, legacyFile);
+    if (!log.exists()) {
+      // Migration failed (e.g. read-only directory); read the legacy file as is
+      return migrated === false ? readLegacySessionFile(legacyFile) : null;
+    }
     try {
-      if (!existsSync(this.sessionFile)) return null;
-      return JSON.parse(readFileSync(this.sessionFile, 'utf-8')) as SessionData;
+      return log.read().data;
     } catch {
       return null;
     }
   }
 
+  /**
+   * Migrate a legacy `{id}.json` session into its log if there is no log yet.
+   * Returns false if a migration was needed but failed.
+   */
+  private static migrateLegacy(log: SessionLog, legacyFile: string): boolean {
+    if (log.exists() || !existsSync(legacyFile)) return true;
+    try {
+      migrateLegacySessionFile(legacyFile);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   private static getActiveAssistantId(): string | null {
     try {
       const activePath = join(getConfigDir(), 'active.json');
@@ -263,22 +315,37 @@ export class SessionStorage {
     if (!existsSync(sessionsDir)) return [];
     const sessions: SavedSessionInfo[] = [];
     const files = readdirSync(sessionsDir);
+    const logged = new Set(files.filter((file) => file.endsWith('.jsonl')).map((file) => file.slice(0, -'.jsonl'.length)));
 
     for (const file of files) {
-      if (!file.endsWith('.json')) continue;
-      try {
-        const filePath = join(sessionsDir, file);
-        const content = JSON.parse(readFileSync(filePath, 'utf-8')) as SessionData;
+      const filePath = join(sessionsDir, file);
+      if (file.endsWith('.jsonl')) {
+        const meta = readSessionLogMeta(filePath);
+        if (!meta) continue;
+        sessions.push({
+          id: file.slice(0, -'.jsonl'.length),
+          cwd: meta.cwd,
+          startedAt: meta.startedAt,
+          updatedAt: meta.updatedAt,
+          messageCount: meta.messageCount,
+          assistantId,
+          parentSessionId: meta.parentSessionId ?? null,
+        });
+      } else if (file.endsWith('.json')) {
+        // Legacy session not migrated yet
+        const id = file.slice(0, -'.json'.length);
+        if (logged.has(id)) continue;
+        const content = readLegacySessionFile(filePath);
+        if (!content) continue;
         sessions.push({
-          id: file.replace('.json', ''),
+          id,
           cwd: content.cwd,
           startedAt: content.startedAt,
           updatedAt: content.updatedAt,
-          messageCount: content.messages?.length || 0,
+          messageCount: content.messages.length,
           assistantId,
+          parentSessionId: content.parentSessionId ?? null,
         });
-      } catch {
-        // Skip invalid files
       }
     }
 
@@ -342,14 +409,10 @@ export class SessionStorage {
       return null;
     }
     const sessionsDir = SessionStorage.resolveSessionsDir(assistantId);
-    const sessionFile = join(sessionsDir, `${sessionId}.json`);
-
-    try {
-      if (!existsSync(sessionFile)) return null;
-      return JSON.parse(readFileSync(sessionFile, 'utf-8')) as SessionData;
-    } catch {
-      return null;
-    }
+    return SessionStorage.readSession(
+      new SessionLog(join(sessionsDir, `${sessionId}.jsonl`)),
+      join(sessionsDir, `${sessionId}.json`)
+    );
   }
 }
 
@@ -361,6 +424,10 @@ export interface SessionData {
   startedAt: string;
   updatedAt: string;
   cwd: string;
+  /** Session this one was forked from */
+  parentSessionId?: string;
+  /** Checkpoint in the parent session the fork starts before */
+  forkedFromCheckpointId?: string;
 }
 
 /**
@@ -373,6 +440,8 @@ export interface SavedSessionInfo {
   updatedAt: string;
   messageCount: number;
   assistantId?: string | null;
+  /** Session this one was forked from */
+  parentSessionId?: string | null;
 }
 
 /**
@@ -0,0 +1,298 @@
+/**
+ * MCP client - JSON-RPC session with one server
+ */
+
+import { ErrorCodes, McpError } from '../errors';
+import type { McpTransport } from './transport';
+import {
+  JSON_RPC_METHOD_NOT_FOUND,
+  MCP_PROTOCOL_VERSION,
+  type JsonRpcId,
+  type JsonRpcMessage,
+  type JsonRpcNotification,
+  type JsonRpcRequest,
+  type JsonRpcResponse,
+  type McpCallToolResult,
+  type McpGetPromptResult,
+  type McpInitializeResult,
+  type McpPrompt,
+  type McpResource,
+  type McpResourceContents,
+  type McpServerCapabilities,
+  type McpServerInfo,
+  type McpToolDefinition,
+} from './types';
+
+export const MCP_CLIENT_INFO = { name: 'hasna-assistants', version: '1.0.0' };
+
+/** Upper bound on list pages, in case a server keeps returning cursors */
+const MAX_LIST_PAGES = 50;
+
+export interface McpRequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+interface PendingRequest {
+  method: string;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+export type McpNotificationHandler = (notification: JsonRpcNotification) => void;
+
+/**
+ * MCP client
+ */
+export class McpClient {
+  private nextId = 1;
+  private pending: Map<JsonRpcId, PendingRequest> = new Map();
+  private notificationHandlers: Set<McpNotificationHandler> = new Set();
+  private closeHandlers: Set<(error?: Error) => void> = new Set();
+  private initializeResult: McpInitializeResult | null = null;
+  private closed = false;
+
+  constructor(
+    private serverName: string,
+    private transport: McpTransport,
+    private defaultTimeoutMs: number = 60000
+  ) {
+    this.transport.onmessage = (message) => this.handleMessage(message);
+    this.transport.onclose = (error) => this.handleClose(error);
+  }
+
+  /**
+   * Start the transport and run the initialize handshake
+   */
+  async connect(options: McpRequestOptions = {}): Promise<McpInitializeResult> {
+    await this.transport.start();
+    const result = await this.request<McpInitializeResult>('initialize', {
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: MCP_CLIENT_INFO,
+    }, options);
+
+    this.initializeResult = result;
+    this.transport.setProtocolVersion?.(result.protocolVersion || MCP_PROTOCOL_VERSION);
+    await this.notify('notifications/initialized');
+    return result;
+  }
+
+  getServerInfo(): McpServerInfo | undefined {
+    return this.initializeResult?.serverInfo;
+  }
+
+  getCapabilities(): McpServerCapabilities {
+    return this.initializeResult?.capabilities ?? {};
+  }
+
+  getInstructions(): string | undefined {
+    return this.initializeResult?.instructions;
+  }
+
+  /**
+   * Listen for server notifications (e.g. notifications/tools/list_changed)
+   */
+  onNotification(handler: McpNotificationHandler): () => void {
+    this.notificationHandlers.add(handler);
+    return () => this.notificationHandlers.delete(handler);
+  }
+
+  /**
+   * Listen for the connection ending on its own
+   */
+  onClose(handler: (error?: Error) => void): () => void {
+    this.closeHandlers.add(handler);
+    return () => this.closeHandlers.delete(handler);
+  }
+
+  async ping(options?: McpRequestOptions): Promise<void> {
+    await this.request('ping', undefined, options);
+  }
+
+  async listTools(options?: McpRequestOptions): Promise<McpToolDefinition[]> {
+    return this.listAll<McpToolDefinition>('tools/list', 'tools', options);
+  }
+
+  async callTool(name: string, args: Record<string, unknown>, options?: McpRequestOptions): Promise<McpCallToolResult> {
+    return this.request<McpCallToolResult>('tools/call', { name, arguments: args }, options);
+  }
+
+  async listResources(options?: McpRequestOptions): Promise<McpResource[]> {
+    return this.listAll<McpResource>('resources/list', 'resources', options);
+  }
+
+  async readResource(uri: string, options?: McpRequestOptions): Promise<McpResourceContents[]> {
+    const result = await this.request<{ contents?: McpResourceContents[] }>('resources/read', { uri }, options);
+    return result.contents ?? [];
+  }
+
+  async listPrompts(options?: McpRequestOptions): Promise<McpPrompt[]> {
+    return this.listAll<McpPrompt>('prompts/list', 'prompts', options);
+  }
+
+  async getPrompt(name: string, args: Record<string, string>, options?: McpRequestOptions): Promise<McpGetPromptResult> {
+    return this.request<McpGetPromptResult>('prompts/get', { name, arguments: args }, options);
+  }
+
+  /**
+   * Send a request and wait for its response
+   */
+  request<T = unknown>(method: string, params?: Record<string, unknown>, options: McpRequestOptions = {}): Promise<T> {
+    if (this.closed) {
+      return Promise.reject(new McpError('Connection is closed', { serverName: this.serverName, code: ErrorCodes.MCP_CONNECTION_FAILED }));
+    }
+
+    const id = this.nextId++;
+    const timeoutMs = options.timeoutMs ?? this.defaultTimeoutMs;
+    const { signal } = options;
+
+    return new Promise<T>((resolve, reject) => {
+      const cleanup = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        this.pending.delete(id);
+      };
+      const cancel = (error: McpError, reason: string) => {
+        cleanup();
+        this.notify('notifications/cancelled', { requestId: id, reason }).catch(() => {});
+        reject(error);
+      };
+      const onAbort = () => cancel(
+        new McpError(`${method} was cancelled`, { serverName: this.serverName, retryable: false }),
+        'Cancelled by client'
+      );
+      const timer = setTimeout(() => cancel(
+        new McpError(`${method} timed out after ${Math.round(timeoutMs / 1000)}s`, {
+          serverName: this.serverName,
+          code: ErrorCodes.MCP_TIMEOUT,
+          retryable: true,
+        }),
+        'Request timed out'
+      ), timeoutMs);
+
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.pending.set(id, {
+        method,
+        resolve: (result) => {
+          cleanup();
+          resolve(result as T);
+        },
+        reject: (error) => {
+          cleanup();
+          reject(error);
+        },
+      });
+
+      const message: JsonRpcRequest = { jsonrpc: '2.0', id, method, ...(params ? { params } : {}) };
+      this.transport.send(message).catch((error) => {
+        this.pending.get(id)?.reject(error instanceof Error ? error : new Error(String(error)));
+      });
+    });
+  }
+
+  /**
+   * Send a notification
+   */
+  async notify(method: string, params?: Record<string, unknown>): Promise<void> {
+    if (this.closed) return;
+    await this.transport.send({ jsonrpc: '2.0', method, ...(params ? { params } : {}) });
+  }
+
+  /**
+   * Close the connection, failing any requests still waiting
+   */
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    this.rejectPending(new McpError('Connection closed', { serverName: this.serverName, code: ErrorCodes.MCP_CONNECTION_FAILED }));
+    await this.transport.close();
+  }
+
+  isClosed(): boolean {
+    return this.closed;
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  private async listAll<T>(method: string, key: string, options?: McpRequestOptions): Promise<T[]> {
+    const items: T[] = [];
+    let cursor: string | undefined;
+    for (let page = 0; page < MAX_LIST_PAGES; page++) {
+      const result = await this.request<Record<string, unknown>>(method, cursor ? { cursor } : undefined, options);
+      const pageItems = result[key];
+      if (Array.isArray(pageItems)) items.push(...(pageItems as T[]));
+      cursor = typeof result.nextCursor === 'string' && result.nextCursor ? result.nextCursor : undefined;
+      if (!cursor) break;
+    }
+    return items;
+  }
+
+  private handleMessage(message: JsonRpcMessage): void {
+    if ('id' in message && message.id !== null && !('method' in message)) {
+      const response = message as JsonRpcResponse;
+      const pending = this.pending.get(response.id as JsonRpcId);
+      if (!pending) return;
+      if (response.error) {
+        pending.reject(new McpError(`${pending.method}: ${response.error.message}`, {
+          serverName: this.serverName,
+          rpcCode: response.error.code,
+        }));
+      } else {
+        pending.resolve(response.result ?? {});
+      }
+      return;
+    }
+
+    if ('method' in message && 'id' in message) {
+      // Requests from the server; only ping is supported
+      const request = message as JsonRpcRequest;
+      const reply: JsonRpcResponse = request.method === 'ping'
+        ? { jsonrpc: '2.0', id: request.id, result: {} }
+        : { jsonrpc: '2.0', id: request.id, error: { code: JSON_RPC_METHOD_NOT_FOUND, message: `Method not supported: ${request.method}` } };
+      this.transport.send(reply).catch(() => {});
+      return;
+    }
+
+    if ('method' in message) {
+      for (const handler of this.notificationHandlers) {
+        try {
+          handler(message as JsonRpcNotification);
+        } catch {
+          // Ignore handler errors
+        }
+      }
+    }
+  }
+
+  private handleClose(error?: Error): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.rejectPending(new McpError(error?.message || 'Connection closed', {
+      serverName: this.serverName,
+      code: ErrorCodes.MCP_CONNECTION_FAILED,
+      retryable: true,
+    }));
+    for (const handler of this.closeHandlers) {
+      try {
+        handler(error);
+      } catch {
+        // Ignore handler errors
+      }
+    }
+  }
+
+  private rejectPending(error: Error): void {
+    for (const pending of Array.from(this.pending.values())) {
+      pending.reject(error);
+    }
+    this.pending.clear();
+  }
+}
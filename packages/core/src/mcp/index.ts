@@ -0,0 +1,64 @@
+/**
+ * MCP module exports
+ * Model Context Protocol client: connects stdio and streamable HTTP servers
+ * and exposes their tools, resources and prompts. The server offers the
+ * assistant itself to MCP clients.
+ */
+
+// Manager
+export { McpManager, getMcpToolName, matchesToolPatterns, formatMcpContent, formatResourceContents } from './manager';
+export type { McpManagerOptions } from './manager';
+
+// Client
+export { McpClient, MCP_CLIENT_INFO } from './client';
+export type { McpRequestOptions, McpNotificationHandler } from './client';
+
+// Server
+export {
+  McpServer,
+  askAssistantTool,
+  createAssistantMcpTools,
+  createAssistantMcpServer,
+  ASK_ASSISTANT_TOOL_NAME,
+} from './server';
+export type { McpServedTool, McpServerOptions } from './server';
+
+// Transports
+export { StdioTransport, HttpTransport, createMcpTransport, getMcpTransportType } from './transport';
+export type { McpTransport } from './transport';
+
+// Tools
+export {
+  mcpTools,
+  mcpListResourcesTool,
+  mcpReadResourceTool,
+  createMcpToolExecutors,
+  registerMcpTools,
+} from './tools';
+
+// Types
+export { MCP_PROTOCOL_VERSION } from './types';
+export type {
+  JsonRpcId,
+  JsonRpcMessage,
+  JsonRpcRequest,
+  JsonRpcNotification,
+  JsonRpcResponse,
+  McpServerInfo,
+  McpServerCapabilities,
+  McpInitializeResult,
+  McpToolDefinition,
+  McpContent,
+  McpCallToolResult,
+  McpResource,
+  McpResourceContents,
+  McpPrompt,
+  McpPromptArgument,
+  McpGetPromptResult,
+  McpServerStatus,
+  McpTransportType,
+  McpServerState,
+  McpManagerEvent,
+  McpManagerEventType,
+  McpManagerEventListener,
+} from './types';
@@ -0,0 +1,653 @@
+/**
+ * McpManager - connects configured MCP servers and exposes them to the
+ * assistant: tools are registered in the ToolRegistry as
+ * `mcp_<server>_<tool>`, prompts become skills and resources can be read
+ * into context.
+ */
+
+import type { McpConfig, McpServerConfig, Skill, SkillArgument, Tool } from '@hasna/assistants-shared';
+import type { ToolExecutor, ToolRegistry } from '../tools/registry';
+import { ErrorCodes, McpError, ToolExecutionError } from '../errors';
+import { formatSkillArgumentHint, parseSkillArgumentSchema } from '../skills/arguments';
+import { McpClient } from './client';
+import { createMcpTransport, getMcpTransportType, type McpTransport } from './transport';
+import type {
+  McpCallToolResult,
+  McpContent,
+  McpManagerEvent,
+  McpManagerEventListener,
+  McpManagerEventType,
+  McpPrompt,
+  McpResource,
+  McpResourceContents,
+  McpServerState,
+  McpToolDefinition,
+} from './types';
+
+export interface McpManagerOptions {
+  config: McpConfig;
+  /** Project directory; default working directory for stdio servers */
+  cwd: string;
+  /** Transport factory (tests) */
+  createTransport?: (name: string, config: McpServerConfig, cwd: string) => McpTransport;
+}
+
+interface ManagedServer {
+  config: McpServerConfig;
+  state: McpServerState;
+  client: McpClient | null;
+  /** MCP tool name by registered tool name */
+  toolNames: Map<string, string>;
+  connecting: Promise<void> | null;
+}
+
+const DEFAULT_REQUEST_TIMEOUT_MS = 60000;
+const MAX_TOOL_NAME_LENGTH = 64;
+const MAX_INSTRUCTIONS_LENGTH = 1000;
+
+/**
+ * Make a name safe for use in a tool name
+ */
+function sanitizeName(name: string): string {
+  return name.replace(/[^A-Za-z0-9_-]/g, '_');
+}
+
+/**
+ * Registered tool name for a server tool
+ */
+export function getMcpToolName(server: string, tool: string): string {
+  return `mcp_${sanitizeName(server)}_${sanitizeName(tool)}`.slice(0, MAX_TOOL_NAME_LENGTH);
+}
+
+/**
+ * Whether a tool name matches any of the names or globs
+ */
+export function matchesToolPatterns(name: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => {
+    const regex = new RegExp(`^${pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+    return regex.test(name);
+  });
+}
+
+/**
+ * Render MCP content blocks as text
+ */
+export function formatMcpContent(content: McpContent[] | undefined): string {
+  const parts: string[] = [];
+  for (const block of content ?? []) {
+    switch (block.type) {
+      case 'text':
+        parts.push(block.text);
+        break;
+      case 'image':
+      case 'audio':
+        parts.push(`[${block.type}: ${block.mimeType}, ${Math.round((block.data.length * 3) / 4)} bytes]`);
+        break;
+      case 'resource':
+        parts.push(formatResourceContents([block.resource]));
+        break;
+      case 'resource_link':
+        parts.push(`[resource: ${block.uri}${block.name ? ` (${block.name})` : ''}]`);
+        break;
+    }
+  }
+  return parts.join('\n');
+}
+
+/**
+ * Render resource contents as text
+ */
+export function formatResourceContents(contents: McpResourceContents[]): string {
+  return contents
+    .map((item) => item.text ?? `[binary ${item.mimeType || 'content'} at ${item.uri}, ${Math.round(((item.blob?.length ?? 0) * 3) / 4)} bytes]`)
+    .join('\n\n');
+}
+
+function formatToolResult(result: McpCallToolResult): string {
+  const text = formatMcpContent(result.content);
+  if (text) return text;
+  if (result.structuredContent !== undefined) {
+    return JSON.stringify(result.structuredContent, null, 2);
+  }
+  return '(no output)';
+}
+
+/**
+ * Convert an MCP tool to a registry tool
+ */
+function toTool(server: string, name: string, definition: McpToolDefinition): Tool {
+  const schema = definition.inputSchema ?? {};
+  const description = definition.description?.trim() || definition.annotations?.title || definition.name;
+  return {
+    name,
+    description: `[${server}] ${description}`,
+    parameters: {
+      type: 'object',
+      properties: (schema.properties ?? {}) as Tool['parameters']['properties'],
+      required: Array.isArray(schema.required) ? schema.required : undefined,
+    },
+  };
+}
+
+/**
+ * MCP server manager
+ */
+export class McpManager {
+  private servers: Map<string, ManagedServer> = new Map();
+  private registries: Set<ToolRegistry> = new Set();
+  private listeners: Set<McpManagerEventListener> = new Set();
+  private config: McpConfig;
+  private cwd: string;
+  private createTransport: NonNullable<McpManagerOptions['createTransport']>;
+
+  constructor(options: McpManagerOptions) {
+    this.config = options.config;
+    this.cwd = options.cwd;
+    this.createTransport = options.createTransport ?? createMcpTransport;
+
+    for (const [name, config] of Object.entries(options.config.servers ?? {})) {
+      const transport = getMcpTransportType(config);
+      this.servers.set(name, {
+        config,
+        client: null,
+        toolNames: new Map(),
+        connecting: null,
+        state: {
+          name,
+          transport,
+          target: transport === 'http' ? config.url ?? '' : [config.command, ...(config.args ?? [])].filter(Boolean).join(' '),
+          status: config.enabled === false ? 'disabled' : 'disconnected',
+          tools: [],
+          resources: [],
+          prompts: [],
+        },
+      });
+    }
+  }
+
+  /**
+   * Register tools in a registry; tools of servers connected later are
+   * registered as they come up. Several registries (e.g. subassistant loops)
+   * can share one manager.
+   */
+  attachRegistry(registry: ToolRegistry): void {
+    this.registries.add(registry);
+    for (const [name, server] of this.servers) {
+      if (server.state.status === 'connected') {
+        void this.refreshTools(name);
+      }
+    }
+  }
+
+  /**
+   * Remove this manager's tools from a registry and stop updating it
+   */
+  detachRegistry(registry: ToolRegistry): void {
+    if (!this.registries.delete(registry)) return;
+    for (const server of this.servers.values()) {
+      for (const toolName of server.toolNames.keys()) {
+        registry.unregister(toolName);
+      }
+    }
+  }
+
+  /**
+   * Add event listener
+   */
+  addEventListener(listener: McpManagerEventListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Get configured server names
+   */
+  getServerNames(): string[] {
+    return Array.from(this.servers.keys());
+  }
+
+  /**
+   * Get a snapshot of every configured server
+   */
+  getServers(): McpServerState[] {
+    return Array.from(this.servers.values()).map((server) => this.snapshot(server));
+  }
+
+  /**
+   * Get a snapshot of one server
+   */
+  getServer(name: string): McpServerState | null {
+    const server = this.servers.get(name);
+    return server ? this.snapshot(server) : null;
+  }
+
+  /**
+   * Connect every enabled server. Failures are recorded on the server state.
+   */
+  async connectAll(): Promise<void> {
+    if (this.config.enabled === false) return;
+    const names = Array.from(this.servers.entries())
+      .filter(([, server]) => server.config.enabled !== false)
+      .map(([name]) => name);
+    await Promise.all(names.map((name) => this.connect(name).catch(() => {})));
+  }
+
+  /**
+   * Connect a server
+   */
+  async connect(name: string): Promise<void> {
+    const server = this.requireServer(name);
+    if (server.connecting) return server.connecting;
+    if (server.client && !server.client.isClosed()) return;
+
+    server.connecting = this.doConnect(name, server).finally(() => {
+      server.connecting = null;
+    });
+    return server.connecting;
+  }
+
+  /**
+   * Disconnect a server and unregister its tools
+   */
+  async disconnect(name: string): Promise<void> {
+    const server = this.requireServer(name);
+    const client = server.client;
+    server.client = null;
+    this.unregisterTools(server);
+    server.state = {
+      ...server.state,
+      status: server.config.enabled === false ? 'disabled' : 'disconnected',
+      error: undefined,
+      resources: [],
+      prompts: [],
+      connectedAt: undefined,
+    };
+    this.emit('server:status', name);
+    this.emit('server:prompts', name);
+    await client?.close().catch(() => {});
+  }
+
+  /**
+   * Reconnect a server
+   */
+  async reconnect(name: string): Promise<void> {
+    await this.disconnect(name);
+    await this.connect(name);
+  }
+
+  /**
+   * Ping connected servers and record their latency. A server that does not
+   * answer is marked as errored.
+   */
+  async checkHealth(name?: string): Promise<McpServerState[]> {
+    const names = name ? [name] : Array.from(this.servers.keys());
+    await Promise.all(names.map(async (serverName) => {
+      const server = this.requireServer(serverName);
+      if (!server.client || server.state.status !== 'connected') return;
+      const started = Date.now();
+      try {
+        await server.client.ping({ timeoutMs: Math.min(this.getTimeout(server), 10000) });
+        server.state = { ...server.state, latencyMs: Date.now() - started, lastCheckedAt: Date.now() };
+      } catch (error) {
+        server.state = { ...server.state, lastCheckedAt: Date.now() };
+        this.markFailed(serverName, server, error);
+      }
+    }));
+    return names.map((serverName) => this.snapshot(this.requireServer(serverName)));
+  }
+
+  /**
+   * Call a server tool by its MCP name
+   */
+  async callTool(name: string, tool: string, args: Record<string, unknown>, signal?: AbortSignal): Promise<McpCallToolResult> {
+    const { server, client } = this.requireConnected(name);
+    return client.callTool(tool, args, { signal, timeoutMs: this.getTimeout(server) });
+  }
+
+  /**
+   * List resources, optionally for one server
+   */
+  listResources(name?: string): Array<McpResource & { server: string }> {
+    const resources: Array<McpResource & { server: string }> = [];
+    for (const [serverName, server] of this.servers) {
+      if (name && serverName !== name) continue;
+      for (const resource of server.state.resources) {
+        resources.push({ ...resource, server: serverName });
+      }
+    }
+    return resources;
+  }
+
+  /**
+   * Read a resource from a server
+   */
+  async readResource(name: string, uri: string, signal?: AbortSignal): Promise<McpResourceContents[]> {
+    const { server, client } = this.requireConnected(name);
+    return client.readResource(uri, { signal, timeoutMs: this.getTimeout(server) });
+  }
+
+  /**
+   * Render a server prompt as text
+   */
+  async renderPrompt(name: string, prompt: string, args: Record<string, string>): Promise<string> {
+    const { server, client } = this.requireConnected(name);
+    const result = await client.getPrompt(prompt, args, { timeoutMs: this.getTimeout(server) });
+    return result.messages
+      .map((message) => {
+        const text = formatMcpContent([message.content]);
+        return message.role === 'assistant' ? `Assistant: ${text}` : text;
+      })
+      .join('\n\n');
+  }
+
+  /**
+   * Skills for the prompts of connected servers, named `<server>:<prompt>`
+   */
+  getPromptSkills(): Skill[] {
+    if (this.config.promptsAsSkills === false) return [];
+    const skills: Skill[] = [];
+    for (const [serverName, server] of this.servers) {
+      if (server.state.status !== 'connected') continue;
+      for (const prompt of server.state.prompts) {
+        skills.push(this.toSkill(serverName, prompt));
+      }
+    }
+    return skills;
+  }
+
+  /**
+   * System prompt section describing connected servers
+   */
+  buildPromptSection(): string | null {
+    const lines: string[] = [];
+    let hasResources = false;
+    for (const [name, server] of this.servers) {
+      const { state } = server;
+      if (state.status !== 'connected') continue;
+      const details: string[] = [];
+      if (state.tools.length > 0) details.push(`${state.tools.length} tools (${getMcpToolName(name, '')}*)`);
+      if (state.resources.length > 0) details.push(`${state.resources.length} resources`);
+      if (state.prompts.length > 0 && this.config.promptsAsSkills !== false) details.push(`${state.prompts.length} prompts (/${name}:<prompt>)`);
+      lines.push(`- ${name}${state.serverInfo?.name && state.serverInfo.name !== name ? ` (${state.serverInfo.name})` : ''}: ${details.join(', ') || 'connected'}`);
+      if (state.instructions?.trim()) {
+        lines.push(`  Instructions: ${state.instructions.trim().slice(0, MAX_INSTRUCTIONS_LENGTH)}`);
+      }
+      hasResources ||= state.resources.length > 0;
+    }
+    if (lines.length === 0) return null;
+    if (hasResources) {
+      lines.push('List resources with mcp_list_resources and read them with mcp_read_resource.');
+    }
+    return `## MCP Servers\n${lines.join('\n')}`;
+  }
+
+  /**
+   * Disconnect every server
+   */
+  async shutdown(): Promise<void> {
+    await Promise.all(Array.from(this.servers.keys()).map((name) => this.disconnect(name).catch(() => {})));
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  private async doConnect(name: string, server: ManagedServer): Promise<void> {
+    server.state = { ...server.state, status: 'connecting', error: undefined };
+    this.emit('server:status', name);
+
+    let client: McpClient;
+    try {
+      client = new McpClient(name, this.createTransport(name, server.config, this.cwd), this.getTimeout(server));
+    } catch (error) {
+      this.markFailed(name, server, error);
+      throw error;
+    }
+
+    try {
+      const started = Date.now();
+      const result = await client.connect({ timeoutMs: this.getTimeout(server) });
+      server.client = client;
+      server.state = {
+        ...server.state,
+        status: 'connected',
+        serverInfo: result.serverInfo,
+        instructions: result.instructions,
+        connectedAt: Date.now(),
+        latencyMs: Date.now() - started,
+        lastCheckedAt: Date.now(),
+      };
+    } catch (error) {
+      await client.close().catch(() => {});
+      this.markFailed(name, server, error);
+      throw error;
+    }
+
+    client.onClose((error) => {
+      if (server.client !== client) return;
+      server.client = null;
+      this.markFailed(name, server, error ?? new Error('Connection closed'));
+    });
+    client.onNotification((notification) => {
+      if (notification.method === 'notifications/tools/list_changed') {
+        void this.refreshTools(name);
+      } else if (notification.method === 'notifications/prompts/list_changed') {
+        void this.refreshPrompts(name);
+      } else if (notification.method === 'notifications/resources/list_changed') {
+        void this.refreshResources(name);
+      }
+    });
+
+    const capabilities = client.getCapabilities();
+    await Promise.all([
+      capabilities.tools ? this.refreshTools(name) : Promise.resolve(),
+      capabilities.resources ? this.refreshResources(name) : Promise.resolve(),
+      capabilities.prompts ? this.refreshPrompts(name) : Promise.resolve(),
+    ]);
+    this.emit('server:status', name);
+  }
+
+  private async refreshTools(name: string): Promise<void> {
+    const server = this.requireServer(name);
+    const client = server.client;
+    if (!client) return;
+
+    let definitions: McpToolDefinition[];
+    try {
+      definitions = await client.listTools({ timeoutMs: this.getTimeout(server) });
+    } catch (error) {
+      server.state = { ...server.state, error: `Could not list tools: ${error instanceof Error ? error.message : String(error)}` };
+      this.emit('server:tools', name);
+      return;
+    }
+
+    this.unregisterTools(server);
+    const include = server.config.includeTools;
+    const exclude = server.config.excludeTools ?? [];
+    for (const definition of definitions) {
+      if (include && include.length > 0 && !matchesToolPatterns(definition.name, include)) continue;
+      if (matchesToolPatterns(definition.name, exclude)) continue;
+
+      const toolName = getMcpToolName(name, definition.name);
+      if (server.toolNames.has(toolName)) continue;
+      // Never shadow a built-in or another server's tool
+      const registries = Array.from(this.registries);
+      if (registries.some((registry) => registry.hasTool(toolName))) continue;
+      for (const registry of registries) {
+        registry.register(toTool(name, toolName, definition), this.createToolExecutor(name, toolName, definition));
+      }
+      server.toolNames.set(toolName, definition.name);
+    }
+    server.state = { ...server.state, tools: Array.from(server.toolNames.keys()) };
+    this.emit('server:tools', name);
+  }
+
+  private async refreshResources(name: string): Promise<void> {
+    const server = this.requireServer(name);
+    if (!server.client) return;
+    try {
+      const resources = await server.client.listResources({ timeoutMs: this.getTimeout(server) });
+      server.state = { ...server.state, resources };
+    } catch {
+      server.state = { ...server.state, resources: [] };
+    }
+    this.emit('server:status', name);
+  }
+
+  private async refreshPrompts(name: string): Promise<void> {
+    const server = this.requireServer(name);
+    if (!server.client) return;
+    try {
+      const prompts = await server.client.listPrompts({ timeoutMs: this.getTimeout(server) });
+      server.state = { ...server.state, prompts };
+    } catch {
+      server.state = { ...server.state, prompts: [] };
+    }
+    this.emit('server:prompts', name);
+  }
+
+  private createToolExecutor(server: string, toolName: string, definition: McpToolDefinition): ToolExecutor {
+    // The loop adds cwd to every tool call; only pass it on if the tool asks for it
+    const acceptsCwd = Boolean(definition.inputSchema?.properties && 'cwd' in definition.inputSchema.properties);
+
+    return async (input, signal) => {
+      const args = { ...input };
+      if (!acceptsCwd) delete args.cwd;
+
+      let result: McpCallToolResult;
+      try {
+        result = await this.callTool(server, definition.name, args, signal);
+      } catch (error) {
+        const mcpError = error instanceof McpError ? error : null;
+        throw new ToolExecutionError(error instanceof Error ? error.message : String(error), {
+          toolName,
+          toolInput: input,
+          code: mcpError?.code === ErrorCodes.MCP_TIMEOUT ? ErrorCodes.TOOL_TIMEOUT : ErrorCodes.TOOL_EXECUTION_FAILED,
+          recoverable: true,
+          retryable: mcpError?.retryable ?? false,
+          suggestion: mcpError?.code === ErrorCodes.MCP_CONNECTION_FAILED
+            ? `Check the server with /mcp and reconnect with /mcp reconnect ${server}.`
+            : mcpError?.suggestion,
+        });
+      }
+
+      const output = formatToolResult(result);
+      if (result.isError) {
+        throw new ToolExecutionError(output, {
+          toolName,
+          toolInput: input,
+          recoverable: true,
+          retryable: false,
+        });
+      }
+      return output;
+    };
+  }
+
+  private toSkill(server: string, prompt: McpPrompt): Skill {
+    let args: SkillArgument[] | undefined;
+    try {
+      args = parseSkillArgumentSchema((prompt.arguments ?? []).map((argument) => ({
+        name: argument.name,
+        type: 'string',
+        required: argument.required === true,
+        ...(argument.description ? { description: argument.description } : {}),
+      })));
+    } catch {
+      // Argument names the schema can't express; pass none
+      args = undefined;
+    }
+
+    return {
+      name: `${server}:${prompt.name}`,
+      description: prompt.description || `Prompt from the ${server} MCP server`,
+      argumentHint: args && args.length > 0 ? formatSkillArgumentHint(args) : undefined,
+      arguments: args,
+      // Prompts are user-controlled in MCP
+      disableModelInvocation: true,
+      content: '',
+      contentLoaded: true,
+      filePath: `mcp://${server}/prompts/${prompt.name}`,
+      render: async (values) => {
+        const stringValues: Record<string, string> = {};
+        for (const [key, value] of Object.entries(values)) {
+          if (value !== undefined && value !== '') stringValues[key] = String(value);
+        }
+        return this.renderPrompt(server, prompt.name, stringValues);
+      },
+    };
+  }
+
+  private unregisterTools(server: ManagedServer): void {
+    for (const registry of this.registries) {
+      for (const toolName of server.toolNames.keys()) {
+        registry.unregister(toolName);
+      }
+    }
+    server.toolNames.clear();
+    server.state = { ...server.state, tools: [] };
+  }
+
+  private markFailed(name: string, server: ManagedServer, error: unknown): void {
+    const client = server.client;
+    server.client = null;
+    this.unregisterTools(server);
+    server.state = {
+      ...server.state,
+      status: 'error',
+      error: error instanceof Error ? error.message : String(error),
+      connectedAt: undefined,
+    };
+    this.emit('server:status', name);
+    this.emit('server:prompts', name);
+    client?.close().catch(() => {});
+  }
+
+  private requireServer(name: string): ManagedServer {
+    const server = this.servers.get(name);
+    if (!server) {
+      throw new McpError(`Unknown MCP server: ${name}`, {
+        serverName: name,
+        recoverable: false,
+        suggestion: `Configured servers: ${this.getServerNames().join(', ') || '(none)'}`,
+      });
+    }
+    return server;
+  }
+
+  private requireConnected(name: string): { server: ManagedServer; client: McpClient } {
+    const server = this.requireServer(name);
+    if (!server.client || server.state.status !== 'connected') {
+      throw new McpError(`MCP server "${name}" is not connected${server.state.error ? `: ${server.state.error}` : ''}`, {
+        serverName: name,
+        code: ErrorCodes.MCP_CONNECTION_FAILED,
+        retryable: true,
+      });
+    }
+    return { server, client: server.client };
+  }
+
+  private getTimeout(server: ManagedServer): number {
+    return server.config.timeoutMs ?? this.config.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+  }
+
+  private snapshot(server: ManagedServer): McpServerState {
+    return {
+      ...server.state,
+      tools: [...server.state.tools],
+      resources: [...server.state.resources],
+      prompts: [...server.state.prompts],
+    };
+  }
+
+  private emit(type: McpManagerEventType, server: string): void {
+    const event: McpManagerEvent = { type, server, timestamp: Date.now() };
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch {
+        // Ignore listener errors
+      }
+    }
+  }
+}
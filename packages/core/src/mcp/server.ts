@@ -0,0 +1,311 @@
+/**
+ * MCP server - offers the assistant to MCP clients over stdio
+ */
+
+import type { McpServeConfig, Tool } from '@hasna/assistants-shared';
+import type { EmbeddedClient } from '../client';
+import { MCP_CLIENT_INFO } from './client';
+import { matchesToolPatterns } from './manager';
+import {
+  JSON_RPC_INTERNAL_ERROR,
+  JSON_RPC_INVALID_PARAMS,
+  JSON_RPC_INVALID_REQUEST,
+  JSON_RPC_METHOD_NOT_FOUND,
+  JSON_RPC_PARSE_ERROR,
+  MCP_PROTOCOL_VERSION,
+  type JsonRpcId,
+  type JsonRpcRequest,
+  type JsonRpcResponse,
+  type McpCallToolResult,
+  type McpServerInfo,
+  type McpToolDefinition,
+} from './types';
+
+/** Protocol versions the server can speak; the newest is preferred */
+const SUPPORTED_PROTOCOL_VERSIONS = [MCP_PROTOCOL_VERSION, '2024-11-05'];
+
+/** Interactive tools that need someone at the terminal */
+const UNSERVABLE_TOOLS = new Set(['ask_user']);
+
+export const ASK_ASSISTANT_TOOL_NAME = 'ask_assistant';
+
+/**
+ * ask_assistant - hand a request to the whole assistant
+ */
+export const askAssistantTool: Tool = {
+  name: ASK_ASSISTANT_TOOL_NAME,
+  description: 'Send a request to the assistant. It works with its own tools, memory, skills and connectors, keeps the conversation across calls, and returns its reply.',
+  parameters: {
+    type: 'object',
+    properties: {
+      prompt: {
+        type: 'string',
+        description: 'The question or task for the assistant',
+      },
+    },
+    required: ['prompt'],
+  },
+};
+
+export interface McpServedTool {
+  tool: Tool;
+  execute: (args: Record<string, unknown>, signal: AbortSignal) => Promise<McpCallToolResult>;
+}
+
+export interface McpServerOptions {
+  tools: McpServedTool[];
+  serverInfo?: McpServerInfo;
+  instructions?: string;
+}
+
+class McpRequestError extends Error {
+  constructor(public rpcCode: number, message: string) {
+    super(message);
+  }
+}
+
+function textResult(text: string, isError = false): McpCallToolResult {
+  return { content: [{ type: 'text', text }], isError };
+}
+
+function toDefinition(tool: Tool): McpToolDefinition {
+  return {
+    name: tool.name,
+    description: tool.description,
+    inputSchema: {
+      type: 'object',
+      properties: tool.parameters.properties,
+      ...(tool.parameters.required?.length ? { required: tool.parameters.required } : {}),
+    },
+  };
+}
+
+/**
+ * MCP server speaking newline-delimited JSON-RPC
+ */
+export class McpServer {
+  private tools: Map<string, McpServedTool>;
+  private inFlight: Map<JsonRpcId, AbortController> = new Map();
+
+  constructor(private options: McpServerOptions) {
+    this.tools = new Map(options.tools.map((served) => [served.tool.name, served]));
+  }
+
+  getToolNames(): string[] {
+    return Array.from(this.tools.keys());
+  }
+
+  /**
+   * Read requests from input until it ends, writing one response per line.
+   * Resolves once every request has been answered.
+   */
+  async serve(input: AsyncIterable<Uint8Array | string>, write: (line: string) => void): Promise<void> {
+    const decoder = new TextDecoder();
+    const pending = new Set<Promise<void>>();
+    let buffer = '';
+
+    const handleLine = (line: string) => {
+      if (!line.trim()) return;
+      let message: unknown;
+      try {
+        message = JSON.parse(line);
+      } catch {
+        write(JSON.stringify({ jsonrpc: '2.0', id: null, error: { code: JSON_RPC_PARSE_ERROR, message: 'Parse error' } }));
+        return;
+      }
+      const task = this.handleMessage(message).then((response) => {
+        if (response) write(JSON.stringify(response));
+      });
+      pending.add(task);
+      task.finally(() => pending.delete(task));
+    };
+
+    for await (const chunk of input) {
+      buffer += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+      let index: number;
+      while ((index = buffer.indexOf('\n')) >= 0) {
+        handleLine(buffer.slice(0, index));
+        buffer = buffer.slice(index + 1);
+      }
+    }
+    handleLine(buffer);
+
+    // Answer what was already asked before returning
+    await Promise.allSettled(Array.from(pending));
+  }
+
+  /**
+   * Handle one message; resolves with the response, or null for notifications
+   */
+  async handleMessage(message: unknown): Promise<JsonRpcResponse | null> {
+    if (!message || typeof message !== 'object' || Array.isArray(message)) {
+      return { jsonrpc: '2.0', id: null, error: { code: JSON_RPC_INVALID_REQUEST, message: 'Invalid request' } };
+    }
+    const record = message as Record<string, unknown>;
+    if (typeof record.method !== 'string') {
+      // Responses; the server never sends requests
+      return null;
+    }
+
+    if (record.id === undefined || record.id === null) {
+      if (record.method === 'notifications/cancelled') {
+        const requestId = (record.params as { requestId?: JsonRpcId } | undefined)?.requestId;
+        if (requestId !== undefined) this.inFlight.get(requestId)?.abort();
+      }
+      return null;
+    }
+
+    const request = record as unknown as JsonRpcRequest;
+    try {
+      const result = await this.dispatch(request);
+      return { jsonrpc: '2.0', id: request.id, result };
+    } catch (error) {
+      return {
+        jsonrpc: '2.0',
+        id: request.id,
+        error: {
+          code: error instanceof McpRequestError ? error.rpcCode : JSON_RPC_INTERNAL_ERROR,
+          message: error instanceof Error ? error.message : String(error),
+        },
+      };
+    }
+  }
+
+  private async dispatch(request: JsonRpcRequest): Promise<unknown> {
+    const params = request.params ?? {};
+    switch (request.method) {
+      case 'initialize': {
+        const requested = typeof params.protocolVersion === 'string' ? params.protocolVersion : '';
+        return {
+          protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : MCP_PROTOCOL_VERSION,
+          capabilities: { tools: { listChanged: false } },
+          serverInfo: this.options.serverInfo ?? MCP_CLIENT_INFO,
+          ...(this.options.instructions ? { instructions: this.options.instructions } : {}),
+        };
+      }
+      case 'ping':
+        return {};
+      case 'tools/list':
+        return { tools: Array.from(this.tools.values()).map((served) => toDefinition(served.tool)) };
+      case 'tools/call':
+        return this.callTool(request.id, params);
+      default:
+        throw new McpRequestError(JSON_RPC_METHOD_NOT_FOUND, `Method not found: ${request.method}`);
+    }
+  }
+
+  private async callTool(id: JsonRpcId, params: Record<string, unknown>): Promise<McpCallToolResult> {
+    const name = typeof params.name === 'string' ? params.name : '';
+    const served = this.tools.get(name);
+    if (!served) {
+      throw new McpRequestError(JSON_RPC_INVALID_PARAMS, `Unknown tool: ${name || '(none)'}`);
+    }
+    const args = params.arguments && typeof params.arguments === 'object' && !Array.isArray(params.arguments)
+      ? params.arguments as Record<string, unknown>
+      : {};
+
+    const controller = new AbortController();
+    this.inFlight.set(id, controller);
+    try {
+      return await served.execute(args, controller.signal);
+    } catch (error) {
+      return textResult(error instanceof Error ? error.message : String(error), true);
+    } finally {
+      this.inFlight.delete(id);
+    }
+  }
+}
+
+/**
+ * Tools offering an assistant session to MCP clients: the selected registry
+ * tools plus ask_assistant. Calls run one at a time, in the order received,
+ * because they share the session.
+ */
+export async function createAssistantMcpTools(
+  client: EmbeddedClient,
+  options: McpServeConfig = {}
+): Promise<McpServedTool[]> {
+  let queue: Promise<unknown> = Promise.resolve();
+  const serialize = <T>(run: () => Promise<T>): Promise<T> => {
+    const next = queue.then(run, run);
+    queue = next.catch(() => {});
+    return next;
+  };
+
+  const patterns = options.tools ?? [];
+  const registryTools = patterns.length === 0
+    ? []
+    : (await client.getTools()).filter((tool) =>
+      !UNSERVABLE_TOOLS.has(tool.name) && matchesToolPatterns(tool.name, patterns));
+
+  const served: McpServedTool[] = registryTools.map((tool) => ({
+    tool,
+    execute: (args, signal) => serialize(async () => {
+      if (signal.aborted) return textResult('Cancelled', true);
+      const result = await client.executeTool(tool.name, args, signal);
+      return textResult(result.content, result.isError);
+    }),
+  }));
+
+  if (options.askTool !== false) {
+    served.push({
+      tool: askAssistantTool,
+      execute: (args, signal) => serialize(() => askAssistant(client, String(args.prompt ?? ''), signal)),
+    });
+  }
+
+  return served;
+}
+
+async function askAssistant(client: EmbeddedClient, prompt: string, signal: AbortSignal): Promise<McpCallToolResult> {
+  if (!prompt.trim()) return textResult('prompt is required', true);
+  if (signal.aborted) return textResult('Cancelled', true);
+  const budgetBlock = client.getBudgetBlockReason();
+  if (budgetBlock) return textResult(budgetBlock, true);
+
+  let reply = '';
+  const errors: string[] = [];
+  const unsubscribeChunks = client.onChunk((chunk) => {
+    if (chunk.type === 'text' && chunk.content) {
+      reply += chunk.content;
+    } else if (chunk.type === 'error' && chunk.error) {
+      errors.push(chunk.error);
+    }
+  });
+  const unsubscribeErrors = client.onError((error) => errors.push(error.message));
+  const onAbort = () => client.stop();
+  signal.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    await client.send(prompt);
+  } finally {
+    signal.removeEventListener('abort', onAbort);
+    unsubscribeChunks();
+    unsubscribeErrors();
+  }
+
+  if (signal.aborted) return textResult('Cancelled', true);
+  const text = reply.trim();
+  if (errors.length > 0) {
+    return textResult(text ? `${text}\n\nError: ${errors.join('; ')}` : errors.join('\n'), true);
+  }
+  return textResult(text || '(no reply)');
+}
+
+/**
+ * MCP server for an assistant session, configured by mcp.serve
+ */
+export async function createAssistantMcpServer(
+  client: EmbeddedClient,
+  options: McpServeConfig & { version?: string } = {}
+): Promise<McpServer> {
+  const tools = await createAssistantMcpTools(client, options);
+  const hasAsk = tools.some((served) => served.tool.name === ASK_ASSISTANT_TOOL_NAME);
+  return new McpServer({
+    tools,
+    serverInfo: { name: MCP_CLIENT_INFO.name, version: options.version ?? MCP_CLIENT_INFO.version },
+    instructions: hasAsk
+      ? `Use ${ASK_ASSISTANT_TOOL_NAME} for anything that needs the assistant's judgement, memory or connectors. Requests run one at a time.`
+      : undefined,
+  });
+}
@@ -0,0 +1,131 @@
+/**
+ * MCP resource tools for assistant use
+ * Server tools themselves are registered by the McpManager
+ */
+
+import type { Tool } from '@hasna/assistants-shared';
+import type { ToolExecutor, ToolRegistry } from '../tools/registry';
+import type { McpManager } from './manager';
+import { formatResourceContents } from './manager';
+
+// ============================================
+// Tool Definitions
+// ============================================
+
+/**
+ * mcp_list_resources - List resources offered by MCP servers
+ */
+export const mcpListResourcesTool: Tool = {
+  name: 'mcp_list_resources',
+  description: 'List resources (files, records, documents) offered by connected MCP servers. Read one with mcp_read_resource.',
+  parameters: {
+    type: 'object',
+    properties: {
+      server: {
+        type: 'string',
+        description: 'Only list resources of this server (optional)',
+      },
+    },
+    required: [],
+  },
+};
+
+/**
+ * mcp_read_resource - Read a resource from an MCP server
+ */
+export const mcpReadResourceTool: Tool = {
+  name: 'mcp_read_resource',
+  description: 'Read a resource from a connected MCP server by URI.',
+  parameters: {
+    type: 'object',
+    properties: {
+      server: {
+        type: 'string',
+        description: 'Server name',
+      },
+      uri: {
+        type: 'string',
+        description: 'Resource URI, as listed by mcp_list_resources',
+      },
+    },
+    required: ['server', 'uri'],
+  },
+};
+
+// ============================================
+// Tool Executors
+// ============================================
+
+export function createMcpToolExecutors(
+  getMcpManager: () => McpManager | null
+): Record<string, ToolExecutor> {
+  return {
+    mcp_list_resources: async (input) => {
+      const manager = getMcpManager();
+      if (!manager) {
+        return 'Error: No MCP servers are configured.';
+      }
+
+      const server = input.server ? String(input.server).trim() : undefined;
+      if (server && !manager.getServer(server)) {
+        return `Error: Unknown MCP server "${server}". Configured: ${manager.getServerNames().join(', ') || '(none)'}`;
+      }
+
+      const resources = manager.listResources(server);
+      if (resources.length === 0) {
+        return server ? `No resources offered by ${server}.` : 'No resources offered by connected MCP servers.';
+      }
+
+      const lines: string[] = [`## MCP Resources (${resources.length})`, ''];
+      for (const resource of resources) {
+        const mime = resource.mimeType ? ` [${resource.mimeType}]` : '';
+        lines.push(`- ${resource.server}: ${resource.uri}${mime} - ${resource.name}`);
+        if (resource.description) {
+          lines.push(`  ${resource.description}`);
+        }
+      }
+      return lines.join('\n');
+    },
+
+    mcp_read_resource: async (input, signal) => {
+      const manager = getMcpManager();
+      if (!manager) {
+        return 'Error: No MCP servers are configured.';
+      }
+
+      const server = String(input.server || '').trim();
+      const uri = String(input.uri || '').trim();
+      if (!server || !uri) return 'Error: server and uri are required.';
+
+      try {
+        const contents = await manager.readResource(server, uri, signal);
+        if (contents.length === 0) return `Resource ${uri} is empty.`;
+        return formatResourceContents(contents);
+      } catch (error) {
+        return `Error reading ${uri}: ${error instanceof Error ? error.message : String(error)}`;
+      }
+    },
+  };
+}
+
+/**
+ * All MCP resource tools
+ */
+export const mcpTools: Tool[] = [
+  mcpListResourcesTool,
+  mcpReadResourceTool,
+];
+
+/**
+ * Register MCP resource tools with a tool registry
+ */
+export function registerMcpTools(
+  registry: ToolRegistry,
+  getMcpManager: () => McpManager | null
+): void {
+  const executors = createMcpToolExecutors(getMcpManager);
+
+  for (const tool of mcpTools) {
+    registry.register(tool, executors[tool.name]);
+  }
+}
@@ -0,0 +1,359 @@
+/**
+ * MCP transports
+ * stdio: newline-delimited JSON-RPC over a child process's stdin/stdout
+ * http: streamable HTTP, where each message is POSTed and the reply comes
+ * back as JSON or as a server-sent event stream
+ */
+
+import type { McpServerConfig } from '@hasna/assistants-shared';
+import { getRuntime, type SpawnResult } from '../runtime';
+import { ErrorCodes, McpError } from '../errors';
+import type { JsonRpcMessage, McpTransportType } from './types';
+
+export interface McpTransport {
+  readonly type: McpTransportType;
+  /** Called for every message from the server */
+  onmessage?: (message: JsonRpcMessage) => void;
+  /** Called once if the connection ends without close() */
+  onclose?: (error?: Error) => void;
+  start(): Promise<void>;
+  send(message: JsonRpcMessage): Promise<void>;
+  /** Tell the transport which protocol version was negotiated */
+  setProtocolVersion?(version: string): void;
+  close(): Promise<void>;
+}
+
+const STDERR_TAIL_LINES = 20;
+const HTTP_CLOSE_TIMEOUT_MS = 2000;
+
+/**
+ * Replace ${VAR} references with environment variables
+ */
+function expandVariables(values: Record<string, string> | undefined): Record<string, string> {
+  const expanded: Record<string, string> = {};
+  for (const [key, value] of Object.entries(values ?? {})) {
+    expanded[key] = String(value).replace(/\$\{([^}]+)\}/g, (_, name: string) => process.env[name] ?? '');
+  }
+  return expanded;
+}
+
+function dispatchParsed(payload: unknown, onmessage?: (message: JsonRpcMessage) => void): void {
+  if (!onmessage) return;
+  const messages = Array.isArray(payload) ? payload : [payload];
+  for (const message of messages) {
+    if (message && typeof message === 'object' && (message as JsonRpcMessage).jsonrpc === '2.0') {
+      onmessage(message as JsonRpcMessage);
+    }
+  }
+}
+
+type StdinSink = {
+  getWriter?: () => { write: (chunk: Uint8Array) => Promise<void> | void; close: () => Promise<void> | void };
+  write?: (chunk: Uint8Array) => Promise<unknown> | unknown;
+  flush?: () => Promise<unknown> | unknown;
+  end?: () => Promise<unknown> | unknown;
+};
+
+/**
+ * Stdio transport - launches the server as a child process
+ */
+export class StdioTransport implements McpTransport {
+  readonly type = 'stdio' as const;
+  onmessage?: (message: JsonRpcMessage) => void;
+  onclose?: (error?: Error) => void;
+
+  private proc: SpawnResult | null = null;
+  private writer: ReturnType<NonNullable<StdinSink['getWriter']>> | null = null;
+  private encoder = new TextEncoder();
+  private stderrTail: string[] = [];
+  private closed = false;
+
+  constructor(
+    private serverName: string,
+    private options: { command: string; args?: string[]; env?: Record<string, string>; cwd?: string }
+  ) {}
+
+  async start(): Promise<void> {
+    const runtime = getRuntime();
+    const command = runtime.which(this.options.command) || this.options.command;
+    try {
+      this.proc = runtime.spawn([command, ...(this.options.args ?? [])], {
+        cwd: this.options.cwd,
+        env: { ...process.env, ...expandVariables(this.options.env) },
+        stdin: 'pipe',
+        stdout: 'pipe',
+        stderr: 'pipe',
+      });
+    } catch (error) {
+      throw new McpError(`Failed to start "${this.options.command}": ${error instanceof Error ? error.message : String(error)}`, {
+        serverName: this.serverName,
+        code: ErrorCodes.MCP_CONNECTION_FAILED,
+        suggestion: 'Check the server command in the mcp config.',
+      });
+    }
+
+    const proc = this.proc;
+    if (proc.stdout) void this.readStdout(proc.stdout);
+    if (proc.stderr) void this.readStderr(proc.stderr);
+    proc.exited.then((code) => {
+      if (this.closed) return;
+      this.closed = true;
+      const tail = this.stderrTail.length > 0 ? `: ${this.stderrTail.join(' | ')}` : '';
+      this.onclose?.(new Error(`Server exited with code ${code}${tail}`));
+    }).catch(() => {});
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    const stdin = this.proc?.stdin as unknown as StdinSink | null | undefined;
+    if (this.closed || !stdin) {
+      throw new McpError('Server is not running', { serverName: this.serverName, code: ErrorCodes.MCP_CONNECTION_FAILED });
+    }
+
+    const bytes = this.encoder.encode(`${JSON.stringify(message)}\n`);
+    if (stdin.getWriter) {
+      this.writer ??= stdin.getWriter();
+      await this.writer.write(bytes);
+    } else if (stdin.write) {
+      await stdin.write(bytes);
+      await stdin.flush?.();
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    try {
+      if (this.writer) {
+        await this.writer.close();
+      } else {
+        await (this.proc?.stdin as unknown as StdinSink | null)?.end?.();
+      }
+    } catch {
+      // Already closed
+    }
+    try {
+      this.proc?.kill();
+    } catch {
+      // Already exited
+    }
+  }
+
+  private async readStdout(stream: ReadableStream<Uint8Array>): Promise<void> {
+    const reader = stream.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        let newline = buffer.indexOf('\n');
+        while (newline !== -1) {
+          const line = buffer.slice(0, newline).trim();
+          buffer = buffer.slice(newline + 1);
+          if (line) {
+            try {
+              dispatchParsed(JSON.parse(line), this.onmessage);
+            } catch {
+              // Not JSON-RPC; servers sometimes log to stdout
+            }
+          }
+          newline = buffer.indexOf('\n');
+        }
+      }
+    } catch {
+      // Stream closed with the process
+    }
+  }
+
+  private async readStderr(stream: ReadableStream<Uint8Array>): Promise<void> {
+    const reader = stream.getReader();
+    const decoder = new TextDecoder();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        for (const line of decoder.decode(value, { stream: true }).split('\n')) {
+          if (!line.trim()) continue;
+          this.stderrTail.push(line.trim());
+          if (this.stderrTail.length > STDERR_TAIL_LINES) this.stderrTail.shift();
+        }
+      }
+    } catch {
+      // Stream closed with the process
+    }
+  }
+}
+
+/**
+ * Streamable HTTP transport
+ */
+export class HttpTransport implements McpTransport {
+  readonly type = 'http' as const;
+  onmessage?: (message: JsonRpcMessage) => void;
+  onclose?: (error?: Error) => void;
+
+  private sessionId?: string;
+  private protocolVersion?: string;
+  private controller = new AbortController();
+  private headers: Record<string, string>;
+
+  constructor(private serverName: string, private url: string, headers?: Record<string, string>) {
+    this.headers = expandVariables(headers);
+  }
+
+  async start(): Promise<void> {
+    try {
+      new URL(this.url);
+    } catch {
+      throw new McpError(`Invalid server URL: ${this.url}`, {
+        serverName: this.serverName,
+        code: ErrorCodes.MCP_CONNECTION_FAILED,
+        recoverable: false,
+      });
+    }
+  }
+
+  setProtocolVersion(version: string): void {
+    this.protocolVersion = version;
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    let response: Response;
+    try {
+      response = await fetch(this.url, {
+        method: 'POST',
+        headers: this.buildHeaders({
+          'Content-Type': 'application/json',
+          Accept: 'application/json, text/event-stream',
+        }),
+        body: JSON.stringify(message),
+        signal: this.controller.signal,
+      });
+    } catch (error) {
+      throw new McpError(`Request to ${this.url} failed: ${error instanceof Error ? error.message : String(error)}`, {
+        serverName: this.serverName,
+        code: ErrorCodes.MCP_CONNECTION_FAILED,
+        retryable: true,
+      });
+    }
+
+    const sessionId = response.headers.get('mcp-session-id');
+    if (sessionId) this.sessionId = sessionId;
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new McpError(`HTTP ${response.status}${body ? `: ${body.slice(0, 200)}` : ''}`, {
+        serverName: this.serverName,
+        code: response.status === 401 || response.status === 403 ? ErrorCodes.MCP_CONNECTION_FAILED : ErrorCodes.MCP_REQUEST_FAILED,
+        retryable: response.status >= 500,
+        suggestion: response.status === 401 || response.status === 403 ? 'Check the headers configured for this server.' : undefined,
+      });
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    if (response.status === 202 || !response.body) {
+      await response.body?.cancel().catch(() => {});
+      return;
+    }
+    if (contentType.includes('text/event-stream')) {
+      // Replies arrive on the stream; don't hold up the caller
+      void this.readEventStream(response.body);
+      return;
+    }
+    if (contentType.includes('application/json')) {
+      const text = await response.text();
+      if (text.trim()) {
+        dispatchParsed(JSON.parse(text), this.onmessage);
+      }
+      return;
+    }
+    await response.body.cancel().catch(() => {});
+  }
+
+  async close(): Promise<void> {
+    this.controller.abort();
+    if (!this.sessionId) return;
+    try {
+      await fetch(this.url, {
+        method: 'DELETE',
+        headers: this.buildHeaders({}),
+        signal: AbortSignal.timeout(HTTP_CLOSE_TIMEOUT_MS),
+      });
+    } catch {
+      // The session expires on its own
+    }
+    this.sessionId = undefined;
+  }
+
+  private buildHeaders(base: Record<string, string>): Record<string, string> {
+    return {
+      ...base,
+      ...this.headers,
+      ...(this.sessionId ? { 'Mcp-Session-Id': this.sessionId } : {}),
+      ...(this.protocolVersion ? { 'MCP-Protocol-Version': this.protocolVersion } : {}),
+    };
+  }
+
+  private async readEventStream(stream: ReadableStream<Uint8Array>): Promise<void> {
+    const reader = stream.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let data: string[] = [];
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        let newline = buffer.indexOf('\n');
+        while (newline !== -1) {
+          const line = buffer.slice(0, newline).replace(/\r$/, '');
+          buffer = buffer.slice(newline + 1);
+          if (line === '') {
+            if (data.length > 0) {
+              try {
+                dispatchParsed(JSON.parse(data.join('\n')), this.onmessage);
+              } catch {
+                // Ignore malformed events
+              }
+              data = [];
+            }
+          } else if (line.startsWith('data:')) {
+            data.push(line.slice(5).replace(/^ /, ''));
+          }
+          newline = buffer.indexOf('\n');
+        }
+      }
+    } catch {
+      // Stream aborted or closed
+    }
+  }
+}
+
+/**
+ * Resolve the transport type of a server config
+ */
+export function getMcpTransportType(config: McpServerConfig): McpTransportType {
+  return config.transport ?? (config.url ? 'http' : 'stdio');
+}
+
+/**
+ * Create the transport for a configured server
+ */
+export function createMcpTransport(name: string, config: McpServerConfig, cwd: string): McpTransport {
+  if (getMcpTransportType(config) === 'http') {
+    if (!config.url) {
+      throw new McpError('HTTP server needs a "url"', { serverName: name, code: ErrorCodes.MCP_CONNECTION_FAILED, recoverable: false });
+    }
+    return new HttpTransport(name, config.url, config.headers);
+  }
+  if (!config.command) {
+    throw new McpError('stdio server needs a "command"', { serverName: name, code: ErrorCodes.MCP_CONNECTION_FAILED, recoverable: false });
+  }
+  return new StdioTransport(name, {
+    command: config.command,
+    args: config.args,
+    env: config.env,
+    cwd: config.cwd ?? cwd,
+  });
+}
@@ -0,0 +1,178 @@
+/**
+ * Model Context Protocol types
+ * Covers the subset of the protocol the client and server use: tools,
+ * resources and prompts over JSON-RPC 2.0
+ */
+
+export const MCP_PROTOCOL_VERSION = '2025-03-26';
+
+// ============================================
+// JSON-RPC
+// ============================================
+
+export type JsonRpcId = string | number;
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcErrorObject {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: JsonRpcId | null;
+  result?: unknown;
+  error?: JsonRpcErrorObject;
+}
+
+export type JsonRpcMessage = JsonRpcRequest | JsonRpcNotification | JsonRpcResponse;
+
+export const JSON_RPC_PARSE_ERROR = -32700;
+export const JSON_RPC_INVALID_REQUEST = -32600;
+export const JSON_RPC_METHOD_NOT_FOUND = -32601;
+export const JSON_RPC_INVALID_PARAMS = -32602;
+export const JSON_RPC_INTERNAL_ERROR = -32603;
+
+// ============================================
+// Protocol objects
+// ============================================
+
+export interface McpServerInfo {
+  name: string;
+  version?: string;
+}
+
+export interface McpServerCapabilities {
+  tools?: { listChanged?: boolean };
+  resources?: { subscribe?: boolean; listChanged?: boolean };
+  prompts?: { listChanged?: boolean };
+  logging?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+export interface McpInitializeResult {
+  protocolVersion: string;
+  capabilities: McpServerCapabilities;
+  serverInfo: McpServerInfo;
+  instructions?: string;
+}
+
+export interface McpToolDefinition {
+  name: string;
+  description?: string;
+  inputSchema?: {
+    type?: 'object';
+    properties?: Record<string, unknown>;
+    required?: string[];
+    [key: string]: unknown;
+  };
+  annotations?: {
+    title?: string;
+    readOnlyHint?: boolean;
+    destructiveHint?: boolean;
+    [key: string]: unknown;
+  };
+}
+
+export type McpContent =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType: string }
+  | { type: 'audio'; data: string; mimeType: string }
+  | { type: 'resource'; resource: McpResourceContents }
+  | { type: 'resource_link'; uri: string; name?: string; mimeType?: string };
+
+export interface McpCallToolResult {
+  content?: McpContent[];
+  structuredContent?: unknown;
+  isError?: boolean;
+}
+
+export interface McpResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface McpResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  /** Base64-encoded binary content */
+  blob?: string;
+}
+
+export interface McpPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface McpPrompt {
+  name: string;
+  description?: string;
+  arguments?: McpPromptArgument[];
+}
+
+export interface McpPromptMessage {
+  role: 'user' | 'assistant';
+  content: McpContent;
+}
+
+export interface McpGetPromptResult {
+  description?: string;
+  messages: McpPromptMessage[];
+}
+
+// ============================================
+// Manager state
+// ============================================
+
+export type McpServerStatus = 'disabled' | 'connecting' | 'connected' | 'error' | 'disconnected';
+
+export type McpTransportType = 'stdio' | 'http';
+
+/**
+ * Snapshot of a configured server for status displays
+ */
+export interface McpServerState {
+  name: string;
+  transport: McpTransportType;
+  /** Command line or URL */
+  target: string;
+  status: McpServerStatus;
+  error?: string;
+  serverInfo?: McpServerInfo;
+  instructions?: string;
+  /** Registered (namespaced) tool names */
+  tools: string[];
+  resources: McpResource[];
+  prompts: McpPrompt[];
+  connectedAt?: number;
+  /** Round trip of the last health check */
+  latencyMs?: number;
+  lastCheckedAt?: number;
+}
+
+export type McpManagerEventType = 'server:status' | 'server:tools' | 'server:prompts';
+
+export interface McpManagerEvent {
+  type: McpManagerEventType;
+  server: string;
+  timestamp: number;
+}
+
+export type McpManagerEventListener = (event: McpManagerEvent) => void;
@@ -0,0 +1,375 @@
+/**
+ * Memory Consolidation
+ *
+ * Periodic clean-up pass over stored memories: groups near-duplicates,
+ * merges them (with an LLM-written summary when a model is available),
+ * flags contradictions for the user and decays the importance of
+ * memories that are no longer used. Every change is written to the
+ * consolidation audit log.
+ */
+
+import type { Message } from '@hasna/assistants-shared';
+import { generateId, now } from '@hasna/assistants-shared';
+import type { LLMClient } from '../llm/client';
+import type { GlobalMemoryManager } from './global-memory';
+import { cosineSimilarity } from './embeddings';
+import type {
+  Memory,
+  MemoryConflict,
+  MemoryConsolidationReport,
+} from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_PROMPT_VALUE_CHARS = 1000;
+
+export interface MemoryConsolidatorOptions {
+  /** Model used to merge clusters; without one only identical values are merged */
+  llmClient?: LLMClient | null;
+  similarityThreshold?: number;
+  maxClusterSize?: number;
+  decayAfterDays?: number;
+}
+
+export interface ConsolidationRunOptions {
+  /** Report what would change without modifying memories */
+  dryRun?: boolean;
+}
+
+/**
+ * How the model (or the fallback rule) resolved a cluster
+ */
+type ClusterDecision =
+  | { decision: 'merge'; value: unknown; summary?: string }
+  | { decision: 'conflict'; reason: string }
+  | { decision: 'distinct' };
+
+export class MemoryConsolidator {
+  private manager: GlobalMemoryManager;
+  private llmClient: LLMClient | null;
+  private similarityThreshold: number;
+  private maxClusterSize: number;
+  private decayAfterDays: number;
+
+  constructor(manager: GlobalMemoryManager, options: MemoryConsolidatorOptions = {}) {
+    const config = manager.getConsolidationConfig();
+    this.manager = manager;
+    this.llmClient = options.llmClient ?? null;
+    this.similarityThreshold = options.similarityThreshold ?? config.similarityThreshold ?? 0.75;
+    this.maxClusterSize = Math.max(2, options.maxClusterSize ?? config.maxClusterSize ?? 8);
+    this.decayAfterDays = options.decayAfterDays ?? config.decayAfterDays ?? 30;
+  }
+
+  /**
+   * Run a full consolidation pass
+   */
+  async run(options: ConsolidationRunOptions = {}): Promise<MemoryConsolidationReport> {
+    const dryRun = options.dryRun ?? false;
+    const report: MemoryConsolidationReport = {
+      runId: generateId(),
+      dryRun,
+      scanned: 0,
+      clusters: 0,
+      merged: [],
+      conflicts: [],
+      decayed: [],
+      skipped: 0,
+    };
+
+    await this.manager.clearExpired();
+    const memories = await this.manager.export();
+    report.scanned = memories.length;
+
+    const clusters = await this.cluster(memories);
+    report.clusters = clusters.length;
+    // Merged memories are skipped by decay this run
+    const mergedIds = new Set<string>();
+    const knownConflicts = this.knownConflictKeys();
+
+    for (const cluster of clusters) {
+      const decision = await this.decide(cluster);
+
+      if (decision.decision === 'merge') {
+        const [keeper, ...others] = cluster;
+        const kept: Memory = {
+          ...keeper,
+          value: decision.value,
+          summary: decision.summary?.slice(0, 500) || longestSummary(cluster),
+          importance: Math.max(...cluster.map((m) => m.importance)),
+          tags: Array.from(new Set(cluster.flatMap((m) => m.tags))),
+        };
+        if (!dryRun) {
+          await this.manager.update(keeper.id, {
+            value: kept.value,
+            summary: kept.summary,
+            importance: kept.importance,
+            tags: kept.tags,
+          });
+          for (const other of others) {
+            await this.manager.delete(other.id);
+          }
+          this.manager.recordConsolidation(report.runId, 'merge', cluster.map((m) => m.id), {
+            before: keeper,
+            after: { value: kept.value, summary: kept.summary, importance: kept.importance, tags: kept.tags },
+            removed: others,
+          });
+        }
+        for (const memory of cluster) {
+          mergedIds.add(memory.id);
+        }
+        report.merged.push({ kept, removed: others });
+      } else if (decision.decision === 'conflict') {
+        const conflict: MemoryConflict = { memories: cluster, reason: decision.reason };
+        report.conflicts.push(conflict);
+        const conflictKey = idsKey(cluster.map((m) => m.id));
+        if (!dryRun && !knownConflicts.has(conflictKey)) {
+          this.manager.recordConsolidation(report.runId, 'conflict', cluster.map((m) => m.id), {
+            reason: decision.reason,
+            keys: cluster.map((m) => m.key),
+          });
+          knownConflicts.add(conflictKey);
+        }
+      } else {
+        report.skipped++;
+      }
+    }
+
+    await this.decay(
+      memories.filter((m) => !mergedIds.has(m.id)),
+      report,
+    );
+
+    return report;
+  }
+
+  /**
+   * Open conflicts: logged conflicts whose memories all still exist
+   */
+  async getOpenConflicts(): Promise<MemoryConflict[]> {
+    const conflicts: MemoryConflict[] = [];
+    const seen = new Set<string>();
+    for (const entry of this.manager.getLatestConsolidations('conflict')) {
+      const key = idsKey(entry.memoryIds);
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const memories: Memory[] = [];
+      for (const id of entry.memoryIds) {
+        const memory = await this.manager.getById(id);
+        if (memory) memories.push(memory);
+      }
+      if (memories.length === entry.memoryIds.length && memories.length > 1) {
+        conflicts.push({ memories, reason: String(entry.details.reason || 'Conflicting values') });
+      }
+    }
+    return conflicts;
+  }
+
+  /**
+   * Group similar memories. Only memories in the same scope, owner and
+   * category are grouped; each cluster is led by its most important member.
+   */
+  private async cluster(memories: Memory[]): Promise<Memory[][]> {
+    if (memories.length < 2) return [];
+
+    const vectors = await this.manager.getEmbeddings(memories);
+    const buckets = new Map<string, Memory[]>();
+    for (const memory of memories) {
+      const bucketKey = `${memory.scope}:${memory.scopeId || ''}:${memory.category}`;
+      const bucket = buckets.get(bucketKey) || [];
+      bucket.push(memory);
+      buckets.set(bucketKey, bucket);
+    }
+
+    const clusters: Memory[][] = [];
+    for (const bucket of buckets.values()) {
+      const ordered = [...bucket].sort((a, b) =>
+        b.importance - a.importance || b.accessCount - a.accessCount || a.createdAt.localeCompare(b.createdAt)
+      );
+      const assigned = new Set<string>();
+
+      for (const seed of ordered) {
+        if (assigned.has(seed.id)) continue;
+        const seedVector = vectors.get(seed.id);
+        if (!seedVector) continue;
+
+        const cluster = [seed];
+        for (const candidate of ordered) {
+          if (cluster.length >= this.maxClusterSize) break;
+          if (candidate.id === seed.id || assigned.has(candidate.id)) continue;
+          const vector = vectors.get(candidate.id);
+          if (vector && cosineSimilarity(seedVector, vector) >= this.similarityThreshold) {
+            cluster.push(candidate);
+          }
+        }
+
+        if (cluster.length > 1) {
+          for (const memory of cluster) {
+            assigned.add(memory.id);
+          }
+          clusters.push(cluster);
+        }
+      }
+    }
+
+    return clusters;
+  }
+
+  /**
+   * Decide whether a cluster is a duplicate, a contradiction or unrelated
+   */
+  private async decide(cluster: Memory[]): Promise<ClusterDecision> {
+    if (cluster.every((m) => normalizeValue(m.value) === normalizeValue(cluster[0].value))) {
+      return { decision: 'merge', value: cluster[0].value };
+    }
+
+    if (!this.llmClient) {
+      return {
+        decision: 'conflict',
+        reason: `Similar memories have different values: ${cluster.map((m) => m.key).join(', ')}`,
+      };
+    }
+
+    try {
+      const response = await this.complete(this.buildPrompt(cluster));
+      return parseDecision(response) ?? { decision: 'distinct' };
+    } catch {
+      return { decision: 'distinct' };
+    }
+  }
+
+  private buildPrompt(cluster: Memory[]): string {
+    const entries = cluster.map((m) => ({
+      key: m.key,
+      value: truncate(typeof m.value === 'string' ? m.value : JSON.stringify(m.value), MAX_PROMPT_VALUE_CHARS),
+      summary: m.summary,
+      importance: m.importance,
+      updatedAt: m.updatedAt,
+    }));
+    return (
+      'These stored memories about a user were grouped because they look similar.\n' +
+      'Decide how to consolidate them and reply with a single JSON object only:\n' +
+      '- {"decision":"merge","value":<merged value>,"summary":"<one sentence>"} if they say the same thing ' +
+      'or can be combined without losing information\n' +
+      '- {"decision":"conflict","reason":"<what disagrees>"} if they contradict each other and the user ' +
+      'should choose (do not guess which is correct)\n' +
+      '- {"decision":"distinct"} if they are about different things\n\n' +
+      `Memories:\n${JSON.stringify(entries, null, 2)}`
+    );
+  }
+
+  private async complete(prompt: string): Promise<string> {
+    if (!this.llmClient) return '';
+    const messages: Message[] = [
+      {
+        id: generateId(),
+        role: 'user',
+        content: prompt,
+        timestamp: now(),
+      },
+    ];
+
+    let response = '';
+    for await (const chunk of this.llmClient.chat(messages)) {
+      if (chunk.type === 'text' && chunk.content) {
+        response += chunk.content;
+      } else if (chunk.type === 'error') {
+        throw new Error(chunk.error || 'Consolidation error');
+      }
+    }
+    return response;
+  }
+
+  /**
+   * Lower the importance of memories left unused. Each point of decay needs
+   * another `decayAfterDays` without access, stretched for memories that
+   * have been used often.
+   */
+  private async decay(memories: Memory[], report: MemoryConsolidationReport): Promise<void> {
+    if (this.decayAfterDays <= 0) return;
+
+    const lastDecayed = new Map<string, number>();
+    for (const entry of this.manager.getLatestConsolidations('decay')) {
+      const at = Date.parse(entry.createdAt);
+      for (const id of entry.memoryIds) {
+        lastDecayed.set(id, Math.max(lastDecayed.get(id) ?? 0, at));
+      }
+    }
+
+    const nowMs = Date.now();
+    for (const memory of memories) {
+      if (memory.importance <= 1) continue;
+
+      const lastUsed = Date.parse(memory.accessedAt || memory.createdAt);
+      const since = Math.max(Number.isNaN(lastUsed) ? 0 : lastUsed, lastDecayed.get(memory.id) ?? 0);
+      const requiredDays = this.decayAfterDays * (1 + Math.log2(1 + memory.accessCount));
+      if (nowMs - since < requiredDays * DAY_MS) continue;
+
+      const from = memory.importance;
+      const to = from - 1;
+      if (!report.dryRun) {
+        await this.manager.update(memory.id, { importance: to });
+        this.manager.recordConsolidation(report.runId, 'decay', [memory.id], {
+          key: memory.key,
+          from,
+          to,
+          accessCount: memory.accessCount,
+          accessedAt: memory.accessedAt,
+        });
+      }
+      report.decayed.push({ memory: { ...memory, importance: to }, from, to });
+    }
+  }
+
+  private knownConflictKeys(): Set<string> {
+    return new Set(
+      this.manager.getLatestConsolidations('conflict').map((entry) => idsKey(entry.memoryIds))
+    );
+  }
+}
+
+/**
+ * Extract the decision object from a model response
+ */
+function parseDecision(response: string): ClusterDecision | null {
+  const match = response.match(/\{[\s\S]*\}/);
+  if (!match) return null;
+  try {
+    const parsed = JSON.parse(match[0]) as Record<string, unknown>;
+    if (parsed.decision === 'merge' && parsed.value !== undefined) {
+      return {
+        decision: 'merge',
+        value: parsed.value,
+        summary: typeof parsed.summary === 'string' ? parsed.summary : undefined,
+      };
+    }
+    if (parsed.decision === 'conflict') {
+      return { decision: 'conflict', reason: typeof parsed.reason === 'string' ? parsed.reason : 'Conflicting values' };
+    }
+    if (parsed.decision === 'distinct') {
+      return { decision: 'distinct' };
+    }
+  } catch {
+    // Fall through
+  }
+  return null;
+}
+
+function normalizeValue(value: unknown): string {
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return (text || '').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function longestSummary(memories: Memory[]): string | undefined {
+  return memories
+    .map((m) => m.summary)
+    .filter((summary): summary is string => Boolean(summary))
+    .sort((a, b) => b.length - a.length)[0];
+}
+
+function idsKey(ids: string[]): string {
+  return [...ids].sort().join(',');
+}
+
+function truncate(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.slice(0, maxChars)}...` : text;
+}
@@ -0,0 +1,141 @@
+/**
+ * Memory Embeddings
+ *
+ * Pluggable text embedders used to rank memories by semantic similarity.
+ * The default HashingEmbedder runs locally with no network access.
+ */
+
+/**
+ * Turns text into fixed-length vectors
+ */
+export interface MemoryEmbedder {
+  /** Stable identifier; stored vectors from a different id are re-embedded */
+  readonly id: string;
+  /** Length of every vector returned by embed() */
+  readonly dimensions: number;
+  /** Embed a batch of texts, returning one vector per text in order */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'do', 'for', 'from',
+  'has', 'have', 'he', 'her', 'his', 'how', 'i', 'if', 'in', 'is', 'it', 'its',
+  'me', 'my', 'of', 'on', 'or', 'our', 'she', 'so', 'that', 'the', 'their',
+  'them', 'then', 'there', 'these', 'they', 'this', 'to', 'was', 'we', 'were',
+  'what', 'when', 'which', 'who', 'will', 'with', 'you', 'your',
+]);
+
+/**
+ * Split text into lowercase word tokens, dropping stopwords
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 0 && !STOPWORDS.has(token));
+}
+
+/** FNV-1a 32-bit hash */
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Local feature-hashing embedder.
+ *
+ * Words, adjacent word pairs and character trigrams are hashed into a
+ * fixed number of signed buckets and the result is L2-normalized, so
+ * texts sharing vocabulary (or word stems) land close together.
+ */
+export class HashingEmbedder implements MemoryEmbedder {
+  readonly id: string;
+  readonly dimensions: number;
+
+  constructor(dimensions = 256) {
+    this.dimensions = dimensions;
+    this.id = `hashing-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const tokens = tokenize(text);
+
+    const add = (feature: string, weight: number) => {
+      const h = hash(feature);
+      const sign = h & 0x80000000 ? -1 : 1;
+      vector[h % this.dimensions] += sign * weight;
+    };
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      add(`w:${token}`, 1);
+      if (i > 0) {
+        add(`b:${tokens[i - 1]} ${token}`, 0.5);
+      }
+      if (token.length > 3) {
+        const padded = `^${token}$`;
+        for (let j = 0; j + 3 <= padded.length; j++) {
+          add(`c:${padded.slice(j, j + 3)}`, 0.25);
+        }
+      }
+    }
+
+    return normalize(vector);
+  }
+}
+
+/**
+ * Scale a vector to unit length (zero vectors are returned unchanged)
+ */
+export function normalize(vector: number[]): number[] {
+  let norm = 0;
+  for (const value of vector) {
+    norm += value * value;
+  }
+  if (norm === 0) return vector;
+  const scale = 1 / Math.sqrt(norm);
+  return vector.map((value) => value * scale);
+}
+
+/**
+ * Cosine similarity of two vectors; 0 when either is empty or mismatched
+ */
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Serialize a vector for storage as a SQLite BLOB
+ */
+export function encodeVector(vector: number[]): Uint8Array {
+  const floats = Float32Array.from(vector);
+  return new Uint8Array(floats.buffer);
+}
+
+/**
+ * Read a vector stored by encodeVector
+ */
+export function decodeVector(blob: Uint8Array): Float32Array {
+  // Copy so the floats are aligned (Node Buffers may be views into a shared pool)
+  const bytes = Uint8Array.prototype.slice.call(blob, 0, blob.byteLength - (blob.byteLength % 4));
+  return new Float32Array(bytes.buffer, 0, bytes.byteLength / 4);
+}
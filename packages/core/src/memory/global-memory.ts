@@ -11,6 +11,13 @@ import { generateId } from '@hasna/assistants-shared';
 import { getConfigDir } from '../config';
 import { getRuntime } from '../runtime';
 import type { DatabaseConnection } from '../runtime';
+import {
+  HashingEmbedder,
+  cosineSimilarity,
+  decodeVector,
+  encodeVector,
+  type MemoryEmbedder,
+} from './embeddings';
 import {
   DEFAULT_MEMORY_CONFIG,
   type Memory,
@@ -19,9 +26,13 @@ import {
   type MemoryOptions,
   type MemoryQuery,
   type MemoryQueryResult,
+  type MemorySearchOptions,
+  type MemorySearchResult,
   type MemoryStats,
   type MemoryAccessAction,
   type MemoryConfig,
+  type MemoryConsolidationAction,
+  type MemoryConsolidationLogEntry,
 } from './types';
 
 // ============================================
@@ -37,6 +48,14 @@ const MAX_VALUE_SIZE = 65536;
 /** Maximum summary length in characters */
 const MAX_SUMMARY_LENGTH = 500;
 
+/** Maximum characters of a memory embedded for similarity search */
+const MAX_EMBED_TEXT_LENGTH = 4000;
+
+/** Maximum candidates scored by getRelevant() */
+const MAX_RANK_CANDIDATES = 2000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 /**
  * Global Memory Manager - handles all memory operations
  */
@@ -46,6 +65,7 @@ export class GlobalMemoryManager {
   private defaultScopeId?: string;
   private sessionId?: string;
   private config: MemoryConfig;
+  private embedder: MemoryEmbedder;
 
   constructor(options: {
     dbPath?: string;
@@ -53,6 +73,8 @@ export class GlobalMemoryManager {
     scopeId?: string;
     sessionId?: string;
     config?: Partial<MemoryConfig>;
+    /** Embedder for similarity ranking (default: local HashingEmbedder) */
+    embedder?: MemoryEmbedder;
   } = {}) {
     const baseDir = getConfigDir();
     const path = options.dbPath || join(baseDir, 'memory.db');
@@ -67,6 +89,7 @@ export class GlobalMemoryManager {
     this.defaultScopeId = options.scopeId;
     this.sessionId = options.sessionId;
     this.config = this.mergeConfig(DEFAULT_MEMORY_CONFIG, options.config);
+    this.embedder = options.embedder || new HashingEmbedder();
 
     this.initialize();
   }
@@ -97,6 +120,14 @@ export class GlobalMemoryManager {
         ...defaults.accessLog,
         ...overrides.accessLog,
       },
+      consolidation: {
+        ...defaults.consolidation,
+        ...overrides.consolidation,
+      },
+      search: {
+        ...defaults.search,
+        ...overrides.search,
+      },
     };
   }
 
@@ -159,6 +190,28 @@ export class GlobalMemoryManager {
       CREATE INDEX IF NOT EXISTS idx_memory_access_log_timestamp ON memory_access_log(timestamp)
     `);
 
+    // Create embedding index table (vectors are Float32 BLOBs)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS memory_embeddings (
+        memory_id TEXT PRIMARY KEY,
+        embedder TEXT NOT NULL,
+        source_updated_at TEXT NOT NULL,
+        vector BLOB NOT NULL
+      )
+    `);
+
+    // Create consolidation audit table
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS memory_consolidation_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        run_id TEXT NOT NULL,
+        action TEXT NOT NULL,
+        memory_ids TEXT NOT NULL,
+        details TEXT,
+        created_at TEXT NOT NULL
+      )
+    `);
+
     // Migrate: add assistant_id column if missing (older databases lack it)
     try {
       const cols = this.db.prepare(`PRAGMA table_info(memory_access_log)`).all() as Array<{ name: string }>;
@@ -318,6 +371,7 @@ export class GlobalMemoryManager {
     );
 
     this.logAccess(id, 'write');
+    await this.indexMemories([memory]);
     return memory;
   }
 
@@ -403,6 +457,7 @@ export class GlobalMemoryManager {
     );
 
     this.logAccess(id, 'write');
+    await this.indexMemories([updated]);
     return updated;
   }
 
@@ -642,6 +697,9 @@ export class GlobalMemoryManager {
 
   /**
    * Get memories relevant to a context (for injection)
+   *
+   * Candidates are filtered by importance, category and scope, then ranked by
+   * a hybrid of semantic similarity to the context, importance and recency.
    */
   async getRelevant(
     context: string,
@@ -707,22 +765,6 @@ export class GlobalMemoryManager {
 
     conditions.push(`(${scopeConditions.join(' OR ')})`)
 
-    // Simple keyword matching for relevance
-    // In a more sophisticated implementation, this could use embeddings
-    const keywords = context.toLowerCase().split(/\s+/).filter(w => w.length > 3);
-    if (keywords.length > 0) {
-      const keywordConditions = keywords.slice(0, 5).map(() =>
-        '(LOWER(key) LIKE ? OR LOWER(summary) LIKE ? OR LOWER(value) LIKE ?)'
-      );
-      if (keywordConditions.length > 0) {
-        conditions.push(`(${keywordConditions.join(' OR ')})`);
-        for (const keyword of keywords.slice(0, 5)) {
-          const pattern = `%${keyword}%`;
-          params.push(pattern, pattern, pattern);
-        }
-      }
-    }
-
     const rows = this.db
       .query<MemoryRow>(`
         SELECT * FROM memories
@@ -730,9 +772,10 @@ export class GlobalMemoryManager {
         ORDER BY importance DESC, accessed_at DESC
         LIMIT ?
       `)
-      .all(...params, limit);
+      .all(...params, MAX_RANK_CANDIDATES);
 
-    const memories = rows.map(row => this.rowToMemory(row));
+    const ranked = await this.rank(context, rows.map(row => this.rowToMemory(row)));
+    const memories = ranked.slice(0, limit).map(result => result.memory);
 
     // Log access for injected memories
     for (const memory of memories) {
@@ -742,12 +785,44 @@ export class GlobalMemoryManager {
     return memories;
   }
 
+  /**
+   * Search memories by meaning rather than exact text.
+   *
+   * Uses the same scope isolation as query(); results are ordered by the
+   * hybrid similarity/importance/recency score.
+   */
+  async search(text: string, options: MemorySearchOptions = {}): Promise<MemorySearchResult[]> {
+    const limit = Math.min(Math.max(1, options.limit || 10), 1000);
+    const minSimilarity = options.minSimilarity ?? 0.1;
+
+    const candidates = await this.query({
+      scope: options.scope,
+      category: options.category,
+      minImportance: options.minImportance,
+      limit: 1000,
+      orderBy: 'importance',
+      orderDir: 'desc',
+    });
+
+    const ranked = await this.rank(text, candidates.memories);
+    const results = ranked
+      .filter(result => result.similarity >= minSimilarity)
+      .slice(0, limit);
+
+    for (const result of results) {
+      this.logAccess(result.memory.id, 'read');
+    }
+
+    return results;
+  }
+
   /**
    * Delete a memory
    */
   async delete(id: string): Promise<void> {
     this.logAccess(id, 'delete');
     this.db.prepare(`DELETE FROM memories WHERE id = ?`).run(id);
+    this.db.prepare(`DELETE FROM memory_embeddings WHERE memory_id = ?`).run(id);
   }
 
   /**
@@ -834,6 +909,9 @@ export class GlobalMemoryManager {
     const expired = await this.clearExpired();
     const overLimit = await this.enforceStorageLimits();
     const accessLogCleaned = await this.cleanupAccessLog();
+    this.db.prepare(`
+      DELETE FROM memory_embeddings WHERE memory_id NOT IN (SELECT id FROM memories)
+    `).run();
     return { expired, overLimit, accessLogCleaned };
   }
 
@@ -879,6 +957,89 @@ export class GlobalMemoryManager {
     return totalRemoved;
   }
 
+  /**
+   * Record a consolidation action in the audit trail
+   */
+  recordConsolidation(
+    runId: string,
+    action: MemoryConsolidationAction,
+    memoryIds: string[],
+    details: Record<string, unknown> = {}
+  ): void {
+    this.db.prepare(`
+      INSERT INTO memory_consolidation_log (run_id, action, memory_ids, details, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(runId, action, JSON.stringify(memoryIds), JSON.stringify(details), new Date().toISOString());
+  }
+
+  /**
+   * Get consolidation audit entries, newest first
+   */
+  getConsolidationLog(options: {
+    runId?: string;
+    action?: MemoryConsolidationAction;
+    limit?: number;
+  } = {}): MemoryConsolidationLogEntry[] {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (options.runId) {
+      conditions.push('run_id = ?');
+      params.push(options.runId);
+    }
+    if (options.action) {
+      conditions.push('action = ?');
+      params.push(options.action);
+    }
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const limit = Math.min(Math.max(1, options.limit || 50), 1000);
+
+    const rows = this.db
+      .query<ConsolidationLogRow>(`
+        SELECT * FROM memory_consolidation_log
+        ${whereClause}
+        ORDER BY id DESC
+        LIMIT ?
+      `)
+      .all(...params, limit);
+
+    return rows.map(row => ({
+      id: row.id,
+      runId: row.run_id,
+      action: row.action as MemoryConsolidationAction,
+      memoryIds: (this.parseJson(row.memory_ids) as string[]) || [],
+      details: (this.parseJson(row.details) as Record<string, unknown>) || {},
+      createdAt: row.created_at,
+    }));
+  }
+
+  /**
+   * Get the newest consolidation entry of an action for each set of
+   * memories it was recorded for, newest first. Unlike getConsolidationLog
+   * this is not capped, so older decisions are never forgotten.
+   */
+  getLatestConsolidations(action: MemoryConsolidationAction): MemoryConsolidationLogEntry[] {
+    const rows = this.db
+      .query<ConsolidationLogRow>(`
+        SELECT * FROM memory_consolidation_log
+        WHERE id IN (
+          SELECT MAX(id) FROM memory_consolidation_log
+          WHERE action = ?
+          GROUP BY memory_ids
+        )
+        ORDER BY id DESC
+      `)
+      .all(action);
+
+    return rows.map(row => ({
+      id: row.id,
+      runId: row.run_id,
+      action: row.action as MemoryConsolidationAction,
+      memoryIds: (this.parseJson(row.memory_ids) as string[]) || [],
+      details: (this.parseJson(row.details) as Record<string, unknown>) || {},
+      createdAt: row.created_at,
+    }));
+  }
+
   /**
    * Get current storage configuration
    */
@@ -886,6 +1047,13 @@ export class GlobalMemoryManager {
     return { ...this.config.storage };
   }
 
+  /**
+   * Get current consolidation configuration
+   */
+  getConsolidationConfig(): NonNullable<MemoryConfig['consolidation']> {
+    return { ...this.config.consolidation };
+  }
+
   /**
    * Export memories to JSON
    *
@@ -951,6 +1119,40 @@ export class GlobalMemoryManager {
     return imported;
   }
 
+  /**
+   * Load stored vectors for memories, embedding any that are missing or stale
+   */
+  async getEmbeddings(memories: Memory[]): Promise<Map<string, ArrayLike<number>>> {
+    const vectors = new Map<string, ArrayLike<number>>();
+    const byId = new Map(memories.map(memory => [memory.id, memory]));
+    const ids = Array.from(byId.keys());
+
+    // Chunk to stay well under SQLite's bound parameter limit
+    for (let i = 0; i < ids.length; i += 500) {
+      const chunk = ids.slice(i, i + 500);
+      const rows = this.db
+        .query<EmbeddingRow>(`
+          SELECT memory_id, embedder, source_updated_at, vector FROM memory_embeddings
+          WHERE memory_id IN (${chunk.map(() => '?').join(', ')})
+        `)
+        .all(...chunk);
+      for (const row of rows) {
+        const memory = byId.get(row.memory_id);
+        if (memory && row.embedder === this.embedder.id && row.source_updated_at === memory.updatedAt) {
+          vectors.set(row.memory_id, decodeVector(row.vector));
+        }
+      }
+    }
+
+    const missing = memories.filter(memory => !vectors.has(memory.id));
+    const indexed = await this.indexMemories(missing);
+    for (const [id, vector] of indexed) {
+      vectors.set(id, vector);
+    }
+
+    return vectors;
+  }
+
   /**
    * Close the database connection
    */
@@ -982,6 +1184,84 @@ export class GlobalMemoryManager {
     };
   }
 
+  /**
+   * Text embedded for a memory: key, summary, value and tags
+   */
+  private embeddingText(memory: Memory): string {
+    const value = typeof memory.value === 'string' ? memory.value : JSON.stringify(memory.value);
+    return [memory.key, memory.summary || '', value || '', memory.tags.join(' ')]
+      .join('\n')
+      .slice(0, MAX_EMBED_TEXT_LENGTH);
+  }
+
+  /**
+   * Embed memories and store their vectors. Indexing is best effort:
+   * memories that fail here are re-embedded the next time they are ranked.
+   */
+  private async indexMemories(memories: Memory[]): Promise<Map<string, ArrayLike<number>>> {
+    const vectors = new Map<string, ArrayLike<number>>();
+    if (memories.length === 0) return vectors;
+
+    try {
+      const embedded = await this.embedder.embed(memories.map(memory => this.embeddingText(memory)));
+      const stmt = this.db.prepare(`
+        INSERT OR REPLACE INTO memory_embeddings (memory_id, embedder, source_updated_at, vector)
+        VALUES (?, ?, ?, ?)
+      `);
+      memories.forEach((memory, index) => {
+        const vector = embedded[index];
+        if (!vector) return;
+        stmt.run(memory.id, this.embedder.id, memory.updatedAt, encodeVector(vector));
+        vectors.set(memory.id, vector);
+      });
+    } catch {
+      // Embedder unavailable - rank without similarity
+    }
+
+    return vectors;
+  }
+
+  /**
+   * Rank memories against a query by similarity, importance and recency
+   */
+  private async rank(text: string, memories: Memory[]): Promise<MemorySearchResult[]> {
+    if (memories.length === 0) return [];
+
+    const weights = this.config.search || {};
+    const similarityWeight = weights.similarityWeight ?? 0.6;
+    const importanceWeight = weights.importanceWeight ?? 0.25;
+    const recencyWeight = weights.recencyWeight ?? 0.15;
+    const halfLifeMs = (weights.recencyHalfLifeDays ?? 30) * DAY_MS;
+    const totalWeight = similarityWeight + importanceWeight + recencyWeight || 1;
+
+    let queryVector: ArrayLike<number> = [];
+    if (text.trim()) {
+      try {
+        [queryVector] = await this.embedder.embed([text.slice(0, MAX_EMBED_TEXT_LENGTH)]);
+      } catch {
+        queryVector = [];
+      }
+    }
+    const vectors = queryVector.length > 0 ? await this.getEmbeddings(memories) : new Map<string, ArrayLike<number>>();
+
+    const now = Date.now();
+    const results = memories.map((memory) => {
+      const vector = vectors.get(memory.id);
+      const similarity = vector ? cosineSimilarity(queryVector, vector) : 0;
+      const lastUsed = Date.parse(memory.accessedAt || memory.updatedAt);
+      const ageMs = Number.isNaN(lastUsed) ? Infinity : Math.max(0, now - lastUsed);
+      const recency = halfLifeMs > 0 ? Math.pow(0.5, ageMs / halfLifeMs) : 0;
+      const score = (
+        similarityWeight * Math.max(0, similarity)
+        + importanceWeight * Math.min(1, Math.max(0, memory.importance / 10))
+        + recencyWeight * recency
+      ) / totalWeight;
+      return { memory, score, similarity };
+    });
+
+    return results.sort((a, b) => b.score - a.score);
+  }
+
   private parseJson(value: string | null): unknown {
     if (!value) return null;
     try {
@@ -1010,6 +1290,22 @@ export class GlobalMemoryManager {
 // Internal Types
 // ============================================
 
+interface ConsolidationLogRow {
+  id: number;
+  run_id: string;
+  action: string;
+  memory_ids: string;
+  details: string | null;
+  created_at: string;
+}
+
+interface EmbeddingRow {
+  memory_id: string;
+  embedder: string;
+  source_updated_at: string;
+  vector: Uint8Array;
+}
+
 interface MemoryRow {
   id: string;
   scope: string;
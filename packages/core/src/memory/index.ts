@@ -16,5 +16,13 @@ export { MemoryStore } from './store';
 // Global Memory Manager
 export { GlobalMemoryManager } from './global-memory';
 
+// Embeddings
+export { HashingEmbedder, cosineSimilarity, tokenize } from './embeddings';
+export type { MemoryEmbedder } from './embeddings';
+
+// Consolidation
+export { MemoryConsolidator } from './consolidation';
+export type { MemoryConsolidatorOptions, ConsolidationRunOptions } from './consolidation';
+
 // Memory Injector
 export { MemoryInjector, buildContextInjection } from './injector';
@@ -84,6 +84,29 @@ export interface MemoryQueryResult {
   hasMore: boolean;
 }
 
+/**
+ * Options for semantic memory search
+ */
+export interface MemorySearchOptions {
+  scope?: MemoryScope;
+  category?: MemoryCategory;
+  minImportance?: number;
+  limit?: number;
+  /** Drop results whose similarity to the query is below this (default: 0.1) */
+  minSimilarity?: number;
+}
+
+/**
+ * A memory ranked against a search query or context
+ */
+export interface MemorySearchResult {
+  memory: Memory;
+  /** Hybrid ranking score (0-1) */
+  score: number;
+  /** Cosine similarity between the query and the memory (-1 to 1) */
+  similarity: number;
+}
+
 // ============================================
 // Memory Injection Types
 // ============================================
@@ -145,6 +168,54 @@ export interface MemoryAccessLog {
   timestamp: string;
 }
 
+// ============================================
+// Consolidation Types
+// ============================================
+
+/**
+ * What a consolidation pass did to a group of memories
+ */
+export type MemoryConsolidationAction = 'merge' | 'conflict' | 'decay';
+
+/**
+ * Audit trail entry written by a consolidation pass
+ */
+export interface MemoryConsolidationLogEntry {
+  id: number;
+  runId: string;
+  action: MemoryConsolidationAction;
+  /** Memories involved; for merges the first is the one kept */
+  memoryIds: string[];
+  /** Snapshots and reasons (merged-away memories, old/new importance, etc.) */
+  details: Record<string, unknown>;
+  createdAt: string;
+}
+
+/**
+ * Similar memories that disagree and need a user decision
+ */
+export interface MemoryConflict {
+  memories: Memory[];
+  reason: string;
+}
+
+/**
+ * Result of a consolidation pass
+ */
+export interface MemoryConsolidationReport {
+  runId: string;
+  dryRun: boolean;
+  /** Memories examined */
+  scanned: number;
+  /** Groups of similar memories found */
+  clusters: number;
+  merged: Array<{ kept: Memory; removed: Memory[] }>;
+  conflicts: MemoryConflict[];
+  decayed: Array<{ memory: Memory; from: number; to: number }>;
+  /** Clusters left alone (distinct memories or unusable model output) */
+  skipped: number;
+}
+
 // ============================================
 // Configuration Types
 // ============================================
@@ -170,6 +241,26 @@ export interface MemoryConfig {
     /** Maximum age of access log entries in milliseconds (default: 7 days) */
     maxAgeDays?: number;
   };
+  /** Consolidation pass settings */
+  consolidation?: {
+    /** Minimum similarity for two memories to be grouped (default: 0.75) */
+    similarityThreshold?: number;
+    /** Largest group sent for merging at once (default: 8) */
+    maxClusterSize?: number;
+    /** Days unused before importance decays by one point (default: 30) */
+    decayAfterDays?: number;
+  };
+  /** Hybrid ranking for getRelevant() and search() */
+  search?: {
+    /** Weight of semantic similarity (default: 0.6) */
+    similarityWeight?: number;
+    /** Weight of importance (default: 0.25) */
+    importanceWeight?: number;
+    /** Weight of recency (default: 0.15) */
+    recencyWeight?: number;
+    /** Days for the recency score to halve (default: 30) */
+    recencyHalfLifeDays?: number;
+  };
 }
 
 /**
@@ -196,4 +287,15 @@ export const DEFAULT_MEMORY_CONFIG: MemoryConfig = {
     maxEntries: 10000,
     maxAgeDays: 7,
   },
+  consolidation: {
+    similarityThreshold: 0.75,
+    maxClusterSize: 8,
+    decayAfterDays: 30,
+  },
+  search: {
+    similarityWeight: 0.6,
+    importanceWeight: 0.25,
+    recencyWeight: 0.15,
+    recencyHalfLifeDays: 30,
+  },
 };
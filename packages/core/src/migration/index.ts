@@ -1 +1,2 @@
 export * from './validators';
+export * from './sessions';
@@ -0,0 +1,70 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync } from 'fs';
+import { basename, join } from 'path';
+import { getConfigDir } from '../config';
+import type { SessionData } from '../logger';
+import { SessionLog } from '../sessions/session-log';
+import { assertNoExistingTarget } from './validators';
+
+/**
+ * Read a legacy whole-file session (`<id>.json`).
+ * Returns null for anything that is not a session transcript, e.g. the
+ * session registry metadata that shares the root sessions directory.
+ */
+export function readLegacySessionFile(path: string): SessionData | null {
+  try {
+    const data = JSON.parse(readFileSync(path, 'utf-8')) as Partial<SessionData>;
+    if (!data || !Array.isArray(data.messages)) return null;
+    return {
+      messages: data.messages,
+      startedAt: data.startedAt ?? data.updatedAt ?? new Date(0).toISOString(),
+      updatedAt: data.updatedAt ?? data.startedAt ?? new Date(0).toISOString(),
+      cwd: data.cwd ?? '',
+      parentSessionId: data.parentSessionId,
+      forkedFromCheckpointId: data.forkedFromCheckpointId,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Convert a legacy `<id>.json` session into an append-only `<id>.jsonl` log.
+ * The legacy file is moved to `migration/sessions/` under the config dir so
+ * nothing is lost. Returns the migrated data, or null if the file was not a
+ * session transcript.
+ */
+export function migrateLegacySessionFile(legacyPath: string, backupDir?: string): SessionData | null {
+  const data = readLegacySessionFile(legacyPath);
+  if (!data) return null;
+
+  const logPath = legacyPath.replace(/\.json$/, '.jsonl');
+  assertNoExistingTarget(logPath);
+  new SessionLog(logPath).write(data);
+
+  const targetDir = backupDir ?? join(getConfigDir(), 'migration', 'sessions');
+  try {
+    mkdirSync(targetDir, { recursive: true });
+    renameSync(legacyPath, join(targetDir, basename(legacyPath)));
+  } catch {
+    // The log wins over the legacy file once it exists; a leftover copy is harmless
+  }
+  return data;
+}
+
+/**
+ * Migrate every legacy session file in a sessions directory.
+ * Returns the IDs of the migrated sessions.
+ */
+export function migrateLegacySessions(sessionsDir: string, backupDir?: string): string[] {
+  if (!existsSync(sessionsDir)) return [];
+  const migrated: string[] = [];
+  for (const file of readdirSync(sessionsDir)) {
+    if (!file.endsWith('.json')) continue;
+    const legacyPath = join(sessionsDir, file);
+    if (existsSync(legacyPath.replace(/\.json$/, '.jsonl'))) continue;
+    if (migrateLegacySessionFile(legacyPath, backupDir)) {
+      migrated.push(file.replace(/\.json$/, ''));
+    }
+  }
+  return migrated;
+}
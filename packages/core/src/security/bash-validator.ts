@@ -1,51 +1,39 @@
 import type { Severity } from './types';
-
-const DANGEROUS_PATTERNS: Array<{ pattern: RegExp; reason: string; severity: Severity }> = [
-  { pattern: /\$\([^)]*\)/, reason: 'Command substitution detected', severity: 'high' },
-  { pattern: /`[^`]*`/, reason: 'Backtick command substitution detected', severity: 'high' },
-  { pattern: />\s*\/dev\/sd[a-z]/i, reason: 'Direct disk device write detected', severity: 'critical' },
-  { pattern: /\|\s*(bash|sh|zsh|fish)\b/i, reason: 'Piping to shell detected', severity: 'high' },
-  { pattern: /\beval\s+/i, reason: 'Eval command detected', severity: 'high' },
-  { pattern: /\bmkfs\b/i, reason: 'Filesystem formatting detected', severity: 'critical' },
-  { pattern: /\bdd\s+/i, reason: 'Disk overwrite command detected', severity: 'critical' },
-  { pattern: /:\s*\(\)\s*\{\s*:\s*\|\s*:\s*&\s*}\s*;/, reason: 'Fork bomb detected', severity: 'critical' },
-];
-
-const BLOCKED_COMMANDS = [
-  'rm -rf /',
-  'rm -rf /*',
-  'mkfs',
-  'dd if=/dev/zero',
-];
+import { analyzeShellCommand, type ShellAnalysis, type ShellAnalysisOptions } from './shell-analyzer';
 
 export interface BashValidationResult {
   valid: boolean;
   reason?: string;
   severity?: Severity;
+  /** Parsed classification of the command */
+  analysis?: ShellAnalysis;
 }
 
-export function validateBashCommand(command: string): BashValidationResult {
-  const normalized = command.toLowerCase();
+/** Risks at these severities block a command */
+const BLOCKING_SEVERITIES: Severity[] = ['high', 'critical'];
+
+export function validateBashCommand(command: string, options: ShellAnalysisOptions = {}): BashValidationResult {
+  const analysis = analyzeShellCommand(command, options);
 
-  for (const blocked of BLOCKED_COMMANDS) {
-    if (normalized.includes(blocked)) {
-      return {
-        valid: false,
-        reason: `Blocked command pattern: ${blocked}`,
-        severity: 'critical',
-      };
-    }
+  if (analysis.error) {
+    return {
+      valid: false,
+      reason: `Could not parse command: ${analysis.error}`,
+      severity: 'medium',
+      analysis,
+    };
   }
 
-  for (const entry of DANGEROUS_PATTERNS) {
-    if (entry.pattern.test(command)) {
-      return {
-        valid: false,
-        reason: entry.reason,
-        severity: entry.severity,
-      };
-    }
+  // Risks are sorted most severe first
+  const risk = analysis.risks[0];
+  if (risk && BLOCKING_SEVERITIES.includes(risk.severity)) {
+    return {
+      valid: false,
+      reason: risk.reason,
+      severity: risk.severity,
+      analysis,
+    };
   }
 
-  return { valid: true };
+  return { valid: true, analysis };
 }
@@ -1,5 +1,7 @@
 export * from './types';
 export * from './logger';
+export * from './shell-parser';
+export * from './shell-analyzer';
 export * from './bash-validator';
 export * from './path-validator';
 export * from './network-validator';
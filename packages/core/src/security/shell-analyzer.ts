@@ -0,0 +1,1104 @@
+import { homedir } from 'os';
+import { basename, isAbsolute, relative, resolve, sep } from 'path';
+import type { Severity } from './types';
+import {
+  parseShell,
+  ShellParseError,
+  type ShellCommandNode,
+  type ShellList,
+  type ShellPipeline,
+  type ShellRedirect,
+  type ShellSimpleCommand,
+  type ShellWord,
+} from './shell-parser';
+
+/**
+ * What a shell command does, from least to most dangerous
+ */
+export type ShellEffect = 'read_only' | 'writes_workspace' | 'network' | 'writes_outside' | 'destructive';
+
+/** Effects ordered by severity (later = more dangerous) */
+export const SHELL_EFFECT_ORDER: ShellEffect[] = [
+  'read_only',
+  'writes_workspace',
+  'network',
+  'writes_outside',
+  'destructive',
+];
+
+/**
+ * A finding worth blocking or reporting
+ */
+export interface ShellRisk {
+  severity: Severity;
+  reason: string;
+}
+
+/**
+ * One simple command found in the command line
+ */
+export interface AnalyzedShellCommand {
+  /** Program name (basename of the first word) */
+  name: string;
+  /** Words after quote removal */
+  argv: string[];
+  /** argv joined with single spaces, used for pattern matching */
+  text: string;
+  /** Command without global options (git -C repo push -> git push), also matched by patterns */
+  subcommandText?: string;
+  effects: ShellEffect[];
+  /** Paths the command writes or deletes */
+  writes: string[];
+}
+
+/**
+ * Result of analyzing a command line
+ */
+export interface ShellAnalysis {
+  source: string;
+  /** Every simple command, including nested ones (substitutions, sudo, xargs, find -exec) */
+  commands: AnalyzedShellCommand[];
+  /** Union of all command effects, least dangerous first */
+  effects: ShellEffect[];
+  /** Most dangerous effect */
+  classification: ShellEffect;
+  risks: ShellRisk[];
+  /** Whether $(...) or `...` is used */
+  hasSubstitution: boolean;
+  /** Whether commands are sequenced with ';', newlines or '&' */
+  hasSequence: boolean;
+  /** Parse error, when the command is not valid shell */
+  error?: string;
+}
+
+export interface ShellAnalysisOptions {
+  /** Workspace directory; writes elsewhere are 'writes_outside' (default: process.cwd()) */
+  cwd?: string;
+  /** Home directory used to expand ~ (default: os.homedir()) */
+  home?: string;
+}
+
+type PathClass = 'workspace' | 'outside' | 'device' | 'discard';
+
+const SEVERITY_ORDER: Severity[] = ['low', 'medium', 'high', 'critical'];
+
+const READ_ONLY_COMMANDS = new Set([
+  'cat', 'head', 'tail', 'less', 'more', 'ls', 'tree', 'locate', 'grep', 'egrep', 'fgrep', 'rg', 'ag',
+  'ack', 'wc', 'file', 'stat', 'du', 'df', 'pwd', 'whoami', 'id', 'date', 'which', 'where', 'whereis',
+  'type', 'printenv', 'echo', 'printf', 'true', 'false', 'test', '[', '[[', ']]', 'basename', 'dirname',
+  'realpath', 'readlink', 'uniq', 'cut', 'tr', 'column', 'nl', 'od', 'xxd', 'hexdump', 'strings',
+  'md5sum', 'sha1sum', 'sha256sum', 'shasum', 'cksum', 'diff', 'cmp', 'comm', 'jq', 'yq', 'seq',
+  'sleep', 'uname', 'hostname', 'ps', 'uptime', 'free', 'man', 'help', 'history', 'tac', 'rev', 'fold',
+  'fmt', 'expand', 'unexpand', 'paste', 'join', 'look', 'base64', 'expr', 'bc', 'cal', 'lsof', 'tput',
+  'groups', 'getconf', 'nproc', 'arch', 'lsblk', 'sum', 'yes', 'time',
+  // Shell builtins that only change shell state
+  ':', 'cd', 'pushd', 'popd', 'dirs', 'export', 'set', 'unset', 'shift', 'local', 'declare',
+  'typeset', 'readonly', 'return', 'exit', 'alias', 'unalias', 'hash', 'wait', 'trap', 'shopt',
+  'let', 'break', 'continue', 'read', 'getopts', 'umask', 'ulimit', 'jobs', 'fg', 'bg', 'disown',
+]);
+
+/** Words that start or end compound statements; they are not commands */
+const LEADING_KEYWORDS = new Set(['if', 'then', 'elif', 'else', 'do', 'while', 'until', '!', 'time']);
+const STATEMENT_KEYWORDS = new Set(['for', 'select', 'case', 'in', 'fi', 'done', 'esac', '}', '{']);
+
+const SHELLS = new Set(['bash', 'sh', 'zsh', 'fish', 'dash', 'ksh', 'csh', 'tcsh']);
+const INTERPRETERS = new Set(['python', 'python3', 'python2', 'node', 'ruby', 'perl', 'php', 'deno', 'lua', 'Rscript']);
+const NETWORK_COMMANDS = new Set([
+  'curl', 'wget', 'ssh', 'scp', 'sftp', 'rsync', 'ftp', 'telnet', 'nc', 'ncat', 'netcat', 'socat',
+  'ping', 'dig', 'nslookup', 'host', 'whois', 'traceroute', 'http', 'https', 'xh', 'aria2c', 'gh',
+]);
+const PACKAGE_MANAGERS = new Set(['npm', 'pnpm', 'yarn', 'bun', 'pip', 'pip3', 'uv', 'poetry', 'cargo', 'go', 'gem', 'composer']);
+const SYSTEM_PACKAGE_MANAGERS = new Set(['apt', 'apt-get', 'yum', 'dnf', 'brew', 'pacman', 'apk', 'snap', 'port']);
+const BUILD_COMMANDS = new Set(['make', 'cmake', 'ninja', 'tsc', 'gradle', 'mvn', 'ant', 'bazel', 'vite', 'webpack', 'esbuild']);
+const EDITORS = new Set(['vi', 'vim', 'nvim', 'nano', 'emacs', 'code', 'ed']);
+const WRAPPERS = new Set(['nice', 'nohup', 'command', 'builtin', 'exec', 'stdbuf', 'ionice', 'caffeinate', 'chronic']);
+const SYSTEM_COMMANDS = new Set([
+  'kill', 'pkill', 'killall', 'systemctl', 'service', 'launchctl', 'crontab', 'mount', 'umount', 'swapon', 'swapoff',
+  'iptables', 'ufw', 'useradd', 'usermod', 'groupadd', 'passwd', 'chsh', 'sysctl', 'modprobe', 'insmod',
+  'rmmod', 'hostnamectl', 'timedatectl', 'defaults', 'osascript',
+]);
+const DESTRUCTIVE_COMMANDS: Record<string, string> = {
+  mkfs: 'Filesystem formatting detected',
+  mkswap: 'Filesystem formatting detected',
+  wipefs: 'Filesystem signature wipe detected',
+  fdisk: 'Disk partitioning detected',
+  sfdisk: 'Disk partitioning detected',
+  gdisk: 'Disk partitioning detected',
+  parted: 'Disk partitioning detected',
+  shutdown: 'System shutdown detected',
+  reboot: 'System reboot detected',
+  halt: 'System shutdown detected',
+  poweroff: 'System shutdown detected',
+  userdel: 'User deletion detected',
+};
+
+const GIT_READ_ONLY = new Set([
+  'status', 'log', 'diff', 'show', 'blame', 'describe', 'shortlog', 'rev-parse', 'rev-list', 'ls-files',
+  'ls-tree', 'cat-file', 'grep', 'reflog', 'whatchanged', 'name-rev', 'merge-base', 'count-objects',
+  'show-ref', 'for-each-ref', 'check-ignore', 'help', 'version', '--version',
+]);
+const GIT_NETWORK = new Set(['clone', 'fetch', 'pull', 'push', 'ls-remote', 'submodule']);
+
+/** find options that do not narrow which files are matched */
+const FIND_UNFILTERED = new Set(['-delete', '-depth', '-maxdepth', '-mindepth', '-xdev', '-mount', '-print', '-print0', '-follow', '-L', '-H', '-P']);
+
+const DISCARD_PATHS = new Set(['/dev/null', '/dev/stdout', '/dev/stderr', '/dev/tty', '-']);
+const DEVICE_PATH = /^\/dev\/(sd[a-z]|hd[a-z]|nvme\d|mmcblk\d|xvd[a-z]|vd[a-z]|disk\d|rdisk\d|md\d|dm-\d)/;
+
+interface CommandState {
+  command: AnalyzedShellCommand;
+  /** Whether stdin comes from a previous command in a pipeline */
+  piped: boolean;
+  /** Whether a previous command in the pipeline uses the network */
+  pipedFromNetwork: boolean;
+}
+
+/**
+ * Walks a parsed command line and classifies every command
+ */
+class ShellAnalyzer {
+  private commands: AnalyzedShellCommand[] = [];
+  private risks: ShellRisk[] = [];
+  private functions = new Map<string, ShellCommandNode>();
+  private expanding = new Set<string>();
+  private hasSubstitution = false;
+  private hasSequence = false;
+  private cwd: string;
+  /** Directory the shell is in after `cd`, or null once it cannot be known */
+  private dir: string | null;
+  private home: string;
+  private depth = 0;
+
+  constructor(options: ShellAnalysisOptions) {
+    this.cwd = resolve(options.cwd ?? process.cwd());
+    this.dir = this.cwd;
+    this.home = options.home ?? homedir();
+  }
+
+  analyze(source: string): ShellAnalysis {
+    let error: string | undefined;
+    try {
+      this.visitList(parseShell(source));
+    } catch (err) {
+      if (!(err instanceof ShellParseError)) throw err;
+      error = err.message;
+      this.risks.push({ severity: 'medium', reason: `Could not parse command: ${err.message}` });
+    }
+
+    const effects = new Set<ShellEffect>();
+    for (const command of this.commands) {
+      for (const effect of command.effects) effects.add(effect);
+    }
+    if (effects.size === 0) effects.add(error ? 'writes_outside' : 'read_only');
+    const sorted = SHELL_EFFECT_ORDER.filter((effect) => effects.has(effect));
+
+    return {
+      source,
+      commands: this.commands,
+      effects: sorted,
+      classification: sorted[sorted.length - 1],
+      risks: [...this.risks].sort(
+        (a, b) => SEVERITY_ORDER.indexOf(b.severity) - SEVERITY_ORDER.indexOf(a.severity)
+      ),
+      hasSubstitution: this.hasSubstitution,
+      hasSequence: this.hasSequence,
+      error,
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // AST traversal
+  // ---------------------------------------------------------------------------
+
+  private visitList(list: ShellList): void {
+    for (const item of list.items) {
+      if (item.separator === ';' || item.separator === '&') {
+        // A trailing ';' or '&' does not chain another command
+        if (item !== list.items[list.items.length - 1] || item.separator === '&') {
+          this.hasSequence = true;
+        }
+      }
+      this.visitPipeline(item.pipeline);
+    }
+  }
+
+  private visitPipeline(pipeline: ShellPipeline): void {
+    // Each side of a pipe runs in a subshell, so `cd` there does not stick
+    const dir = this.dir;
+    let pipedFromNetwork = false;
+    pipeline.commands.forEach((node, index) => {
+      const before = this.commands.length;
+      this.visitCommand(node, index > 0, pipedFromNetwork);
+      if (this.commands.slice(before).some((command) => command.effects.includes('network'))) {
+        pipedFromNetwork = true;
+      }
+    });
+    if (pipeline.commands.length > 1) this.dir = dir;
+  }
+
+  private visitCommand(node: ShellCommandNode, piped: boolean, pipedFromNetwork: boolean): void {
+    if (node.type === 'function') {
+      this.functions.set(node.name, node.body);
+      this.checkForkBomb(node.name, node.body);
+      return;
+    }
+    if (node.type === 'simple') {
+      this.visitSimple(node, piped, pipedFromNetwork);
+      return;
+    }
+    const dir = this.dir;
+    this.visitList(node.body);
+    if (node.type === 'subshell') this.dir = dir;
+    this.visitRedirects(node.redirects, null);
+  }
+
+  private visitSimple(node: ShellSimpleCommand, piped: boolean, pipedFromNetwork: boolean): void {
+    for (const word of [...node.assignments, ...node.words]) {
+      this.visitSubstitutions(word);
+    }
+
+    let words = node.words;
+    while (words.length > 0 && !words[0].quoted && LEADING_KEYWORDS.has(words[0].value)) {
+      words = words.slice(1);
+    }
+
+    if (words.length === 0 || (!words[0].quoted && STATEMENT_KEYWORDS.has(words[0].value))) {
+      // Bare assignments, redirects or statement keywords
+      const command = this.addCommand([]);
+      this.visitRedirects(node.redirects, command);
+      if (command.effects.length === 0) command.effects.push('read_only');
+      return;
+    }
+
+    const command = this.addCommand(words.map((word) => word.value));
+    this.visitRedirects(node.redirects, command);
+
+    const functionBody = this.functions.get(words[0].value);
+    if (functionBody && !this.expanding.has(words[0].value)) {
+      this.expanding.add(words[0].value);
+      this.addEffect(command, 'read_only');
+      this.visitCommand(functionBody, piped, pipedFromNetwork);
+      this.expanding.delete(words[0].value);
+      return;
+    }
+
+    this.classify({ command, piped, pipedFromNetwork }, words);
+    if (command.effects.length === 0) command.effects.push('read_only');
+  }
+
+  private visitSubstitutions(word: ShellWord): void {
+    for (const substitution of word.substitutions) {
+      if (substitution.kind === 'command') {
+        this.hasSubstitution = true;
+        this.addRisk('high', 'Command substitution detected');
+      } else if (substitution.kind === 'backtick') {
+        this.hasSubstitution = true;
+        this.addRisk('high', 'Backtick command substitution detected');
+      }
+      const dir = this.dir;
+      this.nested(() => this.visitList(substitution.body));
+      this.dir = dir;
+    }
+  }
+
+  private visitRedirects(redirects: ShellRedirect[], command: AnalyzedShellCommand | null): void {
+    for (const redirect of redirects) {
+      this.visitSubstitutions(redirect.target);
+      const writes = redirect.op.includes('>') && redirect.op !== '<>'
+        ? !(redirect.op === '>&' && /^(\d+|-)$/.test(redirect.target.value))
+        : redirect.op === '<>';
+      if (!writes) continue;
+      const target = command ?? this.addCommand([]);
+      this.write(target, redirect.target, 'Direct disk device write detected');
+    }
+  }
+
+  private checkForkBomb(name: string, body: ShellCommandNode): void {
+    const calls = (list: ShellList): boolean => list.items.some((item) => {
+      const selfCalls = item.pipeline.commands.filter((command) =>
+        command.type === 'simple' && command.words[0]?.value === name
+      ).length;
+      if (selfCalls > 1 || (selfCalls > 0 && item.separator === '&')) return true;
+      return item.pipeline.commands.some((command) =>
+        (command.type === 'group' || command.type === 'subshell') && calls(command.body)
+      );
+    });
+    if ((body.type === 'group' || body.type === 'subshell') && calls(body.body)) {
+      const command = this.addCommand([name]);
+      this.addEffect(command, 'destructive');
+      this.addRisk('critical', 'Fork bomb detected');
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Command classification
+  // ---------------------------------------------------------------------------
+
+  private classify(state: CommandState, words: ShellWord[]): void {
+    const { command } = state;
+    const name = basename(words[0].value);
+    const args = words.slice(1);
+    const values = args.map((word) => word.value);
+    command.name = name;
+
+    if (name.startsWith('mkfs') || DESTRUCTIVE_COMMANDS[name]) {
+      this.addEffect(command, 'destructive');
+      this.addRisk('critical', DESTRUCTIVE_COMMANDS[name] ?? 'Filesystem formatting detected');
+      return;
+    }
+
+    if (name === 'cd' || name === 'pushd') {
+      const target = operands(args)[0];
+      this.dir = target ? this.expandPath(target.value) : this.home;
+      this.addEffect(command, 'read_only');
+      return;
+    }
+
+    if (READ_ONLY_COMMANDS.has(name)) {
+      this.addEffect(command, 'read_only');
+      return;
+    }
+
+    switch (name) {
+      case 'rm':
+      case 'rmdir':
+      case 'unlink':
+      case 'shred': {
+        const recursive = name === 'rm' && hasFlag(values, ['r', 'R'], ['--recursive']);
+        const targets = operands(args);
+        if (targets.length === 0) this.addEffect(command, 'writes_workspace');
+        for (const target of targets) {
+          this.write(command, target);
+          if ((recursive || name === 'shred') && this.isCriticalTarget(target)) {
+            this.addEffect(command, 'destructive');
+            this.addRisk('critical', `Blocked command: ${name === 'shred' ? 'shred' : 'recursive delete'} of ${target.value}`);
+          }
+        }
+        return;
+      }
+      case 'find':
+        this.classifyFind(state, args);
+        return;
+      case 'cp':
+      case 'scp':
+      case 'rsync': {
+        const targets = operands(args, ['-t', '--target-directory', '-e', '--rsh', '-i', '-P', '-o', '-F', '-J']);
+        const remote = targets.some((target) => /^[^/]*:/.test(target.value) && !target.value.startsWith('./'));
+        if (remote || name === 'scp') this.addEffect(command, 'network');
+        const destination = optionValue(args, ['-t', '--target-directory']) ?? targets[targets.length - 1];
+        if (destination && !/^[^/]*:/.test(destination.value)) {
+          this.write(command, destination);
+        } else if (!destination) {
+          this.addEffect(command, 'writes_workspace');
+        }
+        if (name === 'rsync' && hasFlag(values, [], ['--delete', '--delete-before', '--delete-after', '--delete-during'])
+          && destination && this.isCriticalTarget(destination)) {
+          this.addEffect(command, 'destructive');
+          this.addRisk('critical', `Blocked command: rsync --delete into ${destination.value}`);
+        }
+        return;
+      }
+      case 'mv':
+      case 'ln':
+      case 'install':
+      case 'touch':
+      case 'mkdir':
+      case 'truncate':
+      case 'mkfifo':
+      case 'mknod':
+      case 'tee': {
+        const targets = operands(args, ['-t', '--target-directory', '-m', '--mode', '-s', '--size', '-o', '-g']);
+        if (targets.length === 0) this.addEffect(command, name === 'tee' ? 'read_only' : 'writes_workspace');
+        for (const target of targets) this.write(command, target);
+        return;
+      }
+      case 'chmod':
+      case 'chown':
+      case 'chgrp': {
+        const recursive = hasFlag(values, ['R'], ['--recursive']);
+        const [, ...targets] = operands(args);
+        if (targets.length === 0) this.addEffect(command, 'writes_workspace');
+        for (const target of targets) {
+          this.write(command, target);
+          if (recursive && this.isCriticalTarget(target)) {
+            this.addEffect(command, 'destructive');
+            this.addRisk('critical', `Blocked command: recursive ${name} of ${target.value}`);
+          }
+        }
+        return;
+      }
+      case 'sed':
+      case 'perl': {
+        const inPlace = values.some((value) => /^-[A-Za-z]*i/.test(value) || value.startsWith('--in-place'));
+        if (!inPlace) {
+          if (name === 'perl') {
+            this.classifyInterpreter(state, args);
+          } else {
+            this.addEffect(command, 'read_only');
+          }
+          return;
+        }
+        const scriptGiven = values.some((value) => value === '-e' || value === '-f' || value.startsWith('--expression'));
+        const targets = operands(args, ['-e', '-f', '--expression', '--file']);
+        for (const target of scriptGiven ? targets : targets.slice(1)) this.write(command, target);
+        if (command.effects.length === 0) this.addEffect(command, 'writes_workspace');
+        return;
+      }
+      case 'awk':
+      case 'gawk':
+      case 'mawk':
+      case 'nawk': {
+        const inPlace = values.some((value, i) => value === '-i' && values[i + 1] === 'inplace');
+        const program = operands(args, ['-f', '-v', '-F', '-i'])[0]?.value ?? '';
+        if (inPlace) {
+          for (const target of operands(args, ['-f', '-v', '-F', '-i']).slice(1)) this.write(command, target);
+        } else if (/\bsystem\s*\(|\|\s*"|>\s*"/.test(program)) {
+          this.addEffect(command, 'writes_workspace');
+          this.addRisk('medium', 'awk program runs commands or writes files');
+        } else {
+          this.addEffect(command, 'read_only');
+        }
+        return;
+      }
+      case 'sort': {
+        const output = optionValue(args, ['-o', '--output']);
+        if (output) {
+          this.write(command, output);
+        } else {
+          this.addEffect(command, 'read_only');
+        }
+        return;
+      }
+      case 'dd': {
+        const output = args.find((word) => word.value.startsWith('of='));
+        if (output) {
+          this.write(command, { ...output, value: output.value.slice(3) }, 'Disk overwrite command detected');
+        } else {
+          this.addEffect(command, 'read_only');
+        }
+        return;
+      }
+      case 'curl':
+        this.classifyCurl(command, args);
+        return;
+      case 'wget':
+        this.classifyWget(command, args);
+        return;
+      case 'git':
+        this.classifyGit(command, args);
+        return;
+      case 'eval': {
+        this.addRisk('high', 'Eval command detected');
+        this.addEffect(command, 'writes_workspace');
+        this.nestedSource(values.join(' '));
+        return;
+      }
+      case 'source':
+      case '.':
+        this.addEffect(command, 'writes_workspace');
+        this.addRisk('medium', 'Sources a script into the shell');
+        return;
+      case 'sudo':
+      case 'doas':
+      case 'su': {
+        this.addEffect(command, 'writes_outside');
+        this.addRisk('medium', 'Privilege escalation detected');
+        if (name === 'su') {
+          const script = optionValue(args, ['-c', '--command']);
+          if (script) this.nestedSource(script.value);
+          return;
+        }
+        this.inner(state, skipOptions(args, ['-u', '-g', '-U', '-C', '-h', '-p', '-r', '-t', '-D']));
+        return;
+      }
+      case 'env': {
+        let rest = skipOptions(args, ['-u', '--unset', '-C', '--chdir', '-S']);
+        while (rest.length > 0 && isAssignmentWord(rest[0])) rest = rest.slice(1);
+        if (rest.length === 0) {
+          this.addEffect(command, 'read_only');
+        } else {
+          this.inner(state, rest);
+        }
+        return;
+      }
+      case 'timeout':
+      case 'watch': {
+        const rest = skipOptions(args, ['-s', '--signal', '-k', '--kill-after', '-n', '--interval']);
+        this.inner(state, name === 'timeout' ? rest.slice(1) : rest);
+        return;
+      }
+      case 'xargs': {
+        const rest = skipOptions(args, ['-I', '-i', '-n', '-P', '-L', '-d', '-E', '-s', '-a']);
+        this.inner(state, rest.length > 0 ? rest : [literalWord('echo')]);
+        return;
+      }
+      case 'nc':
+      case 'ncat':
+      case 'netcat':
+        this.addEffect(command, 'network');
+        if (hasFlag(values, ['l'], ['--listen'])) {
+          this.addRisk('medium', 'Listens for network connections');
+        }
+        return;
+    }
+
+    if (WRAPPERS.has(name)) {
+      this.inner(state, skipOptions(args, ['-n', '--adjustment', '-i', '-o', '-e', '-c']));
+      return;
+    }
+
+    if (SHELLS.has(name)) {
+      this.classifyShell(state, args);
+      return;
+    }
+
+    if (INTERPRETERS.has(name)) {
+      this.classifyInterpreter(state, args);
+      return;
+    }
+
+    if (NETWORK_COMMANDS.has(name)) {
+      this.addEffect(command, 'network');
+      return;
+    }
+
+    if (SYSTEM_PACKAGE_MANAGERS.has(name)) {
+      const sub = operands(args)[0]?.value ?? '';
+      if (['install', 'upgrade', 'update', 'remove', 'uninstall', 'purge', 'reinstall', 'tap'].includes(sub)) {
+        this.addEffect(command, 'network');
+        this.addEffect(command, 'writes_outside');
+      } else {
+        this.addEffect(command, 'read_only');
+      }
+      return;
+    }
+
+    if (PACKAGE_MANAGERS.has(name)) {
+      this.classifyPackageManager(state, name, args);
+      return;
+    }
+
+    if (BUILD_COMMANDS.has(name) || EDITORS.has(name)) {
+      this.addEffect(command, 'writes_workspace');
+      return;
+    }
+
+    if (SYSTEM_COMMANDS.has(name)) {
+      // Bare `mount` (or `mount -l`) only lists mounted filesystems
+      const listsMounts = name === 'mount' && values.every((value) => value === '-l');
+      this.addEffect(command, listsMounts ? 'read_only' : 'writes_outside');
+      return;
+    }
+
+    if (name === 'docker' || name === 'podman' || name === 'kubectl') {
+      const sub = operands(args)[0]?.value ?? '';
+      if (['ps', 'images', 'logs', 'inspect', 'get', 'describe', 'version', 'info', 'top', 'stats'].includes(sub)) {
+        this.addEffect(command, 'read_only');
+      } else {
+        this.addEffect(command, 'network');
+        this.addEffect(command, 'writes_outside');
+      }
+      return;
+    }
+
+    // Unknown programs may do anything inside the workspace
+    this.addEffect(command, 'writes_workspace');
+  }
+
+  private classifyFind(state: CommandState, args: ShellWord[]): void {
+    const { command } = state;
+    const roots: ShellWord[] = [];
+    let i = 0;
+    while (i < args.length && !/^[-(!]/.test(args[i].value)) {
+      roots.push(args[i]);
+      i++;
+    }
+    const searchRoots = roots.length > 0 ? roots : [literalWord('.')];
+    // A filtered delete (-name, -type, ...) inside the workspace is routine cleanup
+    const filtered = args.slice(i).some((word) => /^-/.test(word.value) && !FIND_UNFILTERED.has(word.value));
+    this.addEffect(command, 'read_only');
+
+    for (; i < args.length; i++) {
+      const value = args[i].value;
+      if (value === '-delete') {
+        for (const root of searchRoots) {
+          this.write(command, root);
+          if (this.isCriticalTarget(root, !filtered)) {
+            this.addEffect(command, 'destructive');
+            this.addRisk('critical', `Blocked command: find -delete under ${root.value}`);
+          }
+        }
+      } else if (['-exec', '-execdir', '-ok', '-okdir'].includes(value)) {
+        const inner: ShellWord[] = [];
+        i++;
+        while (i < args.length && args[i].value !== ';' && args[i].value !== '+') {
+          const word = args[i];
+          // {} stands for the files found under the search roots
+          inner.push(word.value === '{}' ? searchRoots[0] : word);
+          i++;
+        }
+        if (inner.length > 0) this.inner(state, inner);
+      } else if (['-fprint', '-fprint0', '-fprintf', '-fls'].includes(value) && args[i + 1]) {
+        this.write(command, args[i + 1]);
+        i++;
+      }
+    }
+  }
+
+  private classifyCurl(command: AnalyzedShellCommand, args: ShellWord[]): void {
+    this.addEffect(command, 'network');
+    for (let i = 0; i < args.length; i++) {
+      const value = args[i].value;
+      if ((value === '-o' || value === '--output') && args[i + 1]) {
+        this.write(command, args[i + 1]);
+        i++;
+      } else if (value.startsWith('--output=')) {
+        this.write(command, { ...args[i], value: value.slice('--output='.length) });
+      } else if (/^-[A-Za-z]*O/.test(value) || value === '--remote-name' || value === '--remote-name-all') {
+        this.addEffect(command, 'writes_workspace');
+      } else if (/^-[A-Za-z]*o$/.test(value) && args[i + 1]) {
+        this.write(command, args[i + 1]);
+        i++;
+      }
+    }
+  }
+
+  private classifyWget(command: AnalyzedShellCommand, args: ShellWord[]): void {
+    this.addEffect(command, 'network');
+    if (args.some((word) => word.value === '--spider')) return;
+    const output = optionValue(args, ['-O', '--output-document']) ?? attachedOption(args, '-O');
+    if (output) {
+      this.write(command, output);
+      return;
+    }
+    const prefix = optionValue(args, ['-P', '--directory-prefix']);
+    if (prefix) {
+      this.write(command, prefix);
+      return;
+    }
+    this.addEffect(command, 'writes_workspace');
+  }
+
+  private classifyGit(command: AnalyzedShellCommand, args: ShellWord[]): void {
+    // Skip global options such as -C <dir> and -c key=value
+    let i = 0;
+    while (i < args.length && args[i].value.startsWith('-') && args[i].value !== '--version') {
+      const option = args[i].value.split('=')[0];
+      const attached = args[i].value.includes('=');
+      if (option === '-c' || option === '--config-env' || (option === '--exec-path' && attached)) {
+        // Config such as core.fsmonitor or core.pager runs arbitrary programs
+        this.addEffect(command, 'writes_outside');
+        this.addRisk('high', `Blocked command: git ${option} can run arbitrary programs`);
+      } else if (['-C', '--git-dir', '--work-tree'].includes(option)) {
+        // Another repository's config and hooks apply
+        this.addEffect(command, 'writes_outside');
+      }
+      if (['-C', '-c', '--config-env', '--git-dir', '--work-tree', '--namespace'].includes(option) && !attached) i++;
+      i++;
+    }
+    const sub = args[i]?.value ?? '';
+    const rest = args.slice(i + 1).map((word) => word.value);
+    command.subcommandText = ['git', sub, ...rest].join(' ');
+
+    // Diff options write their output to a file (git log --output=patch.txt)
+    for (let j = i + 1; j < args.length; j++) {
+      const value = args[j].value;
+      if (value === '--output' && args[j + 1]) {
+        this.write(command, args[j + 1]);
+        j++;
+      } else if (value.startsWith('--output=')) {
+        this.write(command, { ...args[j], value: value.slice('--output='.length) });
+      }
+    }
+
+    if (!sub || GIT_READ_ONLY.has(sub)) {
+      this.addEffect(command, 'read_only');
+      return;
+    }
+
+    if (GIT_NETWORK.has(sub)) {
+      this.addEffect(command, 'network');
+      if (sub !== 'ls-remote') this.addEffect(command, 'writes_workspace');
+      if (sub === 'push' && rest.some((value) => value === '--force' || value === '-f' || /^\+/.test(value))) {
+        this.addEffect(command, 'destructive');
+        this.addRisk('medium', 'Force push rewrites remote history');
+      }
+      return;
+    }
+
+    const listOnly = rest.length === 0 || rest.every((value) => /^(-v|-vv|-a|-r|--list|-l|--show-current|--verbose|--all|--remotes)$/.test(value));
+    if (['branch', 'tag', 'remote', 'stash', 'config', 'worktree'].includes(sub)) {
+      if (listOnly || (sub === 'stash' && ['list', 'show'].includes(rest[0]))
+        || (sub === 'config' && rest.some((value) => value === '--get' || value === '--list' || value === '-l'))
+        || (sub === 'remote' && ['show', 'get-url'].includes(rest[0]))
+        || (sub === 'worktree' && rest[0] === 'list')) {
+        this.addEffect(command, 'read_only');
+        return;
+      }
+    }
+
+    this.addEffect(command, 'writes_workspace');
+    if ((sub === 'reset' && rest.includes('--hard'))
+      || (sub === 'clean' && rest.some((value) => /^-[A-Za-z]*f/.test(value) || value === '--force'))
+      || (sub === 'checkout' && rest[0] === '--' && rest[1] === '.')
+      || (sub === 'branch' && rest.some((value) => value === '-D'))) {
+      this.addEffect(command, 'destructive');
+      this.addRisk('medium', `git ${sub} discards work`);
+    }
+  }
+
+  private classifyPackageManager(state: CommandState, name: string, args: ShellWord[]): void {
+    const { command } = state;
+    const values = args.map((word) => word.value);
+    const sub = operands(args)[0]?.value ?? '';
+
+    if (sub === '' && values.some((value) => value === '--version' || value === '-v' || value === '-V')) {
+      this.addEffect(command, 'read_only');
+      return;
+    }
+    if (['list', 'ls', 'why', 'outdated', 'view', 'info', 'show', 'search', 'audit', 'version', 'help', 'config', 'doctor', 'env', 'freeze'].includes(sub)) {
+      this.addEffect(command, 'read_only');
+      if (['outdated', 'view', 'info', 'search', 'audit'].includes(sub)) this.addEffect(command, 'network');
+      return;
+    }
+    if (['install', 'i', 'add', 'ci', 'update', 'upgrade', 'remove', 'rm', 'uninstall', 'un', 'publish', 'get', 'fetch', 'sync', 'link', 'dlx', 'x', 'create', 'init'].includes(sub)
+      || (name === 'bun' && sub === 'x')
+      || (name === 'npm' && sub === 'exec')) {
+      this.addEffect(command, 'network');
+      const global = values.some((value) => value === '-g' || value === '--global' || value === '--user' || value === '--system');
+      this.addEffect(command, global || sub === 'publish' ? 'writes_outside' : 'writes_workspace');
+      return;
+    }
+    // run, test, build, exec, start or a script file
+    this.addEffect(command, 'writes_workspace');
+  }
+
+  private classifyShell(state: CommandState, args: ShellWord[]): void {
+    const { command } = state;
+    const script = optionValue(args, ['-c']) ?? attachedCommandOption(args);
+    if (script) {
+      this.addEffect(command, 'read_only');
+      this.nestedSource(script.value);
+      return;
+    }
+    const file = operands(args, ['-o', '-O'])[0];
+    if (file && file.value !== '-' && file.value !== '-s') {
+      this.addEffect(command, 'writes_workspace');
+      return;
+    }
+    this.classifyStdinProgram(state, 'shell');
+  }
+
+  private classifyInterpreter(state: CommandState, args: ShellWord[]): void {
+    const { command } = state;
+    const values = args.map((word) => word.value);
+    if (values.length === 1 && /^(--version|-v|-V)$/.test(values[0])) {
+      this.addEffect(command, 'read_only');
+      return;
+    }
+    if (values.some((value) => /^-[A-Za-z]*[ce]$/.test(value) || value === '--eval' || value === '--command')) {
+      this.addEffect(command, 'writes_workspace');
+      this.addRisk('medium', 'Executes inline code');
+      return;
+    }
+    const file = operands(args, ['-m', '-W', '-X', '-r', '--require', '-I'])[0];
+    if (file && file.value !== '-') {
+      this.addEffect(command, 'writes_workspace');
+      return;
+    }
+    if (values.includes('-m')) {
+      this.addEffect(command, 'writes_workspace');
+      return;
+    }
+    this.classifyStdinProgram(state, 'interpreter');
+  }
+
+  /**
+   * A shell or interpreter reading its program from stdin
+   */
+  private classifyStdinProgram(state: CommandState, kind: 'shell' | 'interpreter'): void {
+    const { command } = state;
+    if (state.pipedFromNetwork) {
+      this.addEffect(command, 'destructive');
+      this.addRisk('critical', 'Downloads and executes remote code');
+      return;
+    }
+    this.addEffect(command, 'writes_workspace');
+    if (state.piped) {
+      if (kind === 'shell') {
+        this.addRisk('high', 'Piping to shell detected');
+      } else {
+        this.addRisk('medium', 'Piping to interpreter detected');
+      }
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Helpers
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Classify a wrapped command (sudo, env, xargs, find -exec ...)
+   */
+  private inner(state: CommandState, words: ShellWord[]): void {
+    if (words.length === 0) {
+      this.addEffect(state.command, 'read_only');
+      return;
+    }
+    this.nested(() => {
+      const command = this.addCommand(words.map((word) => word.value));
+      this.classify({ command, piped: state.piped, pipedFromNetwork: state.pipedFromNetwork }, words);
+      if (command.effects.length === 0) command.effects.push('read_only');
+      for (const effect of command.effects) this.addEffect(state.command, effect);
+    });
+  }
+
+  /**
+   * Analyze a command string run by bash -c, eval or su -c
+   */
+  private nestedSource(source: string): void {
+    this.nested(() => {
+      try {
+        this.visitList(parseShell(source));
+      } catch (error) {
+        if (!(error instanceof ShellParseError)) throw error;
+        const command = this.addCommand([source]);
+        this.addEffect(command, 'writes_workspace');
+        this.addRisk('medium', `Could not parse nested command: ${error.message}`);
+      }
+    });
+  }
+
+  private nested(fn: () => void): void {
+    if (this.depth >= 16) {
+      this.addRisk('medium', 'Command nesting is too deep to analyze');
+      return;
+    }
+    this.depth++;
+    try {
+      fn();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  private addCommand(argv: string[]): AnalyzedShellCommand {
+    const command: AnalyzedShellCommand = {
+      name: argv.length > 0 ? basename(argv[0]) : '',
+      argv,
+      text: argv.join(' '),
+      effects: [],
+      writes: [],
+    };
+    this.commands.push(command);
+    return command;
+  }
+
+  private addEffect(command: AnalyzedShellCommand, effect: ShellEffect): void {
+    if (!command.effects.includes(effect)) {
+      command.effects.push(effect);
+    }
+  }
+
+  private addRisk(severity: Severity, reason: string): void {
+    if (!this.risks.some((risk) => risk.reason === reason)) {
+      this.risks.push({ severity, reason });
+    }
+  }
+
+  /**
+   * Record a write to a path and classify where it lands
+   */
+  private write(command: AnalyzedShellCommand, target: ShellWord, deviceReason = 'Direct disk device write detected'): void {
+    const pathClass = this.classifyPath(target);
+    if (pathClass === 'discard') return;
+    command.writes.push(target.value);
+    if (pathClass === 'device') {
+      this.addEffect(command, 'destructive');
+      this.addRisk('critical', deviceReason);
+    } else if (pathClass === 'outside') {
+      this.addEffect(command, 'writes_outside');
+    } else {
+      this.addEffect(command, 'writes_workspace');
+    }
+  }
+
+  private classifyPath(word: ShellWord): PathClass {
+    const value = word.value;
+    if (DISCARD_PATHS.has(value) || value.startsWith('/dev/fd/')) return 'discard';
+    if (DEVICE_PATH.test(value)) return 'device';
+
+    const expanded = this.expandPath(value);
+    if (expanded === null) return 'outside';
+    return isWithin(this.cwd, expanded) ? 'workspace' : 'outside';
+  }
+
+  /**
+   * Resolve a path the way the shell would, or null when it depends on
+   * variables we cannot know
+   */
+  private expandPath(value: string): string | null {
+    let path = value;
+    if (path === '~' || path.startsWith('~/')) {
+      path = this.home + path.slice(1);
+    } else if (path.startsWith('~')) {
+      return null;
+    }
+    path = path.replace(/^\$\{?HOME\}?(?=\/|$)/, this.home);
+    if (this.dir) {
+      path = path.replace(/^\$\{?PWD\}?(?=\/|$)/, this.dir);
+    }
+    if (path.includes('$')) {
+      // Relative paths with variables stay relative; leading variables could point anywhere
+      if (path.startsWith('$') || isAbsolute(path)) return null;
+    }
+    if (isAbsolute(path)) return resolve(path);
+    return this.dir ? resolve(this.dir, path) : null;
+  }
+
+  /**
+   * Targets whose recursive removal is catastrophic: the filesystem root,
+   * top-level system directories, the home directory, the workspace itself
+   * or anything above it
+   */
+  private isCriticalTarget(word: ShellWord, includeWorkspace = true): boolean {
+    const value = word.value.replace(/\/\*?$/, '') || '/';
+    const expanded = this.expandPath(value === '*' ? '.' : value);
+    if (expanded === null) return true;
+    const root = resolve('/');
+    if (expanded === root) return true;
+    if (relative(root, expanded).split(sep).length <= 1) return true;
+    if (isWithin(expanded, this.home)) return true;
+    if (includeWorkspace && isWithin(expanded, this.cwd)) return true;
+    return false;
+  }
+}
+
+/**
+ * Whether child is parent or inside it
+ */
+function isWithin(parent: string, child: string): boolean {
+  const rel = relative(parent, child);
+  return rel === '' || (!rel.startsWith('..') && !isAbsolute(rel));
+}
+
+function literalWord(value: string): ShellWord {
+  return { value, raw: value, quoted: false, expands: false, substitutions: [] };
+}
+
+function isAssignmentWord(word: ShellWord): boolean {
+  return /^[A-Za-z_][A-Za-z0-9_]*=/.test(word.value);
+}
+
+/**
+ * Whether short flags (combined, like -rf) or long flags are present
+ */
+function hasFlag(values: string[], short: string[], long: string[]): boolean {
+  for (const value of values) {
+    if (value === '--') return false;
+    if (long.some((flag) => value === flag || value.startsWith(`${flag}=`))) return true;
+    if (/^-[A-Za-z]+$/.test(value) && short.some((flag) => value.includes(flag))) return true;
+  }
+  return false;
+}
+
+/**
+ * Non-option arguments; options listed in withValue consume the next word
+ */
+function operands(args: ShellWord[], withValue: string[] = []): ShellWord[] {
+  const result: ShellWord[] = [];
+  let endOfOptions = false;
+  for (let i = 0; i < args.length; i++) {
+    const value = args[i].value;
+    if (endOfOptions) {
+      result.push(args[i]);
+    } else if (value === '--') {
+      endOfOptions = true;
+    } else if (withValue.includes(value)) {
+      i++;
+    } else if (!value.startsWith('-') || value === '-') {
+      result.push(args[i]);
+    }
+  }
+  return result;
+}
+
+/**
+ * Value of an option given as `-o value` or `--option=value`
+ */
+function optionValue(args: ShellWord[], names: string[]): ShellWord | undefined {
+  for (let i = 0; i < args.length; i++) {
+    const value = args[i].value;
+    if (names.includes(value) && args[i + 1]) return args[i + 1];
+    for (const name of names) {
+      if (name.startsWith('--') && value.startsWith(`${name}=`)) {
+        return { ...args[i], value: value.slice(name.length + 1) };
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Value of a short option with the value attached (-Ofile, -qO-)
+ */
+function attachedOption(args: ShellWord[], flag: string): ShellWord | undefined {
+  const letter = flag.slice(1);
+  for (const word of args) {
+    const match = new RegExp(`^-[A-Za-z]*${letter}(.+)$`).exec(word.value);
+    if (match) return { ...word, value: match[1] };
+  }
+  return undefined;
+}
+
+/**
+ * The script of `bash -lc "..."` style invocations
+ */
+function attachedCommandOption(args: ShellWord[]): ShellWord | undefined {
+  for (let i = 0; i < args.length; i++) {
+    if (/^-[A-Za-z]*c[A-Za-z]*$/.test(args[i].value) && args[i + 1]) return args[i + 1];
+  }
+  return undefined;
+}
+
+/**
+ * Drop leading options (and the values of options listed in withValue)
+ */
+function skipOptions(args: ShellWord[], withValue: string[] = []): ShellWord[] {
+  let i = 0;
+  while (i < args.length && args[i].value.startsWith('-') && args[i].value !== '-') {
+    if (args[i].value === '--') {
+      i++;
+      break;
+    }
+    if (withValue.includes(args[i].value)) i++;
+    i++;
+  }
+  return args.slice(i);
+}
+
+/**
+ * Parse and classify a shell command line
+ */
+export function analyzeShellCommand(source: string, options: ShellAnalysisOptions = {}): ShellAnalysis {
+  return new ShellAnalyzer(options).analyze(source);
+}
+
+/**
+ * Match an analysis against a guardrails sub-pattern.
+ *
+ * `@<effect>` (e.g. `@network`, `@destructive`) matches when any command has
+ * that effect; anything else is a glob over each command's text, where `*`
+ * matches any characters (e.g. `git push*`, `rm -rf *`).
+ */
+export function matchesShellPattern(analysis: ShellAnalysis, pattern: string): boolean {
+  const trimmed = pattern.trim();
+  if (trimmed.startsWith('@')) {
+    return analysis.effects.includes(trimmed.slice(1) as ShellEffect);
+  }
+  const regex = new RegExp(
+    `^${trimmed.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')}$`
+  );
+  return analysis.commands.some((command) => (command.text.length > 0 && regex.test(command.text))
+    || (command.subcommandText !== undefined && regex.test(command.subcommandText)));
+}
@@ -0,0 +1,741 @@
+/**
+ * POSIX shell parser
+ *
+ * Turns a command line into a small AST (lists, pipelines, simple commands,
+ * subshells, groups and function definitions) with quoting, escapes,
+ * redirects, heredocs and command substitutions resolved. It is meant for
+ * analysis, not execution: parameter expansions are kept verbatim and
+ * compound statements (if/for/while) are flattened into the simple commands
+ * they contain.
+ */
+
+/**
+ * A word after quote removal
+ */
+export interface ShellWord {
+  /** Value after quote removal (expansions like $HOME are kept verbatim) */
+  value: string;
+  /** Source text */
+  raw: string;
+  /** Whether any part of the word was quoted or escaped */
+  quoted: boolean;
+  /** Whether the word contains parameter, arithmetic or command expansions */
+  expands: boolean;
+  /** Command and process substitutions inside the word */
+  substitutions: ShellSubstitution[];
+}
+
+/**
+ * $(...), `...`, <(...) or >(...)
+ */
+export interface ShellSubstitution {
+  kind: 'command' | 'backtick' | 'process';
+  source: string;
+  body: ShellList;
+}
+
+/**
+ * I/O redirection such as `2> err.log` or `<<EOF`
+ */
+export interface ShellRedirect {
+  op: string;
+  fd?: number;
+  target: ShellWord;
+  /** Heredoc body for << and <<- */
+  heredoc?: string;
+}
+
+export interface ShellSimpleCommand {
+  type: 'simple';
+  /** Leading VAR=value words */
+  assignments: ShellWord[];
+  words: ShellWord[];
+  redirects: ShellRedirect[];
+}
+
+export interface ShellGroup {
+  /** ( ... ) runs in a subshell, { ...; } in the current shell */
+  type: 'subshell' | 'group';
+  body: ShellList;
+  redirects: ShellRedirect[];
+}
+
+export interface ShellFunction {
+  type: 'function';
+  name: string;
+  body: ShellCommandNode;
+}
+
+export type ShellCommandNode = ShellSimpleCommand | ShellGroup | ShellFunction;
+
+export interface ShellPipeline {
+  negated: boolean;
+  commands: ShellCommandNode[];
+}
+
+export interface ShellListItem {
+  pipeline: ShellPipeline;
+  /** Operator after the pipeline (newlines are reported as ';') */
+  separator: '&&' | '||' | ';' | '&' | null;
+}
+
+export interface ShellList {
+  items: ShellListItem[];
+}
+
+/**
+ * Raised for input the shell itself would reject (unterminated quotes,
+ * unbalanced parentheses, dangling operators)
+ */
+export class ShellParseError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(message);
+    this.name = 'ShellParseError';
+  }
+}
+
+type Token =
+  | { kind: 'word'; word: ShellWord; start: number }
+  | { kind: 'op'; value: string; start: number }
+  | { kind: 'redirect'; op: string; fd?: number; start: number }
+  | { kind: 'eof'; start: number };
+
+interface PendingHeredoc {
+  redirect: ShellRedirect;
+  delimiter: string;
+  stripTabs: boolean;
+}
+
+const METACHARS = new Set([' ', '\t', '\n', ';', '&', '|', '<', '>', '(', ')']);
+const OPERATORS = ['&&', '||', ';;', '|&', '|', ';', '&', '(', ')'];
+const REDIRECT_OPS = ['&>>', '&>', '<<<', '<<-', '<<', '<&', '<>', '<', '>>', '>|', '>&', '>'];
+const MAX_NESTING = 32;
+
+class Parser {
+  private pos = 0;
+  private lookahead: Token | null = null;
+  private pendingHeredocs: PendingHeredoc[] = [];
+
+  constructor(private source: string, private nesting = 0) {
+    if (nesting > MAX_NESTING) {
+      throw new ShellParseError('Command nesting is too deep', 0);
+    }
+  }
+
+  parse(): ShellList {
+    const list = this.parseList([]);
+    const token = this.peek();
+    if (token.kind !== 'eof') {
+      throw new ShellParseError(`Unexpected ${describeToken(token)}`, token.start);
+    }
+    return list;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Grammar
+  // ---------------------------------------------------------------------------
+
+  private parseList(terminators: string[]): ShellList {
+    const items: ShellListItem[] = [];
+
+    while (true) {
+      this.skipNewlines();
+      const token = this.peek();
+      if (token.kind === 'eof' || isTerminator(token, terminators)) break;
+
+      const pipeline = this.parsePipeline();
+      const next = this.peek();
+      if (next.kind === 'op' && ['&&', '||', ';', '&', '\n'].includes(next.value)) {
+        this.next();
+        const separator = next.value === '\n' ? ';' : next.value as ShellListItem['separator'];
+        items.push({ pipeline, separator });
+        if (separator === '&&' || separator === '||') {
+          this.skipNewlines();
+          const after = this.peek();
+          if (after.kind === 'eof' || isTerminator(after, terminators)) {
+            throw new ShellParseError(`Expected a command after '${separator}'`, after.start);
+          }
+        }
+        continue;
+      }
+
+      items.push({ pipeline, separator: null });
+      break;
+    }
+
+    return { items };
+  }
+
+  private parsePipeline(): ShellPipeline {
+    let negated = false;
+    const first = this.peek();
+    if (first.kind === 'word' && !first.word.quoted && first.word.value === '!') {
+      this.next();
+      negated = true;
+    }
+
+    const commands = [this.parseCommand()];
+    while (true) {
+      const token = this.peek();
+      if (token.kind !== 'op' || (token.value !== '|' && token.value !== '|&')) break;
+      this.next();
+      this.skipNewlines();
+      commands.push(this.parseCommand());
+    }
+
+    return { negated, commands };
+  }
+
+  private parseCommand(): ShellCommandNode {
+    const token = this.peek();
+
+    if (token.kind === 'op' && token.value === '(') {
+      this.next();
+      const body = this.parseList([')']);
+      this.expectOp(')');
+      return { type: 'subshell', body, redirects: this.parseRedirects() };
+    }
+
+    if (token.kind === 'word' && !token.word.quoted) {
+      if (token.word.value === '{') {
+        this.next();
+        const body = this.parseList(['}']);
+        this.expectWord('}');
+        return { type: 'group', body, redirects: this.parseRedirects() };
+      }
+      if (token.word.value === 'case') {
+        return this.parseCase();
+      }
+      if (token.word.value === 'function') {
+        this.next();
+        const name = this.next();
+        if (name.kind !== 'word') {
+          throw new ShellParseError('Expected a function name', name.start);
+        }
+        const paren = this.peek();
+        if (paren.kind === 'op' && paren.value === '(') {
+          this.next();
+          this.expectOp(')');
+        }
+        this.skipNewlines();
+        return { type: 'function', name: name.word.value, body: this.parseCommand() };
+      }
+    }
+
+    return this.parseSimpleCommand();
+  }
+
+  private parseSimpleCommand(): ShellCommandNode {
+    const command: ShellSimpleCommand = { type: 'simple', assignments: [], words: [], redirects: [] };
+
+    while (true) {
+      const token = this.peek();
+      if (token.kind === 'redirect') {
+        command.redirects.push(this.parseRedirect());
+        continue;
+      }
+      if (token.kind === 'word') {
+        this.next();
+        if (command.words.length === 0 && isAssignment(token.word)) {
+          command.assignments.push(token.word);
+        } else {
+          command.words.push(token.word);
+        }
+        continue;
+      }
+      if (
+        token.kind === 'op'
+        && token.value === '('
+        && command.words.length === 1
+        && command.assignments.length === 0
+        && command.redirects.length === 0
+      ) {
+        // name() compound-command
+        this.next();
+        this.expectOp(')');
+        this.skipNewlines();
+        return { type: 'function', name: command.words[0].value, body: this.parseCommand() };
+      }
+      break;
+    }
+
+    if (command.words.length === 0 && command.assignments.length === 0 && command.redirects.length === 0) {
+      const token = this.peek();
+      throw new ShellParseError(`Unexpected ${describeToken(token)}`, token.start);
+    }
+
+    return command;
+  }
+
+  /**
+   * case WORD in pattern) list ;; ... esac
+   * Flattened into a group whose first command is `case WORD` so the
+   * subject's substitutions are still analyzed.
+   */
+  private parseCase(): ShellGroup {
+    const items: ShellListItem[] = [];
+    const caseWord = this.next() as Extract<Token, { kind: 'word' }>;
+    const subject = this.next();
+    if (subject.kind !== 'word') {
+      throw new ShellParseError("Expected a word after 'case'", subject.start);
+    }
+    items.push({
+      pipeline: {
+        negated: false,
+        commands: [{ type: 'simple', assignments: [], words: [caseWord.word, subject.word], redirects: [] }],
+      },
+      separator: ';',
+    });
+    this.skipNewlines();
+    this.expectWord('in');
+
+    while (true) {
+      this.skipNewlines();
+      const token = this.peek();
+      if (token.kind === 'word' && !token.word.quoted && token.word.value === 'esac') {
+        this.next();
+        break;
+      }
+      if (token.kind === 'eof') {
+        throw new ShellParseError("Expected 'esac'", token.start);
+      }
+      if (token.kind === 'op' && token.value === '(') {
+        this.next();
+      }
+      // Pattern list up to ')'
+      while (true) {
+        const part = this.next();
+        if (part.kind === 'op' && part.value === ')') break;
+        if (part.kind === 'eof') {
+          throw new ShellParseError("Expected ')' after case pattern", part.start);
+        }
+      }
+      const body = this.parseList([';;', 'esac']);
+      items.push(...body.items);
+      const end = this.peek();
+      if (end.kind === 'op' && end.value === ';;') {
+        this.next();
+      }
+    }
+
+    return { type: 'group', body: { items }, redirects: this.parseRedirects() };
+  }
+
+  private parseRedirects(): ShellRedirect[] {
+    const redirects: ShellRedirect[] = [];
+    while (this.peek().kind === 'redirect') {
+      redirects.push(this.parseRedirect());
+    }
+    return redirects;
+  }
+
+  private parseRedirect(): ShellRedirect {
+    const token = this.next() as Extract<Token, { kind: 'redirect' }>;
+    const target = this.next();
+    if (target.kind !== 'word') {
+      throw new ShellParseError(`Expected a target after '${token.op}'`, target.start);
+    }
+    const redirect: ShellRedirect = { op: token.op, fd: token.fd, target: target.word };
+    if (token.op === '<<' || token.op === '<<-') {
+      this.pendingHeredocs.push({
+        redirect,
+        delimiter: target.word.value,
+        stripTabs: token.op === '<<-',
+      });
+    }
+    return redirect;
+  }
+
+  private skipNewlines(): void {
+    while (true) {
+      const token = this.peek();
+      if (token.kind !== 'op' || token.value !== '\n') return;
+      this.next();
+    }
+  }
+
+  private expectOp(value: string): void {
+    const token = this.next();
+    if (token.kind !== 'op' || token.value !== value) {
+      throw new ShellParseError(`Expected '${value}' but found ${describeToken(token)}`, token.start);
+    }
+  }
+
+  private expectWord(value: string): void {
+    const token = this.next();
+    if (token.kind !== 'word' || token.word.quoted || token.word.value !== value) {
+      throw new ShellParseError(`Expected '${value}' but found ${describeToken(token)}`, token.start);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Lexer
+  // ---------------------------------------------------------------------------
+
+  private peek(): Token {
+    if (!this.lookahead) {
+      this.lookahead = this.lex();
+    }
+    return this.lookahead;
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    this.lookahead = null;
+    return token;
+  }
+
+  private lex(): Token {
+    const src = this.source;
+
+    // Skip blanks, line continuations and comments
+    while (this.pos < src.length) {
+      const char = src[this.pos];
+      if (char === ' ' || char === '\t' || char === '\r') {
+        this.pos++;
+      } else if (char === '\\' && src[this.pos + 1] === '\n') {
+        this.pos += 2;
+      } else if (char === '#') {
+        while (this.pos < src.length && src[this.pos] !== '\n') this.pos++;
+      } else {
+        break;
+      }
+    }
+
+    const start = this.pos;
+    if (this.pos >= src.length) {
+      return { kind: 'eof', start };
+    }
+
+    const char = src[this.pos];
+    if (char === '\n') {
+      this.pos++;
+      this.readHeredocBodies();
+      return { kind: 'op', value: '\n', start };
+    }
+
+    // Process substitution is a word, not a redirect
+    if ((char === '<' || char === '>') && src[this.pos + 1] === '(') {
+      return { kind: 'word', word: this.readWord(), start };
+    }
+
+    // [n]<op>
+    const fdMatch = /^\d+(?=[<>])/.exec(src.slice(this.pos, this.pos + 12));
+    const fdText = fdMatch ? fdMatch[0] : '';
+    const afterFd = this.pos + fdText.length;
+    for (const op of REDIRECT_OPS) {
+      if (src.startsWith(op, afterFd) && (!fdText || !op.startsWith('&'))) {
+        this.pos = afterFd + op.length;
+        return { kind: 'redirect', op, fd: fdText ? Number(fdText) : undefined, start };
+      }
+    }
+
+    for (const op of OPERATORS) {
+      if (src.startsWith(op, this.pos)) {
+        this.pos += op.length;
+        return { kind: 'op', value: op, start };
+      }
+    }
+
+    return { kind: 'word', word: this.readWord(), start };
+  }
+
+  private readWord(): ShellWord {
+    const src = this.source;
+    const start = this.pos;
+    const word: ShellWord = { value: '', raw: '', quoted: false, expands: false, substitutions: [] };
+
+    while (this.pos < src.length) {
+      const char = src[this.pos];
+
+      if ((char === '<' || char === '>') && src[this.pos + 1] === '(') {
+        const bodyStart = this.pos + 2;
+        this.pos = bodyStart;
+        const body = this.parseNested(')');
+        word.substitutions.push({ kind: 'process', source: src.slice(bodyStart, this.pos - 1), body });
+        word.value += src.slice(bodyStart - 2, this.pos);
+        word.expands = true;
+        continue;
+      }
+
+      if (METACHARS.has(char)) break;
+
+      if (char === '\\') {
+        if (src[this.pos + 1] === '\n') {
+          this.pos += 2;
+          continue;
+        }
+        word.quoted = true;
+        if (this.pos + 1 < src.length) {
+          word.value += src[this.pos + 1];
+        }
+        this.pos += 2;
+        continue;
+      }
+
+      if (char === '\'') {
+        const end = src.indexOf('\'', this.pos + 1);
+        if (end < 0) {
+          throw new ShellParseError('Unterminated single quote', this.pos);
+        }
+        word.quoted = true;
+        word.value += src.slice(this.pos + 1, end);
+        this.pos = end + 1;
+        continue;
+      }
+
+      if (char === '"') {
+        word.quoted = true;
+        this.pos++;
+        this.readDoubleQuoted(word);
+        continue;
+      }
+
+      if (char === '$' || char === '`') {
+        this.readExpansion(word);
+        continue;
+      }
+
+      word.value += char;
+      this.pos++;
+    }
+
+    word.raw = src.slice(start, this.pos);
+    return word;
+  }
+
+  private readDoubleQuoted(word: ShellWord): void {
+    const src = this.source;
+    while (this.pos < src.length) {
+      const char = src[this.pos];
+      if (char === '"') {
+        this.pos++;
+        return;
+      }
+      if (char === '\\') {
+        const next = src[this.pos + 1];
+        if (next === '\n') {
+          this.pos += 2;
+        } else if (next === '$' || next === '`' || next === '"' || next === '\\') {
+          word.value += next;
+          this.pos += 2;
+        } else {
+          word.value += char;
+          this.pos++;
+        }
+        continue;
+      }
+      if (char === '$' || char === '`') {
+        this.readExpansion(word);
+        continue;
+      }
+      word.value += char;
+      this.pos++;
+    }
+    throw new ShellParseError('Unterminated double quote', this.pos);
+  }
+
+  /**
+   * Read $..., ${...}, $(...), $((...)), $'...' or `...` at the current position
+   */
+  private readExpansion(word: ShellWord): void {
+    const src = this.source;
+    const start = this.pos;
+
+    if (src[this.pos] === '`') {
+      let body = '';
+      this.pos++;
+      while (this.pos < src.length && src[this.pos] !== '`') {
+        if (src[this.pos] === '\\' && ['`', '\\', '$'].includes(src[this.pos + 1])) {
+          body += src[this.pos + 1];
+          this.pos += 2;
+          continue;
+        }
+        body += src[this.pos];
+        this.pos++;
+      }
+      if (this.pos >= src.length) {
+        throw new ShellParseError('Unterminated backtick substitution', start);
+      }
+      this.pos++;
+      word.substitutions.push({ kind: 'backtick', source: body, body: new Parser(body, this.nesting + 1).parse() });
+      word.value += src.slice(start, this.pos);
+      word.expands = true;
+      return;
+    }
+
+    const next = src[this.pos + 1];
+
+    if (next === '(' && src[this.pos + 2] === '(') {
+      // Arithmetic expansion
+      let depth = 0;
+      this.pos += 1;
+      while (this.pos < src.length) {
+        const char = src[this.pos];
+        if (char === '(') depth++;
+        if (char === ')') {
+          depth--;
+          if (depth === 0) break;
+        }
+        this.pos++;
+      }
+      if (this.pos >= src.length) {
+        throw new ShellParseError('Unterminated arithmetic expansion', start);
+      }
+      this.pos++;
+      word.value += src.slice(start, this.pos);
+      word.expands = true;
+      return;
+    }
+
+    if (next === '(') {
+      this.pos += 2;
+      const bodyStart = this.pos;
+      const body = this.parseNested(')');
+      word.substitutions.push({ kind: 'command', source: src.slice(bodyStart, this.pos - 1), body });
+      word.value += src.slice(start, this.pos);
+      word.expands = true;
+      return;
+    }
+
+    if (next === '{') {
+      const end = findClosingBrace(src, this.pos + 2);
+      if (end < 0) {
+        throw new ShellParseError('Unterminated parameter expansion', start);
+      }
+      this.pos = end + 1;
+      word.value += src.slice(start, this.pos);
+      word.expands = true;
+      return;
+    }
+
+    if (next === '\'') {
+      // ANSI-C quoting
+      let i = this.pos + 2;
+      let value = '';
+      while (i < src.length && src[i] !== '\'') {
+        if (src[i] === '\\' && i + 1 < src.length) {
+          value += src[i + 1];
+          i += 2;
+          continue;
+        }
+        value += src[i];
+        i++;
+      }
+      if (i >= src.length) {
+        throw new ShellParseError('Unterminated quote', start);
+      }
+      this.pos = i + 1;
+      word.value += value;
+      word.quoted = true;
+      return;
+    }
+
+    const name = /^(?:[A-Za-z_][A-Za-z0-9_]*|[0-9@*#?$!-])/.exec(src.slice(this.pos + 1));
+    if (name) {
+      this.pos += 1 + name[0].length;
+      word.value += src.slice(start, this.pos);
+      word.expands = true;
+      return;
+    }
+
+    // A lone '$' is literal
+    word.value += '$';
+    this.pos++;
+  }
+
+  /**
+   * Parse a nested list at the current position up to the closing character,
+   * leaving the position just after it
+   */
+  private parseNested(close: ')'): ShellList {
+    const nested = new Parser(this.source, this.nesting + 1);
+    nested.pos = this.pos;
+    const body = nested.parseList([close]);
+    const token = nested.next();
+    if (token.kind !== 'op' || token.value !== close) {
+      throw new ShellParseError(`Expected '${close}'`, token.start);
+    }
+    this.pos = nested.pos;
+    return body;
+  }
+
+  private readHeredocBodies(): void {
+    const src = this.source;
+    for (const pending of this.pendingHeredocs) {
+      const lines: string[] = [];
+      while (this.pos < src.length) {
+        let end = src.indexOf('\n', this.pos);
+        if (end < 0) end = src.length;
+        let line = src.slice(this.pos, end);
+        this.pos = Math.min(end + 1, src.length);
+        if (pending.stripTabs) {
+          line = line.replace(/^\t+/, '');
+        }
+        if (line === pending.delimiter) break;
+        lines.push(line);
+      }
+      pending.redirect.heredoc = lines.join('\n');
+    }
+    this.pendingHeredocs = [];
+  }
+}
+
+function isTerminator(token: Token, terminators: string[]): boolean {
+  if (terminators.length === 0) return false;
+  if (token.kind === 'op') return terminators.includes(token.value);
+  if (token.kind === 'word') return !token.word.quoted && terminators.includes(token.word.value);
+  return false;
+}
+
+function isAssignment(word: ShellWord): boolean {
+  return /^[A-Za-z_][A-Za-z0-9_]*(\[[^\]]*\])?\+?=/.test(word.raw);
+}
+
+function findClosingBrace(src: string, from: number): number {
+  let depth = 1;
+  let quote: string | null = null;
+  for (let i = from; i < src.length; i++) {
+    const char = src[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+      continue;
+    }
+    if (char === '\\') {
+      i++;
+    } else if (char === '\'' || char === '"') {
+      quote = char;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+function describeToken(token: Token): string {
+  switch (token.kind) {
+    case 'eof':
+      return 'end of input';
+    case 'op':
+      return token.value === '\n' ? 'newline' : `'${token.value}'`;
+    case 'redirect':
+      return `'${token.op}'`;
+    case 'word':
+      return `'${token.word.raw}'`;
+  }
+}
+
+/**
+ * Parse a shell command line.
+ * Throws ShellParseError for input bash would reject as a syntax error.
+ */
+export function parseShell(source: string): ShellList {
+  return new Parser(source).parse();
+}
@@ -0,0 +1,118 @@
+import type { Message } from '@hasna/assistants-shared';
+import { generateId } from '@hasna/assistants-shared';
+import { SessionStorage } from '../logger';
+import { CheckpointStore, type Checkpoint } from './checkpoints';
+
+export interface ForkSessionOptions {
+  /** Session being forked */
+  sessionId: string;
+  assistantId?: string | null;
+  cwd: string;
+  /** Full message history of the session */
+  messages: Message[];
+  /** Fork from before this checkpoint's turn (default: the current end) */
+  checkpoint?: Checkpoint | null;
+  /** Checkpoints of the session, copied into the fork */
+  checkpoints?: CheckpointStore | null;
+}
+
+export interface ForkSessionResult {
+  sessionId: string;
+  parentSessionId: string;
+  messageCount: number;
+  checkpointCount: number;
+}
+
+/**
+ * Branch a session into a new session ID.
+ *
+ * The new session is saved to disk with the parent's messages up to the fork
+ * point and a link back to the parent, so it can be resumed like any other.
+ */
+export function forkSession(options: ForkSessionOptions): ForkSessionResult {
+  let messages = options.messages;
+  if (options.checkpoint) {
+    const checkpoint = options.checkpoint;
+    let end = checkpoint.messageId
+      ? messages.findIndex((message) => message.id === checkpoint.messageId)
+      : -1;
+    if (end === -1) end = Math.min(checkpoint.messageIndex, messages.length);
+    messages = messages.slice(0, end);
+  }
+
+  const sessionId = generateId();
+  const now = new Date().toISOString();
+  new SessionStorage(sessionId, undefined, options.assistantId).save({
+    messages,
+    startedAt: now,
+    updatedAt: now,
+    cwd: options.cwd,
+    parentSessionId: options.sessionId,
+    forkedFromCheckpointId: options.checkpoint?.id,
+  });
+
+  const checkpointCount = options.checkpoints
+    ? options.checkpoints.copyTo(new CheckpointStore(sessionId), options.checkpoint?.id)
+    : 0;
+
+  return {
+    sessionId,
+    parentSessionId: options.sessionId,
+    messageCount: messages.length,
+    checkpointCount,
+  };
+}
+
+/**
+ * A session placed in its branch tree
+ */
+export interface SessionTreeNode<T> {
+  session: T;
+  /** Nesting level (0 = root) */
+  depth: number;
+  /** Tree drawing prefix, e.g. "│  └─ " */
+  prefix: string;
+}
+
+/**
+ * Order sessions as a branch tree: each fork directly below its parent.
+ * Sessions whose parent is not in the list are shown as roots. The relative
+ * order of siblings is preserved.
+ */
+export function buildSessionTree<T extends { id: string; parentSessionId?: string | null }>(
+  sessions: T[]
+): SessionTreeNode<T>[] {
+  const ids = new Set(sessions.map((session) => session.id));
+  const children = new Map<string, T[]>();
+  const roots: T[] = [];
+  for (const session of sessions) {
+    const parent = session.parentSessionId;
+    if (parent && parent !== session.id && ids.has(parent)) {
+      const siblings = children.get(parent) ?? [];
+      siblings.push(session);
+      children.set(parent, siblings);
+    } else {
+      roots.push(session);
+    }
+  }
+
+  const nodes: SessionTreeNode<T>[] = [];
+  const visited = new Set<string>();
+  const visit = (session: T, depth: number, indent: string, last: boolean) => {
+    if (visited.has(session.id)) return;
+    visited.add(session.id);
+    nodes.push({
+      session,
+      depth,
+      prefix: depth === 0 ? '' : `${indent}${last ? '└─ ' : '├─ '}`,
+    });
+    const kids = children.get(session.id) ?? [];
+    const childIndent = depth === 0 ? '' : `${indent}${last ? '   ' : '│  '}`;
+    kids.forEach((child, index) => visit(child, depth + 1, childIndent, index === kids.length - 1));
+  };
+  for (const root of roots) visit(root, 0, '', true);
+
+  // Parent cycles have no root; show them flat rather than dropping them
+  for (const session of sessions) visit(session, 0, '', true);
+  return nodes;
+}
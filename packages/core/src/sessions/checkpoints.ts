@@ -0,0 +1,432 @@
+import { createHash } from 'crypto';
+import {
+  copyFileSync,
+  existsSync,
+  lstatSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  type Stats,
+  unlinkSync,
+  writeFileSync,
+} from 'fs';
+import { homedir } from 'os';
+import { basename, dirname, isAbsolute, join, resolve } from 'path';
+import { generateId } from '@hasna/assistants-shared';
+import { getConfigDir } from '../config';
+import { analyzeShellCommand } from '../security/shell-analyzer';
+import { resolveWriteToolPath } from '../tools/filesystem';
+import { parseUnifiedDiff } from '../utils/unified-diff';
+
+const SAFE_ID_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+/** Files larger than this are recorded but not captured */
+const MAX_SNAPSHOT_FILE_BYTES = 5 * 1024 * 1024;
+/** Cap on files captured per checkpoint (directories are walked) */
+const MAX_SNAPSHOT_FILES = 500;
+/** Oldest checkpoints are pruned beyond this count */
+const MAX_CHECKPOINTS = 100;
+/** Directories never walked when snapshotting */
+const SKIPPED_DIRECTORIES = new Set(['.git', 'node_modules']);
+const TOO_MANY_FILES = 'too many files in one turn';
+
+/**
+ * Validate that an ID is safe to use in filesystem paths
+ */
+function isValidId(id: unknown): id is string {
+  return typeof id === 'string' && id.length > 0 && SAFE_ID_PATTERN.test(id);
+}
+
+/**
+ * State of a file before a tool first changed it during a turn
+ */
+export interface FileSnapshot {
+  /** Absolute path */
+  path: string;
+  /** Whether the file existed (rewinding deletes files that did not) */
+  existed: boolean;
+  /** SHA-256 of the content, stored under blobs/ */
+  blob?: string;
+  size?: number;
+  /** Why the content was not captured (too large, directory limit, ...) */
+  skipped?: string;
+}
+
+/**
+ * Checkpoint taken at the start of a user turn
+ */
+export interface Checkpoint {
+  id: string;
+  sessionId: string;
+  createdAt: string;
+  /** Number of context messages before the turn's user message */
+  messageIndex: number;
+  /** ID of the turn's user message */
+  messageId?: string;
+  /** First line of the user message */
+  prompt: string;
+  /** Files touched by tools during the turn */
+  files: FileSnapshot[];
+}
+
+/**
+ * Result of restoring files to a checkpoint
+ */
+export interface FileRestoreResult {
+  restored: string[];
+  deleted: string[];
+  skipped: string[];
+}
+
+/**
+ * Per-session checkpoint store
+ * (~/.assistants/checkpoints/{sessionId}/checkpoints.json + blobs/)
+ */
+export class CheckpointStore {
+  private sessionId: string;
+  private dir: string;
+  private indexPath: string;
+  private checkpoints: Checkpoint[] | null = null;
+
+  constructor(sessionId: string, basePath: string = join(getConfigDir(), 'checkpoints')) {
+    if (!isValidId(sessionId)) {
+      throw new Error(`Invalid sessionId: "${sessionId}"`);
+    }
+    this.sessionId = sessionId;
+    this.dir = join(basePath, sessionId);
+    this.indexPath = join(this.dir, 'checkpoints.json');
+  }
+
+  getSessionId(): string {
+    return this.sessionId;
+  }
+
+  /**
+   * All checkpoints, oldest first
+   */
+  list(): Checkpoint[] {
+    return [...this.load()];
+  }
+
+  /**
+   * Most recent checkpoint
+   */
+  latest(): Checkpoint | null {
+    const checkpoints = this.load();
+    return checkpoints[checkpoints.length - 1] ?? null;
+  }
+
+  /**
+   * Find a checkpoint by ID, ID prefix, 1-based number, or a negative offset
+   * from the latest (-1 = the latest turn)
+   */
+  resolve(ref: string): Checkpoint | null {
+    const checkpoints = this.load();
+    const trimmed = ref.trim();
+    if (/^-?\d+$/.test(trimmed)) {
+      const num = parseInt(trimmed, 10);
+      const index = num < 0 ? checkpoints.length + num : num - 1;
+      // Out-of-range numbers may still be an ID prefix made of digits
+      if (checkpoints[index]) return checkpoints[index];
+    }
+    return checkpoints.find((checkpoint) => checkpoint.id === trimmed)
+      ?? checkpoints.find((checkpoint) => checkpoint.id.startsWith(trimmed))
+      ?? null;
+  }
+
+  /**
+   * Start a checkpoint for a new user turn
+   */
+  create(data: { messageIndex: number; messageId?: string; prompt: string }): Checkpoint {
+    const checkpoints = this.load();
+    const checkpoint: Checkpoint = {
+      id: generateId(),
+      sessionId: this.sessionId,
+      createdAt: new Date().toISOString(),
+      messageIndex: data.messageIndex,
+      messageId: data.messageId,
+      prompt: data.prompt.split('\n')[0].slice(0, 200),
+      files: [],
+    };
+    checkpoints.push(checkpoint);
+    if (checkpoints.length > MAX_CHECKPOINTS) {
+      checkpoints.splice(0, checkpoints.length - MAX_CHECKPOINTS);
+      this.save();
+      this.pruneBlobs();
+    } else {
+      this.save();
+    }
+    return checkpoint;
+  }
+
+  /**
+   * Capture the current state of paths in the latest checkpoint.
+   * Paths already captured during the turn are left alone, so the
+   * checkpoint keeps the state from before the turn's first change.
+   */
+  snapshot(paths: string[]): void {
+    const checkpoint = this.latest();
+    if (!checkpoint || paths.length === 0) return;
+
+    const known = new Set(checkpoint.files.map((file) => file.path));
+    let changed = false;
+    for (const path of paths) {
+      for (const file of this.capture(resolve(path), known, checkpoint.files.length)) {
+        checkpoint.files.push(file);
+        known.add(file.path);
+        changed = true;
+      }
+    }
+    if (changed) this.save();
+  }
+
+  /**
+   * Restore every file touched since the checkpoint to its state at that point
+   */
+  restoreFiles(checkpointId: string): FileRestoreResult {
+    const checkpoints = this.load();
+    const index = checkpoints.findIndex((checkpoint) => checkpoint.id === checkpointId);
+    if (index === -1) {
+      throw new Error(`Checkpoint not found: ${checkpointId}`);
+    }
+
+    // The earliest snapshot of each path at or after the checkpoint is its
+    // state when the checkpoint was taken
+    const earliest = new Map<string, FileSnapshot>();
+    for (const checkpoint of checkpoints.slice(index)) {
+      for (const file of checkpoint.files) {
+        if (!earliest.has(file.path)) earliest.set(file.path, file);
+      }
+    }
+
+    const result: FileRestoreResult = { restored: [], deleted: [], skipped: [] };
+    for (const file of earliest.values()) {
+      try {
+        if (file.skipped) {
+          result.skipped.push(file.path);
+        } else if (!file.existed) {
+          if (existsSync(file.path) && !lstatSync(file.path).isDirectory()) {
+            unlinkSync(file.path);
+            result.deleted.push(file.path);
+          }
+        } else if (file.blob) {
+          mkdirSync(dirname(file.path), { recursive: true });
+          writeFileSync(file.path, readFileSync(this.blobPath(file.blob)));
+          result.restored.push(file.path);
+        }
+      } catch {
+        result.skipped.push(file.path);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Drop a checkpoint and every later one
+   */
+  truncate(checkpointId: string): void {
+    const checkpoints = this.load();
+    const index = checkpoints.findIndex((checkpoint) => checkpoint.id === checkpointId);
+    if (index === -1) return;
+    checkpoints.splice(index);
+    this.save();
+    this.pruneBlobs();
+  }
+
+  /**
+   * Copy checkpoints before a given one (or all) into another session's store
+   */
+  copyTo(target: CheckpointStore, beforeCheckpointId?: string): number {
+    const checkpoints = this.load();
+    const end = beforeCheckpointId
+      ? checkpoints.findIndex((checkpoint) => checkpoint.id === beforeCheckpointId)
+      : checkpoints.length;
+    const copied = checkpoints.slice(0, end === -1 ? checkpoints.length : end);
+
+    for (const checkpoint of copied) {
+      for (const file of checkpoint.files) {
+        if (!file.blob) continue;
+        const source = this.blobPath(file.blob);
+        const destination = target.blobPath(file.blob);
+        if (existsSync(source) && !existsSync(destination)) {
+          mkdirSync(dirname(destination), { recursive: true });
+          copyFileSync(source, destination);
+        }
+      }
+    }
+
+    target.checkpoints = copied.map((checkpoint) => ({
+      ...checkpoint,
+      sessionId: target.sessionId,
+      files: checkpoint.files.map((file) => ({ ...file })),
+    }));
+    target.save();
+    return copied.length;
+  }
+
+  /**
+   * Delete all checkpoints for the session
+   */
+  clear(): void {
+    this.checkpoints = [];
+    rmSync(this.dir, { recursive: true, force: true });
+  }
+
+  private capture(path: string, known: Set<string>, count: number): FileSnapshot[] {
+    if (known.has(path)) return [];
+    if (count >= MAX_SNAPSHOT_FILES) {
+      return [{ path, existed: existsSync(path), skipped: TOO_MANY_FILES }];
+    }
+    if (!existsSync(path)) {
+      return [{ path, existed: false }];
+    }
+
+    const stat = lstatSync(path);
+    if (!stat.isDirectory()) {
+      return [this.captureFile(path, stat)];
+    }
+    if (SKIPPED_DIRECTORIES.has(basename(path))) {
+      return [{ path, existed: true, skipped: 'directory not snapshotted' }];
+    }
+    const files: FileSnapshot[] = [];
+    if (!this.walk(path, known, count, files)) {
+      // Files captured so far are kept; the rest of the directory is not
+      files.push({ path, existed: true, skipped: TOO_MANY_FILES });
+    }
+    return files;
+  }
+
+  /**
+   * Capture the files under a directory into files, stopping at the file cap.
+   * Returns false when the cap was reached before the walk finished.
+   */
+  private walk(dir: string, known: Set<string>, count: number, files: FileSnapshot[]): boolean {
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      if (entry.isDirectory() && SKIPPED_DIRECTORIES.has(entry.name)) continue;
+      const path = join(dir, entry.name);
+      if (known.has(path)) continue;
+      if (count + files.length >= MAX_SNAPSHOT_FILES) return false;
+
+      const stat = lstatSync(path);
+      if (stat.isDirectory()) {
+        if (!this.walk(path, known, count, files)) return false;
+      } else {
+        files.push(this.captureFile(path, stat));
+      }
+    }
+    return true;
+  }
+
+  private captureFile(path: string, stat: Stats): FileSnapshot {
+    if (!stat.isFile()) {
+      return { path, existed: true, skipped: 'not a regular file' };
+    }
+    if (stat.size > MAX_SNAPSHOT_FILE_BYTES) {
+      return { path, existed: true, size: stat.size, skipped: 'file too large' };
+    }
+
+    const content = readFileSync(path);
+    const blob = createHash('sha256').update(content).digest('hex');
+    const blobPath = this.blobPath(blob);
+    if (!existsSync(blobPath)) {
+      mkdirSync(dirname(blobPath), { recursive: true });
+      writeFileSync(blobPath, content);
+    }
+    return { path, existed: true, blob, size: stat.size };
+  }
+
+  private blobPath(blob: string): string {
+    return join(this.dir, 'blobs', blob);
+  }
+
+  private pruneBlobs(): void {
+    const blobsDir = join(this.dir, 'blobs');
+    if (!existsSync(blobsDir)) return;
+    const referenced = new Set(
+      this.load().flatMap((checkpoint) => checkpoint.files.map((file) => file.blob).filter(Boolean))
+    );
+    for (const blob of readdirSync(blobsDir)) {
+      if (!referenced.has(blob)) {
+        rmSync(join(blobsDir, blob), { force: true });
+      }
+    }
+  }
+
+  private load(): Checkpoint[] {
+    if (this.checkpoints) return this.checkpoints;
+    try {
+      this.checkpoints = existsSync(this.indexPath)
+        ? JSON.parse(readFileSync(this.indexPath, 'utf-8')) as Checkpoint[]
+        : [];
+    } catch {
+      this.checkpoints = [];
+    }
+    return this.checkpoints;
+  }
+
+  private save(): void {
+    try {
+      mkdirSync(this.dir, { recursive: true });
+      writeFileSync(this.indexPath, JSON.stringify(this.load(), null, 2));
+    } catch {
+      // Checkpoints are best-effort and must never break a turn
+    }
+  }
+}
+
+/**
+ * Paths a tool call is about to change, resolved against cwd
+ */
+export function getToolWritePaths(toolName: string, input: Record<string, unknown>, cwd: string): string[] {
+  const base = typeof input.cwd === 'string' ? input.cwd : cwd;
+  const resolvePath = (path: string) => {
+    if (path === '~' || path.startsWith('~/')) return join(homedir(), path.slice(1));
+    return isAbsolute(path) ? path : resolve(base, path);
+  };
+
+  switch (toolName) {
+    case 'write': {
+      const filename = typeof input.filename === 'string' ? input.filename : input.path;
+      if (typeof filename !== 'string' || !filename.trim()) return [];
+      return [resolveWriteToolPath(filename, base, typeof input.sessionId === 'string' ? input.sessionId : undefined)];
+    }
+    case 'edit':
+      return typeof input.path === 'string' ? [resolvePath(input.path)] : [];
+    case 'apply_patch': {
+      if (typeof input.patch !== 'string') return [];
+      try {
+        const paths = parseUnifiedDiff(input.patch)
+          .flatMap((file) => [file.oldPath, file.newPath])
+          .filter((path): path is string => !!path)
+          .map(resolvePath);
+        return [...new Set(paths)];
+      } catch {
+        return [];
+      }
+    }
+    case 'bash': {
+      if (typeof input.command !== 'string') return [];
+      const analysis = analyzeShellCommand(input.command, { cwd: base });
+      return analysis.commands
+        .flatMap((command) => command.writes)
+        .filter((path) => !path.includes('$') && !/[*?[]/.test(path))
+        .map(resolvePath);
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * Result of rewinding a session to a checkpoint
+ */
+export interface RewindResult {
+  checkpoint: Checkpoint;
+  /** Whether the conversation was truncated to the checkpoint */
+  conversationRestored: boolean;
+  /** Messages removed from the conversation */
+  removedMessages: number;
+  /** Set when files were restored */
+  files?: FileRestoreResult;
+}
@@ -1,6 +1,51 @@
 export { VerificationSessionStore } from './verification';
 export { SessionStore, type PersistedSessionData } from './store';
 export { SessionRegistry, type SessionInfo, type PersistedSession, type CreateSessionOptions } from './registry';
+export {
+  CheckpointStore,
+  getToolWritePaths,
+  type Checkpoint,
+  type FileSnapshot,
+  type FileRestoreResult,
+  type RewindResult,
+} from './checkpoints';
+export {
+  forkSession,
+  buildSessionTree,
+  type ForkSessionOptions,
+  type ForkSessionResult,
+  type SessionTreeNode,
+} from './branches';
+export {
+  SessionLog,
+  replaySessionLog,
+  readSessionLogMeta,
+  SESSION_LOG_VERSION,
+  type SessionLogEvent,
+  type SessionMetaEvent,
+  type SessionMessageEvent,
+  type SessionTruncateEvent,
+  type SessionLogReplay,
+} from './session-log';
+export {
+  SessionSearchIndex,
+  getSessionSearchIndex,
+  indexSavedSession,
+  searchSessions,
+  buildFtsQuery,
+  parseSearchDate,
+  type IndexedSessionInfo,
+  type SessionSearchEntryKind,
+  type SessionSearchOptions,
+  type SessionSearchResult,
+} from './search';
+export {
+  sessionSearchTool,
+  sessionSearchTools,
+  createSessionSearchToolExecutors,
+  registerSessionSearchTools,
+  type SessionSearchToolContext,
+} from './search-tools';
 export {
   sessionTools,
   sessionInfoTool,
@@ -17,6 +17,8 @@ export interface SessionInfo {
   assistantId: string | null;
   /** Human-readable session label */
   label: string | null;
+  /** Session this one was forked from */
+  parentSessionId: string | null;
 }
 
 /**
@@ -46,6 +48,8 @@ export interface CreateSessionOptions {
   initialMessages?: Message[];
   /** Optional original startedAt timestamp (ISO string) */
   startedAt?: string;
+  /** Session this one was forked from */
+  parentSessionId?: string | null;
 }
 
 /**
@@ -79,6 +83,7 @@ export class SessionRegistry {
       initialMessages: options.initialMessages,
       startedAt: options.startedAt,
       assistantId: options.assistantId,
+      parentSessionId: options.parentSessionId,
     };
     const client = this.clientFactory(options.cwd, clientOptions);
     await client.initialize();
@@ -94,6 +99,7 @@ export class SessionRegistry {
       client,
       assistantId: options.assistantId || null,
       label: options.label || null,
+      parentSessionId: options.parentSessionId || null,
     };
 
     // Setup chunk forwarding/buffering
@@ -162,6 +168,7 @@ export class SessionRegistry {
       updatedAt: session.updatedAt,
       assistantId: session.assistantId,
       label: session.label,
+      parentSessionId: session.parentSessionId,
       status: session.id === this.activeSessionId ? 'active' : 'background',
     });
   }
@@ -237,6 +244,7 @@ export class SessionRegistry {
           updatedAt: Date.now(),
           assistantId: oldSession.assistantId,
           label: oldSession.label,
+          parentSessionId: oldSession.parentSessionId,
           status: 'background',
         });
       }
@@ -327,6 +335,7 @@ export class SessionRegistry {
         updatedAt: Date.now(),
         assistantId: session.assistantId,
         label: session.label,
+        parentSessionId: session.parentSessionId,
         status: 'closed',
       });
 
@@ -363,6 +372,7 @@ export class SessionRegistry {
         updatedAt: Date.now(),
         assistantId: session.assistantId,
         label: session.label,
+        parentSessionId: session.parentSessionId,
         status: 'closed',
       });
     }
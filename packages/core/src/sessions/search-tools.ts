@@ -0,0 +1,149 @@
+/**
+ * Session search tool - lets an assistant look up its own past work
+ */
+
+import type { Tool } from '@hasna/assistants-shared';
+import type { ToolExecutor, ToolRegistry } from '../tools/registry';
+import { searchSessions, type SessionSearchEntryKind, type SessionSearchOptions } from './search';
+
+// ============================================
+// Types
+// ============================================
+
+export interface SessionSearchToolContext {
+  /** Assistant whose sessions are searched by default */
+  getAssistantId: () => string | null;
+  /** Current session, marked in results */
+  getSessionId?: () => string;
+}
+
+const KINDS: SessionSearchEntryKind[] = ['message', 'tool_call', 'tool_result'];
+
+// ============================================
+// Tool Definitions
+// ============================================
+
+export const sessionSearchTool: Tool = {
+  name: 'session_search',
+  description:
+    'Full-text search across past session transcripts: messages, tool calls and tool results. ' +
+    'Use it to find how something was done before, earlier decisions, or previous command output. ' +
+    'Searches your own sessions by default.',
+  parameters: {
+    type: 'object',
+    properties: {
+      query: {
+        type: 'string',
+        description:
+          'Search terms (all must match). Use "quotes" for phrases and a trailing * for prefixes. ' +
+          'Leave empty to list the most recent entries matching the filters.',
+      },
+      scope: {
+        type: 'string',
+        description: 'Search your own sessions (assistant, default) or sessions of all assistants (all)',
+        enum: ['assistant', 'all'],
+      },
+      project: {
+        type: 'string',
+        description: 'Only sessions in this project directory (path or directory name)',
+      },
+      since: {
+        type: 'string',
+        description: 'Only entries after this date (ISO date or age such as 12h, 7d, 2w)',
+      },
+      until: {
+        type: 'string',
+        description: 'Only entries before this date (ISO date or age such as 12h, 7d, 2w)',
+      },
+      tool: {
+        type: 'string',
+        description: 'Only calls and results of this tool (e.g. bash, edit)',
+      },
+      kind: {
+        type: 'string',
+        description: 'Only this kind of entry',
+        enum: KINDS,
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum results to return (default: 20, max: 100)',
+      },
+    },
+  },
+};
+
+export const sessionSearchTools: Tool[] = [sessionSearchTool];
+
+// ============================================
+// Tool Executors
+// ============================================
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+export function createSessionSearchToolExecutors(
+  context: SessionSearchToolContext
+): Record<string, ToolExecutor> {
+  return {
+    session_search: async (input): Promise<string> => {
+      try {
+        const query = typeof input.query === 'string' ? input.query : '';
+        const kind = optionalString(input.kind);
+        if (kind && !KINDS.includes(kind as SessionSearchEntryKind)) {
+          throw new Error(`kind must be one of: ${KINDS.join(', ')}`);
+        }
+
+        const options: SessionSearchOptions = {
+          query,
+          project: optionalString(input.project),
+          since: optionalString(input.since),
+          until: optionalString(input.until),
+          toolName: optionalString(input.tool),
+          kind: kind as SessionSearchEntryKind | undefined,
+          limit: typeof input.limit === 'number' ? input.limit : undefined,
+        };
+        if (input.scope !== 'all') {
+          options.assistantId = context.getAssistantId();
+        }
+
+        const currentSessionId = context.getSessionId?.();
+        const results = searchSessions(options);
+        return JSON.stringify({
+          query,
+          count: results.length,
+          results: results.map((result) => ({
+            sessionId: result.sessionId,
+            currentSession: result.sessionId === currentSessionId || undefined,
+            assistantId: result.assistantId,
+            cwd: result.cwd,
+            kind: result.kind,
+            role: result.role,
+            tool: result.toolName,
+            timestamp: result.timestamp,
+            snippet: result.snippet,
+          })),
+        });
+      } catch (error) {
+        return JSON.stringify({
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    },
+  };
+}
+
+// ============================================
+// Registration Function
+// ============================================
+
+export function registerSessionSearchTools(
+  registry: ToolRegistry,
+  context: SessionSearchToolContext
+): void {
+  const executors = createSessionSearchToolExecutors(context);
+
+  for (const tool of sessionSearchTools) {
+    registry.register(tool, executors[tool.name]);
+  }
+}
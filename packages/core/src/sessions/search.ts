@@ -0,0 +1,564 @@
+import { join, dirname } from 'path';
+import { existsSync, mkdirSync } from 'fs';
+import type { Message } from '@hasna/assistants-shared';
+import { getConfigDir } from '../config';
+import { getRuntime, hasRuntime } from '../runtime';
+import type { DatabaseConnection } from '../runtime';
+import { SessionStorage, type SessionData, type SavedSessionInfo } from '../logger';
+
+/** Longest text kept per indexed entry */
+const MAX_ENTRY_CHARS = 8000;
+
+/** Longest tool input kept per indexed tool call */
+const MAX_TOOL_INPUT_CHARS = 2000;
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+export type SessionSearchEntryKind = 'message' | 'tool_call' | 'tool_result';
+
+/**
+ * Session fields stored alongside its indexed entries
+ */
+export interface IndexedSessionInfo {
+  id: string;
+  assistantId?: string | null;
+  cwd: string;
+  startedAt: string;
+  updatedAt: string;
+}
+
+export interface SessionSearchOptions {
+  /** Search terms; quoted phrases and trailing `*` prefixes are supported. Optional with a filter. */
+  query?: string;
+  /** Only sessions of this assistant (null = sessions without an assistant) */
+  assistantId?: string | null;
+  /** Project directory: a path prefix or the directory name */
+  project?: string;
+  /** ISO date or relative age such as 12h, 7d, 2w */
+  since?: string;
+  /** ISO date or relative age such as 12h, 7d, 2w */
+  until?: string;
+  /** Only tool calls and results of this tool */
+  toolName?: string;
+  kind?: SessionSearchEntryKind;
+  sessionId?: string;
+  limit?: number;
+}
+
+export interface SessionSearchResult {
+  sessionId: string;
+  assistantId: string | null;
+  cwd: string;
+  messageId: string | null;
+  kind: SessionSearchEntryKind;
+  role: string | null;
+  toolName: string | null;
+  timestamp: string;
+  snippet: string;
+  /** bm25 score, lower is better (0 when searching by filters only) */
+  rank: number;
+}
+
+interface IndexedSessionRow {
+  session_id: string;
+  assistant_id: string | null;
+  updated_at: string;
+  indexed_count: number;
+  last_message_key: string | null;
+}
+
+interface SearchRow {
+  session_id: string;
+  assistant_id: string | null;
+  cwd: string;
+  message_id: string | null;
+  kind: SessionSearchEntryKind;
+  role: string | null;
+  tool_name: string | null;
+  created_at: number;
+  snippet: string;
+  rank: number;
+}
+
+interface IndexEntry {
+  messageId: string | null;
+  position: number;
+  kind: SessionSearchEntryKind;
+  role: string | null;
+  toolName: string | null;
+  createdAt: number;
+  content: string;
+}
+
+function messageKey(message: unknown): string {
+  const id = (message as { id?: unknown } | null)?.id;
+  return typeof id === 'string' ? id : JSON.stringify(message);
+}
+
+function clip(value: string, max: number): string {
+  return value.length > max ? `${value.slice(0, max)}…` : value;
+}
+
+function stringifyInput(input: unknown): string {
+  if (typeof input === 'string') return input;
+  try {
+    return JSON.stringify(input) ?? '';
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Turn one message into indexable entries: its text, each tool call and each tool result
+ */
+function extractEntries(
+  message: Message,
+  position: number,
+  toolNames: Map<string, string>,
+  fallbackTime: number
+): IndexEntry[] {
+  const entries: IndexEntry[] = [];
+  const createdAt = typeof message.timestamp === 'number' ? message.timestamp : fallbackTime;
+  const messageId = typeof message.id === 'string' ? message.id : null;
+  const role = typeof message.role === 'string' ? message.role : null;
+
+  if (typeof message.content === 'string' && message.content.trim()) {
+    entries.push({
+      messageId,
+      position,
+      kind: 'message',
+      role,
+      toolName: null,
+      createdAt,
+      content: clip(message.content, MAX_ENTRY_CHARS),
+    });
+  }
+
+  for (const call of Array.isArray(message.toolCalls) ? message.toolCalls : []) {
+    if (!call?.name) continue;
+    entries.push({
+      messageId,
+      position,
+      kind: 'tool_call',
+      role,
+      toolName: call.name,
+      createdAt,
+      content: `${call.name} ${clip(stringifyInput(call.input), MAX_TOOL_INPUT_CHARS)}`,
+    });
+  }
+
+  for (const result of Array.isArray(message.toolResults) ? message.toolResults : []) {
+    if (typeof result?.content !== 'string' || !result.content.trim()) continue;
+    entries.push({
+      messageId,
+      position,
+      kind: 'tool_result',
+      role,
+      toolName: result.toolName ?? toolNames.get(result.toolCallId) ?? null,
+      createdAt,
+      content: clip(result.content, MAX_ENTRY_CHARS),
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Build an FTS5 query from user input. Every term is quoted so punctuation
+ * and FTS operators in the input are matched literally; all terms must match.
+ */
+export function buildFtsQuery(query: string): string {
+  const terms: string[] = [];
+  for (const raw of query.match(/"[^"]*"|\S+/g) ?? []) {
+    const phrase = raw.startsWith('"') && raw.endsWith('"') && raw.length > 1;
+    let term = phrase ? raw.slice(1, -1) : raw.replace(/"/g, '');
+    const prefix = !phrase && term.endsWith('*');
+    if (prefix) term = term.replace(/\*+$/, '');
+    if (!/[\p{L}\p{N}]/u.test(term)) continue;
+    terms.push(`"${term.replace(/"/g, '""')}"${prefix ? '*' : ''}`);
+  }
+  return terms.join(' ');
+}
+
+/**
+ * Parse a search date: an ISO date/time or a relative age (30m, 12h, 7d, 2w).
+ * A bare `until` date covers that whole day.
+ */
+export function parseSearchDate(value: string, bound: 'since' | 'until', now: number = Date.now()): number {
+  const trimmed = value.trim().toLowerCase();
+  const relative = trimmed.match(/^(\d+)\s*(m|min|h|d|w)$/);
+  if (relative) {
+    const units: Record<string, number> = {
+      m: 60_000,
+      min: 60_000,
+      h: 3_600_000,
+      d: 86_400_000,
+      w: 604_800_000,
+    };
+    return now - Number(relative[1]) * units[relative[2]];
+  }
+  if (trimmed === 'today' || trimmed === 'yesterday') {
+    const start = new Date(now);
+    start.setHours(0, 0, 0, 0);
+    if (trimmed === 'yesterday') start.setDate(start.getDate() - 1);
+    return bound === 'until' ? start.getTime() + 86_400_000 - 1 : start.getTime();
+  }
+
+  const parsed = Date.parse(value.trim());
+  if (Number.isNaN(parsed)) {
+    throw new Error(`Invalid date "${value}". Use an ISO date (2026-01-31) or an age such as 12h, 7d or 2w.`);
+  }
+  if (bound === 'until' && /^\d{4}-\d{2}-\d{2}$/.test(value.trim())) {
+    return parsed + 86_400_000 - 1;
+  }
+  return parsed;
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Local SQLite full-text index over saved session transcripts.
+ *
+ * Messages, tool calls and tool results are indexed as separate entries.
+ * Sessions are indexed incrementally as they are saved; `sync()` catches up
+ * with sessions written while indexing was unavailable.
+ */
+export class SessionSearchIndex {
+  private db: DatabaseConnection;
+
+  constructor(dbPath?: string) {
+    const path = dbPath || join(getConfigDir(), 'session-index.db');
+    const dir = dirname(path);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+    this.db = getRuntime().openDatabase(path);
+    this.initialize();
+  }
+
+  private initialize(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS indexed_sessions (
+        session_id TEXT PRIMARY KEY,
+        assistant_id TEXT,
+        cwd TEXT NOT NULL,
+        started_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        indexed_count INTEGER NOT NULL,
+        last_message_key TEXT
+      )
+    `);
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS session_entries (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        message_id TEXT,
+        position INTEGER NOT NULL,
+        kind TEXT NOT NULL,
+        role TEXT,
+        tool_name TEXT,
+        created_at INTEGER NOT NULL,
+        content TEXT NOT NULL
+      )
+    `);
+
+    this.db.exec(`CREATE INDEX IF NOT EXISTS idx_session_entries_session ON session_entries(session_id)`);
+
+    this.db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS session_entries_fts USING fts5(
+        content,
+        tool_name,
+        content='session_entries',
+        content_rowid='id',
+        tokenize='porter unicode61'
+      )
+    `);
+
+    this.db.exec(`
+      CREATE TRIGGER IF NOT EXISTS session_entries_ai AFTER INSERT ON session_entries BEGIN
+        INSERT INTO session_entries_fts(rowid, content, tool_name)
+        VALUES (new.id, new.content, new.tool_name);
+      END
+    `);
+
+    this.db.exec(`
+      CREATE TRIGGER IF NOT EXISTS session_entries_ad AFTER DELETE ON session_entries BEGIN
+        INSERT INTO session_entries_fts(session_entries_fts, rowid, content, tool_name)
+        VALUES ('delete', old.id, old.content, old.tool_name);
+      END
+    `);
+  }
+
+  /**
+   * Index a session's messages. Only messages added since the last call are
+   * indexed; if the transcript was rewound or rewritten it is reindexed.
+   * Returns the number of entries added.
+   */
+  indexSession(session: IndexedSessionInfo, messages: unknown[]): number {
+    const existing = this.db
+      .query<IndexedSessionRow>(`SELECT * FROM indexed_sessions WHERE session_id = ?`)
+      .get(session.id);
+
+    let start = 0;
+    if (existing) {
+      const count = existing.indexed_count;
+      const continues =
+        count <= messages.length &&
+        (count === 0 || messageKey(messages[count - 1]) === existing.last_message_key);
+      start = continues ? count : 0;
+    }
+
+    const toolNames = new Map<string, string>();
+    for (const message of messages as Message[]) {
+      for (const call of Array.isArray(message?.toolCalls) ? message.toolCalls : []) {
+        if (call?.id && call.name) toolNames.set(call.id, call.name);
+      }
+    }
+
+    const fallbackTime = Date.parse(session.updatedAt) || Date.now();
+    const entries: IndexEntry[] = [];
+    for (let position = start; position < messages.length; position++) {
+      const message = messages[position] as Message | null;
+      if (!message || typeof message !== 'object') continue;
+      entries.push(...extractEntries(message, position, toolNames, fallbackTime));
+    }
+
+    const insert = this.db.prepare(
+      `INSERT INTO session_entries (session_id, message_id, position, kind, role, tool_name, created_at, content)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+
+    this.db.transaction(() => {
+      if (existing && start === 0) {
+        this.db.prepare(`DELETE FROM session_entries WHERE session_id = ?`).run(session.id);
+      }
+      for (const entry of entries) {
+        insert.run(
+          session.id,
+          entry.messageId,
+          entry.position,
+          entry.kind,
+          entry.role,
+          entry.toolName,
+          entry.createdAt,
+          entry.content
+        );
+      }
+      this.db
+        .prepare(
+          `INSERT OR REPLACE INTO indexed_sessions
+             (session_id, assistant_id, cwd, started_at, updated_at, indexed_count, last_message_key)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`
+        )
+        .run(
+          session.id,
+          session.assistantId ?? null,
+          session.cwd,
+          session.startedAt,
+          session.updatedAt,
+          messages.length,
+          messages.length > 0 ? messageKey(messages[messages.length - 1]) : null
+        );
+    });
+
+    return entries.length;
+  }
+
+  /**
+   * Drop a session from the index
+   */
+  removeSession(sessionId: string): void {
+    this.db.transaction(() => {
+      this.db.prepare(`DELETE FROM session_entries WHERE session_id = ?`).run(sessionId);
+      this.db.prepare(`DELETE FROM indexed_sessions WHERE session_id = ?`).run(sessionId);
+    });
+  }
+
+  /**
+   * Bring the index up to date with the saved sessions on disk.
+   * Returns the number of sessions (re)indexed.
+   */
+  sync(sessions: SavedSessionInfo[] = SessionStorage.listAllSessions()): number {
+    const indexed = new Map(
+      this.db
+        .query<IndexedSessionRow>(`SELECT session_id, assistant_id, updated_at FROM indexed_sessions`)
+        .all()
+        .map((row) => [row.session_id, row])
+    );
+
+    let updated = 0;
+    for (const session of sessions) {
+      const row = indexed.get(session.id);
+      indexed.delete(session.id);
+      if (row && row.updated_at === session.updatedAt && row.assistant_id === (session.assistantId ?? null)) {
+        continue;
+      }
+      let data: SessionData | null = null;
+      try {
+        data = new SessionStorage(session.id, undefined, session.assistantId ?? null).read();
+      } catch {
+        data = null;
+      }
+      if (!data) continue;
+      this.indexSession({ ...session, cwd: data.cwd }, data.messages);
+      updated++;
+    }
+
+    // Sessions deleted from disk
+    for (const sessionId of indexed.keys()) {
+      this.removeSession(sessionId);
+    }
+    return updated;
+  }
+
+  /**
+   * Search indexed entries, best matches first (most recent first without a query)
+   */
+  search(options: SessionSearchOptions): SessionSearchResult[] {
+    const match = buildFtsQuery(options.query ?? '');
+    const hasFilter = Boolean(
+      options.toolName
+        || options.sessionId
+        || options.kind
+        || options.project?.trim()
+        || options.since
+        || options.until
+        || options.assistantId !== undefined
+    );
+    if (!match && !hasFilter) {
+      throw new Error('Search query or filter is required');
+    }
+
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (match) {
+      conditions.push('session_entries_fts MATCH ?');
+      params.push(match);
+    }
+    if (options.assistantId !== undefined) {
+      if (options.assistantId === null) {
+        conditions.push('s.assistant_id IS NULL');
+      } else {
+        conditions.push('s.assistant_id = ?');
+        params.push(options.assistantId);
+      }
+    }
+    if (options.project?.trim()) {
+      // A path matches the directory and everything below it; a name matches the directory name
+      const project = options.project.trim().replace(/\/+$/, '').toLowerCase();
+      const pattern = project.includes('/') ? `${escapeLike(project)}/%` : `%/${escapeLike(project)}`;
+      conditions.push(`(lower(s.cwd) = ? OR lower(s.cwd) LIKE ? ESCAPE '\\')`);
+      params.push(project, pattern);
+    }
+    if (options.since) {
+      conditions.push('e.created_at >= ?');
+      params.push(parseSearchDate(options.since, 'since'));
+    }
+    if (options.until) {
+      conditions.push('e.created_at <= ?');
+      params.push(parseSearchDate(options.until, 'until'));
+    }
+    if (options.toolName) {
+      conditions.push('lower(e.tool_name) = ?');
+      params.push(options.toolName.toLowerCase());
+    }
+    if (options.kind) {
+      conditions.push('e.kind = ?');
+      params.push(options.kind);
+    }
+    if (options.sessionId) {
+      conditions.push('e.session_id = ?');
+      params.push(options.sessionId);
+    }
+
+    const limit = Math.min(Math.max(1, Math.floor(options.limit ?? DEFAULT_LIMIT)), MAX_LIMIT);
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const sql = match
+      ? `SELECT e.session_id, s.assistant_id, s.cwd, e.message_id, e.kind, e.role, e.tool_name, e.created_at,
+                snippet(session_entries_fts, 0, '**', '**', '…', 16) AS snippet,
+                bm25(session_entries_fts) AS rank
+         FROM session_entries_fts
+         JOIN session_entries e ON e.id = session_entries_fts.rowid
+         JOIN indexed_sessions s ON s.session_id = e.session_id
+         ${where}
+         ORDER BY rank
+         LIMIT ?`
+      : `SELECT e.session_id, s.assistant_id, s.cwd, e.message_id, e.kind, e.role, e.tool_name, e.created_at,
+                substr(e.content, 1, 160) AS snippet,
+                0 AS rank
+         FROM session_entries e
+         JOIN indexed_sessions s ON s.session_id = e.session_id
+         ${where}
+         ORDER BY e.created_at DESC, e.id DESC
+         LIMIT ?`;
+
+    const rows = this.db.query<SearchRow>(sql).all(...params, limit);
+    return rows.map((row) => ({
+      sessionId: row.session_id,
+      assistantId: row.assistant_id,
+      cwd: row.cwd,
+      messageId: row.message_id,
+      kind: row.kind,
+      role: row.role,
+      toolName: row.tool_name,
+      timestamp: new Date(row.created_at).toISOString(),
+      snippet: row.snippet.replace(/\s+/g, ' ').trim(),
+      rank: row.rank,
+    }));
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+let sharedIndex: { path: string; index: SessionSearchIndex } | null = null;
+
+/**
+ * Index for the current config dir, shared by saves and searches
+ */
+export function getSessionSearchIndex(): SessionSearchIndex {
+  const path = join(getConfigDir(), 'session-index.db');
+  if (sharedIndex?.path !== path) {
+    sharedIndex?.index.close();
+    sharedIndex = { path, index: new SessionSearchIndex(path) };
+  }
+  return sharedIndex.index;
+}
+
+/**
+ * Incrementally index a session that was just saved. Best effort: a missing
+ * runtime or a broken index never fails the save, and `sync()` catches up later.
+ */
+export function indexSavedSession(sessionId: string, assistantId: string | null, data: SessionData): void {
+  if (!hasRuntime()) return;
+  try {
+    getSessionSearchIndex().indexSession(
+      {
+        id: sessionId,
+        assistantId,
+        cwd: data.cwd,
+        startedAt: data.startedAt,
+        updatedAt: data.updatedAt,
+      },
+      data.messages
+    );
+  } catch {
+    // Searches resync stale sessions
+  }
+}
+
+/**
+ * Search all saved sessions, first indexing any that changed since the last search
+ */
+export function searchSessions(options: SessionSearchOptions): SessionSearchResult[] {
+  const index = getSessionSearchIndex();
+  index.sync();
+  return index.search(options);
+}
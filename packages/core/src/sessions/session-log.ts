@@ -0,0 +1,321 @@
+import { appendFileSync, existsSync, readFileSync, truncateSync } from 'fs';
+import { atomicWriteFileSync } from '../utils/atomic-write';
+import { ErrorCodes, SessionStorageError, type ErrorCode } from '../errors';
+import type { SessionData } from '../logger';
+
+/** Format version written into every meta event */
+export const SESSION_LOG_VERSION = 1;
+
+/** Logs shorter than this are never compacted */
+const COMPACT_MIN_LINES = 500;
+
+/** Compact once the log has this many lines per live line */
+const COMPACT_RATIO = 2;
+
+/**
+ * Session-level fields, appended after every save (the last one wins)
+ */
+export interface SessionMetaEvent {
+  type: 'meta';
+  v: number;
+  startedAt: string;
+  updatedAt: string;
+  cwd: string;
+  messageCount: number;
+  parentSessionId?: string;
+  forkedFromCheckpointId?: string;
+}
+
+/**
+ * A message appended to the conversation
+ */
+export interface SessionMessageEvent {
+  type: 'message';
+  message: unknown;
+}
+
+/**
+ * The conversation was cut back to its first `length` messages (rewind, clear)
+ */
+export interface SessionTruncateEvent {
+  type: 'truncate';
+  length: number;
+}
+
+export type SessionLogEvent = SessionMetaEvent | SessionMessageEvent | SessionTruncateEvent;
+
+/**
+ * Result of replaying a session log
+ */
+export interface SessionLogReplay {
+  data: SessionData | null;
+  /** Lines in the log, including superseded ones */
+  lines: number;
+  /** Malformed lines that were skipped */
+  skipped: number;
+  /** Whether a partially written tail was cut off */
+  repairedTail: boolean;
+}
+
+/**
+ * Key used to tell whether a message is already in the log
+ */
+function messageKey(message: unknown): string {
+  const id = (message as { id?: unknown } | null)?.id;
+  return typeof id === 'string' ? id : JSON.stringify(message);
+}
+
+function metaEvent(data: SessionData): SessionMetaEvent {
+  return {
+    type: 'meta',
+    v: SESSION_LOG_VERSION,
+    startedAt: data.startedAt,
+    updatedAt: data.updatedAt,
+    cwd: data.cwd,
+    messageCount: data.messages.length,
+    parentSessionId: data.parentSessionId,
+    forkedFromCheckpointId: data.forkedFromCheckpointId,
+  };
+}
+
+function parseEvent(line: string): SessionLogEvent | null {
+  try {
+    const event = JSON.parse(line) as SessionLogEvent;
+    if (event && (event.type === 'meta' || event.type === 'message' || event.type === 'truncate')) {
+      return event;
+    }
+  } catch {
+    // Malformed line
+  }
+  return null;
+}
+
+/**
+ * Replay log content into session data
+ */
+export function replaySessionLog(content: string): SessionLogReplay & { validLength: number } {
+  const messages: unknown[] = [];
+  let meta: SessionMetaEvent | null = null;
+  let lines = 0;
+  let skipped = 0;
+  let validLength = 0;
+  let repairedTail = false;
+  let offset = 0;
+
+  while (offset < content.length) {
+    const newline = content.indexOf('\n', offset);
+    const end = newline === -1 ? content.length : newline;
+    const line = content.slice(offset, end);
+    offset = end + 1;
+    if (!line.trim()) {
+      if (newline !== -1) validLength = offset;
+      continue;
+    }
+
+    const event = parseEvent(line);
+    if (!event) {
+      if (newline === -1) {
+        // A crash while appending leaves a partial last line
+        repairedTail = true;
+        break;
+      }
+      skipped++;
+      validLength = offset;
+      continue;
+    }
+
+    lines++;
+    validLength = newline === -1 ? content.length : offset;
+    if (event.type === 'message') {
+      messages.push(event.message);
+    } else if (event.type === 'truncate') {
+      messages.length = Math.min(messages.length, Math.max(0, event.length));
+    } else {
+      meta = event;
+    }
+  }
+
+  const data: SessionData | null = meta
+    ? {
+        messages,
+        startedAt: meta.startedAt,
+        updatedAt: meta.updatedAt,
+        cwd: meta.cwd,
+        parentSessionId: meta.parentSessionId,
+        forkedFromCheckpointId: meta.forkedFromCheckpointId,
+      }
+    : null;
+
+  return { data, lines, skipped, repairedTail, validLength };
+}
+
+/**
+ * Read the latest meta event without replaying messages (for listings)
+ */
+export function readSessionLogMeta(path: string): SessionMetaEvent | null {
+  try {
+    const content = readFileSync(path, 'utf-8');
+    let end = content.length;
+    while (end > 0) {
+      const start = content.lastIndexOf('\n', end - 1) + 1;
+      const line = content.slice(start, end);
+      if (line.includes('"type":"meta"')) {
+        const event = parseEvent(line);
+        if (event?.type === 'meta') return event;
+      }
+      end = start - 1;
+    }
+  } catch {
+    // Unreadable log
+  }
+  return null;
+}
+
+/**
+ * Append-only JSONL log of one session.
+ *
+ * Each save appends only the messages added since the previous save, plus a
+ * meta event. Rewinds and clears append a truncate event. Once most of the
+ * log is superseded it is compacted with an atomic rewrite. A partially
+ * written last line (crash mid-append) is cut off the next time the log is
+ * opened.
+ */
+export class SessionLog {
+  private path: string;
+  private loaded = false;
+  private keys: string[] = [];
+  private lines = 0;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  getPath(): string {
+    return this.path;
+  }
+
+  exists(): boolean {
+    return existsSync(this.path);
+  }
+
+  /**
+   * Replay the log, repairing a truncated tail
+   */
+  read(): SessionLogReplay {
+    if (!existsSync(this.path)) {
+      this.setState([], 0);
+      return { data: null, lines: 0, skipped: 0, repairedTail: false };
+    }
+
+    let content: string;
+    try {
+      content = readFileSync(this.path, 'utf-8');
+    } catch (error) {
+      throw this.storageError('read', error, ErrorCodes.SESSION_READ_FAILED);
+    }
+    const replay = replaySessionLog(content);
+    if (replay.validLength < content.length || (content.length > 0 && !content.endsWith('\n'))) {
+      this.repair(content, replay.validLength);
+    }
+    this.setState(replay.data?.messages ?? [], replay.lines + replay.skipped);
+    return {
+      data: replay.data,
+      lines: replay.lines,
+      skipped: replay.skipped,
+      repairedTail: replay.repairedTail,
+    };
+  }
+
+  /**
+   * Persist session data, appending only what changed since the last save
+   */
+  save(data: SessionData): void {
+    if (!this.loaded) {
+      this.read();
+    }
+    if (this.lines === 0) {
+      this.write(data);
+      return;
+    }
+
+    const keys = data.messages.map(messageKey);
+    let common = 0;
+    while (common < keys.length && common < this.keys.length && keys[common] === this.keys[common]) {
+      common++;
+    }
+
+    const events: SessionLogEvent[] = [];
+    if (common < this.keys.length) {
+      events.push({ type: 'truncate', length: common });
+    }
+    for (const message of data.messages.slice(common)) {
+      events.push({ type: 'message', message });
+    }
+    events.push(metaEvent(data));
+
+    const live = keys.length + 1;
+    if (this.lines + events.length > COMPACT_MIN_LINES && this.lines + events.length > live * COMPACT_RATIO) {
+      this.write(data);
+      return;
+    }
+
+    try {
+      appendFileSync(this.path, events.map((event) => JSON.stringify(event)).join('\n') + '\n');
+    } catch (error) {
+      // The tail may now be partial; replay (and repair) before the next save
+      this.loaded = false;
+      throw this.storageError('append to', error);
+    }
+    this.keys = keys;
+    this.lines += events.length;
+  }
+
+  /**
+   * Rewrite the log with only live events (atomic)
+   */
+  write(data: SessionData): void {
+    const events: SessionLogEvent[] = data.messages.map((message) => ({ type: 'message', message }));
+    events.push(metaEvent(data));
+    try {
+      atomicWriteFileSync(this.path, events.map((event) => JSON.stringify(event)).join('\n') + '\n');
+    } catch (error) {
+      this.loaded = false;
+      throw this.storageError('write', error);
+    }
+    this.setState(data.messages, events.length);
+  }
+
+  private setState(messages: unknown[], lines: number): void {
+    this.keys = messages.map(messageKey);
+    this.lines = lines;
+    this.loaded = true;
+  }
+
+  private repair(content: string, validLength: number): void {
+    try {
+      if (validLength < content.length) {
+        truncateSync(this.path, Buffer.byteLength(content.slice(0, validLength)));
+      }
+      if (validLength > 0 && !content.slice(0, validLength).endsWith('\n')) {
+        appendFileSync(this.path, '\n');
+      }
+    } catch {
+      // Replay already ignores the partial line; the next compaction drops it
+    }
+  }
+
+  private storageError(
+    action: string,
+    error: unknown,
+    code: ErrorCode = ErrorCodes.SESSION_WRITE_FAILED
+  ): SessionStorageError {
+    const cause = error instanceof Error ? error : new Error(String(error));
+    return new SessionStorageError(`Failed to ${action} session log ${this.path}: ${cause.message}`, {
+      code,
+      path: this.path,
+      retryable: true,
+      suggestion: 'Check free disk space and permissions for the sessions directory.',
+      cause,
+    });
+  }
+}
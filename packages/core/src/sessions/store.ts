@@ -19,6 +19,8 @@ export interface PersistedSessionData {
   updatedAt: number;
   assistantId: string | null;
   label: string | null;
+  /** Session this one was forked from */
+  parentSessionId?: string | null;
   status: 'active' | 'background' | 'closed';
 }
 
@@ -0,0 +1,431 @@
+import type {
+  AskUserRequest,
+  Skill,
+  SkillArgument,
+  SkillArgumentType,
+  SkillArgumentValue,
+  ToolParameters,
+  ToolProperty,
+} from '@hasna/assistants-shared';
+
+/**
+ * Skill argument schemas - typed, named arguments declared in SKILL.md
+ * frontmatter:
+ *
+ * ```yaml
+ * arguments:
+ *   - name: file
+ *     type: string
+ *     required: true
+ *   - name: severity
+ *     enum: [low, medium, high]
+ *     default: medium
+ * ```
+ *
+ * Invocations accept positional values (in schema order), `--name value`,
+ * `--name=value`, `name=value`, and `--flag` / `--no-flag` for booleans.
+ */
+
+const ARGUMENT_TYPES: SkillArgumentType[] = ['string', 'number', 'integer', 'boolean'];
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+const TRUE_VALUES = ['true', 'yes', 'y', 'on', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', 'off', '0'];
+
+export class SkillArgumentError extends Error {
+  /** Required arguments without a value */
+  readonly missing: SkillArgument[];
+  /** Invalid, unknown or extra arguments */
+  readonly issues: string[];
+
+  constructor(skillName: string, missing: SkillArgument[], issues: string[]) {
+    const problems = [
+      ...issues,
+      ...(missing.length > 0 ? [`Missing required argument${missing.length === 1 ? '' : 's'}: ${missing.map((arg) => arg.name).join(', ')}`] : []),
+    ];
+    super(`Invalid arguments for skill "${skillName}": ${problems.join('; ')}`);
+    this.name = 'SkillArgumentError';
+    this.missing = missing;
+    this.issues = issues;
+  }
+}
+
+export interface SkillArgumentAnalysis {
+  values: Record<string, SkillArgumentValue>;
+  missing: SkillArgument[];
+  issues: string[];
+}
+
+/**
+ * Validate the `arguments` frontmatter field. Accepts a list of argument
+ * objects or a map of name to argument object (or to a bare type name).
+ */
+export function parseSkillArgumentSchema(raw: unknown): SkillArgument[] {
+  const items: Array<Record<string, unknown>> = [];
+  if (Array.isArray(raw)) {
+    for (const item of raw) {
+      if (typeof item === 'string') {
+        items.push({ name: item });
+      } else if (item && typeof item === 'object' && !Array.isArray(item)) {
+        items.push(item as Record<string, unknown>);
+      } else {
+        throw new Error('"arguments" entries must be objects with a name');
+      }
+    }
+  } else if (raw && typeof raw === 'object') {
+    for (const [name, value] of Object.entries(raw as Record<string, unknown>)) {
+      if (typeof value === 'string') {
+        items.push({ name, type: value });
+      } else if (value && typeof value === 'object' && !Array.isArray(value)) {
+        items.push({ ...(value as Record<string, unknown>), name });
+      } else {
+        items.push({ name });
+      }
+    }
+  } else {
+    throw new Error('"arguments" must be a list or a map of arguments');
+  }
+
+  const schema: SkillArgument[] = [];
+  const seen = new Set<string>();
+  items.forEach((item, index) => {
+    const name = typeof item.name === 'string' ? item.name.trim() : '';
+    if (!NAME_PATTERN.test(name)) {
+      throw new Error(`Argument ${index + 1}: name must start with a letter and contain only letters, digits, "_" or "-"`);
+    }
+    if (seen.has(name)) {
+      throw new Error(`Argument "${name}" is declared twice`);
+    }
+    seen.add(name);
+
+    const type = (item.type ?? 'string') as SkillArgumentType;
+    if (!ARGUMENT_TYPES.includes(type)) {
+      throw new Error(`Argument "${name}": type must be one of ${ARGUMENT_TYPES.join(', ')}`);
+    }
+    const argument: SkillArgument = { name, type };
+    if (typeof item.description === 'string' && item.description.trim()) {
+      argument.description = item.description.trim();
+    }
+    if (item.required === true) {
+      argument.required = true;
+    }
+    if (item.enum !== undefined) {
+      if (!Array.isArray(item.enum) || item.enum.length === 0) {
+        throw new Error(`Argument "${name}": enum must be a non-empty list`);
+      }
+      argument.enum = item.enum.map((value) => {
+        const coerced = coerceValue(argument, value);
+        if (coerced.error || typeof coerced.value === 'boolean') {
+          throw new Error(`Argument "${name}": enum value ${JSON.stringify(value)} is not a ${type}`);
+        }
+        return coerced.value as string | number;
+      });
+    }
+    if (item.default !== undefined && item.default !== null) {
+      const coerced = coerceValue(argument, item.default);
+      if (coerced.error) {
+        throw new Error(`Argument "${name}": default ${coerced.error}`);
+      }
+      argument.default = coerced.value;
+    }
+    if (item.rest === true) {
+      if (type !== 'string') {
+        throw new Error(`Argument "${name}": only string arguments can take the rest of the input`);
+      }
+      argument.rest = true;
+    }
+    schema.push(argument);
+  });
+
+  const restIndex = schema.findIndex((argument) => argument.rest);
+  if (restIndex >= 0 && restIndex !== schema.length - 1) {
+    throw new Error(`Argument "${schema[restIndex].name}": rest arguments must be declared last`);
+  }
+  return schema;
+}
+
+/**
+ * Split an argument string into words, honoring quotes and backslash escapes
+ */
+export function splitSkillArguments(input: string): string[] {
+  const words: string[] = [];
+  let current = '';
+  let quote: '"' | "'" | null = null;
+  let started = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (char === '\\' && i + 1 < input.length && quote !== "'") {
+      current += input[++i];
+      started = true;
+    } else if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else {
+        current += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      started = true;
+    } else if (/\s/.test(char)) {
+      if (started) {
+        words.push(current);
+        current = '';
+        started = false;
+      }
+    } else {
+      current += char;
+      started = true;
+    }
+  }
+  if (started) words.push(current);
+  return words;
+}
+
+/**
+ * Validate and coerce invocation arguments without throwing
+ */
+export function analyzeSkillArguments(
+  schema: SkillArgument[],
+  input: string | string[] | Record<string, unknown>
+): SkillArgumentAnalysis {
+  const byName = new Map(schema.map((argument) => [argument.name, argument]));
+  const raw = new Map<string, unknown>();
+  const issues: string[] = [];
+
+  const setRaw = (name: string, value: unknown) => {
+    const argument = byName.get(name) ?? byName.get(name.replace(/_/g, '-')) ?? byName.get(name.replace(/-/g, '_'));
+    if (!argument) {
+      issues.push(`Unknown argument "${name}"${suggest(name, schema.map((arg) => arg.name))}`);
+      return;
+    }
+    raw.set(argument.name, value);
+  };
+
+  if (typeof input === 'object' && !Array.isArray(input)) {
+    for (const [name, value] of Object.entries(input)) {
+      if (value !== undefined && value !== null && value !== '') setRaw(name, value);
+    }
+  } else {
+    const words = Array.isArray(input) ? input : splitSkillArguments(input);
+    const positional: string[] = [];
+    for (let i = 0; i < words.length; i++) {
+      const word = words[i];
+      const flag = word.match(/^--([A-Za-z_][A-Za-z0-9_-]*)(?:=([\s\S]*))?$/);
+      const assignment = !flag ? word.match(/^([A-Za-z_][A-Za-z0-9_-]*)=([\s\S]*)$/) : null;
+      if (flag) {
+        const [, name, inline] = flag;
+        const negated = name.startsWith('no-') && !byName.has(name) ? byName.get(name.slice(3)) : undefined;
+        if (negated?.type === 'boolean' && inline === undefined) {
+          raw.set(negated.name, false);
+          continue;
+        }
+        if (inline !== undefined) {
+          setRaw(name, inline);
+          continue;
+        }
+        const next = words[i + 1];
+        const isBoolean = byName.get(name)?.type === 'boolean';
+        if (isBoolean && (next === undefined || ![...TRUE_VALUES, ...FALSE_VALUES].includes(next.toLowerCase()))) {
+          setRaw(name, true);
+        } else if (next === undefined) {
+          issues.push(`Argument "${name}" needs a value`);
+        } else {
+          setRaw(name, next);
+          i++;
+        }
+      } else if (assignment && byName.has(assignment[1])) {
+        setRaw(assignment[1], assignment[2]);
+      } else {
+        positional.push(word);
+      }
+    }
+
+    // Positional words fill the arguments not given by name, in schema order
+    const open = schema.filter((argument) => !raw.has(argument.name));
+    for (const argument of open) {
+      if (positional.length === 0) break;
+      raw.set(argument.name, argument.rest ? positional.splice(0).join(' ') : positional.shift());
+    }
+    if (positional.length > 0) {
+      issues.push(`Unexpected argument${positional.length === 1 ? '' : 's'}: ${positional.join(' ')}`);
+    }
+  }
+
+  const values: Record<string, SkillArgumentValue> = {};
+  const missing: SkillArgument[] = [];
+  for (const argument of schema) {
+    if (!raw.has(argument.name)) {
+      if (argument.default !== undefined) {
+        values[argument.name] = argument.default;
+      } else if (argument.required) {
+        missing.push(argument);
+      }
+      continue;
+    }
+    const coerced = coerceValue(argument, raw.get(argument.name));
+    if (coerced.error) {
+      issues.push(`Argument "${argument.name}" ${coerced.error}`);
+      continue;
+    }
+    if (argument.enum && !argument.enum.includes(coerced.value as string | number)) {
+      const options = argument.enum.map(String);
+      issues.push(`Argument "${argument.name}" must be one of ${options.join(', ')} (got "${coerced.value}")${suggest(String(coerced.value), options)}`);
+      continue;
+    }
+    values[argument.name] = coerced.value as SkillArgumentValue;
+  }
+
+  return { values, missing, issues };
+}
+
+/**
+ * Validate and coerce invocation arguments; throws SkillArgumentError
+ */
+export function parseSkillArguments(
+  skill: Pick<Skill, 'name' | 'arguments'>,
+  input: string | string[] | Record<string, unknown>
+): Record<string, SkillArgumentValue> {
+  const analysis = analyzeSkillArguments(skill.arguments ?? [], input);
+  if (analysis.issues.length > 0 || analysis.missing.length > 0) {
+    throw new SkillArgumentError(skill.name, analysis.missing, analysis.issues);
+  }
+  return analysis.values;
+}
+
+function coerceValue(argument: SkillArgument, value: unknown): { value: SkillArgumentValue; error?: undefined } | { value?: undefined; error: string } {
+  switch (argument.type) {
+    case 'boolean': {
+      if (typeof value === 'boolean') return { value };
+      const text = String(value).trim().toLowerCase();
+      if (TRUE_VALUES.includes(text)) return { value: true };
+      if (FALSE_VALUES.includes(text)) return { value: false };
+      return { error: `must be true or false (got "${value}")` };
+    }
+    case 'number':
+    case 'integer': {
+      const number = typeof value === 'number' ? value : Number(String(value).trim());
+      if (String(value).trim() === '' || !Number.isFinite(number)) {
+        return { error: `must be a number (got "${value}")` };
+      }
+      if (argument.type === 'integer' && !Number.isInteger(number)) {
+        return { error: `must be a whole number (got "${value}")` };
+      }
+      return { value: number };
+    }
+    default:
+      if (typeof value === 'object') {
+        return { error: 'must be a string' };
+      }
+      return { value: String(value) };
+  }
+}
+
+/**
+ * " (did you mean ...?)" for a close match
+ */
+function suggest(input: string, options: string[]): string {
+  let best: string | null = null;
+  let bestDistance = Infinity;
+  for (const option of options) {
+    const distance = editDistance(input.toLowerCase(), option.toLowerCase());
+    if (distance < bestDistance) {
+      best = option;
+      bestDistance = distance;
+    }
+  }
+  return best && bestDistance <= Math.max(1, Math.floor(best.length / 3)) ? ` (did you mean "${best}"?)` : '';
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// ============================================
+// Presentation
+// ============================================
+
+/**
+ * Argument hint derived from a schema, e.g. `<file> [--severity low|medium|high] [--fix]`
+ */
+export function formatSkillArgumentHint(schema: SkillArgument[]): string {
+  return schema.map((argument) => {
+    const value = argument.enum ? argument.enum.join('|') : argument.type === 'string' ? argument.name : argument.type;
+    if (argument.type === 'boolean') return `[--${argument.name}]`;
+    if (argument.required) return argument.rest ? `<${argument.name}...>` : `<${argument.enum ? value : argument.name}>`;
+    return `[--${argument.name} ${value}]`;
+  }).join(' ');
+}
+
+/**
+ * Usage text listing every argument
+ */
+export function formatSkillUsage(skill: Pick<Skill, 'name' | 'arguments' | 'argumentHint'>): string {
+  const schema = skill.arguments ?? [];
+  const lines = [`Usage: /${skill.name} ${skill.argumentHint || formatSkillArgumentHint(schema)}`.trimEnd()];
+  for (const argument of schema) {
+    const details = [argument.type, argument.required ? 'required' : null, argument.default !== undefined ? `default: ${argument.default}` : null]
+      .filter(Boolean)
+      .join(', ');
+    const options = argument.enum ? ` One of: ${argument.enum.join(', ')}.` : '';
+    lines.push(`  ${argument.name} (${details})${argument.description ? ` - ${argument.description}` : ''}${options}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Tool-style parameters for a skill's arguments
+ */
+export function skillArgumentsToParameters(schema: SkillArgument[]): ToolParameters {
+  const properties: Record<string, ToolProperty> = {};
+  for (const argument of schema) {
+    const property: ToolProperty = {
+      type: argument.type === 'integer' ? 'number' : argument.type,
+      description: [
+        argument.description || argument.name,
+        argument.type === 'integer' ? '(whole number)' : '',
+      ].filter(Boolean).join(' '),
+    };
+    if (argument.enum) property.enum = argument.enum.map(String);
+    if (argument.default !== undefined) property.default = argument.default;
+    properties[argument.name] = property;
+  }
+  const required = schema.filter((argument) => argument.required).map((argument) => argument.name);
+  return { type: 'object', properties, ...(required.length > 0 ? { required } : {}) };
+}
+
+/**
+ * Questions asking the user for missing arguments
+ */
+export function buildSkillArgumentRequest(skill: Pick<Skill, 'name'>, missing: SkillArgument[]): AskUserRequest {
+  return {
+    title: `/${skill.name}`,
+    description: 'Missing required arguments',
+    questions: missing.map((argument) => ({
+      id: argument.name,
+      question: `${argument.name}${argument.description ? ` - ${argument.description}` : ''} (${argument.type})`,
+      options: argument.enum?.map(String),
+      required: true,
+    })),
+  };
+}
+
+/**
+ * Render named values as `--name=value` words to append to an invocation
+ */
+export function formatSkillArgumentAssignments(values: Record<string, string>): string {
+  return Object.entries(values)
+    .map(([name, value]) => `--${name}=${/[\s"'\\]/.test(value) || value === '' ? `"${value.replace(/(["\\])/g, '\\$1')}"` : value}`)
+    .join(' ');
+}
@@ -85,7 +85,7 @@ function buildDefaultContent(): string {
   ].join('\n');
 }
 
-function resolveSkillRoot(scope: SkillScope, cwd: string): string {
+export function resolveSkillRoot(scope: SkillScope, cwd: string): string {
   if (scope === 'global') {
     return join(getConfigDir(), 'shared', 'skills');
   }
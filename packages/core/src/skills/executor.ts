@@ -1,5 +1,5 @@
 import { dirname } from 'path';
-import type { Skill } from '@hasna/assistants-shared';
+import type { Skill, SkillArgumentValue } from '@hasna/assistants-shared';
 import { substituteVariables } from '@hasna/assistants-shared';
 import { getRuntime } from '../runtime';
 
@@ -10,17 +10,43 @@ export class SkillExecutor {
   constructor() {}
 
   /**
-   * Prepare skill content with argument substitution
+   * Prepare skill content with argument substitution. Named values (from a
+   * skill's argument schema) replace `${name}`; positional placeholders get
+   * the values in schema order.
    */
-  async prepare(skill: Skill, args: string[]): Promise<string> {
+  async prepare(skill: Skill, args: string[], values?: Record<string, SkillArgumentValue>): Promise<string> {
+    if (skill.render) {
+      // Rendered content is used as-is: no substitution or dynamic context
+      return skill.render(values ?? {});
+    }
+
     let content = skill.content;
 
-    // Substitute variables
-    content = substituteVariables(content, args);
+    if (values && skill.arguments) {
+      const named: Record<string, string> = {};
+      const positional: string[] = [];
+      for (const argument of skill.arguments) {
+        // Unset optional arguments become empty strings so positions stay aligned
+        named[argument.name] = values[argument.name] === undefined ? '' : String(values[argument.name]);
+        positional.push(named[argument.name]);
+      }
+      content = substituteVariables(content, positional, named);
+
+      // If no argument was referenced, list them all
+      const referenced = skill.content.includes('$ARGUMENTS')
+        || skill.arguments.some((argument) => skill.content.includes(`\${${argument.name}}`));
+      const given = Object.entries(named).filter(([, value]) => value !== '');
+      if (!referenced && given.length > 0) {
+        content += `\n\nARGUMENTS:\n${given.map(([name, value]) => `- ${name}: ${value}`).join('\n')}`;
+      }
+    } else {
+      // Substitute variables
+      content = substituteVariables(content, args);
 
-    // If $ARGUMENTS wasn't in the content, append it
-    if (!skill.content.includes('$ARGUMENTS') && args.length > 0) {
-      content += `\n\nARGUMENTS: ${args.join(' ')}`;
+      // If $ARGUMENTS wasn't in the content, append it
+      if (!skill.content.includes('$ARGUMENTS') && args.length > 0) {
+        content += `\n\nARGUMENTS: ${args.join(' ')}`;
+      }
     }
 
     // Execute dynamic context injection (backtick commands)
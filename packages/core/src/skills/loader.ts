@@ -2,14 +2,19 @@ import { join, basename, dirname } from 'path';
 import { homedir } from 'os';
 import { readFile, stat } from 'fs/promises';
 import fg from 'fast-glob';
-import type { Skill, SkillFrontmatter } from '@hasna/assistants-shared';
+import type { Skill, SkillArgument, SkillFrontmatter } from '@hasna/assistants-shared';
 import { parseFrontmatter } from '@hasna/assistants-shared';
+import { parseYaml } from '../utils/yaml';
+import { formatSkillArgumentHint, parseSkillArgumentSchema } from './arguments';
+import { SKILL_PACKAGE_MANIFEST, findPackageSkillFiles, readSkillPackageManifest } from './packages';
 
 /**
  * Skill loader - discovers and loads SKILL.md files
  */
 export interface SkillLoadOptions {
   includeContent?: boolean;
+  /** Package the skill file belongs to */
+  skillPackage?: { name: string; version: string };
 }
 
 export class SkillLoader {
@@ -43,7 +48,8 @@ export class SkillLoader {
 
   /**
    * Load skills from a directory
-   * Supports both `skill-name/SKILL.md` and `name/SKILL.md` patterns
+   * Supports both `skill-name/SKILL.md` and `name/SKILL.md` patterns, plus
+   * skills of packages installed under `packages/`
    */
   async loadFromDirectory(dir: string, options: SkillLoadOptions = {}): Promise<void> {
     const includeContent = options.includeContent ?? true;
@@ -56,6 +62,9 @@ export class SkillLoader {
         return; // Directory doesn't exist
       }
 
+      // Package skills load first so loose skills with the same name win
+      await this.loadPackages(dir, { includeContent });
+
       // Collect all skill files to load
       const filesToLoad: string[] = [];
 
@@ -86,6 +95,25 @@ export class SkillLoader {
     }
   }
 
+  /**
+   * Load the skills of packages installed in `<dir>/packages`
+   */
+  private async loadPackages(dir: string, options: SkillLoadOptions): Promise<void> {
+    const manifests = await fg(`packages/*/${SKILL_PACKAGE_MANIFEST}`, { cwd: dir });
+    for (const file of manifests) {
+      const packageDir = join(dir, dirname(file));
+      try {
+        const manifest = await readSkillPackageManifest(packageDir);
+        const skillPackage = { name: manifest.name, version: manifest.version };
+        for (const skillFile of await findPackageSkillFiles(packageDir, manifest)) {
+          await this.loadSkillFile(skillFile, { ...options, skillPackage });
+        }
+      } catch (error) {
+        console.error(`Failed to load skill package from ${packageDir}:`, error);
+      }
+    }
+  }
+
   /**
    * Load a single skill file
    */
@@ -128,17 +156,21 @@ export class SkillLoader {
         }
       }
 
+      const argumentSchema = this.parseArgumentSchema(content, filePath);
       const argumentHintRaw = frontmatter['argument-hint'];
       const argumentHint = Array.isArray(argumentHintRaw)
         ? `[${argumentHintRaw.join(', ')}]`
-        : typeof argumentHintRaw === 'string'
+        : typeof argumentHintRaw === 'string' && argumentHintRaw
           ? argumentHintRaw
-          : undefined;
+          : argumentSchema
+            ? formatSkillArgumentHint(argumentSchema)
+            : undefined;
 
       const skill: Skill = {
         name,
         description,
         argumentHint,
+        ...(argumentSchema ? { arguments: argumentSchema } : {}),
         allowedTools,
         disableModelInvocation: frontmatter['disable-model-invocation'],
         userInvocable: frontmatter['user-invocable'] !== false,
@@ -149,6 +181,7 @@ export class SkillLoader {
         content: includeContent ? markdownContent : '',
         filePath,
         contentLoaded: includeContent,
+        ...(options.skillPackage ? { package: options.skillPackage } : {}),
       };
 
       this.skills.set(name, skill);
@@ -159,6 +192,40 @@ export class SkillLoader {
     }
   }
 
+  /**
+   * Parse the `arguments` block of the frontmatter. It is nested YAML, which
+   * the flat frontmatter parser does not handle, so it is cut out and parsed
+   * on its own.
+   */
+  private parseArgumentSchema(content: string, filePath: string): SkillArgument[] | undefined {
+    const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n/);
+    if (!match) return undefined;
+    const lines = match[1].split(/\r?\n/);
+    const start = lines.findIndex((line) => /^arguments\s*:/.test(line));
+    if (start === -1) return undefined;
+    let end = start + 1;
+    while (end < lines.length && (lines[end].trim() === '' || /^(\s|-(\s|$))/.test(lines[end]))) {
+      end++;
+    }
+
+    try {
+      const data = parseYaml(lines.slice(start, end).join('\n')) as { arguments?: unknown } | null;
+      if (data?.arguments === undefined || data.arguments === null || data.arguments === '') return undefined;
+      const schema = parseSkillArgumentSchema(data.arguments);
+      return schema.length > 0 ? schema : undefined;
+    } catch (error) {
+      console.error(`Ignoring invalid arguments in ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Add a skill that is not loaded from disk (e.g. an MCP prompt)
+   */
+  addSkill(skill: Skill): void {
+    this.skills.set(skill.name, skill);
+  }
+
   /**
    * Remove a skill from the loaded map
    */
@@ -187,7 +254,7 @@ export class SkillLoader {
     const skill = this.skills.get(name);
     if (!skill) return null;
     if (skill.contentLoaded) return skill;
-    return this.loadSkillFile(skill.filePath, { includeContent: true });
+    return this.loadSkillFile(skill.filePath, { includeContent: true, skillPackage: skill.package });
   }
 
   /**
@@ -0,0 +1,849 @@
+import { basename, dirname, isAbsolute, join, relative, resolve } from 'path';
+import { tmpdir } from 'os';
+import { createHash } from 'crypto';
+import { cp, mkdir, mkdtemp, readFile, rm, stat, writeFile } from 'fs/promises';
+import fg from 'fast-glob';
+import { getRuntime } from '../runtime';
+import { resolveSkillRoot, type SkillScope } from './create';
+
+/**
+ * Skill packages - versioned bundles of skills with scripts, templates and
+ * dependencies. A package is a directory with a `skill-package.json` manifest;
+ * it is installed under `<skills root>/packages/<name>` and pinned in
+ * `<skills root>/skills-lock.json`.
+ */
+
+export const SKILL_PACKAGE_MANIFEST = 'skill-package.json';
+export const SKILL_LOCKFILE = 'skills-lock.json';
+export const SKILL_LOCKFILE_VERSION = 1;
+
+const NAME_PATTERN = /^[a-z0-9][a-z0-9._-]*$/;
+const VERSION_PATTERN = /^(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?$/;
+const TARBALL_PATTERN = /\.(tgz|tar\.gz|tar)$/i;
+const IGNORED_FILES = ['**/.git/**', '**/node_modules/**', '**/.DS_Store'];
+
+export interface SkillPackageDependency {
+  /** Version range (e.g. "^1.2.0") */
+  version: string;
+  /** Where to install it from when it is missing (resolved against the dependent package's source) */
+  source?: string;
+}
+
+export interface SkillPackageManifest {
+  name: string;
+  version: string;
+  description?: string;
+  /** Directories (relative to the package root) that contain a SKILL.md; discovered when omitted */
+  skills?: string[];
+  /** Other skill packages this one needs */
+  dependencies?: Record<string, SkillPackageDependency>;
+  /** Tools and connectors the skills expect to be available */
+  requires?: {
+    tools?: string[];
+    connectors?: string[];
+  };
+  /** Globs of bundled files (scripts, templates, ...) to install; the whole package when omitted */
+  assets?: string[];
+}
+
+export type SkillPackageSourceType = 'directory' | 'tarball' | 'git';
+
+export interface SkillPackageSource {
+  type: SkillPackageSourceType;
+  /** Absolute path or URL */
+  location: string;
+  /** Git branch, tag or commit */
+  ref?: string;
+}
+
+export interface SkillLockEntry {
+  version: string;
+  /** Source the package was installed from (local paths relative to the lockfile for project installs) */
+  source: string;
+  /** Git commit the source resolved to */
+  resolved?: string;
+  /** Hash of the installed files */
+  integrity: string;
+  dependencies?: Record<string, string>;
+  skills: string[];
+}
+
+export interface SkillLockfile {
+  lockfileVersion: number;
+  packages: Record<string, SkillLockEntry>;
+}
+
+export interface InstalledSkillPackage {
+  manifest: SkillPackageManifest;
+  directory: string;
+  /** SKILL.md files of the package */
+  skillFiles: string[];
+}
+
+export interface SkillPackageInstallResult {
+  /** Packages installed or reinstalled, dependencies first */
+  installed: Array<{ name: string; version: string; previousVersion?: string }>;
+  /** Packages that were already installed at the wanted version */
+  unchanged: string[];
+  /** Missing tools/connectors and other non-fatal problems */
+  warnings: string[];
+}
+
+export interface SkillLockResult {
+  lockfile: SkillLockfile;
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+export interface SkillPackageManagerOptions {
+  cwd: string;
+  scope?: SkillScope;
+  /** Tool names available to the assistant (for `requires.tools` checks) */
+  availableTools?: string[];
+  /** Connector names available to the assistant (for `requires.connectors` checks) */
+  availableConnectors?: string[];
+}
+
+// ============================================
+// Versions
+// ============================================
+
+type ParsedVersion = [number, number, number, string | undefined];
+
+function parseVersion(version: string): ParsedVersion | null {
+  const match = version.trim().replace(/^v/, '').match(VERSION_PATTERN);
+  if (!match) return null;
+  return [Number(match[1]), Number(match[2]), Number(match[3]), match[4]];
+}
+
+/**
+ * Compare two semantic versions (-1, 0 or 1). Pre-releases sort before their release.
+ */
+export function compareSkillVersions(a: string, b: string): number {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  if (!left || !right) return a.localeCompare(b);
+  for (let i = 0; i < 3; i++) {
+    if (left[i] !== right[i]) return (left[i] as number) < (right[i] as number) ? -1 : 1;
+  }
+  if (left[3] === right[3]) return 0;
+  if (!left[3]) return 1;
+  if (!right[3]) return -1;
+  return left[3] < right[3] ? -1 : 1;
+}
+
+/**
+ * Check a version against a range: exact versions, `*`, `^`, `~`, comparators
+ * (`>=1.0.0 <2.0.0`) and alternatives joined with `||`.
+ */
+export function satisfiesSkillVersion(version: string, range: string): boolean {
+  if (!parseVersion(version)) return false;
+  return range.split('||').some((alternative) => {
+    const comparators = alternative.trim().split(/\s+/).filter(Boolean);
+    if (comparators.length === 0) return true;
+    return comparators.every((comparator) => satisfiesComparator(version, comparator));
+  });
+}
+
+function satisfiesComparator(version: string, comparator: string): boolean {
+  if (comparator === '*' || comparator === 'x' || comparator === 'latest') return true;
+  const match = comparator.match(/^(\^|~|>=|<=|>|<|=)?(.+)$/);
+  if (!match) return false;
+  const operator = match[1] ?? '=';
+  const target = parseVersion(match[2]);
+  if (!target) return false;
+  const cmp = compareSkillVersions(version, match[2]);
+  const current = parseVersion(version)!;
+
+  switch (operator) {
+    case '=':
+      return cmp === 0;
+    case '>':
+      return cmp > 0;
+    case '>=':
+      return cmp >= 0;
+    case '<':
+      return cmp < 0;
+    case '<=':
+      return cmp <= 0;
+    case '~':
+      return cmp >= 0 && current[0] === target[0] && current[1] === target[1];
+    case '^':
+      if (cmp < 0) return false;
+      if (target[0] > 0) return current[0] === target[0];
+      if (target[1] > 0) return current[0] === 0 && current[1] === target[1];
+      return current[0] === 0 && current[1] === 0 && current[2] === target[2];
+    default:
+      return false;
+  }
+}
+
+function isValidRange(range: string): boolean {
+  return range.split('||').every((alternative) =>
+    alternative.trim().split(/\s+/).filter(Boolean).every((comparator) =>
+      ['*', 'x', 'latest'].includes(comparator) || parseVersion(comparator.replace(/^(\^|~|>=|<=|>|<|=)/, '')) !== null
+    )
+  );
+}
+
+// ============================================
+// Manifests and sources
+// ============================================
+
+/**
+ * Validate a parsed `skill-package.json`
+ */
+export function parseSkillPackageManifest(raw: unknown, path: string = SKILL_PACKAGE_MANIFEST): SkillPackageManifest {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`${path}: manifest must be a JSON object`);
+  }
+  const data = raw as Record<string, unknown>;
+  const name = typeof data.name === 'string' ? data.name.trim() : '';
+  if (!NAME_PATTERN.test(name)) {
+    throw new Error(`${path}: "name" must be lowercase letters, digits, ".", "_" or "-"`);
+  }
+  const version = typeof data.version === 'string' ? data.version.trim() : '';
+  if (!parseVersion(version)) {
+    throw new Error(`${path}: "version" must be a semantic version like 1.0.0`);
+  }
+
+  const stringList = (key: string, value: unknown): string[] | undefined => {
+    if (value === undefined) return undefined;
+    if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+      throw new Error(`${path}: "${key}" must be a list of strings`);
+    }
+    return value as string[];
+  };
+  const pathList = (key: string, value: unknown): string[] | undefined => {
+    const paths = stringList(key, value);
+    const outside = paths?.find((entry) => isAbsolute(entry) || entry.split(/[\\/]/).includes('..'));
+    if (outside) {
+      throw new Error(`${path}: "${key}" entries must stay inside the package (${outside})`);
+    }
+    return paths;
+  };
+
+  const manifest: SkillPackageManifest = { name, version };
+  if (typeof data.description === 'string') {
+    manifest.description = data.description;
+  }
+  manifest.skills = pathList('skills', data.skills);
+  manifest.assets = pathList('assets', data.assets);
+
+  if (data.dependencies !== undefined) {
+    if (!data.dependencies || typeof data.dependencies !== 'object' || Array.isArray(data.dependencies)) {
+      throw new Error(`${path}: "dependencies" must be an object`);
+    }
+    manifest.dependencies = {};
+    for (const [depName, value] of Object.entries(data.dependencies as Record<string, unknown>)) {
+      const dependency: SkillPackageDependency | null = typeof value === 'string'
+        ? { version: value }
+        : value && typeof value === 'object' && typeof (value as Record<string, unknown>).version === 'string'
+          ? {
+            version: (value as Record<string, string>).version,
+            source: typeof (value as Record<string, unknown>).source === 'string'
+              ? (value as Record<string, string>).source
+              : undefined,
+          }
+          : null;
+      if (!NAME_PATTERN.test(depName) || !dependency || !isValidRange(dependency.version)) {
+        throw new Error(`${path}: invalid dependency "${depName}" (expected a version range or { version, source })`);
+      }
+      // Sources end up as command arguments (git clone), so never let one look like an option
+      if (dependency.source !== undefined && dependency.source.trim().replace(/^git\+/, '').startsWith('-')) {
+        throw new Error(`${path}: dependency "${depName}" has an invalid source "${dependency.source}"`);
+      }
+      manifest.dependencies[depName] = dependency;
+    }
+  }
+
+  if (data.requires !== undefined) {
+    if (!data.requires || typeof data.requires !== 'object' || Array.isArray(data.requires)) {
+      throw new Error(`${path}: "requires" must be an object`);
+    }
+    const requires = data.requires as Record<string, unknown>;
+    manifest.requires = {
+      tools: stringList('requires.tools', requires.tools),
+      connectors: stringList('requires.connectors', requires.connectors),
+    };
+  }
+
+  return manifest;
+}
+
+/**
+ * Read and validate the manifest in a package directory
+ */
+export async function readSkillPackageManifest(directory: string): Promise<SkillPackageManifest> {
+  const path = join(directory, SKILL_PACKAGE_MANIFEST);
+  let content: string;
+  try {
+    content = await readFile(path, 'utf-8');
+  } catch {
+    throw new Error(`No ${SKILL_PACKAGE_MANIFEST} found in ${directory}`);
+  }
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`${path}: invalid JSON (${error instanceof Error ? error.message : String(error)})`);
+  }
+  return parseSkillPackageManifest(raw, path);
+}
+
+/**
+ * SKILL.md files of a package directory
+ */
+export async function findPackageSkillFiles(directory: string, manifest: SkillPackageManifest): Promise<string[]> {
+  if (manifest.skills && manifest.skills.length > 0) {
+    return manifest.skills.map((dir) => join(directory, dir, 'SKILL.md'));
+  }
+  const files = await fg('**/SKILL.md', { cwd: directory, ignore: IGNORED_FILES });
+  return files.sort().map((file) => join(directory, file));
+}
+
+/**
+ * Classify an install source: a git URL (`git+https://...`, `git@host:repo`,
+ * `.../repo.git`, optionally `#ref`), a tarball (`.tgz`, `.tar.gz`, `.tar`;
+ * local or http) or a local directory
+ */
+export function parseSkillPackageSource(spec: string, baseDir: string): SkillPackageSource {
+  const trimmed = spec.trim();
+  if (!trimmed) {
+    throw new Error('Package source is required');
+  }
+  const hashIndex = trimmed.indexOf('#');
+  const withoutRef = hashIndex >= 0 ? trimmed.slice(0, hashIndex) : trimmed;
+  const ref = hashIndex >= 0 ? trimmed.slice(hashIndex + 1) || undefined : undefined;
+
+  if (withoutRef.startsWith('git+') || withoutRef.startsWith('git@') || withoutRef.startsWith('git://') || /\.git\/?$/.test(withoutRef)) {
+    const location = withoutRef.replace(/^git\+/, '');
+    if (location.startsWith('-')) {
+      throw new Error(`Invalid git source: ${spec}`);
+    }
+    return { type: 'git', location, ref };
+  }
+  if (TARBALL_PATTERN.test(trimmed)) {
+    return {
+      type: 'tarball',
+      location: /^https?:\/\//.test(trimmed) ? trimmed : resolve(baseDir, expandHome(trimmed)),
+    };
+  }
+  if (/^https?:\/\//.test(trimmed)) {
+    return { type: 'git', location: withoutRef, ref };
+  }
+  return { type: 'directory', location: resolve(baseDir, expandHome(trimmed)) };
+}
+
+function expandHome(path: string): string {
+  if (!path.startsWith('~/')) return path;
+  const home = process.env.HOME || process.env.USERPROFILE || tmpdir();
+  return join(home, path.slice(2));
+}
+
+function formatSource(source: SkillPackageSource): string {
+  const location = source.type === 'git' && !source.location.endsWith('.git') && !source.location.startsWith('git@')
+    ? `git+${source.location}`
+    : source.location;
+  return source.ref ? `${location}#${source.ref}` : location;
+}
+
+async function run(cmd: string[], cwd: string): Promise<string> {
+  const proc = getRuntime().spawn(cmd, {
+    cwd,
+    stdin: 'ignore',
+    stdout: 'pipe',
+    stderr: 'pipe',
+    env: { ...process.env, GIT_TERMINAL_PROMPT: '0' },
+  });
+  const [stdout, stderr] = await Promise.all([
+    proc.stdout ? new Response(proc.stdout).text() : '',
+    proc.stderr ? new Response(proc.stderr).text() : '',
+  ]);
+  const exitCode = await proc.exited;
+  if (exitCode !== 0) {
+    throw new Error(`${cmd[0]} ${cmd[1]} failed: ${(stderr || stdout).trim()}`);
+  }
+  return stdout;
+}
+
+async function isDirectory(path: string): Promise<boolean> {
+  try {
+    return (await stat(path)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Hash of a package directory's files (paths and contents)
+ */
+export async function computeSkillPackageIntegrity(directory: string, files?: string[]): Promise<string> {
+  const list = files ?? await fg('**/*', { cwd: directory, dot: true, ignore: IGNORED_FILES });
+  const hash = createHash('sha256');
+  for (const file of [...list].sort()) {
+    hash.update(file.split(/[\\/]/).join('/'));
+    hash.update('\0');
+    hash.update(await readFile(join(directory, file)));
+    hash.update('\0');
+  }
+  return `sha256-${hash.digest('hex')}`;
+}
+
+interface FetchedPackage {
+  directory: string;
+  manifest: SkillPackageManifest;
+  source: SkillPackageSource;
+  resolved?: string;
+}
+
+// ============================================
+// Package manager
+// ============================================
+
+/**
+ * Installs, updates and locks skill packages for one scope
+ */
+export class SkillPackageManager {
+  private readonly cwd: string;
+  private readonly scope: SkillScope;
+  private readonly root: string;
+  private readonly availableTools?: Set<string>;
+  private readonly availableConnectors?: Set<string>;
+
+  constructor(options: SkillPackageManagerOptions) {
+    this.cwd = options.cwd;
+    this.scope = options.scope ?? 'project';
+    this.root = resolveSkillRoot(this.scope, options.cwd);
+    this.availableTools = options.availableTools ? new Set(options.availableTools) : undefined;
+    this.availableConnectors = options.availableConnectors ? new Set(options.availableConnectors) : undefined;
+  }
+
+  getPackagesDir(): string {
+    return join(this.root, 'packages');
+  }
+
+  getLockfilePath(): string {
+    return join(this.root, SKILL_LOCKFILE);
+  }
+
+  /**
+   * Installed packages, sorted by name
+   */
+  async list(): Promise<InstalledSkillPackage[]> {
+    const manifests = await fg(`*/${SKILL_PACKAGE_MANIFEST}`, { cwd: this.getPackagesDir() }).catch(() => []);
+    const packages: InstalledSkillPackage[] = [];
+    for (const file of manifests.sort()) {
+      const directory = join(this.getPackagesDir(), dirname(file));
+      try {
+        const manifest = await readSkillPackageManifest(directory);
+        packages.push({ manifest, directory, skillFiles: await findPackageSkillFiles(directory, manifest) });
+      } catch {
+        // Skip broken installs; `lock` drops them from the lockfile
+      }
+    }
+    return packages;
+  }
+
+  async readLockfile(): Promise<SkillLockfile> {
+    try {
+      const data = JSON.parse(await readFile(this.getLockfilePath(), 'utf-8')) as SkillLockfile;
+      if (data && typeof data === 'object' && data.packages && typeof data.packages === 'object') {
+        return { lockfileVersion: data.lockfileVersion ?? SKILL_LOCKFILE_VERSION, packages: data.packages };
+      }
+    } catch {
+      // Missing or unreadable lockfile
+    }
+    return { lockfileVersion: SKILL_LOCKFILE_VERSION, packages: {} };
+  }
+
+  /**
+   * Install a package and its missing dependencies from a directory, tarball
+   * or git URL. Reinstalls when the package is already installed.
+   */
+  async install(spec: string): Promise<SkillPackageInstallResult> {
+    const result: SkillPackageInstallResult = { installed: [], unchanged: [], warnings: [] };
+    const lockfile = await this.readLockfile();
+    await this.withStaging(async (staging) => {
+      await this.installSource(parseSkillPackageSource(spec, this.cwd), staging, lockfile, result, new Set());
+    });
+    await this.writeLockfile(lockfile);
+    return result;
+  }
+
+  /**
+   * Install every package pinned in the lockfile that is missing or was
+   * modified, at the pinned version (and git commit)
+   */
+  async installFromLockfile(): Promise<SkillPackageInstallResult> {
+    const result: SkillPackageInstallResult = { installed: [], unchanged: [], warnings: [] };
+    const lockfile = await this.readLockfile();
+    const names = Object.keys(lockfile.packages).sort();
+    if (names.length === 0) {
+      throw new Error(`Nothing to install: ${this.getLockfilePath()} lists no packages`);
+    }
+
+    await this.withStaging(async (staging) => {
+      for (const name of names) {
+        const entry = lockfile.packages[name];
+        const directory = join(this.getPackagesDir(), name);
+        if (await isDirectory(directory) && await computeSkillPackageIntegrity(directory) === entry.integrity) {
+          result.unchanged.push(name);
+          continue;
+        }
+        const source = this.parseLockedSource(entry);
+        const fetched = await this.fetch(source, staging);
+        if (fetched.manifest.name !== name || fetched.manifest.version !== entry.version) {
+          throw new Error(
+            `${name}: lockfile pins ${entry.version} but ${entry.source} has ${fetched.manifest.name}@${fetched.manifest.version}. Run /skills update ${name}`
+          );
+        }
+        const previous = await this.installedVersion(name);
+        await this.place(fetched, lockfile, result);
+        // Keep the unpinned source so `update` can move past the pinned commit
+        lockfile.packages[name].source = entry.source;
+        if (lockfile.packages[name].integrity !== entry.integrity) {
+          result.warnings.push(`${name}: installed files differ from the locked integrity hash`);
+        }
+        result.installed.push({ name, version: entry.version, previousVersion: previous ?? undefined });
+      }
+    });
+    await this.writeLockfile(lockfile);
+    return result;
+  }
+
+  /**
+   * Reinstall packages from their recorded sources, picking up new versions
+   * (git sources move to the latest commit of their branch)
+   */
+  async update(names: string[] = []): Promise<SkillPackageInstallResult> {
+    const result: SkillPackageInstallResult = { installed: [], unchanged: [], warnings: [] };
+    const lockfile = await this.readLockfile();
+    const targets = names.length > 0 ? names : Object.keys(lockfile.packages).sort();
+    for (const name of targets) {
+      if (!lockfile.packages[name]) {
+        throw new Error(`Package not in ${SKILL_LOCKFILE}: ${name}`);
+      }
+    }
+
+    await this.withStaging(async (staging) => {
+      for (const name of targets) {
+        const entry = lockfile.packages[name];
+        const fetched = await this.fetch(this.parseLockedSource(entry, false), staging);
+        if (fetched.manifest.name !== name) {
+          throw new Error(`${entry.source} now contains ${fetched.manifest.name}, not ${name}`);
+        }
+        const integrity = await computeSkillPackageIntegrity(fetched.directory, await this.collectFiles(fetched));
+        if (fetched.manifest.version === entry.version && integrity === entry.integrity && fetched.resolved === entry.resolved) {
+          result.unchanged.push(name);
+          continue;
+        }
+        const previous = await this.installedVersion(name);
+        await this.installDependencies(fetched, staging, lockfile, result, new Set([name]));
+        await this.place(fetched, lockfile, result);
+        result.installed.push({ name, version: fetched.manifest.version, previousVersion: previous ?? undefined });
+      }
+    });
+    await this.writeLockfile(lockfile);
+    return result;
+  }
+
+  /**
+   * Rewrite the lockfile from the installed packages
+   */
+  async lock(): Promise<SkillLockResult> {
+    const previous = await this.readLockfile();
+    const lockfile: SkillLockfile = { lockfileVersion: SKILL_LOCKFILE_VERSION, packages: {} };
+    const added: string[] = [];
+    const changed: string[] = [];
+
+    for (const pkg of await this.list()) {
+      const name = pkg.manifest.name;
+      const prior = previous.packages[name];
+      const entry = await this.buildLockEntry(pkg, prior?.source ?? this.formatLockedSource({ type: 'directory', location: pkg.directory }), prior?.resolved);
+      lockfile.packages[name] = entry;
+      if (!prior) {
+        added.push(name);
+      } else if (prior.version !== entry.version || prior.integrity !== entry.integrity) {
+        changed.push(name);
+      }
+    }
+    const removed = Object.keys(previous.packages).filter((name) => !lockfile.packages[name]).sort();
+    await this.writeLockfile(lockfile);
+    return { lockfile, added, removed, changed };
+  }
+
+  private async withStaging<T>(fn: (staging: string) => Promise<T>): Promise<T> {
+    const staging = await mkdtemp(join(tmpdir(), 'assistants-skill-package-'));
+    try {
+      return await fn(staging);
+    } finally {
+      await rm(staging, { recursive: true, force: true });
+    }
+  }
+
+  private async installSource(
+    source: SkillPackageSource,
+    staging: string,
+    lockfile: SkillLockfile,
+    result: SkillPackageInstallResult,
+    inProgress: Set<string>
+  ): Promise<SkillPackageManifest> {
+    const fetched = await this.fetch(source, staging);
+    const name = fetched.manifest.name;
+    if (inProgress.has(name)) {
+      throw new Error(`Dependency cycle: ${[...inProgress, name].join(' -> ')}`);
+    }
+    inProgress.add(name);
+    await this.installDependencies(fetched, staging, lockfile, result, inProgress);
+    const previous = await this.installedVersion(name);
+    await this.place(fetched, lockfile, result);
+    result.installed.push({ name, version: fetched.manifest.version, previousVersion: previous ?? undefined });
+    inProgress.delete(name);
+    return fetched.manifest;
+  }
+
+  private async installDependencies(
+    fetched: FetchedPackage,
+    staging: string,
+    lockfile: SkillLockfile,
+    result: SkillPackageInstallResult,
+    inProgress: Set<string>
+  ): Promise<void> {
+    const { manifest } = fetched;
+    for (const [depName, dependency] of Object.entries(manifest.dependencies ?? {})) {
+      const installed = await this.installedVersion(depName);
+      if (installed && satisfiesSkillVersion(installed, dependency.version)) {
+        if (!result.unchanged.includes(depName)) result.unchanged.push(depName);
+        continue;
+      }
+      if (!dependency.source) {
+        throw new Error(
+          installed
+            ? `${manifest.name} needs ${depName}@${dependency.version} but ${installed} is installed`
+            : `${manifest.name} needs ${depName}@${dependency.version}: install it first or add a "source" to the dependency`
+        );
+      }
+      if (inProgress.has(depName)) {
+        throw new Error(`Dependency cycle: ${[...inProgress, depName].join(' -> ')}`);
+      }
+      const depSource = this.resolveDependencySource(dependency.source, fetched.source);
+      const depManifest = await this.installSource(depSource, staging, lockfile, result, inProgress);
+      if (depManifest.name !== depName) {
+        throw new Error(`${manifest.name}: dependency ${depName} resolved to a package named ${depManifest.name}`);
+      }
+      if (!satisfiesSkillVersion(depManifest.version, dependency.version)) {
+        throw new Error(`${manifest.name} needs ${depName}@${dependency.version} but ${dependency.source} has ${depManifest.version}`);
+      }
+    }
+  }
+
+  /**
+   * Relative dependency sources are resolved against the dependent package's
+   * local source (its directory, or the directory holding its tarball)
+   */
+  private resolveDependencySource(spec: string, parent: SkillPackageSource): SkillPackageSource {
+    const parsed = parseSkillPackageSource(spec, this.cwd);
+    const isRelative = !isAbsolute(expandHome(spec)) && !/^[a-z+]+:\/\//i.test(spec) && !spec.startsWith('git@');
+    if (!isRelative || parsed.type === 'git') return parsed;
+    if (parent.type === 'git' || /^https?:\/\//.test(parent.location)) {
+      throw new Error(`Relative dependency source "${spec}" needs a local parent package`);
+    }
+    const base = parent.type === 'tarball' ? dirname(parent.location) : parent.location;
+    return parseSkillPackageSource(spec, base);
+  }
+
+  /**
+   * Copy a package source into the staging directory and read its manifest
+   */
+  private async fetch(source: SkillPackageSource, staging: string): Promise<FetchedPackage> {
+    const target = await mkdtemp(join(staging, 'pkg-'));
+    let resolved: string | undefined;
+
+    if (source.type === 'directory') {
+      if (!await isDirectory(source.location)) {
+        throw new Error(`Package directory not found: ${source.location}`);
+      }
+      await cp(source.location, target, {
+        recursive: true,
+        filter: (path) => !relative(source.location, path).split(/[\\/]/).some((part) => part === '.git' || part === 'node_modules'),
+      });
+    } else if (source.type === 'tarball') {
+      let archive = source.location;
+      if (/^https?:\/\//.test(archive)) {
+        const response = await fetch(archive);
+        if (!response.ok) {
+          throw new Error(`Failed to download ${archive}: HTTP ${response.status}`);
+        }
+        archive = join(staging, `${basename(target)}.tgz`);
+        await writeFile(archive, Buffer.from(await response.arrayBuffer()));
+      } else {
+        try {
+          await stat(archive);
+        } catch {
+          throw new Error(`Package tarball not found: ${archive}`);
+        }
+      }
+      await run(['tar', '-xf', archive, '-C', target], staging);
+    } else {
+      // Commits can't be shallow-cloned by name, so clone fully and check them out
+      const isCommit = source.ref ? /^[0-9a-f]{7,40}$/i.test(source.ref) : false;
+      if (isCommit) {
+        await run(['git', 'clone', '--quiet', '--', source.location, target], staging);
+        await run(['git', 'checkout', '--quiet', source.ref!], target);
+      } else {
+        const branch = source.ref ? ['--branch', source.ref] : [];
+        await run(['git', 'clone', '--quiet', '--depth', '1', ...branch, '--', source.location, target], staging);
+      }
+      resolved = (await run(['git', 'rev-parse', 'HEAD'], target)).trim();
+      await rm(join(target, '.git'), { recursive: true, force: true });
+    }
+
+    const directory = await this.findManifestDir(target);
+    const manifest = await readSkillPackageManifest(directory);
+    return { directory, manifest, source, resolved };
+  }
+
+  /**
+   * The manifest may sit at the root or in a single top-level folder (as in `npm pack` tarballs)
+   */
+  private async findManifestDir(root: string): Promise<string> {
+    try {
+      await stat(join(root, SKILL_PACKAGE_MANIFEST));
+      return root;
+    } catch {
+      const nested = await fg(`*/${SKILL_PACKAGE_MANIFEST}`, { cwd: root });
+      if (nested.length === 1) return join(root, dirname(nested[0]));
+      throw new Error(`No ${SKILL_PACKAGE_MANIFEST} found in package`);
+    }
+  }
+
+  /**
+   * Copy a fetched package into the packages directory and record it in the lockfile
+   */
+  private async place(fetched: FetchedPackage, lockfile: SkillLockfile, result: SkillPackageInstallResult): Promise<void> {
+    const { manifest } = fetched;
+    const files = await this.collectFiles(fetched);
+    const directory = join(this.getPackagesDir(), manifest.name);
+    const next = `${directory}.installing`;
+    await rm(next, { recursive: true, force: true });
+    for (const file of files) {
+      await mkdir(dirname(join(next, file)), { recursive: true });
+      await cp(join(fetched.directory, file), join(next, file));
+    }
+    await rm(directory, { recursive: true, force: true });
+    await cp(next, directory, { recursive: true });
+    await rm(next, { recursive: true, force: true });
+
+    const installed = { manifest, directory, skillFiles: await findPackageSkillFiles(directory, manifest) };
+    lockfile.packages[manifest.name] = await this.buildLockEntry(installed, this.formatLockedSource(fetched.source), fetched.resolved);
+    result.warnings.push(...this.checkRequirements(manifest));
+  }
+
+  /**
+   * Files to install: the manifest, every skill directory and the bundled assets
+   */
+  private async collectFiles(fetched: FetchedPackage): Promise<string[]> {
+    const { manifest } = fetched;
+    const skillFiles = await findPackageSkillFiles(fetched.directory, manifest);
+    if (skillFiles.length === 0) {
+      throw new Error(`${manifest.name} contains no SKILL.md files`);
+    }
+    for (const file of skillFiles) {
+      try {
+        await stat(file);
+      } catch {
+        throw new Error(`${manifest.name}: skill not found at ${relative(fetched.directory, file)}`);
+      }
+    }
+
+    const files = new Set<string>([SKILL_PACKAGE_MANIFEST]);
+    for (const file of skillFiles) {
+      const skillDir = relative(fetched.directory, dirname(file));
+      for (const entry of await fg(skillDir ? `${fg.escapePath(skillDir)}/**/*` : '*', { cwd: fetched.directory, dot: true, ignore: IGNORED_FILES })) {
+        files.add(entry);
+      }
+    }
+    const assets = manifest.assets ?? ['**/*'];
+    for (const entry of await fg(assets, { cwd: fetched.directory, dot: true, ignore: IGNORED_FILES })) {
+      files.add(entry);
+    }
+    return Array.from(files);
+  }
+
+  private async buildLockEntry(pkg: InstalledSkillPackage, source: string, resolved?: string): Promise<SkillLockEntry> {
+    const dependencies: Record<string, string> = {};
+    for (const [name, dependency] of Object.entries(pkg.manifest.dependencies ?? {})) {
+      dependencies[name] = dependency.version;
+    }
+    return {
+      version: pkg.manifest.version,
+      source,
+      ...(resolved ? { resolved } : {}),
+      integrity: await computeSkillPackageIntegrity(pkg.directory),
+      ...(Object.keys(dependencies).length > 0 ? { dependencies } : {}),
+      skills: pkg.skillFiles.map((file) => relative(pkg.directory, dirname(file)).split(/[\\/]/).join('/') || '.'),
+    };
+  }
+
+  private checkRequirements(manifest: SkillPackageManifest): string[] {
+    const warnings: string[] = [];
+    const missingTools = this.availableTools
+      ? (manifest.requires?.tools ?? []).filter((tool) => !this.availableTools!.has(tool))
+      : [];
+    const missingConnectors = this.availableConnectors
+      ? (manifest.requires?.connectors ?? []).filter((connector) => !this.availableConnectors!.has(connector))
+      : [];
+    if (missingTools.length > 0) {
+      warnings.push(`${manifest.name} requires tools that are not available: ${missingTools.join(', ')}`);
+    }
+    if (missingConnectors.length > 0) {
+      warnings.push(`${manifest.name} requires connectors that are not installed: ${missingConnectors.join(', ')}`);
+    }
+    return warnings;
+  }
+
+  private async installedVersion(name: string): Promise<string | null> {
+    try {
+      return (await readSkillPackageManifest(join(this.getPackagesDir(), name))).version;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Local sources of project installs are stored relative to the lockfile so
+   * the lockfile can be committed and shared
+   */
+  private formatLockedSource(source: SkillPackageSource): string {
+    if (source.type === 'git' || /^https?:\/\//.test(source.location)) {
+      return formatSource(source);
+    }
+    if (this.scope === 'project') {
+      const rel = relative(this.root, source.location).split(/[\\/]/).join('/');
+      return rel.startsWith('..') ? rel : `./${rel}`;
+    }
+    return source.location;
+  }
+
+  /**
+   * Source of a locked package; pinned to the resolved git commit unless updating
+   */
+  private parseLockedSource(entry: SkillLockEntry, pinned: boolean = true): SkillPackageSource {
+    const source = parseSkillPackageSource(entry.source, this.root);
+    if (pinned && source.type === 'git' && entry.resolved) {
+      return { ...source, ref: entry.resolved };
+    }
+    return source;
+  }
+
+  private async writeLockfile(lockfile: SkillLockfile): Promise<void> {
+    const packages: Record<string, SkillLockEntry> = {};
+    for (const name of Object.keys(lockfile.packages).sort()) {
+      packages[name] = lockfile.packages[name];
+    }
+    await mkdir(this.root, { recursive: true });
+    await writeFile(this.getLockfilePath(), `${JSON.stringify({ lockfileVersion: SKILL_LOCKFILE_VERSION, packages }, null, 2)}\n`);
+  }
+}
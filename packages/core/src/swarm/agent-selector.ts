@@ -115,7 +115,7 @@ export const DEFAULT_SELECTOR_CONFIG: AssistantSelectorConfig = {
   maxTasksPerAssistant: 5,
   roleToolPreferences: {
     planner: ['tasks_create', 'tasks_list', 'plan_create'],
-    worker: ['bash', 'read', 'write', 'edit', 'glob', 'grep'],
+    worker: ['bash', 'read', 'write', 'edit', 'apply_patch', 'glob', 'grep'],
     critic: ['read', 'grep', 'tasks_list'],
     aggregator: ['tasks_list', 'read'],
   },
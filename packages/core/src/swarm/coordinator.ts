@@ -5,6 +5,7 @@
  * Implements the planner -> workers -> critic -> aggregator pattern.
  */
 
+import { join, relative } from 'path';
 import { generateId } from '@hasna/assistants-shared';
 import type { StreamChunk } from '@hasna/assistants-shared';
 import type {
@@ -26,11 +27,32 @@ import type {
   SwarmStatus,
   SwarmRole,
   SwarmMetrics,
+  SwarmTimelineEntry,
   SerializableSwarmState,
 } from './types';
 import { DEFAULT_SWARM_CONFIG, ROLE_SYSTEM_PROMPTS, serializeSwarmState } from './types';
 import { SwarmMemory } from './memory';
+import { SwarmMessageBus, SWARM_COORDINATOR_ID, type SwarmQuestion } from './messaging';
+import { SWARM_RUN_VERSION, isSwarmRunInterrupted, type SwarmRunStore, type PersistedSwarmRun } from './store';
+import {
+  SwarmWorktreeManager,
+  findGitRepoRoot,
+  formatSwarmChangeSummary,
+  type SwarmWorktree,
+  type SwarmWorktreeChanges,
+} from './worktrees';
+import {
+  SwarmWorkflowRunner,
+  buildSwarmWorkflowPlan,
+  resolveSwarmWorkflowInputs,
+  type SwarmWorkflow,
+} from './workflows';
 import type { BudgetTracker } from '../budget';
+import { createSwarmWorkerTools } from '../tools/swarm';
+import type { SubassistantTool } from '../agent/subagent-manager';
+
+/** Timeline entries kept per run */
+const MAX_TIMELINE_ENTRIES = 200;
 
 /**
  * Approval decision from user
@@ -59,6 +81,8 @@ export interface SwarmCoordinatorContext {
   getAvailableTools?: () => string[];
   /** Parent's budget tracker for persistent budget tracking */
   budgetTracker?: BudgetTracker;
+  /** Store for persisting runs so they can be resumed (runs are not persisted without it) */
+  runStore?: SwarmRunStore;
 }
 
 /**
@@ -74,6 +98,12 @@ export class SwarmCoordinator {
   private budgetExceeded = false;
   private timeoutExceeded = false;
   private memory: SwarmMemory | null = null;
+  private runInput: { goal: string; context?: string } | null = null;
+  private resumeCount = 0;
+  private workflow: SwarmWorkflowRunner | null = null;
+  private worktrees: SwarmWorktreeManager | null = null;
+  private bus: SwarmMessageBus | null = null;
+  private detachMemoryListener: (() => void) | null = null;
 
   constructor(
     config: Partial<SwarmConfig>,
@@ -190,6 +220,9 @@ export class SwarmCoordinator {
       data,
     };
 
+    // Every event marks a state transition worth surviving a crash
+    this.persist();
+
     for (const listener of this.listeners) {
       try {
         listener(event);
@@ -212,6 +245,45 @@ export class SwarmCoordinator {
    * Execute swarm for a goal
    */
   async execute(input: SwarmInput): Promise<SwarmResult> {
+    return this.start(input, null);
+  }
+
+  /**
+   * Execute a declarative workflow. Its steps replace the planner; the critic
+   * and aggregator still run.
+   */
+  async executeWorkflow(
+    workflow: SwarmWorkflow,
+    inputs: Record<string, string>,
+    options?: { goal?: string; context?: string; config?: Partial<SwarmConfig> }
+  ): Promise<SwarmResult> {
+    let runner: SwarmWorkflowRunner;
+    try {
+      runner = new SwarmWorkflowRunner(workflow, resolveSwarmWorkflowInputs(workflow, inputs));
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        taskResults: {},
+        metrics: this.createEmptyMetrics(),
+        durationMs: 0,
+      };
+    }
+
+    const inputLines = Object.entries(runner.inputs)
+      .filter(([, value]) => value)
+      .map(([name, value]) => `- ${name}: ${value}`);
+    return this.start(
+      {
+        goal: options?.goal || `Run workflow "${workflow.name}"${workflow.description ? `: ${workflow.description}` : ''}`,
+        context: options?.context ?? (inputLines.length > 0 ? `Inputs:\n${inputLines.join('\n')}` : undefined),
+        config: { ...workflow.config, ...options?.config },
+      },
+      runner
+    );
+  }
+
+  private async start(input: SwarmInput, workflow: SwarmWorkflowRunner | null): Promise<SwarmResult> {
     if (!this.config.enabled) {
       return {
         success: false,
@@ -256,6 +328,7 @@ export class SwarmCoordinator {
       errors: [],
       startedAt: Date.now(),
       metrics: this.createEmptyMetrics(),
+      timeline: [],
     };
     this.stopped = false;
     this.budgetExceeded = false;
@@ -267,6 +340,139 @@ export class SwarmCoordinator {
     } else {
       this.memory = null;
     }
+    this.runInput = { goal: input.goal, context: input.context };
+    this.resumeCount = 0;
+    this.workflow = workflow;
+
+    if (workflow) {
+      const plan = buildSwarmWorkflowPlan(workflow.workflow, input.goal);
+      if (plan.tasks.length > config.maxTasks) {
+        this.state.errors.push(`Workflow has ${plan.tasks.length} steps (maxTasks: ${config.maxTasks})`);
+        this.updateStatus('failed');
+        return this.buildResult(Date.now());
+      }
+      this.streamText(`\n🧩 Running workflow ${workflow.workflow.name} (${workflow.workflow.source})\n`);
+      return this.run(input, plan);
+    }
+
+    return this.run(input, null);
+  }
+
+  /**
+   * Resume a persisted run. Completed tasks are kept; failed, running and
+   * cancelled tasks are rescheduled. A run interrupted before its plan was
+   * approved goes through planning/approval again. Runs still executing in a
+   * live process cannot be resumed.
+   */
+  async resume(runId: string, overrides?: Partial<SwarmConfig>): Promise<SwarmResult> {
+    const failure = (error: string): SwarmResult => ({
+      success: false,
+      error,
+      taskResults: {},
+      metrics: this.createEmptyMetrics(),
+      durationMs: 0,
+    });
+
+    if (!this.config.enabled) {
+      return failure('Swarm mode is disabled');
+    }
+    if (this.isRunning()) {
+      return failure('Swarm is already running');
+    }
+    if (!this.context.runStore) {
+      return failure('Swarm run persistence is not available');
+    }
+
+    const run = this.context.runStore.resolve(runId);
+    if (!run) {
+      return failure(`Swarm run not found: ${runId}`);
+    }
+    if (run.status === 'completed') {
+      return failure(`Swarm run ${run.id} already completed`);
+    }
+    if (run.status !== 'failed' && run.status !== 'cancelled' && !isSwarmRunInterrupted(run)) {
+      return failure(`Swarm run ${run.id} is still running in process ${run.pid}`);
+    }
+
+    this.config = { ...DEFAULT_SWARM_CONFIG, ...run.config, ...overrides };
+    if (!Number.isFinite(this.config.maxConcurrent) || this.config.maxConcurrent < 1) {
+      this.config.maxConcurrent = 1;
+    }
+
+    // Reschedule everything that did not complete
+    const plan = run.plan;
+    const taskResults = new Map<string, SubassistantResult>();
+    if (plan) {
+      for (const task of plan.tasks) {
+        if (task.status === 'completed') {
+          const result = run.taskResults[task.id] ?? task.result;
+          if (result) taskResults.set(task.id, result);
+          continue;
+        }
+        task.status = 'pending';
+        task.startedAt = undefined;
+        task.completedAt = undefined;
+        task.result = undefined;
+        task.assignedAssistantId = undefined;
+      }
+    }
+
+    const metrics: SwarmMetrics = {
+      ...this.createEmptyMetrics(),
+      ...run.metrics,
+      totalTasks: plan?.tasks.length ?? 0,
+      completedTasks: plan?.tasks.filter(t => t.status === 'completed').length ?? 0,
+      failedTasks: 0,
+      runningTasks: 0,
+    };
+
+    this.state = {
+      id: run.id,
+      status: 'idle',
+      plan,
+      sessionId: this.context.sessionId,
+      taskResults,
+      activeAssistants: new Set(),
+      errors: [],
+      startedAt: Date.now(),
+      metrics,
+      timeline: run.timeline ?? [],
+    };
+    this.stopped = false;
+    this.budgetExceeded = false;
+    this.timeoutExceeded = false;
+
+    if (this.config.enableSharedMemory) {
+      this.memory = new SwarmMemory(run.id);
+      this.memory.import(run.memory ?? []);
+    } else {
+      this.memory = null;
+    }
+    this.runInput = { goal: run.goal, context: run.context };
+    this.resumeCount = (run.resumeCount ?? 0) + 1;
+    this.workflow = run.workflow
+      ? new SwarmWorkflowRunner(run.workflow.definition, run.workflow.inputs)
+      : null;
+
+    const remaining = plan ? plan.tasks.filter(t => t.status !== 'completed').length : 0;
+    this.streamText(
+      plan
+        ? `\n↻ Resuming swarm ${run.id.slice(0, 8)}: ${metrics.completedTasks}/${plan.tasks.length} tasks done, ${remaining} to run\n`
+        : `\n↻ Resuming swarm ${run.id.slice(0, 8)} from planning\n`
+    );
+
+    return this.run({ goal: run.goal, context: run.context }, plan);
+  }
+
+  /**
+   * Run the swarm phases. An existing plan skips planning (and approval
+   * once approved).
+   */
+  private async run(input: SwarmInput, existingPlan: SwarmPlan | null): Promise<SwarmResult> {
+    const config = this.config;
+    if (!this.state) {
+      throw new Error('Swarm state not initialized');
+    }
 
     // Start timeout timer
     this.startTimeoutTimer();
@@ -287,7 +493,9 @@ export class SwarmCoordinator {
     try {
       // Phase 1: Planning
       let plan: SwarmPlan;
-      if (input.tasks && input.tasks.length > 0) {
+      if (existingPlan) {
+        plan = existingPlan;
+      } else if (input.tasks && input.tasks.length > 0) {
         // Use pre-defined tasks
         plan = this.createPlanFromTasks(input.goal, input.tasks);
       } else {
@@ -311,8 +519,13 @@ export class SwarmCoordinator {
         this.streamText(`  ${task.priority}. ${task.description}\n`);
       }
 
-      // Phase 2: Approval (unless auto-approve)
-      if (!config.autoApprove) {
+      // Phase 2: Approval (unless auto-approve or already approved before a resume)
+      if (existingPlan?.approved) {
+        // Workflow plans need no approval; resumed plans were approved already
+        if (this.resumeCount > 0) {
+          this.streamText('\n✓ Plan was approved before the interruption\n');
+        }
+      } else if (!config.autoApprove) {
         if (this.context.onPlanApproval) {
           this.streamText('\n⏳ Waiting for plan approval...\n');
           const { decision, editedPlan } = await this.context.onPlanApproval(plan);
@@ -356,7 +569,13 @@ export class SwarmCoordinator {
 
       // Phase 3: Execution
       this.updateStatus('executing');
-      await this.executeTaskGraph(plan);
+      await this.setupIsolation(plan);
+      this.setupCollaboration();
+      try {
+        await this.executeTaskGraph(plan);
+      } finally {
+        this.closeCollaboration();
+      }
 
       // Phase 4: Critic review (optional)
       if (config.enableCritic && !this.stopped) {
@@ -367,6 +586,7 @@ export class SwarmCoordinator {
       // Phase 5: Aggregation
       if (!this.stopped) {
         this.updateStatus('aggregating');
+        await this.mergeWorktrees();
         const finalResult = await this.runAggregator(input.goal);
         this.state.finalResult = finalResult;
       }
@@ -392,6 +612,7 @@ export class SwarmCoordinator {
         }
       }
 
+      this.persist();
       const result = this.buildResult(startTime);
 
       // Show appropriate completion message
@@ -437,6 +658,8 @@ export class SwarmCoordinator {
         metrics: this.state.metrics,
         durationMs: Date.now() - startTime,
       };
+    } finally {
+      await this.releaseWorktrees();
     }
   }
 
@@ -446,6 +669,7 @@ export class SwarmCoordinator {
   stop(): void {
     this.stopped = true;
     this.clearTimeoutTimer();
+    this.closeCollaboration('Swarm stopped');
 
     // Stop all active subassistants
     const stoppedCount = this.context.subassistantManager.stopAll();
@@ -607,7 +831,8 @@ Maximum ${this.config.maxTasks} tasks.`;
   // ============================================
 
   private async executeTaskGraph(plan: SwarmPlan): Promise<void> {
-    const completed = new Set<string>();
+    // Tasks completed before a resume count as done
+    const completed = new Set<string>(plan.tasks.filter(t => t.status === 'completed').map(t => t.id));
     const failed = new Set<string>();
     const blocked = new Set<string>();
     const running = new Map<string, Promise<void>>();
@@ -643,7 +868,13 @@ Maximum ${this.config.maxTasks} tasks.`;
         .sort((a, b) => a.priority - b.priority)
         .slice(0, availableSlots);
 
+      let graphChanged = false;
       for (const task of tasksToSpawn) {
+        if (this.workflow && !this.prepareWorkflowTask(plan, task, completed, failed)) {
+          graphChanged = true;
+          continue;
+        }
+
         task.status = 'running';
         task.startedAt = Date.now();
         this.state!.metrics.runningTasks++;
@@ -680,6 +911,9 @@ Maximum ${this.config.maxTasks} tasks.`;
         this.emit('swarm:task_started', task.id);
       }
 
+      // Skipped or expanded tasks may have made other tasks ready
+      if (graphChanged) continue;
+
       // Wait for at least one task to complete
       if (running.size > 0) {
         await Promise.race(Array.from(running.values()));
@@ -713,6 +947,71 @@ Maximum ${this.config.maxTasks} tasks.`;
     }
   }
 
+  /**
+   * Apply the workflow to a ready task: skip it, expand it into one task per
+   * item, or render its prompt. Returns whether the task should be spawned.
+   */
+  private prepareWorkflowTask(
+    plan: SwarmPlan,
+    task: SwarmTask,
+    completed: Set<string>,
+    failed: Set<string>
+  ): boolean {
+    let action;
+    try {
+      action = this.workflow!.prepareTask(task, plan, this.state!.taskResults);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      task.status = 'failed';
+      task.completedAt = Date.now();
+      failed.add(task.id);
+      this.state!.metrics.failedTasks++;
+      this.state!.errors.push(`Task ${task.id}: ${message}`);
+      this.emit('swarm:task_failed', task.id, { error: message });
+      return false;
+    }
+
+    if (action.type === 'skip') {
+      task.status = 'skipped';
+      task.completedAt = Date.now();
+      completed.add(task.id);
+      this.streamText(`  ↷ Skipped ${task.description} (${action.reason})\n`);
+      this.emit('swarm:task_skipped', task.id, { reason: action.reason });
+      return false;
+    }
+
+    if (action.type === 'expand') {
+      let items = action.items;
+      const room = this.config.maxTasks - (plan.tasks.length - 1);
+      if (items.length > room) {
+        this.streamText(`\n⚠️ ${task.description}: ${items.length} items truncated to ${Math.max(room, 0)} (maxTasks limit)\n`);
+        items = items.slice(0, Math.max(room, 0));
+      }
+      if (items.length === 0) {
+        task.status = 'skipped';
+        task.completedAt = Date.now();
+        completed.add(task.id);
+        this.emit('swarm:task_skipped', task.id, { reason: 'no items' });
+        return false;
+      }
+
+      const children = this.workflow!.createFanOutTasks(task, items);
+      const childIds = children.map(child => child.id);
+      plan.tasks.splice(plan.tasks.indexOf(task), 1, ...children);
+      for (const other of plan.tasks) {
+        if (other.dependsOn.includes(task.id)) {
+          other.dependsOn = other.dependsOn.flatMap(dep => dep === task.id ? childIds : [dep]);
+        }
+      }
+      this.state!.metrics.totalTasks = plan.tasks.length;
+      this.streamText(`  ⑂ ${task.description}: ${children.length} parallel task(s)\n`);
+      this.emit('swarm:plan_created', undefined, plan);
+      return false;
+    }
+
+    return true;
+  }
+
   private async executeTask(task: SwarmTask): Promise<void> {
     // Check if we should stop due to budget/timeout before starting
     if (this.stopped || this.budgetExceeded || this.timeoutExceeded) {
@@ -720,11 +1019,14 @@ Maximum ${this.config.maxTasks} tasks.`;
     }
 
     // Build task prompt with context from dependencies and shared memory
-    const dependencyContext = this.buildDependencyContext(task);
+    // Workflow steps carry a rendered prompt that already references what they need
+    const isWorkflowStep = typeof task.input === 'string';
+    const dependencyContext = isWorkflowStep ? '' : this.buildDependencyContext(task);
     const memoryContext = this.memory
       ? this.memory.buildContextInjection({ maxEntries: 10 })
       : '';
-    const taskPrompt = `${task.description}\n\n${dependencyContext}${memoryContext ? `\n\nShared Knowledge:\n${memoryContext}` : ''}`;
+    const instruction = isWorkflowStep ? task.input as string : task.description;
+    const taskPrompt = `${instruction}\n\n${dependencyContext}${memoryContext ? `\n\nShared Knowledge:\n${memoryContext}` : ''}`;
 
     // Select tools
     const tools = task.requiredTools || this.config.workerTools;
@@ -733,10 +1035,24 @@ Maximum ${this.config.maxTasks} tasks.`;
     let realSubassistantId: string | undefined;
 
     try {
+      let cwd: string | undefined;
+      let isolationNote = '';
+      if (this.worktrees) {
+        const worktree = await this.worktrees.create(task.id, task.dependsOn);
+        task.metadata = { ...task.metadata, worktree };
+        cwd = join(worktree.path, relative(this.worktrees.getRepoRoot(), this.context.cwd));
+        isolationNote = `\n\nYou are working in an isolated git worktree of the project at ${cwd} (branch ${worktree.branch}). ` +
+          'Make all file changes inside it; they are merged back when the swarm finishes.';
+      }
+
+      const extraTools = this.joinCollaboration(task);
       const result = await this.spawnAssistant({
         role: task.role,
-        task: taskPrompt,
+        task: taskPrompt + isolationNote + this.buildCollaborationNote(task, extraTools),
         tools,
+        model: task.model,
+        cwd,
+        extraTools,
       });
 
       // Use the real subassistant ID from the spawn result for tracking
@@ -766,6 +1082,7 @@ Maximum ${this.config.maxTasks} tasks.`;
             totalTokens: result.tokensUsed,
             llmCalls: 1,
             toolCalls: result.toolCalls,
+            costUsd: result.costUsd,
           }, 'swarm');
         }
 
@@ -780,7 +1097,13 @@ Maximum ${this.config.maxTasks} tasks.`;
       if (!result.success) {
         throw new Error(result.error || 'Task failed');
       }
+
+      if (this.worktrees) {
+        const changes = await this.worktrees.collect(task.id);
+        task.metadata = { ...task.metadata, worktreeChanges: changes };
+      }
     } finally {
+      this.bus?.leave(task.id);
       // Remove from active assistants when done (but keep assignedAssistantId for history)
       if (realSubassistantId && this.state) {
         this.state.activeAssistants.delete(realSubassistantId);
@@ -821,6 +1144,7 @@ Maximum ${this.config.maxTasks} tasks.`;
       content: truncated,
       sourceAssistantId: task.assignedAssistantId || undefined,
       sourceTaskId: task.id,
+      topic: 'results',
       tags: ['task-result', task.role],
       relevance: 0.7,
     });
@@ -1005,6 +1329,10 @@ Maximum ${this.config.maxTasks} tasks.`;
       prompt += `BLOCKED TASKS (${blockedTasks.length}):\n\n${blockedSummaries}\n\n`;
     }
 
+    if (this.state?.changes) {
+      prompt += `FILE CHANGES (merged from worker worktrees):\n\n${formatSwarmChangeSummary(this.state.changes, id => this.describeTask(id))}\n\n`;
+    }
+
     prompt += `Synthesize these results into a comprehensive final answer. `;
     if (failedTasks.length > 0 || blockedTasks.length > 0) {
       prompt += `Note the tasks that failed or were blocked and explain how this affects the overall result.`;
@@ -1021,10 +1349,18 @@ Maximum ${this.config.maxTasks} tasks.`;
     role: SwarmRole;
     task: string;
     tools: string[];
+    /** Model override (defaults to the subassistant manager's model) */
+    model?: string;
+    /** Working directory (defaults to the swarm's cwd) */
+    cwd?: string;
+    /** Tools only this assistant gets (swarm collaboration tools) */
+    extraTools?: SubassistantTool[];
+    /** Timeout (defaults to taskTimeoutMs) */
+    timeoutMs?: number;
     /** If true, track this assistant in activeAssistants (for internal planner/critic/aggregator assistants) */
     trackInternal?: boolean;
   }): Promise<SubassistantResult> {
-    const { role, task, tools, trackInternal } = params;
+    const { role, task, tools, model, cwd, extraTools, timeoutMs, trackInternal } = params;
 
     const targetDepth = this.context.depth + 1;
     if (this.config.maxDepth > 0 && targetDepth > this.config.maxDepth) {
@@ -1067,8 +1403,10 @@ Maximum ${this.config.maxTasks} tasks.`;
       maxTurns: 15,
       parentSessionId: this.context.sessionId,
       depth: this.context.depth + 1,
-      cwd: this.context.cwd,
-      timeoutMs: this.config.taskTimeoutMs,
+      cwd: cwd ?? this.context.cwd,
+      timeoutMs: timeoutMs ?? this.config.taskTimeoutMs,
+      ...(model ? { model } : {}),
+      ...(extraTools && extraTools.length > 0 ? { extraTools } : {}),
     };
 
     const result = await this.context.subassistantManager.spawn(config);
@@ -1118,6 +1456,275 @@ Maximum ${this.config.maxTasks} tasks.`;
     }
   }
 
+  // ============================================
+  // Collaboration (blackboard and messaging)
+  // ============================================
+
+  /**
+   * Create the message bus for the execution phase and record blackboard
+   * posts and messages in the timeline
+   */
+  private setupCollaboration(): void {
+    this.closeCollaboration();
+    if (this.config.enableMessaging) {
+      this.bus = new SwarmMessageBus({
+        timeoutMs: this.config.askTimeoutMs,
+        answerAsCoordinator: (question, timeoutMs) => this.answerQuestion(question, timeoutMs),
+      });
+      this.bus.onMessage(entry => this.recordTimeline(entry));
+    }
+    if (this.memory) {
+      this.detachMemoryListener = this.memory.onChange((entry, change) => {
+        if (change !== 'added' || !entry.topic) return;
+        this.recordTimeline({
+          id: entry.id,
+          kind: 'post',
+          from: entry.sourceTaskId ?? SWARM_COORDINATOR_ID,
+          topic: entry.topic,
+          content: entry.content,
+          timestamp: entry.createdAt,
+        });
+      });
+    }
+  }
+
+  private closeCollaboration(reason?: string): void {
+    this.bus?.close(reason);
+    this.bus = null;
+    this.detachMemoryListener?.();
+    this.detachMemoryListener = null;
+  }
+
+  private recordTimeline(entry: SwarmTimelineEntry): void {
+    if (!this.state) return;
+    this.state.timeline.push(entry);
+    if (this.state.timeline.length > MAX_TIMELINE_ENTRIES) {
+      this.state.timeline.splice(0, this.state.timeline.length - MAX_TIMELINE_ENTRIES);
+    }
+    if (entry.kind !== 'post') {
+      const arrow = `${this.describeParticipant(entry.from)} → ${this.describeParticipant(entry.to ?? SWARM_COORDINATOR_ID)}`;
+      const icon = entry.kind === 'question' ? '❓' : entry.kind === 'answer' ? '💬' : '⌛';
+      this.streamText(`  ${icon} ${arrow}: ${entry.content.replace(/\s+/g, ' ').slice(0, 120)}\n`);
+    }
+    this.emit('swarm:message', entry.from === SWARM_COORDINATOR_ID ? undefined : entry.from, entry);
+  }
+
+  /**
+   * Register a task on the message bus and build its collaboration tools
+   */
+  private joinCollaboration(task: SwarmTask): SubassistantTool[] {
+    if (!this.bus && !this.memory) return [];
+    this.bus?.join(task.id);
+    return createSwarmWorkerTools({
+      taskId: task.id,
+      memory: this.memory,
+      bus: this.bus,
+      describeTask: id => this.describeParticipant(id),
+    });
+  }
+
+  private buildCollaborationNote(task: SwarmTask, tools: SubassistantTool[]): string {
+    if (tools.length === 0) return '';
+    const names = tools.map(({ tool }) => tool.name);
+    const lines = [`\n\nSwarm collaboration (your task ID: ${task.id.slice(0, 8)}):`];
+    if (names.includes('swarm_post')) {
+      lines.push('- Share intermediate findings other workers could use with swarm_post (pick a topic); follow topics with swarm_subscribe.');
+    }
+    if (this.bus) {
+      const siblings = this.bus.getParticipants().filter(id => id !== task.id);
+      lines.push(`- Ask a running worker or "${SWARM_COORDINATOR_ID}" with swarm_ask when you are blocked on information you cannot find yourself.`);
+      if (siblings.length > 0) {
+        lines.push(`- Running workers: ${siblings.map(id => `${id.slice(0, 8)} (${this.describeTask(id)})`).join('; ')}`);
+      }
+      lines.push('- Others may ask you questions: they appear in your swarm_* tool results and swarm_inbox. Answer them with swarm_reply.');
+    }
+    return lines.join('\n');
+  }
+
+  private describeParticipant(id: string): string {
+    if (id === SWARM_COORDINATOR_ID) return id;
+    const description = this.describeTask(id);
+    return description === id ? id.slice(0, 8) : `${id.slice(0, 8)} (${description.slice(0, 40)})`;
+  }
+
+  /**
+   * Answer a question addressed to the coordinator (or one a worker could not
+   * answer) with a read-only assistant that knows the goal, the plan, finished
+   * results and the blackboard
+   */
+  private async answerQuestion(question: SwarmQuestion, timeoutMs: number): Promise<string> {
+    const tasks = this.state?.plan?.tasks ?? [];
+    let prompt = `A worker in a swarm asks a question. Answer it directly and concisely from what the swarm knows; `;
+    prompt += `say so plainly if the answer is not known yet.\n\n`;
+    prompt += `Goal: ${this.runInput?.goal ?? this.state?.plan?.goal ?? ''}\n\n`;
+    prompt += `Asked by: ${this.describeParticipant(question.from)}\n`;
+    if (question.to !== SWARM_COORDINATOR_ID) {
+      prompt += `Originally addressed to: ${this.describeParticipant(question.to)}\n`;
+    }
+    prompt += `Question: ${question.question}\n\nTASKS:\n`;
+    for (const task of tasks) {
+      prompt += `- [${task.status}] ${task.description}\n`;
+      const result = this.state?.taskResults.get(task.id)?.result;
+      if (result) {
+        prompt += `  Result: ${result.slice(0, 800)}\n`;
+      }
+    }
+    const knowledge = this.memory?.buildContextInjection({ maxEntries: 20 });
+    if (knowledge) {
+      prompt += `\n${knowledge}\n`;
+    }
+
+    const result = await this.spawnAssistant({
+      role: 'worker',
+      task: prompt,
+      tools: this.config.plannerTools,
+      timeoutMs,
+      trackInternal: true,
+    });
+    if (!result.success || !result.result) {
+      throw new Error(result.error || 'The coordinator could not answer');
+    }
+    return result.result;
+  }
+
+  // ============================================
+  // Worktree Isolation
+  // ============================================
+
+  /**
+   * Create the worktree manager when worktree isolation is enabled. Falls
+   * back to a shared working directory outside git repositories. Worktrees of
+   * tasks completed before a resume are re-attached.
+   */
+  private async setupIsolation(plan: SwarmPlan): Promise<void> {
+    this.worktrees = null;
+    if (this.config.isolation !== 'worktree' || !this.state) return;
+
+    const repoRoot = await findGitRepoRoot(this.context.cwd);
+    if (!repoRoot) {
+      this.streamText('\n⚠️ Worktree isolation needs a git repository with at least one commit; workers share the working directory\n');
+      return;
+    }
+
+    this.worktrees = new SwarmWorktreeManager({ repoRoot, swarmId: this.state.id });
+    for (const task of plan.tasks) {
+      const worktree = task.metadata?.worktree as SwarmWorktree | undefined;
+      if (task.status === 'completed' && worktree) {
+        this.worktrees.adopt(worktree, task.metadata?.worktreeChanges as SwarmWorktreeChanges | undefined);
+      }
+    }
+    this.streamText(`\n🌿 Workers run in isolated git worktrees of ${repoRoot}\n`);
+  }
+
+  /**
+   * Apply completed workers' changes to the main working tree (in completion
+   * order, so dependents apply on top of their dependencies). Conflicts are
+   * reported as critic issues.
+   */
+  private async mergeWorktrees(): Promise<void> {
+    if (!this.worktrees || !this.state?.plan) return;
+
+    const completed = this.state.plan.tasks
+      .filter(t => t.status === 'completed')
+      .sort((a, b) => (a.completedAt ?? 0) - (b.completedAt ?? 0))
+      .map(t => t.id);
+
+    try {
+      const changes = await this.worktrees.merge(completed, id => this.describeTask(id));
+      this.state.changes = changes;
+      this.streamText(`\n🔀 ${formatSwarmChangeSummary(changes, id => this.describeTask(id))}\n`);
+
+      const conflicts = changes.issues.filter(issue => issue.category === 'conflict');
+      if (conflicts.length > 0) {
+        this.state.unresolvedIssues = [
+          ...(this.state.unresolvedIssues ?? []),
+          ...conflicts.map(issue => `${issue.title}. ${issue.suggestedFix ?? ''}`.trim()),
+        ];
+      }
+      await this.worktrees.cleanup(changes.keptBranches);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.state.errors.push(`Merging worker changes failed: ${message}`);
+      this.streamText(`\n⚠️ Merging worker changes failed: ${message}\n`);
+    }
+    this.persist();
+  }
+
+  /**
+   * Remove the worktrees of a run that ended without merging (stopped, timed
+   * out or failed). Branches of completed tasks are kept so a resume can
+   * still merge their changes; everything else is deleted.
+   */
+  private async releaseWorktrees(): Promise<void> {
+    const worktrees = this.worktrees;
+    if (!worktrees) return;
+    this.worktrees = null;
+
+    const keep = (this.state?.plan?.tasks ?? [])
+      .filter(t => t.status === 'completed')
+      .map(t => worktrees.getChanges(t.id))
+      .filter((changes): changes is SwarmWorktreeChanges => !!changes && changes.files.length > 0)
+      .map(changes => changes.branch);
+    try {
+      await worktrees.cleanup(keep);
+      if (keep.length > 0 && this.state?.status !== 'completed') {
+        this.streamText(`\n🌿 Kept ${keep.length} branch(es) of completed tasks for resuming: ${keep.join(', ')}\n`);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.streamText(`\n⚠️ Removing worker worktrees failed: ${message}\n`);
+    }
+  }
+
+  private describeTask(taskId: string): string {
+    return this.state?.plan?.tasks.find(t => t.id === taskId)?.description ?? taskId;
+  }
+
+  /**
+   * Get the run store (null when runs are not persisted)
+   */
+  getRunStore(): SwarmRunStore | null {
+    return this.context.runStore ?? null;
+  }
+
+  /**
+   * Write the current run to the run store. Persistence errors never fail the swarm.
+   */
+  private persist(): void {
+    if (!this.context.runStore || !this.state || !this.runInput) return;
+    const run: PersistedSwarmRun = {
+      version: SWARM_RUN_VERSION,
+      id: this.state.id,
+      sessionId: this.state.sessionId,
+      cwd: this.context.cwd,
+      goal: this.runInput.goal,
+      context: this.runInput.context,
+      status: this.state.status,
+      plan: this.state.plan,
+      taskResults: this.getTaskResultsRecord(),
+      errors: this.state.errors,
+      metrics: this.state.metrics,
+      config: this.config,
+      memory: this.memory?.export(),
+      timeline: this.state.timeline,
+      finalResult: this.state.finalResult,
+      unresolvedIssues: this.state.unresolvedIssues,
+      startedAt: this.state.startedAt,
+      endedAt: this.state.endedAt,
+      updatedAt: Date.now(),
+      pid: process.pid,
+      resumeCount: this.resumeCount,
+      workflow: this.workflow
+        ? { definition: this.workflow.workflow, inputs: this.workflow.inputs }
+        : undefined,
+    };
+    try {
+      this.context.runStore.save(run);
+    } catch {
+      // A run that cannot be saved still executes; it just cannot be resumed
+    }
+  }
+
   private updateStatus(status: SwarmStatus): void {
     if (this.state) {
       this.state.status = status;
@@ -1158,6 +1765,7 @@ Maximum ${this.config.maxTasks} tasks.`;
       taskResults: this.getTaskResultsRecord(),
       metrics: this.state?.metrics || this.createEmptyMetrics(),
       durationMs: Date.now() - startTime,
+      changes: this.state?.changes,
     };
   }
 }
@@ -5,10 +5,12 @@
  * Tracks status per task and surfaces failures.
  */
 
+import { join, relative } from 'path';
 import { generateId } from '@hasna/assistants-shared';
 import type { SubassistantManager, SubassistantConfig, SubassistantResult } from '../agent/subagent-manager';
 import type { SwarmTask, SwarmRole } from './types';
 import { ROLE_SYSTEM_PROMPTS } from './types';
+import type { SwarmChangeSummary, SwarmWorktreeChanges, SwarmWorktreeManager } from './worktrees';
 
 /**
  * Dispatch task status
@@ -56,6 +58,8 @@ export interface DispatchTask {
     error: string;
     timestamp: number;
   }>;
+  /** Files changed in the task's worktree (worktree isolation) */
+  changes?: SwarmWorktreeChanges;
 }
 
 /**
@@ -131,7 +135,7 @@ export const DEFAULT_DISPATCHER_CONFIG: DispatcherConfig = {
   depTimeoutMs: 300000, // 5 minutes
   maxQueueSize: 50,
   forbiddenTools: ['swarm_execute', 'assistant_spawn'],
-  defaultWorkerTools: ['bash', 'read', 'write', 'edit', 'glob', 'grep'],
+  defaultWorkerTools: ['bash', 'read', 'write', 'edit', 'apply_patch', 'glob', 'grep'],
   maxTurnsPerTask: 15,
 };
 
@@ -169,6 +173,17 @@ export interface DispatchResult {
   durationMs: number;
 }
 
+/**
+ * Dispatcher context
+ */
+export interface SwarmDispatcherContext {
+  sessionId: string;
+  cwd: string;
+  depth: number;
+  /** Run each task in its own git worktree (worktree isolation) */
+  worktrees?: SwarmWorktreeManager;
+}
+
 /**
  * Swarm Dispatcher
  *
@@ -180,6 +195,7 @@ export class SwarmDispatcher {
   private sessionId: string;
   private cwd: string;
   private depth: number;
+  private worktrees: SwarmWorktreeManager | null;
 
   private tasks: Map<string, DispatchTask> = new Map();
   private running: Map<string, Promise<void>> = new Map();
@@ -193,13 +209,14 @@ export class SwarmDispatcher {
   constructor(
     config: Partial<DispatcherConfig>,
     subassistantManager: SubassistantManager,
-    context: { sessionId: string; cwd: string; depth: number }
+    context: SwarmDispatcherContext
   ) {
     this.config = { ...DEFAULT_DISPATCHER_CONFIG, ...config };
     this.subassistantManager = subassistantManager;
     this.sessionId = context.sessionId;
     this.cwd = context.cwd;
     this.depth = context.depth;
+    this.worktrees = context.worktrees ?? null;
   }
 
   /**
@@ -336,6 +353,24 @@ export class SwarmDispatcher {
     return Array.from(this.tasks.values());
   }
 
+  /**
+   * Apply completed tasks' worktree changes to the main working tree (in
+   * completion order) and remove the worktrees. Returns null without
+   * worktree isolation.
+   */
+  async mergeWorktrees(): Promise<SwarmChangeSummary | null> {
+    if (!this.worktrees) return null;
+    const completed = Array.from(this.tasks.values())
+      .filter(t => t.status === 'completed')
+      .sort((a, b) => (a.finishedAt ?? 0) - (b.finishedAt ?? 0));
+    const summary = await this.worktrees.merge(
+      completed.map(t => t.id),
+      id => this.tasks.get(id)?.task.description ?? id
+    );
+    await this.worktrees.cleanup(summary.keptBranches);
+    return summary;
+  }
+
   /**
    * Get current statistics
    */
@@ -572,13 +607,22 @@ export class SwarmDispatcher {
     const tools = (task.requiredTools || this.config.defaultWorkerTools)
       .filter(t => !this.config.forbiddenTools.includes(t));
 
+    let cwd = this.cwd;
+    let instruction = task.description;
+    if (this.worktrees) {
+      // Retries reuse the task's worktree
+      const worktree = await this.worktrees.create(task.id, task.dependsOn);
+      cwd = join(worktree.path, relative(this.worktrees.getRepoRoot(), this.cwd));
+      instruction += `\n\nYou are working in an isolated git worktree of the project at ${cwd}. Make all file changes inside it.`;
+    }
+
     const config: SubassistantConfig = {
-      task: `${systemPrompt}\n\n---\n\n${task.description}`,
+      task: `${systemPrompt}\n\n---\n\n${instruction}`,
       tools,
       maxTurns: this.config.maxTurnsPerTask,
       parentSessionId: this.sessionId,
       depth: this.depth + 1,
-      cwd: this.cwd,
+      cwd,
     };
 
     // Create timeout promise
@@ -603,6 +647,10 @@ export class SwarmDispatcher {
         throw new Error(result.error || 'Task failed');
       }
 
+      if (this.worktrees) {
+        dispatchTask.changes = await this.worktrees.collect(task.id);
+      }
+
       return result;
     } catch (error) {
       clearTimeout(timeoutId!);
@@ -687,7 +735,7 @@ export class SwarmDispatcher {
  */
 export function createSwarmDispatcher(
   subassistantManager: SubassistantManager,
-  context: { sessionId: string; cwd: string; depth: number },
+  context: SwarmDispatcherContext,
   config?: Partial<DispatcherConfig>
 ): SwarmDispatcher {
   return new SwarmDispatcher(config || {}, subassistantManager, context);
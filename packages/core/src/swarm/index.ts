@@ -7,6 +7,47 @@
 export * from './types';
 export { SwarmCoordinator } from './coordinator';
 export type { SwarmCoordinatorContext, ApprovalDecision } from './coordinator';
+export {
+  SwarmRunStore,
+  SWARM_RUN_VERSION,
+  isSwarmRunInterrupted,
+  summarizeSwarmRun,
+} from './store';
+export type { PersistedSwarmRun, SwarmRunSummary } from './store';
+export {
+  SwarmWorktreeManager,
+  findGitRepoRoot,
+  formatSwarmChangeSummary,
+} from './worktrees';
+export type {
+  SwarmWorktree,
+  SwarmChangedFile,
+  SwarmWorktreeChanges,
+  SwarmChangeSummary,
+} from './worktrees';
+export {
+  SwarmWorkflowRunner,
+  parseSwarmWorkflow,
+  loadSwarmWorkflows,
+  findSwarmWorkflow,
+  getSwarmWorkflowDirs,
+  resolveSwarmWorkflowInputs,
+  buildSwarmWorkflowPlan,
+  renderWorkflowTemplate,
+  evaluateWorkflowCondition,
+  resolveWorkflowExpression,
+  resolveWorkflowItems,
+  extractWorkflowJson,
+} from './workflows';
+export type {
+  SwarmWorkflow,
+  SwarmWorkflowStep,
+  SwarmWorkflowInput,
+  SwarmWorkflowSource,
+  SwarmWorkflowScope,
+  SwarmWorkflowLoadError,
+  SwarmWorkflowTaskAction,
+} from './workflows';
 export {
   TaskGraph,
   TaskGraphScheduler,
@@ -18,13 +59,22 @@ export type {
   TaskExecutionResult,
   SchedulerOptions,
 } from './task-graph';
-export { SwarmMemory, createSwarmMemoryTools } from './memory';
+export { SwarmMemory, createSwarmMemoryTools, matchesSwarmTopic } from './memory';
 export type {
   SwarmMemoryCategory,
   SwarmMemoryEntry,
   SwarmMemoryQuery,
   SwarmMemoryStats,
+  SwarmMemoryListener,
+  SwarmMemoryTools,
 } from './memory';
+export { SwarmMessageBus, SWARM_COORDINATOR_ID } from './messaging';
+export type {
+  SwarmQuestion,
+  SwarmQuestionStatus,
+  SwarmQuestionAnswerer,
+  SwarmMessageListener,
+} from './messaging';
 export { SwarmDecisionPolicy, DEFAULT_DECISION_POLICY } from './decision-policy';
 export type {
   ComplexityLevel,
@@ -59,6 +109,7 @@ export {
   DEFAULT_DISPATCHER_CONFIG,
 } from './dispatcher';
 export type {
+  SwarmDispatcherContext,
   DispatchTask,
   DispatchTaskStatus,
   DispatcherEvent,
@@ -3,6 +3,8 @@
  *
  * Shared memory store for swarm assistants. Provides a knowledge base that
  * assistants can read from and write to, enabling collaboration and context sharing.
+ * Entries posted under a topic form a live blackboard: assistants subscribe to
+ * topics and pick up new posts from siblings while they are still running.
  */
 
 import { generateId } from '@hasna/assistants-shared';
@@ -34,6 +36,8 @@ export interface SwarmMemoryEntry {
   sourceAssistantId?: string;
   /** Source task ID */
   sourceTaskId?: string;
+  /** Blackboard topic (e.g. "api/auth") */
+  topic?: string;
   /** Tags for search */
   tags: string[];
   /** Relevance score (0-1) */
@@ -62,6 +66,8 @@ export interface SwarmMemoryQuery {
   sourceAssistantId?: string;
   /** Filter by source task */
   sourceTaskId?: string;
+  /** Filter by topic pattern ("api/*", "*" or an exact topic) */
+  topic?: string;
   /** Minimum relevance score */
   minRelevance?: number;
   /** Maximum results */
@@ -83,6 +89,34 @@ export interface SwarmMemoryStats {
   newestEntry: number | null;
 }
 
+/**
+ * Blackboard change listener
+ */
+export type SwarmMemoryListener = (entry: SwarmMemoryEntry, change: 'added' | 'updated') => void;
+
+/**
+ * Topic subscription of one subscriber (usually a task ID)
+ */
+interface SwarmMemorySubscription {
+  topics: Set<string>;
+  /** Last change sequence number delivered to the subscriber */
+  cursor: number;
+}
+
+/**
+ * Whether a topic matches a subscription pattern. `*` matches every topic,
+ * `api/*` matches `api` and anything below it.
+ */
+export function matchesSwarmTopic(pattern: string, topic: string | undefined): boolean {
+  if (!topic) return false;
+  if (pattern === '*') return true;
+  if (pattern.endsWith('/*')) {
+    const prefix = pattern.slice(0, -2);
+    return topic === prefix || topic.startsWith(`${prefix}/`);
+  }
+  return pattern === topic;
+}
+
 /**
  * Swarm Memory Store
  *
@@ -92,6 +126,10 @@ export class SwarmMemory {
   private entries: Map<string, SwarmMemoryEntry> = new Map();
   private swarmId: string;
   private maxEntries: number;
+  private sequence = 0;
+  private changes: Map<string, number> = new Map();
+  private subscriptions: Map<string, SwarmMemorySubscription> = new Map();
+  private listeners: Set<SwarmMemoryListener> = new Set();
 
   constructor(swarmId: string, maxEntries: number = 500) {
     this.swarmId = swarmId;
@@ -113,6 +151,7 @@ export class SwarmMemory {
     content: string;
     sourceAssistantId?: string;
     sourceTaskId?: string;
+    topic?: string;
     tags?: string[];
     relevance?: number;
     metadata?: Record<string, unknown>;
@@ -129,6 +168,7 @@ export class SwarmMemory {
       content: params.content,
       sourceAssistantId: params.sourceAssistantId,
       sourceTaskId: params.sourceTaskId,
+      topic: params.topic?.trim() || undefined,
       tags: params.tags || [],
       relevance: params.relevance ?? 0.5,
       createdAt: now,
@@ -138,6 +178,7 @@ export class SwarmMemory {
     };
 
     this.entries.set(entry.id, entry);
+    this.notify(entry, 'added');
     return entry;
   }
 
@@ -164,6 +205,7 @@ export class SwarmMemory {
     if (updates.relevance !== undefined) entry.relevance = updates.relevance;
     if (updates.metadata !== undefined) entry.metadata = { ...entry.metadata, ...updates.metadata };
     entry.updatedAt = Date.now();
+    this.notify(entry, 'updated');
 
     return entry;
   }
@@ -172,6 +214,7 @@ export class SwarmMemory {
    * Delete an entry
    */
   delete(id: string): boolean {
+    this.changes.delete(id);
     return this.entries.delete(id);
   }
 
@@ -213,6 +256,11 @@ export class SwarmMemory {
       results = results.filter(e => e.sourceTaskId === query.sourceTaskId);
     }
 
+    // Filter by topic
+    if (query.topic) {
+      results = results.filter(e => matchesSwarmTopic(query.topic!, e.topic));
+    }
+
     // Filter by relevance
     if (query.minRelevance !== undefined) {
       results = results.filter(e => e.relevance >= query.minRelevance!);
@@ -301,6 +349,92 @@ export class SwarmMemory {
    */
   clear(): void {
     this.entries.clear();
+    this.changes.clear();
+  }
+
+  // ============================================
+  // Blackboard
+  // ============================================
+
+  /**
+   * Listen for entries being added or updated
+   */
+  onChange(listener: SwarmMemoryListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Subscribe to topics. Only posts made after subscribing are delivered.
+   * Returns all topics the subscriber now follows.
+   */
+  subscribe(subscriberId: string, topics: string[]): string[] {
+    let subscription = this.subscriptions.get(subscriberId);
+    if (!subscription) {
+      subscription = { topics: new Set(), cursor: this.sequence };
+      this.subscriptions.set(subscriberId, subscription);
+    }
+    for (const topic of topics) {
+      const trimmed = topic.trim();
+      if (trimmed) subscription.topics.add(trimmed);
+    }
+    return Array.from(subscription.topics);
+  }
+
+  /**
+   * Unsubscribe from topics (all topics when none are given).
+   * Returns the topics the subscriber still follows.
+   */
+  unsubscribe(subscriberId: string, topics?: string[]): string[] {
+    const subscription = this.subscriptions.get(subscriberId);
+    if (!subscription) return [];
+    if (!topics || topics.length === 0) {
+      this.subscriptions.delete(subscriberId);
+      return [];
+    }
+    for (const topic of topics) {
+      subscription.topics.delete(topic.trim());
+    }
+    return Array.from(subscription.topics);
+  }
+
+  /**
+   * Topics a subscriber follows
+   */
+  getSubscriptions(subscriberId: string): string[] {
+    return Array.from(this.subscriptions.get(subscriberId)?.topics ?? []);
+  }
+
+  /**
+   * New or updated entries on the subscriber's topics since the last call,
+   * oldest first. The subscriber's own posts are skipped.
+   */
+  takeUpdates(subscriberId: string): SwarmMemoryEntry[] {
+    const subscription = this.subscriptions.get(subscriberId);
+    if (!subscription || subscription.topics.size === 0) return [];
+
+    const updates: Array<{ entry: SwarmMemoryEntry; seq: number }> = [];
+    for (const [id, seq] of this.changes) {
+      if (seq <= subscription.cursor) continue;
+      const entry = this.entries.get(id);
+      if (!entry || entry.sourceTaskId === subscriberId) continue;
+      if (Array.from(subscription.topics).some(pattern => matchesSwarmTopic(pattern, entry.topic))) {
+        updates.push({ entry, seq });
+      }
+    }
+    subscription.cursor = this.sequence;
+    return updates.sort((a, b) => a.seq - b.seq).map(update => update.entry);
+  }
+
+  private notify(entry: SwarmMemoryEntry, change: 'added' | 'updated'): void {
+    this.changes.set(entry.id, ++this.sequence);
+    for (const listener of this.listeners) {
+      try {
+        listener(entry, change);
+      } catch {
+        // Ignore listener errors
+      }
+    }
   }
 
   /**
@@ -359,7 +493,7 @@ export class SwarmMemory {
     // Remove bottom 10%
     const toRemove = Math.max(1, Math.floor(entries.length * 0.1));
     for (let i = 0; i < toRemove; i++) {
-      this.entries.delete(entries[i].id);
+      this.delete(entries[i].id);
     }
   }
 
@@ -381,21 +515,38 @@ export class SwarmMemory {
 }
 
 /**
- * Create memory tools for swarm assistants
+ * Memory tool functions bound to one swarm assistant
  */
-export function createSwarmMemoryTools(memory: SwarmMemory): {
-  remember: (params: { category: SwarmMemoryCategory; content: string; tags?: string[] }) => string;
-  recall: (params: { search?: string; category?: SwarmMemoryCategory; tags?: string[]; limit?: number }) => string;
+export interface SwarmMemoryTools {
+  remember: (params: { category: SwarmMemoryCategory; content: string; tags?: string[]; topic?: string }) => string;
+  recall: (params: { search?: string; category?: SwarmMemoryCategory; tags?: string[]; topic?: string; limit?: number }) => string;
   forget: (params: { id: string }) => string;
-} {
+  subscribe: (params: { topics: string[] }) => string;
+  unsubscribe: (params: { topics?: string[] }) => string;
+  updates: () => string;
+}
+
+/**
+ * Create memory tools for swarm assistants. With an owner, posts are
+ * attributed to it and topic subscriptions are kept under its task ID.
+ */
+export function createSwarmMemoryTools(
+  memory: SwarmMemory,
+  owner?: { taskId: string; assistantId?: string }
+): SwarmMemoryTools {
+  const subscriberId = owner?.taskId ?? 'default';
+
   return {
     remember: (params) => {
       const entry = memory.add({
         category: params.category,
         content: params.content,
         tags: params.tags,
+        topic: params.topic,
+        sourceTaskId: owner?.taskId,
+        sourceAssistantId: owner?.assistantId,
       });
-      return `Remembered: ${entry.id} (${entry.category})`;
+      return `Remembered: ${entry.id} (${entry.category}${entry.topic ? ` on ${entry.topic}` : ''})`;
     },
 
     recall: (params) => {
@@ -403,6 +554,7 @@ export function createSwarmMemoryTools(memory: SwarmMemory): {
         search: params.search,
         category: params.category,
         tags: params.tags,
+        topic: params.topic,
         limit: params.limit ?? 5,
       });
 
@@ -412,7 +564,7 @@ export function createSwarmMemoryTools(memory: SwarmMemory): {
 
       const lines: string[] = [];
       for (const entry of entries) {
-        lines.push(`[${entry.category}] ${entry.content.slice(0, 100)}${entry.content.length > 100 ? '...' : ''}`);
+        lines.push(`${formatEntryLabel(entry)} ${entry.content.slice(0, 100)}${entry.content.length > 100 ? '...' : ''}`);
       }
       return lines.join('\n');
     },
@@ -421,5 +573,27 @@ export function createSwarmMemoryTools(memory: SwarmMemory): {
       const deleted = memory.delete(params.id);
       return deleted ? `Forgot: ${params.id}` : `Not found: ${params.id}`;
     },
+
+    subscribe: (params) => {
+      const topics = memory.subscribe(subscriberId, params.topics);
+      return topics.length > 0 ? `Subscribed to: ${topics.join(', ')}` : 'No topics given.';
+    },
+
+    unsubscribe: (params) => {
+      const topics = memory.unsubscribe(subscriberId, params.topics);
+      return topics.length > 0 ? `Still subscribed to: ${topics.join(', ')}` : 'No active subscriptions.';
+    },
+
+    updates: () => {
+      const entries = memory.takeUpdates(subscriberId);
+      if (entries.length === 0) {
+        return 'No new posts on your topics.';
+      }
+      return entries.map(entry => `${formatEntryLabel(entry)} ${entry.content}`).join('\n');
+    },
   };
 }
+
+function formatEntryLabel(entry: SwarmMemoryEntry): string {
+  return entry.topic ? `[${entry.category} · ${entry.topic}]` : `[${entry.category}]`;
+}
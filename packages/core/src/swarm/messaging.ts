@@ -0,0 +1,293 @@
+/**
+ * Swarm Messaging
+ *
+ * Question/answer exchange between running swarm assistants. A worker asks a
+ * sibling task (or the coordinator) a question and waits for the reply. The
+ * sibling sees the question the next time it uses a swarm tool and answers
+ * with swarm_reply. Questions to tasks that already finished, or that would
+ * deadlock two workers waiting on each other, go to the coordinator instead.
+ */
+
+import { generateId } from '@hasna/assistants-shared';
+import type { SwarmTimelineEntry } from './types';
+
+/** Participant ID of the coordinator */
+export const SWARM_COORDINATOR_ID = 'coordinator';
+
+/**
+ * Status of a question
+ */
+export type SwarmQuestionStatus = 'pending' | 'answered' | 'unanswered';
+
+/**
+ * A question from one swarm participant to another
+ */
+export interface SwarmQuestion {
+  /** Question ID */
+  id: string;
+  /** Asking task ID */
+  from: string;
+  /** Addressed task ID (or "coordinator") */
+  to: string;
+  /** Question text */
+  question: string;
+  /** Current status */
+  status: SwarmQuestionStatus;
+  /** Answer text (answered) or the reason there is none (unanswered) */
+  answer?: string;
+  /** Who answered (may differ from `to` when the coordinator stepped in) */
+  answeredBy?: string;
+  /** Whether the addressee has been shown the question */
+  delivered: boolean;
+  /** Ask timestamp */
+  askedAt: number;
+  /** Answer timestamp */
+  answeredAt?: number;
+}
+
+/**
+ * Answers questions on behalf of the coordinator
+ */
+export type SwarmQuestionAnswerer = (question: SwarmQuestion, timeoutMs: number) => Promise<string>;
+
+/**
+ * Timeline listener
+ */
+export type SwarmMessageListener = (entry: SwarmTimelineEntry) => void;
+
+interface PendingQuestion {
+  question: SwarmQuestion;
+  resolve: (question: SwarmQuestion) => void;
+  timer: ReturnType<typeof setTimeout>;
+  deadline: number;
+}
+
+/**
+ * Message bus for one swarm run
+ */
+export class SwarmMessageBus {
+  private participants: Set<string> = new Set();
+  private departed: Set<string> = new Set();
+  private questions: Map<string, SwarmQuestion> = new Map();
+  private pending: Map<string, PendingQuestion> = new Map();
+  private listeners: Set<SwarmMessageListener> = new Set();
+  private answerAsCoordinator: SwarmQuestionAnswerer | null;
+  private defaultTimeoutMs: number;
+
+  constructor(options: { timeoutMs: number; answerAsCoordinator?: SwarmQuestionAnswerer }) {
+    this.defaultTimeoutMs = options.timeoutMs;
+    this.answerAsCoordinator = options.answerAsCoordinator ?? null;
+  }
+
+  /**
+   * Listen for questions and answers
+   */
+  onMessage(listener: SwarmMessageListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Register a running task
+   */
+  join(participantId: string): void {
+    this.participants.add(participantId);
+    this.departed.delete(participantId);
+  }
+
+  /**
+   * Unregister a task that stopped running. Questions it never answered are
+   * handed to the coordinator.
+   */
+  leave(participantId: string): void {
+    if (!this.participants.delete(participantId)) return;
+    this.departed.add(participantId);
+    for (const entry of Array.from(this.pending.values())) {
+      if (entry.question.to === participantId) {
+        void this.escalate(entry, `${participantId} finished without answering`);
+      }
+    }
+  }
+
+  /**
+   * Running tasks
+   */
+  getParticipants(): string[] {
+    return Array.from(this.participants);
+  }
+
+  /**
+   * Ask a question and wait for the answer. Resolves with status
+   * `unanswered` when nobody answers in time.
+   */
+  async ask(params: { from: string; to: string; question: string; timeoutMs?: number }): Promise<SwarmQuestion> {
+    if (!params.question.trim()) {
+      throw new Error('Question is empty');
+    }
+    const to = this.resolveParticipant(params.to.trim());
+    if (!to) {
+      const running = this.getParticipants().filter(id => id !== params.from);
+      throw new Error(
+        `Unknown task "${params.to}". Ask "${SWARM_COORDINATOR_ID}"${running.length > 0 ? ` or a running task: ${running.join(', ')}` : ''}`
+      );
+    }
+    if (to === params.from) {
+      throw new Error('Cannot ask yourself');
+    }
+
+    const timeoutMs = params.timeoutMs && params.timeoutMs > 0 ? params.timeoutMs : this.defaultTimeoutMs;
+    const question: SwarmQuestion = {
+      id: generateId(),
+      from: params.from,
+      to,
+      question: params.question.trim(),
+      status: 'pending',
+      delivered: false,
+      askedAt: Date.now(),
+    };
+    this.questions.set(question.id, question);
+    this.record({ kind: 'question', from: question.from, to, content: question.question, questionId: question.id });
+
+    return new Promise<SwarmQuestion>((resolve) => {
+      const entry: PendingQuestion = {
+        question,
+        resolve,
+        deadline: question.askedAt + timeoutMs,
+        timer: setTimeout(() => {
+          this.settle(entry, 'unanswered', `No answer within ${Math.round(timeoutMs / 1000)}s`);
+        }, timeoutMs),
+      };
+      this.pending.set(question.id, entry);
+
+      if (to === SWARM_COORDINATOR_ID) {
+        void this.escalate(entry);
+      } else if (!this.participants.has(to)) {
+        void this.escalate(entry, `${to} is not running`);
+      } else if (this.isWaitingOn(to, params.from)) {
+        // Both sides would wait on each other until the timeout
+        void this.escalate(entry, `${to} is waiting on ${params.from}`);
+      }
+    });
+  }
+
+  /**
+   * Undelivered questions addressed to a participant; marks them delivered
+   */
+  takeQuestions(participantId: string): SwarmQuestion[] {
+    const questions: SwarmQuestion[] = [];
+    for (const entry of this.pending.values()) {
+      if (entry.question.to === participantId && !entry.question.delivered) {
+        entry.question.delivered = true;
+        questions.push(entry.question);
+      }
+    }
+    return questions;
+  }
+
+  /**
+   * Answer a pending question addressed to `from`
+   */
+  reply(questionId: string, from: string, answer: string): SwarmQuestion {
+    const question = this.questions.get(questionId) ?? this.findByPrefix(questionId);
+    if (!question) {
+      throw new Error(`Question not found: ${questionId}`);
+    }
+    if (question.to !== from) {
+      throw new Error(`Question ${question.id} was not addressed to you`);
+    }
+    const entry = this.pending.get(question.id);
+    if (!entry) {
+      throw new Error(`Question ${question.id} was already closed (${question.status})`);
+    }
+    this.settle(entry, 'answered', answer.trim(), from);
+    return question;
+  }
+
+  /**
+   * All questions asked so far
+   */
+  list(): SwarmQuestion[] {
+    return Array.from(this.questions.values());
+  }
+
+  /**
+   * Close every pending question (swarm finished or stopped)
+   */
+  close(reason: string = 'Swarm finished'): void {
+    for (const entry of Array.from(this.pending.values())) {
+      this.settle(entry, 'unanswered', reason);
+    }
+    this.participants.clear();
+  }
+
+  /**
+   * Full participant ID for an ID or unique ID prefix
+   */
+  private resolveParticipant(id: string): string | null {
+    if (id === SWARM_COORDINATOR_ID) return id;
+    const known = [...this.participants, ...this.departed];
+    if (known.includes(id)) return id;
+    const matches = id ? known.filter(candidate => candidate.startsWith(id)) : [];
+    return matches.length === 1 ? matches[0] : null;
+  }
+
+  private isWaitingOn(waiter: string, target: string): boolean {
+    for (const entry of this.pending.values()) {
+      if (entry.question.from === waiter && entry.question.to === target) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private findByPrefix(prefix: string): SwarmQuestion | undefined {
+    const matches = Array.from(this.questions.values()).filter(question => question.id.startsWith(prefix));
+    return matches.length === 1 ? matches[0] : undefined;
+  }
+
+  /**
+   * Let the coordinator answer a question
+   */
+  private async escalate(entry: PendingQuestion, reason?: string): Promise<void> {
+    if (!this.answerAsCoordinator) {
+      this.settle(entry, 'unanswered', reason ? `${reason}; no coordinator available` : 'No coordinator available');
+      return;
+    }
+    try {
+      const answer = await this.answerAsCoordinator(entry.question, Math.max(entry.deadline - Date.now(), 1));
+      this.settle(entry, 'answered', answer.trim(), SWARM_COORDINATOR_ID);
+    } catch (error) {
+      this.settle(entry, 'unanswered', error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private settle(entry: PendingQuestion, status: SwarmQuestionStatus, answer: string, answeredBy?: string): void {
+    if (!this.pending.delete(entry.question.id)) return;
+    clearTimeout(entry.timer);
+
+    const question = entry.question;
+    question.status = status;
+    question.answer = answer;
+    question.answeredBy = answeredBy;
+    question.answeredAt = Date.now();
+    this.record({
+      kind: status === 'answered' ? 'answer' : 'unanswered',
+      from: answeredBy ?? SWARM_COORDINATOR_ID,
+      to: question.from,
+      content: answer,
+      questionId: question.id,
+    });
+    entry.resolve(question);
+  }
+
+  private record(entry: Omit<SwarmTimelineEntry, 'id' | 'timestamp'>): void {
+    const timelineEntry: SwarmTimelineEntry = { id: generateId(), timestamp: Date.now(), ...entry };
+    for (const listener of this.listeners) {
+      try {
+        listener(timelineEntry);
+      } catch {
+        // Ignore listener errors
+      }
+    }
+  }
+}
@@ -9,6 +9,7 @@ import type { SwarmTask, SwarmResult, SwarmPlan, SwarmMetrics } from './types';
 import type { AggregatedResult, AggregationMetadata } from './aggregator';
 import type { CriticReview, CriticIssue, FollowUpAction } from './critic';
 import type { SubassistantResult } from '../agent/subagent-manager';
+import { formatSwarmChangeSummary, type SwarmChangeSummary } from './worktrees';
 
 /**
  * Artifact type
@@ -114,8 +115,10 @@ export interface PostbackStructuredData {
   taskOutcomes: TaskOutcome[];
   /** Artifacts */
   artifacts: SwarmArtifact[];
-  /** Issues (from critic) */
+  /** Issues (from critic and from merging worker changes) */
   issues: CriticIssue[];
+  /** Combined worker changes (worktree isolation) */
+  changes?: SwarmChangeSummary;
   /** Follow-up actions */
   followUps: FollowUpAction[];
   /** Metrics */
@@ -142,6 +145,8 @@ export interface PostbackConfig {
   includeIssues: boolean;
   /** Include follow-ups */
   includeFollowUps: boolean;
+  /** Include the combined diff summary */
+  includeChanges: boolean;
   /** Maximum content length */
   maxContentLength: number;
   /** Maximum artifacts */
@@ -168,6 +173,7 @@ export const DEFAULT_POSTBACK_CONFIG: PostbackConfig = {
   includeMetrics: true,
   includeIssues: true,
   includeFollowUps: true,
+  includeChanges: true,
   maxContentLength: 10000,
   maxArtifacts: 20,
   truncateResults: true,
@@ -223,7 +229,8 @@ export class SwarmPostback {
       qualityScore: criticReview?.qualityScore ?? (result.success ? 0.8 : 0.3),
       taskOutcomes,
       artifacts: artifacts.slice(0, this.config.maxArtifacts),
-      issues: criticReview?.issues || [],
+      issues: [...(criticReview?.issues || []), ...(result.changes?.issues || [])],
+      changes: result.changes,
       followUps: criticReview?.followUps || [],
       metrics: result.metrics,
       metadata: aggregatedResult?.metadata || this.createDefaultMetadata(result),
@@ -316,6 +323,13 @@ export class SwarmPostback {
       parts.push('');
     }
 
+    // Combined diff
+    if (this.config.includeChanges && data.changes) {
+      parts.push('### Changes');
+      parts.push(formatSwarmChangeSummary(data.changes, (id) => this.describeTask(data, id)));
+      parts.push('');
+    }
+
     // Issues
     if (this.config.includeIssues && data.issues.length > 0) {
       parts.push('### Issues Found');
@@ -378,6 +392,12 @@ export class SwarmPostback {
       parts.push('');
     }
 
+    if (this.config.includeChanges && data.changes) {
+      parts.push('CHANGES:');
+      parts.push(formatSwarmChangeSummary(data.changes, (id) => this.describeTask(data, id)));
+      parts.push('');
+    }
+
     if (this.config.includeIssues && data.issues.length > 0) {
       parts.push('ISSUES:');
       for (const issue of data.issues) {
@@ -541,10 +561,14 @@ export class SwarmPostback {
     if (taskStatus === 'completed' && result?.success) return 'completed';
     if (taskStatus === 'completed' && !result?.success) return 'partial';
     if (taskStatus === 'failed') return 'failed';
-    if (taskStatus === 'blocked' || taskStatus === 'cancelled') return 'skipped';
+    if (taskStatus === 'blocked' || taskStatus === 'cancelled' || taskStatus === 'skipped') return 'skipped';
     return 'partial';
   }
 
+  private describeTask(data: PostbackStructuredData, taskId: string): string {
+    return data.taskOutcomes.find(outcome => outcome.taskId === taskId)?.description ?? taskId;
+  }
+
   /**
    * Generate summary text
    */
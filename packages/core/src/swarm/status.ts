@@ -5,7 +5,7 @@
  * Supports terminal and web display with real-time updates.
  */
 
-import type { SwarmState, SwarmTask, SwarmMetrics, SwarmStatus } from './types';
+import type { SwarmState, SwarmTask, SwarmMetrics, SwarmStatus, SwarmTimelineEntry } from './types';
 import type { DispatchTask, DispatcherStats } from './dispatcher';
 
 /**
@@ -97,6 +97,8 @@ export interface SwarmStatusSummary {
   errors: string[];
   /** Warnings */
   warnings: string[];
+  /** Blackboard posts and questions exchanged between assistants */
+  timeline: SwarmTimelineEntry[];
   /** Last update */
   updatedAt: number;
 }
@@ -139,7 +141,7 @@ export interface TaskDetail {
  * Status update event
  */
 export interface StatusUpdateEvent {
-  type: 'task_update' | 'phase_change' | 'assistant_update' | 'progress' | 'error' | 'complete';
+  type: 'task_update' | 'phase_change' | 'assistant_update' | 'progress' | 'message' | 'error' | 'complete';
   swarmId: string;
   data: unknown;
   timestamp: number;
@@ -162,6 +164,8 @@ export interface StatusProviderConfig {
   trackTaskProgress: boolean;
   /** Estimate remaining time */
   estimateRemaining: boolean;
+  /** Keep timeline entry count */
+  maxTimelineEntries: number;
 }
 
 /**
@@ -172,6 +176,7 @@ export const DEFAULT_STATUS_CONFIG: StatusProviderConfig = {
   maxLogEntries: 100,
   trackTaskProgress: true,
   estimateRemaining: true,
+  maxTimelineEntries: 200,
 };
 
 /**
@@ -187,6 +192,7 @@ export class SwarmStatusProvider {
   private tasks: Map<string, SwarmTaskDisplayStatus> = new Map();
   private assistants: Map<string, SwarmAssistantStatus> = new Map();
   private logs: Map<string, TaskLogEntry[]> = new Map();
+  private timeline: SwarmTimelineEntry[] = [];
   private listeners: Set<StatusUpdateListener> = new Set();
   private startTime: number = 0;
   private completedTimes: number[] = [];
@@ -249,6 +255,13 @@ export class SwarmStatusProvider {
       }
     }
 
+    const known = new Set(this.timeline.map(entry => entry.id));
+    for (const entry of state.timeline ?? []) {
+      if (!known.has(entry.id)) {
+        this.addTimelineEntry(entry);
+      }
+    }
+
     this.emit('progress', this.getProgress());
   }
 
@@ -322,6 +335,59 @@ export class SwarmStatusProvider {
     }
   }
 
+  /**
+   * Record a blackboard post, question or answer. Questions and answers are
+   * also logged on the tasks involved.
+   */
+  addTimelineEntry(entry: SwarmTimelineEntry): void {
+    this.timeline.push(entry);
+    while (this.timeline.length > this.config.maxTimelineEntries) {
+      this.timeline.shift();
+    }
+
+    if (entry.kind !== 'post') {
+      const message = this.formatTimelineEntry(entry);
+      const level = entry.kind === 'unanswered' ? 'warn' : 'info';
+      for (const taskId of new Set([entry.from, entry.to])) {
+        if (taskId && this.tasks.has(taskId)) {
+          this.addLog(taskId, level, message, { questionId: entry.questionId });
+        }
+      }
+    }
+
+    this.emit('message', entry);
+  }
+
+  /**
+   * Timeline entries, oldest first. With a question ID, only that exchange.
+   */
+  getTimeline(questionId?: string): SwarmTimelineEntry[] {
+    return questionId
+      ? this.timeline.filter(entry => entry.questionId === questionId)
+      : [...this.timeline];
+  }
+
+  /**
+   * One-line description of a timeline entry
+   */
+  formatTimelineEntry(entry: SwarmTimelineEntry): string {
+    const from = this.describeParticipant(entry.from);
+    const to = entry.to ? this.describeParticipant(entry.to) : '';
+    const content = entry.content.replace(/\s+/g, ' ').trim();
+    switch (entry.kind) {
+      case 'post':
+        return `📌 ${from} on ${entry.topic ?? 'blackboard'}: ${content}`;
+      case 'question':
+        return `❓ ${from} → ${to}: ${content}`;
+      case 'answer':
+        return `💬 ${from} → ${to}: ${content}`;
+      case 'unanswered':
+        return `⌛ ${to} got no answer: ${content}`;
+      default:
+        return content;
+    }
+  }
+
   /**
    * Get current status summary
    */
@@ -345,6 +411,7 @@ export class SwarmStatusProvider {
         : undefined,
       errors: this.state?.errors || [],
       warnings: [],
+      timeline: [...this.timeline],
       updatedAt: Date.now(),
     };
   }
@@ -452,6 +519,16 @@ export class SwarmStatusProvider {
       lines.push(`Time: ${elapsed}`);
     }
 
+    // Recent collaboration
+    if (summary.timeline.length > 0) {
+      lines.push('');
+      lines.push('Timeline:');
+      for (const entry of summary.timeline.slice(-5)) {
+        const line = this.formatTimelineEntry(entry);
+        lines.push(`  ${line.length > 100 ? `${line.slice(0, 97)}...` : line}`);
+      }
+    }
+
     // Errors
     if (summary.errors.length > 0) {
       lines.push('');
@@ -475,6 +552,14 @@ export class SwarmStatusProvider {
   // Private Methods
   // ============================================
 
+  /**
+   * Short label for a task ID (or "coordinator")
+   */
+  private describeParticipant(id: string): string {
+    const task = this.tasks.get(id);
+    return task ? task.description.slice(0, 30) : id.length > 12 ? id.slice(0, 8) : id;
+  }
+
   /**
    * Map task status
    */
@@ -495,6 +580,7 @@ export class SwarmStatusProvider {
         return 'failed';
       case 'cancelled':
       case 'blocked':
+      case 'skipped':
         return 'cancelled';
       default:
         return 'pending';
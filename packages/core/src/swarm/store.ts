@@ -0,0 +1,208 @@
+/**
+ * Swarm Run Store
+ *
+ * Persists swarm runs (plan, task statuses, outputs and shared memory) so a
+ * run interrupted by a crash or Ctrl-C can be resumed with `/swarm resume`.
+ */
+
+import { join } from 'path';
+import { existsSync, mkdirSync, readdirSync, readFileSync, unlinkSync } from 'fs';
+import { getConfigDir } from '../config';
+import { atomicWriteFileSync } from '../utils/atomic-write';
+import type { SubassistantResult } from '../agent/subagent-manager';
+import type { SwarmConfig, SwarmMetrics, SwarmPlan, SwarmStatus, SwarmTimelineEntry } from './types';
+import type { SwarmMemoryEntry } from './memory';
+import type { SwarmWorkflow } from './workflows';
+
+/** Format version of persisted runs */
+export const SWARM_RUN_VERSION = 1;
+
+/** Statuses a run can no longer leave */
+const TERMINAL_STATUSES: SwarmStatus[] = ['completed', 'failed', 'cancelled'];
+
+const SAFE_ID_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+/**
+ * A swarm run as stored on disk
+ */
+export interface PersistedSwarmRun {
+  version: number;
+  id: string;
+  sessionId: string;
+  cwd: string;
+  goal: string;
+  context?: string;
+  status: SwarmStatus;
+  plan: SwarmPlan | null;
+  taskResults: Record<string, SubassistantResult>;
+  errors: string[];
+  metrics: SwarmMetrics;
+  config: SwarmConfig;
+  /** Shared memory entries (when shared memory is enabled) */
+  memory?: SwarmMemoryEntry[];
+  /** Blackboard posts and messages exchanged during the run */
+  timeline?: SwarmTimelineEntry[];
+  finalResult?: string;
+  unresolvedIssues?: string[];
+  startedAt: number;
+  endedAt?: number;
+  updatedAt: number;
+  /** Process that last wrote the run; used to tell a live run from a crashed one */
+  pid: number;
+  /** Number of times the run was resumed */
+  resumeCount: number;
+  /** Workflow the run executes (absent for planner-driven runs) */
+  workflow?: { definition: SwarmWorkflow; inputs: Record<string, string> };
+}
+
+/**
+ * Lightweight run info for listings
+ */
+export interface SwarmRunSummary {
+  id: string;
+  sessionId: string;
+  cwd: string;
+  goal: string;
+  /** Workflow name for workflow runs */
+  workflow?: string;
+  status: SwarmStatus;
+  totalTasks: number;
+  completedTasks: number;
+  failedTasks: number;
+  startedAt: number;
+  updatedAt: number;
+  /** Process died while the run was still in progress */
+  interrupted: boolean;
+  /** The run did not complete and can be resumed */
+  resumable: boolean;
+}
+
+function isProcessAlive(pid: number): boolean {
+  if (!Number.isInteger(pid) || pid <= 0) return false;
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Whether a run was left in progress by a process that is gone
+ */
+export function isSwarmRunInterrupted(run: Pick<PersistedSwarmRun, 'status' | 'pid'>): boolean {
+  if (TERMINAL_STATUSES.includes(run.status)) return false;
+  return run.pid !== process.pid && !isProcessAlive(run.pid);
+}
+
+/**
+ * Summarize a run for listings
+ */
+export function summarizeSwarmRun(run: PersistedSwarmRun): SwarmRunSummary {
+  const tasks = run.plan?.tasks ?? [];
+  const interrupted = isSwarmRunInterrupted(run);
+  return {
+    id: run.id,
+    sessionId: run.sessionId,
+    cwd: run.cwd,
+    goal: run.goal,
+    workflow: run.workflow?.definition.name,
+    status: run.status,
+    totalTasks: tasks.length,
+    completedTasks: tasks.filter((task) => task.status === 'completed').length,
+    failedTasks: tasks.filter((task) => task.status === 'failed').length,
+    startedAt: run.startedAt,
+    updatedAt: run.updatedAt,
+    interrupted,
+    resumable: run.status === 'failed' || run.status === 'cancelled' || interrupted,
+  };
+}
+
+/**
+ * File-backed store of swarm runs (`<config>/swarm/runs/<id>.json`)
+ */
+export class SwarmRunStore {
+  private dir: string;
+
+  constructor(dir?: string) {
+    this.dir = dir || join(getConfigDir(), 'swarm', 'runs');
+  }
+
+  getDir(): string {
+    return this.dir;
+  }
+
+  private pathFor(id: string): string {
+    if (!SAFE_ID_PATTERN.test(id)) {
+      throw new Error(`Invalid swarm run id: ${id}`);
+    }
+    return join(this.dir, `${id}.json`);
+  }
+
+  /**
+   * Write a run (atomic)
+   */
+  save(run: PersistedSwarmRun): void {
+    mkdirSync(this.dir, { recursive: true });
+    atomicWriteFileSync(this.pathFor(run.id), JSON.stringify(run, null, 2));
+  }
+
+  /**
+   * Load a run by ID
+   */
+  load(id: string): PersistedSwarmRun | null {
+    try {
+      const path = this.pathFor(id);
+      if (!existsSync(path)) return null;
+      const run = JSON.parse(readFileSync(path, 'utf-8')) as PersistedSwarmRun;
+      return run && run.id === id && typeof run.goal === 'string' ? run : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Resolve a run by full ID or unique ID prefix
+   */
+  resolve(ref: string): PersistedSwarmRun | null {
+    const trimmed = ref.trim();
+    if (!trimmed) return null;
+    const exact = SAFE_ID_PATTERN.test(trimmed) ? this.load(trimmed) : null;
+    if (exact) return exact;
+    const matches = this.listIds().filter((id) => id.startsWith(trimmed));
+    return matches.length === 1 ? this.load(matches[0]) : null;
+  }
+
+  delete(id: string): boolean {
+    try {
+      unlinkSync(this.pathFor(id));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private listIds(): string[] {
+    if (!existsSync(this.dir)) return [];
+    return readdirSync(this.dir)
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => file.slice(0, -'.json'.length));
+  }
+
+  /**
+   * List runs, most recently updated first
+   */
+  list(filter?: { cwd?: string; resumableOnly?: boolean }): SwarmRunSummary[] {
+    const summaries: SwarmRunSummary[] = [];
+    for (const id of this.listIds()) {
+      const run = this.load(id);
+      if (!run) continue;
+      if (filter?.cwd && run.cwd !== filter.cwd) continue;
+      const summary = summarizeSwarmRun(run);
+      if (filter?.resumableOnly && !summary.resumable) continue;
+      summaries.push(summary);
+    }
+    return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+}
@@ -372,6 +372,7 @@ export class TaskGraph {
       failed: 0,
       blocked: 0,
       assigned: 0,
+      skipped: 0,
       cancelled: 0,
     };
 
@@ -7,6 +7,7 @@
  */
 
 import type { SubassistantResult } from '../agent/subagent-manager';
+import type { SwarmChangeSummary } from './worktrees';
 
 /**
  * Role type for specialized swarm assistants
@@ -23,6 +24,7 @@ export type SwarmTaskStatus =
   | 'completed'     // Successfully completed
   | 'failed'        // Failed with error
   | 'blocked'       // Blocked by dependencies
+  | 'skipped'       // Skipped by a workflow condition
   | 'cancelled';    // Cancelled by coordinator
 
 /**
@@ -57,10 +59,19 @@ export interface SwarmTask {
   output?: unknown;
   /** Required tools for this task */
   requiredTools?: string[];
+  /** Model override for the assistant running this task */
+  model?: string;
   /** Custom metadata */
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * Where workers edit files
+ */
+export type SwarmIsolationMode =
+  | 'shared'        // All workers share the working directory
+  | 'worktree';     // Each task gets its own git worktree and branch
+
 /**
  * Overall swarm execution status
  */
@@ -122,6 +133,37 @@ export interface SwarmState {
   metrics: SwarmMetrics;
   /** Unresolved issues from critic review (if any) */
   unresolvedIssues?: string[];
+  /** Worker changes merged back from worktrees (worktree isolation) */
+  changes?: SwarmChangeSummary;
+  /** Blackboard posts and questions exchanged between assistants */
+  timeline: SwarmTimelineEntry[];
+}
+
+/**
+ * Kind of a timeline entry
+ */
+export type SwarmTimelineKind = 'post' | 'question' | 'answer' | 'unanswered';
+
+/**
+ * A blackboard post or a message exchanged while the swarm runs
+ */
+export interface SwarmTimelineEntry {
+  /** Entry ID */
+  id: string;
+  /** Entry kind */
+  kind: SwarmTimelineKind;
+  /** Sender (task ID or "coordinator") */
+  from: string;
+  /** Recipient (questions and answers) */
+  to?: string;
+  /** Blackboard topic (posts) */
+  topic?: string;
+  /** Post, question or answer text */
+  content: string;
+  /** Question the entry belongs to (questions and answers) */
+  questionId?: string;
+  /** Timestamp */
+  timestamp: number;
 }
 
 /**
@@ -180,6 +222,12 @@ export interface SwarmConfig {
   tokenBudget: number;
   /** Enable shared memory between assistants */
   enableSharedMemory: boolean;
+  /** Worker isolation (default: shared) */
+  isolation: SwarmIsolationMode;
+  /** Let workers ask running siblings or the coordinator questions (swarm_ask) */
+  enableMessaging: boolean;
+  /** How long swarm_ask waits for an answer by default, in ms (default: 45000) */
+  askTimeoutMs: number;
 }
 
 /**
@@ -201,6 +249,9 @@ export const DEFAULT_SWARM_CONFIG: SwarmConfig = {
   forbiddenTools: ['assistant_spawn', 'wallet_get', 'secrets_get', 'schedule_create'],
   tokenBudget: 0,
   enableSharedMemory: false,
+  isolation: 'shared',
+  enableMessaging: true,
+  askTimeoutMs: 45_000,
 };
 
 /**
@@ -213,6 +264,8 @@ export type SwarmEventType =
   | 'swarm:task_started'
   | 'swarm:task_completed'
   | 'swarm:task_failed'
+  | 'swarm:task_skipped'
+  | 'swarm:message'
   | 'swarm:review_started'
   | 'swarm:review_completed'
   | 'swarm:completed'
@@ -263,6 +316,10 @@ export interface SerializableSwarmState {
   metrics: SwarmMetrics;
   /** Unresolved issues from critic review (if any) */
   unresolvedIssues?: string[];
+  /** Worker changes merged back from worktrees (worktree isolation) */
+  changes?: SwarmChangeSummary;
+  /** Blackboard posts and questions exchanged between assistants */
+  timeline: SwarmTimelineEntry[];
 }
 
 /**
@@ -282,6 +339,8 @@ export function serializeSwarmState(state: SwarmState): SerializableSwarmState {
     finalResult: state.finalResult,
     metrics: state.metrics,
     unresolvedIssues: state.unresolvedIssues,
+    changes: state.changes,
+    timeline: state.timeline,
   };
 }
 
@@ -301,6 +360,8 @@ export interface SwarmResult {
   metrics: SwarmMetrics;
   /** Execution time in ms */
   durationMs: number;
+  /** Worker changes merged back from worktrees (worktree isolation) */
+  changes?: SwarmChangeSummary;
 }
 
 /**
@@ -0,0 +1,745 @@
+/**
+ * Swarm Workflows
+ *
+ * Declarative swarm templates: a fixed graph of named steps replaces the LLM
+ * planner for repeatable processes (e.g. triage → reproduce → fix → review).
+ *
+ * Workflows are YAML or JSON files in `<project>/.assistants/workflows/` or
+ * `<config>/workflows/`; project workflows override global ones of the same
+ * name. Steps support per-step roles, tools and models, prompt templating
+ * from inputs and earlier step outputs (`{{inputs.issue}}`,
+ * `{{steps.triage.output}}`, `{{steps.triage.json.severity}}`), conditional
+ * execution (`when`) and fan-out over lists (`foreach`, with `{{item}}`).
+ */
+
+import { join, basename, extname } from 'path';
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { generateId } from '@hasna/assistants-shared';
+import type { SubassistantResult } from '../agent/subagent-manager';
+import { getConfigDir, getProjectConfigDir } from '../config';
+import { parseYaml } from '../utils/yaml';
+import type { SwarmConfig, SwarmPlan, SwarmRole, SwarmTask } from './types';
+
+// ============================================
+// Types
+// ============================================
+
+export type SwarmWorkflowSource = 'project' | 'global';
+
+/**
+ * A declared workflow input
+ */
+export interface SwarmWorkflowInput {
+  description?: string;
+  /** Inputs without a default are required unless `required: false` */
+  required: boolean;
+  default?: string;
+}
+
+/**
+ * A step in a workflow
+ */
+export interface SwarmWorkflowStep {
+  /** Step identifier, used in `needs` and `{{steps.<id>...}}` references */
+  id: string;
+  /** Display name (defaults to the id) */
+  name?: string;
+  role: SwarmRole;
+  /** Prompt template */
+  prompt: string;
+  /** Steps that must finish first */
+  needs: string[];
+  /** Tools for this step (defaults to the swarm's worker tools) */
+  tools?: string[];
+  /** Model override for this step */
+  model?: string;
+  /** Condition; the step is skipped when it evaluates to false */
+  when?: string;
+  /** Expression resolving to a list; the step runs once per item */
+  foreach?: string;
+  priority: number;
+}
+
+/**
+ * A loaded workflow definition
+ */
+export interface SwarmWorkflow {
+  name: string;
+  description?: string;
+  inputs: Record<string, SwarmWorkflowInput>;
+  steps: SwarmWorkflowStep[];
+  /** Swarm config overrides for runs of this workflow */
+  config?: Partial<SwarmConfig>;
+  source: SwarmWorkflowSource;
+  path: string;
+}
+
+/**
+ * A workflow file that failed to load
+ */
+export interface SwarmWorkflowLoadError {
+  path: string;
+  error: string;
+}
+
+/**
+ * What the coordinator should do with a ready workflow task
+ */
+export type SwarmWorkflowTaskAction =
+  | { type: 'run' }
+  | { type: 'skip'; reason: string }
+  | { type: 'expand'; items: unknown[] };
+
+/**
+ * Values visible to templates and conditions
+ */
+export interface SwarmWorkflowScope {
+  inputs: Record<string, string>;
+  steps: Record<string, {
+    status: 'pending' | 'completed' | 'failed' | 'skipped';
+    output: string;
+    /** Outputs of each item for fan-out steps */
+    outputs: string[];
+    /** Output parsed as JSON (an array for fan-out steps) */
+    json: unknown;
+  }>;
+  item?: unknown;
+  index?: number;
+}
+
+const WORKFLOW_EXTENSIONS = ['.yaml', '.yml', '.json'];
+const WORKFLOW_NAME_PATTERN = /^[a-zA-Z0-9][\w.-]*$/;
+const STEP_ID_PATTERN = /^[a-zA-Z_][\w-]*$/;
+const ROLES: SwarmRole[] = ['worker', 'critic', 'planner', 'aggregator'];
+const TEMPLATE_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+/** Swarm config keys a workflow file may override */
+const WORKFLOW_CONFIG_KEYS = [
+  'maxConcurrent',
+  'taskTimeoutMs',
+  'swarmTimeoutMs',
+  'enableCritic',
+  'maxCriticIterations',
+  'tokenBudget',
+  'enableSharedMemory',
+  'workerTools',
+  'isolation',
+] as const;
+
+// ============================================
+// Parsing & Validation
+// ============================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toStringList(value: unknown, field: string): string[] {
+  if (value === undefined || value === null) return [];
+  if (typeof value === 'string') return value.split(',').map((item) => item.trim()).filter(Boolean);
+  if (Array.isArray(value) && value.every((item) => typeof item === 'string')) {
+    return (value as string[]).map((item) => item.trim()).filter(Boolean);
+  }
+  throw new Error(`${field} must be a list of strings`);
+}
+
+function optionalString(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    const text = String(value).trim();
+    return text || undefined;
+  }
+  throw new Error(`${field} must be a string`);
+}
+
+function parseInputs(value: unknown): Record<string, SwarmWorkflowInput> {
+  const inputs: Record<string, SwarmWorkflowInput> = {};
+  if (value === undefined || value === null) return inputs;
+
+  if (Array.isArray(value)) {
+    for (const name of toStringList(value, 'inputs')) {
+      inputs[name] = { required: true };
+    }
+    return inputs;
+  }
+  if (!isRecord(value)) {
+    throw new Error('inputs must be a mapping or a list of names');
+  }
+
+  for (const [name, spec] of Object.entries(value)) {
+    if (!STEP_ID_PATTERN.test(name)) {
+      throw new Error(`Invalid input name "${name}"`);
+    }
+    if (spec === null || typeof spec === 'string') {
+      inputs[name] = { description: spec ?? undefined, required: true };
+      continue;
+    }
+    if (!isRecord(spec)) {
+      throw new Error(`Input "${name}" must be a description or a mapping`);
+    }
+    const defaultValue = optionalString(spec.default, `inputs.${name}.default`);
+    inputs[name] = {
+      description: optionalString(spec.description, `inputs.${name}.description`),
+      required: typeof spec.required === 'boolean' ? spec.required : defaultValue === undefined,
+      default: defaultValue,
+    };
+  }
+  return inputs;
+}
+
+function parseStep(value: unknown, index: number): SwarmWorkflowStep {
+  if (!isRecord(value)) {
+    throw new Error(`Step ${index + 1} must be a mapping`);
+  }
+  const id = optionalString(value.id, `steps[${index}].id`);
+  if (!id || !STEP_ID_PATTERN.test(id)) {
+    throw new Error(`Step ${index + 1} needs an id of letters, digits, "_" or "-"`);
+  }
+  const prompt = typeof value.prompt === 'string' ? value.prompt.trim() : '';
+  if (!prompt) {
+    throw new Error(`Step "${id}" has no prompt`);
+  }
+  const role = (optionalString(value.role, `${id}.role`) ?? 'worker') as SwarmRole;
+  if (!ROLES.includes(role)) {
+    throw new Error(`Step "${id}" has unknown role "${role}" (expected ${ROLES.join(', ')})`);
+  }
+  const priority = value.priority === undefined ? 3 : Number(value.priority);
+  if (!Number.isInteger(priority) || priority < 1 || priority > 5) {
+    throw new Error(`Step "${id}" priority must be 1-5`);
+  }
+
+  return {
+    id,
+    name: optionalString(value.name, `${id}.name`),
+    role,
+    prompt,
+    needs: toStringList(value.needs ?? value.dependsOn, `${id}.needs`),
+    tools: value.tools === undefined ? undefined : toStringList(value.tools, `${id}.tools`),
+    model: optionalString(value.model, `${id}.model`),
+    when: optionalString(value.when, `${id}.when`),
+    foreach: optionalString(value.foreach, `${id}.foreach`),
+    priority,
+  };
+}
+
+function parseConfig(value: unknown): Partial<SwarmConfig> | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!isRecord(value)) {
+    throw new Error('config must be a mapping');
+  }
+  const config: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    if (!(WORKFLOW_CONFIG_KEYS as readonly string[]).includes(key)) {
+      throw new Error(`Unsupported config key "${key}" (allowed: ${WORKFLOW_CONFIG_KEYS.join(', ')})`);
+    }
+    if (key === 'workerTools') {
+      config[key] = toStringList(entry, 'config.workerTools');
+    } else if (key === 'isolation') {
+      if (entry !== 'shared' && entry !== 'worktree') throw new Error('config.isolation must be "shared" or "worktree"');
+      config[key] = entry;
+    } else if (key === 'enableCritic' || key === 'enableSharedMemory') {
+      if (typeof entry !== 'boolean') throw new Error(`config.${key} must be true or false`);
+      config[key] = entry;
+    } else {
+      if (typeof entry !== 'number' || !Number.isFinite(entry) || entry < 0) {
+        throw new Error(`config.${key} must be a non-negative number`);
+      }
+      config[key] = entry;
+    }
+  }
+  return config as Partial<SwarmConfig>;
+}
+
+/**
+ * Template references (`steps.<id>`, `inputs.<name>`, `item`) in a string
+ */
+function collectReferences(text: string, options: { bare?: boolean } = {}): string[] {
+  const expressions: string[] = [];
+  for (const match of text.matchAll(TEMPLATE_PATTERN)) {
+    expressions.push(match[1]);
+  }
+  if (options.bare) {
+    expressions.push(text.replace(TEMPLATE_PATTERN, ' '));
+  }
+  const refs: string[] = [];
+  for (const expression of expressions) {
+    for (const match of expression.matchAll(/(?:^|[^\w.'"])((?:steps|inputs)\.[\w-]+|item|index)\b/g)) {
+      refs.push(match[1]);
+    }
+  }
+  return refs;
+}
+
+function validateWorkflow(workflow: SwarmWorkflow): void {
+  const steps = new Map<string, SwarmWorkflowStep>();
+  for (const step of workflow.steps) {
+    if (steps.has(step.id)) {
+      throw new Error(`Duplicate step id "${step.id}"`);
+    }
+    steps.set(step.id, step);
+  }
+  for (const step of workflow.steps) {
+    for (const dep of step.needs) {
+      if (!steps.has(dep)) throw new Error(`Step "${step.id}" needs unknown step "${dep}"`);
+      if (dep === step.id) throw new Error(`Step "${step.id}" needs itself`);
+    }
+  }
+
+  // Cycle check and transitive dependencies (for reference validation)
+  const ancestors = new Map<string, Set<string>>();
+  const visiting = new Set<string>();
+  const visit = (id: string): Set<string> => {
+    const known = ancestors.get(id);
+    if (known) return known;
+    if (visiting.has(id)) throw new Error(`Dependency cycle involving step "${id}"`);
+    visiting.add(id);
+    const result = new Set<string>();
+    for (const dep of steps.get(id)!.needs) {
+      result.add(dep);
+      for (const ancestor of visit(dep)) result.add(ancestor);
+    }
+    visiting.delete(id);
+    ancestors.set(id, result);
+    return result;
+  };
+
+  for (const step of workflow.steps) {
+    const available = visit(step.id);
+    const refs = [
+      ...collectReferences(step.prompt),
+      ...(step.when ? collectReferences(step.when, { bare: true }) : []),
+      ...(step.foreach ? collectReferences(step.foreach, { bare: true }) : []),
+    ];
+    for (const ref of refs) {
+      if (ref.startsWith('steps.')) {
+        const target = ref.slice('steps.'.length);
+        if (!available.has(target)) {
+          throw new Error(`Step "${step.id}" references steps.${target} without needing it`);
+        }
+      } else if (ref.startsWith('inputs.')) {
+        const name = ref.slice('inputs.'.length);
+        if (!workflow.inputs[name]) {
+          throw new Error(`Step "${step.id}" references undeclared input "${name}"`);
+        }
+      } else if (!step.foreach) {
+        throw new Error(`Step "${step.id}" uses {{${ref}}} but has no foreach`);
+      }
+    }
+    if (step.foreach && collectReferences(step.foreach, { bare: true }).some((ref) => ref === 'item' || ref === 'index')) {
+      throw new Error(`Step "${step.id}" foreach cannot reference item`);
+    }
+  }
+}
+
+/**
+ * Parse and validate a workflow file's content
+ */
+export function parseSwarmWorkflow(
+  content: string,
+  options: { path: string; source: SwarmWorkflowSource }
+): SwarmWorkflow {
+  const data = extname(options.path).toLowerCase() === '.json' ? JSON.parse(content) : parseYaml(content);
+  if (!isRecord(data)) {
+    throw new Error('Workflow must be a mapping with name and steps');
+  }
+
+  const name = optionalString(data.name, 'name') ?? basename(options.path, extname(options.path));
+  if (!WORKFLOW_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid workflow name "${name}"`);
+  }
+  if (!Array.isArray(data.steps) || data.steps.length === 0) {
+    throw new Error('Workflow has no steps');
+  }
+
+  const workflow: SwarmWorkflow = {
+    name,
+    description: optionalString(data.description, 'description'),
+    inputs: parseInputs(data.inputs),
+    steps: data.steps.map(parseStep),
+    config: parseConfig(data.config),
+    source: options.source,
+    path: options.path,
+  };
+  validateWorkflow(workflow);
+  return workflow;
+}
+
+// ============================================
+// Loading
+// ============================================
+
+/**
+ * Workflow directories in precedence order (project first)
+ */
+export function getSwarmWorkflowDirs(cwd: string): Array<{ dir: string; source: SwarmWorkflowSource }> {
+  return [
+    { dir: join(getProjectConfigDir(cwd), 'workflows'), source: 'project' },
+    { dir: join(getConfigDir(), 'workflows'), source: 'global' },
+  ];
+}
+
+/**
+ * Load all workflows. Project workflows override global ones of the same name.
+ */
+export function loadSwarmWorkflows(cwd: string): {
+  workflows: SwarmWorkflow[];
+  errors: SwarmWorkflowLoadError[];
+} {
+  const byName = new Map<string, SwarmWorkflow>();
+  const errors: SwarmWorkflowLoadError[] = [];
+
+  for (const { dir, source } of getSwarmWorkflowDirs(cwd)) {
+    if (!existsSync(dir)) continue;
+    let files: string[];
+    try {
+      files = readdirSync(dir).filter((file) => WORKFLOW_EXTENSIONS.includes(extname(file).toLowerCase())).sort();
+    } catch {
+      continue;
+    }
+    for (const file of files) {
+      const path = join(dir, file);
+      try {
+        const workflow = parseSwarmWorkflow(readFileSync(path, 'utf-8'), { path, source });
+        if (!byName.has(workflow.name)) {
+          byName.set(workflow.name, workflow);
+        }
+      } catch (error) {
+        errors.push({ path, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+
+  return {
+    workflows: Array.from(byName.values()).sort((a, b) => a.name.localeCompare(b.name)),
+    errors,
+  };
+}
+
+/**
+ * Find a workflow by name. Throws the load error when the matching file is invalid.
+ */
+export function findSwarmWorkflow(name: string, cwd: string): SwarmWorkflow | null {
+  const { workflows, errors } = loadSwarmWorkflows(cwd);
+  const workflow = workflows.find((candidate) => candidate.name === name);
+  if (workflow) return workflow;
+  const failed = errors.find((error) => basename(error.path, extname(error.path)) === name);
+  if (failed) {
+    throw new Error(`Workflow "${name}" is invalid (${failed.path}): ${failed.error}`);
+  }
+  return null;
+}
+
+/**
+ * Apply defaults and check required and unknown inputs
+ */
+export function resolveSwarmWorkflowInputs(
+  workflow: SwarmWorkflow,
+  provided: Record<string, string>
+): Record<string, string> {
+  const unknown = Object.keys(provided).filter((name) => !workflow.inputs[name]);
+  if (unknown.length > 0) {
+    throw new Error(`Unknown input(s) for workflow "${workflow.name}": ${unknown.join(', ')}`);
+  }
+  const inputs: Record<string, string> = {};
+  const missing: string[] = [];
+  for (const [name, spec] of Object.entries(workflow.inputs)) {
+    const value = provided[name] ?? spec.default;
+    if (value !== undefined) {
+      inputs[name] = value;
+    } else if (spec.required) {
+      missing.push(name);
+    } else {
+      inputs[name] = '';
+    }
+  }
+  if (missing.length > 0) {
+    throw new Error(`Missing required input(s) for workflow "${workflow.name}": ${missing.join(', ')}`);
+  }
+  return inputs;
+}
+
+/**
+ * Build a swarm plan with one task per step. The plan is approved: the
+ * workflow file is the reviewed plan.
+ */
+export function buildSwarmWorkflowPlan(workflow: SwarmWorkflow, goal: string): SwarmPlan {
+  const taskIds = new Map(workflow.steps.map((step) => [step.id, generateId()]));
+  const now = Date.now();
+  return {
+    id: generateId(),
+    goal,
+    tasks: workflow.steps.map((step) => ({
+      id: taskIds.get(step.id)!,
+      description: step.name || step.id,
+      status: 'pending',
+      role: step.role,
+      priority: step.priority,
+      dependsOn: step.needs.map((dep) => taskIds.get(dep)!),
+      createdAt: now,
+      requiredTools: step.tools,
+      model: step.model,
+      metadata: { workflowStep: step.id },
+    })),
+    createdAt: now,
+    approved: true,
+    approvedAt: now,
+    version: 1,
+  };
+}
+
+// ============================================
+// Templating & Conditions
+// ============================================
+
+/**
+ * Parse JSON from an assistant's output (whole text, fenced block or first object/array)
+ */
+export function extractWorkflowJson(output: string): unknown {
+  const candidates = [output.trim()];
+  const fenced = output.match(/```(?:json)?\s*\n([\s\S]*?)```/);
+  if (fenced) candidates.push(fenced[1].trim());
+  const structured = output.match(/[[{][\s\S]*[\]}]/);
+  if (structured) candidates.push(structured[0]);
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Resolve a dotted path such as `steps.triage.json.severity` or `item.file`
+ */
+export function resolveWorkflowExpression(expression: string, scope: SwarmWorkflowScope): unknown {
+  const path = expression.trim().split('.').filter(Boolean);
+  let value: unknown = scope;
+  for (const segment of path) {
+    if (value === undefined || value === null) return undefined;
+    if (typeof value === 'string' && path[0] !== 'inputs') {
+      // Allow paths into JSON text (e.g. item.file when items are JSON strings)
+      value = extractWorkflowJson(value) ?? value;
+    }
+    if (Array.isArray(value) && /^\d+$/.test(segment)) {
+      value = value[Number(segment)];
+    } else if (isRecord(value) || Array.isArray(value)) {
+      value = (value as Record<string, unknown>)[segment];
+    } else {
+      return undefined;
+    }
+  }
+  return value;
+}
+
+function stringifyValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return JSON.stringify(value, null, 2);
+}
+
+/**
+ * Replace `{{ expression }}` placeholders
+ */
+export function renderWorkflowTemplate(template: string, scope: SwarmWorkflowScope): string {
+  return template.replace(TEMPLATE_PATTERN, (_, expression: string) =>
+    stringifyValue(resolveWorkflowExpression(expression, scope))
+  );
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'string') {
+    return !['', 'false', 'no', 'none', 'null', '0'].includes(value.trim().toLowerCase());
+  }
+  return Boolean(value);
+}
+
+function parseLiteral(text: string, scope: SwarmWorkflowScope): unknown {
+  const trimmed = text.trim();
+  if (/^(["']).*\1$/.test(trimmed)) return trimmed.slice(1, -1);
+  if (trimmed === 'true') return true;
+  if (trimmed === 'false') return false;
+  if (trimmed !== '' && !Number.isNaN(Number(trimmed))) return Number(trimmed);
+  if (/^(steps|inputs|item|index)\b/.test(trimmed)) return resolveWorkflowExpression(trimmed, scope);
+  return trimmed;
+}
+
+/**
+ * Evaluate a `when` condition.
+ *
+ * Forms: `<path>` (truthy), `!<path>`, `<path> == <value>`, `!=`, `>`, `>=`,
+ * `<`, `<=`, `<path> contains <value>` and `not contains` (case-insensitive).
+ */
+export function evaluateWorkflowCondition(condition: string, scope: SwarmWorkflowScope): boolean {
+  // `{{ path }}` and `path` are equivalent in conditions
+  const expression = condition.replace(TEMPLATE_PATTERN, (_, inner: string) => inner).trim();
+
+  const negated = expression.match(/^(?:!|not\s+)(?!contains\b)(.+)$/);
+  if (negated && !/\s(==|!=|>=|<=|>|<|contains)\s/.test(negated[1])) {
+    return !evaluateWorkflowCondition(negated[1], scope);
+  }
+
+  const comparison = expression.match(/^(\S+)\s*(==|!=|>=|<=|>|<)\s*(.+)$/)
+    ?? expression.match(/^(\S+)\s+(not contains|contains)\s+(.+)$/);
+  if (!comparison) {
+    return isTruthy(resolveWorkflowExpression(expression, scope));
+  }
+
+  const [, path, operator, rawRight] = comparison;
+  const left = resolveWorkflowExpression(path, scope);
+  const right = parseLiteral(rawRight, scope);
+
+  switch (operator) {
+    case '==':
+    case '!=': {
+      const equal = stringifyValue(left).trim() === stringifyValue(right).trim();
+      return operator === '==' ? equal : !equal;
+    }
+    case '>':
+    case '>=':
+    case '<':
+    case '<=': {
+      const a = Number(stringifyValue(left));
+      const b = Number(stringifyValue(right));
+      if (Number.isNaN(a) || Number.isNaN(b)) return false;
+      return operator === '>' ? a > b : operator === '>=' ? a >= b : operator === '<' ? a < b : a <= b;
+    }
+    default: {
+      const needle = stringifyValue(right).toLowerCase();
+      const found = Array.isArray(left)
+        ? left.some((entry) => stringifyValue(entry).toLowerCase() === needle)
+        : stringifyValue(left).toLowerCase().includes(needle);
+      return operator === 'contains' ? found : !found;
+    }
+  }
+}
+
+/**
+ * Resolve a `foreach` expression to a list. Text output is read as a JSON
+ * array when possible, otherwise one item per non-empty line (list markers
+ * are stripped).
+ */
+export function resolveWorkflowItems(expression: string, scope: SwarmWorkflowScope): unknown[] {
+  const value = resolveWorkflowExpression(expression.replace(TEMPLATE_PATTERN, (_, inner: string) => inner), scope);
+  if (value === undefined || value === null) return [];
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'string') {
+    const parsed = extractWorkflowJson(value);
+    if (Array.isArray(parsed)) return parsed;
+    return value
+      .split('\n')
+      .map((line) => line.replace(/^\s*(?:[-*•]|\d+[.)])\s+/, '').trim())
+      .filter(Boolean);
+  }
+  return [value];
+}
+
+// ============================================
+// Execution
+// ============================================
+
+/**
+ * Drives a workflow inside the swarm coordinator: evaluates conditions,
+ * expands fan-out steps and renders prompts as tasks become ready.
+ */
+export class SwarmWorkflowRunner {
+  private steps: Map<string, SwarmWorkflowStep>;
+
+  constructor(
+    readonly workflow: SwarmWorkflow,
+    readonly inputs: Record<string, string>
+  ) {
+    this.steps = new Map(workflow.steps.map((step) => [step.id, step]));
+  }
+
+  /**
+   * Build the template scope from the plan's finished tasks
+   */
+  buildScope(plan: SwarmPlan, results: Map<string, SubassistantResult>, task?: SwarmTask): SwarmWorkflowScope {
+    const steps: SwarmWorkflowScope['steps'] = {};
+    for (const step of this.workflow.steps) {
+      const tasks = plan.tasks
+        .filter((candidate) => candidate.metadata?.workflowStep === step.id)
+        .sort((a, b) => Number(a.metadata?.itemIndex ?? 0) - Number(b.metadata?.itemIndex ?? 0));
+      const outputs = tasks
+        .filter((candidate) => candidate.status === 'completed')
+        .map((candidate) => results.get(candidate.id)?.result ?? candidate.result?.result ?? '');
+      const fanOut = Boolean(step.foreach);
+      const status = tasks.some((candidate) => candidate.status === 'failed')
+        ? 'failed'
+        : tasks.length > 0 && tasks.every((candidate) => candidate.status === 'skipped')
+          ? 'skipped'
+          : tasks.length > 0 && tasks.every((candidate) => candidate.status === 'completed' || candidate.status === 'skipped')
+            ? 'completed'
+            : 'pending';
+      const output = outputs.join('\n\n');
+      steps[step.id] = {
+        status,
+        output,
+        outputs,
+        json: fanOut ? outputs.map(extractWorkflowJson) : extractWorkflowJson(output),
+      };
+    }
+
+    const scope: SwarmWorkflowScope = { inputs: this.inputs, steps };
+    if (task && typeof task.metadata?.itemIndex === 'number') {
+      scope.item = task.metadata.item;
+      scope.index = task.metadata.itemIndex;
+    }
+    return scope;
+  }
+
+  /**
+   * Decide what to do with a ready task. For tasks that run, the rendered
+   * prompt is stored in `task.input`.
+   */
+  prepareTask(task: SwarmTask, plan: SwarmPlan, results: Map<string, SubassistantResult>): SwarmWorkflowTaskAction {
+    const stepId = task.metadata?.workflowStep;
+    const step = typeof stepId === 'string' ? this.steps.get(stepId) : undefined;
+    if (!step) return { type: 'run' };
+
+    const scope = this.buildScope(plan, results, task);
+    const isFanOutTemplate = Boolean(step.foreach) && typeof task.metadata?.itemIndex !== 'number';
+    const conditionUsesItem = step.when
+      ? collectReferences(step.when, { bare: true }).some((ref) => ref === 'item' || ref === 'index')
+      : false;
+
+    // Conditions on the item are evaluated per expanded task
+    if (step.when && !(isFanOutTemplate && conditionUsesItem)) {
+      if (!evaluateWorkflowCondition(step.when, scope)) {
+        return { type: 'skip', reason: `condition not met: ${step.when}` };
+      }
+    }
+
+    if (isFanOutTemplate) {
+      const items = resolveWorkflowItems(step.foreach!, scope);
+      if (items.length === 0) {
+        return { type: 'skip', reason: `no items for foreach: ${step.foreach}` };
+      }
+      return { type: 'expand', items };
+    }
+
+    task.input = renderWorkflowTemplate(step.prompt, scope);
+    return { type: 'run' };
+  }
+
+  /**
+   * Create one task per item for a fan-out step
+   */
+  createFanOutTasks(template: SwarmTask, items: unknown[]): SwarmTask[] {
+    return items.map((item, index) => {
+      const label = typeof item === 'string' ? item : stringifyValue(item).replace(/\s+/g, ' ');
+      return {
+        ...template,
+        id: generateId(),
+        description: `${template.description} [${index + 1}/${items.length}] ${label.slice(0, 40)}`.trimEnd(),
+        status: 'pending',
+        createdAt: Date.now(),
+        metadata: { ...template.metadata, item, itemIndex: index },
+      };
+    });
+  }
+}
@@ -0,0 +1,378 @@
+/**
+ * Swarm Worktree Isolation
+ *
+ * Gives each worker task its own git worktree and branch so parallel workers
+ * never edit the same checkout. Each worker's changes are committed on its
+ * branch; after execution the changes are applied back to the main working
+ * tree, and patches that no longer apply are reported as conflicts.
+ */
+
+import { join } from 'path';
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { generateId } from '@hasna/assistants-shared';
+import { getRuntime } from '../runtime';
+import { getConfigDir } from '../config';
+import type { CriticIssue } from './critic';
+
+/** Git identity for commits made on worker branches */
+const GIT_IDENTITY = ['-c', 'user.name=assistants swarm', '-c', 'user.email=swarm@assistants.local', '-c', 'commit.gpgsign=false'];
+
+/**
+ * A worker's worktree (stored in task metadata so resumed runs can find it)
+ */
+export interface SwarmWorktree {
+  taskId: string;
+  path: string;
+  branch: string;
+  /** Commit the swarm started from */
+  baseCommit: string;
+  /** Commit after dependency branches were merged in; the task's own changes start here */
+  startCommit: string;
+}
+
+/**
+ * A file changed by one or more workers
+ */
+export interface SwarmChangedFile {
+  path: string;
+  /** Git status letter (A, M, D, T) */
+  status: string;
+  additions: number;
+  deletions: number;
+  /** Tasks that changed the file */
+  taskIds: string[];
+}
+
+/**
+ * Changes made in one worktree
+ */
+export interface SwarmWorktreeChanges {
+  taskId: string;
+  branch: string;
+  files: SwarmChangedFile[];
+}
+
+/**
+ * Combined result of merging worker changes back
+ */
+export interface SwarmChangeSummary {
+  /** Tasks whose changes were applied to the main working tree */
+  merged: string[];
+  /** Tasks whose changes could not be applied (their branches are kept) */
+  conflicted: string[];
+  /** Combined list of changed files */
+  files: SwarmChangedFile[];
+  additions: number;
+  deletions: number;
+  /** Conflicts and overlapping edits */
+  issues: CriticIssue[];
+  /** Branches kept for manual merging */
+  keptBranches: string[];
+}
+
+interface GitResult {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+}
+
+async function git(args: string[], cwd: string): Promise<GitResult> {
+  const proc = getRuntime().spawn(['git', ...args], {
+    cwd,
+    stdin: 'ignore',
+    stdout: 'pipe',
+    stderr: 'pipe',
+    env: { ...process.env, GIT_TERMINAL_PROMPT: '0' },
+  });
+  const [stdout, stderr] = await Promise.all([
+    proc.stdout ? new Response(proc.stdout).text() : '',
+    proc.stderr ? new Response(proc.stderr).text() : '',
+  ]);
+  const exitCode = await proc.exited;
+  return { exitCode, stdout, stderr };
+}
+
+async function gitOrThrow(args: string[], cwd: string): Promise<string> {
+  const result = await git(args, cwd);
+  if (result.exitCode !== 0) {
+    throw new Error(`git ${args[0]} failed: ${(result.stderr || result.stdout).trim()}`);
+  }
+  return result.stdout;
+}
+
+/**
+ * Root of the git repository containing `cwd`, or null when it is not a
+ * repository with at least one commit
+ */
+export async function findGitRepoRoot(cwd: string): Promise<string | null> {
+  try {
+    const root = await git(['rev-parse', '--show-toplevel'], cwd);
+    if (root.exitCode !== 0) return null;
+    const head = await git(['rev-parse', '--verify', '-q', 'HEAD'], cwd);
+    return head.exitCode === 0 ? root.stdout.trim() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Manages per-task worktrees for one swarm run
+ */
+export class SwarmWorktreeManager {
+  private repoRoot: string;
+  private swarmId: string;
+  private baseDir: string;
+  private baseCommit: string | null = null;
+  private worktrees = new Map<string, SwarmWorktree>();
+  private changes = new Map<string, SwarmWorktreeChanges>();
+
+  constructor(options: { repoRoot: string; swarmId: string; baseDir?: string }) {
+    this.repoRoot = options.repoRoot;
+    this.swarmId = options.swarmId;
+    this.baseDir = options.baseDir || join(getConfigDir(), 'swarm', 'worktrees', options.swarmId);
+  }
+
+  getRepoRoot(): string {
+    return this.repoRoot;
+  }
+
+  getWorktree(taskId: string): SwarmWorktree | null {
+    return this.worktrees.get(taskId) ?? null;
+  }
+
+  getChanges(taskId: string): SwarmWorktreeChanges | null {
+    return this.changes.get(taskId) ?? null;
+  }
+
+  /**
+   * Re-attach a worktree recorded by an earlier process (resumed runs)
+   */
+  adopt(worktree: SwarmWorktree, changes?: SwarmWorktreeChanges): void {
+    this.baseCommit = this.baseCommit ?? worktree.baseCommit;
+    this.worktrees.set(worktree.taskId, worktree);
+    if (changes) this.changes.set(worktree.taskId, changes);
+  }
+
+  private async getBaseCommit(): Promise<string> {
+    if (!this.baseCommit) {
+      this.baseCommit = (await gitOrThrow(['rev-parse', 'HEAD'], this.repoRoot)).trim();
+    }
+    return this.baseCommit;
+  }
+
+  /**
+   * Create (or return) the worktree for a task. Branches of dependency tasks
+   * are merged in so the worker sees their changes.
+   */
+  async create(taskId: string, dependsOn: string[] = []): Promise<SwarmWorktree> {
+    const existing = this.worktrees.get(taskId);
+    if (existing) return existing;
+
+    const baseCommit = await this.getBaseCommit();
+    const path = join(this.baseDir, taskId);
+    const branch = `swarm/${this.swarmId.slice(0, 8)}/${taskId.slice(0, 8)}`;
+    mkdirSync(this.baseDir, { recursive: true });
+    if (existsSync(path)) {
+      // Left behind by an interrupted run; the task starts over
+      await git(['worktree', 'remove', '--force', path], this.repoRoot);
+      rmSync(path, { recursive: true, force: true });
+      await git(['worktree', 'prune'], this.repoRoot);
+    }
+    await gitOrThrow(['worktree', 'add', '-q', '-B', branch, path, baseCommit], this.repoRoot);
+
+    for (const depId of dependsOn) {
+      const dep = this.changes.get(depId);
+      if (!dep || dep.files.length === 0) continue;
+      const merge = await git([...GIT_IDENTITY, 'merge', '-q', '--no-edit', dep.branch], path);
+      if (merge.exitCode !== 0) {
+        await git(['merge', '--abort'], path);
+        throw new Error(`Changes from dependency ${depId} conflict with other dependencies (${dep.branch})`);
+      }
+    }
+
+    const startCommit = (await gitOrThrow(['rev-parse', 'HEAD'], path)).trim();
+    const worktree: SwarmWorktree = { taskId, path, branch, baseCommit, startCommit };
+    this.worktrees.set(taskId, worktree);
+    return worktree;
+  }
+
+  /**
+   * Commit whatever the worker left in its worktree and list the files it changed
+   */
+  async collect(taskId: string): Promise<SwarmWorktreeChanges> {
+    const worktree = this.worktrees.get(taskId);
+    if (!worktree) {
+      throw new Error(`No worktree for task ${taskId}`);
+    }
+
+    await gitOrThrow(['add', '-A'], worktree.path);
+    const staged = await git(['diff', '--cached', '--quiet'], worktree.path);
+    if (staged.exitCode !== 0) {
+      await gitOrThrow(
+        [...GIT_IDENTITY, 'commit', '-q', '--no-verify', '-m', `swarm: task ${taskId}`],
+        worktree.path
+      );
+    }
+
+    const range = [worktree.startCommit, 'HEAD'];
+    const [nameStatus, numstat] = await Promise.all([
+      gitOrThrow(['diff', '--no-renames', '--name-status', ...range], worktree.path),
+      gitOrThrow(['diff', '--no-renames', '--numstat', ...range], worktree.path),
+    ]);
+
+    const counts = new Map<string, { additions: number; deletions: number }>();
+    for (const line of numstat.split('\n').filter(Boolean)) {
+      const [added, deleted, ...pathParts] = line.split('\t');
+      counts.set(pathParts.join('\t'), {
+        additions: Number(added) || 0,
+        deletions: Number(deleted) || 0,
+      });
+    }
+
+    const files: SwarmChangedFile[] = nameStatus
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => {
+        const [status, ...pathParts] = line.split('\t');
+        const path = pathParts.join('\t');
+        return { path, status: status[0], ...(counts.get(path) ?? { additions: 0, deletions: 0 }), taskIds: [taskId] };
+      });
+
+    const changes: SwarmWorktreeChanges = { taskId, branch: worktree.branch, files };
+    this.changes.set(taskId, changes);
+    return changes;
+  }
+
+  /**
+   * Apply the changes of the given tasks (in order) to the main working tree.
+   * Changes are left uncommitted for review. Tasks whose patch no longer
+   * applies are reported as conflicts and their branches are kept.
+   */
+  async merge(taskIds: string[], describe: (taskId: string) => string = (id) => id): Promise<SwarmChangeSummary> {
+    const summary: SwarmChangeSummary = {
+      merged: [],
+      conflicted: [],
+      files: [],
+      additions: 0,
+      deletions: 0,
+      issues: [],
+      keptBranches: [],
+    };
+    const combined = new Map<string, SwarmChangedFile>();
+    mkdirSync(this.baseDir, { recursive: true });
+
+    for (const taskId of taskIds) {
+      const worktree = this.worktrees.get(taskId);
+      const changes = this.changes.get(taskId);
+      if (!worktree || !changes || changes.files.length === 0) continue;
+
+      // Diff the branch so tasks whose worktree was removed (resumed runs) still merge
+      const patch = await gitOrThrow(['diff', '--binary', '--no-renames', worktree.startCommit, worktree.branch], this.repoRoot);
+      const patchPath = join(this.baseDir, `${taskId}.patch`);
+      writeFileSync(patchPath, patch);
+
+      const check = await git(['apply', '--check', patchPath], this.repoRoot);
+      if (check.exitCode !== 0) {
+        summary.conflicted.push(taskId);
+        summary.keptBranches.push(worktree.branch);
+        summary.issues.push({
+          id: generateId(),
+          category: 'conflict',
+          severity: 'high',
+          title: `Changes from "${describe(taskId)}" conflict with the working tree`,
+          description: `Could not apply changes to ${changes.files.map((file) => file.path).join(', ')}: ${singleLine(check.stderr)}`,
+          location: changes.files[0]?.path,
+          relatedTasks: [taskId, ...this.tasksTouching(combined, changes.files)],
+          suggestedFix: `Merge branch ${worktree.branch} manually (git merge ${worktree.branch})`,
+          autoFixable: false,
+        });
+        continue;
+      }
+
+      await gitOrThrow(['apply', patchPath], this.repoRoot);
+      summary.merged.push(taskId);
+      for (const file of changes.files) {
+        const existing = combined.get(file.path);
+        if (existing) {
+          existing.additions += file.additions;
+          existing.deletions += file.deletions;
+          existing.taskIds.push(taskId);
+          existing.status = file.status === 'D' ? 'D' : existing.status === 'A' ? 'A' : file.status;
+        } else {
+          combined.set(file.path, { ...file, taskIds: [taskId] });
+        }
+      }
+    }
+
+    // Files edited by several workers merged cleanly but may still disagree
+    for (const file of combined.values()) {
+      if (file.taskIds.length > 1) {
+        summary.issues.push({
+          id: generateId(),
+          category: 'consistency',
+          severity: 'low',
+          title: `${file.path} was edited by ${file.taskIds.length} workers`,
+          description: `Edits from ${file.taskIds.map((id) => `"${describe(id)}"`).join(', ')} were combined; review the file for consistency.`,
+          location: file.path,
+          relatedTasks: [...file.taskIds],
+          autoFixable: false,
+        });
+      }
+    }
+
+    summary.files = Array.from(combined.values()).sort((a, b) => a.path.localeCompare(b.path));
+    summary.additions = summary.files.reduce((sum, file) => sum + file.additions, 0);
+    summary.deletions = summary.files.reduce((sum, file) => sum + file.deletions, 0);
+    return summary;
+  }
+
+  private tasksTouching(combined: Map<string, SwarmChangedFile>, files: SwarmChangedFile[]): string[] {
+    const ids = new Set<string>();
+    for (const file of files) {
+      for (const id of combined.get(file.path)?.taskIds ?? []) ids.add(id);
+    }
+    return Array.from(ids);
+  }
+
+  /**
+   * Remove worktrees and their branches, except the branches listed in `keepBranches`
+   */
+  async cleanup(keepBranches: string[] = []): Promise<void> {
+    for (const worktree of this.worktrees.values()) {
+      await git(['worktree', 'remove', '--force', worktree.path], this.repoRoot);
+      if (!keepBranches.includes(worktree.branch)) {
+        await git(['branch', '-D', worktree.branch], this.repoRoot);
+      }
+    }
+    await git(['worktree', 'prune'], this.repoRoot);
+    rmSync(this.baseDir, { recursive: true, force: true });
+    this.worktrees.clear();
+    this.changes.clear();
+  }
+}
+
+function singleLine(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Markdown summary of the combined diff
+ */
+export function formatSwarmChangeSummary(
+  summary: SwarmChangeSummary,
+  describe: (taskId: string) => string = (id) => id
+): string {
+  const lines: string[] = [];
+  if (summary.files.length === 0) {
+    lines.push('No file changes were merged.');
+  } else {
+    lines.push(`${summary.files.length} file(s) changed, +${summary.additions} −${summary.deletions} (uncommitted in the working tree)`);
+    for (const file of summary.files) {
+      lines.push(`- ${file.status} ${file.path} (+${file.additions} −${file.deletions}) · ${file.taskIds.map(describe).join(', ')}`);
+    }
+  }
+  if (summary.conflicted.length > 0) {
+    lines.push(`Conflicts: ${summary.conflicted.map(describe).join(', ')}; kept branches: ${summary.keptBranches.join(', ')}`);
+  }
+  return lines.join('\n');
+}
@@ -1,3 +1,4 @@
 // Tasks module exports
 export * from './types';
 export * from './store';
+export * from './runner';
@@ -0,0 +1,576 @@
+/**
+ * Task Queue Runner
+ *
+ * Executes queued tasks in priority and dependency order with bounded
+ * concurrency. Every attempt is claimed in the task store, so the queue stays
+ * consistent across sessions. Failed attempts are retried with backoff per
+ * the task's retry policy, and a task that finally fails (or is cancelled)
+ * cancels the tasks that depend on it. Claims are leases renewed while the
+ * attempt runs; tasks left claimed by a runner that exited are requeued.
+ */
+
+import { formatDuration } from '@hasna/assistants-shared';
+import type { SubassistantManager } from '../agent/subagent-manager';
+import type { Task, TaskRetryPolicy } from './types';
+import {
+  cancelDependentTasks,
+  cancelTask,
+  claimTask,
+  completeTask,
+  failTask,
+  getRunnableTasks,
+  getTasks,
+  isPaused,
+  processDueRecurringTasks,
+  renewTaskLeases,
+  requeueStaleTasks,
+  requeueTask,
+  scheduleTaskRetry,
+  TASK_LEASE_MS,
+} from './store';
+
+/**
+ * Outcome of one attempt at a task
+ */
+export interface TaskAttemptResult {
+  success: boolean;
+  result?: string;
+  error?: string;
+  /** The attempt ran out of time */
+  timedOut?: boolean;
+}
+
+export interface TaskAttemptOptions {
+  /** Aborted when the task is cancelled, times out or the runner stops */
+  signal: AbortSignal;
+  timeoutMs: number;
+  attempt: number;
+}
+
+/**
+ * Runs one attempt at a task
+ */
+export type TaskExecutor = (task: Task, options: TaskAttemptOptions) => Promise<TaskAttemptResult>;
+
+/**
+ * Task runner configuration
+ */
+export interface TaskRunnerConfig {
+  /** Maximum tasks executing at the same time */
+  concurrency: number;
+  /** Timeout per attempt for tasks without their own */
+  defaultTimeoutMs: number;
+  /** Retry policy for tasks without their own */
+  defaultRetry: Required<TaskRetryPolicy>;
+  /** How often the queue is checked for new and due tasks */
+  pollIntervalMs: number;
+  /** Keep waiting for new tasks once the queue is drained */
+  watch: boolean;
+}
+
+export const DEFAULT_TASK_RUNNER_CONFIG: TaskRunnerConfig = {
+  concurrency: 2,
+  defaultTimeoutMs: 600000, // 10 minutes
+  defaultRetry: {
+    maxRetries: 0,
+    delayMs: 1000,
+    backoffMultiplier: 2,
+    maxDelayMs: 60000,
+    retryOnTimeout: false,
+  },
+  pollIntervalMs: 1000,
+  watch: false,
+};
+
+export type TaskRunnerEventType =
+  | 'runner:started'
+  | 'runner:stopped'
+  | 'task:started'
+  | 'task:completed'
+  | 'task:failed'
+  | 'task:timeout'
+  | 'task:retry'
+  | 'task:cancelled';
+
+export interface TaskRunnerEvent {
+  type: TaskRunnerEventType;
+  taskId?: string;
+  task?: Task;
+  data?: unknown;
+  timestamp: number;
+}
+
+export type TaskRunnerEventListener = (event: TaskRunnerEvent) => void;
+
+/**
+ * Live progress of a task attempt
+ */
+export interface TaskRunProgress {
+  taskId: string;
+  description: string;
+  attempt: number;
+  maxAttempts: number;
+  startedAt: number;
+  timeoutMs: number;
+}
+
+/**
+ * Snapshot of the runner for status displays
+ */
+export interface TaskRunnerStatus {
+  running: boolean;
+  stopping: boolean;
+  concurrency: number;
+  watch: boolean;
+  startedAt?: number;
+  active: TaskRunProgress[];
+  completed: number;
+  failed: number;
+  retried: number;
+  cancelled: number;
+}
+
+export interface TaskRunnerContext {
+  cwd: string;
+  execute: TaskExecutor;
+}
+
+interface ActiveTaskRun {
+  task: Task;
+  controller: AbortController;
+  progress: TaskRunProgress;
+  promise: Promise<void>;
+  /** Stopped by the runner; the task goes back to the queue */
+  interrupted: boolean;
+  /** Cancelled; the store was already updated */
+  cancelled: boolean;
+  timedOut: boolean;
+}
+
+const STORE_LOCK_RETRIES = 20;
+const STORE_LOCK_RETRY_DELAY_MS = 50;
+const LEASE_RENEW_INTERVAL_MS = TASK_LEASE_MS / 4;
+
+/**
+ * Task Queue Runner
+ */
+export class TaskQueueRunner {
+  private config: TaskRunnerConfig;
+  private cwd: string;
+  private executor: TaskExecutor;
+
+  private active: Map<string, ActiveTaskRun> = new Map();
+  private listeners: Set<TaskRunnerEventListener> = new Set();
+  private counts = { completed: 0, failed: 0, retried: 0, cancelled: 0 };
+  private loopPromise: Promise<void> | null = null;
+  private storeQueue: Promise<unknown> = Promise.resolve();
+  private stopping = false;
+  private startedAt?: number;
+  private leaseRenewedAt = 0;
+  private woken = false;
+  private wakeUp: (() => void) | null = null;
+
+  constructor(config: Partial<TaskRunnerConfig>, context: TaskRunnerContext) {
+    this.config = { ...DEFAULT_TASK_RUNNER_CONFIG, ...config };
+    this.cwd = context.cwd;
+    this.executor = context.execute;
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): TaskRunnerConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Change concurrency or watch mode; applies from the next scheduling pass
+   */
+  configure(config: Partial<Pick<TaskRunnerConfig, 'concurrency' | 'watch' | 'defaultTimeoutMs'>>): void {
+    this.config = { ...this.config, ...config };
+    this.wake();
+  }
+
+  /**
+   * Check if the runner is running
+   */
+  isRunning(): boolean {
+    return this.loopPromise !== null;
+  }
+
+  /**
+   * Add event listener
+   */
+  addEventListener(listener: TaskRunnerEventListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Get a snapshot of the runner
+   */
+  getStatus(): TaskRunnerStatus {
+    return {
+      running: this.isRunning(),
+      stopping: this.stopping,
+      concurrency: this.config.concurrency,
+      watch: this.config.watch,
+      startedAt: this.startedAt,
+      active: Array.from(this.active.values()).map((run) => ({ ...run.progress })),
+      ...this.counts,
+    };
+  }
+
+  /**
+   * Start running queued tasks. Resolves when the runner stops: once the
+   * queue is drained, or on stop() in watch mode.
+   */
+  start(): Promise<void> {
+    if (this.loopPromise) return this.loopPromise;
+
+    this.stopping = false;
+    this.startedAt = Date.now();
+    this.counts = { completed: 0, failed: 0, retried: 0, cancelled: 0 };
+    this.emit('runner:started');
+
+    this.loopPromise = this.runLoop().finally(() => {
+      this.loopPromise = null;
+      this.stopping = false;
+      this.emit('runner:stopped');
+    });
+    return this.loopPromise;
+  }
+
+  /**
+   * Stop the runner. Running attempts are aborted and their tasks return to
+   * the queue.
+   */
+  async stop(): Promise<void> {
+    if (!this.loopPromise) return;
+    this.stopping = true;
+    for (const run of this.active.values()) {
+      run.interrupted = true;
+      run.controller.abort();
+    }
+    this.wake();
+    await this.loopPromise;
+  }
+
+  /**
+   * Cancel a task and everything that depends on it, aborting any of them
+   * that are running here. Returns the cancelled tasks.
+   */
+  async cancel(taskId: string): Promise<Task[]> {
+    const cancelled = await this.store(() => cancelTask(this.cwd, taskId));
+    for (const task of cancelled) {
+      const run = this.active.get(task.id);
+      if (run) {
+        run.cancelled = true;
+        run.controller.abort();
+      }
+      this.counts.cancelled++;
+      this.emit('task:cancelled', task, { reason: task.error });
+    }
+    this.wake();
+    return cancelled;
+  }
+
+  /**
+   * Check the queue now instead of at the next poll
+   */
+  wake(): void {
+    this.woken = true;
+    this.wakeUp?.();
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  private emit(type: TaskRunnerEventType, task?: Task, data?: unknown): void {
+    const event: TaskRunnerEvent = {
+      type,
+      taskId: task?.id,
+      task,
+      data,
+      timestamp: Date.now(),
+    };
+
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch {
+        // Ignore listener errors
+      }
+    }
+  }
+
+  /**
+   * Main scheduling loop
+   */
+  private async runLoop(): Promise<void> {
+    while (!this.stopping) {
+      let paused = false;
+      try {
+        await this.renewLeases();
+        paused = await isPaused(this.cwd);
+        if (!paused) {
+          await this.store(() => requeueStaleTasks(this.cwd));
+          if (this.config.watch) {
+            await this.store(() => processDueRecurringTasks(this.cwd));
+          }
+          await this.fillSlots();
+        }
+
+        if (this.active.size === 0 && !this.config.watch && (paused || !(await this.hasTasksWaitingToRetry()))) {
+          break;
+        }
+      } catch {
+        // The store was busy; try again on the next pass
+      }
+
+      await this.waitForChange();
+    }
+
+    await Promise.all(Array.from(this.active.values()).map((run) => run.promise));
+  }
+
+  /**
+   * Claim runnable tasks up to the concurrency limit
+   */
+  private async fillSlots(): Promise<void> {
+    if (this.active.size >= this.config.concurrency) return;
+
+    const runnable = await getRunnableTasks(this.cwd);
+    for (const candidate of runnable) {
+      if (this.stopping || this.active.size >= this.config.concurrency) break;
+      if (this.active.has(candidate.id)) continue;
+
+      // Another session may have claimed it first
+      const task = await this.store(() => claimTask(this.cwd, candidate.id));
+      if (task) {
+        this.launch(task);
+      }
+    }
+  }
+
+  /**
+   * Keep the claims of running attempts from expiring
+   */
+  private async renewLeases(): Promise<void> {
+    const now = Date.now();
+    if (this.active.size === 0 || now - this.leaseRenewedAt < LEASE_RENEW_INTERVAL_MS) return;
+    const ids = Array.from(this.active.keys());
+    await this.store(() => renewTaskLeases(this.cwd, ids, now));
+    this.leaseRenewedAt = now;
+  }
+
+  private async hasTasksWaitingToRetry(): Promise<boolean> {
+    const now = Date.now();
+    const tasks = await getTasks(this.cwd);
+    return tasks.some((task) => task.status === 'pending' && (task.nextAttemptAt ?? 0) > now);
+  }
+
+  private async waitForChange(): Promise<void> {
+    if (!this.woken) {
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, this.config.pollIntervalMs);
+        this.wakeUp = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+    }
+    this.wakeUp = null;
+    this.woken = false;
+  }
+
+  private launch(task: Task): void {
+    const policy = this.getRetryPolicy(task);
+    const timeoutMs = task.timeoutMs ?? this.config.defaultTimeoutMs;
+    const run: ActiveTaskRun = {
+      task,
+      controller: new AbortController(),
+      progress: {
+        taskId: task.id,
+        description: task.description,
+        attempt: task.attempts ?? 1,
+        maxAttempts: policy.maxRetries + 1,
+        startedAt: task.startedAt ?? Date.now(),
+        timeoutMs,
+      },
+      promise: Promise.resolve(),
+      interrupted: false,
+      cancelled: false,
+      timedOut: false,
+    };
+
+    this.active.set(task.id, run);
+    if (this.stopping) {
+      // Claimed while stop() was aborting the other runs
+      run.interrupted = true;
+      run.controller.abort();
+    }
+    this.emit('task:started', task, { attempt: run.progress.attempt, maxAttempts: run.progress.maxAttempts });
+
+    run.promise = this.executeRun(run, policy, timeoutMs)
+      .catch(() => {
+        // Store errors leave the task in_progress until its lease expires
+      })
+      .finally(() => {
+        this.active.delete(task.id);
+        this.wake();
+      });
+  }
+
+  /**
+   * Execute one attempt and record the outcome
+   */
+  private async executeRun(run: ActiveTaskRun, policy: Required<TaskRetryPolicy>, timeoutMs: number): Promise<void> {
+    const { task, controller } = run;
+    const attempt = run.progress.attempt;
+
+    const timer = setTimeout(() => {
+      run.timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+
+    let outcome: TaskAttemptResult;
+    try {
+      outcome = await Promise.race([
+        this.executor(task, { signal: controller.signal, timeoutMs, attempt }),
+        new Promise<TaskAttemptResult>((resolve) => {
+          controller.signal.addEventListener('abort', () => resolve({ success: false, error: 'Aborted' }), { once: true });
+        }),
+      ]);
+    } catch (error) {
+      outcome = { success: false, error: error instanceof Error ? error.message : String(error) };
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (run.cancelled) return;
+    if (run.interrupted) {
+      await this.store(() => requeueTask(this.cwd, task.id));
+      return;
+    }
+
+    const timedOut = run.timedOut || outcome.timedOut === true;
+    if (outcome.success && !timedOut) {
+      const completed = await this.store(() => completeTask(this.cwd, task.id, outcome.result));
+      this.counts.completed++;
+      this.emit('task:completed', completed ?? task);
+      return;
+    }
+
+    const error = timedOut
+      ? `Timed out after ${formatDuration(timeoutMs)}`
+      : outcome.error || 'Task failed';
+
+    if (attempt <= policy.maxRetries && (!timedOut || policy.retryOnTimeout)) {
+      const delayMs = this.calculateBackoffDelay(attempt, policy);
+      const retrying = await this.store(() => scheduleTaskRetry(this.cwd, task.id, error, Date.now() + delayMs));
+      this.counts.retried++;
+      this.emit('task:retry', retrying ?? task, { attempt, error, delayMs });
+      return;
+    }
+
+    const failed = await this.store(() => failTask(this.cwd, task.id, error));
+    this.counts.failed++;
+    this.emit(timedOut ? 'task:timeout' : 'task:failed', failed ?? task, { error });
+
+    const dependents = await this.store(() => cancelDependentTasks(this.cwd, task.id));
+    for (const dependent of dependents) {
+      this.counts.cancelled++;
+      this.emit('task:cancelled', dependent, { reason: dependent.error });
+    }
+  }
+
+  private getRetryPolicy(task: Task): Required<TaskRetryPolicy> {
+    return { ...this.config.defaultRetry, ...task.retry };
+  }
+
+  /**
+   * Calculate backoff delay before the retry following `attempt`
+   */
+  private calculateBackoffDelay(attempt: number, policy: Required<TaskRetryPolicy>): number {
+    const delay = policy.delayMs * Math.pow(policy.backoffMultiplier, attempt - 1);
+    return Math.min(delay, policy.maxDelayMs);
+  }
+
+  /**
+   * Run store updates one at a time, retrying while another process holds
+   * the task store lock
+   */
+  private store<T>(fn: () => Promise<T>): Promise<T> {
+    const run = async (): Promise<T> => {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          return await fn();
+        } catch (error) {
+          const locked = error instanceof Error && error.message === 'Task store is locked';
+          if (!locked || attempt >= STORE_LOCK_RETRIES) throw error;
+          await new Promise((resolve) => setTimeout(resolve, STORE_LOCK_RETRY_DELAY_MS));
+        }
+      }
+    };
+    const result = this.storeQueue.then(run, run);
+    this.storeQueue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+/**
+ * Options for running tasks with subassistants
+ */
+export interface SubassistantTaskExecutorOptions {
+  sessionId: string;
+  cwd: string;
+  depth: number;
+  /** Tools available to task subassistants */
+  tools?: string[];
+  /** Maximum turns per attempt */
+  maxTurns?: number;
+}
+
+export const DEFAULT_TASK_TOOLS = ['bash', 'read', 'write', 'edit', 'glob', 'grep', 'web_search', 'web_fetch'];
+
+/**
+ * Execute each task attempt in its own subassistant
+ */
+export function createSubassistantTaskExecutor(
+  manager: SubassistantManager,
+  options: SubassistantTaskExecutorOptions
+): TaskExecutor {
+  return async (task, { signal, timeoutMs }) => {
+    const result = await manager.spawn({
+      task: `Execute the following task:\n\n${task.description}\n\nWhen done, report the result.`,
+      tools: options.tools ?? DEFAULT_TASK_TOOLS,
+      maxTurns: options.maxTurns,
+      parentSessionId: options.sessionId,
+      depth: options.depth,
+      cwd: options.cwd,
+      timeoutMs,
+      signal,
+    });
+    return {
+      success: result.success,
+      result: result.result,
+      error: result.error,
+      timedOut: !result.success && !!result.error?.includes('timed out'),
+    };
+  };
+}
+
+/**
+ * Parse a duration like `90s`, `5m`, `1h` or a number of milliseconds
+ */
+export function parseTaskDuration(value: string): number | null {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s|m|h)?$/i);
+  if (!match) return null;
+  const amount = Number(match[1]);
+  const unit = (match[2] || 'ms').toLowerCase();
+  const multiplier = unit === 'h' ? 3600000 : unit === 'm' ? 60000 : unit === 's' ? 1000 : 1;
+  const ms = Math.round(amount * multiplier);
+  return ms > 0 ? ms : null;
+}
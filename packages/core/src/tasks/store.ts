@@ -12,6 +12,9 @@ const TASKS_LOCK_FILE = 'tasks.lock.json';
 const DEFAULT_TASK_LOCK_TTL_MS = 10 * 1000;
 const MAX_TASK_LOCK_RETRIES = 2;
 
+/** A claimed task whose runner has not checked in for this long goes back to the queue */
+export const TASK_LEASE_MS = 2 * 60 * 1000;
+
 function tasksDir(cwd: string): string {
   return join(cwd, TASKS_DIR);
 }
@@ -260,6 +263,8 @@ export async function addTask(
       recurrence,
       isRecurringTemplate,
       nextRunAt,
+      retry: opts.retry,
+      timeoutMs: opts.timeoutMs,
     };
 
     // If this task blocks other tasks, update those tasks' blockedBy arrays
@@ -388,7 +393,7 @@ export async function clearCompletedTasks(cwd: string): Promise<number> {
     const before = data.tasks.length;
     const removedIds = new Set<string>();
     data.tasks = data.tasks.filter((t) => {
-      if (t.status === 'completed' || t.status === 'failed') {
+      if (t.status === 'completed' || t.status === 'failed' || t.status === 'cancelled') {
         removedIds.add(t.id);
         return false;
       }
@@ -449,6 +454,30 @@ export async function getNextTask(cwd: string): Promise<Task | null> {
   return pending[0];
 }
 
+/**
+ * Get pending tasks the task runner can start now, in priority order.
+ * Recurring templates and tasks waiting to retry are skipped.
+ */
+export async function getRunnableTasks(cwd: string, now: number = Date.now()): Promise<Task[]> {
+  const data = await loadTaskStore(cwd);
+  const completedIds = new Set(
+    data.tasks
+      .filter((t) => t.status === 'completed')
+      .map((t) => t.id)
+  );
+
+  return data.tasks
+    .filter((t) => t.status === 'pending'
+      && !t.isRecurringTemplate
+      && (!t.nextAttemptAt || t.nextAttemptAt <= now)
+      && (t.blockedBy ?? []).every((blockerId) => completedIds.has(blockerId)))
+    .sort((a, b) => {
+      const priorityDiff = PRIORITY_ORDER[b.priority] - PRIORITY_ORDER[a.priority];
+      if (priorityDiff !== 0) return priorityDiff;
+      return a.createdAt - b.createdAt;
+    });
+}
+
 /**
  * Check if the task queue is paused
  */
@@ -515,6 +544,170 @@ export async function failTask(cwd: string, id: string, error?: string): Promise
   });
 }
 
+/**
+ * Atomically move a pending task to in_progress for the task runner.
+ * Returns null when the task is gone or no longer pending.
+ */
+export async function claimTask(cwd: string, id: string): Promise<Task | null> {
+  return withTaskStoreLock(cwd, async (data) => {
+    const task = data.tasks.find((t) => t.id === id);
+    if (!task || task.status !== 'pending') return null;
+
+    task.status = 'in_progress';
+    task.startedAt = Date.now();
+    task.attempts = (task.attempts ?? 0) + 1;
+    task.nextAttemptAt = undefined;
+    task.error = undefined;
+    task.ownerPid = process.pid;
+    task.heartbeatAt = task.startedAt;
+    return task;
+  });
+}
+
+/**
+ * Record that this process is still running the given claimed tasks
+ */
+export async function renewTaskLeases(cwd: string, ids: string[], now: number = Date.now()): Promise<void> {
+  await withTaskStoreLock(cwd, async (data) => {
+    for (const task of data.tasks) {
+      if (task.status === 'in_progress' && task.ownerPid === process.pid && ids.includes(task.id)) {
+        task.heartbeatAt = now;
+      }
+    }
+  });
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Whether a claimed task was left in progress by a runner that exited or
+ * stopped renewing its lease
+ */
+function isTaskLeaseExpired(task: Task, now: number): boolean {
+  if (task.status !== 'in_progress' || task.ownerPid === undefined) return false;
+  if (task.ownerPid !== process.pid && !isProcessAlive(task.ownerPid)) return true;
+  return now - (task.heartbeatAt ?? task.startedAt ?? 0) > TASK_LEASE_MS;
+}
+
+function releaseClaim(task: Task): void {
+  task.ownerPid = undefined;
+  task.heartbeatAt = undefined;
+}
+
+/**
+ * Return tasks with an expired lease to the queue without counting the
+ * interrupted attempt. Returns the requeued tasks.
+ */
+export async function requeueStaleTasks(cwd: string, now: number = Date.now()): Promise<Task[]> {
+  const current = await loadTaskStore(cwd);
+  if (!current.tasks.some((task) => isTaskLeaseExpired(task, now))) return [];
+
+  return withTaskStoreLock(cwd, async (data) => {
+    const stale = data.tasks.filter((task) => isTaskLeaseExpired(task, now));
+    for (const task of stale) {
+      task.status = 'pending';
+      task.startedAt = undefined;
+      task.attempts = Math.max(0, (task.attempts ?? 1) - 1);
+      releaseClaim(task);
+    }
+    return stale;
+  });
+}
+
+/**
+ * Put a failed attempt back in the queue to retry at `nextAttemptAt`
+ */
+export async function scheduleTaskRetry(
+  cwd: string,
+  id: string,
+  error: string,
+  nextAttemptAt: number
+): Promise<Task | null> {
+  return withTaskStoreLock(cwd, async (data) => {
+    const task = data.tasks.find((t) => t.id === id);
+    if (!task || task.status !== 'in_progress') return null;
+
+    task.status = 'pending';
+    task.error = error;
+    task.nextAttemptAt = nextAttemptAt;
+    releaseClaim(task);
+    return task;
+  });
+}
+
+/**
+ * Return an interrupted task to the queue without counting the attempt
+ */
+export async function requeueTask(cwd: string, id: string): Promise<Task | null> {
+  return withTaskStoreLock(cwd, async (data) => {
+    const task = data.tasks.find((t) => t.id === id);
+    if (!task || task.status !== 'in_progress') return null;
+
+    task.status = 'pending';
+    task.startedAt = undefined;
+    task.attempts = Math.max(0, (task.attempts ?? 1) - 1);
+    releaseClaim(task);
+    return task;
+  });
+}
+
+/**
+ * Cancel pending and in-progress tasks that depend on `id`, directly or
+ * transitively. Returns the cancelled tasks.
+ */
+function cancelDependents(data: TaskStoreData, id: string, reason: string, now: number): Task[] {
+  const cancelled: Task[] = [];
+  const queue = [id];
+  while (queue.length > 0) {
+    const blockerId = queue.shift()!;
+    for (const task of data.tasks) {
+      if (task.status !== 'pending' && task.status !== 'in_progress') continue;
+      if (!task.blockedBy?.includes(blockerId)) continue;
+      task.status = 'cancelled';
+      task.completedAt = now;
+      task.nextAttemptAt = undefined;
+      task.error = `Cancelled: depends on ${blockerId}, which ${reason}`;
+      cancelled.push(task);
+      queue.push(task.id);
+    }
+  }
+  return cancelled;
+}
+
+/**
+ * Cancel a pending or in-progress task and every task that depends on it.
+ * Returns the cancelled tasks, starting with the task itself.
+ */
+export async function cancelTask(cwd: string, id: string, reason: string = 'Cancelled by user'): Promise<Task[]> {
+  return withTaskStoreLock(cwd, async (data) => {
+    const task = data.tasks.find((t) => t.id === id);
+    if (!task || (task.status !== 'pending' && task.status !== 'in_progress')) return [];
+
+    const now = Date.now();
+    task.status = 'cancelled';
+    task.completedAt = now;
+    task.nextAttemptAt = undefined;
+    task.error = reason;
+    return [task, ...cancelDependents(data, task.id, 'was cancelled', now)];
+  });
+}
+
+/**
+ * Cancel the tasks that depend on a failed task, since they can never run
+ */
+export async function cancelDependentTasks(cwd: string, id: string): Promise<Task[]> {
+  return withTaskStoreLock(cwd, async (data) => {
+    return cancelDependents(data, id, 'failed', Date.now());
+  });
+}
+
 /**
  * Get task counts by status
  */
@@ -525,6 +718,7 @@ export async function getTaskCounts(cwd: string): Promise<Record<TaskStatus, num
     in_progress: 0,
     completed: 0,
     failed: 0,
+    cancelled: 0,
   };
   for (const task of data.tasks) {
     counts[task.status]++;
@@ -2,7 +2,7 @@
  * Task types for the task queue management system
  */
 
-export type TaskStatus = 'pending' | 'in_progress' | 'completed' | 'failed';
+export type TaskStatus = 'pending' | 'in_progress' | 'completed' | 'failed' | 'cancelled';
 export type TaskPriority = 'high' | 'normal' | 'low';
 
 /**
@@ -27,6 +27,22 @@ export interface TaskRecurrence {
   parentId?: string;
 }
 
+/**
+ * Retry policy for tasks executed by the task runner
+ */
+export interface TaskRetryPolicy {
+  /** Retries after the first attempt (default: 0) */
+  maxRetries: number;
+  /** Delay before the first retry in ms (default: 1000) */
+  delayMs?: number;
+  /** Multiplier applied to the delay for each further retry (default: 2) */
+  backoffMultiplier?: number;
+  /** Upper bound for the retry delay in ms (default: 60000) */
+  maxDelayMs?: number;
+  /** Also retry attempts that timed out (default: false) */
+  retryOnTimeout?: boolean;
+}
+
 /**
  * A task in the queue
  */
@@ -50,6 +66,18 @@ export interface Task {
   isRecurringTemplate?: boolean;
   /** Next scheduled run time for recurring tasks */
   nextRunAt?: number;
+  /** Retry policy used by the task runner */
+  retry?: TaskRetryPolicy;
+  /** Timeout per attempt in ms when run by the task runner */
+  timeoutMs?: number;
+  /** Number of attempts the task runner has started */
+  attempts?: number;
+  /** Earliest time of the next attempt (set while waiting to retry) */
+  nextAttemptAt?: number;
+  /** Process running the current attempt */
+  ownerPid?: number;
+  /** Last time the runner confirmed the current attempt is still running */
+  heartbeatAt?: number;
 }
 
 /**
@@ -71,6 +99,10 @@ export interface TaskCreateOptions {
     maxOccurrences?: number;
     endAt?: number;
   };
+  /** Retry policy used by the task runner */
+  retry?: TaskRetryPolicy;
+  /** Timeout per attempt in ms when run by the task runner */
+  timeoutMs?: number;
 }
 
 /**
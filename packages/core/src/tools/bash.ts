@@ -3,6 +3,7 @@ import type { ToolExecutor } from './registry';
 import { ErrorCodes, ToolExecutionError } from '../errors';
 import { getSecurityLogger } from '../security/logger';
 import { validateBashCommand } from '../security/bash-validator';
+import type { AnalyzedShellCommand } from '../security/shell-analyzer';
 import { isPrivateHostOrResolved } from '../security/network-validator';
 import { loadConfig } from '../config';
 import { getRuntime } from '../runtime';
@@ -14,40 +15,6 @@ function killProcess(proc: { kill: () => void }): void {
   proc.kill();
 }
 
-function stripQuotedSegments(input: string): string {
-  let result = '';
-  let quote: '"' | '\'' | null = null;
-  let escaped = false;
-
-  for (let i = 0; i < input.length; i += 1) {
-    const char = input[i];
-
-    if (quote) {
-      if (quote === '"' && !escaped && char === '\\') {
-        escaped = true;
-        continue;
-      }
-      if (!escaped && char === quote) {
-        quote = null;
-        result += char;
-        continue;
-      }
-      escaped = false;
-      continue;
-    }
-
-    if (char === '"' || char === '\'') {
-      quote = char;
-      result += char;
-      continue;
-    }
-
-    result += char;
-  }
-
-  return result;
-}
-
 function normalizeNewlinesOutsideQuotes(input: string): string {
   let result = '';
   let quote: '"' | '\'' | null = null;
@@ -137,52 +104,8 @@ export class BashTool {
     'jq',
   ];
 
-  // Explicitly blocked commands
-  private static readonly BLOCKED_PATTERNS = [
-    // Deletion
-    /\brm\b/, /\brmdir\b/, /\bunlink\b/,
-    // Modification
-    /\bmv\b/, /\bcp\b/,
-    // Permission changes
-    /\bchmod\b/, /\bchown\b/, /\bchgrp\b/,
-    // Privilege escalation
-    /\bsudo\b/, /\bsu\b/, /\bdoas\b/,
-    // Package installation
-    /\bnpm\s+(install|i|add|ci)\b/, /\bpnpm\s+(install|i|add)\b/,
-    /\byarn\s+(install|add)\b/, /\bbun\s+(install|add|i)\b/,
-    /\bpip\s+install\b/, /\bpip3\s+install\b/,
-    /\bbrew\s+install\b/, /\bapt\s+install\b/, /\bapt-get\s+install\b/,
-    // Git writes
-    /\bgit\s+(push|commit|checkout|reset|rebase|merge|pull|stash|cherry-pick|revert)\b/,
-    /\bgit\s+add\b/,
-    /\bgit\s+remote\s+(add|set-url|remove|rm|rename)\b/,
-    /\bgit\s+tag\s+(-d|--delete|-f)\b/,
-    /\bgit\s+branch\s+(-d|-D|-m|--delete|--move)\b/,
-    // Dangerous pipes (piping to shell)
-    /\|\s*(bash|sh|zsh|fish)\b/,
-    /curl.*\|\s*(bash|sh)/, /wget.*\|\s*(bash|sh)/,
-    // Semicolon chaining (sequential execution regardless of result)
-    /;/,
-    // Newlines (can hide commands)
-    /[\r\n]/,
-    // File writing via redirection
-    />\s*[^|]/, />>/,
-    // Process control
-    /\bkill\b/, /\bpkill\b/, /\bkillall\b/,
-    // System modification
-    /\bmkfs\b/, /\bdd\b/, /\bfdisk\b/, /\bparted\b/,
-    // Network dangerous
-    /\bnc\s+-l/, /\bnetcat\s+-l/,
-    // Editors (would hang)
-    /\bvim?\b/, /\bnano\b/, /\bemacs\b/,
-    // Make/build (can modify)
-    /\bmake\b/, /\bcmake\b/,
-    // Docker (can be dangerous)
-    /\bdocker\s+(run|exec|build|push)\b/,
-  ];
-
   /**
-   * Check if a command part (single command without chaining) is allowed
+   * Check if a single command (already split out of pipelines and lists) is allowed
    */
   private static isCommandPartAllowed(commandPart: string, allowlist: string[]): boolean {
     const trimmed = commandPart.trim().toLowerCase();
@@ -195,43 +118,23 @@ export class BashTool {
   }
 
   /**
-   * Check if all parts of a chained command are allowed.
-   * Supports && (and), || (or), and | (pipe) operators.
+   * Connector CLIs (connect-*) manage their own writes
    */
-  private static areAllCommandPartsAllowed(command: string, allowlist: string[]): boolean {
-    // Split by &&, ||, and | while respecting quotes
-    const parts = this.splitCommandByOperators(command);
-    if (parts.length === 0) return false;
-
-    for (const part of parts) {
-      if (!this.isCommandPartAllowed(part, allowlist)) {
-        return false;
-      }
-    }
-    return true;
+  private static isConnectorCommand(commandText: string): boolean {
+    const trimmed = commandText.trim().toLowerCase();
+    return trimmed.startsWith('connect-') || trimmed.startsWith('connect_');
   }
 
   /**
-   * Extract URLs from a curl command string
+   * Extract URLs from curl arguments
    */
-  private static extractCurlUrls(command: string): string[] {
+  private static extractCurlUrls(args: string[]): string[] {
     const urls: string[] = [];
 
-    // Match curl command and extract URL patterns
-    // curl supports URLs directly or via -u/--url flag
-    const curlMatch = command.match(/^curl\s+(.+)$/i);
-    if (!curlMatch) return urls;
-
-    const args = curlMatch[1];
-
-    // Match URLs (http:// or https://)
-    const urlMatches = args.match(/https?:\/\/[^\s'"]+/gi);
-    if (urlMatches) {
-      for (const url of urlMatches) {
-        // Clean up any trailing characters that might be part of shell syntax
-        const cleanUrl = url.replace(/[;|&<>]+$/, '');
-        if (cleanUrl) urls.push(cleanUrl);
-      }
+    // curl supports URLs directly or via --url, possibly inside other words
+    for (const arg of args) {
+      const urlMatches = arg.match(/https?:\/\/[^\s'"]+/gi);
+      if (urlMatches) urls.push(...urlMatches);
     }
 
     return urls;
@@ -240,15 +143,10 @@ export class BashTool {
   /**
    * Validate that curl URLs don't target private/internal networks (SSRF protection)
    */
-  private static async validateCurlSsrf(command: string): Promise<{ valid: boolean; blockedUrl?: string }> {
-    const trimmed = command.trim().toLowerCase();
-
-    // Only check if it's a curl command
-    if (!trimmed.startsWith('curl ')) {
-      return { valid: true };
-    }
-
-    const urls = this.extractCurlUrls(command.trim());
+  private static async validateCurlSsrf(commands: AnalyzedShellCommand[]): Promise<{ valid: boolean; blockedUrl?: string }> {
+    const urls = commands
+      .filter((command) => command.name === 'curl')
+      .flatMap((command) => this.extractCurlUrls(command.argv.slice(1)));
 
     for (const urlStr of urls) {
       try {
@@ -265,72 +163,6 @@ export class BashTool {
     return { valid: true };
   }
 
-  /**
-   * Split a command string by operators (&&, ||, |) while respecting quotes
-   */
-  private static splitCommandByOperators(command: string): string[] {
-    const parts: string[] = [];
-    let current = '';
-    let quote: '"' | '\'' | null = null;
-    let escaped = false;
-    let i = 0;
-
-    while (i < command.length) {
-      const char = command[i];
-
-      // Handle escape in double quotes
-      if (quote === '"' && !escaped && char === '\\') {
-        escaped = true;
-        current += char;
-        i++;
-        continue;
-      }
-
-      // Handle quotes
-      if (!quote && (char === '"' || char === '\'')) {
-        quote = char;
-        current += char;
-        i++;
-        continue;
-      }
-
-      if (quote && !escaped && char === quote) {
-        quote = null;
-        current += char;
-        i++;
-        continue;
-      }
-
-      escaped = false;
-
-      // Check for operators (only outside quotes)
-      if (!quote) {
-        // Check for && or ||
-        if ((char === '&' && command[i + 1] === '&') ||
-            (char === '|' && command[i + 1] === '|')) {
-          if (current.trim()) parts.push(current.trim());
-          current = '';
-          i += 2;
-          continue;
-        }
-
-        // Check for single |
-        if (char === '|') {
-          if (current.trim()) parts.push(current.trim());
-          current = '';
-          i++;
-          continue;
-        }
-      }
-
-      current += char;
-      i++;
-    }
-
-    if (current.trim()) parts.push(current.trim());
-    return parts;
-  }
-
   static readonly executor: ToolExecutor = async (input) => {
     const command = input.command as string;
     const cwd = (input.cwd as string) || process.cwd();
@@ -356,9 +188,9 @@ export class BashTool {
       ? normalizeNewlinesOutsideQuotes(baseCommand).trim()
       : baseCommand;
     const commandForChecks = commandForExec;
-    const commandSansQuotes = stripQuotedSegments(commandForChecks);
 
-    const securityCheck = validateBashCommand(commandForChecks);
+    const securityCheck = validateBashCommand(commandForChecks, { cwd });
+    const analysis = securityCheck.analysis;
     if (!securityCheck.valid) {
       getSecurityLogger().log({
         eventType: 'blocked_command',
@@ -380,32 +212,36 @@ export class BashTool {
       });
     }
 
-    if (!allowAll) {
-      // Check against blocked patterns
-      for (const pattern of this.BLOCKED_PATTERNS) {
-        if (pattern.test(commandSansQuotes)) {
-          getSecurityLogger().log({
-            eventType: 'blocked_command',
-            severity: 'high',
-            details: {
-              tool: 'bash',
-              command,
-              reason: 'Blocked command pattern detected',
-            },
-            sessionId: (input.sessionId as string) || 'unknown',
-          });
-          throw new ToolExecutionError(
-            'This command is not allowed. Only read-only commands are permitted (ls, cat, grep, find, git status/log/diff, etc.)',
-            {
-              toolName: 'bash',
-              toolInput: input,
-              code: ErrorCodes.TOOL_PERMISSION_DENIED,
-              recoverable: false,
-              retryable: false,
-              suggestion: 'Use a read-only command from the allowed list.',
-            }
-          );
-        }
+    if (!allowAll && analysis) {
+      // Only read-only (or network) commands, chained with pipes, && and ||
+      const writing = analysis.commands.find((part) =>
+        !this.isConnectorCommand(part.text)
+        && part.effects.some((effect) => effect !== 'read_only' && effect !== 'network')
+      );
+      if (analysis.hasSequence || writing) {
+        getSecurityLogger().log({
+          eventType: 'blocked_command',
+          severity: 'high',
+          details: {
+            tool: 'bash',
+            command,
+            reason: writing
+              ? `Command is not read-only (${writing.effects.join(', ')}): ${writing.text || 'redirect'}`
+              : 'Command sequencing (;, & or newline) detected',
+          },
+          sessionId: (input.sessionId as string) || 'unknown',
+        });
+        throw new ToolExecutionError(
+          'This command is not allowed. Only read-only commands are permitted (ls, cat, grep, find, git status/log/diff, etc.)',
+          {
+            toolName: 'bash',
+            toolInput: input,
+            code: ErrorCodes.TOOL_PERMISSION_DENIED,
+            recoverable: false,
+            retryable: false,
+            suggestion: 'Use a read-only command from the allowed list.',
+          }
+        );
       }
     }
 
@@ -436,11 +272,12 @@ export class BashTool {
     }
 
     if (!allowAll) {
-      // Check if command (or all parts of a chained command) are in the allowlist
+      // Check if every command (including each side of a pipe or && chain) is in the allowlist
       const allowlist = allowEnv
         ? this.ALLOWED_COMMANDS
         : this.ALLOWED_COMMANDS.filter((allowed) => allowed !== 'env' && allowed !== 'printenv');
-      const isAllowed = this.areAllCommandPartsAllowed(commandForChecks, allowlist);
+      const parts = analysis ? analysis.commands.filter((part) => part.argv.length > 0) : [];
+      const isAllowed = parts.length > 0 && parts.every((part) => this.isCommandPartAllowed(part.text, allowlist));
 
       if (!isAllowed) {
         getSecurityLogger().log({
@@ -467,7 +304,7 @@ export class BashTool {
       }
 
       // SSRF protection for curl commands
-      const ssrfCheck = await this.validateCurlSsrf(commandForChecks);
+      const ssrfCheck = await this.validateCurlSsrf(parts);
       if (!ssrfCheck.valid) {
         getSecurityLogger().log({
           eventType: 'blocked_command',
@@ -28,6 +28,9 @@ const SAFE_READ_PATHS = [
   'llm.provider',
   'llm.model',
   'llm.maxTokens',
+  'llm.promptCaching',
+  'llm.thinking.enabled',
+  'llm.thinking.budgetTokens',
   'voice.enabled',
   'voice.stt.provider',
   'voice.stt.model',
@@ -104,6 +107,9 @@ const SAFE_READ_PATHS = [
 const SAFE_WRITE_PATHS = [
   'llm.model',
   'llm.maxTokens',
+  'llm.promptCaching',
+  'llm.thinking.enabled',
+  'llm.thinking.budgetTokens',
   'voice.enabled',
   'voice.stt.language',
   'voice.tts.stability',
@@ -1,5 +1,5 @@
 import type { Tool, Connector, ConnectorCommand, ConnectorsConfigShared } from '@hasna/assistants-shared';
-import type { ToolExecutor, ToolRegistry } from './registry';
+import type { ToolExecutor, ToolProgressCallback, ToolRegistry } from './registry';
 import type { JobManager } from '../jobs';
 import { homedir } from 'os';
 import { join, delimiter, dirname, extname } from 'path';
@@ -8,6 +8,21 @@ import { ConnectorError, ErrorCodes } from '../errors';
 import { getRuntime } from '../runtime';
 import { buildCommandArgs, splitCommandLine } from '../utils/command-line';
 import { ConnectorAutoRefreshManager } from '../connectors/auto-refresh';
+import {
+  clearConnectorManifestCache,
+  connectorFromManifest,
+  loadConnectorManifest,
+  resolveConnectorCliPath,
+} from '../connectors/manifest';
+import {
+  CONNECTOR_OUTPUT_ENV,
+  CONNECTOR_OUTPUT_FORMAT,
+  ConnectorOutputParser,
+  formatConnectorResult,
+  isConnectorPageCursor,
+  readConnectorOutput,
+  readConnectorResultPage,
+} from '../connectors/output';
 
 /**
  * Normalize connectors config to the object format
@@ -22,19 +37,42 @@ function normalizeConnectorsConfig(config?: string[] | ConnectorsConfigShared):
   return config;
 }
 
+/**
+ * Command name with its arguments and options, when known (from a manifest)
+ */
+function formatCommandUsage(cmd: ConnectorCommand): string {
+  const parts = [cmd.name];
+  for (const arg of cmd.args) {
+    parts.push(arg.required ? `<${arg.name}>` : `[${arg.name}]`);
+  }
+  for (const option of cmd.options) {
+    parts.push(option.type === 'boolean' ? `[--${option.name}]` : `[--${option.name} <${option.type}>]`);
+  }
+  return parts.join(' ');
+}
+
 type TimeoutResolve = (value: { exitCode: number }) => void;
 
 function resolveTimeout(resolve: TimeoutResolve): void {
   resolve({ exitCode: 1 });
 }
 
+/**
+ * Size and mtime of the binary a connector was discovered from
+ */
+interface BinaryStamp {
+  size: number;
+  mtimeMs: number;
+}
+
 interface DiskCache {
   version: number;
   timestamp: number;
   connectors: Record<string, Connector | null>;
+  binaries?: Record<string, BinaryStamp>;
 }
 
-const CACHE_VERSION = 1;
+const CACHE_VERSION = 2;
 const CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
 
 /**
@@ -43,6 +81,7 @@ const CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
 export class ConnectorBridge {
   private connectors: Map<string, Connector> = new Map();
   private static cache: Map<string, Connector | null> = new Map();
+  private static binaries: Map<string, BinaryStamp> = new Map();
   private static diskCacheLoaded = false;
   private cwd?: string;
   private jobManagerGetter: (() => JobManager | null) | null = null;
@@ -89,11 +128,34 @@ export class ConnectorBridge {
       for (const [name, connector] of Object.entries(data.connectors)) {
         ConnectorBridge.cache.set(name, connector);
       }
+      for (const [name, stamp] of Object.entries(data.binaries ?? {})) {
+        ConnectorBridge.binaries.set(name, stamp);
+      }
     } catch {
       // Cache read failed, will rediscover
     }
   }
 
+  private static getBinaryStamp(cli: string): BinaryStamp | null {
+    const binary = resolveConnectorCliPath(cli);
+    if (!binary) return null;
+    try {
+      const stats = statSync(binary);
+      return { size: stats.size, mtimeMs: stats.mtimeMs };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Whether a cached connector was discovered from the binary now installed
+   */
+  private static isCachedBinaryCurrent(name: string, connector: Connector): boolean {
+    const stamp = ConnectorBridge.binaries.get(name);
+    const current = ConnectorBridge.getBinaryStamp(connector.cli);
+    return !!stamp && !!current && stamp.size === current.size && stamp.mtimeMs === current.mtimeMs;
+  }
+
   private static saveDiskCache(): void {
     try {
       const cachePath = ConnectorBridge.getCachePath();
@@ -106,6 +168,7 @@ export class ConnectorBridge {
         version: CACHE_VERSION,
         timestamp: Date.now(),
         connectors: Object.fromEntries(ConnectorBridge.cache),
+        binaries: Object.fromEntries(ConnectorBridge.binaries),
       };
 
       writeFileSync(cachePath, JSON.stringify(data));
@@ -258,6 +321,9 @@ export class ConnectorBridge {
       } else if (this.isMinimalConnector(cached)) {
         // Minimal connector from fastDiscover - needs full discovery
         uncached.push(name);
+      } else if (!ConnectorBridge.isCachedBinaryCurrent(name, cached)) {
+        // Upgraded or reinstalled since it was discovered
+        uncached.push(name);
       }
     }
 
@@ -352,6 +418,12 @@ export class ConnectorBridge {
       const connector = await this.discoverConnector(name, cli);
       if (connector) {
         ConnectorBridge.cache.set(name, connector);
+        const stamp = ConnectorBridge.getBinaryStamp(cli);
+        if (stamp) {
+          ConnectorBridge.binaries.set(name, stamp);
+        } else {
+          ConnectorBridge.binaries.delete(name);
+        }
       } else {
         // Discovery failed, fall back to minimal connector
         ConnectorBridge.cache.set(name, this.createMinimalConnector(name, cli));
@@ -407,10 +479,19 @@ export class ConnectorBridge {
   }
 
   /**
-   * Discover a single connector's commands from its CLI help
+   * Discover a single connector's commands from its manifest, falling back
+   * to its CLI help when it has none
    */
   private async discoverConnector(name: string, cli: string): Promise<Connector | null> {
     try {
+      const loaded = await loadConnectorManifest(name, cli, {
+        homeDir: this.getHomeDir(),
+        cwd: this.cwd || process.cwd(),
+      });
+      if (loaded) {
+        return connectorFromManifest(name, cli, loaded.manifest);
+      }
+
       const runtime = getRuntime();
       const cmdParts = buildCommandArgs(cli, ['--help']);
       const proc = runtime.spawn(cmdParts, {
@@ -447,6 +528,7 @@ export class ConnectorBridge {
           type: 'oauth2',
           statusCommand: `${cli} auth status`,
         },
+        source: 'help',
       };
     } catch {
       return null;
@@ -712,7 +794,7 @@ export class ConnectorBridge {
 
     const commandDescriptions: string[] = [];
     for (const cmd of connector.commands) {
-      commandDescriptions.push(`${cmd.name} (${cmd.description})`);
+      commandDescriptions.push(`${formatCommandUsage(cmd)} (${cmd.description})`);
     }
 
     // Create a single tool per connector with command as a parameter
@@ -733,7 +815,7 @@ export class ConnectorBridge {
           },
           options: {
             type: 'object',
-            description: 'Options to pass to the command (key-value pairs)',
+            description: 'Options to pass to the command (key-value pairs). For the next page of a result, pass its page.nextCursor as cursor.',
           },
         },
         required: ['command'],
@@ -745,13 +827,27 @@ export class ConnectorBridge {
    * Create an executor function for a connector
    */
   private createExecutor(connector: Connector): ToolExecutor {
-    return async (input: Record<string, unknown>): Promise<string> => {
+    return async (input: Record<string, unknown>, _signal?: AbortSignal, onProgress?: ToolProgressCallback): Promise<string> => {
       const command = input.command as string;
       const args = (input.args as string[]) || [];
       const options = (input.options as Record<string, unknown>) || {};
       const cwd = typeof input.cwd === 'string' ? input.cwd : process.cwd();
       const timeoutMs = Number(options.timeoutMs || options.timeout || 15000);
 
+      // Later pages of a large result are served from the earlier run
+      if (isConnectorPageCursor(options.cursor)) {
+        const page = readConnectorResultPage(options.cursor);
+        if (page) return page;
+        throw new ConnectorError('Page cursor has expired.', {
+          connectorName: connector.name,
+          command,
+          code: ErrorCodes.CONNECTOR_EXECUTION_FAILED,
+          recoverable: true,
+          retryable: false,
+          suggestion: 'Run the command again without a cursor.',
+        });
+      }
+
       // Check if this should run as an async job
       const jobManager = this.jobManagerGetter?.();
       if (jobManager && jobManager.shouldRunAsync(connector.name, input)) {
@@ -804,6 +900,7 @@ export class ConnectorBridge {
           stdin: 'ignore',
           stdout: 'pipe',
           stderr: 'pipe',
+          env: { [CONNECTOR_OUTPUT_ENV]: CONNECTOR_OUTPUT_FORMAT },
         });
         let timedOut = false;
         const timer = setTimeout(() => {
@@ -811,8 +908,8 @@ export class ConnectorBridge {
           proc.kill();
         }, Number.isFinite(timeoutMs) && timeoutMs > 0 ? timeoutMs : 15000);
 
-        const [stdout, stderr] = await Promise.all([
-          proc.stdout ? new Response(proc.stdout).text() : '',
+        const [output, stderr] = await Promise.all([
+          readConnectorOutput(proc.stdout, new ConnectorOutputParser(onProgress)),
           proc.stderr ? new Response(proc.stderr).text() : '',
         ]);
         const exitCode = await proc.exited;
@@ -832,10 +929,10 @@ export class ConnectorBridge {
           );
         }
 
-        if (exitCode !== 0) {
+        if (exitCode !== 0 || output.error) {
           const stderrText = stderr.toString().trim();
-          const stdoutText = stdout.toString().trim();
-          throw new ConnectorError(`Exit ${exitCode}: ${stderrText || stdoutText || 'Command failed'}`, {
+          const reason = output.error || stderrText || output.text || 'Command failed';
+          throw new ConnectorError(exitCode !== 0 ? `Exit ${exitCode}: ${reason}` : reason, {
             connectorName: connector.name,
             command,
             code: ErrorCodes.CONNECTOR_EXECUTION_FAILED,
@@ -844,7 +941,7 @@ export class ConnectorBridge {
           });
         }
 
-        return stdout.toString().trim() || 'Command completed successfully';
+        return formatConnectorResult(output);
       } catch (error) {
         if (error instanceof ConnectorError) throw error;
         throw new ConnectorError(error instanceof Error ? error.message : String(error), {
@@ -877,7 +974,9 @@ export class ConnectorBridge {
    */
   static clearCache(): void {
     ConnectorBridge.cache.clear();
+    ConnectorBridge.binaries.clear();
     ConnectorBridge.diskCacheLoaded = false;
+    clearConnectorManifestCache();
 
     // Remove disk cache file
     try {
@@ -1053,7 +1152,7 @@ export const connectorExecuteTool: Tool = {
       },
       options: {
         type: 'object',
-        description: 'Options to pass to the command (key-value pairs)',
+        description: 'Options to pass to the command (key-value pairs). For the next page of a result, pass its page.nextCursor as cursor.',
       },
     },
     required: ['connector', 'command'],
@@ -1067,7 +1166,7 @@ export interface ConnectorExecuteContext {
 export function createConnectorExecuteExecutor(
   context: ConnectorExecuteContext
 ): ToolExecutor {
-  return async (input: Record<string, unknown>): Promise<string> => {
+  return async (input: Record<string, unknown>, signal?: AbortSignal, onProgress?: ToolProgressCallback): Promise<string> => {
     const bridge = context.getConnectorBridge();
     if (!bridge) {
       return JSON.stringify({
@@ -1102,7 +1201,7 @@ export function createConnectorExecuteExecutor(
       args: input.args,
       options: input.options,
       cwd: input.cwd,
-    });
+    }, signal, onProgress);
   };
 }
 
@@ -1342,6 +1441,7 @@ export function createConnectorsListExecutor(
       const base: Record<string, unknown> = {
         name: connector.name,
         description: connector.description,
+        ...(verbose && connector.source ? { source: connector.source } : {}),
         autoRefresh: autoRefreshEntry
           ? {
               enabled: autoRefreshEntry.enabled,
@@ -1367,6 +1467,7 @@ export function createConnectorsListExecutor(
                 type: o.type,
                 default: o.default,
               })),
+              ...(cmd.outputSchema ? { output: cmd.outputSchema } : {}),
             }))
           : connector.commands.map((cmd) => cmd.name),
       };
@@ -1,8 +1,8 @@
 import type { Tool } from '@hasna/assistants-shared';
 import type { ToolExecutor, ToolRegistry } from './registry';
-import { join, resolve, dirname, sep } from 'path';
+import { join, resolve, dirname, relative, sep } from 'path';
 import { homedir } from 'os';
-import { mkdir } from 'fs/promises';
+import { mkdir, stat, unlink } from 'fs/promises';
 import { getProjectConfigDir } from '../config';
 import { getRuntime } from '../runtime';
 import { ErrorCodes, ToolExecutionError } from '../errors';
@@ -10,6 +10,14 @@ import { validatePath } from '../validation/paths';
 import { exceedsFileReadLimit, getLimits } from '../validation/limits';
 import { getSecurityLogger } from '../security/logger';
 import { isPathSafe } from '../security/path-validator';
+import { atomicWriteFile } from '../utils/atomic-write';
+import {
+  applyHunks,
+  countDiffChanges,
+  createUnifiedDiff,
+  parseUnifiedDiff,
+  PatchApplyError,
+} from '../utils/unified-diff';
 
 // Session ID for temp folder (set during registration)
 let currentSessionId: string = 'default';
@@ -33,8 +41,45 @@ function isInScriptsFolder(path: string, cwd: string, sessionId?: string): boole
 }
 
 /**
- * Filesystem tools - read, write, glob, grep
+ * Resolve where the write tool saves a file (inside the session scripts folder)
+ */
+export function resolveWriteToolPath(filename: string, cwd: string, sessionId?: string): string {
+  // Sanitize filename - remove any path traversal attempts
+  const sanitizedFilename = filename
+    .replace(/\.\.[/\\]/g, '')
+    .replace(/\.\./g, '')
+    .replace(/^[/\\]+/, '');
+  return join(getScriptsFolder(cwd, sessionId), sanitizedFilename);
+}
+
+// Last observed modification time per session and file, recorded on read and after edits
+const readStamps = new Map<string, Map<string, number>>();
+
+/**
+ * Read stamps of the session a tool call belongs to
+ */
+function getReadStamps(input: Record<string, unknown>): Map<string, number> {
+  const sessionId = (input.sessionId as string) || currentSessionId;
+  let stamps = readStamps.get(sessionId);
+  if (!stamps) {
+    stamps = new Map();
+    readStamps.set(sessionId, stamps);
+  }
+  return stamps;
+}
+
+async function getMtime(path: string): Promise<number | null> {
+  try {
+    return (await stat(path)).mtimeMs;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Filesystem tools - read, write, edit, apply_patch, glob, grep
  * Write operations are RESTRICTED to the project scripts folder (.assistants/scripts/{session-id}/)
+ * Edit and patch operations are RESTRICTED to files within the project directory
  */
 export class FilesystemTools {
   private static resolveInputPath(baseCwd: string, inputPath: string): string {
@@ -57,6 +102,8 @@ export class FilesystemTools {
     }
     registry.register(this.readTool, this.readExecutor);
     registry.register(this.writeTool, this.writeExecutor);
+    registry.register(this.editTool, this.editExecutor);
+    registry.register(this.applyPatchTool, this.applyPatchExecutor);
     registry.register(this.globTool, this.globExecutor);
     registry.register(this.grepTool, this.grepExecutor);
     registry.register(this.readPdfTool, this.readPdfExecutor);
@@ -178,6 +225,10 @@ export class FilesystemTools {
       }
 
       const content = await file.text();
+      const mtime = await getMtime(validated.resolved);
+      if (mtime !== null) {
+        getReadStamps(input).set(validated.resolved, mtime);
+      }
       const normalized = content.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
       const lines = normalized.split('\n');
 
@@ -262,12 +313,7 @@ export class FilesystemTools {
       });
     }
 
-    // Sanitize filename - remove any path traversal attempts
-    const sanitizedFilename = filename
-      .replace(/\.\.[/\\]/g, '')
-      .replace(/\.\./g, '')
-      .replace(/^[/\\]+/, '');
-    const path = join(scriptsFolder, sanitizedFilename);
+    const path = resolveWriteToolPath(filename, baseCwd, input.sessionId as string | undefined);
 
     // Double check we're in scripts folder
     if (!isInScriptsFolder(path, baseCwd, input.sessionId as string | undefined)) {
@@ -334,6 +380,390 @@ export class FilesystemTools {
     }
   };
 
+  // ============================================
+  // Edit Tool (RESTRICTED to project directory)
+  // ============================================
+
+  /**
+   * Resolve a path for modification and run it through the path safety checks.
+   * Edits are only allowed within the working directory.
+   */
+  private static async resolveEditablePath(
+    toolName: string,
+    input: Record<string, unknown>,
+    rawPath: string,
+    operation: 'write' | 'delete' = 'write'
+  ): Promise<string> {
+    const baseCwd = (input.cwd as string) || process.cwd();
+    if (!rawPath) {
+      throw new ToolExecutionError('File path is required', {
+        toolName,
+        toolInput: input,
+        code: ErrorCodes.VALIDATION_OUT_OF_RANGE,
+        recoverable: false,
+        retryable: false,
+        suggestion: 'Provide a valid file path.',
+      });
+    }
+    const path = FilesystemTools.resolveInputPath(baseCwd, rawPath);
+
+    const safety = await isPathSafe(path, operation, { cwd: baseCwd, enforceAllowlist: true });
+    if (!safety.safe) {
+      getSecurityLogger().log({
+        eventType: 'path_violation',
+        severity: 'high',
+        details: {
+          tool: toolName,
+          path,
+          reason: safety.reason || 'Blocked path',
+        },
+        sessionId: (input.sessionId as string) || 'unknown',
+      });
+      throw new ToolExecutionError(safety.reason || 'Blocked path', {
+        toolName,
+        toolInput: input,
+        code: ErrorCodes.TOOL_PERMISSION_DENIED,
+        recoverable: false,
+        retryable: false,
+      });
+    }
+
+    const validated = await validatePath(path, { allowSymlinks: false, allowedPaths: [baseCwd] });
+    if (!validated.valid) {
+      throw new ToolExecutionError(validated.error || 'Invalid path', {
+        toolName,
+        toolInput: input,
+        code: ErrorCodes.VALIDATION_OUT_OF_RANGE,
+        recoverable: false,
+        retryable: false,
+        suggestion: 'Edit only files within the project directory.',
+      });
+    }
+    return validated.resolved;
+  }
+
+  /**
+   * Reject modifications to files that changed on disk since they were last read.
+   */
+  private static async assertNotStale(
+    toolName: string,
+    input: Record<string, unknown>,
+    path: string
+  ): Promise<void> {
+    const lastSeen = getReadStamps(input).get(path);
+    if (lastSeen === undefined) return;
+    const current = await getMtime(path);
+    if (current !== null && current !== lastSeen) {
+      throw new ToolExecutionError(`File has been modified since it was last read: ${path}`, {
+        toolName,
+        toolInput: input,
+        code: ErrorCodes.TOOL_EXECUTION_FAILED,
+        recoverable: true,
+        retryable: false,
+        suggestion: 'Read the file again before editing it.',
+      });
+    }
+  }
+
+  private static async readForEdit(
+    toolName: string,
+    input: Record<string, unknown>,
+    path: string
+  ): Promise<string> {
+    const file = getRuntime().file(path);
+    if (!(await file.exists())) {
+      throw new ToolExecutionError(`File not found: ${path}`, {
+        toolName,
+        toolInput: input,
+        code: ErrorCodes.TOOL_EXECUTION_FAILED,
+        recoverable: false,
+        retryable: false,
+        suggestion: 'Check the file path and try again.',
+      });
+    }
+    const limits = getLimits();
+    if (exceedsFileReadLimit(file.size, limits.maxFileReadSize)) {
+      throw new ToolExecutionError(`File exceeds size limit (${limits.maxFileReadSize} bytes)`, {
+        toolName,
+        toolInput: input,
+        code: ErrorCodes.VALIDATION_OUT_OF_RANGE,
+        recoverable: false,
+        retryable: false,
+      });
+    }
+    await FilesystemTools.assertNotStale(toolName, input, path);
+    return file.text();
+  }
+
+  private static async writeEdited(input: Record<string, unknown>, path: string, content: string): Promise<void> {
+    await mkdir(dirname(path), { recursive: true });
+    await atomicWriteFile(path, content);
+    const mtime = await getMtime(path);
+    if (mtime !== null) {
+      getReadStamps(input).set(path, mtime);
+    }
+  }
+
+  static readonly editTool: Tool = {
+    name: 'edit',
+    description:
+      'Edit a file in the project by replacing an exact string. old_string must match the file exactly ' +
+      '(including indentation) and be unique unless replace_all is set. Prefer this over rewriting whole files. ' +
+      'Fails if the file changed on disk since it was last read.',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'The file path to edit (absolute or relative to cwd)',
+        },
+        old_string: {
+          type: 'string',
+          description: 'The exact text to replace',
+        },
+        new_string: {
+          type: 'string',
+          description: 'The replacement text (must differ from old_string)',
+        },
+        replace_all: {
+          type: 'boolean',
+          description: 'Replace every occurrence of old_string (default: false)',
+        },
+        cwd: {
+          type: 'string',
+          description: 'Base working directory for relative paths (optional)',
+        },
+      },
+      required: ['path', 'old_string', 'new_string'],
+    },
+  };
+
+  static readonly editExecutor: ToolExecutor = async (input) => {
+    const rawPath = String(input.path || input.file_path || '').trim();
+    const oldString = input.old_string;
+    const newString = input.new_string;
+    const replaceAll = input.replace_all === true;
+    const baseCwd = (input.cwd as string) || process.cwd();
+
+    try {
+      if (typeof oldString !== 'string' || typeof newString !== 'string') {
+        throw new ToolExecutionError('old_string and new_string must be strings', {
+          toolName: 'edit',
+          toolInput: input,
+          code: ErrorCodes.VALIDATION_OUT_OF_RANGE,
+          recoverable: false,
+          retryable: false,
+        });
+      }
+      if (oldString.length === 0) {
+        throw new ToolExecutionError('old_string must not be empty', {
+          toolName: 'edit',
+          toolInput: input,
+          code: ErrorCodes.VALIDATION_OUT_OF_RANGE,
+          recoverable: false,
+          retryable: false,
+          suggestion: 'Use apply_patch to create new files.',
+        });
+      }
+      if (oldString === newString) {
+        throw new ToolExecutionError('old_string and new_string are identical', {
+          toolName: 'edit',
+          toolInput: input,
+          code: ErrorCodes.VALIDATION_OUT_OF_RANGE,
+          recoverable: false,
+          retryable: false,
+        });
+      }
+
+      const path = await FilesystemTools.resolveEditablePath('edit', input, rawPath);
+      const original = await FilesystemTools.readForEdit('edit', input, path);
+
+      const occurrences = original.split(oldString).length - 1;
+      if (occurrences === 0) {
+        throw new ToolExecutionError(`old_string not found in ${path}`, {
+          toolName: 'edit',
+          toolInput: input,
+          code: ErrorCodes.TOOL_EXECUTION_FAILED,
+          recoverable: true,
+          retryable: false,
+          suggestion: 'Read the file and copy the exact text, including whitespace.',
+        });
+      }
+      if (occurrences > 1 && !replaceAll) {
+        throw new ToolExecutionError(`old_string matches ${occurrences} locations in ${path}`, {
+          toolName: 'edit',
+          toolInput: input,
+          code: ErrorCodes.TOOL_EXECUTION_FAILED,
+          recoverable: true,
+          retryable: false,
+          suggestion: 'Include more surrounding context to make it unique, or set replace_all.',
+        });
+      }
+
+      const updated = replaceAll
+        ? original.split(oldString).join(newString)
+        : original.replace(oldString, () => newString);
+      await FilesystemTools.writeEdited(input, path, updated);
+
+      const displayPath = relative(baseCwd, path) || path;
+      const diff = createUnifiedDiff(original, updated, { oldPath: displayPath });
+      const { added, removed } = countDiffChanges(diff);
+      const replaced = replaceAll ? occurrences : 1;
+      return `Edited ${path} (${replaced} replacement${replaced === 1 ? '' : 's'}, +${added} -${removed})\n\n${diff}`;
+    } catch (error) {
+      if (error instanceof ToolExecutionError) throw error;
+      throw new ToolExecutionError(error instanceof Error ? error.message : String(error), {
+        toolName: 'edit',
+        toolInput: input,
+        code: ErrorCodes.TOOL_EXECUTION_FAILED,
+        recoverable: true,
+        retryable: false,
+      });
+    }
+  };
+
+  // ============================================
+  // Apply Patch Tool (RESTRICTED to project directory)
+  // ============================================
+
+  static readonly applyPatchTool: Tool = {
+    name: 'apply_patch',
+    description:
+      'Apply a unified diff (as produced by `git diff`) to one or more files in the project. ' +
+      'Supports multiple hunks and files, new files (--- /dev/null) and deletions (+++ /dev/null). ' +
+      'All files are validated before any are written; fails if a hunk does not match or a file changed since it was last read.',
+    parameters: {
+      type: 'object',
+      properties: {
+        patch: {
+          type: 'string',
+          description: 'Unified diff text with ---/+++ file headers and @@ hunk headers',
+        },
+        cwd: {
+          type: 'string',
+          description: 'Base working directory for relative paths (optional)',
+        },
+      },
+      required: ['patch'],
+    },
+  };
+
+  static readonly applyPatchExecutor: ToolExecutor = async (input) => {
+    const patch = input.patch;
+    const baseCwd = (input.cwd as string) || process.cwd();
+
+    try {
+      if (typeof patch !== 'string' || !patch.trim()) {
+        throw new ToolExecutionError('Patch is required', {
+          toolName: 'apply_patch',
+          toolInput: input,
+          code: ErrorCodes.VALIDATION_OUT_OF_RANGE,
+          recoverable: false,
+          retryable: false,
+        });
+      }
+
+      const filePatches = parseUnifiedDiff(patch);
+      if (filePatches.length === 0) {
+        throw new ToolExecutionError('Patch contains no file changes', {
+          toolName: 'apply_patch',
+          toolInput: input,
+          code: ErrorCodes.VALIDATION_OUT_OF_RANGE,
+          recoverable: false,
+          retryable: false,
+          suggestion: 'Provide a unified diff with ---/+++ headers and @@ hunks.',
+        });
+      }
+
+      // Validate and compute every file before writing any of them
+      const planned: Array<{ path: string; original: string; updated: string | null; created: boolean }> = [];
+      const seen = new Set<string>();
+      for (const filePatch of filePatches) {
+        const target = filePatch.newPath ?? filePatch.oldPath;
+        const isCreate = filePatch.oldPath === null;
+        const isDelete = filePatch.newPath === null;
+        const path = await FilesystemTools.resolveEditablePath(
+          'apply_patch',
+          input,
+          (target || '').trim(),
+          isDelete ? 'delete' : 'write'
+        );
+        if (seen.has(path)) {
+          throw new ToolExecutionError(`Patch modifies ${path} more than once`, {
+            toolName: 'apply_patch',
+            toolInput: input,
+            code: ErrorCodes.VALIDATION_OUT_OF_RANGE,
+            recoverable: false,
+            retryable: false,
+            suggestion: 'Combine all hunks for a file under a single file header.',
+          });
+        }
+        seen.add(path);
+
+        let original = '';
+        if (isCreate) {
+          if (await getRuntime().file(path).exists()) {
+            throw new ToolExecutionError(`Cannot create ${path}: file already exists`, {
+              toolName: 'apply_patch',
+              toolInput: input,
+              code: ErrorCodes.TOOL_EXECUTION_FAILED,
+              recoverable: true,
+              retryable: false,
+            });
+          }
+        } else {
+          original = await FilesystemTools.readForEdit('apply_patch', input, path);
+        }
+
+        let updated: string;
+        try {
+          updated = applyHunks(original, filePatch.hunks);
+        } catch (error) {
+          if (!(error instanceof PatchApplyError)) throw error;
+          throw new ToolExecutionError(`${path}: ${error.message}`, {
+            toolName: 'apply_patch',
+            toolInput: input,
+            code: ErrorCodes.TOOL_EXECUTION_FAILED,
+            recoverable: true,
+            retryable: false,
+            suggestion: 'Read the file again and regenerate the patch against its current content.',
+          });
+        }
+        planned.push({ path, original, updated: isDelete ? null : updated, created: isCreate });
+      }
+
+      const summaries: string[] = [];
+      const diffs: string[] = [];
+      for (const { path, original, updated, created } of planned) {
+        const displayPath = relative(baseCwd, path) || path;
+        if (updated === null) {
+          await unlink(path);
+          getReadStamps(input).delete(path);
+          summaries.push(`deleted ${displayPath}`);
+          diffs.push(createUnifiedDiff(original, '', { oldPath: displayPath, newPath: '/dev/null' }));
+          continue;
+        }
+        await FilesystemTools.writeEdited(input, path, updated);
+        const diff = createUnifiedDiff(original, updated, { oldPath: displayPath });
+        const { added, removed } = countDiffChanges(diff);
+        summaries.push(`${created ? 'created' : 'updated'} ${displayPath} (+${added} -${removed})`);
+        diffs.push(diff);
+      }
+
+      return `Applied patch to ${planned.length} file${planned.length === 1 ? '' : 's'}: ${summaries.join(', ')}\n\n${diffs.filter(Boolean).join('\n')}`;
+    } catch (error) {
+      if (error instanceof ToolExecutionError) throw error;
+      const message = error instanceof Error ? error.message : String(error);
+      throw new ToolExecutionError(message, {
+        toolName: 'apply_patch',
+        toolInput: input,
+        code: ErrorCodes.TOOL_EXECUTION_FAILED,
+        recoverable: true,
+        retryable: false,
+      });
+    }
+  };
+
   // ============================================
   // Glob Tool
   // ============================================
@@ -733,4 +1163,5 @@ export class FilesystemTools {
 export const __test__ = {
   getScriptsFolder,
   isInScriptsFolder,
+  readStamps,
 };
@@ -84,7 +84,7 @@ export const memoryRecallTool: Tool = {
       },
       search: {
         type: 'string',
-        description: 'Search term to find relevant memories (searches key, summary, and value)',
+        description: 'What to look for; memories are ranked by meaning, importance and recency (matches key, summary, value, and tags)',
       },
       category: {
         type: 'string',
@@ -531,9 +531,25 @@ export function createMemoryToolExecutors(
           });
         }
 
-        // Query with filters
+        if (search) {
+          const results = await manager.search(search, { category, limit });
+          return JSON.stringify({
+            found: results.length > 0,
+            count: results.length,
+            memories: results.map(({ memory: m, score }) => ({
+              key: m.key,
+              value: m.value,
+              category: m.category,
+              summary: m.summary,
+              importance: m.importance,
+              tags: m.tags,
+              score: Math.round(score * 1000) / 1000,
+            })),
+          });
+        }
+
+        // Category-only recall
         const result = await manager.query({
-          search: search || undefined,
           category,
           limit,
           orderBy: 'importance',
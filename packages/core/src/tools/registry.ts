@@ -1,4 +1,4 @@
-import type { Tool, ToolCall, ToolResult, ValidationConfig } from '@hasna/assistants-shared';
+import type { Tool, ToolCall, ToolProgressUpdate, ToolResult, ValidationConfig } from '@hasna/assistants-shared';
 import { sleep } from '@hasna/assistants-shared';
 import { AssistantError, ErrorAggregator, ErrorCodes, ToolExecutionError } from '../errors';
 import { enforceToolOutputLimit, getLimits } from '../validation/limits';
@@ -26,10 +26,22 @@ export interface AnnotatedTool extends Tool {
   };
 }
 
+/**
+ * Callback a tool uses to report progress while it runs
+ */
+export type ToolProgressCallback = (update: ToolProgressUpdate) => void;
+
+/** Tools may report progress many times a second; listeners hear at most this often */
+const PROGRESS_INTERVAL_MS = 1000;
+
 /**
  * Tool executor function type
  */
-export type ToolExecutor = (input: Record<string, unknown>, signal?: AbortSignal) => Promise<string>;
+export type ToolExecutor = (
+  input: Record<string, unknown>,
+  signal?: AbortSignal,
+  onProgress?: ToolProgressCallback
+) => Promise<string>;
 
 /**
  * Registered tool with executor
@@ -206,8 +218,9 @@ export class ToolRegistry {
    * Execute a tool call
    * @param toolCall - The tool call to execute
    * @param signal - Optional AbortSignal for cancellation
+   * @param onProgress - Optional callback for progress the tool reports
    */
-  async execute(toolCall: ToolCall, signal?: AbortSignal): Promise<ToolResult> {
+  async execute(toolCall: ToolCall, signal?: AbortSignal, onProgress?: ToolProgressCallback): Promise<ToolResult> {
     const registered = this.tools.get(toolCall.name);
 
     if (!registered) {
@@ -228,6 +241,7 @@ export class ToolRegistry {
       };
     }
 
+    const progress = onProgress ? throttleProgress(onProgress, PROGRESS_INTERVAL_MS) : null;
     try {
       const validationMode = this.getValidationMode(toolCall.name);
       const validation = validateToolInput(toolCall.name, registered.tool.parameters, toolCall.input);
@@ -303,7 +317,7 @@ export class ToolRegistry {
         : null;
 
       const racePromises: Promise<string>[] = [
-        registered.executor(input, signal),
+        registered.executor(input, signal, progress?.report),
         sleep(timeoutMs).then(() => {
           throw new ToolExecutionError(`Tool timeout after ${Math.round(timeoutMs / 1000)}s`, {
             toolName: toolCall.name,
@@ -349,6 +363,8 @@ export class ToolRegistry {
         isError: true,
         toolName: toolCall.name,
       };
+    } finally {
+      progress?.cancel();
     }
   }
 
@@ -376,6 +392,49 @@ export class ToolRegistry {
 }
 
 // Helpers
+
+/**
+ * Pass on at most one progress update per interval. Updates in between are
+ * coalesced and the latest is delivered when the interval ends.
+ */
+function throttleProgress(
+  onProgress: ToolProgressCallback,
+  intervalMs: number
+): { report: ToolProgressCallback; cancel: () => void } {
+  let lastAt = 0;
+  let pending: ToolProgressUpdate | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const deliver = (update: ToolProgressUpdate) => {
+    lastAt = Date.now();
+    onProgress(update);
+  };
+
+  return {
+    report: (update) => {
+      const wait = lastAt + intervalMs - Date.now();
+      if (wait <= 0 && !timer) {
+        deliver(update);
+        return;
+      }
+      pending = update;
+      timer ??= setTimeout(() => {
+        timer = null;
+        if (pending) {
+          const latest = pending;
+          pending = null;
+          deliver(latest);
+        }
+      }, Math.max(0, wait));
+    },
+    cancel: () => {
+      if (timer) clearTimeout(timer);
+      timer = null;
+      pending = null;
+    },
+  };
+}
+
 function resolveMode(defaultMode: ValidationMode | undefined, override?: ValidationMode): ValidationMode {
   return override ?? defaultMode ?? 'strict';
 }
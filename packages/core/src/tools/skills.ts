@@ -1,9 +1,16 @@
-import type { Tool } from '@hasna/assistants-shared';
+import type { Skill, SkillArgumentValue, Tool } from '@hasna/assistants-shared';
 import type { ToolExecutor } from './registry';
 import { ToolExecutionError, ErrorCodes } from '../errors';
 import { createSkill, type SkillScope } from '../skills/create';
 import type { SkillLoader } from '../skills/loader';
 import { SkillExecutor } from '../skills/executor';
+import {
+  SkillArgumentError,
+  formatSkillUsage,
+  parseSkillArguments,
+  skillArgumentsToParameters,
+  splitSkillArguments,
+} from '../skills/arguments';
 
 function normalizeScope(input: unknown): SkillScope | null {
   if (!input) return null;
@@ -221,8 +228,8 @@ export function createSkillExecuteTool(getLoader: () => SkillLoader | null) {
           description: 'Skill name to execute (e.g., "commit", "review-pr").',
         },
         arguments: {
-          type: 'string',
-          description: 'Arguments to pass to the skill (replaces $ARGUMENTS in skill content).',
+          type: ['string', 'object'],
+          description: 'Arguments to pass to the skill (replaces $ARGUMENTS in skill content). Skills with typed arguments also take an object of named values.',
         },
       },
       required: ['name'],
@@ -266,42 +273,133 @@ export function createSkillExecuteTool(getLoader: () => SkillLoader | null) {
       });
     }
 
+    const rawArgs = input.arguments;
+    if (skill.arguments) {
+      const values = resolveTypedArguments('skill_execute', skill, rawArgs ?? '', input);
+      return formatSkillExecution(skill, await skillExecutor.prepare(skill, [], values), describeValues(values));
+    }
+
     // Parse arguments into array
-    const argsString = String(input.arguments || '').trim();
+    const argsString = rawArgs && typeof rawArgs === 'object'
+      ? Object.values(rawArgs as Record<string, unknown>).map(String).join(' ')
+      : String(rawArgs || '').trim();
     const args = argsString ? argsString.split(/\s+/) : [];
 
     // Prepare skill content with argument substitution
     const preparedContent = await skillExecutor.prepare(skill, args);
+    return formatSkillExecution(skill, preparedContent, args.join(' '));
+  };
 
-    // Build response with skill metadata and content
-    const lines: string[] = [
-      `## Executing Skill: ${skill.name}`,
-      '',
-    ];
+  return { tool, executor };
+}
 
-    if (skill.description) {
-      lines.push(`**Description:** ${skill.description}`);
-      lines.push('');
-    }
+/**
+ * One tool per model-invocable skill with typed arguments, so the model calls
+ * it with proper parameters instead of a free-form argument string
+ */
+export function createSkillArgumentTools(skills: Skill[], getLoader: () => SkillLoader | null) {
+  const skillExecutor = new SkillExecutor();
+  const tools: Array<{ tool: Tool; executor: ToolExecutor }> = [];
 
-    if (skill.allowedTools && skill.allowedTools.length > 0) {
-      lines.push(`**Allowed Tools:** ${skill.allowedTools.join(', ')}`);
-      lines.push('');
-    }
+  for (const skill of skills) {
+    if (!skill.arguments || skill.disableModelInvocation) continue;
+    const name = getSkillToolName(skill.name);
 
-    if (args.length > 0) {
-      lines.push(`**Arguments:** ${args.join(' ')}`);
-      lines.push('');
+    const tool: Tool = {
+      name,
+      description: `Run the "${skill.name}" skill${skill.description ? `: ${skill.description}` : ''}. Returns the skill instructions to follow.`,
+      parameters: skillArgumentsToParameters(skill.arguments),
+    };
+
+    const executor: ToolExecutor = async (input) => {
+      const loaded = await getLoader()?.ensureSkillContent(skill.name);
+      if (!loaded) {
+        throw new ToolExecutionError(`Skill "${skill.name}" not found.`, {
+          toolName: name,
+          toolInput: input,
+          code: ErrorCodes.TOOL_NOT_FOUND,
+          recoverable: true,
+          retryable: false,
+          suggestion: 'Use skills_list to see available skills.',
+        });
+      }
+      // The loop fills in `cwd` for every tool call
+      const args = { ...input };
+      if (!loaded.arguments?.some((argument) => argument.name === 'cwd')) delete args.cwd;
+      const values = resolveTypedArguments(name, loaded, args, input);
+      return formatSkillExecution(loaded, await skillExecutor.prepare(loaded, [], values), describeValues(values));
+    };
+
+    tools.push({ tool, executor });
+  }
+
+  return tools;
+}
+
+/**
+ * Tool name of a skill with typed arguments
+ */
+export function getSkillToolName(skillName: string): string {
+  return `skill_${skillName.replace(/[^A-Za-z0-9_-]/g, '_')}`;
+}
+
+function resolveTypedArguments(
+  toolName: string,
+  skill: Skill,
+  rawArgs: unknown,
+  input: Record<string, unknown>
+): Record<string, SkillArgumentValue> {
+  try {
+    const args = rawArgs && typeof rawArgs === 'object'
+      ? rawArgs as Record<string, unknown>
+      : splitSkillArguments(String(rawArgs));
+    return parseSkillArguments(skill, args);
+  } catch (error) {
+    if (error instanceof SkillArgumentError) {
+      throw new ToolExecutionError(error.message, {
+        toolName,
+        toolInput: input,
+        code: ErrorCodes.TOOL_EXECUTION_FAILED,
+        recoverable: true,
+        retryable: false,
+        suggestion: formatSkillUsage(skill),
+      });
     }
+    throw error;
+  }
+}
+
+function describeValues(values: Record<string, SkillArgumentValue>): string {
+  return Object.entries(values).map(([name, value]) => `${name}=${value}`).join(' ');
+}
+
+function formatSkillExecution(skill: Skill, preparedContent: string, argsDescription: string): string {
+  // Build response with skill metadata and content
+  const lines: string[] = [
+    `## Executing Skill: ${skill.name}`,
+    '',
+  ];
 
-    lines.push('---');
+  if (skill.description) {
+    lines.push(`**Description:** ${skill.description}`);
     lines.push('');
-    lines.push('## Skill Instructions');
+  }
+
+  if (skill.allowedTools && skill.allowedTools.length > 0) {
+    lines.push(`**Allowed Tools:** ${skill.allowedTools.join(', ')}`);
     lines.push('');
-    lines.push(preparedContent);
+  }
 
-    return lines.join('\n');
-  };
+  if (argsDescription) {
+    lines.push(`**Arguments:** ${argsDescription}`);
+    lines.push('');
+  }
 
-  return { tool, executor };
+  lines.push('---');
+  lines.push('');
+  lines.push('## Skill Instructions');
+  lines.push('');
+  lines.push(preparedContent);
+
+  return lines.join('\n');
 }
@@ -5,8 +5,19 @@
  */
 
 import type { Tool } from '@hasna/assistants-shared';
-import type { ToolRegistry } from './registry';
-import type { SwarmCoordinator, SwarmInput, SwarmResult } from '../swarm';
+import type { ToolExecutor, ToolRegistry } from './registry';
+import type {
+  SwarmCoordinator,
+  SwarmInput,
+  SwarmIsolationMode,
+  SwarmMemory,
+  SwarmMemoryCategory,
+  SwarmMessageBus,
+  SwarmResult,
+} from '../swarm';
+import { createSwarmMemoryTools } from '../swarm/memory';
+import { SWARM_COORDINATOR_ID } from '../swarm/messaging';
+import { formatSwarmChangeSummary } from '../swarm/worktrees';
 
 /**
  * Context for swarm tools
@@ -55,6 +66,11 @@ Use for complex tasks that benefit from parallel processing or multiple perspect
         type: 'boolean',
         description: 'Auto-approve generated plan (default: true for tools)',
       },
+      isolation: {
+        type: 'string',
+        description: 'Where workers edit files: shared working directory (default) or one git worktree per task, merged back at the end',
+        enum: ['shared', 'worktree'],
+      },
     },
   },
 };
@@ -103,6 +119,7 @@ export function createSwarmExecuteExecutor(context: SwarmToolContext) {
     maxTasks?: number;
     enableCritic?: boolean;
     autoApprove?: boolean;
+    isolation?: SwarmIsolationMode;
   }): Promise<string> => {
     if (!context.isSwarmEnabled()) {
       return 'Swarm mode is not enabled or available in this context.';
@@ -121,6 +138,7 @@ export function createSwarmExecuteExecutor(context: SwarmToolContext) {
         maxTasks: input.maxTasks,
         enableCritic: input.enableCritic,
         autoApprove: input.autoApprove !== false, // Default to true for tool invocation
+        ...(input.isolation ? { isolation: input.isolation } : {}),
       },
     };
 
@@ -214,6 +232,247 @@ export function registerSwarmTools(
   }
 }
 
+// ============================================
+// Worker collaboration tools
+// ============================================
+
+/**
+ * Context for the tools a single swarm worker gets
+ */
+export interface SwarmWorkerToolContext {
+  /** Task the worker is running */
+  taskId: string;
+  /** Subassistant ID of the worker (if known) */
+  assistantId?: string;
+  /** Shared blackboard (null when shared memory is disabled) */
+  memory: SwarmMemory | null;
+  /** Message bus (null when messaging is disabled) */
+  bus: SwarmMessageBus | null;
+  /** Short label for a task ID */
+  describeTask?: (taskId: string) => string;
+}
+
+const MEMORY_CATEGORIES: SwarmMemoryCategory[] = [
+  'fact', 'finding', 'decision', 'context', 'resource', 'note', 'error', 'solution',
+];
+
+/**
+ * swarm_post - Publish to the shared blackboard
+ */
+export const swarmPostTool: Tool = {
+  name: 'swarm_post',
+  description: 'Publish an intermediate finding, decision or note to the swarm blackboard so other workers can use it while they are still running.',
+  parameters: {
+    type: 'object',
+    required: ['content'],
+    properties: {
+      content: { type: 'string', description: 'What to share' },
+      topic: { type: 'string', description: 'Topic to post under (e.g. "api/auth"); subscribers of the topic are notified' },
+      category: { type: 'string', description: 'Kind of entry (default: finding)', enum: MEMORY_CATEGORIES },
+      tags: { type: 'array', description: 'Tags for search', items: { type: 'string', description: 'Tag' } },
+    },
+  },
+};
+
+/**
+ * swarm_read - Search the shared blackboard
+ */
+export const swarmReadTool: Tool = {
+  name: 'swarm_read',
+  description: 'Search the swarm blackboard for entries posted by other workers.',
+  parameters: {
+    type: 'object',
+    properties: {
+      topic: { type: 'string', description: 'Topic or pattern ("api/*", "*")' },
+      search: { type: 'string', description: 'Text to search for' },
+      category: { type: 'string', description: 'Kind of entry', enum: MEMORY_CATEGORIES },
+      limit: { type: 'number', description: 'Maximum entries (default: 5)' },
+    },
+  },
+};
+
+/**
+ * swarm_subscribe - Follow blackboard topics
+ */
+export const swarmSubscribeTool: Tool = {
+  name: 'swarm_subscribe',
+  description: 'Follow blackboard topics. New posts on them are shown in the results of your swarm_* tool calls and in swarm_inbox.',
+  parameters: {
+    type: 'object',
+    required: ['topics'],
+    properties: {
+      topics: { type: 'array', description: 'Topics or patterns ("api/*", "*" for everything)', items: { type: 'string', description: 'Topic' } },
+      unsubscribe: { type: 'boolean', description: 'Stop following the topics instead' },
+    },
+  },
+};
+
+/**
+ * swarm_inbox - Check for questions and new posts
+ */
+export const swarmInboxTool: Tool = {
+  name: 'swarm_inbox',
+  description: 'Check for questions other workers asked you and new posts on topics you follow.',
+  parameters: {
+    type: 'object',
+    properties: {},
+  },
+};
+
+/**
+ * swarm_ask - Ask another worker or the coordinator a question
+ */
+export const swarmAskTool: Tool = {
+  name: 'swarm_ask',
+  description: `Ask a running worker (by task ID) or the "${SWARM_COORDINATOR_ID}" a question and wait for the answer.
+The coordinator answers from the goal, the plan, finished task results and the blackboard.`,
+  parameters: {
+    type: 'object',
+    required: ['to', 'question'],
+    properties: {
+      to: { type: 'string', description: `Task ID (or unique prefix) of a running worker, or "${SWARM_COORDINATOR_ID}"` },
+      question: { type: 'string', description: 'The question' },
+      timeoutMs: { type: 'number', description: 'How long to wait for the answer in ms' },
+    },
+  },
+};
+
+/**
+ * swarm_reply - Answer a question from another worker
+ */
+export const swarmReplyTool: Tool = {
+  name: 'swarm_reply',
+  description: 'Answer a question another worker asked you (see swarm_inbox). The asker is waiting, so reply promptly.',
+  parameters: {
+    type: 'object',
+    required: ['questionId', 'answer'],
+    properties: {
+      questionId: { type: 'string', description: 'Question ID (or unique prefix)' },
+      answer: { type: 'string', description: 'Your answer' },
+    },
+  },
+};
+
+/**
+ * Create the collaboration tools for one swarm worker. Blackboard tools need
+ * shared memory, swarm_ask/swarm_reply need messaging.
+ */
+export function createSwarmWorkerTools(context: SwarmWorkerToolContext): Array<{ tool: Tool; executor: ToolExecutor }> {
+  const { taskId, memory, bus } = context;
+  const describe = context.describeTask ?? ((id: string) => id);
+  const memoryTools = memory ? createSwarmMemoryTools(memory, { taskId, assistantId: context.assistantId }) : null;
+
+  /** Questions and blackboard posts waiting for this worker */
+  const takeInbox = (): string[] => {
+    const lines: string[] = [];
+    for (const question of bus?.takeQuestions(taskId) ?? []) {
+      lines.push(`❓ Question ${question.id.slice(0, 8)} from ${describe(question.from)}: ${question.question}`);
+      lines.push(`   Answer with swarm_reply (questionId: "${question.id.slice(0, 8)}").`);
+    }
+    if (memoryTools && memory!.getSubscriptions(taskId).length > 0) {
+      const updates = memoryTools.updates();
+      if (!updates.startsWith('No new posts')) {
+        lines.push('📌 New posts on your topics:', updates);
+      }
+    }
+    return lines;
+  };
+  const withInbox = (text: string): string => {
+    const inbox = takeInbox();
+    return inbox.length > 0 ? `${text}\n\n${inbox.join('\n')}` : text;
+  };
+
+  const tools: Array<{ tool: Tool; executor: ToolExecutor }> = [];
+
+  if (memoryTools) {
+    tools.push(
+      {
+        tool: swarmPostTool,
+        executor: async (input) => {
+          const content = String(input.content ?? '').trim();
+          if (!content) return 'Error: content is required';
+          const category = MEMORY_CATEGORIES.includes(input.category as SwarmMemoryCategory)
+            ? input.category as SwarmMemoryCategory
+            : 'finding';
+          return withInbox(memoryTools.remember({
+            category,
+            content,
+            topic: typeof input.topic === 'string' ? input.topic : undefined,
+            tags: Array.isArray(input.tags) ? input.tags.map(String) : undefined,
+          }));
+        },
+      },
+      {
+        tool: swarmReadTool,
+        executor: async (input) => withInbox(memoryTools.recall({
+          topic: typeof input.topic === 'string' ? input.topic : undefined,
+          search: typeof input.search === 'string' ? input.search : undefined,
+          category: MEMORY_CATEGORIES.includes(input.category as SwarmMemoryCategory)
+            ? input.category as SwarmMemoryCategory
+            : undefined,
+          limit: typeof input.limit === 'number' ? input.limit : undefined,
+        })),
+      },
+      {
+        tool: swarmSubscribeTool,
+        executor: async (input) => {
+          const topics = Array.isArray(input.topics) ? input.topics.map(String) : [];
+          return withInbox(input.unsubscribe
+            ? memoryTools.unsubscribe({ topics })
+            : memoryTools.subscribe({ topics }));
+        },
+      }
+    );
+  }
+
+  if (memoryTools || bus) {
+    tools.push({
+      tool: swarmInboxTool,
+      executor: async () => {
+        const inbox = takeInbox();
+        return inbox.length > 0 ? inbox.join('\n') : 'Inbox is empty.';
+      },
+    });
+  }
+
+  if (bus) {
+    tools.push(
+      {
+        tool: swarmAskTool,
+        executor: async (input) => {
+          try {
+            const question = await bus.ask({
+              from: taskId,
+              to: String(input.to ?? ''),
+              question: String(input.question ?? ''),
+              timeoutMs: typeof input.timeoutMs === 'number' ? input.timeoutMs : undefined,
+            });
+            const text = question.status === 'answered'
+              ? `Answer from ${question.answeredBy === question.to ? describe(question.to) : `${question.answeredBy} (for ${describe(question.to)})`}:\n${question.answer}`
+              : `No answer: ${question.answer}`;
+            return withInbox(text);
+          } catch (error) {
+            return withInbox(`Error: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        },
+      },
+      {
+        tool: swarmReplyTool,
+        executor: async (input) => {
+          try {
+            const question = bus.reply(String(input.questionId ?? ''), taskId, String(input.answer ?? ''));
+            return withInbox(`Answer sent to ${describe(question.from)}.`);
+          } catch (error) {
+            return withInbox(`Error: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        },
+      }
+    );
+  }
+
+  return tools;
+}
+
 /**
  * Format swarm result as string output
  */
@@ -236,6 +495,12 @@ function formatSwarmResult(result: SwarmResult): string {
     lines.push(`  Tool calls: ${result.metrics.toolCalls}`);
     lines.push(`  Duration: ${Math.round(result.durationMs / 1000)}s`);
 
+    if (result.changes) {
+      lines.push('');
+      lines.push('**Changes:**');
+      lines.push(formatSwarmChangeSummary(result.changes));
+    }
+
     return lines.join('\n');
   } else {
     const lines: string[] = [];
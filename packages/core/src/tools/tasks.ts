@@ -31,8 +31,8 @@ export const tasksListTool: Tool = {
     properties: {
       status: {
         type: 'string',
-        description: 'Filter by status: pending, in_progress, completed, failed, or all (default: all)',
-        enum: ['pending', 'in_progress', 'completed', 'failed', 'all'],
+        description: 'Filter by status: pending, in_progress, completed, failed, cancelled, or all (default: all)',
+        enum: ['pending', 'in_progress', 'completed', 'failed', 'cancelled', 'all'],
       },
     },
   },
@@ -78,6 +78,14 @@ export const tasksAddTool: Tool = {
         type: 'string',
         description: 'Name or ID of person/assistant to assign this task to',
       },
+      maxRetries: {
+        type: 'number',
+        description: 'Times the task runner retries the task after a failed attempt (default: 0)',
+      },
+      timeoutMs: {
+        type: 'number',
+        description: 'Timeout per attempt in milliseconds when run by the task runner (default: 10 minutes)',
+      },
     },
     required: ['description'],
   },
@@ -277,7 +285,8 @@ export function createTaskToolExecutors(context: TasksToolContext) {
       const lines = filtered.map((t) => {
         const statusIcon = t.status === 'pending' ? '○' :
                           t.status === 'in_progress' ? '◐' :
-                          t.status === 'completed' ? '●' : '✗';
+                          t.status === 'completed' ? '●' :
+                          t.status === 'cancelled' ? '⊘' : '✗';
         const priorityIcon = t.priority === 'high' ? '↑' :
                             t.priority === 'low' ? '↓' : '-';
         return `${statusIcon} [${priorityIcon}] ${t.id} - ${t.description}`;
@@ -312,23 +321,41 @@ export function createTaskToolExecutors(context: TasksToolContext) {
       if (task.error) {
         lines.push(`Error: ${task.error}`);
       }
+      if (task.attempts) {
+        lines.push(`Attempts: ${task.attempts}${task.retry ? ` of ${task.retry.maxRetries + 1}` : ''}`);
+      }
+      if (task.nextAttemptAt && task.status === 'pending') {
+        lines.push(`Next attempt: ${new Date(task.nextAttemptAt).toISOString()}`);
+      }
 
       return lines.join('\n');
     },
 
-    tasks_add: async (input: { description: string; priority?: string; assignee?: string }) => {
+    tasks_add: async (input: {
+      description: string;
+      priority?: string;
+      assignee?: string;
+      maxRetries?: number;
+      timeoutMs?: number;
+    }) => {
       const priority = (input.priority || 'normal') as TaskPriority;
-      if (input.assignee) {
-        const task = await addTask(context.cwd, {
-          description: input.description,
-          priority,
-          projectId: context.projectId,
-          assignee: input.assignee,
-        });
-        return `Task added: ${task.id}\nDescription: ${task.description}\nPriority: ${task.priority}\nAssignee: ${task.assignee}`;
-      }
-      const task = await addTask(context.cwd, input.description, priority, context.projectId);
-      return `Task added: ${task.id}\nDescription: ${task.description}\nPriority: ${task.priority}`;
+      const maxRetries = typeof input.maxRetries === 'number' && input.maxRetries >= 0
+        ? Math.floor(input.maxRetries)
+        : undefined;
+      const timeoutMs = typeof input.timeoutMs === 'number' && input.timeoutMs > 0 ? input.timeoutMs : undefined;
+      const task = await addTask(context.cwd, {
+        description: input.description,
+        priority,
+        projectId: context.projectId,
+        assignee: input.assignee || undefined,
+        retry: maxRetries !== undefined ? { maxRetries } : undefined,
+        timeoutMs,
+      });
+      const lines = [`Task added: ${task.id}`, `Description: ${task.description}`, `Priority: ${task.priority}`];
+      if (task.assignee) lines.push(`Assignee: ${task.assignee}`);
+      if (task.retry) lines.push(`Retries: ${task.retry.maxRetries}`);
+      if (task.timeoutMs) lines.push(`Timeout: ${task.timeoutMs}ms`);
+      return lines.join('\n');
     },
 
     tasks_next: async () => {
@@ -382,7 +409,8 @@ export function createTaskToolExecutors(context: TasksToolContext) {
         `In Progress: ${counts.in_progress}`,
         `Completed: ${counts.completed}`,
         `Failed: ${counts.failed}`,
-        `Total: ${counts.pending + counts.in_progress + counts.completed + counts.failed}`,
+        `Cancelled: ${counts.cancelled}`,
+        `Total: ${counts.pending + counts.in_progress + counts.completed + counts.failed + counts.cancelled}`,
       ];
 
       return lines.join('\n');
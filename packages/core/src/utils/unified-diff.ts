@@ -0,0 +1,355 @@
+/**
+ * Unified diff utilities
+ *
+ * Parses unified diffs (as produced by `git diff` / `diff -u`), applies
+ * their hunks to file content, and renders compact diffs for display.
+ */
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  /** Raw hunk body lines, each prefixed with ' ', '-' or '+' */
+  lines: string[];
+}
+
+export interface FilePatch {
+  /** Path from the `---` header, or null for newly created files */
+  oldPath: string | null;
+  /** Path from the `+++` header, or null for deleted files */
+  newPath: string | null;
+  hunks: DiffHunk[];
+}
+
+export class PatchApplyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PatchApplyError';
+  }
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Normalize a path from a diff header: strips timestamps, quotes and the
+ * conventional a/ and b/ prefixes. Returns null for /dev/null.
+ */
+function parseHeaderPath(raw: string): string | null {
+  let value = raw.split('\t')[0].trim();
+  if (value.startsWith('"') && value.endsWith('"') && value.length >= 2) {
+    value = value.slice(1, -1);
+  }
+  if (value === '/dev/null') return null;
+  if (value.startsWith('a/') || value.startsWith('b/')) {
+    value = value.slice(2);
+  }
+  return value;
+}
+
+/**
+ * Parse a unified diff into per-file patches.
+ */
+export function parseUnifiedDiff(patch: string): FilePatch[] {
+  const lines = patch.replace(/\r\n/g, '\n').split('\n');
+  const files: FilePatch[] = [];
+  let current: FilePatch | null = null;
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.startsWith('--- ') && i + 1 < lines.length && lines[i + 1].startsWith('+++ ')) {
+      current = {
+        oldPath: parseHeaderPath(line.slice(4)),
+        newPath: parseHeaderPath(lines[i + 1].slice(4)),
+        hunks: [],
+      };
+      files.push(current);
+      i += 2;
+      continue;
+    }
+
+    const header = line.match(HUNK_HEADER);
+    if (header) {
+      if (!current) {
+        throw new PatchApplyError(`Hunk header without file header at line ${i + 1}`);
+      }
+      const hunk: DiffHunk = {
+        oldStart: parseInt(header[1], 10),
+        oldLines: header[2] !== undefined ? parseInt(header[2], 10) : 1,
+        newStart: parseInt(header[3], 10),
+        newLines: header[4] !== undefined ? parseInt(header[4], 10) : 1,
+        lines: [],
+      };
+      i += 1;
+
+      let oldSeen = 0;
+      let newSeen = 0;
+      while (i < lines.length && (oldSeen < hunk.oldLines || newSeen < hunk.newLines)) {
+        const body = lines[i];
+        if (body.startsWith('\\')) {
+          // "\ No newline at end of file"
+          i += 1;
+          continue;
+        }
+        const marker = body.length === 0 ? ' ' : body[0];
+        if (marker === ' ') {
+          oldSeen += 1;
+          newSeen += 1;
+        } else if (marker === '-') {
+          oldSeen += 1;
+        } else if (marker === '+') {
+          newSeen += 1;
+        } else {
+          throw new PatchApplyError(`Unexpected line in hunk at line ${i + 1}: ${body}`);
+        }
+        hunk.lines.push(body.length === 0 ? ' ' : body);
+        i += 1;
+      }
+
+      if (oldSeen !== hunk.oldLines || newSeen !== hunk.newLines) {
+        throw new PatchApplyError(
+          `Hunk @@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@ is truncated`
+        );
+      }
+      current.hunks.push(hunk);
+      continue;
+    }
+
+    i += 1;
+  }
+
+  return files;
+}
+
+function linesMatchAt(content: string[], expected: string[], start: number): boolean {
+  if (start < 0 || start + expected.length > content.length) return false;
+  for (let j = 0; j < expected.length; j++) {
+    if (content[start + j] !== expected[j]) return false;
+  }
+  return true;
+}
+
+/**
+ * Apply hunks to file content.
+ *
+ * Each hunk is tried at its stated line first. If the surrounding lines have
+ * moved, the hunk is located by searching the whole file; a hunk whose
+ * context matches in more than one place is rejected as ambiguous.
+ */
+export function applyHunks(content: string, hunks: DiffHunk[]): string {
+  const hadTrailingNewline = content.length === 0 || content.endsWith('\n');
+  const lines = content.length === 0 ? [] : content.replace(/\n$/, '').split('\n');
+  const result: string[] = [];
+  let cursor = 0;
+
+  for (const hunk of hunks) {
+    const oldBlock = hunk.lines.filter((l) => l[0] !== '+').map((l) => l.slice(1));
+    const newBlock = hunk.lines.filter((l) => l[0] !== '-').map((l) => l.slice(1));
+    const label = `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+
+    let position = -1;
+    const stated = Math.max(0, hunk.oldStart - 1);
+    if (oldBlock.length === 0) {
+      // Pure insertion: oldStart names the line the new lines follow
+      position = Math.min(Math.max(hunk.oldStart, cursor), lines.length);
+    } else if (stated >= cursor && linesMatchAt(lines, oldBlock, stated)) {
+      position = stated;
+    } else {
+      const candidates: number[] = [];
+      for (let start = cursor; start + oldBlock.length <= lines.length; start++) {
+        if (linesMatchAt(lines, oldBlock, start)) {
+          candidates.push(start);
+          if (candidates.length > 1) break;
+        }
+      }
+      if (candidates.length === 0) {
+        throw new PatchApplyError(`Hunk ${label} does not match the current file content`);
+      }
+      if (candidates.length > 1) {
+        throw new PatchApplyError(`Hunk ${label} matches multiple locations; add more context lines`);
+      }
+      position = candidates[0];
+    }
+
+    result.push(...lines.slice(cursor, position));
+    result.push(...newBlock);
+    cursor = position + oldBlock.length;
+  }
+
+  result.push(...lines.slice(cursor));
+  if (result.length === 0) return '';
+  return result.join('\n') + (hadTrailingNewline ? '\n' : '');
+}
+
+/**
+ * Maximum number of cells for the line-level LCS table. Larger changed
+ * regions are rendered as a straight removal followed by an insertion.
+ */
+const MAX_LCS_CELLS = 4_000_000;
+
+type DiffOp = { kind: ' ' | '-' | '+'; text: string };
+
+function diffLines(oldLines: string[], newLines: string[]): DiffOp[] {
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix += 1;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+
+  const ops: DiffOp[] = oldLines.slice(0, prefix).map((text) => ({ kind: ' ' as const, text }));
+  const a = oldLines.slice(prefix, oldLines.length - suffix);
+  const b = newLines.slice(prefix, newLines.length - suffix);
+
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    ops.push(...a.map((text) => ({ kind: '-' as const, text })));
+    ops.push(...b.map((text) => ({ kind: '+' as const, text })));
+  } else {
+    const table: Uint32Array[] = [];
+    for (let i = 0; i <= a.length; i++) table.push(new Uint32Array(b.length + 1));
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        table[i][j] = a[i] === b[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        ops.push({ kind: ' ', text: a[i] });
+        i += 1;
+        j += 1;
+      } else if (table[i + 1][j] >= table[i][j + 1]) {
+        ops.push({ kind: '-', text: a[i] });
+        i += 1;
+      } else {
+        ops.push({ kind: '+', text: b[j] });
+        j += 1;
+      }
+    }
+    while (i < a.length) ops.push({ kind: '-', text: a[i++] });
+    while (j < b.length) ops.push({ kind: '+', text: b[j++] });
+  }
+
+  ops.push(...oldLines.slice(oldLines.length - suffix).map((text) => ({ kind: ' ' as const, text })));
+  return ops;
+}
+
+function splitForDiff(content: string): string[] {
+  if (content.length === 0) return [];
+  return content.replace(/\n$/, '').split('\n');
+}
+
+/**
+ * Render a unified diff between two versions of a file.
+ * Returns an empty string when the contents are identical.
+ */
+export function createUnifiedDiff(
+  oldContent: string,
+  newContent: string,
+  options: { oldPath?: string; newPath?: string; context?: number } = {}
+): string {
+  const context = options.context ?? 3;
+  const ops = diffLines(splitForDiff(oldContent), splitForDiff(newContent));
+  if (!ops.some((op) => op.kind !== ' ')) return '';
+
+  const out: string[] = [
+    `--- ${options.oldPath ?? 'a'}`,
+    `+++ ${options.newPath ?? options.oldPath ?? 'b'}`,
+  ];
+
+  let index = 0;
+  let oldLine = 1;
+  let newLine = 1;
+  while (index < ops.length) {
+    // Skip to the next change
+    while (index < ops.length && ops[index].kind === ' ') {
+      index += 1;
+      oldLine += 1;
+      newLine += 1;
+    }
+    if (index >= ops.length) break;
+
+    const lead = Math.min(context, index, oldLine - 1);
+    const start = index - lead;
+    const hunkOld = oldLine - lead;
+    const hunkNew = newLine - lead;
+    let end = index;
+    let trailing = 0;
+    // Extend while changes are within 2*context of each other
+    while (end < ops.length) {
+      if (ops[end].kind === ' ') {
+        trailing += 1;
+        if (trailing > context * 2) break;
+      } else {
+        trailing = 0;
+      }
+      end += 1;
+    }
+    const stop = Math.min(ops.length, end - Math.max(0, trailing - context));
+
+    const body = ops.slice(start, stop);
+    const oldCount = body.filter((op) => op.kind !== '+').length;
+    const newCount = body.filter((op) => op.kind !== '-').length;
+    out.push(`@@ -${oldCount === 0 ? hunkOld - 1 : hunkOld},${oldCount} +${newCount === 0 ? hunkNew - 1 : hunkNew},${newCount} @@`);
+    for (const op of body) {
+      out.push(`${op.kind}${op.text}`);
+    }
+
+    for (let k = index; k < stop; k++) {
+      if (ops[k].kind !== '+') oldLine += 1;
+      if (ops[k].kind !== '-') newLine += 1;
+    }
+    index = stop;
+  }
+
+  return out.join('\n');
+}
+
+/**
+ * Count added and removed lines in a unified diff.
+ * Hunk line counts are followed, so `---`/`+++` lines are only treated as
+ * file headers outside hunks.
+ */
+export function countDiffChanges(diff: string): { added: number; removed: number } {
+  let added = 0;
+  let removed = 0;
+  let oldLeft = 0;
+  let newLeft = 0;
+  for (const line of diff.split('\n')) {
+    if (oldLeft > 0 || newLeft > 0) {
+      if (line.startsWith('\\')) continue; // \ No newline at end of file
+      if (line.startsWith('+')) {
+        added += 1;
+        newLeft -= 1;
+      } else if (line.startsWith('-')) {
+        removed += 1;
+        oldLeft -= 1;
+      } else {
+        oldLeft -= 1;
+        newLeft -= 1;
+      }
+      continue;
+    }
+    const hunk = line.match(/^@@ -\d+(?:,(\d+))? \+\d+(?:,(\d+))? @@/);
+    if (hunk) {
+      oldLeft = hunk[1] === undefined ? 1 : Number(hunk[1]);
+      newLeft = hunk[2] === undefined ? 1 : Number(hunk[2]);
+    } else if (line.startsWith('+++') || line.startsWith('---')) {
+      continue;
+    } else if (line.startsWith('+')) {
+      added += 1;
+    } else if (line.startsWith('-')) {
+      removed += 1;
+    }
+  }
+  return { added, removed };
+}
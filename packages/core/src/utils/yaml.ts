@@ -0,0 +1,405 @@
+/**
+ * Minimal YAML parser
+ *
+ * Supports the subset used by config files in this repo: nested block
+ * mappings and sequences, `- key: value` sequence items, block scalars
+ * (`|` and `>`), flow collections (`[a, b]`, `{a: 1}`), quoted strings,
+ * comments, booleans, numbers and null. Anchors, tags and multi-document
+ * streams are not supported.
+ */
+
+export class YamlParseError extends Error {
+  readonly line: number;
+
+  constructor(message: string, line: number) {
+    super(`${message} (line ${line})`);
+    this.name = 'YamlParseError';
+    this.line = line;
+  }
+}
+
+interface YamlLine {
+  indent: number;
+  text: string;
+  /** 1-based line number */
+  line: number;
+}
+
+/**
+ * Strip a trailing `# comment` that is outside quotes
+ */
+function stripComment(text: string): string {
+  let quote: '"' | "'" | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      if (i === 0 || /[\s:[{,-]/.test(text[i - 1])) quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+  return text;
+}
+
+/**
+ * Index of the `:` separating a mapping key from its value, or -1
+ */
+function findKeySeparator(text: string): number {
+  let quote: '"' | "'" | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+      continue;
+    }
+    if ((char === '"' || char === "'") && i === 0) {
+      quote = char;
+    } else if (char === '[' || char === '{') {
+      if (i === 0) return -1;
+    } else if (char === ':' && (i === text.length - 1 || text[i + 1] === ' ' || text[i + 1] === '\t')) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === '-' || text.startsWith('- ');
+}
+
+function parseDoubleQuoted(body: string): string {
+  return body.replace(/\\(u[0-9a-fA-F]{4}|.)/g, (_, escape: string) => {
+    switch (escape[0]) {
+      case 'n': return '\n';
+      case 't': return '\t';
+      case 'r': return '\r';
+      case '0': return '\0';
+      case 'u': return String.fromCharCode(parseInt(escape.slice(1), 16));
+      default: return escape;
+    }
+  });
+}
+
+/**
+ * Parse a plain, quoted or flow scalar
+ */
+function parseScalar(raw: string, line: number): unknown {
+  const text = raw.trim();
+  if (text === '' || text === '~' || text === 'null' || text === 'Null' || text === 'NULL') return null;
+  if (text === 'true' || text === 'True' || text === 'TRUE') return true;
+  if (text === 'false' || text === 'False' || text === 'FALSE') return false;
+  if (text.startsWith('[') || text.startsWith('{')) {
+    const parser = new FlowParser(text, line);
+    const value = parser.parseValue();
+    parser.expectEnd();
+    return value;
+  }
+  if (text.startsWith('"')) {
+    if (!text.endsWith('"') || text.length < 2) throw new YamlParseError('Unterminated double-quoted string', line);
+    return parseDoubleQuoted(text.slice(1, -1));
+  }
+  if (text.startsWith("'")) {
+    if (!text.endsWith("'") || text.length < 2) throw new YamlParseError('Unterminated single-quoted string', line);
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  if (/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(text)) return Number(text);
+  if (/^0x[0-9a-fA-F]+$/.test(text)) return parseInt(text, 16);
+  return text;
+}
+
+/**
+ * Parser for flow collections on a single line
+ */
+class FlowParser {
+  private pos = 0;
+
+  constructor(private text: string, private line: number) {}
+
+  parseValue(): unknown {
+    this.skipSpace();
+    const char = this.text[this.pos];
+    if (char === '[') return this.parseSequence();
+    if (char === '{') return this.parseMapping();
+    if (char === '"' || char === "'") return this.parseQuoted(char);
+    return this.parsePlain();
+  }
+
+  expectEnd(): void {
+    this.skipSpace();
+    if (this.pos < this.text.length) {
+      throw new YamlParseError(`Unexpected "${this.text.slice(this.pos)}"`, this.line);
+    }
+  }
+
+  private skipSpace(): void {
+    while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) this.pos++;
+  }
+
+  private parseSequence(): unknown[] {
+    this.pos++;
+    const items: unknown[] = [];
+    this.skipSpace();
+    if (this.text[this.pos] === ']') {
+      this.pos++;
+      return items;
+    }
+    while (this.pos < this.text.length) {
+      items.push(this.parseValue());
+      this.skipSpace();
+      const char = this.text[this.pos++];
+      if (char === ']') return items;
+      if (char !== ',') break;
+      this.skipSpace();
+      if (this.text[this.pos] === ']') {
+        this.pos++;
+        return items;
+      }
+    }
+    throw new YamlParseError('Unterminated flow sequence', this.line);
+  }
+
+  private parseMapping(): Record<string, unknown> {
+    this.pos++;
+    const map: Record<string, unknown> = {};
+    this.skipSpace();
+    if (this.text[this.pos] === '}') {
+      this.pos++;
+      return map;
+    }
+    while (this.pos < this.text.length) {
+      this.skipSpace();
+      const char = this.text[this.pos];
+      const key = char === '"' || char === "'" ? this.parseQuoted(char) : this.parsePlain(true);
+      this.skipSpace();
+      let value: unknown = null;
+      if (this.text[this.pos] === ':') {
+        this.pos++;
+        value = this.parseValue();
+      }
+      map[String(key)] = value;
+      this.skipSpace();
+      const next = this.text[this.pos++];
+      if (next === '}') return map;
+      if (next !== ',') break;
+    }
+    throw new YamlParseError('Unterminated flow mapping', this.line);
+  }
+
+  private parseQuoted(quote: string): string {
+    let end = this.pos + 1;
+    while (end < this.text.length) {
+      if (this.text[end] === '\\' && quote === '"') {
+        end += 2;
+        continue;
+      }
+      if (this.text[end] === quote) {
+        if (quote === "'" && this.text[end + 1] === "'") {
+          end += 2;
+          continue;
+        }
+        break;
+      }
+      end++;
+    }
+    if (end >= this.text.length) throw new YamlParseError('Unterminated quoted string', this.line);
+    const raw = this.text.slice(this.pos, end + 1);
+    this.pos = end + 1;
+    return parseScalar(raw, this.line) as string;
+  }
+
+  private parsePlain(isKey = false): unknown {
+    const start = this.pos;
+    while (this.pos < this.text.length) {
+      const char = this.text[this.pos];
+      if (char === ',' || char === ']' || char === '}') break;
+      if (isKey && char === ':') break;
+      if (!isKey && char === ':' && /\s/.test(this.text[this.pos + 1] ?? ' ')) break;
+      this.pos++;
+    }
+    const raw = this.text.slice(start, this.pos).trim();
+    return isKey ? raw : parseScalar(raw, this.line);
+  }
+}
+
+class BlockParser {
+  private lines: YamlLine[] = [];
+  private rawLines: string[];
+  private index = 0;
+
+  constructor(text: string) {
+    this.rawLines = text.replace(/^﻿/, '').split(/\r?\n/);
+    this.rawLines.forEach((raw, i) => {
+      if (raw.includes('\t') && /^\s*\t/.test(raw)) {
+        throw new YamlParseError('Tabs are not allowed for indentation', i + 1);
+      }
+      const text = stripComment(raw);
+      if (!text.trim() || text.trim() === '---') return;
+      this.lines.push({ indent: text.length - text.trimStart().length, text: text.trim(), line: i + 1 });
+    });
+  }
+
+  parse(): unknown {
+    if (this.lines.length === 0) return null;
+    const value = this.parseNode(this.lines[0].indent);
+    if (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      throw new YamlParseError(`Unexpected indentation for "${line.text}"`, line.line);
+    }
+    return value;
+  }
+
+  private peek(): YamlLine | undefined {
+    return this.lines[this.index];
+  }
+
+  private parseNode(indent: number): unknown {
+    const line = this.peek();
+    if (!line || line.indent < indent) return null;
+    if (isSequenceItem(line.text)) return this.parseSequence(line.indent);
+    if (findKeySeparator(line.text) !== -1) return this.parseMapping(line.indent);
+    this.index++;
+    return parseScalar(line.text, line.line);
+  }
+
+  private parseSequence(indent: number): unknown[] {
+    const items: unknown[] = [];
+    while (true) {
+      const line = this.peek();
+      if (!line || line.indent !== indent || !isSequenceItem(line.text)) break;
+
+      const content = line.text.slice(1).trimStart();
+      if (!content) {
+        this.index++;
+        const next = this.peek();
+        items.push(next && next.indent > indent ? this.parseNode(next.indent) : null);
+        continue;
+      }
+
+      const offset = line.text.length - content.length;
+      if (isSequenceItem(content) || findKeySeparator(content) !== -1) {
+        // `- key: value` starts a mapping (or nested sequence) indented at the content
+        this.lines[this.index] = { indent: indent + offset, text: content, line: line.line };
+        items.push(this.parseNode(indent + offset));
+        continue;
+      }
+
+      this.index++;
+      items.push(this.parseValueText(content, indent, line.line));
+    }
+    return items;
+  }
+
+  private parseMapping(indent: number): Record<string, unknown> {
+    const map: Record<string, unknown> = {};
+    while (true) {
+      const line = this.peek();
+      if (!line || line.indent !== indent || isSequenceItem(line.text)) break;
+
+      const separator = findKeySeparator(line.text);
+      if (separator === -1) {
+        throw new YamlParseError(`Expected "key: value" but found "${line.text}"`, line.line);
+      }
+      const key = String(parseScalar(line.text.slice(0, separator), line.line) ?? '');
+      const rest = line.text.slice(separator + 1).trim();
+      if (Object.prototype.hasOwnProperty.call(map, key)) {
+        throw new YamlParseError(`Duplicate key "${key}"`, line.line);
+      }
+      this.index++;
+
+      if (!rest) {
+        const next = this.peek();
+        if (next && next.indent > indent) {
+          map[key] = this.parseNode(next.indent);
+        } else if (next && next.indent === indent && isSequenceItem(next.text)) {
+          // Sequences may sit at the same indentation as their key
+          map[key] = this.parseSequence(indent);
+        } else {
+          map[key] = null;
+        }
+        continue;
+      }
+
+      map[key] = this.parseValueText(rest, indent, line.line);
+    }
+    return map;
+  }
+
+  /**
+   * Parse an inline value, which may open a block scalar
+   */
+  private parseValueText(text: string, parentIndent: number, lineNumber: number): unknown {
+    const block = text.match(/^([|>])([+-]?)$/);
+    if (block) {
+      return this.parseBlockScalar(block[1] as '|' | '>', block[2], parentIndent, lineNumber);
+    }
+    return parseScalar(text, lineNumber);
+  }
+
+  /**
+   * Collect a `|` (literal) or `>` (folded) block from the raw lines
+   */
+  private parseBlockScalar(style: '|' | '>', chomp: string, parentIndent: number, lineNumber: number): string {
+    const collected: string[] = [];
+    let blockIndent = -1;
+    let rawIndex = lineNumber; // rawLines is 0-based; the block starts on the next line
+    while (rawIndex < this.rawLines.length) {
+      const raw = this.rawLines[rawIndex];
+      if (raw.trim()) {
+        const indent = raw.length - raw.trimStart().length;
+        if (indent <= parentIndent) break;
+        if (blockIndent === -1) blockIndent = indent;
+        if (indent < blockIndent) break;
+        collected.push(raw.slice(blockIndent));
+      } else {
+        collected.push('');
+      }
+      rawIndex++;
+    }
+
+    // Skip the structural lines consumed by the block
+    while (this.index < this.lines.length && this.lines[this.index].line <= rawIndex) {
+      this.index++;
+    }
+
+    while (collected.length > 0 && collected[collected.length - 1] === '' && chomp !== '+') {
+      collected.pop();
+    }
+
+    let value: string;
+    if (style === '|') {
+      value = collected.join('\n');
+    } else {
+      value = '';
+      for (let i = 0; i < collected.length; i++) {
+        const current = collected[i];
+        if (i === 0) {
+          value = current;
+        } else if (current === '' || collected[i - 1] === '' || /^\s/.test(current)) {
+          value += '\n' + current;
+        } else {
+          value += ' ' + current;
+        }
+      }
+    }
+    return chomp === '-' ? value : `${value}\n`;
+  }
+}
+
+/**
+ * Parse a YAML document
+ */
+export function parseYaml(text: string): unknown {
+  return new BlockParser(text).parse();
+}
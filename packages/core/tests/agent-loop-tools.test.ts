@@ -171,3 +171,40 @@ describe('AssistantLoop tool execution', () => {
     expect((assistant as any).pendingToolCalls.size).toBe(0);
   });
 });
+
+describe('AssistantLoop external tool calls', () => {
+  test('should apply allowed tools and inject cwd', async () => {
+    const assistant = new AssistantLoop({ cwd: '/tmp/base', allowedTools: ['spy'] });
+    let receivedInput: Record<string, unknown> | undefined;
+    (assistant as any).toolRegistry.register(makeTool('spy'), async (input: Record<string, unknown>) => {
+      receivedInput = input;
+      return 'ok';
+    });
+    (assistant as any).toolRegistry.register(makeTool('other'), async () => 'ran');
+
+    const allowed = await assistant.executeExternalToolCall('spy', { value: 1 });
+    expect(allowed.isError).toBe(false);
+    expect(allowed.content).toBe('ok');
+    expect(receivedInput).toMatchObject({ value: 1, cwd: '/tmp/base' });
+
+    const denied = await assistant.executeExternalToolCall('other', {});
+    expect(denied.isError).toBe(true);
+    expect(denied.content).toContain('not in the allowed tools list');
+  });
+
+  test('should refuse calls while paused on budget or after stop()', async () => {
+    const assistant = new AssistantLoop({ cwd: '/tmp/base' });
+    (assistant as any).toolRegistry.register(makeTool('spy'), async () => 'ok');
+
+    (assistant as any).paused = true;
+    const paused = await assistant.executeExternalToolCall('spy', {});
+    expect(paused.isError).toBe(true);
+    expect(paused.content).toContain('Budget exceeded');
+
+    // A stop from an earlier request doesn't block the next call
+    (assistant as any).paused = false;
+    assistant.stop();
+    const result = await assistant.executeExternalToolCall('spy', {});
+    expect(result.content).toBe('ok');
+  });
+});
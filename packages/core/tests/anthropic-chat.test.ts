@@ -4,7 +4,8 @@ import { join } from 'path';
 import { tmpdir } from 'os';
 import type { StreamChunk } from '@hasna/assistants-shared';
 
-let behavior: 'success' | 'invalid-json' | 'error' = 'success';
+let behavior: 'success' | 'invalid-json' | 'error' | 'thinking' = 'success';
+let lastParams: any = null;
 
 class MockStream {
   constructor(private events: any[], private usage: any) {}
@@ -26,7 +27,24 @@ class MockStream {
 mock.module('@anthropic-ai/sdk', () => ({
   default: class MockAnthropic {
     messages = {
-      stream: () => {
+      stream: (params: any) => {
+        lastParams = params;
+        if (behavior === 'thinking') {
+          return new MockStream(
+            [
+              { type: 'content_block_start', content_block: { type: 'thinking', thinking: '' } },
+              { type: 'content_block_delta', delta: { type: 'thinking_delta', thinking: 'Consider ' } },
+              { type: 'content_block_delta', delta: { type: 'thinking_delta', thinking: 'options' } },
+              { type: 'content_block_delta', delta: { type: 'signature_delta', signature: 'sig' } },
+              { type: 'content_block_stop' },
+              { type: 'content_block_start', content_block: { type: 'text', text: '' } },
+              { type: 'content_block_delta', delta: { type: 'text_delta', text: 'done' } },
+              { type: 'content_block_stop' },
+              { type: 'message_stop' },
+            ],
+            { input_tokens: 10, output_tokens: 5, cache_read_input_tokens: 100, cache_creation_input_tokens: 20 }
+          );
+        }
         const events =
           behavior === 'invalid-json'
             ? [
@@ -88,6 +106,36 @@ describe('AnthropicClient chat', () => {
     expect(toolChunk?.toolCall?.input).toEqual({});
   });
 
+  test('streams thinking blocks and reports cache usage', async () => {
+    behavior = 'thinking';
+    const client = new AnthropicClient({
+      provider: 'anthropic',
+      model: 'mock',
+      apiKey: 'key',
+      maxTokens: 1000,
+      thinking: { enabled: true, budgetTokens: 2000 },
+    });
+
+    const chunks: StreamChunk[] = [];
+    for await (const chunk of client.chat([], undefined, 'Be helpful')) {
+      chunks.push(chunk);
+    }
+
+    const deltas = chunks.filter((c) => c.type === 'thinking' && c.content).map((c) => c.content);
+    expect(deltas).toEqual(['Consider ', 'options']);
+    const block = chunks.find((c) => c.type === 'thinking' && c.thinking);
+    expect(block?.thinking).toEqual({ thinking: 'Consider options', signature: 'sig' });
+
+    const usage = chunks.find((c) => c.type === 'usage')?.usage;
+    expect(usage?.inputTokens).toBe(130);
+    expect(usage?.cacheReadTokens).toBe(100);
+    expect(usage?.cacheWriteTokens).toBe(20);
+
+    expect(lastParams.thinking).toEqual({ type: 'enabled', budget_tokens: 2000 });
+    expect(lastParams.max_tokens).toBe(3000);
+    expect(lastParams.system[0].cache_control).toEqual({ type: 'ephemeral' });
+  });
+
   test('yields error on stream failure', async () => {
     behavior = 'error';
     const client = new AnthropicClient({
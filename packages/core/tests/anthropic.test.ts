@@ -200,6 +200,94 @@ describe('AnthropicClient', () => {
     });
   });
 
+  describe('prompt caching', () => {
+    test('should mark the last tool as a cache breakpoint', () => {
+      const client = new AnthropicClient(mockConfig);
+      const tools: Tool[] = [
+        { name: 'tool1', description: 'First tool', parameters: { type: 'object', properties: {} } },
+        { name: 'tool2', description: 'Second tool', parameters: { type: 'object', properties: {} } },
+      ];
+
+      const converted = (client as any).convertTools(tools);
+
+      expect(converted[0].cache_control).toBeUndefined();
+      expect(converted[1].cache_control).toEqual({ type: 'ephemeral' });
+    });
+
+    test('should not add cache breakpoints when disabled', () => {
+      const client = new AnthropicClient({ ...mockConfig, promptCaching: false });
+      const tools: Tool[] = [
+        { name: 'tool1', description: 'First tool', parameters: { type: 'object', properties: {} } },
+      ];
+
+      const converted = (client as any).convertTools(tools);
+
+      expect(converted[0].cache_control).toBeUndefined();
+    });
+
+    test('should mark the last history block as a cache breakpoint', () => {
+      const client = new AnthropicClient(mockConfig);
+      const converted = (client as any).convertMessages([
+        { id: '1', role: 'user', content: 'Hello', timestamp: Date.now() },
+        { id: '2', role: 'assistant', content: 'Hi', timestamp: Date.now() },
+        { id: '3', role: 'user', content: 'Again', timestamp: Date.now() },
+      ] as Message[]);
+
+      (client as any).addHistoryCacheBreakpoint(converted);
+
+      expect(converted[0].content[0].cache_control).toBeUndefined();
+      expect(converted[2].content[0].cache_control).toEqual({ type: 'ephemeral' });
+    });
+  });
+
+  describe('extended thinking', () => {
+    const assistantWithThinking: Message = {
+      id: '2',
+      role: 'assistant',
+      content: 'Answer',
+      timestamp: Date.now(),
+      thinking: [
+        { thinking: 'Let me think', signature: 'sig-1' },
+        { thinking: '', redactedData: 'opaque' },
+      ],
+    };
+
+    test('should replay thinking blocks before assistant content when enabled', () => {
+      const client = new AnthropicClient({ ...mockConfig, thinking: { enabled: true, budgetTokens: 2048 } });
+      const converted = (client as any).convertMessages([assistantWithThinking]);
+
+      expect(converted[0].content[0]).toEqual({ type: 'thinking', thinking: 'Let me think', signature: 'sig-1' });
+      expect(converted[0].content[1]).toEqual({ type: 'redacted_thinking', data: 'opaque' });
+      expect(converted[0].content[2].type).toBe('text');
+    });
+
+    test('should drop thinking blocks when thinking is disabled', () => {
+      const client = new AnthropicClient(mockConfig);
+      const converted = (client as any).convertMessages([assistantWithThinking]);
+
+      expect(converted[0].content).toHaveLength(1);
+      expect(converted[0].content[0].type).toBe('text');
+    });
+
+    test('should skip thinking blocks when placing the history breakpoint', () => {
+      const client = new AnthropicClient({ ...mockConfig, thinking: { enabled: true } });
+      const converted = [
+        {
+          role: 'assistant',
+          content: [
+            { type: 'text', text: 'Answer' },
+            { type: 'thinking', thinking: 'trailing', signature: 'sig' },
+          ],
+        },
+      ];
+
+      (client as any).addHistoryCacheBreakpoint(converted);
+
+      expect(converted[0].content[0]).toHaveProperty('cache_control');
+      expect(converted[0].content[1]).not.toHaveProperty('cache_control');
+    });
+  });
+
   describe('convertTools', () => {
     const createClient = () => new AnthropicClient(mockConfig);
 
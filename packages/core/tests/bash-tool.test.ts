@@ -2,6 +2,7 @@ import { describe, expect, test } from 'bun:test';
 import { mkdtemp, writeFile, mkdir } from 'fs/promises';
 import { tmpdir } from 'os';
 import { join } from 'path';
+import { existsSync } from 'fs';
 import { BashTool } from '../src/tools/bash';
 import { ToolExecutionError } from '../src/errors';
 
@@ -32,3 +33,22 @@ describe('BashTool allowEnv toggle', () => {
     ).rejects.toThrow('env/printenv disabled');
   });
 });
+
+describe('BashTool git global options', () => {
+  test('rejects git config overrides and output files in read-only mode', async () => {
+    const base = await mkdtemp(join(tmpdir(), 'assistants-bash-'));
+    const marker = join(base, 'PWNED');
+
+    await expect(
+      BashTool.executor({ command: `git -c core.fsmonitor='touch ${marker}' status`, cwd: base })
+    ).rejects.toThrow(ToolExecutionError);
+    await expect(
+      BashTool.executor({ command: 'git -C /tmp status', cwd: base })
+    ).rejects.toThrow(ToolExecutionError);
+    await expect(
+      BashTool.executor({ command: 'git log --output=patch.txt', cwd: base })
+    ).rejects.toThrow(ToolExecutionError);
+
+    expect(existsSync(marker)).toBe(false);
+  });
+});
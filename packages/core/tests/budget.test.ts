@@ -1,5 +1,5 @@
 import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
-import { mkdtempSync, rmSync, existsSync } from 'fs';
+import { mkdtempSync, rmSync, existsSync, mkdirSync, writeFileSync } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
 import {
@@ -9,7 +9,10 @@ import {
   DEFAULT_ASSISTANT_LIMITS,
   DEFAULT_SWARM_LIMITS,
   WARNING_THRESHOLD,
+  formatSparkline,
 } from '../src/budget';
+import { BudgetWindowStore } from '../src/budget/window-store';
+import { AssistantLoop } from '../src/agent/loop';
 import type { BudgetConfig } from '@hasna/assistants-shared';
 
 let tempDir: string;
@@ -116,6 +119,75 @@ describe('BudgetTracker', () => {
       expect(swarmUsage.inputTokens).toBe(5000);
       expect(swarmUsage.llmCalls).toBe(5);
     });
+
+    test('tracks prompt cache reads and writes', () => {
+      const tracker = new BudgetTracker('test-session');
+      tracker.recordLlmCall(1000, 100, 50, 'assistant-1', { cacheReadTokens: 800, cacheWriteTokens: 150 });
+      tracker.recordLlmCall(1200, 100, 50, 'assistant-1', { cacheReadTokens: 950 });
+
+      const usage = tracker.getUsage('session');
+      expect(usage.inputTokens).toBe(2200);
+      expect(usage.cacheReadTokens).toBe(1750);
+      expect(usage.cacheWriteTokens).toBe(150);
+      expect(tracker.getUsage('assistant', 'assistant-1').cacheReadTokens).toBe(1750);
+      expect(tracker.formatUsage('session')).toContain('Cache: 1,750 read / 150 written');
+    });
+
+    test('prices calls for known models', () => {
+      const tracker = new BudgetTracker('test-session');
+      // Sonnet: $3/1M input, $15/1M output, $0.30/1M cache reads
+      tracker.recordLlmCall(1_000_000, 100_000, 50, undefined, {
+        model: 'claude-sonnet-4-20250514',
+        cacheReadTokens: 500_000,
+      });
+      tracker.recordLlmCall(1000, 100, 50, undefined, { model: 'unknown-model' });
+
+      expect(tracker.getUsage('session').costUsd).toBeCloseTo(1.5 + 0.15 + 1.5, 6);
+      expect(tracker.formatUsage('session')).toContain('Cost: $3.15');
+    });
+
+    test('applies pricing overrides from config', () => {
+      const tracker = new BudgetTracker('test-session', {
+        pricing: { 'llama3.1:8b': { inputPer1M: 0.1, outputPer1M: 0.2 } },
+      });
+      tracker.recordLlmCall(1_000_000, 1_000_000, 50, undefined, { model: 'llama3.1:8b' });
+
+      expect(tracker.getUsage('session').costUsd).toBeCloseTo(0.3, 6);
+    });
+
+    test('attributes cost to the tools a call requested', () => {
+      const tracker = new BudgetTracker('test-session');
+      tracker.recordLlmCall(1_000_000, 0, 50, undefined, {
+        model: 'claude-sonnet-4-20250514',
+        toolNames: ['bash', 'read'],
+      });
+      tracker.recordLlmCall(1_000_000, 0, 50, undefined, {
+        model: 'claude-sonnet-4-20250514',
+        toolNames: ['bash'],
+      });
+
+      const costs = tracker.getToolCosts();
+      expect(costs.map((c) => c.toolName)).toEqual(['bash', 'read']);
+      expect(costs[0].calls).toBe(2);
+      expect(costs[0].costUsd).toBeCloseTo(4.5, 6);
+      expect(costs[1].costUsd).toBeCloseTo(1.5, 6);
+    });
+
+    test('records subassistant spend against a shared tracker', () => {
+      const tracker = new BudgetTracker('parent-session');
+      const subassistant = new AssistantLoop({
+        cwd: tempDir,
+        budgetTracker: tracker,
+        budgetAssistantId: 'sub-1',
+        llmClient: { getModel: () => 'claude-sonnet-4-20250514', chat: async function* () {} },
+      });
+
+      subassistant.updateTokenUsage({ inputTokens: 1_000_000, outputTokens: 0 }, ['grep']);
+
+      expect(tracker.getUsage('assistant', 'sub-1').costUsd).toBeCloseTo(3, 6);
+      expect(tracker.getUsage('session').costUsd).toBeCloseTo(3, 6);
+      expect(tracker.getToolCosts()[0]).toMatchObject({ toolName: 'grep', calls: 1 });
+    });
   });
 
   describe('budget checking', () => {
@@ -187,6 +259,22 @@ describe('BudgetTracker', () => {
       expect(status.checks.llmCalls?.exceeded).toBe(true);
       expect(status.checks.totalTokens?.exceeded).toBe(false);
     });
+
+    test('enforces dollar limits', () => {
+      const tracker = new BudgetTracker('test-session', {
+        enabled: true,
+        session: { maxCostUsd: 1 },
+        assistant: { maxCostUsd: 0.5 },
+      });
+
+      tracker.recordLlmCall(200_000, 0, 10, 'sub-1', { model: 'claude-sonnet-4-20250514' });
+      expect(tracker.isExceeded('assistant', 'sub-1')).toBe(true);
+      expect(tracker.checkBudget('session').checks.costUsd?.percentUsed).toBe(60);
+      expect(tracker.isExceeded('session')).toBe(false);
+
+      tracker.recordLlmCall(200_000, 0, 10, undefined, { model: 'claude-sonnet-4-20250514' });
+      expect(tracker.checkBudget('session').checks.costUsd?.exceeded).toBe(true);
+    });
   });
 
   describe('usage reset', () => {
@@ -313,6 +401,168 @@ describe('BudgetTracker', () => {
     });
   });
 
+  describe('rolling windows', () => {
+    const HOUR_MS = 60 * 60 * 1000;
+
+    function seedEvents(events: Array<Record<string, unknown>>): void {
+      const dir = join(tempDir, '.assistants', 'budget');
+      mkdirSync(dir, { recursive: true });
+      writeFileSync(join(dir, 'usage-events.jsonl'), events.map((e) => JSON.stringify(e)).join('\n') + '\n');
+    }
+
+    test('enforces daily assistant limits across restarts', () => {
+      const config: BudgetConfig = {
+        enabled: true,
+        persist: true,
+        assistant: { maxTotalTokens: 1000, period: 'day' },
+      };
+
+      const first = new BudgetTracker('session-1', config);
+      first.setOwnerAssistant('heartbeat-bot');
+      first.recordLlmCall(400, 200, 10);
+
+      // A later session for the same assistant sees the earlier usage
+      const second = new BudgetTracker('session-2', config);
+      second.setOwnerAssistant('heartbeat-bot');
+      second.recordLlmCall(300, 200, 10);
+
+      const status = second.checkBudget('assistant', 'heartbeat-bot');
+      expect(status.window).toBe('day');
+      expect(status.usage.totalTokens).toBe(1100);
+      expect(status.overallExceeded).toBe(true);
+      expect(second.isAnyExceeded()).toBe(true);
+
+      // Other assistants have their own window
+      expect(second.checkBudget('assistant', 'other-bot').usage.totalTokens).toBe(0);
+    });
+
+    test('ignores usage outside the window', () => {
+      const now = Date.now();
+      seedEvents([
+        { at: now - 2 * HOUR_MS, sessionId: 'test-session', totalTokens: 900, llmCalls: 1 },
+        { at: now - 10 * 60 * 1000, sessionId: 'test-session', totalTokens: 50, llmCalls: 1 },
+        { at: now - 10 * 60 * 1000, sessionId: 'other-session', totalTokens: 70, llmCalls: 1 },
+      ]);
+
+      const tracker = new BudgetTracker('test-session', {
+        enabled: true,
+        session: { maxTotalTokens: 1000, period: 'hour' },
+      });
+
+      expect(tracker.checkBudget('session').usage.totalTokens).toBe(50);
+      expect(tracker.getWindowUsage('session', 'day').totalTokens).toBe(950);
+      // Session-period limits still count only this session
+      expect(tracker.checkBudget('swarm').window).toBeUndefined();
+    });
+
+    test('buckets history by hour', () => {
+      const now = Date.now();
+      seedEvents([
+        { at: now - 3 * HOUR_MS, sessionId: 'test-session', totalTokens: 100, llmCalls: 1 },
+        { at: now - 40 * HOUR_MS, sessionId: 'test-session', totalTokens: 999, llmCalls: 1 },
+      ]);
+
+      const tracker = new BudgetTracker('test-session');
+      tracker.recordLlmCall(20, 10, 5);
+
+      const history = tracker.getHistory('hour');
+      expect(history).toHaveLength(24);
+      expect(history[history.length - 1].usage.totalTokens).toBe(30);
+      expect(history[history.length - 4].usage.totalTokens).toBe(100);
+      expect(history.reduce((sum, b) => sum + b.usage.totalTokens, 0)).toBe(130);
+      expect(tracker.getHistory('day').reduce((sum, b) => sum + b.usage.totalTokens, 0)).toBe(1129);
+    });
+
+    test('history spans all sessions unless scoped to this session', () => {
+      const now = Date.now();
+      seedEvents([
+        { at: now - 2 * HOUR_MS, sessionId: 'other-session', totalTokens: 500, llmCalls: 1 },
+        { at: now - HOUR_MS, sessionId: 'test-session', totalTokens: 100, llmCalls: 1 },
+      ]);
+
+      const tracker = new BudgetTracker('test-session');
+      const total = (scope?: 'all' | 'session') =>
+        tracker.getHistory('hour', scope).reduce((sum, b) => sum + b.usage.totalTokens, 0);
+      expect(total()).toBe(600);
+      expect(total('all')).toBe(600);
+      expect(total('session')).toBe(100);
+    });
+
+    test('reset clears the rolling window', () => {
+      const tracker = new BudgetTracker('test-session', {
+        enabled: true,
+        persist: true,
+        session: { maxTotalTokens: 100, period: 'day' },
+      });
+      tracker.recordLlmCall(100, 50, 5);
+      expect(tracker.isExceeded('session')).toBe(true);
+
+      tracker.resetUsage('session');
+      expect(tracker.isExceeded('session')).toBe(false);
+      expect(new BudgetTracker('test-session', { persist: true }).getWindowUsage('session', 'day').totalTokens).toBe(0);
+    });
+
+    test('session reset keeps other sessions and assistants', () => {
+      const config: BudgetConfig = { enabled: true, persist: true };
+      const other = new BudgetTracker('other-session', config);
+      other.setOwnerAssistant('heartbeat-bot');
+      other.recordLlmCall(400, 100, 5);
+
+      const tracker = new BudgetTracker('test-session', config);
+      tracker.recordLlmCall(100, 50, 5);
+      tracker.resetUsage('session');
+      tracker.resetAll();
+
+      expect(tracker.getWindowUsage('session', 'day').totalTokens).toBe(0);
+      expect(other.getWindowUsage('session', 'day').totalTokens).toBe(500);
+      expect(tracker.getWindowUsage('assistant', 'day', 'heartbeat-bot').totalTokens).toBe(500);
+    });
+
+    test('compaction keeps events appended by other processes', () => {
+      const path = join(tempDir, 'events.jsonl');
+      const first = new BudgetWindowStore(path, true);
+      const second = new BudgetWindowStore(path, true);
+      const now = Date.now();
+
+      first.append({ at: now, sessionId: 'a', totalTokens: 1 });
+      expect(first.query()).toHaveLength(1);
+      second.append({ at: now, sessionId: 'b', totalTokens: 2 });
+      first.remove({ sessionId: 'a' });
+
+      expect(new BudgetWindowStore(path, true).query().map((event) => event.sessionId)).toEqual(['b']);
+      expect(existsSync(`${path}.lock`)).toBe(false);
+    });
+
+    test('appends do not re-read the file unless another process wrote to it', () => {
+      const path = join(tempDir, 'events.jsonl');
+      const first = new BudgetWindowStore(path, true);
+      const second = new BudgetWindowStore(path, true);
+      const now = Date.now();
+      let reads = 0;
+      const readFile = (first as any).readFile.bind(first);
+      (first as any).readFile = () => {
+        reads++;
+        return readFile();
+      };
+
+      for (let i = 0; i < 5; i++) {
+        first.append({ at: now, sessionId: 'a', totalTokens: 1 });
+      }
+      expect(first.query()).toHaveLength(5);
+      expect(reads).toBe(0);
+
+      second.append({ at: now, sessionId: 'b', totalTokens: 2 });
+      first.append({ at: now, sessionId: 'a', totalTokens: 1 });
+      expect(first.query().map((event) => event.sessionId)).toEqual(['a', 'a', 'a', 'a', 'a', 'b', 'a']);
+      expect(reads).toBe(1);
+    });
+
+    test('renders sparklines', () => {
+      expect(formatSparkline([0, 1, 2, 4, 8])).toBe('▁▂▃▅█');
+      expect(formatSparkline([0, 0])).toBe('▁▁');
+    });
+  });
+
   describe('format output', () => {
     test('formats usage for display', () => {
       const config: BudgetConfig = {
@@ -0,0 +1,294 @@
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, rm } from 'fs/promises';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { Message, StreamChunk } from '@hasna/assistants-shared';
+import { CheckpointStore, getToolWritePaths } from '../src/sessions/checkpoints';
+import { forkSession, buildSessionTree } from '../src/sessions/branches';
+import { SessionStorage } from '../src/logger';
+import { AssistantLoop } from '../src/agent/loop';
+import { nativeHookRegistry } from '../src/hooks/native';
+
+let tempDir: string;
+let workDir: string;
+let originalAssistantsDir: string | undefined;
+
+beforeEach(async () => {
+  originalAssistantsDir = process.env.ASSISTANTS_DIR;
+  tempDir = await mkdtemp(join(tmpdir(), 'assistants-checkpoints-'));
+  workDir = join(tempDir, 'project');
+  mkdirSync(workDir, { recursive: true });
+  process.env.ASSISTANTS_DIR = join(tempDir, 'config');
+});
+
+afterEach(async () => {
+  if (originalAssistantsDir === undefined) {
+    delete process.env.ASSISTANTS_DIR;
+  } else {
+    process.env.ASSISTANTS_DIR = originalAssistantsDir;
+  }
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+function message(id: string, role: Message['role'], content: string): Message {
+  return { id, role, content, timestamp: Date.now() };
+}
+
+describe('CheckpointStore', () => {
+  test('creates checkpoints and resolves them by number, offset and id prefix', () => {
+    const store = new CheckpointStore('session-1');
+    const first = store.create({ messageIndex: 0, messageId: 'm1', prompt: 'first prompt\nmore lines' });
+    const second = store.create({ messageIndex: 2, messageId: 'm3', prompt: 'second' });
+
+    expect(first.prompt).toBe('first prompt');
+    expect(store.list().map((checkpoint) => checkpoint.id)).toEqual([first.id, second.id]);
+    expect(store.resolve('1')?.id).toBe(first.id);
+    expect(store.resolve('-1')?.id).toBe(second.id);
+    expect(store.resolve(second.id.slice(0, 6))?.id).toBe(second.id);
+    // Longer than the first segment of a UUID, so never an ID prefix either
+    expect(store.resolve('9999999999')).toBeNull();
+
+    const numericPrefix = store.create({ messageIndex: 4, prompt: 'third' });
+    (store as any).checkpoints[2].id = '31258345-ba28-4c03-b85c-fb6a6b4e58be';
+    expect(store.resolve('312583')?.prompt).toBe(numericPrefix.prompt);
+
+    // Reloaded from disk
+    expect(new CheckpointStore('session-1').list()).toHaveLength(3);
+  });
+
+  test('rejects unsafe session ids', () => {
+    expect(() => new CheckpointStore('../escape')).toThrow('Invalid sessionId');
+  });
+
+  test('restores modified files and deletes files created after the checkpoint', () => {
+    const store = new CheckpointStore('session-1');
+    const existing = join(workDir, 'a.txt');
+    const created = join(workDir, 'b.txt');
+    writeFileSync(existing, 'original');
+
+    const checkpoint = store.create({ messageIndex: 0, prompt: 'change files' });
+    store.snapshot([existing, created]);
+    writeFileSync(existing, 'changed');
+    writeFileSync(created, 'new file');
+
+    // A second change in the same turn keeps the first snapshot
+    store.snapshot([existing]);
+    writeFileSync(existing, 'changed again');
+
+    const result = store.restoreFiles(checkpoint.id);
+    expect(readFileSync(existing, 'utf-8')).toBe('original');
+    expect(existsSync(created)).toBe(false);
+    expect(result.restored).toEqual([existing]);
+    expect(result.deleted).toEqual([created]);
+  });
+
+  test('restores the state from the earliest snapshot at or after the checkpoint', () => {
+    const store = new CheckpointStore('session-1');
+    const file = join(workDir, 'a.txt');
+    writeFileSync(file, 'v1');
+
+    const first = store.create({ messageIndex: 0, prompt: 'one' });
+    store.create({ messageIndex: 2, prompt: 'two' });
+    store.snapshot([file]);
+    writeFileSync(file, 'v2');
+
+    store.restoreFiles(first.id);
+    expect(readFileSync(file, 'utf-8')).toBe('v1');
+  });
+
+  test('stops walking a directory at the file cap', () => {
+    const store = new CheckpointStore('session-1');
+    for (const sub of ['one', 'two']) {
+      mkdirSync(join(workDir, sub));
+      for (let i = 0; i < 300; i++) {
+        writeFileSync(join(workDir, sub, `${i}.txt`), '');
+      }
+    }
+    mkdirSync(join(workDir, 'node_modules'));
+
+    const checkpoint = store.create({ messageIndex: 0, prompt: 'big change' });
+    store.snapshot([workDir, join(workDir, 'node_modules')]);
+
+    const skipped = checkpoint.files.filter((file) => file.skipped);
+    expect(checkpoint.files).toHaveLength(502);
+    expect(skipped).toEqual([
+      { path: workDir, existed: true, skipped: 'too many files in one turn' },
+      { path: join(workDir, 'node_modules'), existed: true, skipped: 'too many files in one turn' },
+    ]);
+  });
+
+  test('does not walk a skipped directory passed directly', () => {
+    const store = new CheckpointStore('session-1');
+    const modules = join(workDir, 'node_modules');
+    mkdirSync(modules);
+    writeFileSync(join(modules, 'index.js'), '');
+
+    const checkpoint = store.create({ messageIndex: 0, prompt: 'clean' });
+    store.snapshot([modules]);
+    expect(checkpoint.files).toEqual([{ path: modules, existed: true, skipped: 'directory not snapshotted' }]);
+  });
+
+  test('truncate drops the checkpoint and later ones', () => {
+    const store = new CheckpointStore('session-1');
+    store.create({ messageIndex: 0, prompt: 'one' });
+    const second = store.create({ messageIndex: 2, prompt: 'two' });
+    store.create({ messageIndex: 4, prompt: 'three' });
+
+    store.truncate(second.id);
+    expect(store.list().map((checkpoint) => checkpoint.prompt)).toEqual(['one']);
+  });
+});
+
+describe('getToolWritePaths', () => {
+  test('resolves paths for edit, apply_patch and bash', () => {
+    expect(getToolWritePaths('edit', { path: 'src/a.ts' }, workDir)).toEqual([join(workDir, 'src/a.ts')]);
+
+    const patch = [
+      '--- a/old.txt',
+      '+++ b/new.txt',
+      '@@ -1 +1 @@',
+      '-a',
+      '+b',
+      '',
+    ].join('\n');
+    expect(getToolWritePaths('apply_patch', { patch }, workDir)).toEqual([
+      join(workDir, 'old.txt'),
+      join(workDir, 'new.txt'),
+    ]);
+
+    const bashPaths = getToolWritePaths('bash', { command: 'rm build/out.js && touch $HOME/x *.log' }, workDir);
+    expect(bashPaths).toContain(join(workDir, 'build/out.js'));
+    expect(bashPaths.some((path) => path.includes('$') || path.includes('*'))).toBe(false);
+  });
+
+  test('ignores read-only tools', () => {
+    expect(getToolWritePaths('read', { path: 'a.txt' }, workDir)).toEqual([]);
+    expect(getToolWritePaths('bash', { command: 'ls -la' }, workDir)).toEqual([]);
+  });
+});
+
+describe('forkSession', () => {
+  test('saves a new session with messages before the checkpoint and a parent link', () => {
+    const store = new CheckpointStore('parent-session');
+    const messages = [
+      message('m1', 'user', 'one'),
+      message('m2', 'assistant', 'reply one'),
+      message('m3', 'user', 'two'),
+      message('m4', 'assistant', 'reply two'),
+    ];
+    store.create({ messageIndex: 0, messageId: 'm1', prompt: 'one' });
+    const second = store.create({ messageIndex: 2, messageId: 'm3', prompt: 'two' });
+
+    const result = forkSession({
+      sessionId: 'parent-session',
+      cwd: workDir,
+      messages,
+      checkpoint: second,
+      checkpoints: store,
+    });
+
+    expect(result.parentSessionId).toBe('parent-session');
+    expect(result.messageCount).toBe(2);
+    expect(result.checkpointCount).toBe(1);
+
+    const saved = new SessionStorage(result.sessionId).load();
+    expect(saved?.parentSessionId).toBe('parent-session');
+    expect(saved?.forkedFromCheckpointId).toBe(second.id);
+    expect((saved?.messages as Message[]).map((msg) => msg.id)).toEqual(['m1', 'm2']);
+    expect(new CheckpointStore(result.sessionId).list()).toHaveLength(1);
+
+    const listed = SessionStorage.listSessions().find((session) => session.id === result.sessionId);
+    expect(listed?.parentSessionId).toBe('parent-session');
+  });
+});
+
+describe('buildSessionTree', () => {
+  test('places forks below their parent with tree prefixes', () => {
+    const tree = buildSessionTree([
+      { id: 'a' },
+      { id: 'b' },
+      { id: 'a1', parentSessionId: 'a' },
+      { id: 'a2', parentSessionId: 'a' },
+      { id: 'a1x', parentSessionId: 'a1' },
+      { id: 'orphan', parentSessionId: 'missing' },
+    ]);
+
+    expect(tree.map((node) => `${node.prefix}${node.session.id}`)).toEqual([
+      'a',
+      '├─ a1',
+      '│  └─ a1x',
+      '└─ a2',
+      'b',
+      'orphan',
+    ]);
+  });
+
+  test('shows sessions in a parent cycle instead of dropping them', () => {
+    const tree = buildSessionTree([
+      { id: 'x', parentSessionId: 'y' },
+      { id: 'y', parentSessionId: 'x' },
+    ]);
+    expect(tree.map((node) => node.session.id).sort()).toEqual(['x', 'y']);
+  });
+});
+
+describe('AssistantLoop checkpoints', () => {
+  beforeEach(() => {
+    nativeHookRegistry.clear();
+  });
+
+  test('records a checkpoint per turn and rewinds files and conversation', async () => {
+    const file = join(workDir, 'notes.txt');
+    writeFileSync(file, 'before');
+
+    const assistant = new AssistantLoop({ cwd: workDir, sessionId: 'loop-session' });
+    let calls = 0;
+    (assistant as any).llmClient = {
+      getModel: () => 'mock',
+      chat: async function* (): AsyncGenerator<StreamChunk> {
+        calls += 1;
+        if (calls === 1) {
+          yield {
+            type: 'tool_use',
+            toolCall: { id: 'tc1', name: 'edit', input: { path: 'notes.txt' } },
+          };
+          yield { type: 'done' };
+          return;
+        }
+        yield { type: 'text', content: 'done' };
+        yield { type: 'done' };
+      },
+    };
+    (assistant as any).config = { llm: { provider: 'anthropic', model: 'mock' } };
+    (assistant as any).toolRegistry.register(
+      { name: 'edit', description: 'e', parameters: { type: 'object', properties: {} } },
+      async () => {
+        writeFileSync(file, 'after');
+        return 'edited';
+      }
+    );
+
+    await assistant.process('hi');
+    expect(readFileSync(file, 'utf-8')).toBe('after');
+
+    const checkpoints = assistant.listCheckpoints();
+    expect(checkpoints).toHaveLength(1);
+    expect(checkpoints[0].files.map((snapshot) => snapshot.path)).toEqual([file]);
+
+    const result = assistant.rewindToCheckpoint('1');
+    expect(readFileSync(file, 'utf-8')).toBe('before');
+    expect(result.conversationRestored).toBe(true);
+    expect(assistant.getContext().getMessages()).toHaveLength(0);
+    expect(assistant.listCheckpoints()).toHaveLength(0);
+  });
+
+  test('built-in commands do not create checkpoints', async () => {
+    const assistant = new AssistantLoop({ cwd: workDir, sessionId: 'loop-session' });
+    (assistant as any).llmClient = { getModel: () => 'mock', chat: async function* () {} };
+    (assistant as any).config = { llm: { provider: 'anthropic', model: 'mock' } };
+
+    await assistant.process('/rewind');
+    expect(assistant.listCheckpoints()).toHaveLength(0);
+  });
+});
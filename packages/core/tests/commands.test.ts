@@ -1144,6 +1144,34 @@ describe('BuiltinCommands', () => {
     });
   });
 
+  describe('/sessions search command', () => {
+    test('should find messages in saved sessions', async () => {
+      const cmd = loader.getCommand('sessions');
+      expect(cmd).toBeDefined();
+
+      new SessionStorage('search-hit').save({
+        messages: [
+          { id: 'a1', role: 'user', content: 'Rotate the staging database credentials', timestamp: Date.now() },
+        ],
+        startedAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+        cwd: tempDir,
+      });
+
+      if (cmd?.handler) {
+        const result = await cmd.handler('search "database credentials" --since 1d', mockContext);
+        expect(result.handled).toBe(true);
+        const output = emittedContent.join('\n');
+        expect(output).toContain('search-h');
+        expect(output).toContain('**database credentials**');
+
+        emittedContent.length = 0;
+        await cmd.handler('search kubernetes', mockContext);
+        expect(emittedContent.join('\n')).toContain('No matches found');
+      }
+    });
+  });
+
   describe('/projects and /plans commands', () => {
     test('should create and switch to a project', async () => {
       const cmd = loader.getCommand('projects');
@@ -0,0 +1,194 @@
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, mkdirSync, writeFileSync, chmodSync, rmSync, readFileSync, existsSync, utimesSync } from 'fs';
+import { delimiter, join } from 'path';
+import { tmpdir } from 'os';
+import { ConnectorBridge } from '../src/tools/connector';
+import {
+  parseConnectorManifest,
+  connectorFromManifest,
+  loadConnectorManifest,
+} from '../src/connectors/manifest';
+
+const manifest = {
+  manifestVersion: 1,
+  description: 'Foo issue tracker',
+  version: '2.1.0',
+  commands: [
+    {
+      name: 'issues list',
+      description: 'List issues',
+      positional: ['repo'],
+      input: {
+        type: 'object',
+        properties: {
+          repo: { type: 'string', description: 'Repository' },
+          state: { enum: ['open', 'closed'], description: 'Issue state' },
+          limit: { type: 'integer', default: 20 },
+          mine: { type: 'boolean' },
+        },
+        required: ['repo'],
+      },
+      output: { type: 'array', items: { type: 'object' } },
+    },
+  ],
+};
+
+describe('connector manifests', () => {
+  let dir: string;
+  let originalAssistantsDir: string | undefined;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'assistants-connector-manifest-'));
+    originalAssistantsDir = process.env.ASSISTANTS_DIR;
+    process.env.ASSISTANTS_DIR = join(dir, 'assistants');
+  });
+
+  afterEach(() => {
+    if (originalAssistantsDir === undefined) {
+      delete process.env.ASSISTANTS_DIR;
+    } else {
+      process.env.ASSISTANTS_DIR = originalAssistantsDir;
+    }
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  /** Connector CLI that logs each invocation's first argument */
+  const writeCli = (options: { manifest?: unknown; extra?: string } = {}) => {
+    const cliPath = join(dir, 'connect-foo');
+    const logPath = join(dir, 'calls.log');
+    const manifestBranch = options.manifest
+      ? `if [ "$1" = "--manifest" ]; then\ncat <<'JSON'\n${JSON.stringify(options.manifest)}\nJSON\nexit 0\nfi\n`
+      : `if [ "$1" = "--manifest" ]; then\necho "unknown option" >&2\nexit 1\nfi\n`;
+    writeFileSync(
+      cliPath,
+      `#!/bin/sh\necho "$1" >> "${logPath}"\n${manifestBranch}echo "Commands:"\necho "  list    List items"\n${options.extra ?? ''}`
+    );
+    chmodSync(cliPath, 0o755);
+    return { cliPath, calls: () => existsSync(logPath) ? readFileSync(logPath, 'utf-8').trim().split('\n') : [] };
+  };
+
+  test('parseConnectorManifest rejects unknown versions and drops unnamed commands', () => {
+    expect(parseConnectorManifest({ description: 'only a description' })).toBeNull();
+    expect(parseConnectorManifest({ manifestVersion: 99, commands: [] })).toBeNull();
+
+    const parsed = parseConnectorManifest({
+      manifestVersion: 1,
+      commands: [{ name: 'list' }, { description: 'no name' }, 'bad'],
+    });
+    expect(parsed?.commands.map((cmd) => cmd.name)).toEqual(['list']);
+  });
+
+  test('connectorFromManifest maps input schema to args and options', () => {
+    const connector = connectorFromManifest('foo', '/bin/connect-foo', parseConnectorManifest(manifest)!);
+    expect(connector.source).toBe('manifest');
+    expect(connector.version).toBe('2.1.0');
+    expect(connector.auth?.statusCommand).toBe('/bin/connect-foo auth status');
+
+    const command = connector.commands[0];
+    expect(command.args).toEqual([
+      { name: 'repo', description: 'Repository', required: true, type: 'string', default: undefined },
+    ]);
+    expect(command.options.map((o) => [o.name, o.type])).toEqual([
+      ['state', 'string'],
+      ['limit', 'number'],
+      ['mine', 'boolean'],
+    ]);
+    expect(command.options[1].default).toBe(20);
+    expect(command.outputSchema).toEqual(manifest.commands[0].output);
+  });
+
+  test('discovery uses --manifest output and caches it against the binary', async () => {
+    const { cliPath, calls } = writeCli({ manifest });
+    const bridge = new ConnectorBridge(dir);
+
+    const connector = await (bridge as any).discoverConnector('foo', cliPath);
+    expect(connector?.source).toBe('manifest');
+    expect(connector?.commands.map((cmd: { name: string }) => cmd.name)).toEqual(['issues list']);
+    expect(calls()).toEqual(['--manifest']);
+
+    // Same binary, newer mtime: the hash still matches
+    const later = new Date(Date.now() + 60_000);
+    utimesSync(cliPath, later, later);
+    const again = await (bridge as any).discoverConnector('foo', cliPath);
+    expect(again?.source).toBe('manifest');
+    expect(calls()).toEqual(['--manifest']);
+
+    // Changed binary: asked again
+    writeCli({ manifest, extra: '# v2\n' });
+    await (bridge as any).discoverConnector('foo', cliPath);
+    expect(calls()).toEqual(['--manifest', '--manifest']);
+  });
+
+  test('discovery falls back to --help and remembers the CLI has no manifest', async () => {
+    const { cliPath, calls } = writeCli();
+    const bridge = new ConnectorBridge(dir);
+
+    const connector = await (bridge as any).discoverConnector('foo', cliPath);
+    expect(connector?.source).toBe('help');
+    expect(connector?.commands.some((cmd: { name: string }) => cmd.name === 'list')).toBe(true);
+
+    await (bridge as any).discoverConnector('foo', cliPath);
+    expect(calls()).toEqual(['--manifest', '--help', '--help']);
+  });
+
+  test('bare CLI names are looked up on PATH for the manifest cache', async () => {
+    const { calls } = writeCli({ manifest });
+    const originalPath = process.env.PATH;
+    process.env.PATH = `${dir}${delimiter}${originalPath ?? ''}`;
+    try {
+      expect((await loadConnectorManifest('foo', 'connect-foo', { homeDir: dir }))?.source).toBe('cli');
+      expect((await loadConnectorManifest('foo', 'connect-foo', { homeDir: dir }))?.source).toBe('cli');
+      expect(calls()).toEqual(['--manifest']);
+    } finally {
+      process.env.PATH = originalPath;
+    }
+  });
+
+  test('discovered connectors are reused only while their binary is unchanged', async () => {
+    const { cliPath, calls } = writeCli({ manifest });
+    const originalHome = process.env.HOME;
+    process.env.HOME = join(dir, 'home');
+    ConnectorBridge.clearCache();
+    const discover = () => {
+      const bridge = new ConnectorBridge(dir);
+      (bridge as any).resolveConnectorCli = async () => cliPath;
+      return bridge.discover(['foo']);
+    };
+    try {
+      const first = await discover();
+      expect(first[0]?.cli).toBe(cliPath);
+      await discover();
+      expect(calls()).toEqual(['--manifest']);
+
+      // Upgraded binary: discovered again
+      writeCli({ manifest, extra: '# v2\n' });
+      await discover();
+      expect(calls()).toEqual(['--manifest', '--manifest']);
+    } finally {
+      ConnectorBridge.clearCache();
+      process.env.HOME = originalHome;
+    }
+  });
+
+  test('a manifest file next to the binary is used without running it', async () => {
+    const { cliPath, calls } = writeCli();
+    writeFileSync(`${cliPath}.manifest.json`, JSON.stringify(manifest));
+
+    const loaded = await loadConnectorManifest('foo', cliPath, { homeDir: dir });
+    expect(loaded?.source).toBe('file');
+    expect(loaded?.origin).toBe(`${cliPath}.manifest.json`);
+    expect(calls()).toEqual([]);
+  });
+
+  test('a full manifest in ~/.connect-<name> is used', async () => {
+    const { cliPath } = writeCli();
+    const homeDir = join(dir, 'home');
+    const manifestDir = join(homeDir, '.connect-foo');
+    mkdirSync(manifestDir, { recursive: true });
+    writeFileSync(join(manifestDir, 'manifest.json'), JSON.stringify(manifest));
+
+    const loaded = await loadConnectorManifest('foo', cliPath, { homeDir });
+    expect(loaded?.source).toBe('file');
+    expect(loaded?.manifest.description).toBe('Foo issue tracker');
+  });
+});
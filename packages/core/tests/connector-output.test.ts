@@ -0,0 +1,162 @@
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, writeFileSync, chmodSync, rmSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { Connector, ToolProgressUpdate } from '@hasna/assistants-shared';
+import {
+  ConnectorOutputParser,
+  formatConnectorResult,
+  isConnectorPageCursor,
+  readConnectorResultPage,
+} from '../src/connectors/output';
+import { ConnectorBridge } from '../src/tools/connector';
+import { JobManager } from '../src/jobs/job-manager';
+import { readJob } from '../src/jobs/job-store';
+
+const parse = (text: string, onProgress?: (update: ToolProgressUpdate) => void) => {
+  const parser = new ConnectorOutputParser(onProgress);
+  // Split mid-line to exercise buffering
+  parser.push(text.slice(0, 7));
+  parser.push(new TextEncoder().encode(text.slice(7)));
+  return parser.end();
+};
+
+describe('ConnectorOutputParser', () => {
+  test('reports progress events and keeps the result event', () => {
+    const progress: ToolProgressUpdate[] = [];
+    const output = parse([
+      '{"type":"progress","message":"Fetching","current":1,"total":2}',
+      'plain log line',
+      '{"type":"progress","current":2,"total":2}',
+      '{"type":"result","data":{"ok":true},"nextCursor":"c2"}',
+    ].join('\n'), (update) => progress.push(update));
+
+    expect(progress).toEqual([
+      { message: 'Fetching', current: 1, total: 2, data: undefined },
+      { message: undefined, current: 2, total: 2, data: undefined },
+    ]);
+    expect(output.hasData).toBe(true);
+    expect(output.data).toEqual({ ok: true });
+    expect(output.nextCursor).toBe('c2');
+    expect(output.text).toBe('plain log line');
+  });
+
+  test('parses plain JSON and NDJSON records as results', () => {
+    expect(parse('{\n  "id": 1\n}\n').data).toEqual({ id: 1 });
+    expect(parse('{"id":1}\n{"id":2}\n').data).toEqual([{ id: 1 }, { id: 2 }]);
+  });
+
+  test('leaves plain text alone and records error events', () => {
+    const text = parse('Done: 3 items\n');
+    expect(text.hasData).toBe(false);
+    expect(formatConnectorResult(text)).toBe('Done: 3 items');
+
+    expect(parse('{"type":"error","message":"Rate limited"}\n').error).toBe('Rate limited');
+  });
+});
+
+describe('formatConnectorResult', () => {
+  test('returns small results as compact JSON', () => {
+    const output = parse('{\n  "a": [1, 2]\n}');
+    expect(formatConnectorResult(output)).toBe('{"a":[1,2]}');
+  });
+
+  test('pages large lists and serves later pages by cursor', () => {
+    const items = Array.from({ length: 30 }, (_, i) => ({ id: i, title: `Issue number ${i}` }));
+    const output = parse(`{"type":"result","data":{"issues":${JSON.stringify(items)}},"nextCursor":"remote-2"}`);
+
+    const first = JSON.parse(formatConnectorResult(output, { maxChars: 600 }));
+    expect(first.page.field).toBe('issues');
+    expect(first.page.offset).toBe(0);
+    expect(first.page.total).toBe(30);
+    expect(first.data.issues.length).toBe(first.page.returned);
+    expect(first.page.returned).toBeLessThan(30);
+    expect(isConnectorPageCursor(first.page.nextCursor)).toBe(true);
+
+    const seen = [...first.data.issues];
+    let cursor: string = first.page.nextCursor;
+    while (isConnectorPageCursor(cursor)) {
+      const page = JSON.parse(readConnectorResultPage(cursor)!);
+      expect(JSON.stringify(page).length).toBeLessThanOrEqual(600);
+      seen.push(...page.data.issues);
+      cursor = page.page.nextCursor;
+    }
+
+    expect(seen).toEqual(items);
+    // The connector's own cursor follows the last local page
+    expect(cursor).toBe('remote-2');
+  });
+
+  test('unknown page cursors read as expired', () => {
+    expect(readConnectorResultPage('page:missing:10')).toBeNull();
+  });
+});
+
+describe('connector streaming', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'assistants-connector-output-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writeConnector = (script: string): Connector => {
+    const cli = join(dir, 'connect-stream');
+    writeFileSync(cli, `#!/bin/sh\n${script}`);
+    chmodSync(cli, 0o755);
+    return { name: 'stream', cli, description: 'Streaming connector', commands: [] };
+  };
+
+  test('executor streams progress and returns the parsed result', async () => {
+    const connector = writeConnector([
+      'if [ "$ASSISTANTS_CONNECTOR_OUTPUT" != "ndjson" ]; then echo "no ndjson"; exit 1; fi',
+      'echo \'{"type":"progress","message":"Syncing","current":1,"total":2}\'',
+      'echo \'{"type":"result","data":{"synced":2}}\'',
+    ].join('\n'));
+    const bridge = new ConnectorBridge(dir);
+    const executor = (bridge as any).createExecutor(connector);
+
+    const progress: ToolProgressUpdate[] = [];
+    const result = await executor({ command: 'sync', cwd: dir }, undefined, (update: ToolProgressUpdate) => progress.push(update));
+
+    expect(result).toBe('{"synced":2}');
+    expect(progress.map((update) => update.message)).toEqual(['Syncing']);
+  });
+
+  test('executor fails on an error event', async () => {
+    const connector = writeConnector('echo \'{"type":"error","message":"Token expired"}\'');
+    const executor = (new ConnectorBridge(dir) as any).createExecutor(connector);
+
+    await expect(executor({ command: 'sync', cwd: dir })).rejects.toThrow('Token expired');
+  });
+
+  test('jobs keep the parsed result of streaming connectors', async () => {
+    const originalDir = process.env.ASSISTANTS_DIR;
+    process.env.ASSISTANTS_DIR = join(dir, 'assistants');
+    mkdirSync(join(dir, 'assistants', 'jobs'), { recursive: true });
+    const connector = writeConnector([
+      'echo \'{"type":"progress","message":"Working"}\'',
+      'echo \'{"type":"result","data":[1,2,3]}\'',
+    ].join('\n'));
+
+    try {
+      const manager = new JobManager({ enabled: true, defaultTimeoutMs: 5000 }, 'test-session');
+      const completed = new Promise<void>((resolve) => manager.onJobComplete(() => resolve()));
+      const job = await manager.startJob('stream', 'sync', { cwd: dir }, connector.cli);
+      await completed;
+
+      const saved = await readJob(job.id);
+      expect(saved?.status).toBe('completed');
+      expect(saved?.result?.content).toBe('[1,2,3]');
+    } finally {
+      if (originalDir === undefined) {
+        delete process.env.ASSISTANTS_DIR;
+      } else {
+        process.env.ASSISTANTS_DIR = originalDir;
+      }
+    }
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, expect, test, beforeEach } from 'bun:test';
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
 import { ConnectorBridge } from '../src/tools/connector';
 import { ToolRegistry } from '../src/tools/registry';
 import type { Connector, ConnectorCommand } from '@hasna/assistants-shared';
@@ -159,6 +159,25 @@ Commands:
   });
 
   describe('discover', () => {
+    // Discovery caches manifests under the config dir; keep it out of the real one
+    let configDir: string;
+    let originalAssistantsDir: string | undefined;
+
+    beforeEach(() => {
+      originalAssistantsDir = process.env.ASSISTANTS_DIR;
+      configDir = mkdtempSync(join(tmpdir(), 'assistants-connector-config-'));
+      process.env.ASSISTANTS_DIR = configDir;
+    });
+
+    afterEach(() => {
+      if (originalAssistantsDir === undefined) {
+        delete process.env.ASSISTANTS_DIR;
+      } else {
+        process.env.ASSISTANTS_DIR = originalAssistantsDir;
+      }
+      rmSync(configDir, { recursive: true, force: true });
+    });
+
     test('should auto-discover connect-* binaries on PATH', async () => {
       const binDir = mkdtempSync(join(tmpdir(), 'assistants-bin-'));
       const cliPath = join(binDir, 'connect-demo');
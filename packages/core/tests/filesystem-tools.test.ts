@@ -1,5 +1,5 @@
 import { describe, expect, test } from 'bun:test';
-import { mkdtemp, writeFile, rm } from 'fs/promises';
+import { mkdtemp, writeFile, readFile, rm, utimes } from 'fs/promises';
 import { join } from 'path';
 import { tmpdir } from 'os';
 import { FilesystemTools } from '../src/tools/filesystem';
@@ -33,4 +33,185 @@ describe('Filesystem tools', () => {
       await rm(homeDir, { recursive: true, force: true });
     }
   });
+
+  test('edit replaces a unique string and returns a diff', async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), 'assistants-fs-'));
+    try {
+      const filePath = join(tempDir, 'app.ts');
+      await writeFile(filePath, 'const a = 1;\nconst b = 2;\n');
+      const output = await FilesystemTools.editExecutor({
+        path: 'app.ts',
+        old_string: 'const b = 2;',
+        new_string: 'const b = 3;',
+        cwd: tempDir,
+      } as any);
+      expect(await readFile(filePath, 'utf-8')).toBe('const a = 1;\nconst b = 3;\n');
+      expect(output).toContain('+1 -1');
+      expect(output).toContain('-const b = 2;');
+      expect(output).toContain('+const b = 3;');
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('edit rejects ambiguous matches unless replace_all is set', async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), 'assistants-fs-'));
+    try {
+      const filePath = join(tempDir, 'dup.txt');
+      await writeFile(filePath, 'foo\nfoo\n');
+      await expect(FilesystemTools.editExecutor({
+        path: filePath,
+        old_string: 'foo',
+        new_string: 'bar',
+        cwd: tempDir,
+      } as any)).rejects.toThrow('matches 2 locations');
+
+      await FilesystemTools.editExecutor({
+        path: filePath,
+        old_string: 'foo',
+        new_string: 'bar',
+        replace_all: true,
+        cwd: tempDir,
+      } as any);
+      expect(await readFile(filePath, 'utf-8')).toBe('bar\nbar\n');
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('edit refuses files changed since they were read', async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), 'assistants-fs-'));
+    try {
+      const filePath = join(tempDir, 'stale.txt');
+      await writeFile(filePath, 'one\n');
+      await FilesystemTools.readExecutor({ path: filePath, cwd: tempDir } as any);
+      await writeFile(filePath, 'two\n');
+      const future = new Date(Date.now() + 10_000);
+      await utimes(filePath, future, future);
+      await expect(FilesystemTools.editExecutor({
+        path: filePath,
+        old_string: 'two',
+        new_string: 'three',
+        cwd: tempDir,
+      } as any)).rejects.toThrow('modified since it was last read');
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('read stamps are kept per session', async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), 'assistants-fs-'));
+    try {
+      const filePath = join(tempDir, 'shared.txt');
+      await writeFile(filePath, 'one\n');
+      await FilesystemTools.readExecutor({ path: filePath, cwd: tempDir, sessionId: 'sess-a' } as any);
+      await FilesystemTools.readExecutor({ path: filePath, cwd: tempDir, sessionId: 'sess-b' } as any);
+
+      // Session b's edit must not refresh what session a has seen
+      const future = new Date(Date.now() + 10_000);
+      await FilesystemTools.editExecutor({
+        path: filePath,
+        old_string: 'one',
+        new_string: 'two',
+        cwd: tempDir,
+        sessionId: 'sess-b',
+      } as any);
+      await utimes(filePath, future, future);
+      await FilesystemTools.readExecutor({ path: filePath, cwd: tempDir, sessionId: 'sess-b' } as any);
+
+      await expect(FilesystemTools.editExecutor({
+        path: filePath,
+        old_string: 'two',
+        new_string: 'three',
+        cwd: tempDir,
+        sessionId: 'sess-a',
+      } as any)).rejects.toThrow('modified since it was last read');
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('edit is restricted to the project directory', async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), 'assistants-fs-'));
+    const otherDir = await mkdtemp(join(tmpdir(), 'assistants-other-'));
+    try {
+      const outside = join(otherDir, 'outside.txt');
+      await writeFile(outside, 'secret');
+      await expect(FilesystemTools.editExecutor({
+        path: outside,
+        old_string: 'secret',
+        new_string: 'changed',
+        cwd: tempDir,
+      } as any)).rejects.toThrow('outside project directory');
+      await expect(FilesystemTools.editExecutor({
+        path: '.env',
+        old_string: 'A',
+        new_string: 'B',
+        cwd: tempDir,
+      } as any)).rejects.toThrow('protected name pattern');
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+      await rm(otherDir, { recursive: true, force: true });
+    }
+  });
+
+  test('apply_patch applies multi-hunk, multi-file patches', async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), 'assistants-fs-'));
+    try {
+      const lines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+      await writeFile(join(tempDir, 'a.txt'), lines.join('\n') + '\n');
+      const patch = [
+        '--- a/a.txt',
+        '+++ b/a.txt',
+        '@@ -1,3 +1,3 @@',
+        ' line 1',
+        '-line 2',
+        '+line two',
+        ' line 3',
+        '@@ -18,3 +18,4 @@',
+        ' line 18',
+        ' line 19',
+        ' line 20',
+        '+line 21',
+        '--- /dev/null',
+        '+++ b/new.txt',
+        '@@ -0,0 +1,2 @@',
+        '+hello',
+        '+world',
+      ].join('\n');
+      const output = await FilesystemTools.applyPatchExecutor({ patch, cwd: tempDir } as any);
+      expect(output).toContain('Applied patch to 2 files');
+      const updated = await readFile(join(tempDir, 'a.txt'), 'utf-8');
+      expect(updated).toContain('line two\n');
+      expect(updated.endsWith('line 20\nline 21\n')).toBe(true);
+      expect(await readFile(join(tempDir, 'new.txt'), 'utf-8')).toBe('hello\nworld\n');
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('apply_patch writes nothing when any hunk fails', async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), 'assistants-fs-'));
+    try {
+      await writeFile(join(tempDir, 'a.txt'), 'alpha\n');
+      await writeFile(join(tempDir, 'b.txt'), 'beta\n');
+      const patch = [
+        '--- a/a.txt',
+        '+++ b/a.txt',
+        '@@ -1 +1 @@',
+        '-alpha',
+        '+ALPHA',
+        '--- a/b.txt',
+        '+++ b/b.txt',
+        '@@ -1 +1 @@',
+        '-gamma',
+        '+GAMMA',
+      ].join('\n');
+      await expect(FilesystemTools.applyPatchExecutor({ patch, cwd: tempDir } as any))
+        .rejects.toThrow('does not match');
+      expect(await readFile(join(tempDir, 'a.txt'), 'utf-8')).toBe('alpha\n');
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
 });
@@ -311,6 +311,100 @@ describe('GlobalMemoryManager', () => {
     });
   });
 
+  describe('semantic search', () => {
+    beforeEach(async () => {
+      await manager.set('style.indent', 'Use two spaces', {
+        category: 'preference',
+        importance: 5,
+        summary: 'Indentation preference for code formatting',
+      });
+      await manager.set('user.pets', 'Has a dog named Rex', {
+        category: 'fact',
+        importance: 9,
+        summary: 'User owns a dog',
+      });
+      await manager.set('deploy.target', 'Production runs on Kubernetes', {
+        category: 'knowledge',
+        importance: 6,
+        summary: 'Deployment cluster details',
+      });
+    });
+
+    test('getRelevant ranks by similarity over importance', async () => {
+      const memories = await manager.getRelevant('how should I format code indentation?', {
+        limit: 3,
+        minImportance: 1,
+        categories: ['preference', 'fact', 'knowledge'],
+      });
+      expect(memories[0].key).toBe('style.indent');
+      expect(memories).toHaveLength(3);
+    });
+
+    test('getRelevant falls back to importance without matching context', async () => {
+      const memories = await manager.getRelevant('', {
+        limit: 1,
+        minImportance: 1,
+        categories: ['preference', 'fact', 'knowledge'],
+      });
+      expect(memories[0].key).toBe('user.pets');
+    });
+
+    test('search returns scored matches and drops unrelated memories', async () => {
+      const results = await manager.search('kubernetes deployment');
+      expect(results).toHaveLength(1);
+      expect(results[0].memory.key).toBe('deploy.target');
+      expect(results[0].score).toBeGreaterThan(0);
+      expect(results[0].similarity).toBeGreaterThan(0.1);
+    });
+
+    test('search matches word stems', async () => {
+      const results = await manager.search('deployments');
+      expect(results[0]?.memory.key).toBe('deploy.target');
+    });
+
+    test('re-indexes memories when they change', async () => {
+      await manager.set('deploy.target', 'Production runs on bare metal servers', {
+        category: 'knowledge',
+        summary: 'Hosting hardware',
+      });
+      expect(await manager.search('kubernetes')).toHaveLength(0);
+      expect((await manager.search('bare metal'))[0]?.memory.key).toBe('deploy.target');
+    });
+
+    test('uses a pluggable embedder and re-embeds stale vectors', async () => {
+      const dbPath = join(tempDir, 'memory.db');
+      const calls: string[][] = [];
+      const embedder = {
+        id: 'fixed-2',
+        dimensions: 2,
+        embed: async (texts: string[]) => {
+          calls.push(texts);
+          return texts.map(text => (text.includes('dog') ? [1, 0] : [0, 1]));
+        },
+      };
+      const custom = new GlobalMemoryManager({ dbPath, scopeId: 'test-assistant-123', embedder });
+      try {
+        const results = await custom.search('dog', { minSimilarity: 0.5 });
+        expect(results.map(r => r.memory.key)).toEqual(['user.pets']);
+        // Vectors from the default embedder are replaced, then reused
+        expect(calls).toHaveLength(2);
+        await custom.search('dog');
+        expect(calls).toHaveLength(3);
+      } finally {
+        custom.close();
+      }
+    });
+
+    test('removes embeddings with their memory', async () => {
+      const memory = await manager.get('user.pets');
+      await manager.delete(memory!.id);
+      const row = (manager as any).db
+        .query('SELECT COUNT(*) as count FROM memory_embeddings WHERE memory_id = ?')
+        .get(memory!.id);
+      expect(row.count).toBe(0);
+    });
+  });
+
   describe('stats', () => {
     beforeEach(async () => {
       await manager.set('g1', 'v', { category: 'preference', scope: 'global' });
@@ -0,0 +1,200 @@
+import { describe, expect, test, beforeAll, afterAll } from 'bun:test';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { HookInput } from '@hasna/assistants-shared';
+import { callHttpHook, resolveHookModulePath } from '../src/hooks/handlers';
+import { HookExecutor } from '../src/hooks/executor';
+import { HookTester } from '../src/hooks/tester';
+import { verifySignature } from '../src/webhooks/crypto';
+
+const createInput = (cwd: string, overrides: Partial<HookInput> = {}): HookInput => ({
+  session_id: 'sess-123',
+  hook_event_name: 'PreToolUse',
+  cwd,
+  tool_name: 'Bash',
+  tool_input: { command: 'rm -rf build' },
+  ...overrides,
+});
+
+describe('http hooks', () => {
+  let server: ReturnType<typeof Bun.serve>;
+  let url: string;
+  const requests: Array<{ body: string; headers: Headers }> = [];
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      async fetch(request) {
+        const body = await request.text();
+        requests.push({ body, headers: request.headers });
+        const path = new URL(request.url).pathname;
+        if (path === '/deny') {
+          return Response.json({ continue: false, stopReason: 'Destructive command' });
+        }
+        if (path === '/text') {
+          return new Response('Remember to run tests');
+        }
+        if (path === '/fail') {
+          return new Response('boom', { status: 500 });
+        }
+        if (path === '/slow') {
+          await Bun.sleep(500);
+        }
+        return new Response('');
+      },
+    });
+    url = `http://localhost:${server.port}`;
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  test('signs the JSON body and sends custom headers', async () => {
+    process.env.HOOK_TEST_TOKEN = 'abc';
+    process.env.HOOK_TEST_SECRET = 'whsec_secret';
+    try {
+      const response = await callHttpHook(
+        {
+          type: 'http',
+          url: `${url}/deny`,
+          headers: { Authorization: 'Bearer ${HOOK_TEST_TOKEN}' },
+          secret: '${HOOK_TEST_SECRET}',
+        },
+        createInput('/tmp'),
+        5000
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.output).toEqual({ continue: false, stopReason: 'Destructive command' });
+
+      const request = requests[requests.length - 1];
+      expect(JSON.parse(request.body).tool_name).toBe('Bash');
+      expect(request.headers.get('authorization')).toBe('Bearer abc');
+      expect(request.headers.get('x-webhook-event')).toBe('PreToolUse');
+      expect(verifySignature(request.body, request.headers.get('x-webhook-signature')!, 'whsec_secret')).toBe(true);
+    } finally {
+      delete process.env.HOOK_TEST_TOKEN;
+      delete process.env.HOOK_TEST_SECRET;
+    }
+  });
+
+  test('treats plain text as context and empty bodies as no output', async () => {
+    const text = await callHttpHook({ type: 'http', url: `${url}/text` }, createInput('/tmp'), 5000);
+    expect(text.output).toEqual({ continue: true, additionalContext: 'Remember to run tests' });
+
+    const empty = await callHttpHook({ type: 'http', url: `${url}/ok` }, createInput('/tmp'), 5000);
+    expect(empty.output).toBeNull();
+    expect(requests[requests.length - 1].headers.get('x-webhook-signature')).toBeNull();
+  });
+
+  test('times out slow endpoints', async () => {
+    await expect(callHttpHook({ type: 'http', url: `${url}/slow` }, createInput('/tmp'), 50))
+      .rejects.toThrow('timed out');
+  });
+
+  test('executor blocks on the decision and ignores failed requests', async () => {
+    const executor = new HookExecutor();
+    const blocked = await executor.execute(
+      [{ hooks: [{ type: 'http', url: `${url}/deny` }] }],
+      createInput('/tmp')
+    );
+    expect(blocked?.continue).toBe(false);
+
+    const failed = await (executor as any).executeHttpHook({ type: 'http', url: `${url}/fail` }, createInput('/tmp'), 5000);
+    expect(failed).toBeNull();
+  });
+
+  test('tester reports the status and action', async () => {
+    const tester = new HookTester('/tmp', 'sess-123');
+    const result = await tester.test({ type: 'http', url: `${url}/deny` }, 'PreToolUse');
+    expect(result.success).toBe(true);
+    expect(result.status).toBe(200);
+    expect(result.action).toBe('BLOCK');
+    expect(result.reason).toBe('Destructive command');
+
+    const failed = await tester.test({ type: 'http', url: `${url}/fail` }, 'PreToolUse');
+    expect(failed.action).toBe('ERROR');
+    expect(failed.status).toBe(500);
+  });
+});
+
+describe('module hooks', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'assistants-hook-module-'));
+    writeFileSync(join(dir, 'guard.ts'), [
+      'export default async function guard(input: any, context: any) {',
+      '  if (String(input.tool_input?.command).includes("rm -rf")) {',
+      '    return { continue: false, stopReason: `Blocked in ${context.sessionId}` };',
+      '  }',
+      '  return null;',
+      '}',
+      'export const addContext = () => ({ continue: true, additionalContext: "from module" });',
+      'export const notAFunction = 42;',
+    ].join('\n'));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('resolves paths against the project directory', () => {
+    expect(resolveHookModulePath('hooks/guard.ts', '/project')).toBe('/project/hooks/guard.ts');
+    expect(resolveHookModulePath('/abs/guard.ts', '/project')).toBe('/abs/guard.ts');
+  });
+
+  test('executor runs the default export in-process', async () => {
+    const executor = new HookExecutor();
+    executor.setContextProvider(() => ({ messages: [] }));
+
+    const blocked = await executor.execute(
+      [{ hooks: [{ type: 'module', module: 'guard.ts' }] }],
+      createInput(dir)
+    );
+    expect(blocked).toEqual({ continue: false, stopReason: 'Blocked in sess-123' });
+
+    const allowed = await executor.execute(
+      [{ hooks: [{ type: 'module', module: 'guard.ts' }] }],
+      createInput(dir, { tool_input: { command: 'ls' } })
+    );
+    expect(allowed).toBeNull();
+  });
+
+  test('executor calls a named export and skips missing modules', async () => {
+    const executor = new HookExecutor();
+    const named = await (executor as any).executeModuleHook(
+      { type: 'module', module: join(dir, 'guard.ts'), export: 'addContext' },
+      createInput(dir),
+      5000
+    );
+    expect(named?.additionalContext).toBe('from module');
+
+    const missing = await (executor as any).executeModuleHook(
+      { type: 'module', module: 'missing.ts' },
+      createInput(dir),
+      5000
+    );
+    expect(missing).toBeNull();
+  });
+
+  test('tester reports the handler output', async () => {
+    const tester = new HookTester(dir, 'sess-123');
+    const result = await tester.test({ type: 'module', module: 'guard.ts' }, 'PreToolUse', {
+      tool_input: { command: 'rm -rf /' },
+    });
+    expect(result.action).toBe('BLOCK');
+    expect(JSON.parse(result.stdout).stopReason).toBe('Blocked in sess-123');
+
+    const bad = await tester.test({ type: 'module', module: 'guard.ts', export: 'notAFunction' }, 'PreToolUse');
+    expect(bad.action).toBe('ERROR');
+    expect(bad.error).toContain("no function export 'notAFunction'");
+  });
+
+  test('tester still rejects prompt hooks', async () => {
+    const result = await new HookTester(dir).test({ type: 'prompt', prompt: 'Allow?' }, 'PreToolUse');
+    expect(result.error).toContain("only 'command', 'http' and 'module' hooks");
+  });
+});
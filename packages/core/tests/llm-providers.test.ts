@@ -0,0 +1,207 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { LLMConfig, StreamChunk } from '@hasna/assistants-shared';
+import { createLLMClient, discoverModels } from '../src/llm/client';
+import { LLMProviderRegistry, getLLMProviderRegistry } from '../src/llm/registry';
+import { OpenAIClient } from '../src/llm/openai';
+import { listOpenAICompatibleModels, normalizeBaseUrl } from '../src/llm/openai-compatible';
+import { ReplayClient, loadReplayScript } from '../src/llm/replay';
+import { AssistantLoop } from '../src/agent/loop';
+
+async function collect(stream: AsyncGenerator<StreamChunk>): Promise<StreamChunk[]> {
+  const chunks: StreamChunk[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+describe('LLMProviderRegistry', () => {
+  test('ships built-in providers', () => {
+    const ids = getLLMProviderRegistry().list().map((p) => p.id);
+    expect(ids).toEqual(['anthropic', 'openai', 'openai-compatible', 'replay']);
+  });
+
+  test('creates clients from registered providers', async () => {
+    const registry = new LLMProviderRegistry();
+    registry.register({
+      id: 'custom',
+      name: 'Custom',
+      create: async (config) => new ReplayClient(config, { turns: [{ text: 'from custom' }] }),
+    });
+
+    const client = await createLLMClient({ provider: 'custom', model: 'm1' }, registry);
+    const chunks = await collect(client.chat([]));
+    expect(chunks.find((c) => c.type === 'text')?.content).toBe('from custom');
+  });
+
+  test('resolves configured providers to their type', async () => {
+    const client = await createLLMClient({
+      provider: 'ollama',
+      model: 'llama3.1:8b',
+      providers: { ollama: { type: 'openai-compatible', baseUrl: 'http://localhost:11434' } },
+    });
+    expect(client).toBeInstanceOf(OpenAIClient);
+    expect(client.getModel()).toBe('llama3.1:8b');
+  });
+
+  test('keeps a configured provider for hosted model names', async () => {
+    const client = await createLLMClient({
+      provider: 'proxy',
+      model: 'gpt-5.2',
+      providers: { proxy: { type: 'openai-compatible', baseUrl: 'http://localhost:4000/v1' } },
+    });
+    expect(client).toBeInstanceOf(OpenAIClient);
+  });
+
+  test('throws for unknown provider types', async () => {
+    await expect(
+      createLLMClient({ provider: 'nowhere', model: 'm' })
+    ).rejects.toThrow('Unsupported LLM provider: nowhere');
+  });
+});
+
+describe('OpenAI-compatible provider', () => {
+  let server: ReturnType<typeof Bun.serve>;
+  let baseUrl: string;
+  let lastAuth: string | null = null;
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      fetch(req) {
+        const url = new URL(req.url);
+        lastAuth = req.headers.get('authorization');
+        if (url.pathname === '/v1/models') {
+          return Response.json({ object: 'list', data: [{ id: 'qwen2.5' }, { id: 'llama3.1:8b' }] });
+        }
+        return new Response('not found', { status: 404 });
+      },
+    });
+    baseUrl = `http://localhost:${server.port}`;
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  test('normalizes base URLs to the /v1 root', () => {
+    expect(normalizeBaseUrl('http://localhost:11434')).toBe('http://localhost:11434/v1');
+    expect(normalizeBaseUrl('http://localhost:8000/v1/')).toBe('http://localhost:8000/v1');
+  });
+
+  test('discovers models through /v1/models', async () => {
+    const models = await listOpenAICompatibleModels({ type: 'openai-compatible', baseUrl, apiKey: 'secret' });
+    expect(models).toEqual(['llama3.1:8b', 'qwen2.5']);
+    expect(lastAuth).toBe('Bearer secret');
+  });
+
+  test('prefers configured model lists over discovery', async () => {
+    const config: LLMConfig = {
+      provider: 'local',
+      model: 'x',
+      providers: { local: { type: 'openai-compatible', baseUrl, models: ['pinned'] } },
+    };
+    expect(await discoverModels(config, 'local')).toEqual(['pinned']);
+  });
+
+  test('never sends the main API key to a custom server', async () => {
+    const config: LLMConfig = { provider: 'local', model: 'x', apiKey: 'sk-ant-main' };
+    const withoutKey = new OpenAIClient(config, { baseUrl: normalizeBaseUrl(baseUrl) });
+    expect((withoutKey as any).client.apiKey).toBe('not-needed');
+
+    const withKey = new OpenAIClient(config, { baseUrl: normalizeBaseUrl(baseUrl), apiKey: 'local-key' });
+    expect((withKey as any).client.apiKey).toBe('local-key');
+  });
+
+  test('switching to a custom provider drops the main API key', async () => {
+    const assistant = new AssistantLoop({ cwd: mkdtempSync(join(tmpdir(), 'assistants-switch-')) });
+    (assistant as any).config = {
+      llm: {
+        provider: 'anthropic',
+        model: 'claude-opus-4-5-20251101',
+        apiKey: 'sk-ant-main',
+        providers: { local: { type: 'openai-compatible', baseUrl } },
+      },
+    };
+
+    await (assistant as any).switchModel('local:qwen2.5');
+    expect((assistant as any).config.llm.apiKey).toBeUndefined();
+    expect((assistant as any).llmClient.client.apiKey).toBe('not-needed');
+
+    await (assistant as any).switchModel('claude-opus-4-5-20251101');
+    expect((assistant as any).config.llm.apiKey).toBe('sk-ant-main');
+  });
+
+  test('reports unreachable servers', async () => {
+    await expect(
+      listOpenAICompatibleModels({ type: 'openai-compatible', baseUrl: `${baseUrl}/missing` })
+    ).rejects.toThrow('Model discovery failed');
+  });
+});
+
+describe('ReplayClient', () => {
+  test('plays turns in order and errors when exhausted', async () => {
+    const client = new ReplayClient({ provider: 'replay', model: 'replay' }, {
+      turns: [
+        { text: 'first', usage: { inputTokens: 3, outputTokens: 1 } },
+        { toolCalls: [{ name: 'bash', input: { command: 'ls' } }] },
+      ],
+    });
+
+    const first = await collect(client.chat([]));
+    expect(first.map((c) => c.type)).toEqual(['text', 'done', 'usage']);
+
+    const second = await collect(client.chat([]));
+    expect(second[0].toolCall).toEqual({ id: 'replay_2_1', name: 'bash', input: { command: 'ls' } });
+
+    const third = await collect(client.chat([]));
+    expect(third[0].type).toBe('error');
+    expect(third[0].error).toContain('exhausted after 2 turn(s)');
+    expect(client.getCalls()).toHaveLength(3);
+  });
+
+  test('loads scripts from disk through the registry', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'assistants-replay-'));
+    const script = join(dir, 'turns.json');
+    writeFileSync(script, JSON.stringify([{ text: 'scripted' }]));
+
+    expect(loadReplayScript(script).turns).toHaveLength(1);
+
+    const client = await createLLMClient({
+      provider: 'replay',
+      model: 'replay',
+      providers: { replay: { type: 'replay', script } },
+    });
+    const chunks = await collect(client.chat([]));
+    expect(chunks[0].content).toBe('scripted');
+  });
+
+  test('drives the agent loop offline', async () => {
+    const cwd = mkdtempSync(join(tmpdir(), 'assistants-replay-loop-'));
+    const client = new ReplayClient({ provider: 'replay', model: 'replay' }, {
+      turns: [
+        { toolCalls: [{ id: 'tc1', name: 'echo_tool', input: { value: 42 } }] },
+        { text: 'all done' },
+      ],
+    });
+    const assistant = new AssistantLoop({ cwd });
+    (assistant as any).llmClient = client;
+    // Goal extraction would consume a scripted turn
+    (assistant as any).scopeContextManager.setConfig({ enabled: false });
+    (assistant as any).config = { llm: { provider: 'replay', model: 'replay' } };
+    (assistant as any).toolRegistry.register(
+      { name: 'echo_tool', description: 'echo', parameters: { type: 'object', properties: {} } },
+      async (input: Record<string, unknown>) => JSON.stringify(input)
+    );
+
+    await assistant.process('go');
+
+    const messages = assistant.getContext().getMessages();
+    expect(messages[messages.length - 1]?.content).toContain('all done');
+    expect(messages.find((m) => m.toolResults?.length)?.toolResults?.[0].content).toContain('"value":42');
+    expect(client.getRemainingTurns()).toBe(0);
+  });
+});
@@ -0,0 +1,334 @@
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { StreamChunk, Tool } from '@hasna/assistants-shared';
+import { McpManager, McpServer, createAssistantMcpServer, getMcpToolName, type McpTransport } from '../src/mcp';
+import { ToolRegistry } from '../src/tools/registry';
+import { SkillExecutor } from '../src/skills/executor';
+
+const SERVER_SCRIPT = `
+const tools = [
+  { name: 'echo', description: 'Echo text', inputSchema: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'], additionalProperties: false } },
+  { name: 'fail', description: 'Always fails', inputSchema: { type: 'object', properties: {} } },
+  { name: 'crash', description: 'Exits the server', inputSchema: { type: 'object', properties: {} } },
+];
+const handlers = {
+  initialize: () => ({
+    protocolVersion: '2025-03-26',
+    capabilities: { tools: {}, resources: {}, prompts: {} },
+    serverInfo: { name: 'demo-server', version: '1.2.3' },
+    instructions: 'Use echo to repeat text.',
+  }),
+  'tools/list': (params) => params && params.cursor ? { tools: tools.slice(1) } : { tools: tools.slice(0, 1), nextCursor: 'page-2' },
+  'tools/call': (params) => {
+    if (params.name === 'crash') process.exit(3);
+    if (params.name === 'fail') return { content: [{ type: 'text', text: 'boom' }], isError: true };
+    const sawCwd = 'cwd' in params.arguments ? ' (with cwd)' : '';
+    return { content: [{ type: 'text', text: 'echo: ' + params.arguments.text + sawCwd }] };
+  },
+  'resources/list': () => ({ resources: [{ uri: 'memo://readme', name: 'Readme', mimeType: 'text/plain' }] }),
+  'resources/read': (params) => ({ contents: [{ uri: params.uri, text: 'Hello from ' + params.uri }] }),
+  'prompts/list': () => ({ prompts: [{ name: 'greet', description: 'Greet someone', arguments: [{ name: 'who', required: true }] }] }),
+  'prompts/get': (params) => ({ messages: [{ role: 'user', content: { type: 'text', text: 'Say hello to ' + params.arguments.who } }] }),
+  ping: () => ({}),
+};
+let buffer = '';
+process.stdin.on('data', (chunk) => {
+  buffer += chunk;
+  let index;
+  while ((index = buffer.indexOf('\\n')) >= 0) {
+    const line = buffer.slice(0, index);
+    buffer = buffer.slice(index + 1);
+    if (!line.trim()) continue;
+    const message = JSON.parse(line);
+    if (message.id === undefined) continue;
+    const handler = handlers[message.method];
+    const reply = handler
+      ? { jsonrpc: '2.0', id: message.id, result: handler(message.params) }
+      : { jsonrpc: '2.0', id: message.id, error: { code: -32601, message: 'Unknown method' } };
+    process.stdout.write(JSON.stringify(reply) + '\\n');
+  }
+});
+`;
+
+let tempDir: string;
+let scriptPath: string;
+const managers: McpManager[] = [];
+
+function createManager(servers: ConstructorParameters<typeof McpManager>[0]['config']['servers']): McpManager {
+  const manager = new McpManager({ config: { servers, requestTimeoutMs: 5000 }, cwd: tempDir });
+  managers.push(manager);
+  return manager;
+}
+
+beforeEach(() => {
+  tempDir = mkdtempSync(join(tmpdir(), 'assistants-mcp-'));
+  scriptPath = join(tempDir, 'server.js');
+  writeFileSync(scriptPath, SERVER_SCRIPT);
+});
+
+afterEach(async () => {
+  await Promise.all(managers.splice(0).map((manager) => manager.shutdown()));
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe('MCP stdio servers', () => {
+  test('registers namespaced tools and calls them', async () => {
+    const registry = new ToolRegistry();
+    const manager = createManager({ demo: { command: process.execPath, args: [scriptPath], excludeTools: ['cr*'] } });
+    manager.attachRegistry(registry);
+    await manager.connectAll();
+
+    const server = manager.getServer('demo')!;
+    expect(server.status).toBe('connected');
+    expect(server.serverInfo?.version).toBe('1.2.3');
+    expect(server.tools).toEqual(['mcp_demo_echo', 'mcp_demo_fail']);
+    expect(registry.getTool('mcp_demo_echo')?.description).toBe('[demo] Echo text');
+
+    // The loop adds cwd to every call; the tool doesn't declare it
+    const result = await registry.execute({ id: '1', name: 'mcp_demo_echo', input: { text: 'hi', cwd: tempDir } });
+    expect(result.isError).toBe(false);
+    expect(result.content).toBe('echo: hi');
+
+    const failed = await registry.execute({ id: '2', name: 'mcp_demo_fail', input: {} });
+    expect(failed.isError).toBe(true);
+    expect(failed.content).toContain('boom');
+
+    expect(manager.buildPromptSection()).toContain('Instructions: Use echo to repeat text.');
+  });
+
+  test('exposes resources and prompts', async () => {
+    const manager = createManager({ demo: { command: process.execPath, args: [scriptPath] } });
+    await manager.connectAll();
+
+    expect(manager.listResources()).toEqual([{ uri: 'memo://readme', name: 'Readme', mimeType: 'text/plain', server: 'demo' }]);
+    const contents = await manager.readResource('demo', 'memo://readme');
+    expect(contents[0].text).toBe('Hello from memo://readme');
+
+    const [skill] = manager.getPromptSkills();
+    expect(skill.name).toBe('demo:greet');
+    expect(skill.arguments?.[0]).toMatchObject({ name: 'who', required: true });
+    expect(skill.disableModelInvocation).toBe(true);
+    expect(await new SkillExecutor().prepare(skill, [], { who: 'Ada' })).toBe('Say hello to Ada');
+  });
+
+  test('records failures and unregisters tools when the server exits', async () => {
+    const registry = new ToolRegistry();
+    const manager = createManager({
+      demo: { command: process.execPath, args: [scriptPath] },
+      missing: { command: 'definitely-not-an-mcp-server-binary' },
+      off: { command: 'unused', enabled: false },
+    });
+    manager.attachRegistry(registry);
+    await manager.connectAll();
+
+    expect(manager.getServer('missing')?.status).toBe('error');
+    expect(manager.getServer('off')?.status).toBe('disabled');
+
+    const crashed = await registry.execute({ id: '1', name: 'mcp_demo_crash', input: {} });
+    expect(crashed.isError).toBe(true);
+    for (let i = 0; i < 50 && manager.getServer('demo')?.status !== 'error'; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    expect(manager.getServer('demo')?.status).toBe('error');
+    expect(registry.hasTool('mcp_demo_echo')).toBe(false);
+
+    await manager.reconnect('demo');
+    expect(manager.getServer('demo')?.status).toBe('connected');
+    expect(registry.hasTool('mcp_demo_echo')).toBe(true);
+  });
+
+  test('shares connected servers with registries attached later', async () => {
+    const parent = new ToolRegistry();
+    const child = new ToolRegistry();
+    const manager = createManager({ demo: { command: process.execPath, args: [scriptPath] } });
+    manager.attachRegistry(parent);
+    await manager.connectAll();
+
+    manager.attachRegistry(child);
+    for (let i = 0; i < 50 && !child.hasTool('mcp_demo_echo'); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    const result = await child.execute({ id: '1', name: 'mcp_demo_echo', input: { text: 'hi' } });
+    expect(result.content).toBe('echo: hi');
+
+    manager.detachRegistry(child);
+    expect(child.hasTool('mcp_demo_echo')).toBe(false);
+    expect(parent.hasTool('mcp_demo_echo')).toBe(true);
+    expect(manager.getServer('demo')?.status).toBe('connected');
+  });
+});
+
+describe('MCP streamable HTTP servers', () => {
+  test('handles JSON and event-stream replies with a session', async () => {
+    const seenSessions: Array<string | null> = [];
+    let deleted = false;
+    const server = Bun.serve({
+      port: 0,
+      async fetch(request) {
+        if (request.method === 'DELETE') {
+          deleted = true;
+          return new Response(null, { status: 200 });
+        }
+        const message = await request.json() as { id?: number; method: string; params?: Record<string, unknown> };
+        seenSessions.push(request.headers.get('mcp-session-id'));
+        if (message.id === undefined) return new Response(null, { status: 202 });
+
+        const reply = (result: unknown) => JSON.stringify({ jsonrpc: '2.0', id: message.id, result });
+        if (message.method === 'initialize') {
+          return new Response(reply({
+            protocolVersion: '2025-03-26',
+            capabilities: { tools: {} },
+            serverInfo: { name: 'remote' },
+          }), { headers: { 'Content-Type': 'application/json', 'Mcp-Session-Id': 'session-1' } });
+        }
+        if (message.method === 'tools/list') {
+          const tools = [{ name: 'add', description: 'Add numbers', inputSchema: { type: 'object', properties: { a: { type: 'number' }, b: { type: 'number' } } } }];
+          return new Response(`event: message\ndata: ${reply({ tools })}\n\n`, { headers: { 'Content-Type': 'text/event-stream' } });
+        }
+        if (message.method === 'tools/call') {
+          const input = message.params?.arguments as { a: number; b: number };
+          return new Response(reply({ content: [{ type: 'text', text: String(input.a + input.b) }] }), {
+            headers: { 'Content-Type': 'application/json' },
+          });
+        }
+        return new Response(JSON.stringify({ jsonrpc: '2.0', id: message.id, error: { code: -32601, message: 'Unknown method' } }), {
+          headers: { 'Content-Type': 'application/json' },
+        });
+      },
+    });
+
+    try {
+      const registry = new ToolRegistry();
+      const manager = createManager({ remote: { url: `http://localhost:${server.port}/mcp` } });
+      manager.attachRegistry(registry);
+      await manager.connectAll();
+
+      expect(manager.getServer('remote')?.status).toBe('connected');
+      const name = getMcpToolName('remote', 'add');
+      const result = await registry.execute({ id: '1', name, input: { a: 2, b: 3 } });
+      expect(result.content).toBe('5');
+
+      expect(seenSessions[0]).toBeNull();
+      expect(seenSessions.slice(1).every((session) => session === 'session-1')).toBe(true);
+
+      await manager.disconnect('remote');
+      expect(deleted).toBe(true);
+      expect(registry.hasTool(name)).toBe(false);
+    } finally {
+      server.stop(true);
+    }
+  });
+});
+
+function createLoopbackTransport(server: McpServer): McpTransport {
+  const transport: McpTransport = {
+    type: 'stdio',
+    start: async () => {},
+    send: async (message) => {
+      const response = await server.handleMessage(message);
+      if (response) transport.onmessage?.(response);
+    },
+    close: async () => {},
+  };
+  return transport;
+}
+
+function createFakeClient() {
+  const makeTool = (name: string): Tool => ({ name, description: name, parameters: { type: 'object', properties: { path: { type: 'string' } } } });
+  const listeners = new Set<(chunk: StreamChunk) => void>();
+  const state = {
+    calls: [] as Array<{ name: string; input: Record<string, unknown> }>,
+    prompts: [] as string[],
+    budgetBlock: null as string | null,
+  };
+  const client = {
+    getTools: async () => [makeTool('read'), makeTool('bash'), makeTool('write'), makeTool('ask_user')],
+    executeTool: async (name: string, input: Record<string, unknown>) => {
+      state.calls.push({ name, input });
+      return { toolCallId: String(state.calls.length), content: `${name} ran`, isError: name === 'bash' };
+    },
+    getBudgetBlockReason: () => state.budgetBlock,
+    onChunk: (callback: (chunk: StreamChunk) => void) => {
+      listeners.add(callback);
+      return () => listeners.delete(callback);
+    },
+    onError: () => () => {},
+    send: async (prompt: string) => {
+      state.prompts.push(prompt);
+      for (const listener of listeners) listener({ type: 'text', content: `You said: ${prompt}` });
+    },
+    stop: () => {},
+  };
+  return { client: client as any, state };
+}
+
+describe('MCP server', () => {
+  test('offers selected tools and ask_assistant to MCP clients', async () => {
+    const { client, state } = createFakeClient();
+    const server = await createAssistantMcpServer(client, { tools: ['read', 'b*', 'ask_*'], version: '9.9.9' });
+    expect(server.getToolNames()).toEqual(['read', 'bash', 'ask_assistant']);
+
+    const registry = new ToolRegistry();
+    const manager = new McpManager({
+      config: { servers: { self: { command: 'unused' } } },
+      cwd: tempDir,
+      createTransport: () => createLoopbackTransport(server),
+    });
+    managers.push(manager);
+    manager.attachRegistry(registry);
+    await manager.connectAll();
+
+    expect(manager.getServer('self')?.serverInfo).toEqual({ name: 'hasna-assistants', version: '9.9.9' });
+    expect(manager.getServer('self')?.tools).toEqual(['mcp_self_read', 'mcp_self_bash', 'mcp_self_ask_assistant']);
+
+    const read = await registry.execute({ id: '1', name: 'mcp_self_read', input: { path: 'a.txt', cwd: tempDir } });
+    expect(read.content).toBe('read ran');
+    expect(state.calls[0]).toEqual({ name: 'read', input: { path: 'a.txt' } });
+
+    const bash = await registry.execute({ id: '2', name: 'mcp_self_bash', input: {} });
+    expect(bash.isError).toBe(true);
+
+    const ask = await registry.execute({ id: '3', name: 'mcp_self_ask_assistant', input: { prompt: 'hello' } });
+    expect(ask.content).toBe('You said: hello');
+
+    state.budgetBlock = 'Budget exceeded';
+    const blocked = await registry.execute({ id: '4', name: 'mcp_self_ask_assistant', input: { prompt: 'again' } });
+    expect(blocked.isError).toBe(true);
+    expect(blocked.content).toContain('Budget exceeded');
+    expect(state.prompts).toEqual(['hello']);
+  });
+
+  test('answers protocol errors and cancels calls', async () => {
+    const server = new McpServer({
+      tools: [{
+        tool: { name: 'wait', description: 'Wait until cancelled', parameters: { type: 'object', properties: {} } },
+        execute: (_args, signal) => new Promise((resolve) => {
+          signal.addEventListener('abort', () => resolve({ content: [{ type: 'text', text: 'Cancelled' }], isError: true }));
+        }),
+      }],
+    });
+
+    const initialized = await server.handleMessage({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2024-11-05' } });
+    expect((initialized?.result as { protocolVersion: string }).protocolVersion).toBe('2024-11-05');
+    expect((await server.handleMessage({ jsonrpc: '2.0', id: 2, method: 'resources/list' }))?.error?.code).toBe(-32601);
+    expect((await server.handleMessage({ jsonrpc: '2.0', id: 3, method: 'tools/call', params: { name: 'nope' } }))?.error?.code).toBe(-32602);
+    expect(await server.handleMessage({ jsonrpc: '2.0', method: 'notifications/initialized' })).toBeNull();
+
+    const call = server.handleMessage({ jsonrpc: '2.0', id: 4, method: 'tools/call', params: { name: 'wait', arguments: {} } });
+    await server.handleMessage({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 4 } });
+    expect((await call)?.result).toEqual({ content: [{ type: 'text', text: 'Cancelled' }], isError: true });
+
+    const lines: string[] = [];
+    async function* input() {
+      yield '{"jsonrpc":"2.0","id":5,"method":"ping"}\nnot json\n';
+      yield '{"jsonrpc":"2.0","id":6,"method":"tools/list"}';
+    }
+    await server.serve(input(), (line) => lines.push(line));
+    const responses = lines.map((line) => JSON.parse(line));
+    expect(responses).toContainEqual({ jsonrpc: '2.0', id: 5, result: {} });
+    expect(responses).toContainEqual({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+    expect(responses.find((response) => response.id === 6)?.result.tools[0].name).toBe('wait');
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { StreamChunk } from '@hasna/assistants-shared';
+import { GlobalMemoryManager } from '../src/memory/global-memory';
+import { MemoryConsolidator } from '../src/memory/consolidation';
+import type { LLMClient } from '../src/llm/client';
+
+function createReplyClient(reply: string): LLMClient & { prompts: string[] } {
+  const prompts: string[] = [];
+  return {
+    prompts,
+    getModel: () => 'mock',
+    async *chat(messages): AsyncGenerator<StreamChunk> {
+      prompts.push(messages[0].content);
+      yield { type: 'text', content: reply };
+      yield { type: 'done' };
+    },
+  };
+}
+
+describe('MemoryConsolidator', () => {
+  let manager: GlobalMemoryManager;
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'memory-consolidation-'));
+    manager = new GlobalMemoryManager({
+      dbPath: join(tempDir, 'memory.db'),
+      scopeId: 'assistant-1',
+    });
+  });
+
+  afterEach(async () => {
+    manager.close();
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  async function saveEditors(first: string, second: string): Promise<void> {
+    await manager.set('user.preferred_editor', first, {
+      category: 'preference',
+      importance: 7,
+      summary: 'Preferred code editor',
+      tags: ['tools'],
+    });
+    await manager.set('user.editor', second, {
+      category: 'preference',
+      importance: 5,
+      summary: 'Preferred code editor',
+      tags: ['editor'],
+    });
+  }
+
+  test('merges identical values without a model and audits the merge', async () => {
+    await saveEditors('Neovim', 'neovim');
+
+    const report = await new MemoryConsolidator(manager).run();
+
+    expect(report.clusters).toBe(1);
+    expect(report.merged).toHaveLength(1);
+    expect(report.merged[0].kept.key).toBe('user.preferred_editor');
+    expect(await manager.get('user.editor')).toBeNull();
+    const kept = await manager.get('user.preferred_editor');
+    expect(kept?.importance).toBe(7);
+    expect(kept?.tags.sort()).toEqual(['editor', 'tools']);
+
+    const [entry] = manager.getConsolidationLog({ runId: report.runId });
+    expect(entry.action).toBe('merge');
+    expect((entry.details.removed as Array<{ key: string }>)[0].key).toBe('user.editor');
+  });
+
+  test('flags contradictions once and tracks them until resolved', async () => {
+    await saveEditors('Neovim', 'VS Code');
+    const consolidator = new MemoryConsolidator(manager);
+
+    const report = await consolidator.run();
+    expect(report.merged).toHaveLength(0);
+    expect(report.conflicts).toHaveLength(1);
+    expect(await manager.get('user.editor')).not.toBeNull();
+
+    await consolidator.run();
+    expect(manager.getConsolidationLog({ action: 'conflict' })).toHaveLength(1);
+    expect(await consolidator.getOpenConflicts()).toHaveLength(1);
+
+    await manager.deleteByKey('user.editor');
+    expect(await consolidator.getOpenConflicts()).toHaveLength(0);
+  });
+
+  test('uses the model to merge clusters', async () => {
+    await saveEditors('Neovim with lazy.nvim', 'Neovim');
+    const client = createReplyClient(
+      'Sure:\n{"decision":"merge","value":"Neovim (lazy.nvim)","summary":"Uses Neovim with lazy.nvim"}'
+    );
+
+    const report = await new MemoryConsolidator(manager, { llmClient: client }).run();
+
+    expect(client.prompts[0]).toContain('user.editor');
+    expect(report.merged).toHaveLength(1);
+    const kept = await manager.get('user.preferred_editor');
+    expect(kept?.value).toBe('Neovim (lazy.nvim)');
+    expect(kept?.summary).toBe('Uses Neovim with lazy.nvim');
+  });
+
+  test('leaves distinct clusters alone', async () => {
+    await saveEditors('Neovim', 'Helix');
+    const client = createReplyClient('{"decision":"distinct"}');
+
+    const report = await new MemoryConsolidator(manager, { llmClient: client }).run();
+
+    expect(report.skipped).toBe(1);
+    expect(manager.getConsolidationLog()).toHaveLength(0);
+  });
+
+  test('dry runs report without changing memories', async () => {
+    await saveEditors('Neovim', 'neovim');
+
+    const report = await new MemoryConsolidator(manager).run({ dryRun: true });
+
+    expect(report.merged).toHaveLength(1);
+    expect(await manager.get('user.editor')).not.toBeNull();
+    expect(manager.getConsolidationLog()).toHaveLength(0);
+  });
+
+  test('decays importance of unused memories once per period', async () => {
+    await manager.set('project.deadline', 'End of Q3', { category: 'fact', importance: 6 });
+    await manager.set('project.owner', 'Dana', { category: 'fact', importance: 6 });
+    const old = new Date(Date.now() - 40 * 24 * 60 * 60 * 1000).toISOString();
+    const db = (manager as any).db;
+    db.prepare('UPDATE memories SET created_at = ?, accessed_at = NULL, access_count = 0 WHERE key = ?')
+      .run(old, 'project.deadline');
+    // Heavily used memories need a much longer idle period
+    db.prepare('UPDATE memories SET created_at = ?, accessed_at = ?, access_count = 20 WHERE key = ?')
+      .run(old, old, 'project.owner');
+
+    const consolidator = new MemoryConsolidator(manager, { decayAfterDays: 30 });
+    const report = await consolidator.run();
+
+    expect(report.decayed.map(d => d.memory.key)).toEqual(['project.deadline']);
+    expect(report.decayed[0]).toMatchObject({ from: 6, to: 5 });
+    expect((await manager.getById(report.decayed[0].memory.id))?.importance).toBe(5);
+
+    const again = await consolidator.run();
+    expect(again.decayed).toHaveLength(0);
+  });
+
+  test('remembers decay and conflicts past the first 1000 log entries', async () => {
+    await saveEditors('Neovim', 'VS Code');
+    await manager.set('project.deadline', 'End of Q3', { category: 'fact', importance: 6 });
+    const old = new Date(Date.now() - 40 * 24 * 60 * 60 * 1000).toISOString();
+    (manager as any).db.prepare('UPDATE memories SET created_at = ?, accessed_at = NULL, access_count = 0 WHERE key = ?')
+      .run(old, 'project.deadline');
+
+    const consolidator = new MemoryConsolidator(manager, { decayAfterDays: 30 });
+    const first = await consolidator.run();
+    expect(first.decayed).toHaveLength(1);
+
+    for (let i = 0; i < 1001; i++) {
+      manager.recordConsolidation('filler', 'decay', [`other-${i}`]);
+      manager.recordConsolidation('filler', 'conflict', [`other-${i}`, `another-${i}`]);
+    }
+
+    const again = await consolidator.run();
+    expect(again.decayed).toHaveLength(0);
+    const conflicts = manager.getConsolidationLog({ action: 'conflict', limit: 1000 });
+    expect(conflicts.filter((entry) => entry.runId === again.runId)).toHaveLength(0);
+    expect(await consolidator.getOpenConflicts()).toHaveLength(1);
+  });
+});
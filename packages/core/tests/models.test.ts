@@ -8,6 +8,8 @@ import {
   getAllModelIds,
   getModelDisplayName,
   getModelsGroupedByProvider,
+  getModelPricing,
+  calculateCost,
 } from '../src/llm/models';
 
 describe('Model Registry', () => {
@@ -129,4 +131,35 @@ describe('Model Registry', () => {
       expect(grouped.openai.length).toBeGreaterThan(0);
     });
   });
+
+  describe('pricing', () => {
+    it('should return registry pricing with cache rates', () => {
+      expect(getModelPricing('claude-sonnet-4-20250514')).toEqual({
+        inputPer1M: 3,
+        outputPer1M: 15,
+        cacheReadPer1M: 0.3,
+        cacheWritePer1M: 3.75,
+      });
+      expect(getModelPricing('unknown')).toBeUndefined();
+    });
+
+    it('should prefer pricing overrides', () => {
+      const pricing = getModelPricing('gpt-5.2', { 'gpt-5.2': { inputPer1M: 1, outputPer1M: 2 } });
+      expect(pricing).toEqual({ inputPer1M: 1, outputPer1M: 2 });
+    });
+
+    it('should price cached input separately', () => {
+      const pricing = { inputPer1M: 3, outputPer1M: 15, cacheReadPer1M: 0.3, cacheWritePer1M: 3.75 };
+      const cost = calculateCost(
+        { inputTokens: 3_000_000, outputTokens: 1_000_000, cacheReadTokens: 1_000_000, cacheWriteTokens: 1_000_000 },
+        pricing
+      );
+      expect(cost).toBeCloseTo(3 + 0.3 + 3.75 + 15, 6);
+    });
+
+    it('should fall back to the input rate without cache pricing', () => {
+      const cost = calculateCost({ inputTokens: 2_000_000, outputTokens: 0, cacheReadTokens: 1_000_000 }, { inputPer1M: 2, outputPer1M: 8 });
+      expect(cost).toBeCloseTo(4, 6);
+    });
+  });
 });
@@ -148,6 +148,41 @@ describe('ToolRegistry', () => {
       const result = await registry.execute(toolCall);
       expect(result.isError).toBe(true);
     });
+
+    test('should pass progress reports to the caller', async () => {
+      registry.register(mockTool, async (_input, _signal, onProgress) => {
+        onProgress?.({ message: 'halfway', current: 1, total: 2 });
+        return 'done';
+      });
+
+      const updates: unknown[] = [];
+      const result = await registry.execute(
+        { id: 'tc-1', name: 'test_tool', input: { message: 'Hello' } },
+        undefined,
+        (update) => updates.push(update)
+      );
+      expect(result.content).toBe('done');
+      expect(updates).toEqual([{ message: 'halfway', current: 1, total: 2 }]);
+    });
+
+    test('should coalesce rapid progress reports to the latest each second', async () => {
+      registry.register(mockTool, async (_input, _signal, onProgress) => {
+        for (let current = 1; current <= 100; current++) {
+          onProgress?.({ current, total: 100 });
+        }
+        await new Promise((resolve) => setTimeout(resolve, 1100));
+        onProgress?.({ message: 'finishing' });
+        return 'done';
+      });
+
+      const updates: unknown[] = [];
+      await registry.execute(
+        { id: 'tc-1', name: 'test_tool', input: { message: 'Hello' } },
+        undefined,
+        (update) => updates.push(update)
+      );
+      expect(updates).toEqual([{ current: 1, total: 100 }, { current: 100, total: 100 }]);
+    });
   });
 
   describe('executeAll', () => {
@@ -0,0 +1,205 @@
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, rm } from 'fs/promises';
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { Message } from '@hasna/assistants-shared';
+import { SessionStorage } from '../src/logger';
+import {
+  SessionSearchIndex,
+  buildFtsQuery,
+  getSessionSearchIndex,
+  parseSearchDate,
+  searchSessions,
+} from '../src/sessions/search';
+import { createSessionSearchToolExecutors } from '../src/sessions/search-tools';
+
+let tempDir: string;
+let originalAssistantsDir: string | undefined;
+
+beforeEach(async () => {
+  originalAssistantsDir = process.env.ASSISTANTS_DIR;
+  tempDir = await mkdtemp(join(tmpdir(), 'assistants-session-search-'));
+  process.env.ASSISTANTS_DIR = join(tempDir, 'config');
+});
+
+afterEach(async () => {
+  if (originalAssistantsDir === undefined) {
+    delete process.env.ASSISTANTS_DIR;
+  } else {
+    process.env.ASSISTANTS_DIR = originalAssistantsDir;
+  }
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+const HOUR = 3_600_000;
+
+function transcript(now: number): Message[] {
+  return [
+    { id: 'm1', role: 'user', content: 'Why does the deployment pipeline fail?', timestamp: now - 3 * HOUR },
+    {
+      id: 'm2',
+      role: 'assistant',
+      content: 'Let me check the workflow.',
+      timestamp: now - 3 * HOUR,
+      toolCalls: [{ id: 'tc1', name: 'bash', input: { command: 'cat .github/workflows/deploy.yml' } }],
+    },
+    {
+      id: 'm3',
+      role: 'user',
+      content: '',
+      timestamp: now - 3 * HOUR,
+      toolResults: [{ toolCallId: 'tc1', content: 'uses: actions/checkout@v2\nrun: npm publish' }],
+    },
+    { id: 'm4', role: 'assistant', content: 'The publish step is missing a token.', timestamp: now - HOUR },
+  ];
+}
+
+function save(id: string, messages: Message[], cwd: string, assistantId?: string): void {
+  const updatedAt = new Date(Math.max(...messages.map((message) => message.timestamp))).toISOString();
+  new SessionStorage(id, undefined, assistantId).save({
+    messages,
+    startedAt: new Date(messages[0].timestamp).toISOString(),
+    updatedAt,
+    cwd,
+  });
+}
+
+describe('buildFtsQuery', () => {
+  test('quotes terms and keeps phrases and prefixes', () => {
+    expect(buildFtsQuery('deploy pipeline')).toBe('"deploy" "pipeline"');
+    expect(buildFtsQuery('"publish step" tok*')).toBe('"publish step" "tok"*');
+    expect(buildFtsQuery('NOT -- a"b')).toBe('"NOT" "ab"');
+  });
+});
+
+describe('parseSearchDate', () => {
+  test('parses relative ages and whole-day until dates', () => {
+    const now = Date.parse('2026-03-10T12:00:00Z');
+    expect(parseSearchDate('2h', 'since', now)).toBe(now - 2 * HOUR);
+    expect(parseSearchDate('7d', 'since', now)).toBe(now - 7 * 24 * HOUR);
+    expect(parseSearchDate('2026-03-01', 'until', now)).toBe(Date.parse('2026-03-02') - 1);
+    expect(() => parseSearchDate('last tuesday', 'since', now)).toThrow('Invalid date');
+  });
+});
+
+describe('SessionSearchIndex', () => {
+  test('indexes messages, tool calls and tool results with tool names', () => {
+    const index = new SessionSearchIndex(join(tempDir, 'index.db'));
+    const now = Date.now();
+    index.indexSession(
+      { id: 's1', cwd: '/work/api', startedAt: new Date(now).toISOString(), updatedAt: new Date(now).toISOString() },
+      transcript(now)
+    );
+
+    const message = index.search({ query: 'deployment' });
+    expect(message).toHaveLength(1);
+    expect(message[0].kind).toBe('message');
+    expect(message[0].snippet).toContain('**deployment**');
+
+    const call = index.search({ query: 'deploy.yml', kind: 'tool_call' });
+    expect(call[0].toolName).toBe('bash');
+
+    const result = index.search({ query: 'checkout', toolName: 'bash' });
+    expect(result).toHaveLength(1);
+    expect(result[0].kind).toBe('tool_result');
+
+    // Porter stemming matches other word forms
+    expect(index.search({ query: 'publishing' }).length).toBeGreaterThan(0);
+    index.close();
+  });
+
+  test('indexes incrementally and reindexes after a rewind', () => {
+    const index = new SessionSearchIndex(join(tempDir, 'index.db'));
+    const now = Date.now();
+    const info = { id: 's1', cwd: '/work', startedAt: new Date(now).toISOString(), updatedAt: new Date(now).toISOString() };
+    const messages = transcript(now);
+
+    expect(index.indexSession(info, messages.slice(0, 2))).toBe(3);
+    expect(index.indexSession(info, messages)).toBe(2);
+    expect(index.indexSession(info, messages)).toBe(0);
+
+    // Rewound to the first message, then continued differently
+    const rewound = [messages[0], { id: 'm9', role: 'assistant' as const, content: 'Try rollback instead', timestamp: now }];
+    index.indexSession(info, rewound);
+    expect(index.search({ query: 'token' })).toHaveLength(0);
+    expect(index.search({ query: 'rollback' })).toHaveLength(1);
+    index.close();
+  });
+});
+
+describe('searchSessions', () => {
+  test('indexes saved sessions and filters by assistant, project, date and tool', () => {
+    const now = Date.now();
+    save('sess-api', transcript(now), '/work/api-server', 'builder');
+    save(
+      'sess-web',
+      [{ id: 'w1', role: 'user', content: 'Deployment of the web app', timestamp: now - 10 * 24 * HOUR }],
+      '/work/web'
+    );
+
+    expect(searchSessions({ query: 'deployment' }).map((r) => r.sessionId).sort()).toEqual(['sess-api', 'sess-web']);
+    expect(searchSessions({ query: 'deployment', assistantId: 'builder' }).map((r) => r.sessionId)).toEqual(['sess-api']);
+    expect(searchSessions({ query: 'deployment', assistantId: null }).map((r) => r.sessionId)).toEqual(['sess-web']);
+    expect(searchSessions({ query: 'deployment', project: 'web' }).map((r) => r.sessionId)).toEqual(['sess-web']);
+    expect(searchSessions({ query: 'deployment', project: '/work/api-server' }).map((r) => r.sessionId)).toEqual(['sess-api']);
+    expect(searchSessions({ query: 'deployment', since: '7d' }).map((r) => r.sessionId)).toEqual(['sess-api']);
+    expect(searchSessions({ query: 'deployment', until: '7d' }).map((r) => r.sessionId)).toEqual(['sess-web']);
+    expect(searchSessions({ query: '', toolName: 'bash' }).map((r) => r.kind).sort()).toEqual(['tool_call', 'tool_result']);
+    expect(searchSessions({ query: '', project: 'web' }).map((r) => r.sessionId)).toEqual(['sess-web']);
+    expect(searchSessions({ query: '', since: '7d', assistantId: 'builder' })).toHaveLength(5);
+    expect(() => searchSessions({ query: '   ' })).toThrow('Search query or filter is required');
+  });
+
+  test('indexes legacy session files without migrating them', () => {
+    const now = Date.now();
+    const sessionsDir = join(tempDir, 'config', 'sessions');
+    mkdirSync(sessionsDir, { recursive: true });
+    const legacyFile = join(sessionsDir, 'sess-old.json');
+    writeFileSync(legacyFile, JSON.stringify({
+      messages: transcript(now),
+      startedAt: new Date(now - 3 * HOUR).toISOString(),
+      updatedAt: new Date(now - HOUR).toISOString(),
+      cwd: '/work/legacy',
+    }));
+
+    expect(searchSessions({ query: 'pipeline' }).map((r) => r.sessionId)).toEqual(['sess-old']);
+    expect(existsSync(legacyFile)).toBe(true);
+    expect(existsSync(join(sessionsDir, 'sess-old.jsonl'))).toBe(false);
+  });
+
+  test('catches up on sessions saved while indexing was unavailable and drops deleted ones', async () => {
+    const now = Date.now();
+    save('sess-a', transcript(now), '/work/api');
+
+    // Simulate a stale index: forget the session, then search again
+    getSessionSearchIndex().removeSession('sess-a');
+    expect(searchSessions({ query: 'pipeline' })).toHaveLength(1);
+
+    await rm(join(tempDir, 'config', 'sessions', 'sess-a.jsonl'));
+    expect(searchSessions({ query: 'pipeline' })).toHaveLength(0);
+  });
+});
+
+describe('session_search tool', () => {
+  test('searches the current assistant by default and all assistants with scope all', async () => {
+    const now = Date.now();
+    save('sess-mine', transcript(now), '/work/api', 'builder');
+    save('sess-other', transcript(now), '/work/api', 'reviewer');
+
+    const executors = createSessionSearchToolExecutors({
+      getAssistantId: () => 'builder',
+      getSessionId: () => 'sess-mine',
+    });
+
+    const own = JSON.parse(await executors.session_search({ query: 'publish token' }));
+    expect(own.results.map((r: { sessionId: string }) => r.sessionId)).toEqual(['sess-mine']);
+    expect(own.results[0].currentSession).toBe(true);
+
+    const all = JSON.parse(await executors.session_search({ query: 'publish token', scope: 'all' }));
+    expect(all.count).toBe(2);
+
+    const invalid = JSON.parse(await executors.session_search({ query: 'x', since: 'someday' }));
+    expect(invalid.error).toContain('Invalid date');
+  });
+});
@@ -1,9 +1,12 @@
 import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
 import { SessionStorage } from '../src/logger';
+import { SessionLog } from '../src/sessions/session-log';
+import { migrateLegacySessions } from '../src/migration/sessions';
+import { SessionStorageError } from '../src/errors';
 import { mkdtemp, rm } from 'fs/promises';
 import { join } from 'path';
 import { tmpdir } from 'os';
-import { writeFileSync, mkdirSync } from 'fs';
+import { writeFileSync, mkdirSync, readFileSync, appendFileSync, existsSync } from 'fs';
 
 let tempDir: string;
 let originalHome: string | undefined;
@@ -111,3 +114,115 @@ describe('SessionStorage', () => {
     expect(assistantSession?.assistantId).toBe(assistantId);
   });
 });
+
+function sessionData(messages: Array<{ id: string; role: string; content: string }>, updatedAt = '2024-01-01T00:00:01.000Z') {
+  return {
+    messages,
+    startedAt: '2024-01-01T00:00:00.000Z',
+    updatedAt,
+    cwd: '/tmp/project',
+  };
+}
+
+function readLines(path: string): Array<Record<string, unknown>> {
+  return readFileSync(path, 'utf-8').trim().split('\n').map((line) => JSON.parse(line));
+}
+
+describe('SessionLog', () => {
+  test('appends only new messages on each save', () => {
+    const storage = new SessionStorage('session-log');
+    const logPath = join(tempDir, 'sessions', 'session-log.jsonl');
+    const first = { id: 'm1', role: 'user', content: 'hi' };
+    const second = { id: 'm2', role: 'assistant', content: 'hello' };
+
+    storage.save(sessionData([first]));
+    storage.save(sessionData([first, second], '2024-01-01T00:00:02.000Z'));
+
+    const events = readLines(logPath);
+    expect(events.map((event) => event.type)).toEqual(['message', 'meta', 'message', 'meta']);
+    expect(existsSync(join(tempDir, 'sessions', 'session-log.json'))).toBe(false);
+
+    const loaded = new SessionStorage('session-log').load();
+    expect(loaded?.messages).toEqual([first, second]);
+    expect(loaded?.updatedAt).toBe('2024-01-01T00:00:02.000Z');
+  });
+
+  test('records truncation when messages are removed', () => {
+    const storage = new SessionStorage('session-log');
+    const messages = [
+      { id: 'm1', role: 'user', content: 'one' },
+      { id: 'm2', role: 'assistant', content: 'two' },
+      { id: 'm3', role: 'user', content: 'three' },
+    ];
+    storage.save(sessionData(messages));
+    storage.save(sessionData([messages[0], { id: 'm4', role: 'user', content: 'again' }]));
+
+    const loaded = SessionStorage.loadSession('session-log');
+    expect(loaded?.messages.map((message) => (message as { id: string }).id)).toEqual(['m1', 'm4']);
+  });
+
+  test('compacts once most of the log is superseded', () => {
+    const storage = new SessionStorage('session-log');
+    const logPath = join(tempDir, 'sessions', 'session-log.jsonl');
+    const message = { id: 'm1', role: 'user', content: 'hi' };
+    for (let i = 0; i < 600; i++) {
+      storage.save(sessionData([message], new Date(Date.UTC(2024, 0, 1, 0, 0, i)).toISOString()));
+    }
+
+    expect(readLines(logPath).length).toBeLessThan(500);
+    expect(storage.load()?.messages).toEqual([message]);
+  });
+
+  test('recovers from a truncated tail and keeps appending', () => {
+    const logPath = join(tempDir, 'sessions', 'session-log.jsonl');
+    const first = { id: 'm1', role: 'user', content: 'hi' };
+    new SessionStorage('session-log').save(sessionData([first]));
+    appendFileSync(logPath, '{"type":"message","message":{"id":"m2","rol');
+
+    const log = new SessionLog(logPath);
+    const replay = log.read();
+    expect(replay.repairedTail).toBe(true);
+    expect(replay.data?.messages).toEqual([first]);
+    expect(readFileSync(logPath, 'utf-8').endsWith('}\n')).toBe(true);
+
+    const second = { id: 'm2', role: 'assistant', content: 'hello' };
+    const storage = new SessionStorage('session-log');
+    storage.save(sessionData([first, second]));
+    expect(storage.load()?.messages).toEqual([first, second]);
+  });
+
+  test('throws SessionStorageError when the log cannot be written', () => {
+    const storage = new SessionStorage('session-log');
+    // A directory where the log file should be makes every write fail
+    mkdirSync(join(tempDir, 'sessions', 'session-log.jsonl'), { recursive: true });
+    expect(() => storage.save(sessionData([]))).toThrow(SessionStorageError);
+  });
+});
+
+describe('legacy session migration', () => {
+  test('migrates a whole-file session on first load', () => {
+    const sessionsDir = join(tempDir, 'sessions');
+    mkdirSync(sessionsDir, { recursive: true });
+    const legacy = sessionData([{ id: 'm1', role: 'user', content: 'old' }]);
+    writeFileSync(join(sessionsDir, 'legacy-session.json'), JSON.stringify(legacy, null, 2));
+
+    expect(SessionStorage.listSessions()[0]?.messageCount).toBe(1);
+
+    const loaded = SessionStorage.loadSession('legacy-session');
+    expect(loaded?.messages).toEqual(legacy.messages);
+    expect(existsSync(join(sessionsDir, 'legacy-session.jsonl'))).toBe(true);
+    expect(existsSync(join(sessionsDir, 'legacy-session.json'))).toBe(false);
+    expect(existsSync(join(tempDir, 'migration', 'sessions', 'legacy-session.json'))).toBe(true);
+  });
+
+  test('skips files that are not session transcripts', () => {
+    const sessionsDir = join(tempDir, 'sessions');
+    mkdirSync(sessionsDir, { recursive: true });
+    writeFileSync(join(sessionsDir, 'registry-entry.json'), JSON.stringify({ id: 'registry-entry', status: 'active' }));
+    writeFileSync(join(sessionsDir, 'old.json'), JSON.stringify(sessionData([])));
+
+    expect(migrateLegacySessions(sessionsDir)).toEqual(['old']);
+    expect(existsSync(join(sessionsDir, 'registry-entry.json'))).toBe(true);
+    expect(SessionStorage.listSessions().map((session) => session.id)).toEqual(['old']);
+  });
+});
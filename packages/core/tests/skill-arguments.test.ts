@@ -0,0 +1,210 @@
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { Skill } from '@hasna/assistants-shared';
+import {
+  SkillArgumentError,
+  analyzeSkillArguments,
+  buildSkillArgumentRequest,
+  formatSkillArgumentAssignments,
+  formatSkillArgumentHint,
+  parseSkillArgumentSchema,
+  parseSkillArguments,
+  skillArgumentsToParameters,
+  splitSkillArguments,
+} from '../src/skills/arguments';
+import { SkillLoader } from '../src/skills/loader';
+import { SkillExecutor } from '../src/skills/executor';
+import { ToolExecutionError } from '../src/errors';
+import { createSkillArgumentTools, createSkillExecuteTool } from '../src/tools/skills';
+
+const schema = parseSkillArgumentSchema([
+  { name: 'file', type: 'string', required: true, description: 'File to review' },
+  { name: 'severity', enum: ['low', 'medium', 'high'], default: 'medium' },
+  { name: 'limit', type: 'integer' },
+  { name: 'fix', type: 'boolean' },
+]);
+
+const REVIEW_SKILL = `---
+name: review
+description: Review a file
+arguments:
+  - name: file
+    type: string
+    required: true
+    description: File to review
+  - name: severity
+    enum: [low, medium, high]
+    default: medium
+  - name: fix
+    type: boolean
+---
+
+Review \${file} at \${severity} severity. Fix: \${fix}
+`;
+
+let tempDir: string;
+
+beforeEach(() => {
+  tempDir = mkdtempSync(join(tmpdir(), 'assistants-skill-arguments-'));
+});
+
+afterEach(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+async function loadReviewSkill(content = REVIEW_SKILL): Promise<SkillLoader> {
+  const dir = join(tempDir, '.assistants', 'skills', 'review');
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(join(dir, 'SKILL.md'), content);
+  const loader = new SkillLoader();
+  await loader.loadAll(tempDir, { includeContent: true });
+  return loader;
+}
+
+describe('parseSkillArgumentSchema', () => {
+  test('accepts list and map forms', () => {
+    expect(schema.map((argument) => argument.name)).toEqual(['file', 'severity', 'limit', 'fix']);
+    expect(schema[1]).toEqual({ name: 'severity', type: 'string', enum: ['low', 'medium', 'high'], default: 'medium' });
+
+    const fromMap = parseSkillArgumentSchema({ count: 'integer', topic: { required: true } });
+    expect(fromMap).toEqual([
+      { name: 'count', type: 'integer' },
+      { name: 'topic', type: 'string', required: true },
+    ]);
+  });
+
+  test('rejects invalid declarations', () => {
+    expect(() => parseSkillArgumentSchema([{ name: 'bad name' }])).toThrow('name must start with a letter');
+    expect(() => parseSkillArgumentSchema(['a', 'a'])).toThrow('declared twice');
+    expect(() => parseSkillArgumentSchema([{ name: 'n', type: 'date' }])).toThrow('type must be one of');
+    expect(() => parseSkillArgumentSchema([{ name: 'n', type: 'number', enum: ['x'] }])).toThrow('enum value "x" is not a number');
+    expect(() => parseSkillArgumentSchema([{ name: 'n', type: 'integer', default: 1.5 }])).toThrow('default must be a whole number');
+    expect(() => parseSkillArgumentSchema([{ name: 'text', rest: true }, { name: 'other' }])).toThrow('must be declared last');
+  });
+});
+
+describe('analyzeSkillArguments', () => {
+  test('coerces positional, named and flag values', () => {
+    const result = analyzeSkillArguments(schema, 'src/app.ts --limit=5 --fix severity=high');
+    expect(result.issues).toEqual([]);
+    expect(result.missing).toEqual([]);
+    expect(result.values).toEqual({ file: 'src/app.ts', severity: 'high', limit: 5, fix: true });
+
+    expect(analyzeSkillArguments(schema, '--no-fix --file "my file.ts"').values).toEqual({
+      file: 'my file.ts',
+      severity: 'medium',
+      fix: false,
+    });
+    expect(analyzeSkillArguments(schema, { file: 'a.ts', limit: '3' }).values.limit).toBe(3);
+  });
+
+  test('reports missing, invalid and unknown arguments', () => {
+    const result = analyzeSkillArguments(schema, '--severity meduim --limit 2.5 --colour red');
+    expect(result.missing.map((argument) => argument.name)).toEqual(['file']);
+    expect(result.issues).toContain('Unknown argument "colour"');
+    expect(result.issues).toContain('Argument "limit" must be a whole number (got "2.5")');
+    expect(result.issues.some((issue) => issue.includes('must be one of low, medium, high') && issue.includes('did you mean "medium"'))).toBe(true);
+
+    expect(analyzeSkillArguments(schema, 'a.ts low 2 yes extra').issues).toEqual(['Unexpected argument: extra']);
+  });
+
+  test('rest arguments take the remaining words', () => {
+    const restSchema = parseSkillArgumentSchema([{ name: 'target' }, { name: 'message', rest: true }]);
+    expect(analyzeSkillArguments(restSchema, 'main fix the "flaky" test').values).toEqual({
+      target: 'main',
+      message: 'fix the flaky test',
+    });
+  });
+
+  test('parseSkillArguments throws SkillArgumentError', () => {
+    try {
+      parseSkillArguments({ name: 'review', arguments: schema }, '--limit x');
+      throw new Error('expected an error');
+    } catch (error) {
+      expect(error).toBeInstanceOf(SkillArgumentError);
+      const argumentError = error as SkillArgumentError;
+      expect(argumentError.missing.map((argument) => argument.name)).toEqual(['file']);
+      expect(argumentError.message).toContain('Argument "limit" must be a number');
+      expect(argumentError.message).toContain('Missing required argument: file');
+    }
+  });
+});
+
+describe('presentation helpers', () => {
+  test('hint, parameters, prompts and assignments', () => {
+    expect(formatSkillArgumentHint(schema)).toBe('<file> [--severity low|medium|high] [--limit integer] [--fix]');
+
+    const parameters = skillArgumentsToParameters(schema);
+    expect(parameters.required).toEqual(['file']);
+    expect(parameters.properties.limit.type).toBe('number');
+    expect(parameters.properties.severity.enum).toEqual(['low', 'medium', 'high']);
+
+    const request = buildSkillArgumentRequest({ name: 'review' }, [schema[0], schema[1]]);
+    expect(request.questions.map((question) => question.id)).toEqual(['file', 'severity']);
+    expect(request.questions[1].options).toEqual(['low', 'medium', 'high']);
+
+    const words = formatSkillArgumentAssignments({ file: 'my file.ts', severity: 'low' });
+    expect(words).toBe('--file="my file.ts" --severity=low');
+    expect(splitSkillArguments(words)).toEqual(['--file=my file.ts', '--severity=low']);
+  });
+});
+
+describe('typed skills', () => {
+  test('loader reads the arguments block and derives a hint', async () => {
+    const loader = await loadReviewSkill();
+    const skill = loader.getSkill('review')!;
+    expect(skill.arguments?.map((argument) => argument.name)).toEqual(['file', 'severity', 'fix']);
+    expect(skill.argumentHint).toBe('<file> [--severity low|medium|high] [--fix]');
+    expect(skill.description).toBe('Review a file');
+  });
+
+  test('loader skips an invalid arguments block', async () => {
+    const originalError = console.error;
+    const errors: string[] = [];
+    console.error = (message: string) => { errors.push(message); };
+    try {
+      const loader = await loadReviewSkill('---\nname: review\ndescription: d\narguments:\n  - name: x\n    type: date\n---\nBody\n');
+      expect(loader.getSkill('review')?.arguments).toBeUndefined();
+      expect(errors[0]).toContain('Ignoring invalid arguments');
+    } finally {
+      console.error = originalError;
+    }
+  });
+
+  test('executor substitutes named values', async () => {
+    const loader = await loadReviewSkill();
+    const skill = loader.getSkill('review')!;
+    const content = await new SkillExecutor().prepare(skill, [], parseSkillArguments(skill, 'a.ts --fix'));
+    expect(content).toContain('Review a.ts at medium severity. Fix: true');
+
+    const plain: Skill = { ...skill, content: 'Do the review.' };
+    const listed = await new SkillExecutor().prepare(plain, [], { file: 'b.ts', severity: 'low' });
+    expect(listed).toContain('ARGUMENTS:\n- file: b.ts\n- severity: low');
+  });
+
+  test('skill_execute validates typed arguments', async () => {
+    const loader = await loadReviewSkill();
+    const { executor } = createSkillExecuteTool(() => loader);
+
+    const output = await executor({ name: 'review', arguments: { file: 'a.ts', severity: 'high' } });
+    expect(output).toContain('Review a.ts at high severity.');
+
+    await expect(executor({ name: 'review', arguments: '--severity extreme' })).rejects.toBeInstanceOf(ToolExecutionError);
+  });
+
+  test('model-invocable typed skills get their own tool', async () => {
+    const loader = await loadReviewSkill();
+    const tools = createSkillArgumentTools(loader.getSkills(), () => loader);
+    expect(tools.map(({ tool }) => tool.name)).toEqual(['skill_review']);
+    expect(tools[0].tool.parameters.required).toEqual(['file']);
+
+    const output = await tools[0].executor({ file: 'c.ts', fix: false, cwd: tempDir });
+    expect(output).toContain('Review c.ts at medium severity. Fix: false');
+    await expect(tools[0].executor({ cwd: tempDir })).rejects.toBeInstanceOf(ToolExecutionError);
+
+    const hidden = loader.getSkills().map((skill) => ({ ...skill, disableModelInvocation: true }));
+    expect(createSkillArgumentTools(hidden, () => loader)).toEqual([]);
+  });
+});
@@ -0,0 +1,242 @@
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { tmpdir } from 'os';
+import {
+  SkillPackageManager,
+  compareSkillVersions,
+  parseSkillPackageManifest,
+  parseSkillPackageSource,
+  satisfiesSkillVersion,
+} from '../src/skills/packages';
+import { SkillLoader } from '../src/skills/loader';
+
+let tempDir: string;
+let project: string;
+
+beforeEach(() => {
+  tempDir = mkdtempSync(join(tmpdir(), 'assistants-skill-packages-'));
+  project = join(tempDir, 'project');
+  mkdirSync(project, { recursive: true });
+});
+
+afterEach(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+function writeFiles(root: string, files: Record<string, string>): string {
+  for (const [path, content] of Object.entries(files)) {
+    mkdirSync(dirname(join(root, path)), { recursive: true });
+    writeFileSync(join(root, path), content);
+  }
+  return root;
+}
+
+function run(cmd: string[], cwd: string): void {
+  const result = Bun.spawnSync(cmd, { cwd });
+  if (result.exitCode !== 0) {
+    throw new Error(`${cmd.join(' ')} failed: ${result.stderr.toString()}`);
+  }
+}
+
+function skillFile(name: string, body: string): string {
+  return `---\nname: ${name}\ndescription: ${name} skill\n---\n\n${body}\n`;
+}
+
+function reviewKit(version: string): Record<string, string> {
+  return {
+    'skill-package.json': JSON.stringify({
+      name: 'review-kit',
+      version,
+      skills: ['skills/review'],
+      dependencies: { 'lint-kit': { version: '^1.0.0', source: '../lint-kit' } },
+      requires: { tools: ['bash', 'read'], connectors: ['github'] },
+      assets: ['templates/**'],
+    }),
+    'skills/review/SKILL.md': skillFile('review', 'Review with !`./check.sh`'),
+    'skills/review/check.sh': 'echo ok\n',
+    'templates/report.md': '# Report\n',
+    'notes/draft.md': 'not bundled\n',
+  };
+}
+
+const lintKit = {
+  'skill-package.json': JSON.stringify({ name: 'lint-kit', version: '1.2.0' }),
+  'lint/SKILL.md': skillFile('lint', 'Lint the code'),
+};
+
+describe('skill package versions', () => {
+  test('compares versions and matches ranges', () => {
+    expect(compareSkillVersions('1.2.0', '1.10.0')).toBe(-1);
+    expect(compareSkillVersions('2.0.0-beta.1', '2.0.0')).toBe(-1);
+    expect(compareSkillVersions('1.0.0', '1.0.0')).toBe(0);
+
+    expect(satisfiesSkillVersion('1.4.2', '^1.2.0')).toBe(true);
+    expect(satisfiesSkillVersion('2.0.0', '^1.2.0')).toBe(false);
+    expect(satisfiesSkillVersion('0.2.5', '^0.2.1')).toBe(true);
+    expect(satisfiesSkillVersion('0.3.0', '^0.2.1')).toBe(false);
+    expect(satisfiesSkillVersion('1.2.9', '~1.2.3')).toBe(true);
+    expect(satisfiesSkillVersion('1.3.0', '~1.2.3')).toBe(false);
+    expect(satisfiesSkillVersion('1.5.0', '>=1.0.0 <2.0.0')).toBe(true);
+    expect(satisfiesSkillVersion('3.1.0', '^1.0.0 || ^3.0.0')).toBe(true);
+    expect(satisfiesSkillVersion('1.0.0', '*')).toBe(true);
+  });
+});
+
+describe('parseSkillPackageManifest', () => {
+  test('validates names, versions, dependencies and paths', () => {
+    expect(() => parseSkillPackageManifest({ name: 'Bad Name', version: '1.0.0' })).toThrow('"name"');
+    expect(() => parseSkillPackageManifest({ name: 'kit', version: 'one' })).toThrow('"version"');
+    expect(() => parseSkillPackageManifest({ name: 'kit', version: '1.0.0', dependencies: { other: 'soon' } }))
+      .toThrow('invalid dependency "other"');
+    expect(() => parseSkillPackageManifest({ name: 'kit', version: '1.0.0', assets: ['../secrets'] }))
+      .toThrow('must stay inside the package');
+    expect(() => parseSkillPackageManifest({
+      name: 'kit',
+      version: '1.0.0',
+      dependencies: { other: { version: '^1.0.0', source: 'git+--upload-pack=touch /tmp/x' } },
+    })).toThrow('invalid source');
+
+    const manifest = parseSkillPackageManifest({
+      name: 'kit',
+      version: '1.0.0',
+      dependencies: { base: '^2.0.0', extra: { version: '~1.1.0', source: 'git+https://example.com/extra.git#v1' } },
+    });
+    expect(manifest.dependencies).toEqual({
+      base: { version: '^2.0.0' },
+      extra: { version: '~1.1.0', source: 'git+https://example.com/extra.git#v1' },
+    });
+  });
+
+  test('classifies install sources', () => {
+    expect(parseSkillPackageSource('./kits/review', '/work')).toEqual({ type: 'directory', location: '/work/kits/review' });
+    expect(parseSkillPackageSource('review-kit-1.0.0.tgz', '/work')).toEqual({ type: 'tarball', location: '/work/review-kit-1.0.0.tgz' });
+    expect(parseSkillPackageSource('https://example.com/kit.tar.gz', '/work').type).toBe('tarball');
+    expect(parseSkillPackageSource('git+https://example.com/kit.git#v2', '/work'))
+      .toEqual({ type: 'git', location: 'https://example.com/kit.git', ref: 'v2' });
+    expect(parseSkillPackageSource('git@github.com:team/kit.git', '/work').type).toBe('git');
+    expect(parseSkillPackageSource('https://github.com/team/kit', '/work').type).toBe('git');
+    expect(() => parseSkillPackageSource('git+-c core.sshCommand=evil', '/work')).toThrow('Invalid git source');
+  });
+});
+
+describe('SkillPackageManager', () => {
+  test('installs a package with its dependency and loads its skills', async () => {
+    writeFiles(join(tempDir, 'lint-kit'), lintKit);
+    writeFiles(join(tempDir, 'review-kit'), reviewKit('1.0.0'));
+    const manager = new SkillPackageManager({ cwd: project, availableTools: ['bash', 'read'], availableConnectors: [] });
+
+    const result = await manager.install('../review-kit');
+    expect(result.installed).toEqual([
+      { name: 'lint-kit', version: '1.2.0', previousVersion: undefined },
+      { name: 'review-kit', version: '1.0.0', previousVersion: undefined },
+    ]);
+    expect(result.warnings).toEqual(['review-kit requires connectors that are not installed: github']);
+
+    const installed = join(project, '.assistants', 'skills', 'packages', 'review-kit');
+    expect(existsSync(join(installed, 'skills', 'review', 'check.sh'))).toBe(true);
+    expect(existsSync(join(installed, 'templates', 'report.md'))).toBe(true);
+    expect(existsSync(join(installed, 'notes'))).toBe(false);
+
+    const lockfile = JSON.parse(readFileSync(manager.getLockfilePath(), 'utf-8'));
+    expect(Object.keys(lockfile.packages)).toEqual(['lint-kit', 'review-kit']);
+    expect(lockfile.packages['review-kit']).toMatchObject({
+      version: '1.0.0',
+      source: '../../../review-kit',
+      dependencies: { 'lint-kit': '^1.0.0' },
+      skills: ['skills/review'],
+    });
+    expect(lockfile.packages['review-kit'].integrity).toMatch(/^sha256-[0-9a-f]{64}$/);
+
+    // A loose skill with the same name overrides the packaged one
+    writeFiles(join(project, '.assistants', 'skills'), { 'skill-lint/SKILL.md': skillFile('lint', 'Local lint') });
+    const loader = new SkillLoader();
+    await loader.loadFromDirectory(join(project, '.assistants', 'skills'));
+    expect(loader.getSkill('review')?.package).toEqual({ name: 'review-kit', version: '1.0.0' });
+    expect(loader.getSkill('review')?.filePath).toBe(join(installed, 'skills', 'review', 'SKILL.md'));
+    expect(loader.getSkill('lint')?.content).toContain('Local lint');
+    expect(loader.getSkill('lint')?.package).toBeUndefined();
+  });
+
+  test('fails on missing dependencies without a source', async () => {
+    writeFiles(join(tempDir, 'needy'), {
+      'skill-package.json': JSON.stringify({ name: 'needy', version: '1.0.0', dependencies: { base: '^1.0.0' } }),
+      'SKILL.md': skillFile('needy', 'Needs base'),
+    });
+    const manager = new SkillPackageManager({ cwd: project });
+    await expect(manager.install(join(tempDir, 'needy'))).rejects.toThrow('needs base@^1.0.0');
+    expect(existsSync(manager.getLockfilePath())).toBe(false);
+  });
+
+  test('installs tarballs offline and restores installs from the lockfile', async () => {
+    writeFiles(join(tempDir, 'src', 'package'), lintKit);
+    const tarball = join(project, 'vendor', 'lint-kit-1.2.0.tgz');
+    mkdirSync(dirname(tarball), { recursive: true });
+    run(['tar', '-czf', tarball, '-C', join(tempDir, 'src'), 'package'], tempDir);
+
+    const manager = new SkillPackageManager({ cwd: project });
+    await manager.install('vendor/lint-kit-1.2.0.tgz');
+    const lockfile = JSON.parse(readFileSync(manager.getLockfilePath(), 'utf-8'));
+    expect(lockfile.packages['lint-kit'].source).toBe('../../vendor/lint-kit-1.2.0.tgz');
+
+    rmSync(manager.getPackagesDir(), { recursive: true, force: true });
+    const restored = await manager.installFromLockfile();
+    expect(restored.installed.map((pkg) => pkg.name)).toEqual(['lint-kit']);
+    expect(existsSync(join(manager.getPackagesDir(), 'lint-kit', 'lint', 'SKILL.md'))).toBe(true);
+
+    const again = await manager.installFromLockfile();
+    expect(again.installed).toEqual([]);
+    expect(again.unchanged).toEqual(['lint-kit']);
+  });
+
+  test('updates packages from their sources and relocks local edits', async () => {
+    const source = writeFiles(join(tempDir, 'lint-kit'), lintKit);
+    const manager = new SkillPackageManager({ cwd: project });
+    await manager.install(source);
+
+    expect((await manager.update()).unchanged).toEqual(['lint-kit']);
+    writeFiles(source, {
+      'skill-package.json': JSON.stringify({ name: 'lint-kit', version: '1.3.0' }),
+      'lint/SKILL.md': skillFile('lint', 'Lint the code, strictly'),
+    });
+    const updated = await manager.update(['lint-kit']);
+    expect(updated.installed).toEqual([{ name: 'lint-kit', version: '1.3.0', previousVersion: '1.2.0' }]);
+    await expect(manager.update(['missing'])).rejects.toThrow('Package not in skills-lock.json: missing');
+
+    writeFileSync(join(manager.getPackagesDir(), 'lint-kit', 'lint', 'SKILL.md'), skillFile('lint', 'Edited'));
+    writeFiles(manager.getPackagesDir(), {
+      'manual/skill-package.json': JSON.stringify({ name: 'manual', version: '0.1.0' }),
+      'manual/SKILL.md': skillFile('manual', 'Copied by hand'),
+    });
+    const locked = await manager.lock();
+    expect(locked.changed).toEqual(['lint-kit']);
+    expect(locked.added).toEqual(['manual']);
+    expect(locked.lockfile.packages.manual.source).toBe('./packages/manual');
+  });
+
+  test('installs from git and pins the resolved commit', async () => {
+    const repo = writeFiles(join(tempDir, 'repo'), lintKit);
+    const git = (args: string[]) => run(['git', '-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], repo);
+    git(['init', '-q']);
+    git(['add', '-A']);
+    git(['commit', '-q', '-m', 'v1.2.0']);
+
+    const manager = new SkillPackageManager({ cwd: project, scope: 'project' });
+    await manager.install(`git+file://${repo}`);
+    const first = JSON.parse(readFileSync(manager.getLockfilePath(), 'utf-8')).packages['lint-kit'];
+    expect(first.source).toBe(`git+file://${repo}`);
+    expect(first.resolved).toMatch(/^[0-9a-f]{40}$/);
+    expect(existsSync(join(manager.getPackagesDir(), 'lint-kit', '.git'))).toBe(false);
+
+    writeFileSync(join(repo, 'skill-package.json'), JSON.stringify({ name: 'lint-kit', version: '1.2.1' }));
+    git(['commit', '-q', '-am', 'v1.2.1']);
+
+    // The lockfile keeps the pinned commit until an update
+    rmSync(manager.getPackagesDir(), { recursive: true, force: true });
+    expect((await manager.installFromLockfile()).installed).toEqual([{ name: 'lint-kit', version: '1.2.0', previousVersion: undefined }]);
+    const updated = await manager.update();
+    expect(updated.installed).toEqual([{ name: 'lint-kit', version: '1.2.1', previousVersion: '1.2.0' }]);
+    const second = JSON.parse(readFileSync(manager.getLockfilePath(), 'utf-8')).packages['lint-kit'];
+    expect(second.resolved).not.toBe(first.resolved);
+  });
+});
@@ -0,0 +1,237 @@
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { SwarmCoordinator } from '../src/swarm/coordinator';
+import { SwarmMemory, createSwarmMemoryTools, matchesSwarmTopic } from '../src/swarm/memory';
+import { SwarmMessageBus, SWARM_COORDINATOR_ID } from '../src/swarm/messaging';
+import { SwarmStatusProvider } from '../src/swarm/status';
+import { ROLE_SYSTEM_PROMPTS } from '../src/swarm/types';
+import type { SwarmTimelineEntry } from '../src/swarm/types';
+import { createSwarmWorkerTools } from '../src/tools/swarm';
+import type { SubassistantConfig, SubassistantResult } from '../src/agent/subagent-manager';
+
+let tempDir: string;
+let originalAssistantsDir: string | undefined;
+
+beforeEach(() => {
+  originalAssistantsDir = process.env.ASSISTANTS_DIR;
+  tempDir = mkdtempSync(join(tmpdir(), 'assistants-swarm-messaging-'));
+  process.env.ASSISTANTS_DIR = tempDir;
+});
+
+afterEach(() => {
+  if (originalAssistantsDir === undefined) {
+    delete process.env.ASSISTANTS_DIR;
+  } else {
+    process.env.ASSISTANTS_DIR = originalAssistantsDir;
+  }
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function runTool(tools: ReturnType<typeof createSwarmWorkerTools>, name: string, input: Record<string, unknown> = {}) {
+  const entry = tools.find(({ tool }) => tool.name === name);
+  if (!entry) throw new Error(`Missing tool ${name}`);
+  return entry.executor(input);
+}
+
+describe('SwarmMemory topics', () => {
+  test('matches topic patterns', () => {
+    expect(matchesSwarmTopic('*', 'api/auth')).toBe(true);
+    expect(matchesSwarmTopic('api/*', 'api')).toBe(true);
+    expect(matchesSwarmTopic('api/*', 'api/auth/tokens')).toBe(true);
+    expect(matchesSwarmTopic('api/*', 'apis')).toBe(false);
+    expect(matchesSwarmTopic('api', 'api/auth')).toBe(false);
+    expect(matchesSwarmTopic('*', undefined)).toBe(false);
+  });
+
+  test('delivers posts on subscribed topics once and skips own posts', () => {
+    const memory = new SwarmMemory('swarm-1');
+    memory.add({ category: 'finding', content: 'before subscribing', topic: 'api/auth', sourceTaskId: 'task-b' });
+    memory.subscribe('task-a', ['api/*']);
+
+    memory.add({ category: 'finding', content: 'tokens expire after 1h', topic: 'api/auth', sourceTaskId: 'task-b' });
+    memory.add({ category: 'note', content: 'own note', topic: 'api/auth', sourceTaskId: 'task-a' });
+    memory.add({ category: 'note', content: 'off topic', topic: 'ui', sourceTaskId: 'task-b' });
+
+    expect(memory.takeUpdates('task-a').map((entry) => entry.content)).toEqual(['tokens expire after 1h']);
+    expect(memory.takeUpdates('task-a')).toEqual([]);
+
+    const tools = createSwarmMemoryTools(memory, { taskId: 'task-a' });
+    expect(tools.recall({ topic: 'api/*' })).toContain('[finding · api/auth]');
+    expect(tools.unsubscribe({})).toBe('No active subscriptions.');
+    memory.add({ category: 'finding', content: 'later', topic: 'api/auth', sourceTaskId: 'task-b' });
+    expect(tools.updates()).toBe('No new posts on your topics.');
+  });
+});
+
+describe('SwarmMessageBus', () => {
+  test('delivers a question and resolves with the reply', async () => {
+    const bus = new SwarmMessageBus({ timeoutMs: 1000 });
+    const timeline: SwarmTimelineEntry[] = [];
+    bus.onMessage((entry) => timeline.push(entry));
+    bus.join('task-alpha');
+    bus.join('task-beta');
+
+    const pending = bus.ask({ from: 'task-alpha', to: 'task-b', question: 'Which port?' });
+    const [question] = bus.takeQuestions('task-beta');
+    expect(question.question).toBe('Which port?');
+    expect(bus.takeQuestions('task-beta')).toEqual([]);
+    expect(() => bus.reply(question.id, 'task-alpha', 'no')).toThrow('not addressed to you');
+
+    bus.reply(question.id.slice(0, 8), 'task-beta', '8080');
+    const answered = await pending;
+    expect(answered).toMatchObject({ status: 'answered', answer: '8080', answeredBy: 'task-beta' });
+    expect(() => bus.reply(question.id, 'task-beta', 'again')).toThrow('already closed');
+    expect(timeline.map((entry) => entry.kind)).toEqual(['question', 'answer']);
+    expect(timeline[1]).toMatchObject({ from: 'task-beta', to: 'task-alpha', questionId: question.id });
+  });
+
+  test('rejects unknown targets and times out unanswered questions', async () => {
+    const bus = new SwarmMessageBus({ timeoutMs: 1000 });
+    bus.join('task-alpha');
+    bus.join('task-beta');
+    await expect(bus.ask({ from: 'task-alpha', to: 'task-gamma', question: 'Hi?' })).rejects.toThrow('Unknown task');
+    await expect(bus.ask({ from: 'task-alpha', to: 'task-alpha', question: 'Hi?' })).rejects.toThrow('Cannot ask yourself');
+    await expect(bus.ask({ from: 'task-alpha', to: 'task-beta', question: ' ' })).rejects.toThrow('Question is empty');
+
+    const question = await bus.ask({ from: 'task-alpha', to: 'task-beta', question: 'Still there?', timeoutMs: 20 });
+    expect(question.status).toBe('unanswered');
+    expect(question.answer).toContain('No answer within');
+  });
+
+  test('escalates to the coordinator when the addressee leaves or would deadlock', async () => {
+    const asked: string[] = [];
+    const bus = new SwarmMessageBus({
+      timeoutMs: 1000,
+      answerAsCoordinator: async (question) => {
+        asked.push(`${question.from}->${question.to}`);
+        return `coordinator says: ${question.question}`;
+      },
+    });
+    bus.join('task-a');
+    bus.join('task-b');
+
+    const first = bus.ask({ from: 'task-a', to: 'task-b', question: 'Schema?' });
+    // task-b asking task-a back would leave both waiting
+    const second = await bus.ask({ from: 'task-b', to: 'task-a', question: 'Routes?' });
+    expect(second).toMatchObject({ status: 'answered', answeredBy: SWARM_COORDINATOR_ID });
+
+    bus.leave('task-b');
+    expect(await first).toMatchObject({ status: 'answered', answer: 'coordinator says: Schema?' });
+    expect(asked).toEqual(['task-b->task-a', 'task-a->task-b']);
+
+    // Finished tasks can still be named, the coordinator answers for them
+    const late = await bus.ask({ from: 'task-a', to: 'task-b', question: 'Done?' });
+    expect(late.answeredBy).toBe(SWARM_COORDINATOR_ID);
+  });
+});
+
+describe('createSwarmWorkerTools', () => {
+  test('shows pending questions and subscribed posts in tool results', async () => {
+    const memory = new SwarmMemory('swarm-1');
+    const bus = new SwarmMessageBus({ timeoutMs: 1000 });
+    bus.join('task-a');
+    bus.join('task-b');
+    const toolsA = createSwarmWorkerTools({ taskId: 'task-a', memory, bus });
+    const toolsB = createSwarmWorkerTools({ taskId: 'task-b', memory, bus });
+    expect(toolsA.map(({ tool }) => tool.name)).toEqual([
+      'swarm_post', 'swarm_read', 'swarm_subscribe', 'swarm_inbox', 'swarm_ask', 'swarm_reply',
+    ]);
+    expect(createSwarmWorkerTools({ taskId: 'task-a', memory: null, bus: null })).toEqual([]);
+
+    await runTool(toolsB, 'swarm_subscribe', { topics: ['db/*'] });
+    await runTool(toolsA, 'swarm_post', { content: 'users table has an email index', topic: 'db/schema' });
+
+    const answer = runTool(toolsA, 'swarm_ask', { to: 'task-b', question: 'Are you using the email index?' });
+    await sleep(0);
+    const read = await runTool(toolsB, 'swarm_read', { search: 'nothing matches this' });
+    expect(read).toContain('❓ Question');
+    expect(read).toContain('Are you using the email index?');
+    expect(read).toContain('[finding · db/schema] users table has an email index');
+    expect(await runTool(toolsB, 'swarm_inbox')).toBe('Inbox is empty.');
+
+    const questionId = read.match(/Question (\w+)/)![1];
+    expect(await runTool(toolsB, 'swarm_reply', { questionId, answer: 'Yes, for lookups' })).toBe('Answer sent to task-a.');
+    expect(await answer).toContain('Yes, for lookups');
+  });
+});
+
+describe('SwarmCoordinator messaging', () => {
+  test('workers exchange questions and the exchange lands in the timeline', async () => {
+    const plan = {
+      tasks: [
+        { description: 'Build the API client', role: 'worker', priority: 1 },
+        { description: 'Design the API schema', role: 'worker', priority: 1 },
+      ],
+    };
+    let coordinator!: SwarmCoordinator;
+    const askerResults: string[] = [];
+    const spawn = async (config: SubassistantConfig): Promise<SubassistantResult> => {
+      if (config.task.startsWith(ROLE_SYSTEM_PROMPTS.planner)) {
+        return { success: true, result: JSON.stringify(plan), turns: 1, toolCalls: 0 };
+      }
+      if (config.task.includes('A worker in a swarm asks a question')) {
+        return { success: true, result: 'Use REST.', turns: 1, toolCalls: 0 };
+      }
+      if (!config.task.startsWith(ROLE_SYSTEM_PROMPTS.worker)) {
+        return { success: true, result: 'aggregated', turns: 1, toolCalls: 0 };
+      }
+
+      const tools = config.extraTools ?? [];
+      const run = (name: string, input: Record<string, unknown> = {}) =>
+        tools.find(({ tool }) => tool.name === name)!.executor(input);
+      const tasks = coordinator.getState()!.plan!.tasks;
+
+      if (config.task.includes('---\n\nBuild the API client')) {
+        await sleep(20);
+        const schemaTask = tasks.find((task) => task.description === 'Design the API schema')!;
+        askerResults.push(await run('swarm_ask', { to: schemaTask.id.slice(0, 8), question: 'What is the user id type?' }));
+        askerResults.push(await run('swarm_ask', { to: SWARM_COORDINATOR_ID, question: 'REST or GraphQL?' }));
+        return { success: true, result: 'client built', turns: 1, toolCalls: 2 };
+      }
+
+      await run('swarm_post', { content: 'user ids are UUIDs', topic: 'api/schema', category: 'decision' });
+      for (let attempt = 0; attempt < 100; attempt++) {
+        const inbox = await run('swarm_inbox');
+        const match = inbox.match(/Question (\w+)/);
+        if (match) {
+          await run('swarm_reply', { questionId: match[1], answer: 'UUID strings' });
+          break;
+        }
+        await sleep(10);
+      }
+      return { success: true, result: 'schema designed', turns: 1, toolCalls: 3 };
+    };
+
+    coordinator = new SwarmCoordinator(
+      { swarmTimeoutMs: 0, enableCritic: false, autoApprove: true, enableSharedMemory: true },
+      { subassistantManager: { spawn, stopAll: () => 0 } as any, sessionId: 's1', cwd: tempDir, depth: 0 }
+    );
+    const status = new SwarmStatusProvider();
+    coordinator.addEventListener(() => {
+      const state = coordinator.getState();
+      if (state) status.updateFromState(state);
+    });
+
+    const result = await coordinator.execute({ goal: 'Ship the API' });
+    expect(result.success).toBe(true);
+    expect(askerResults[0]).toContain('UUID strings');
+    expect(askerResults[1]).toContain('Use REST.');
+
+    const timeline = coordinator.getState()!.timeline;
+    expect(timeline.filter((entry) => entry.kind !== 'post').map((entry) => `${entry.kind}:${entry.content}`)).toEqual([
+      'question:What is the user id type?',
+      'answer:UUID strings',
+      'question:REST or GraphQL?',
+      'answer:Use REST.',
+    ]);
+    expect(timeline.find((entry) => entry.kind === 'post' && entry.topic === 'api/schema')?.content).toBe('user ids are UUIDs');
+
+    const questionId = timeline.find((entry) => entry.content === 'Use REST.')!.questionId!;
+    expect(status.getTimeline(questionId).map((entry) => entry.kind)).toEqual(['question', 'answer']);
+    expect(status.formatForTerminal()).toContain('Timeline:');
+  });
+});
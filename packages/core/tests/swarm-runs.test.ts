@@ -0,0 +1,219 @@
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { SwarmCoordinator } from '../src/swarm/coordinator';
+import { SwarmRunStore, isSwarmRunInterrupted, type PersistedSwarmRun } from '../src/swarm/store';
+import { DEFAULT_SWARM_CONFIG } from '../src/swarm/types';
+import { RecoveryManager } from '../src/heartbeat/recovery';
+import { StatePersistence } from '../src/heartbeat/persistence';
+import type { SubassistantConfig, SubassistantResult } from '../src/agent/subagent-manager';
+
+let tempDir: string;
+let store: SwarmRunStore;
+
+beforeEach(() => {
+  tempDir = mkdtempSync(join(tmpdir(), 'assistants-swarm-runs-'));
+  store = new SwarmRunStore(join(tempDir, 'runs'));
+});
+
+afterEach(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+/** First line of the task after the role prompt */
+function taskName(config: SubassistantConfig): string {
+  return config.task.split('\n\n---\n\n')[1]?.split('\n')[0] ?? '';
+}
+
+function createCoordinator(spawn: (config: SubassistantConfig) => Promise<SubassistantResult>) {
+  return new SwarmCoordinator(
+    { autoApprove: true, enableCritic: false, enableSharedMemory: true, swarmTimeoutMs: 0 },
+    {
+      subassistantManager: { spawn, stopAll: () => 0 } as any,
+      sessionId: 'session-1',
+      cwd: tempDir,
+      depth: 0,
+      runStore: store,
+    }
+  );
+}
+
+const TASKS = [
+  { description: 'collect inventory' },
+  { description: 'write report', dependsOn: ['0'] },
+];
+
+function persistedRun(overrides: Partial<PersistedSwarmRun>): PersistedSwarmRun {
+  return {
+    version: 1,
+    id: 'run-1',
+    sessionId: 'session-1',
+    cwd: tempDir,
+    goal: 'goal',
+    status: 'executing',
+    plan: null,
+    taskResults: {},
+    errors: [],
+    metrics: {
+      totalTasks: 0,
+      completedTasks: 0,
+      failedTasks: 0,
+      runningTasks: 0,
+      tokensUsed: 0,
+      llmCalls: 0,
+      toolCalls: 0,
+      replans: 0,
+    },
+    config: { ...DEFAULT_SWARM_CONFIG, enableCritic: false },
+    startedAt: Date.now(),
+    updatedAt: Date.now(),
+    pid: 2 ** 30,
+    resumeCount: 0,
+    ...overrides,
+  };
+}
+
+describe('Swarm run persistence', () => {
+  test('persists a failed run and resumes it without re-running completed tasks', async () => {
+    const calls: string[] = [];
+    let failReport = true;
+    const coordinator = createCoordinator(async (config) => {
+      const name = taskName(config).startsWith('Original goal') ? 'aggregate' : taskName(config);
+      calls.push(name);
+      if (name === 'write report' && failReport) {
+        return { success: false, error: 'disk full', turns: 1, toolCalls: 0 };
+      }
+      return { success: true, result: `${name} done`, turns: 1, toolCalls: 1 };
+    });
+
+    const first = await coordinator.execute({ goal: 'inventory report', tasks: TASKS });
+    expect(first.success).toBe(false);
+
+    const [summary] = store.list();
+    expect(summary.status).toBe('failed');
+    expect(summary.resumable).toBe(true);
+    expect(summary.completedTasks).toBe(1);
+
+    const saved = store.load(summary.id)!;
+    expect(saved.memory?.some((entry) => entry.content.includes('collect inventory done'))).toBe(true);
+
+    calls.length = 0;
+    failReport = false;
+    const resumed = await coordinator.resume(summary.id.slice(0, 8));
+    expect(resumed.success).toBe(true);
+    expect(calls).toEqual(['write report', 'aggregate']);
+    expect(Object.keys(resumed.taskResults)).toHaveLength(2);
+
+    const finished = store.load(summary.id)!;
+    expect(finished.status).toBe('completed');
+    expect(finished.resumeCount).toBe(1);
+    expect(store.list({ resumableOnly: true })).toHaveLength(0);
+
+    const again = await coordinator.resume(summary.id);
+    expect(again.error).toContain('already completed');
+  });
+
+  test('reschedules tasks left running by a crashed process', async () => {
+    const now = Date.now();
+    store.save(persistedRun({
+      goal: 'crashed goal',
+      plan: {
+        id: 'plan-1',
+        goal: 'crashed goal',
+        createdAt: now,
+        approved: true,
+        version: 1,
+        tasks: [
+          { id: 't1', description: 'first step', status: 'completed', role: 'worker', priority: 1, dependsOn: [], createdAt: now },
+          { id: 't2', description: 'second step', status: 'running', role: 'worker', priority: 1, dependsOn: ['t1'], createdAt: now },
+        ],
+      },
+      taskResults: { t1: { success: true, result: 'first output', turns: 1, toolCalls: 0 } },
+    }));
+
+    expect(isSwarmRunInterrupted(store.load('run-1')!)).toBe(true);
+    expect(store.list()[0].interrupted).toBe(true);
+
+    const prompts: string[] = [];
+    const coordinator = createCoordinator(async (config) => {
+      prompts.push(config.task);
+      return { success: true, result: 'ok', turns: 1, toolCalls: 0 };
+    });
+
+    const result = await coordinator.resume('run-1');
+    expect(result.success).toBe(true);
+    // Only the unfinished task and the aggregator run; the task still sees its dependency's output
+    expect(prompts).toHaveLength(2);
+    expect(prompts[0]).toContain('second step');
+    expect(prompts[0]).toContain('first output');
+  });
+
+  test('refuses to resume runs another process is executing', async () => {
+    store.save(persistedRun({ id: 'live', pid: process.pid }));
+    const coordinator = createCoordinator(async () => ({ success: true, result: 'ok', turns: 1, toolCalls: 0 }));
+
+    const result = await coordinator.resume('live');
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('still running');
+  });
+
+  test('resumed runs keep their plan approval setting', async () => {
+    const now = Date.now();
+    store.save(persistedRun({
+      config: { ...DEFAULT_SWARM_CONFIG, enableCritic: false, autoApprove: false },
+      plan: {
+        id: 'plan-1',
+        goal: 'goal',
+        createdAt: now,
+        approved: false,
+        version: 1,
+        tasks: [{ id: 't1', description: 'only step', status: 'pending', role: 'worker', priority: 1, dependsOn: [], createdAt: now }],
+      },
+    }));
+
+    const approvals: string[] = [];
+    const spawned: string[] = [];
+    const coordinator = new SwarmCoordinator(
+      { autoApprove: true, enableCritic: false, swarmTimeoutMs: 0 },
+      {
+        subassistantManager: {
+          spawn: async (config: SubassistantConfig) => {
+            spawned.push(config.task);
+            return { success: true, result: 'ok', turns: 1, toolCalls: 0 };
+          },
+          stopAll: () => 0,
+        } as any,
+        sessionId: 'session-1',
+        cwd: tempDir,
+        depth: 0,
+        runStore: store,
+        onPlanApproval: async (plan) => {
+          approvals.push(plan.id);
+          return { decision: 'abort' };
+        },
+      }
+    );
+
+    const result = await coordinator.resume('run-1');
+    expect(approvals).toEqual(['plan-1']);
+    expect(result.error).toBe('Plan aborted by user');
+    expect(spawned).toHaveLength(0);
+  });
+
+  test('recovery surfaces interrupted runs only', () => {
+    store.save(persistedRun({ id: 'crashed', cwd: tempDir }));
+    store.save(persistedRun({ id: 'live', cwd: tempDir, pid: process.pid }));
+    store.save(persistedRun({ id: 'failed', cwd: tempDir, status: 'failed', pid: process.pid }));
+    store.save(persistedRun({ id: 'elsewhere', cwd: '/other' }));
+
+    const recovery = new RecoveryManager(
+      new StatePersistence(join(tempDir, 'state.json')),
+      join(tempDir, 'hb.json'),
+      1000,
+      { autoResume: false, maxAgeMs: 60_000 },
+      store
+    );
+    expect(recovery.findInterruptedSwarmRuns(tempDir).map((run) => run.id)).toEqual(['crashed']);
+  });
+});
@@ -0,0 +1,237 @@
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { SwarmCoordinator } from '../src/swarm/coordinator';
+import { SwarmRunStore } from '../src/swarm/store';
+import {
+  evaluateWorkflowCondition,
+  findSwarmWorkflow,
+  loadSwarmWorkflows,
+  parseSwarmWorkflow,
+  renderWorkflowTemplate,
+  resolveSwarmWorkflowInputs,
+  resolveWorkflowItems,
+  type SwarmWorkflowScope,
+} from '../src/swarm/workflows';
+import type { SubassistantConfig, SubassistantResult } from '../src/agent/subagent-manager';
+
+let tempDir: string;
+let originalAssistantsDir: string | undefined;
+
+beforeEach(() => {
+  originalAssistantsDir = process.env.ASSISTANTS_DIR;
+  tempDir = mkdtempSync(join(tmpdir(), 'assistants-swarm-workflows-'));
+  process.env.ASSISTANTS_DIR = join(tempDir, 'config');
+});
+
+afterEach(() => {
+  if (originalAssistantsDir === undefined) {
+    delete process.env.ASSISTANTS_DIR;
+  } else {
+    process.env.ASSISTANTS_DIR = originalAssistantsDir;
+  }
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+const TRIAGE_WORKFLOW = `
+name: triage
+description: Triage, fix and review an issue
+inputs:
+  issue: The issue to work on
+  branch:
+    default: main
+config:
+  enableCritic: false
+steps:
+  - id: triage
+    prompt: |
+      Triage this issue: {{inputs.issue}}
+      Reply with JSON {"severity": "...", "files": [...]}
+  - id: fix
+    needs: [triage]
+    foreach: steps.triage.json.files
+    model: fast-model
+    tools: [read, edit]
+    prompt: Fix {{item}} on {{inputs.branch}} ({{index}})
+  - id: escalate
+    needs: [triage]
+    when: steps.triage.json.severity == "critical"
+    prompt: Page the on-call engineer
+  - id: review
+    role: critic
+    needs: [fix, escalate]
+    prompt: |
+      Review these fixes:
+      {{steps.fix.output}}
+`;
+
+function parse(content: string) {
+  return parseSwarmWorkflow(content, { path: join(tempDir, 'wf.yaml'), source: 'project' });
+}
+
+function writeWorkflow(dir: string, file: string, content: string): void {
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(join(dir, file), content);
+}
+
+/** First line of the task after the role prompt */
+function taskName(config: SubassistantConfig): string {
+  return config.task.split('\n\n---\n\n')[1]?.split('\n')[0] ?? '';
+}
+
+describe('parseSwarmWorkflow', () => {
+  test('parses steps, inputs and config', () => {
+    const workflow = parse(TRIAGE_WORKFLOW);
+    expect(workflow.name).toBe('triage');
+    expect(workflow.inputs.issue).toEqual({ description: 'The issue to work on', required: true });
+    expect(workflow.inputs.branch).toEqual({ description: undefined, required: false, default: 'main' });
+    expect(workflow.config).toEqual({ enableCritic: false });
+    expect(workflow.steps.map((step) => step.id)).toEqual(['triage', 'fix', 'escalate', 'review']);
+    expect(workflow.steps[1]).toMatchObject({ needs: ['triage'], model: 'fast-model', tools: ['read', 'edit'] });
+    expect(workflow.steps[3].role).toBe('critic');
+  });
+
+  test('rejects invalid graphs and references', () => {
+    const step = (extra: string) => `steps:\n  - id: a\n    prompt: A\n${extra}`;
+    expect(() => parse(step('  - id: a\n    prompt: again'))).toThrow('Duplicate step id');
+    expect(() => parse(step('  - id: b\n    needs: [c]\n    prompt: B'))).toThrow('unknown step "c"');
+    expect(() => parse('steps:\n  - id: a\n    needs: [b]\n    prompt: A\n  - id: b\n    needs: [a]\n    prompt: B'))
+      .toThrow('cycle');
+    expect(() => parse(step('  - id: b\n    prompt: "{{steps.a.output}}"'))).toThrow('without needing it');
+    expect(() => parse(step('  - id: b\n    prompt: "{{inputs.nope}}"'))).toThrow('undeclared input');
+    expect(() => parse(step('  - id: b\n    prompt: "{{item}}"'))).toThrow('has no foreach');
+    expect(() => parse(step('  - id: b\n    role: boss\n    prompt: B'))).toThrow('unknown role');
+    expect(() => parse('name: x\nconfig:\n  autoApprove: false\nsteps:\n  - id: a\n    prompt: A')).toThrow('Unsupported config key');
+  });
+});
+
+describe('loadSwarmWorkflows', () => {
+  test('loads project and global workflows with project overriding global', () => {
+    const project = join(tempDir, 'project');
+    writeWorkflow(join(tempDir, 'config', 'workflows'), 'triage.yaml', TRIAGE_WORKFLOW);
+    writeWorkflow(
+      join(tempDir, 'config', 'workflows'),
+      'release.json',
+      JSON.stringify({ description: 'Cut a release', steps: [{ id: 'tag', prompt: 'Tag it' }] })
+    );
+    writeWorkflow(join(project, '.assistants', 'workflows'), 'triage.yml', 'name: triage\nsteps:\n  - id: only\n    prompt: Local triage');
+    writeWorkflow(join(project, '.assistants', 'workflows'), 'broken.yaml', 'steps: []');
+
+    const { workflows, errors } = loadSwarmWorkflows(project);
+    expect(workflows.map((workflow) => `${workflow.name}:${workflow.source}`)).toEqual(['release:global', 'triage:project']);
+    expect(workflows[1].steps).toHaveLength(1);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].error).toBe('Workflow has no steps');
+
+    expect(findSwarmWorkflow('release', project)?.description).toBe('Cut a release');
+    expect(findSwarmWorkflow('missing', project)).toBeNull();
+    expect(() => findSwarmWorkflow('broken', project)).toThrow('Workflow "broken" is invalid');
+  });
+});
+
+describe('workflow templating', () => {
+  const scope: SwarmWorkflowScope = {
+    inputs: { issue: 'Login fails' },
+    steps: {
+      triage: {
+        status: 'completed',
+        output: 'Result:\n```json\n{"severity": "high", "files": ["a.ts", "b.ts"], "count": 2}\n```',
+        outputs: [],
+        json: { severity: 'high', files: ['a.ts', 'b.ts'], count: 2 },
+      },
+      list: { status: 'completed', output: '- one\n- two\n\n3. three', outputs: [], json: undefined },
+    },
+    item: { file: 'a.ts' },
+    index: 0,
+  };
+
+  test('renders inputs, step outputs, JSON paths and items', () => {
+    expect(renderWorkflowTemplate('{{ inputs.issue }} / {{steps.triage.json.severity}} / {{item.file}}', scope))
+      .toBe('Login fails / high / a.ts');
+    expect(renderWorkflowTemplate('{{steps.triage.json.files}}', scope)).toBe('[\n  "a.ts",\n  "b.ts"\n]');
+    expect(renderWorkflowTemplate('{{steps.triage.json.files.1}} {{steps.unknown.output}}!', scope)).toBe('b.ts !');
+  });
+
+  test('evaluates conditions', () => {
+    expect(evaluateWorkflowCondition('steps.triage.json.severity == "high"', scope)).toBe(true);
+    expect(evaluateWorkflowCondition('{{steps.triage.json.severity}} != high', scope)).toBe(false);
+    expect(evaluateWorkflowCondition('steps.triage.json.count >= 2', scope)).toBe(true);
+    expect(evaluateWorkflowCondition('steps.triage.json.files contains "b.ts"', scope)).toBe(true);
+    expect(evaluateWorkflowCondition('steps.triage.output not contains HIGH', scope)).toBe(false);
+    expect(evaluateWorkflowCondition('steps.triage.json.files', scope)).toBe(true);
+    expect(evaluateWorkflowCondition('!steps.missing.output', scope)).toBe(true);
+  });
+
+  test('resolves foreach items from arrays and text lists', () => {
+    expect(resolveWorkflowItems('steps.triage.json.files', scope)).toEqual(['a.ts', 'b.ts']);
+    expect(resolveWorkflowItems('{{steps.list.output}}', scope)).toEqual(['one', 'two', 'three']);
+    expect(resolveWorkflowItems('steps.missing.output', scope)).toEqual([]);
+  });
+
+  test('applies input defaults and rejects missing or unknown inputs', () => {
+    const workflow = parse(TRIAGE_WORKFLOW);
+    expect(resolveSwarmWorkflowInputs(workflow, { issue: 'x' })).toEqual({ issue: 'x', branch: 'main' });
+    expect(() => resolveSwarmWorkflowInputs(workflow, {})).toThrow('Missing required input(s) for workflow "triage": issue');
+    expect(() => resolveSwarmWorkflowInputs(workflow, { issue: 'x', extra: 'y' })).toThrow('Unknown input(s)');
+  });
+});
+
+describe('SwarmCoordinator.executeWorkflow', () => {
+  test('runs steps with rendered prompts, fan-out, skipped branches and the aggregator', async () => {
+    const spawned: Array<{ name: string; model?: string; tools: string[]; task: string }> = [];
+    const spawn = async (config: SubassistantConfig): Promise<SubassistantResult> => {
+      const name = taskName(config);
+      spawned.push({ name, model: config.model, tools: config.tools, task: config.task });
+      let result = `done: ${name}`;
+      if (name.startsWith('Triage this issue')) result = '{"severity": "low", "files": ["a.ts", "b.ts"]}';
+      if (name.startsWith('Fix ')) result = `patched ${name.split(' ')[1]}`;
+      return { success: true, result, turns: 1, toolCalls: 0 };
+    };
+    const store = new SwarmRunStore(join(tempDir, 'runs'));
+    const coordinator = new SwarmCoordinator(
+      { swarmTimeoutMs: 0 },
+      { subassistantManager: { spawn, stopAll: () => 0 } as any, sessionId: 's1', cwd: tempDir, depth: 0, runStore: store }
+    );
+
+    const result = await coordinator.executeWorkflow(parse(TRIAGE_WORKFLOW), { issue: 'Login fails' });
+    expect(result.success).toBe(true);
+
+    const names = spawned.map((call) => call.name);
+    expect(names[0]).toBe('Triage this issue: Login fails');
+    expect(names.slice(1, 3).sort()).toEqual(['Fix a.ts on main (0)', 'Fix b.ts on main (1)']);
+    expect(names[3]).toBe('Review these fixes:');
+    expect(spawned[3].task).toContain('patched a.ts\n\npatched b.ts');
+    // No planner, no critic (disabled by the workflow), aggregator last
+    expect(names).toHaveLength(5);
+    expect(spawned[4].task).toContain('Original goal: Run workflow "triage"');
+
+    expect(spawned[1].model).toBe('fast-model');
+    expect(spawned[1].tools).toEqual(['read', 'edit']);
+    expect(spawned[0].model).toBeUndefined();
+
+    const tasks = coordinator.getState()!.plan!.tasks;
+    expect(tasks.map((task) => task.status)).toEqual(['completed', 'completed', 'completed', 'skipped', 'completed']);
+    expect(result.metrics.totalTasks).toBe(5);
+
+    const [run] = store.list();
+    expect(run.workflow).toBe('triage');
+  });
+
+  test('fails before running when required inputs are missing', async () => {
+    let spawns = 0;
+    const coordinator = new SwarmCoordinator(
+      { swarmTimeoutMs: 0 },
+      {
+        subassistantManager: { spawn: async () => { spawns++; return { success: true, turns: 0, toolCalls: 0 }; }, stopAll: () => 0 } as any,
+        sessionId: 's1',
+        cwd: tempDir,
+        depth: 0,
+      }
+    );
+    const result = await coordinator.executeWorkflow(parse(TRIAGE_WORKFLOW), {});
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Missing required input');
+    expect(spawns).toBe(0);
+  });
+});
@@ -0,0 +1,281 @@
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { SwarmCoordinator } from '../src/swarm/coordinator';
+import { SwarmPostback } from '../src/swarm/postback';
+import { ROLE_SYSTEM_PROMPTS } from '../src/swarm/types';
+import { SwarmWorktreeManager, findGitRepoRoot } from '../src/swarm/worktrees';
+import { SwarmRunStore } from '../src/swarm/store';
+import type { SubassistantConfig, SubassistantResult } from '../src/agent/subagent-manager';
+
+let tempDir: string;
+let repo: string;
+let originalAssistantsDir: string | undefined;
+
+function git(args: string[], cwd = repo): string {
+  const result = Bun.spawnSync(['git', '-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], { cwd });
+  if (result.exitCode !== 0) {
+    throw new Error(`git ${args.join(' ')} failed: ${result.stderr.toString()}`);
+  }
+  return result.stdout.toString();
+}
+
+const PLANNER = ROLE_SYSTEM_PROMPTS.planner;
+const WORKER = ROLE_SYSTEM_PROMPTS.worker;
+const LINES = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+
+beforeEach(() => {
+  originalAssistantsDir = process.env.ASSISTANTS_DIR;
+  tempDir = mkdtempSync(join(tmpdir(), 'assistants-swarm-worktrees-'));
+  process.env.ASSISTANTS_DIR = join(tempDir, 'config');
+  repo = join(tempDir, 'repo');
+  mkdirSync(join(repo, 'src'), { recursive: true });
+  writeFileSync(join(repo, 'src', 'shared.txt'), LINES.join('\n') + '\n');
+  writeFileSync(join(repo, 'README.md'), '# Demo\n');
+  git(['init', '-q']);
+  git(['add', '-A']);
+  git(['commit', '-q', '-m', 'initial']);
+});
+
+afterEach(() => {
+  if (originalAssistantsDir === undefined) {
+    delete process.env.ASSISTANTS_DIR;
+  } else {
+    process.env.ASSISTANTS_DIR = originalAssistantsDir;
+  }
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+function editLine(path: string, index: number, text: string): void {
+  const lines = readFileSync(path, 'utf-8').split('\n');
+  lines[index] = text;
+  writeFileSync(path, lines.join('\n'));
+}
+
+describe('findGitRepoRoot', () => {
+  test('requires a repository with a commit', async () => {
+    expect(await findGitRepoRoot(join(repo, 'src'))).toBe(await findGitRepoRoot(repo));
+    expect(await findGitRepoRoot(repo)).not.toBeNull();
+
+    const empty = join(tempDir, 'empty');
+    mkdirSync(empty);
+    git(['init', '-q'], empty);
+    expect(await findGitRepoRoot(empty)).toBeNull();
+  });
+});
+
+describe('SwarmWorktreeManager', () => {
+  test('isolates workers and merges their changes into the working tree', async () => {
+    const manager = new SwarmWorktreeManager({ repoRoot: repo, swarmId: 'swarm-one' });
+    const a = await manager.create('task-a');
+    const b = await manager.create('task-b');
+    expect(a.path).not.toBe(b.path);
+    expect(a.branch).not.toBe(b.branch);
+
+    editLine(join(a.path, 'src', 'shared.txt'), 1, 'line 2 (from a)');
+    writeFileSync(join(a.path, 'src', 'new.txt'), 'hello\n');
+    editLine(join(b.path, 'src', 'shared.txt'), 17, 'line 18 (from b)');
+    // Workers never touch the main working tree
+    expect(readFileSync(join(repo, 'src', 'shared.txt'), 'utf-8')).toBe(LINES.join('\n') + '\n');
+
+    const changesA = await manager.collect('task-a');
+    expect(changesA.files.map((file) => `${file.status} ${file.path}`)).toEqual(['A src/new.txt', 'M src/shared.txt']);
+    await manager.collect('task-b');
+
+    const summary = await manager.merge(['task-a', 'task-b']);
+    expect(summary.merged).toEqual(['task-a', 'task-b']);
+    expect(summary.conflicted).toEqual([]);
+    expect(summary.files.map((file) => file.path)).toEqual(['src/new.txt', 'src/shared.txt']);
+    expect(summary.files[1].taskIds).toEqual(['task-a', 'task-b']);
+    expect(summary.additions).toBe(3);
+    expect(summary.deletions).toBe(2);
+    expect(summary.issues).toHaveLength(1);
+    expect(summary.issues[0]).toMatchObject({ category: 'consistency', location: 'src/shared.txt' });
+
+    const merged = readFileSync(join(repo, 'src', 'shared.txt'), 'utf-8');
+    expect(merged).toContain('line 2 (from a)');
+    expect(merged).toContain('line 18 (from b)');
+    expect(existsSync(join(repo, 'src', 'new.txt'))).toBe(true);
+    // Left uncommitted for review
+    expect(git(['status', '--porcelain'])).toContain('src/shared.txt');
+
+    await manager.cleanup(summary.keptBranches);
+    expect(existsSync(a.path)).toBe(false);
+    expect(git(['branch', '--list', 'swarm/*']).trim()).toBe('');
+  });
+
+  test('reports conflicting edits as critic issues and keeps the branch', async () => {
+    const manager = new SwarmWorktreeManager({ repoRoot: repo, swarmId: 'swarm-two' });
+    const a = await manager.create('task-a');
+    const b = await manager.create('task-b');
+    editLine(join(a.path, 'src', 'shared.txt'), 4, 'five from a');
+    editLine(join(b.path, 'src', 'shared.txt'), 4, 'five from b');
+    await manager.collect('task-a');
+    await manager.collect('task-b');
+
+    const summary = await manager.merge(['task-a', 'task-b'], (id) => `Task ${id}`);
+    expect(summary.merged).toEqual(['task-a']);
+    expect(summary.conflicted).toEqual(['task-b']);
+    expect(summary.keptBranches).toEqual([b.branch]);
+    expect(summary.issues[0]).toMatchObject({
+      category: 'conflict',
+      severity: 'high',
+      location: 'src/shared.txt',
+      relatedTasks: ['task-b', 'task-a'],
+    });
+    expect(summary.issues[0].title).toContain('Task task-b');
+    expect(summary.issues[0].suggestedFix).toContain(`git merge ${b.branch}`);
+    expect(readFileSync(join(repo, 'src', 'shared.txt'), 'utf-8')).toContain('five from a');
+
+    await manager.cleanup(summary.keptBranches);
+    expect(git(['branch', '--list', 'swarm/*']).trim()).toBe(b.branch);
+  });
+
+  test('dependent tasks start from their dependencies\' changes', async () => {
+    const manager = new SwarmWorktreeManager({ repoRoot: repo, swarmId: 'swarm-three' });
+    const a = await manager.create('task-a');
+    writeFileSync(join(a.path, 'api.ts'), 'export const api = 1;\n');
+    await manager.collect('task-a');
+
+    const b = await manager.create('task-b', ['task-a']);
+    expect(existsSync(join(b.path, 'api.ts'))).toBe(true);
+    writeFileSync(join(b.path, 'client.ts'), 'import { api } from "./api";\n');
+    const changesB = await manager.collect('task-b');
+    // Only the task's own edits are attributed to it
+    expect(changesB.files.map((file) => file.path)).toEqual(['client.ts']);
+
+    const summary = await manager.merge(['task-a', 'task-b']);
+    expect(summary.merged).toEqual(['task-a', 'task-b']);
+    expect(existsSync(join(repo, 'client.ts'))).toBe(true);
+    await manager.cleanup();
+  });
+});
+
+describe('SwarmCoordinator worktree isolation', () => {
+  test('runs workers in worktrees and merges their changes before aggregation', async () => {
+    const plan = {
+      tasks: [
+        { description: 'Edit the top of shared.txt', role: 'worker', priority: 1 },
+        { description: 'Edit the bottom of shared.txt', role: 'worker', priority: 1 },
+      ],
+    };
+    const workerCwds: string[] = [];
+    let aggregatorTask = '';
+    const spawn = async (config: SubassistantConfig): Promise<SubassistantResult> => {
+      if (config.task.startsWith(PLANNER)) {
+        return { success: true, result: JSON.stringify(plan), turns: 1, toolCalls: 0 };
+      }
+      if (config.task.startsWith(WORKER)) {
+        workerCwds.push(config.cwd);
+        const top = config.task.includes('---\n\nEdit the top');
+        editLine(join(config.cwd, 'shared.txt'), top ? 0 : 19, top ? 'top edited' : 'bottom edited');
+      } else {
+        aggregatorTask = config.task;
+      }
+      return { success: true, result: 'ok', turns: 1, toolCalls: 1 };
+    };
+
+    const coordinator = new SwarmCoordinator(
+      { swarmTimeoutMs: 0, enableCritic: false, autoApprove: true, isolation: 'worktree' },
+      { subassistantManager: { spawn, stopAll: () => 0 } as any, sessionId: 's1', cwd: join(repo, 'src'), depth: 0 }
+    );
+    const result = await coordinator.execute({ goal: 'Edit shared.txt' });
+
+    expect(result.success).toBe(true);
+    expect(workerCwds).toHaveLength(2);
+    for (const cwd of workerCwds) {
+      expect(cwd.startsWith(join(tempDir, 'config', 'swarm', 'worktrees'))).toBe(true);
+      expect(cwd.endsWith('src')).toBe(true);
+    }
+
+    const merged = readFileSync(join(repo, 'src', 'shared.txt'), 'utf-8');
+    expect(merged.startsWith('top edited\n')).toBe(true);
+    expect(merged).toContain('bottom edited');
+    expect(result.changes?.merged).toHaveLength(2);
+    expect(result.changes?.files.map((file) => file.path)).toEqual(['src/shared.txt']);
+    expect(aggregatorTask).toContain('src/shared.txt');
+    expect(git(['branch', '--list', 'swarm/*']).trim()).toBe('');
+
+    const params = {
+      swarmId: 'swarm-1',
+      sessionId: 's1',
+      goal: 'Edit shared.txt',
+      plan: coordinator.getState()!.plan!,
+      result,
+    };
+    const markdown = new SwarmPostback().createPostback(params);
+    expect(markdown.content).toContain('### Changes');
+    expect(markdown.content).toContain('src/shared.txt');
+    const structured = new SwarmPostback({ format: 'structured' }).createPostback(params);
+    expect(structured.structuredData?.issues.map((issue) => issue.category)).toEqual(['consistency']);
+  });
+
+  test('removes worktrees of stopped runs and resumes from kept branches', async () => {
+    let stopOnSecond = true;
+    const spawn = async (config: SubassistantConfig): Promise<SubassistantResult> => {
+      if (config.task.startsWith(WORKER)) {
+        const first = config.task.includes('---\n\nEdit the top');
+        if (!first && stopOnSecond) {
+          coordinator.stop();
+          return { success: false, error: 'stopped', turns: 1, toolCalls: 0 };
+        }
+        editLine(join(config.cwd, 'shared.txt'), first ? 0 : 19, first ? 'top edited' : 'bottom edited');
+      }
+      return { success: true, result: 'ok', turns: 1, toolCalls: 1 };
+    };
+    const coordinator = new SwarmCoordinator(
+      { swarmTimeoutMs: 0, enableCritic: false, autoApprove: true, isolation: 'worktree' },
+      {
+        subassistantManager: { spawn, stopAll: () => 0 } as any,
+        sessionId: 's1',
+        cwd: join(repo, 'src'),
+        depth: 0,
+        runStore: new SwarmRunStore(join(tempDir, 'runs')),
+      }
+    );
+
+    const stopped = await coordinator.execute({
+      goal: 'Edit shared.txt',
+      tasks: [
+        { description: 'Edit the top of shared.txt' },
+        { description: 'Edit the bottom of shared.txt', dependsOn: ['0'] },
+      ],
+    });
+    expect(stopped.success).toBe(false);
+    const runId = coordinator.getState()!.id;
+    expect(existsSync(join(tempDir, 'config', 'swarm', 'worktrees', runId))).toBe(false);
+    expect(git(['worktree', 'list', '--porcelain']).match(/^worktree /gm)).toHaveLength(1);
+    // Only the completed task's branch survives
+    expect(git(['branch', '--list', 'swarm/*']).trim().split('\n')).toHaveLength(1);
+
+    stopOnSecond = false;
+    const resumed = await coordinator.resume(runId);
+    expect(resumed.success).toBe(true);
+    const merged = readFileSync(join(repo, 'src', 'shared.txt'), 'utf-8');
+    expect(merged.startsWith('top edited\n')).toBe(true);
+    expect(merged).toContain('bottom edited');
+    expect(git(['branch', '--list', 'swarm/*']).trim()).toBe('');
+  });
+
+  test('falls back to the shared directory outside a git repository', async () => {
+    const plain = join(tempDir, 'plain');
+    mkdirSync(plain);
+    const cwds: string[] = [];
+    const spawn = async (config: SubassistantConfig): Promise<SubassistantResult> => {
+      if (config.task.startsWith(PLANNER)) {
+        return { success: true, result: JSON.stringify({ tasks: [{ description: 'Write notes', role: 'worker' }] }), turns: 1, toolCalls: 0 };
+      }
+      if (config.task.startsWith(WORKER)) cwds.push(config.cwd);
+      return { success: true, result: 'ok', turns: 1, toolCalls: 0 };
+    };
+    const coordinator = new SwarmCoordinator(
+      { swarmTimeoutMs: 0, enableCritic: false, autoApprove: true, isolation: 'worktree' },
+      { subassistantManager: { spawn, stopAll: () => 0 } as any, sessionId: 's1', cwd: plain, depth: 0 }
+    );
+    const result = await coordinator.execute({ goal: 'Write notes' });
+    expect(result.success).toBe(true);
+    expect(cwds).toEqual([plain]);
+    expect(result.changes).toBeUndefined();
+  });
+});
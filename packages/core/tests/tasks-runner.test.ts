@@ -0,0 +1,216 @@
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  addTask,
+  cancelTask,
+  claimTask,
+  getRunnableTasks,
+  getTask,
+  loadTaskStore,
+  requeueStaleTasks,
+  saveTaskStore,
+  scheduleTaskRetry,
+  TASK_LEASE_MS,
+} from '../src/tasks/store';
+import { TaskQueueRunner, parseTaskDuration, type TaskExecutor, type TaskRunnerEvent } from '../src/tasks/runner';
+
+const FAST = { pollIntervalMs: 10 };
+
+describe('Task runner', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'tasks-runner-'));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  test('getRunnableTasks orders by priority and skips blocked tasks', async () => {
+    const low = await addTask(tempDir, { description: 'low', priority: 'low' });
+    const high = await addTask(tempDir, { description: 'high', priority: 'high' });
+    await addTask(tempDir, { description: 'blocked', priority: 'high', blockedBy: [low.id] });
+    const waiting = await addTask(tempDir, { description: 'waiting' });
+    await claimTask(tempDir, waiting.id);
+    await scheduleTaskRetry(tempDir, waiting.id, 'boom', Date.now() + 60000);
+
+    const runnable = await getRunnableTasks(tempDir);
+    expect(runnable.map((task) => task.id)).toEqual([high.id, low.id]);
+
+    const claimed = await claimTask(tempDir, high.id);
+    expect(claimed?.status).toBe('in_progress');
+    expect(claimed?.attempts).toBe(1);
+    expect(await claimTask(tempDir, high.id)).toBeNull();
+  });
+
+  test('cancelTask cancels transitive dependents', async () => {
+    const a = await addTask(tempDir, { description: 'a' });
+    const b = await addTask(tempDir, { description: 'b', blockedBy: [a.id] });
+    const c = await addTask(tempDir, { description: 'c', blockedBy: [b.id] });
+
+    const cancelled = await cancelTask(tempDir, a.id);
+    expect(cancelled.map((task) => task.id)).toEqual([a.id, b.id, c.id]);
+    expect((await getTask(tempDir, c.id))?.error).toContain('which was cancelled');
+    expect(await cancelTask(tempDir, a.id)).toEqual([]);
+  });
+
+  test('runs tasks in dependency order within the concurrency limit', async () => {
+    const first = await addTask(tempDir, { description: 'first', priority: 'low' });
+    const second = await addTask(tempDir, { description: 'second', priority: 'high', blockedBy: [first.id] });
+    const other = await addTask(tempDir, { description: 'other' });
+
+    const order: string[] = [];
+    let running = 0;
+    let maxRunning = 0;
+    const execute: TaskExecutor = async (task) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      order.push(task.description);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      running--;
+      return { success: true, result: `done ${task.description}` };
+    };
+
+    const runner = new TaskQueueRunner({ ...FAST, concurrency: 1 }, { cwd: tempDir, execute });
+    await runner.start();
+
+    expect(order).toEqual(['other', 'first', 'second']);
+    expect(maxRunning).toBe(1);
+    expect((await getTask(tempDir, second.id))?.result).toBe('done second');
+    expect((await getTask(tempDir, other.id))?.status).toBe('completed');
+    expect(runner.getStatus().completed).toBe(3);
+    expect(runner.isRunning()).toBe(false);
+  });
+
+  test('retries failed attempts with backoff', async () => {
+    const task = await addTask(tempDir, {
+      description: 'flaky',
+      retry: { maxRetries: 2, delayMs: 20, backoffMultiplier: 2 },
+    });
+
+    const attempts: number[] = [];
+    const execute: TaskExecutor = async (_task, { attempt }) => {
+      attempts.push(attempt);
+      return attempt < 3 ? { success: false, error: `boom ${attempt}` } : { success: true };
+    };
+
+    const events: TaskRunnerEvent[] = [];
+    const runner = new TaskQueueRunner(FAST, { cwd: tempDir, execute });
+    runner.addEventListener((event) => events.push(event));
+    await runner.start();
+
+    expect(attempts).toEqual([1, 2, 3]);
+    const retries = events.filter((event) => event.type === 'task:retry').map((event) => (event.data as { delayMs: number }).delayMs);
+    expect(retries).toEqual([20, 40]);
+
+    const finished = await getTask(tempDir, task.id);
+    expect(finished?.status).toBe('completed');
+    expect(finished?.attempts).toBe(3);
+  });
+
+  test('a failed task cancels its dependents', async () => {
+    const build = await addTask(tempDir, { description: 'build' });
+    const deploy = await addTask(tempDir, { description: 'deploy', blockedBy: [build.id] });
+
+    const execute: TaskExecutor = async () => ({ success: false, error: 'compile error' });
+    const runner = new TaskQueueRunner(FAST, { cwd: tempDir, execute });
+    await runner.start();
+
+    expect((await getTask(tempDir, build.id))?.error).toBe('compile error');
+    const dependent = await getTask(tempDir, deploy.id);
+    expect(dependent?.status).toBe('cancelled');
+    expect(dependent?.error).toContain('which failed');
+    expect(runner.getStatus()).toMatchObject({ failed: 1, cancelled: 1 });
+  });
+
+  test('times out attempts', async () => {
+    const task = await addTask(tempDir, { description: 'slow', timeoutMs: 30 });
+
+    let aborted = false;
+    const execute: TaskExecutor = (_task, { signal }) => new Promise((resolve) => {
+      signal.addEventListener('abort', () => {
+        aborted = true;
+        resolve({ success: false, error: 'Aborted' });
+      });
+    });
+
+    const runner = new TaskQueueRunner(FAST, { cwd: tempDir, execute });
+    await runner.start();
+
+    expect(aborted).toBe(true);
+    const failed = await getTask(tempDir, task.id);
+    expect(failed?.status).toBe('failed');
+    expect(failed?.error).toContain('Timed out');
+  });
+
+  test('cancel aborts a running task; stop requeues the rest', async () => {
+    const a = await addTask(tempDir, { description: 'a' });
+    const b = await addTask(tempDir, { description: 'b' });
+
+    const started: string[] = [];
+    const execute: TaskExecutor = (task, { signal }) => new Promise((resolve) => {
+      started.push(task.id);
+      signal.addEventListener('abort', () => resolve({ success: false, error: 'Aborted' }));
+    });
+
+    const runner = new TaskQueueRunner({ ...FAST, concurrency: 2, watch: true }, { cwd: tempDir, execute });
+    const done = runner.start();
+    while (started.length < 2) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+    expect(runner.getStatus().active.map((run) => run.taskId).sort()).toEqual([a.id, b.id].sort());
+
+    await runner.cancel(a.id);
+    await runner.stop();
+    await done;
+
+    expect((await getTask(tempDir, a.id))?.status).toBe('cancelled');
+    const requeued = await getTask(tempDir, b.id);
+    expect(requeued?.status).toBe('pending');
+    expect(requeued?.attempts).toBe(0);
+  });
+
+  test('requeues tasks left claimed by a runner that is gone', async () => {
+    const orphan = await addTask(tempDir, { description: 'orphan' });
+    const dependent = await addTask(tempDir, { description: 'dependent', blockedBy: [orphan.id] });
+    const stuck = await addTask(tempDir, { description: 'stuck' });
+    const live = await addTask(tempDir, { description: 'live' });
+    for (const task of [orphan, stuck, live]) {
+      await claimTask(tempDir, task.id);
+    }
+
+    const exited = Bun.spawn(['true']);
+    await exited.exited;
+    const data = await loadTaskStore(tempDir);
+    data.tasks.find((task) => task.id === orphan.id)!.ownerPid = exited.pid;
+    data.tasks.find((task) => task.id === stuck.id)!.heartbeatAt = Date.now() - TASK_LEASE_MS - 1000;
+    await saveTaskStore(tempDir, data);
+
+    const requeued = await requeueStaleTasks(tempDir);
+    expect(requeued.map((task) => task.id).sort()).toEqual([orphan.id, stuck.id].sort());
+    expect(requeued.every((task) => task.attempts === 0 && task.ownerPid === undefined)).toBe(true);
+    expect((await getTask(tempDir, live.id))?.status).toBe('in_progress');
+
+    const ran: string[] = [];
+    const runner = new TaskQueueRunner(FAST, {
+      cwd: tempDir,
+      execute: async (task) => {
+        ran.push(task.id);
+        return { success: true };
+      },
+    });
+    await runner.start();
+    expect(ran).toEqual([orphan.id, stuck.id, dependent.id]);
+    expect((await getTask(tempDir, dependent.id))?.status).toBe('completed');
+  });
+
+  test('parseTaskDuration', () => {
+    expect(parseTaskDuration('90s')).toBe(90000);
+    expect(parseTaskDuration('5m')).toBe(300000);
+    expect(parseTaskDuration('1500')).toBe(1500);
+    expect(parseTaskDuration('soon')).toBeNull();
+  });
+});
@@ -71,6 +71,15 @@ describe('BashTool', () => {
     await expect(BashTool.executor({ command: 'git tag -d v1.0.0' })).rejects.toThrow('not allowed');
   });
 
+  test('should block file writes via redirects', async () => {
+    await expect(BashTool.executor({ command: 'echo hi > notes.txt' })).rejects.toThrow('not allowed');
+  });
+
+  test('should allow operators inside quotes', async () => {
+    const output = await BashTool.executor({ command: "echo 'a; b > c' | cat" });
+    expect(output).toBe('a; b > c');
+  });
+
   test('should report when command produces no output', async () => {
     const output = await BashTool.executor({ command: 'echo -n' });
     expect(output).toContain('Command completed successfully');
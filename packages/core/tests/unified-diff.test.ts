@@ -0,0 +1,69 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  applyHunks,
+  countDiffChanges,
+  createUnifiedDiff,
+  parseUnifiedDiff,
+  PatchApplyError,
+} from '../src/utils/unified-diff';
+
+describe('unified diff', () => {
+  test('parseUnifiedDiff reads file headers and hunks', () => {
+    const files = parseUnifiedDiff([
+      'diff --git a/src/x.ts b/src/x.ts',
+      '--- a/src/x.ts',
+      '+++ b/src/x.ts',
+      '@@ -1,2 +1,2 @@',
+      ' keep',
+      '-old',
+      '+new',
+      '\\ No newline at end of file',
+    ].join('\n'));
+    expect(files).toHaveLength(1);
+    expect(files[0].oldPath).toBe('src/x.ts');
+    expect(files[0].newPath).toBe('src/x.ts');
+    expect(files[0].hunks[0].lines).toEqual([' keep', '-old', '+new']);
+  });
+
+  test('parseUnifiedDiff rejects truncated hunks', () => {
+    expect(() => parseUnifiedDiff('--- a/x\n+++ b/x\n@@ -1,3 +1,3 @@\n a\n')).toThrow(PatchApplyError);
+  });
+
+  test('applyHunks relocates hunks whose line numbers drifted', () => {
+    const [file] = parseUnifiedDiff('--- a/x\n+++ b/x\n@@ -1,2 +1,2 @@\n b\n-c\n+C\n');
+    expect(applyHunks('a\nb\nc\nd\n', file.hunks)).toBe('a\nb\nC\nd\n');
+  });
+
+  test('applyHunks rejects ambiguous context', () => {
+    const [file] = parseUnifiedDiff('--- a/x\n+++ b/x\n@@ -9,1 +9,1 @@\n-x\n+y\n');
+    expect(() => applyHunks('x\nx\n', file.hunks)).toThrow('multiple locations');
+  });
+
+  test('createUnifiedDiff round-trips through applyHunks', () => {
+    const before = Array.from({ length: 30 }, (_, i) => `row ${i}`).join('\n') + '\n';
+    const after = before.replace('row 3\n', 'row three\n').replace('row 25\n', '');
+    const diff = createUnifiedDiff(before, after, { oldPath: 'f.txt' });
+    expect(diff.match(/^@@/gm)).toHaveLength(2);
+    expect(countDiffChanges(diff)).toEqual({ added: 1, removed: 2 });
+    const [file] = parseUnifiedDiff(diff);
+    expect(applyHunks(before, file.hunks)).toBe(after);
+  });
+
+  test('countDiffChanges counts --- and +++ lines inside hunks', () => {
+    const diff = [
+      '--- a/notes.md',
+      '+++ b/notes.md',
+      '@@ -1,3 +1,3 @@',
+      ' title',
+      '---- old rule',
+      '++++ new rule',
+      ' end',
+      '\\ No newline at end of file',
+    ].join('\n');
+    expect(countDiffChanges(diff)).toEqual({ added: 1, removed: 1 });
+  });
+
+  test('createUnifiedDiff returns empty string for identical content', () => {
+    expect(createUnifiedDiff('same\n', 'same\n')).toBe('');
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, test } from 'bun:test';
+import { parseYaml, YamlParseError } from '../src/utils/yaml';
+
+describe('parseYaml', () => {
+  test('parses nested mappings, sequences and scalars', () => {
+    const doc = parseYaml(`
+# comment
+name: review # trailing comment
+count: 3
+ratio: 0.5
+enabled: true
+missing: ~
+url: "https://example.com/#anchor"
+quoted: 'it''s'
+tags: [a, "b, c", 4]
+map: {x: 1, y: [2]}
+steps:
+  - id: one
+    needs:
+    - zero
+  - plain item
+  -
+    nested: yes
+`);
+    expect(doc).toEqual({
+      name: 'review',
+      count: 3,
+      ratio: 0.5,
+      enabled: true,
+      missing: null,
+      url: 'https://example.com/#anchor',
+      quoted: "it's",
+      tags: ['a', 'b, c', 4],
+      map: { x: 1, y: [2] },
+      steps: [
+        { id: 'one', needs: ['zero'] },
+        'plain item',
+        { nested: 'yes' },
+      ],
+    });
+  });
+
+  test('parses literal and folded block scalars', () => {
+    const doc = parseYaml(`
+literal: |
+  first: line
+    indented # not a comment
+
+  last
+folded: >-
+  one
+  two
+
+  three
+after: done
+`) as Record<string, string>;
+    expect(doc.literal).toBe('first: line\n  indented # not a comment\n\nlast\n');
+    expect(doc.folded).toBe('one two\n\nthree');
+    expect(doc.after).toBe('done');
+  });
+
+  test('reports errors with line numbers', () => {
+    expect(() => parseYaml('a: 1\na: 2')).toThrow(YamlParseError);
+    expect(() => parseYaml('a: 1\na: 2')).toThrow('line 2');
+    expect(() => parseYaml('a: [1, 2')).toThrow('Unterminated flow sequence');
+    expect(() => parseYaml('a:\n  b: 1\n c: 2')).toThrow('Unexpected indentation');
+  });
+});
@@ -12,6 +12,21 @@ export interface Message {
   toolCalls?: ToolCall[];
   toolResults?: ToolResult[];
   documents?: DocumentAttachment[];
+  /** Extended thinking blocks that preceded this assistant message */
+  thinking?: ThinkingBlock[];
+}
+
+/**
+ * An extended thinking block returned by the model.
+ * Blocks must be replayed unchanged (with signature) on later turns.
+ */
+export interface ThinkingBlock {
+  /** Thinking text (empty for redacted blocks) */
+  thinking: string;
+  /** Provider signature verifying the block */
+  signature?: string;
+  /** Opaque payload for redacted thinking blocks */
+  redactedData?: string;
 }
 
 // ============================================
@@ -30,24 +45,32 @@ export type DocumentSource =
   | { type: 'file'; fileId: string };
 
 export interface StreamChunk {
-  type: 'text' | 'tool_use' | 'tool_result' | 'error' | 'done' | 'usage' | 'exit' | 'show_panel' | 'stopped';
+  type: 'text' | 'thinking' | 'tool_use' | 'tool_progress' | 'tool_result' | 'error' | 'done' | 'usage' | 'exit' | 'show_panel' | 'stopped';
+  /** Text delta (for 'text' and 'thinking' types) */
   content?: string;
+  /** Completed thinking block (for 'thinking' type, emitted once the block ends) */
+  thinking?: ThinkingBlock;
   toolCall?: ToolCall;
+  /** Progress of a running tool (for 'tool_progress' type) */
+  toolProgress?: ToolProgress;
   toolResult?: ToolResult;
   error?: string;
   usage?: TokenUsage;
   /** Panel to show (for 'show_panel' type) */
-  panel?: 'connectors' | 'projects' | 'plans' | 'tasks' | 'assistants' | 'hooks' | 'config' | 'messages' | 'guardrails' | 'budget' | 'schedules' | 'wallet' | 'secrets' | 'identity' | 'memory' | 'inbox' | 'swarm' | 'workspace' | 'logs' | 'skills' | 'heartbeat' | 'resume' | 'webhooks' | 'channels' | 'telephony' | 'orders' | 'setup' | 'people';
+  panel?: 'connectors' | 'projects' | 'plans' | 'tasks' | 'assistants' | 'hooks' | 'config' | 'messages' | 'guardrails' | 'budget' | 'schedules' | 'wallet' | 'secrets' | 'identity' | 'memory' | 'inbox' | 'swarm' | 'workspace' | 'logs' | 'skills' | 'heartbeat' | 'resume' | 'webhooks' | 'channels' | 'telephony' | 'orders' | 'setup' | 'people' | 'mcp';
   /** Initial value for the panel */
   panelValue?: string;
 }
 
 export interface TokenUsage {
+  /** Prompt tokens, including tokens read from or written to the prompt cache */
   inputTokens: number;
   outputTokens: number;
   totalTokens: number;
   maxContextTokens: number;
+  /** Prompt tokens served from the cache */
   cacheReadTokens?: number;
+  /** Prompt tokens written to the cache */
   cacheWriteTokens?: number;
 }
 
@@ -96,6 +119,22 @@ export interface ToolResult {
   toolName?: string;
 }
 
+/**
+ * Progress reported by a tool while it runs
+ */
+export interface ToolProgressUpdate {
+  message?: string;
+  /** Units done so far, out of total when known */
+  current?: number;
+  total?: number;
+  data?: Record<string, unknown>;
+}
+
+export interface ToolProgress extends ToolProgressUpdate {
+  toolCallId: string;
+  toolName?: string;
+}
+
 export interface AskUserQuestion {
   id: string;
   question: string;
@@ -131,6 +170,10 @@ export interface Connector {
   lastUsedAt?: string;
   /** Usage count for ranking */
   usageCount?: number;
+  /** Where the commands came from: a manifest, or parsed --help output */
+  source?: 'manifest' | 'help';
+  /** Connector version, when its manifest gives one */
+  version?: string;
 }
 
 export interface ConnectorCommand {
@@ -140,6 +183,10 @@ export interface ConnectorCommand {
   options: ConnectorOption[];
   /** Usage examples for the command */
   examples?: string[];
+  /** JSON Schema of the command's arguments (from a manifest) */
+  inputSchema?: Record<string, unknown>;
+  /** JSON Schema of the command's output (from a manifest) */
+  outputSchema?: Record<string, unknown>;
 }
 
 export interface ConnectorArg {
@@ -175,14 +222,64 @@ export interface ConnectorAuth {
   statusCommand?: string;
 }
 
+/**
+ * Machine-readable description of a connector CLI, printed by
+ * `connect-<name> --manifest` or shipped next to it
+ */
+export interface ConnectorManifest {
+  /** Manifest format version (currently 1) */
+  manifestVersion: number;
+  name?: string;
+  description?: string;
+  version?: string;
+  auth?: ConnectorAuth;
+  commands: ConnectorManifestCommand[];
+}
+
+export interface ConnectorManifestCommand {
+  /** Command words, e.g. "issues list" */
+  name: string;
+  description?: string;
+  /**
+   * JSON Schema (type: object) for the command's arguments. Properties named
+   * in `positional` are passed in that order; the rest become --options.
+   */
+  input?: Record<string, unknown>;
+  /** Input properties passed as positional arguments, in order */
+  positional?: string[];
+  /** JSON Schema of what the command prints with --format json */
+  output?: Record<string, unknown>;
+  examples?: string[];
+}
+
 // ============================================
 // Skill Types
 // ============================================
 
+export type SkillArgumentType = 'string' | 'number' | 'integer' | 'boolean';
+
+export type SkillArgumentValue = string | number | boolean;
+
+/**
+ * A named skill argument declared in the `arguments` frontmatter field
+ */
+export interface SkillArgument {
+  name: string;
+  type: SkillArgumentType;
+  description?: string;
+  required?: boolean;
+  enum?: Array<string | number>;
+  default?: SkillArgumentValue;
+  /** Takes the remaining positional words (last positional argument only) */
+  rest?: boolean;
+}
+
 export interface Skill {
   name: string;
   description: string;
   argumentHint?: string;
+  /** Typed argument schema; arguments are validated and coerced on invocation */
+  arguments?: SkillArgument[];
   allowedTools?: string[];
   disableModelInvocation?: boolean;
   userInvocable?: boolean;
@@ -193,6 +290,10 @@ export interface Skill {
   content: string;
   filePath: string;
   contentLoaded?: boolean;
+  /** Skill package the skill was installed with */
+  package?: { name: string; version: string };
+  /** Produces the content on invocation, for skills not backed by a SKILL.md (e.g. MCP prompts) */
+  render?: (values: Record<string, SkillArgumentValue>) => Promise<string>;
 }
 
 export interface SkillFrontmatter {
@@ -241,10 +342,20 @@ export interface HookHandler {
   name?: string; // Human-readable name
   description?: string; // What this hook does
   enabled?: boolean; // Whether hook is active (default true)
-  type: 'command' | 'prompt' | 'assistant';
+  type: 'command' | 'prompt' | 'assistant' | 'http' | 'module';
   command?: string;
   prompt?: string;
   model?: string;
+  /** Endpoint the input is POSTed to (http hooks); ${VAR} reads the environment */
+  url?: string;
+  /** Extra request headers (http hooks); values may use ${VAR} */
+  headers?: Record<string, string>;
+  /** HMAC-SHA256 key for the X-Webhook-Signature header (http hooks); may use ${VAR} */
+  secret?: string;
+  /** JS/TS file exporting a NativeHookHandler (module hooks), relative to the project */
+  module?: string;
+  /** Export to call (module hooks, default "default") */
+  export?: string;
   timeout?: number;
   async?: boolean;
   statusMessage?: string;
@@ -452,6 +563,7 @@ export interface AssistantsConfig {
   jobs?: JobsConfig;
   messages?: MessagesConfig;
   webhooks?: WebhooksConfig;
+  mcp?: McpConfig;
   channels?: ChannelsConfig;
   telephony?: TelephonyConfig;
   orders?: OrdersConfig;
@@ -483,6 +595,20 @@ export interface BudgetConfig {
   onExceeded?: 'warn' | 'pause' | 'stop';
   /** Whether to persist budget state across restarts */
   persist?: boolean;
+  /** Per-model pricing overrides (e.g. for local or custom-provider models) */
+  pricing?: Record<string, ModelPricing>;
+}
+
+/**
+ * Model pricing in US dollars per million tokens
+ */
+export interface ModelPricing {
+  inputPer1M: number;
+  outputPer1M: number;
+  /** Price of input tokens read from the prompt cache (default: inputPer1M) */
+  cacheReadPer1M?: number;
+  /** Price of input tokens written to the prompt cache (default: inputPer1M) */
+  cacheWritePer1M?: number;
 }
 
 /**
@@ -501,8 +627,10 @@ export interface BudgetLimits {
   maxToolCalls?: number;
   /** Maximum execution time in milliseconds per period */
   maxDurationMs?: number;
-  /** Period for rolling limits (e.g., 'session', 'hour', 'day') */
-  period?: 'session' | 'hour' | 'day';
+  /** Maximum spend in US dollars per period */
+  maxCostUsd?: number;
+  /** Period for limits: per session, or a rolling hour/day/month (30 days) */
+  period?: 'session' | 'hour' | 'day' | 'month';
 }
 
 /**
@@ -521,6 +649,12 @@ export interface BudgetUsage {
   toolCalls: number;
   /** Execution time in milliseconds */
   durationMs: number;
+  /** Input tokens served from the prompt cache */
+  cacheReadTokens?: number;
+  /** Input tokens written to the prompt cache */
+  cacheWriteTokens?: number;
+  /** Estimated spend in US dollars */
+  costUsd?: number;
   /** When the current period started */
   periodStartedAt: string;
   /** When usage was last updated */
@@ -568,6 +702,8 @@ export interface PasteConfig {
 export interface GuardrailsConfigShared {
   /** Whether guardrails enforcement is enabled (default: false) */
   enabled?: boolean;
+  /** 'audit' logs decisions without enforcing them (default: 'enforce') */
+  mode?: 'enforce' | 'audit';
   /** Default action when no policy matches */
   defaultAction?: 'allow' | 'deny' | 'require_approval' | 'warn';
   /** Whether to log all policy evaluations */
@@ -682,13 +818,70 @@ export interface MemoryConfigShared {
     /** Whether private scope is enabled (default: true) */
     privateEnabled?: boolean;
   };
+  /** Consolidation pass settings (`/memory consolidate`) */
+  consolidation?: {
+    /** Minimum similarity for two memories to be grouped (default: 0.75) */
+    similarityThreshold?: number;
+    /** Largest group sent for merging at once (default: 8) */
+    maxClusterSize?: number;
+    /** Days unused before importance decays by one point (default: 30) */
+    decayAfterDays?: number;
+  };
+  /** Hybrid ranking weights for memory search and injection */
+  search?: {
+    /** Weight of semantic similarity (default: 0.6) */
+    similarityWeight?: number;
+    /** Weight of importance (default: 0.25) */
+    importanceWeight?: number;
+    /** Weight of recency (default: 0.15) */
+    recencyWeight?: number;
+    /** Days for the recency score to halve (default: 30) */
+    recencyHalfLifeDays?: number;
+  };
 }
 
+/**
+ * LLM provider ID: a built-in provider or a key of `llm.providers`
+ */
+export type LLMProviderId = 'anthropic' | 'openai' | 'openai-compatible' | 'replay' | (string & {});
+
 export interface LLMConfig {
-  provider: 'anthropic' | 'openai';
+  provider: LLMProviderId;
   model: string;
   apiKey?: string;
   maxTokens?: number;
+  /** Additional providers, keyed by the ID used in `provider` */
+  providers?: Record<string, LLMProviderConfig>;
+  /** Cache the system prompt, tool definitions and history prefix (Anthropic only, default: true) */
+  promptCaching?: boolean;
+  /** Extended thinking settings (Anthropic only) */
+  thinking?: ThinkingConfig;
+}
+
+export interface LLMProviderConfig {
+  /** Provider implementation to use */
+  type: 'anthropic' | 'openai' | 'openai-compatible' | 'replay';
+  /** Base URL of an OpenAI-compatible server (e.g. http://localhost:11434/v1) */
+  baseUrl?: string;
+  /** API key sent to the provider */
+  apiKey?: string;
+  /** Environment variable to read the API key from */
+  apiKeyEnv?: string;
+  /** Extra HTTP headers sent with each request */
+  headers?: Record<string, string>;
+  /** Models served by this provider; discovered from /v1/models when omitted */
+  models?: string[];
+  /** Context window in tokens (default: 128000) */
+  contextWindow?: number;
+  /** Replay script path (replay provider only) */
+  script?: string;
+}
+
+export interface ThinkingConfig {
+  /** Whether extended thinking is enabled (default: false) */
+  enabled: boolean;
+  /** Token budget for thinking; minimum 1024 (default: 4096) */
+  budgetTokens?: number;
 }
 
 export interface VoiceConfig {
@@ -1226,6 +1419,62 @@ export interface WebhooksConfig {
   };
 }
 
+/**
+ * A Model Context Protocol server. Set `command` for a stdio server or `url`
+ * for a streamable HTTP server.
+ */
+export interface McpServerConfig {
+  /** Transport (default: inferred from `command` or `url`) */
+  transport?: 'stdio' | 'http';
+  /** Executable to launch (stdio) */
+  command?: string;
+  /** Command arguments (stdio) */
+  args?: string[];
+  /** Extra environment variables (stdio); values may reference ${VAR} */
+  env?: Record<string, string>;
+  /** Working directory (stdio, default: project directory) */
+  cwd?: string;
+  /** Endpoint URL (http) */
+  url?: string;
+  /** Extra request headers (http); values may reference ${VAR} */
+  headers?: Record<string, string>;
+  /** Whether to connect to this server (default: true) */
+  enabled?: boolean;
+  /** Request timeout in milliseconds (default: mcp.requestTimeoutMs) */
+  timeoutMs?: number;
+  /** Only expose these tools (names, * wildcards allowed) */
+  includeTools?: string[];
+  /** Hide these tools (names, * wildcards allowed) */
+  excludeTools?: string[];
+}
+
+/**
+ * Configuration for Model Context Protocol servers
+ * Server tools are registered as `mcp_<server>_<tool>`
+ */
+export interface McpConfig {
+  /** Whether MCP servers are connected (default: true) */
+  enabled?: boolean;
+  /** Servers by name */
+  servers?: Record<string, McpServerConfig>;
+  /** Request timeout in milliseconds (default: 60000) */
+  requestTimeoutMs?: number;
+  /** Offer server prompts as skills, e.g. /github:review (default: true) */
+  promptsAsSkills?: boolean;
+  /** What `assistants mcp serve` offers to MCP clients */
+  serve?: McpServeConfig;
+}
+
+/**
+ * Tools offered when the assistant itself runs as an MCP server
+ */
+export interface McpServeConfig {
+  /** Registry tools to offer, by name or glob (default: none) */
+  tools?: string[];
+  /** Offer the ask_assistant tool (default: true) */
+  askTool?: boolean;
+}
+
 /**
  * Configuration for channels (Slack-like agent collaboration)
  * Enables shared communication spaces where multiple agents can collaborate
@@ -58,6 +58,8 @@ export function parseFrontmatter<T extends Record<string, unknown>>(
   // Simple YAML parser for frontmatter
   const lines = yamlContent.split(/\r?\n/);
   for (const line of lines) {
+    // Indented lines belong to nested blocks, which callers parse themselves
+    if (/^\s/.test(line)) continue;
     const colonIndex = line.indexOf(':');
     if (colonIndex === -1) continue;
 
@@ -149,6 +149,21 @@ Content`;
     expect(result.frontmatter['argument-hint']).toBe('[arg1] [arg2]');
   });
 
+  test('should skip indented lines of nested blocks', () => {
+    const content = `---
+description: Top level
+arguments:
+  - name: file
+    description: Nested
+---
+
+Content`;
+
+    const result = parseFrontmatter(content);
+    expect(result.frontmatter.description).toBe('Top level');
+    expect(result.frontmatter).not.toHaveProperty('name');
+  });
+
   test('should return empty frontmatter for content without frontmatter', () => {
     const content = '# Just content\n\nNo frontmatter here';
     const result = parseFrontmatter(content);
@@ -16,6 +16,10 @@ export interface ParsedOptions {
   continue: boolean;
   resume: string | null;
   cwdProvided: boolean;
+  /** `assistants mcp serve` */
+  mcpServe: boolean;
+  mcpTools: string[] | null;
+  mcpAskTool: boolean | null;
   errors: string[];
 }
 
@@ -26,6 +30,21 @@ function isFlag(arg: string | undefined): boolean {
   return arg !== undefined && arg.startsWith('-') && arg !== '--';
 }
 
+/**
+ * Split a comma-separated list, dropping blanks and duplicates
+ */
+function parseList(value: string): string[] {
+  const seen = new Set<string>();
+  return value
+    .split(',')
+    .map((t) => t.trim())
+    .filter((t) => {
+      if (!t || seen.has(t)) return false;
+      seen.add(t);
+      return true;
+    });
+}
+
 /**
  * Parse CLI arguments into options object
  * Supports:
@@ -47,13 +66,23 @@ export function parseArgs(argv: string[]): ParsedOptions {
     continue: false,
     resume: null,
     cwdProvided: false,
+    mcpServe: false,
+    mcpTools: null,
+    mcpAskTool: null,
     errors: [],
   };
 
   let endOfOptions = false;
   const positionalArgs: string[] = [];
 
-  for (let i = 0; i < args.length; i++) {
+  // Subcommands
+  let start = 0;
+  if (args[0] === 'mcp' && args[1] === 'serve') {
+    options.mcpServe = true;
+    start = 2;
+  }
+
+  for (let i = start; i < args.length; i++) {
     const arg = args[i];
 
     // After --, treat all remaining args as positional
@@ -118,20 +147,29 @@ export function parseArgs(argv: string[]): ParsedOptions {
         options.errors.push(`${arg} requires a comma-separated list of tool names`);
       } else {
         // Normalize: split by comma, trim, filter empty, dedupe while preserving order
-        const seen = new Set<string>();
-        options.allowedTools = nextArg
-          .split(',')
-          .map((t) => t.trim())
-          .filter((t) => {
-            if (!t || seen.has(t)) return false;
-            seen.add(t);
-            return true;
-          });
+        options.allowedTools = parseList(nextArg);
+        i++;
+      }
+      continue;
+    }
+
+    // Tools offered by mcp serve
+    if (arg === '--tools') {
+      const nextArg = args[i + 1];
+      if (nextArg === undefined || isFlag(nextArg)) {
+        options.errors.push('--tools requires a comma-separated list of tool names or globs');
+      } else {
+        options.mcpTools = parseList(nextArg);
         i++;
       }
       continue;
     }
 
+    if (arg === '--ask-tool' || arg === '--no-ask-tool') {
+      options.mcpAskTool = arg === '--ask-tool';
+      continue;
+    }
+
     // System prompt
     if (arg === '--system-prompt') {
       const nextArg = args[i + 1];
@@ -210,6 +248,16 @@ export function parseArgs(argv: string[]): ParsedOptions {
     }
   }
 
+  if (!options.mcpServe && (options.mcpTools !== null || options.mcpAskTool !== null)) {
+    options.errors.push('--tools and --no-ask-tool are only valid with "assistants mcp serve"');
+  }
+  if (options.mcpServe) {
+    if (options.print !== null || positionalArgs.length > 0) {
+      options.errors.push('"assistants mcp serve" does not take a prompt');
+    }
+    return options;
+  }
+
   // If -p was used and there are positional args after --, use them as the prompt
   if (options.print === '' && positionalArgs.length > 0) {
     options.print = positionalArgs.join(' ');
@@ -236,8 +284,16 @@ export interface HeadlessOptions {
   timeoutMs?: number | null;
 }
 
+export interface McpServeOptions {
+  cwd: string;
+  tools?: string[];
+  askTool?: boolean;
+  version?: string;
+}
+
 export interface MainDependencies {
   runHeadless: (options: HeadlessOptions) => Promise<void>;
+  runMcpServe?: (options: McpServeOptions) => Promise<void>;
   print: (message: string) => void;
   exit: (code: number) => void;
   VERSION: string;
@@ -278,6 +334,7 @@ assistants - Your personal AI assistant
 Usage:
   assistants [options]                    Start interactive mode
   assistants -p "<prompt>" [options]      Run in headless mode
+  assistants mcp serve [options]          Run as an MCP server on stdio
 
 Options:
   -h, --help                   Show this help message
@@ -294,6 +351,10 @@ Headless Mode:
   -r, --resume <session_id>    Resume a specific session by ID
   --cwd <path>                 Set working directory
 
+MCP Server:
+  --tools <tools>              Comma-separated tools or globs to offer (e.g., "read,grep,connect_*")
+  --no-ask-tool                Don't offer the ask_assistant tool
+
 Examples:
   # Ask a question
   assistants -p "What does the auth module do?"
@@ -313,6 +374,9 @@ Examples:
   # Continue conversation
   assistants -p "What else can you tell me?" --continue
 
+  # Offer the assistant to an MCP client (editor, another agent)
+  assistants mcp serve --tools "read,glob,grep"
+
 Interactive Mode:
   - Type your message and press Enter to send
   - Use $skill-name to invoke a skill
@@ -324,6 +388,17 @@ Interactive Mode:
     return;
   }
 
+  // MCP server mode
+  if (options.mcpServe) {
+    await deps.runMcpServe?.({
+      cwd: options.cwd,
+      tools: options.mcpTools ?? undefined,
+      askTool: options.mcpAskTool ?? undefined,
+      version: VERSION,
+    });
+    return;
+  }
+
   // Headless mode
   if (options.print !== null) {
     if (!options.print.trim()) {
@@ -3,8 +3,8 @@ import { spawn } from 'child_process';
 import { join } from 'path';
 import { homedir } from 'os';
 import { Box, Text, useApp, useStdout, Static } from 'ink';
-import { SessionRegistry, SessionStorage, findRecoverableSessions, clearRecoveryState, ConnectorBridge, listTemplates, createIdentityFromTemplate, VoiceManager, AudioRecorder, ElevenLabsSTT, WhisperSTT, readHeartbeatHistoryBySession, type SessionInfo, type RecoverableSession, type CreateIdentityOptions, type Heartbeat, type SavedSessionInfo, type CreateSessionOptions, type Identity, type Memory, type MemoryStats } from '@hasna/assistants-core';
-import type { StreamChunk, Message, ToolCall, ToolResult, TokenUsage, EnergyState, VoiceState, HeartbeatState, ActiveIdentityInfo, AskUserRequest, AskUserResponse, Connector, HookConfig, HookEvent, HookHandler, ScheduledCommand, Skill } from '@hasna/assistants-shared';
+import { SessionRegistry, SessionStorage, findRecoverableSessions, clearRecoveryState, ConnectorBridge, listTemplates, createIdentityFromTemplate, VoiceManager, AudioRecorder, ElevenLabsSTT, WhisperSTT, readHeartbeatHistoryBySession, buildSessionTree, type SessionInfo, type RecoverableSession, type CreateIdentityOptions, type Heartbeat, type SavedSessionInfo, type CreateSessionOptions, type Identity, type Memory, type MemoryStats } from '@hasna/assistants-core';
+import type { StreamChunk, Message, ToolCall, ToolProgress, ToolResult, TokenUsage, EnergyState, VoiceState, HeartbeatState, ActiveIdentityInfo, AskUserRequest, AskUserResponse, Connector, HookConfig, HookEvent, HookHandler, ScheduledCommand, Skill } from '@hasna/assistants-shared';
 import { generateId, now } from '@hasna/assistants-shared';
 import { Input, type InputHandle } from './Input';
 import { Messages } from './Messages';
@@ -27,6 +27,7 @@ import { HooksPanel } from './HooksPanel';
 import { ConfigPanel } from './ConfigPanel';
 import { MessagesPanel } from './MessagesPanel';
 import { WebhooksPanel } from './WebhooksPanel';
+import { McpPanel } from './McpPanel';
 import { ChannelsPanel } from './ChannelsPanel';
 import { parseMentions, resolveNameToKnown, type ChannelMember } from '@hasna/assistants-core';
 import { PeoplePanel } from './PeoplePanel';
@@ -61,8 +62,10 @@ import {
   clearCompletedTasks,
   isPaused,
   setPaused,
+  isAutoRun,
   startTask,
   updateTask,
+  cancelTask,
   HookStore,
   nativeHookRegistry,
   loadConfig,
@@ -76,6 +79,8 @@ import {
   type Task,
   type TaskPriority,
   type TaskCreateOptions,
+  type TaskQueueRunner,
+  type TaskRunnerStatus,
   type GuardrailsConfig,
   type PolicyInfo,
   type BudgetScope,
@@ -96,10 +101,14 @@ import {
   type ProjectPlan,
   type PlanStepStatus,
   type SerializableSwarmState,
+  type SwarmRunSummary,
   type SwarmConfig,
   createSkill,
   deleteSkill,
   type CreateSkillOptions,
+  analyzeSkillArguments,
+  buildSkillArgumentRequest,
+  formatSkillArgumentAssignments,
 } from '@hasna/assistants-core';
 import type { BudgetConfig, BudgetLimits } from '@hasna/assistants-shared';
 import type { AssistantsConfig } from '@hasna/assistants-shared';
@@ -229,10 +238,12 @@ interface AppProps {
 // Activity entry for tracking tool calls and text during a turn
 interface ActivityEntry {
   id: string;
-  type: 'text' | 'tool_call' | 'tool_result';
+  type: 'text' | 'thinking' | 'tool_call' | 'tool_result';
   content?: string;
   toolCall?: ToolCall;
   toolResult?: ToolResult;
+  /** Latest progress of a running tool call */
+  progress?: ToolProgress;
   timestamp: number;
 }
 
@@ -313,6 +324,7 @@ export function App({ cwd, version }: AppProps) {
   const [showTasksPanel, setShowTasksPanel] = useState(false);
   const [tasksList, setTasksList] = useState<Task[]>([]);
   const [tasksPaused, setTasksPaused] = useState(false);
+  const [taskRunnerStatus, setTaskRunnerStatus] = useState<TaskRunnerStatus | null | undefined>();
 
   // Schedules panel state
   const [showSchedulesPanel, setShowSchedulesPanel] = useState(false);
@@ -372,6 +384,9 @@ export function App({ cwd, version }: AppProps) {
   // Webhooks panel state
   const [showWebhooksPanel, setShowWebhooksPanel] = useState(false);
 
+  // MCP panel state
+  const [showMcpPanel, setShowMcpPanel] = useState(false);
+
   // Channels panel state
   const [showChannelsPanel, setShowChannelsPanel] = useState(false);
 
@@ -525,6 +540,7 @@ export function App({ cwd, version }: AppProps) {
     showAssistantsRegistryPanel ||
     showConfigPanel ||
     showWebhooksPanel ||
+    showMcpPanel ||
     showChannelsPanel ||
     showPeoplePanel ||
     showTelephonyPanel ||
@@ -1110,6 +1126,7 @@ export function App({ cwd, version }: AppProps) {
           sessionId: saved.id,
           initialMessages: sessionData.messages as Message[],
           startedAt: sessionData.startedAt,
+          parentSessionId: sessionData.parentSessionId,
         });
       } catch (error) {
         session = await registry.createSession({
@@ -1117,6 +1134,7 @@ export function App({ cwd, version }: AppProps) {
           assistantId: saved.assistantId || undefined,
           initialMessages: sessionData.messages as Message[],
           startedAt: sessionData.startedAt,
+          parentSessionId: sessionData.parentSessionId,
         });
       }
       session!.client.setAskUserHandler((request) => beginAskUser(session!.id, request));
@@ -1130,7 +1148,7 @@ export function App({ cwd, version }: AppProps) {
 
   // Handle chunk from registry
   const handleChunk = useCallback((chunk: StreamChunk) => {
-    const isStartChunk = chunk.type === 'text' || chunk.type === 'tool_use';
+    const isStartChunk = chunk.type === 'text' || chunk.type === 'thinking' || chunk.type === 'tool_use';
     const isTerminalChunk = chunk.type === 'error' || chunk.type === 'done';
     if (!isProcessingRef.current && (isStartChunk || isTerminalChunk)) {
       const active = registryRef.current.getActiveSession();
@@ -1157,6 +1175,22 @@ export function App({ cwd, version }: AppProps) {
     if (chunk.type === 'text' && chunk.content) {
       responseRef.current += chunk.content;
       setCurrentResponse(responseRef.current);
+    } else if (chunk.type === 'thinking' && chunk.content) {
+      // Merge consecutive thinking deltas into a single activity entry
+      const log = activityLogRef.current;
+      const last = log[log.length - 1];
+      if (last && last.type === 'thinking') {
+        activityLogRef.current = [
+          ...log.slice(0, -1),
+          { ...last, content: (last.content || '') + chunk.content },
+        ];
+      } else {
+        activityLogRef.current = [
+          ...log,
+          { id: generateId(), type: 'thinking' as const, content: chunk.content, timestamp: now() },
+        ];
+      }
+      setActivityLog(activityLogRef.current);
     } else if (chunk.type === 'tool_use' && chunk.toolCall) {
       // Save any accumulated text before the tool call
       if (responseRef.current.trim()) {
@@ -1183,6 +1217,16 @@ export function App({ cwd, version }: AppProps) {
       activityLogRef.current = [...activityLogRef.current, toolEntry];
       setActivityLog(activityLogRef.current);
       setCurrentToolCall(chunk.toolCall);
+    } else if (chunk.type === 'tool_progress' && chunk.toolProgress) {
+      const progress = chunk.toolProgress;
+      const index = activityLogRef.current.findIndex(
+        (entry) => entry.type === 'tool_call' && entry.toolCall?.id === progress.toolCallId
+      );
+      if (index !== -1) {
+        const log = activityLogRef.current;
+        activityLogRef.current = [...log.slice(0, index), { ...log[index], progress }, ...log.slice(index + 1)];
+        setActivityLog(activityLogRef.current);
+      }
     } else if (chunk.type === 'tool_result' && chunk.toolResult) {
       if (!isProcessingRef.current) {
         setMessages((prev) => {
@@ -1341,13 +1385,33 @@ export function App({ cwd, version }: AppProps) {
                 registry.assignAssistant(active.id, payload.agent);
               }
             } else if (payload.action === 'switch' && payload.number) {
-              const allSessions = registry.listSessions();
+              // Numbered in the same (branch tree) order as the session selector
+              const allSessions = buildSessionTree(registry.listSessions()).map((node) => node.session);
               const target = allSessions[payload.number - 1];
               if (target) {
                 switchToSession(target.id).catch((err) => {
                   setError(err instanceof Error ? err.message : 'Failed to switch session');
                 });
               }
+            } else if (payload.action === 'fork' && payload.sessionId) {
+              const saved = SessionStorage.listAllSessions().find((session) => session.id === payload.sessionId);
+              if (saved) {
+                resumeFromSavedSession(saved).catch((err) => {
+                  setError(err instanceof Error ? err.message : 'Failed to open forked session');
+                });
+              } else {
+                setError('Forked session was not saved.');
+              }
+            } else if (payload.action === 'rewind') {
+              // The conversation was truncated in the client; keep only the /rewind summary after it
+              const active = registry.getActiveSession();
+              if (active) {
+                const restored = active.client.getMessages();
+                setMessages((prev) => {
+                  const summary = prev[prev.length - 1];
+                  return summary?.role === 'assistant' ? [...restored, summary] : restored;
+                });
+              }
             }
           } catch {
             // Invalid payload, show dashboard instead
@@ -1393,6 +1457,8 @@ export function App({ cwd, version }: AppProps) {
         setShowConfigPanel(true);
       } else if (chunk.panel === 'webhooks') {
         setShowWebhooksPanel(true);
+      } else if (chunk.panel === 'mcp') {
+        setShowMcpPanel(true);
       } else if (chunk.panel === 'channels') {
         setShowChannelsPanel(true);
       } else if (chunk.panel === 'people') {
@@ -1632,6 +1698,7 @@ export function App({ cwd, version }: AppProps) {
     currentConfig,
     createAndActivateSession,
     switchToSession,
+    resumeFromSavedSession,
   ]);
 
   // Load config files helper
@@ -2048,6 +2115,33 @@ export function App({ cwd, version }: AppProps) {
     void refreshMemoryList();
   }, [showMemoryPanel, refreshMemoryList]);
 
+  // Follow the task runner while the tasks panel is open
+  useEffect(() => {
+    if (!showTasksPanel) return;
+    const runner = activeSession?.client.getTaskRunner?.() as TaskQueueRunner | null | undefined;
+    if (!runner) {
+      setTaskRunnerStatus(undefined);
+      return;
+    }
+
+    setTaskRunnerStatus(runner.getStatus());
+    const unsubscribe = runner.addEventListener(() => {
+      setTaskRunnerStatus(runner.getStatus());
+      getTasks(cwd).then(setTasksList).catch(() => {});
+    });
+    // Keep elapsed times and retry countdowns moving
+    const interval = setInterval(() => {
+      if (runner.isRunning()) {
+        setTaskRunnerStatus(runner.getStatus());
+      }
+    }, 1000);
+
+    return () => {
+      unsubscribe();
+      clearInterval(interval);
+    };
+  }, [showTasksPanel, activeSession, cwd]);
+
   const MAX_QUEUED_PREVIEW = 3;
   const inlineCount = activeInline.length;
   const activeAskQuestion = askUserState && askUserState.sessionId === activeSessionId
@@ -2143,8 +2237,8 @@ export function App({ cwd, version }: AppProps) {
   }, [isListening, listeningDraft, wrapChars, renderWidth]);
   const activityTrim = useMemo(() => {
     const activityBudget = Math.max(4, dynamicBudget - streamingLineCount);
-    return trimActivityLogByLines(activityLog, wrapChars, renderWidth, activityBudget);
-  }, [activityLog, wrapChars, renderWidth, dynamicBudget, streamingLineCount]);
+    return trimActivityLogByLines(activityLog, wrapChars, renderWidth, activityBudget, verboseTools);
+  }, [activityLog, wrapChars, renderWidth, dynamicBudget, streamingLineCount, verboseTools]);
   const hasListeningDraft = listeningDraftMessages.length > 0;
   const combinedStreamingMessages = hasListeningDraft
     ? [...streamingMessages, ...listeningDraftMessages]
@@ -2504,6 +2598,26 @@ export function App({ cwd, version }: AppProps) {
           return;
         }
 
+        // /<skill> with a typed argument schema → prompt for missing required args
+        const isCommand = commands.some((cmd) => cmd.name === `/${panelMatch[1]}`);
+        const skillClient = registry.getActiveSession()?.client;
+        if (!isCommand && skillClient && activeSessionId) {
+          const skill = (await skillClient.getSkills()).find((entry: Skill) => entry.name === panelMatch[1]);
+          if (skill?.arguments) {
+            const { missing } = analyzeSkillArguments(skill.arguments, cmdArgs);
+            if (missing.length > 0) {
+              let answers: Record<string, string>;
+              try {
+                ({ answers } = await beginAskUser(activeSessionId, buildSkillArgumentRequest(skill, missing)));
+              } catch {
+                return;
+              }
+              const assignments = formatSkillArgumentAssignments(answers);
+              return handleSubmit(`/${skill.name} ${[cmdArgs, assignments].filter(Boolean).join(' ')}`, mode);
+            }
+          }
+        }
+
         // /assistants update → run CLI update
         if (cmdName === 'assistants' && cmdArgs) {
           const [subcommand] = cmdArgs.split(/\s+/);
@@ -2915,6 +3029,8 @@ export function App({ cwd, version }: AppProps) {
       resetTurnState,
       activeSessionId,
       submitAskAnswer,
+      beginAskUser,
+      commands,
       clearPendingSend,
       startListening,
       stopListening,
@@ -3074,6 +3190,29 @@ export function App({ cwd, version }: AppProps) {
       setTasksList(await getTasks(cwd));
     };
 
+    const handleTasksCancel = async (id: string) => {
+      const runner = activeSession?.client.getTaskRunner?.() as TaskQueueRunner | null | undefined;
+      if (runner) {
+        await runner.cancel(id);
+      } else {
+        await cancelTask(cwd, id);
+      }
+      setTasksList(await getTasks(cwd));
+    };
+
+    const handleTasksToggleRunner = async () => {
+      const runner = activeSession?.client.getTaskRunner?.() as TaskQueueRunner | null | undefined;
+      if (!runner) return;
+      if (runner.isRunning()) {
+        await runner.stop();
+      } else {
+        runner.configure({ watch: await isAutoRun(cwd) });
+        runner.start().catch(() => {});
+      }
+      setTaskRunnerStatus(runner.getStatus());
+      setTasksList(await getTasks(cwd));
+    };
+
     return (
       <Box flexDirection="column" padding={1}>
         <TasksPanel
@@ -3086,6 +3225,9 @@ export function App({ cwd, version }: AppProps) {
           onClearCompleted={handleTasksClearCompleted}
           onTogglePause={handleTasksTogglePause}
           onChangePriority={handleTasksChangePriority}
+          onCancel={handleTasksCancel}
+          runner={taskRunnerStatus}
+          onToggleRunner={taskRunnerStatus !== undefined ? handleTasksToggleRunner : undefined}
           onClose={() => setShowTasksPanel(false)}
         />
       </Box>
@@ -3685,6 +3827,8 @@ export function App({ cwd, version }: AppProps) {
           config={budgetConfig}
           sessionStatus={sessionBudgetStatus}
           swarmStatus={swarmBudgetStatus}
+          toolCosts={budgetTrackerRef.current?.getToolCosts()}
+          hourlyTokens={budgetTrackerRef.current?.getHistory('hour').map((bucket) => bucket.usage.totalTokens)}
           onToggleEnabled={handleBudgetToggleEnabled}
           onReset={handleBudgetReset}
           onSetLimits={handleBudgetSetLimits}
@@ -3990,6 +4134,10 @@ export function App({ cwd, version }: AppProps) {
     const swarmConfig = swarmCoordinator?.getConfig?.() || null;
     const swarmMemory = swarmCoordinator?.getMemory?.();
     const memoryStats = swarmMemory ? swarmMemory.getStats() : null;
+    // Saved runs are read from disk, so skip them while a swarm is streaming updates
+    const resumableRuns: SwarmRunSummary[] = swarmCoordinator && !swarmCoordinator.isRunning?.()
+      ? swarmCoordinator.getRunStore?.()?.list({ resumableOnly: true }) ?? []
+      : [];
 
     return (
       <Box flexDirection="column" padding={1}>
@@ -3997,9 +4145,14 @@ export function App({ cwd, version }: AppProps) {
           state={swarmState}
           config={swarmConfig}
           memoryStats={memoryStats}
+          resumableRuns={resumableRuns}
           onStop={() => {
             swarmCoordinator?.stop?.();
           }}
+          onResume={(runId) => {
+            setShowSwarmPanel(false);
+            activeSession?.client.send(`/swarm resume ${runId}`);
+          }}
           onCancel={() => setShowSwarmPanel(false)}
         />
       </Box>
@@ -4163,6 +4316,25 @@ export function App({ cwd, version }: AppProps) {
     );
   }
 
+  // Show MCP panel
+  if (showMcpPanel) {
+    const mcpManager = activeSession?.client.getMcpManager?.();
+    if (!mcpManager) {
+      return (
+        <CloseOnAnyKeyPanel
+          message='No MCP servers configured. Add them under "mcp.servers" in config.'
+          onClose={() => setShowMcpPanel(false)}
+        />
+      );
+    }
+    return (
+      <McpPanel
+        manager={mcpManager}
+        onClose={() => setShowMcpPanel(false)}
+      />
+    );
+  }
+
   // Show channels panel
   if (showChannelsPanel) {
     const channelsManager = activeSession?.client.getChannelsManager?.();
@@ -4458,7 +4630,7 @@ export function App({ cwd, version }: AppProps) {
       const result = activityLog.find(
         (r) => r.type === 'tool_result' && r.toolResult?.toolCallId === e.toolCall?.id
       )?.toolResult;
-      return { toolCall: e.toolCall!, result };
+      return { toolCall: e.toolCall!, result, progress: e.progress };
     });
 
   // Check if currently thinking (no response and no tool calls yet)
@@ -1,13 +1,17 @@
 import React, { useState, useEffect } from 'react';
 import { Box, Text } from 'ink';
 import type { BudgetConfig, BudgetLimits } from '@hasna/assistants-shared';
-import type { BudgetStatus, BudgetScope } from '@hasna/assistants-core';
+import { formatCostUsd, formatSparkline, type BudgetStatus, type BudgetScope, type ToolCostEntry } from '@hasna/assistants-core';
 import { useSafeInput as useInput } from '../hooks/useSafeInput';
 
 interface BudgetPanelProps {
   config: BudgetConfig;
   sessionStatus: BudgetStatus;
   swarmStatus: BudgetStatus;
+  /** Spend attributed to tools, most expensive first */
+  toolCosts?: Array<{ toolName: string } & ToolCostEntry>;
+  /** Tokens used per hour over the last 24 hours, oldest first */
+  hourlyTokens?: number[];
   onToggleEnabled: (enabled: boolean) => void;
   onReset: (scope: BudgetScope) => void;
   onSetLimits: (scope: BudgetScope, limits: Partial<BudgetLimits>) => void;
@@ -25,6 +29,8 @@ interface EditField {
   toStored: (display: number) => number;
   /** Multiplier to convert stored value to display value */
   toDisplay: (stored: number) => number;
+  /** Accept a decimal point (e.g., dollar amounts) */
+  decimal?: boolean;
 }
 
 const EDIT_FIELDS: EditField[] = [
@@ -34,25 +40,33 @@ const EDIT_FIELDS: EditField[] = [
   { key: 'maxLlmCalls', label: 'Max LLM Calls', unit: 'calls', toStored: (v) => v, toDisplay: (v) => v },
   { key: 'maxToolCalls', label: 'Max Tool Calls', unit: 'calls', toStored: (v) => v, toDisplay: (v) => v },
   { key: 'maxDurationMs', label: 'Max Duration', unit: 'min', toStored: (v) => v * 60 * 1000, toDisplay: (v) => Math.round(v / 60000) },
+  { key: 'maxCostUsd', label: 'Max Cost', unit: 'USD', toStored: (v) => v, toDisplay: (v) => v, decimal: true },
 ];
 
 const ON_EXCEEDED_OPTIONS: Array<'warn' | 'pause' | 'stop'> = ['warn', 'pause', 'stop'];
 
+type LimitPeriod = NonNullable<BudgetLimits['period']>;
+const PERIOD_OPTIONS: LimitPeriod[] = ['session', 'hour', 'day', 'month'];
+
+// Rows after the numeric fields in edit mode
+const PERIOD_ROW = EDIT_FIELDS.length;
+const ON_EXCEEDED_ROW = EDIT_FIELDS.length + 1;
+
 const PRESET_LIMITS = {
   light: {
     name: 'Light',
     description: 'Low limits for quick tasks',
-    session: { maxTotalTokens: 50000, maxLlmCalls: 20, maxToolCalls: 50, maxDurationMs: 10 * 60 * 1000 },
+    session: { maxTotalTokens: 50000, maxLlmCalls: 20, maxToolCalls: 50, maxDurationMs: 10 * 60 * 1000, maxCostUsd: 1 },
   },
   moderate: {
     name: 'Moderate',
     description: 'Balanced limits for typical work',
-    session: { maxTotalTokens: 200000, maxLlmCalls: 50, maxToolCalls: 200, maxDurationMs: 30 * 60 * 1000 },
+    session: { maxTotalTokens: 200000, maxLlmCalls: 50, maxToolCalls: 200, maxDurationMs: 30 * 60 * 1000, maxCostUsd: 5 },
   },
   heavy: {
     name: 'Heavy',
     description: 'High limits for complex tasks',
-    session: { maxTotalTokens: 500000, maxLlmCalls: 100, maxToolCalls: 500, maxDurationMs: 60 * 60 * 1000 },
+    session: { maxTotalTokens: 500000, maxLlmCalls: 100, maxToolCalls: 500, maxDurationMs: 60 * 60 * 1000, maxCostUsd: 20 },
   },
   unlimited: {
     name: 'Unlimited',
@@ -100,6 +114,8 @@ export function BudgetPanel({
   config,
   sessionStatus,
   swarmStatus,
+  toolCosts = [],
+  hourlyTokens = [],
   onToggleEnabled,
   onReset,
   onSetLimits,
@@ -113,9 +129,10 @@ export function BudgetPanel({
   const [editFieldIndex, setEditFieldIndex] = useState(0);
   const [editValues, setEditValues] = useState<Record<string, string>>({});
   const [editOnExceeded, setEditOnExceeded] = useState<'warn' | 'pause' | 'stop'>('warn');
+  const [editPeriod, setEditPeriod] = useState<LimitPeriod>('session');
   const [editingField, setEditingField] = useState(false);
-  // Total fields = EDIT_FIELDS.length + 1 (onExceeded row)
-  const totalEditRows = EDIT_FIELDS.length + 1;
+  // Total fields = EDIT_FIELDS.length + 2 (period and onExceeded rows)
+  const totalEditRows = EDIT_FIELDS.length + 2;
 
   const presetKeys = Object.keys(PRESET_LIMITS) as (keyof typeof PRESET_LIMITS)[];
 
@@ -135,16 +152,17 @@ export function BudgetPanel({
     }
     setEditValues(values);
     setEditOnExceeded((config.onExceeded as 'warn' | 'pause' | 'stop') || 'warn');
+    setEditPeriod(limits.period || 'session');
     setEditFieldIndex(0);
     setEditingField(false);
   }
 
   function saveEditValues() {
-    const newLimits: Partial<BudgetLimits> = {};
+    const newLimits: Partial<BudgetLimits> = { period: editPeriod };
     for (const field of EDIT_FIELDS) {
       const raw = editValues[field.key];
       if (raw && raw.trim() !== '') {
-        const num = parseInt(raw, 10);
+        const num = field.decimal ? parseFloat(raw) : parseInt(raw, 10);
         if (!isNaN(num) && num > 0) {
           (newLimits as Record<string, number>)[field.key] = field.toStored(num);
         }
@@ -181,9 +199,15 @@ export function BudgetPanel({
           }
           return;
         }
-        // Only accept digits for numeric fields
-        if (editFieldIndex < EDIT_FIELDS.length && /^\d$/.test(input)) {
-          const fieldKey = EDIT_FIELDS[editFieldIndex].key;
+        // Only accept digits for numeric fields (and one decimal point where allowed)
+        if (editFieldIndex < EDIT_FIELDS.length) {
+          const field = EDIT_FIELDS[editFieldIndex];
+          const fieldKey = field.key;
+          const current = editValues[fieldKey] || '';
+          const isDecimalPoint = input === '.' && field.decimal && !current.includes('.');
+          if (!/^\d$/.test(input) && !isDecimalPoint) {
+            return;
+          }
           setEditValues((prev) => ({
             ...prev,
             [fieldKey]: (prev[fieldKey] || '') + input,
@@ -206,6 +230,10 @@ export function BudgetPanel({
         if (editFieldIndex < EDIT_FIELDS.length) {
           // Start editing a numeric field
           setEditingField(true);
+        } else if (editFieldIndex === PERIOD_ROW) {
+          // Cycle limit period
+          const currentIdx = PERIOD_OPTIONS.indexOf(editPeriod);
+          setEditPeriod(PERIOD_OPTIONS[(currentIdx + 1) % PERIOD_OPTIONS.length]);
         } else {
           // Cycle onExceeded option
           const currentIdx = ON_EXCEEDED_OPTIONS.indexOf(editOnExceeded);
@@ -365,18 +393,34 @@ export function BudgetPanel({
             );
           })}
 
-          {/* On Exceeded row */}
+          {/* Period row */}
           <Box gap={1} marginTop={1}>
-            <Text inverse={editFieldIndex === EDIT_FIELDS.length}>
-              {editFieldIndex === EDIT_FIELDS.length ? '>' : ' '}
+            <Text inverse={editFieldIndex === PERIOD_ROW}>
+              {editFieldIndex === PERIOD_ROW ? '>' : ' '}
+            </Text>
+            <Text bold={editFieldIndex === PERIOD_ROW} dimColor={editFieldIndex !== PERIOD_ROW}>
+              {'Period'.padEnd(20)}
+            </Text>
+            <Text color="cyan">
+              {editPeriod === 'session' ? 'session' : `rolling ${editPeriod}`}
+            </Text>
+            {editFieldIndex === PERIOD_ROW && (
+              <Text dimColor> (Enter to cycle)</Text>
+            )}
+          </Box>
+
+          {/* On Exceeded row */}
+          <Box gap={1}>
+            <Text inverse={editFieldIndex === ON_EXCEEDED_ROW}>
+              {editFieldIndex === ON_EXCEEDED_ROW ? '>' : ' '}
             </Text>
-            <Text bold={editFieldIndex === EDIT_FIELDS.length} dimColor={editFieldIndex !== EDIT_FIELDS.length}>
+            <Text bold={editFieldIndex === ON_EXCEEDED_ROW} dimColor={editFieldIndex !== ON_EXCEEDED_ROW}>
               {'On Exceeded'.padEnd(20)}
             </Text>
             <Text color={editOnExceeded === 'stop' ? 'red' : editOnExceeded === 'pause' ? 'yellow' : 'cyan'}>
               {editOnExceeded}
             </Text>
-            {editFieldIndex === EDIT_FIELDS.length && (
+            {editFieldIndex === ON_EXCEEDED_ROW && (
               <Text dimColor> (Enter to cycle)</Text>
             )}
           </Box>
@@ -463,6 +507,14 @@ export function BudgetPanel({
               <Text dimColor>Max Duration: </Text>
               <Text>{limits.maxDurationMs ? formatDuration(limits.maxDurationMs) : 'unlimited'}</Text>
             </Box>
+            <Box>
+              <Text dimColor>Max Cost: </Text>
+              <Text>{limits.maxCostUsd ? formatCostUsd(limits.maxCostUsd) : 'unlimited'}</Text>
+            </Box>
+            <Box>
+              <Text dimColor>Period: </Text>
+              <Text>{limits.period && limits.period !== 'session' ? `rolling ${limits.period}` : 'session'}</Text>
+            </Box>
           </Box>
 
           <Box marginTop={1}>
@@ -503,7 +555,9 @@ export function BudgetPanel({
 
         {/* Usage */}
         <Box flexDirection="column">
-          <Text bold dimColor>Session Usage:</Text>
+          <Text bold dimColor>
+            Session Usage{sessionStatus.window ? ` (rolling ${sessionStatus.window})` : ''}:
+          </Text>
 
           <Box marginTop={1} flexDirection="column">
             {/* Tokens */}
@@ -561,9 +615,46 @@ export function BudgetPanel({
               <Text>  </Text>
               <UsageBar used={usage.durationMs} limit={limits.maxDurationMs} />
             </Box>
+
+            {/* Cost */}
+            <Box>
+              <Text>{'Cost:'.padEnd(15)}</Text>
+              <Text>{formatCostUsd(usage.costUsd || 0).padStart(8)}</Text>
+              {limits.maxCostUsd && (
+                <>
+                  <Text dimColor> / </Text>
+                  <Text>{formatCostUsd(limits.maxCostUsd)}</Text>
+                </>
+              )}
+              <Text>  </Text>
+              <UsageBar used={usage.costUsd || 0} limit={limits.maxCostUsd} />
+            </Box>
           </Box>
         </Box>
 
+        {/* Last 24 hours */}
+        {hourlyTokens.some((value) => value > 0) && (
+          <Box marginTop={1}>
+            <Text>{'Last 24h:'.padEnd(15)}</Text>
+            <Text color="cyan">{formatSparkline(hourlyTokens)}</Text>
+            <Text dimColor>  {formatNumber(hourlyTokens.reduce((sum, value) => sum + value, 0))} tokens</Text>
+          </Box>
+        )}
+
+        {/* Top tools by cost */}
+        {toolCosts.some((entry) => entry.costUsd > 0) && (
+          <Box marginTop={1} flexDirection="column">
+            <Text bold dimColor>Cost by Tool:</Text>
+            {toolCosts.filter((entry) => entry.costUsd > 0).slice(0, 3).map((entry) => (
+              <Box key={entry.toolName}>
+                <Text>{entry.toolName.padEnd(15)}</Text>
+                <Text>{formatCostUsd(entry.costUsd).padStart(8)}</Text>
+                <Text dimColor>  {entry.calls} call{entry.calls !== 1 ? 's' : ''}</Text>
+              </Box>
+            ))}
+          </Box>
+        )}
+
         {/* Warnings */}
         {sessionStatus.warningsCount > 0 && (
           <Box marginTop={1}>
@@ -25,9 +25,42 @@ const HOOK_EVENTS: HookEvent[] = [
   'Stop',
 ];
 
-const HOOK_TYPES = ['command', 'prompt', 'assistant'] as const;
+const HOOK_TYPES = ['command', 'prompt', 'assistant', 'http', 'module'] as const;
 type HookType = typeof HOOK_TYPES[number];
 
+const HOOK_TYPE_INFO: Record<HookType, { summary: string; field: string; help: string[]; placeholder: string }> = {
+  command: {
+    summary: 'Run a shell command',
+    field: 'Command',
+    help: ['Shell command to run. Input is passed as JSON via stdin.', 'Exit 0 = allow, Exit 2 = block, other = error'],
+    placeholder: './scripts/validate.sh',
+  },
+  prompt: {
+    summary: 'Single-turn LLM decision',
+    field: 'Prompt',
+    help: ['Prompt to send to the LLM. Context will be appended.', 'LLM should respond with {"allow": boolean, "reason": string}'],
+    placeholder: 'Should this action be allowed?',
+  },
+  assistant: {
+    summary: 'Multi-turn assistant with tools',
+    field: 'Prompt',
+    help: ['Prompt to send to the LLM. Context will be appended.', 'LLM should respond with {"allow": boolean, "reason": string}'],
+    placeholder: 'Should this action be allowed?',
+  },
+  http: {
+    summary: 'POST input to a URL',
+    field: 'URL',
+    help: ['Input is POSTed as JSON. Respond 2xx with hook output JSON.', 'Headers and a signing secret can be set in hooks.json'],
+    placeholder: 'https://example.com/hooks/pre-tool',
+  },
+  module: {
+    summary: 'Call a JS/TS handler in-process',
+    field: 'Module',
+    help: ['File whose default export is (input, context) => output.', 'Relative paths resolve from the project directory'],
+    placeholder: './hooks/guard.ts',
+  },
+};
+
 const HOOK_LOCATIONS: HookLocation[] = ['project', 'user', 'local'];
 
 type Step = 'event' | 'matcher' | 'type' | 'command' | 'timeout' | 'async' | 'name' | 'location' | 'confirm';
@@ -171,7 +204,7 @@ export function HookWizard({ onSave, onCancel }: HookWizardProps) {
   const saveHook = async () => {
     // Validate
     if (!command.trim()) {
-      setError('Command/prompt is required');
+      setError(`${HOOK_TYPE_INFO[hookType].field} is required`);
       setStep('command');
       return;
     }
@@ -190,7 +223,9 @@ export function HookWizard({ onSave, onCancel }: HookWizardProps) {
       const handler: HookHandler = {
         type: hookType,
         command: hookType === 'command' ? command.trim() : undefined,
-        prompt: hookType !== 'command' ? command.trim() : undefined,
+        prompt: hookType === 'prompt' || hookType === 'assistant' ? command.trim() : undefined,
+        url: hookType === 'http' ? command.trim() : undefined,
+        module: hookType === 'module' ? command.trim() : undefined,
         timeout: timeoutNum > 0 ? timeoutNum : undefined,
         async: isAsync || undefined,
         name: name.trim() || undefined,
@@ -211,7 +246,7 @@ export function HookWizard({ onSave, onCancel }: HookWizardProps) {
 
   const handleCommandSubmit = () => {
     if (!command.trim()) {
-      setError(hookType === 'command' ? 'Command is required' : 'Prompt is required');
+      setError(`${HOOK_TYPE_INFO[hookType].field} is required`);
       return;
     }
     setError(null);
@@ -319,12 +354,8 @@ export function HookWizard({ onSave, onCancel }: HookWizardProps) {
                     color={index === typeIndex ? 'cyan' : undefined}
                     dimColor={index !== typeIndex}
                   >
-                    {index === typeIndex ? '>' : ' '} {type === 'command' ? 'command  ' : type === 'prompt' ? 'prompt   ' : 'assistant'}
-                    <Text dimColor>
-                      {type === 'command' && ' - Run a shell command'}
-                      {type === 'prompt' && ' - Single-turn LLM decision'}
-                      {type === 'assistant' && ' - Multi-turn assistant with tools'}
-                    </Text>
+                    {index === typeIndex ? '>' : ' '} {type.padEnd(9)}
+                    <Text dimColor> - {HOOK_TYPE_INFO[type].summary}</Text>
                   </Text>
                 </Box>
               ))}
@@ -339,26 +370,18 @@ export function HookWizard({ onSave, onCancel }: HookWizardProps) {
         return (
           <Box flexDirection="column">
             <Box marginBottom={1}>
-              <Text bold color="cyan">Step 4/8: {hookType === 'command' ? 'Command' : 'Prompt'}</Text>
+              <Text bold color="cyan">Step 4/8: {HOOK_TYPE_INFO[hookType].field}</Text>
             </Box>
-            {hookType === 'command' ? (
-              <>
-                <Text dimColor>Shell command to run. Input is passed as JSON via stdin.</Text>
-                <Text dimColor>Exit 0 = allow, Exit 2 = block, other = error</Text>
-              </>
-            ) : (
-              <>
-                <Text dimColor>Prompt to send to the LLM. Context will be appended.</Text>
-                <Text dimColor>LLM should respond with {"{"}&quot;allow&quot;: boolean, &quot;reason&quot;: string{"}"}</Text>
-              </>
-            )}
+            {HOOK_TYPE_INFO[hookType].help.map((line) => (
+              <Text key={line} dimColor>{line}</Text>
+            ))}
             <Box marginTop={1}>
-              <Text>{hookType === 'command' ? 'Command' : 'Prompt'}: </Text>
+              <Text>{HOOK_TYPE_INFO[hookType].field}: </Text>
               <TextInput
                 value={command}
                 onChange={(v) => { setCommand(v); setError(null); }}
                 onSubmit={handleCommandSubmit}
-                placeholder={hookType === 'command' ? './scripts/validate.sh' : 'Should this action be allowed?'}
+                placeholder={HOOK_TYPE_INFO[hookType].placeholder}
               />
             </Box>
             {error && (
@@ -476,7 +499,7 @@ export function HookWizard({ onSave, onCancel }: HookWizardProps) {
               <Box><Text dimColor>Event:   </Text><Text bold>{event}</Text></Box>
               <Box><Text dimColor>Matcher: </Text><Text>{matcher || '*'}</Text></Box>
               <Box><Text dimColor>Type:    </Text><Text>{hookType}</Text></Box>
-              <Box><Text dimColor>{hookType === 'command' ? 'Command' : 'Prompt'}:</Text><Text> {command.slice(0, 40)}{command.length > 40 ? '...' : ''}</Text></Box>
+              <Box><Text dimColor>{HOOK_TYPE_INFO[hookType].field.padEnd(7)}:</Text><Text> {command.slice(0, 40)}{command.length > 40 ? '...' : ''}</Text></Box>
               <Box><Text dimColor>Timeout: </Text><Text>{timeout}ms</Text></Box>
               <Box><Text dimColor>Async:   </Text><Text>{isAsync ? 'Yes' : 'No'}</Text></Box>
               {name && <Box><Text dimColor>Name:    </Text><Text>{name}</Text></Box>}
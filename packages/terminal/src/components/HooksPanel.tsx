@@ -194,6 +194,10 @@ export function HooksPanel({
       const p = hook.prompt.slice(0, 25);
       return p + (hook.prompt.length > 25 ? '...' : '');
     }
+    const target = hook.url || hook.module;
+    if (target) {
+      return target.slice(0, 25) + (target.length > 25 ? '...' : '');
+    }
     return hook.type;
   };
 
@@ -203,6 +207,8 @@ export function HooksPanel({
       case 'command': return 'cmd';
       case 'prompt': return 'llm';
       case 'assistant': return 'ast';
+      case 'http': return 'http';
+      case 'module': return 'mod';
       default: return type.slice(0, 3);
     }
   };
@@ -383,6 +389,18 @@ export function HooksPanel({
               <Text>{selectedHook.hook.command.slice(0, 50)}{selectedHook.hook.command.length > 50 ? '...' : ''}</Text>
             </Box>
           )}
+          {selectedHook.hook.url && (
+            <Box>
+              <Text dimColor>URL: </Text>
+              <Text>{selectedHook.hook.url.slice(0, 50)}{selectedHook.hook.url.length > 50 ? '...' : ''}</Text>
+            </Box>
+          )}
+          {selectedHook.hook.module && (
+            <Box>
+              <Text dimColor>Module: </Text>
+              <Text>{selectedHook.hook.module}{selectedHook.hook.export ? `#${selectedHook.hook.export}` : ''}</Text>
+            </Box>
+          )}
           {selectedHook.hook.timeout && (
             <Box>
               <Text dimColor>Timeout: </Text>
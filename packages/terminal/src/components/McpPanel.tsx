@@ -0,0 +1,209 @@
+import React, { useState, useEffect } from 'react';
+import { Box, Text } from 'ink';
+import type { McpManager, McpServerState } from '@hasna/assistants-core';
+import { useSafeInput as useInput } from '../hooks/useSafeInput';
+
+interface McpPanelProps {
+  manager: McpManager;
+  onClose: () => void;
+}
+
+type Mode = 'list' | 'detail';
+
+const STATUS_ICONS: Record<string, string> = {
+  connected: '●',
+  connecting: '◌',
+  error: '✗',
+  disconnected: '○',
+  disabled: '⊘',
+};
+
+const STATUS_COLORS: Record<string, string | undefined> = {
+  connected: 'green',
+  connecting: 'yellow',
+  error: 'red',
+  disconnected: 'gray',
+  disabled: 'gray',
+};
+
+function formatRelativeTime(timestamp: number | undefined): string {
+  if (!timestamp) return 'never';
+  const seconds = Math.floor(Math.max(0, Date.now() - timestamp) / 1000);
+  const minutes = Math.floor(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+
+  if (hours > 0) return `${hours}h ago`;
+  if (minutes > 0) return `${minutes}m ago`;
+  return `${seconds}s ago`;
+}
+
+export function McpPanel({ manager, onClose }: McpPanelProps) {
+  const [mode, setMode] = useState<Mode>('list');
+  const [servers, setServers] = useState<McpServerState[]>(() => manager.getServers());
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    const refresh = () => setServers(manager.getServers());
+    refresh();
+    return manager.addEventListener(refresh);
+  }, [manager]);
+
+  useEffect(() => {
+    setSelectedIndex((prev) => Math.min(prev, Math.max(0, servers.length - 1)));
+  }, [servers.length]);
+
+  const selected = servers[selectedIndex];
+
+  const runAction = (label: string, action: Promise<unknown>) => {
+    setStatusMessage(`${label}...`);
+    action
+      .then(() => setStatusMessage(`${label} done`))
+      .catch((err) => setStatusMessage(`Error: ${err instanceof Error ? err.message : String(err)}`))
+      .finally(() => setServers(manager.getServers()));
+  };
+
+  useInput((input, key) => {
+    if (key.escape || input === 'q') {
+      if (mode === 'list') {
+        onClose();
+      } else {
+        setMode('list');
+      }
+      return;
+    }
+
+    if (input === 'c') {
+      runAction(mode === 'detail' && selected ? `Health check ${selected.name}` : 'Health check', manager.checkHealth(mode === 'detail' ? selected?.name : undefined));
+      return;
+    }
+    if (input === 'r' && selected) {
+      runAction(`Reconnect ${selected.name}`, manager.reconnect(selected.name));
+      return;
+    }
+    if (input === 'd' && selected && selected.status === 'connected') {
+      runAction(`Disconnect ${selected.name}`, manager.disconnect(selected.name));
+      return;
+    }
+
+    if (mode === 'list') {
+      if (key.upArrow || input === 'k') {
+        setSelectedIndex((prev) => Math.max(0, prev - 1));
+      } else if (key.downArrow || input === 'j') {
+        setSelectedIndex((prev) => Math.min(Math.max(0, servers.length - 1), prev + 1));
+      } else if (key.return && selected) {
+        setMode('detail');
+      }
+    }
+  });
+
+  const header = (
+    <Box borderStyle="single" borderColor="cyan" paddingX={1} marginBottom={1}>
+      <Text bold color="cyan">MCP Servers</Text>
+      <Text color="gray"> | </Text>
+      <Text color="gray">
+        {mode === 'list'
+          ? 'q:close enter:details c:check all r:reconnect d:disconnect'
+          : 'esc:back c:check r:reconnect d:disconnect'}
+      </Text>
+    </Box>
+  );
+
+  const statusBar = statusMessage ? (
+    <Box marginBottom={1}>
+      <Text color={statusMessage.startsWith('Error') ? 'red' : 'yellow'}>{statusMessage}</Text>
+    </Box>
+  ) : null;
+
+  if (mode === 'detail' && selected) {
+    return (
+      <Box flexDirection="column">
+        {header}
+        {statusBar}
+        <Box flexDirection="column" paddingX={1}>
+          <Text bold>{selected.name}</Text>
+          <Text> </Text>
+          <Text>Status:    <Text color={STATUS_COLORS[selected.status]}>{selected.status}</Text></Text>
+          <Text>Transport: {selected.transport}</Text>
+          <Text>Target:    <Text color="gray">{selected.target}</Text></Text>
+          {selected.serverInfo && (
+            <Text>Server:    {selected.serverInfo.name}{selected.serverInfo.version ? ` v${selected.serverInfo.version}` : ''}</Text>
+          )}
+          {selected.connectedAt && <Text>Connected: {formatRelativeTime(selected.connectedAt)}</Text>}
+          <Text>Checked:   {formatRelativeTime(selected.lastCheckedAt)}{selected.latencyMs !== undefined ? ` (${selected.latencyMs}ms)` : ''}</Text>
+          {selected.error && <Text color="red">Error:     {selected.error}</Text>}
+          <Text> </Text>
+          <Text bold>Tools ({selected.tools.length})</Text>
+          {selected.tools.length === 0 ? (
+            <Text color="gray">  none</Text>
+          ) : (
+            selected.tools.map((tool) => <Text key={tool}>  {tool}</Text>)
+          )}
+          <Text> </Text>
+          <Text bold>Prompts ({selected.prompts.length})</Text>
+          {selected.prompts.length === 0 ? (
+            <Text color="gray">  none</Text>
+          ) : (
+            selected.prompts.map((prompt) => (
+              <Text key={prompt.name}>
+                {'  '}/{selected.name}:{prompt.name}
+                {prompt.description ? <Text color="gray"> - {prompt.description}</Text> : null}
+              </Text>
+            ))
+          )}
+          <Text> </Text>
+          <Text bold>Resources ({selected.resources.length})</Text>
+          {selected.resources.length === 0 ? (
+            <Text color="gray">  none</Text>
+          ) : (
+            selected.resources.slice(0, 20).map((resource) => (
+              <Text key={resource.uri} wrap="truncate">
+                {'  '}{resource.uri}<Text color="gray"> - {resource.name}</Text>
+              </Text>
+            ))
+          )}
+          {selected.resources.length > 20 && (
+            <Text color="gray">  ... {selected.resources.length - 20} more (/mcp resources {selected.name})</Text>
+          )}
+        </Box>
+      </Box>
+    );
+  }
+
+  return (
+    <Box flexDirection="column">
+      {header}
+      {statusBar}
+      {servers.length === 0 ? (
+        <Box paddingX={1}>
+          <Text color="gray">No MCP servers configured. Add them under "mcp.servers" in config.json.</Text>
+        </Box>
+      ) : (
+        <Box flexDirection="column" paddingX={1}>
+          {servers.map((server, i) => (
+            <Box key={server.name} flexDirection="column">
+              <Box>
+                <Text color={i === selectedIndex ? 'cyan' : undefined}>
+                  {i === selectedIndex ? '▸ ' : '  '}
+                </Text>
+                <Text color={STATUS_COLORS[server.status]}>
+                  {STATUS_ICONS[server.status] || '?'}{' '}
+                </Text>
+                <Text bold={i === selectedIndex}>{server.name}</Text>
+                <Text color="gray">
+                  {' '}({server.transport}) | {server.tools.length} tools | {server.resources.length} resources | {server.prompts.length} prompts
+                  {server.latencyMs !== undefined ? ` | ${server.latencyMs}ms` : ''}
+                </Text>
+              </Box>
+              {server.error && (
+                <Box paddingLeft={4}>
+                  <Text color="red" wrap="truncate">{server.error}</Text>
+                </Box>
+              )}
+            </Box>
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+}
@@ -1,20 +1,21 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { Box, Text, useStdout } from 'ink';
-import type { Message, ToolCall, ToolResult } from '@hasna/assistants-shared';
+import type { Message, ToolCall, ToolProgress, ToolResult } from '@hasna/assistants-shared';
 import { Markdown } from './Markdown';
 import {
   groupConsecutiveToolMessages,
   type DisplayMessage,
 } from './messageLines';
-import { truncateToolResult, truncateToolResultWithInfo } from './toolDisplay';
+import { formatToolProgress, truncateToolResult, truncateToolResultWithInfo } from './toolDisplay';
 import { basename } from 'path';
 
 interface ActivityEntry {
   id: string;
-  type: 'text' | 'tool_call' | 'tool_result';
+  type: 'text' | 'thinking' | 'tool_call' | 'tool_result';
   content?: string;
   toolCall?: ToolCall;
   toolResult?: ToolResult;
+  progress?: ToolProgress;
   timestamp: number;
 }
 
@@ -117,6 +118,20 @@ export function Messages({
         return <CombinedToolMessage key={item.id} messages={item.item.messages} verboseTools={verboseTools} />;
       })}
 
+      {/* Show thinking entries collapsed unless tools are verbose */}
+      {visibleActivity
+        .filter((entry) => entry.type === 'thinking' && entry.content)
+        .map((entry) => (
+          <Box key={entry.id} flexDirection="column">
+            <Text dimColor italic>✻ Thinking ({countWords(entry.content!)} words)</Text>
+            {verboseTools && (
+              <Box marginLeft={2}>
+                <Text dimColor>{entry.content!.trim()}</Text>
+              </Box>
+            )}
+          </Box>
+        ))}
+
       {/* Show text entries from activity log */}
       {visibleActivity
         .filter((entry) => entry.type === 'text' && entry.content)
@@ -160,6 +175,12 @@ export function Messages({
   );
 }
 
+/** Count whitespace-separated words */
+function countWords(text: string): number {
+  const trimmed = text.trim();
+  return trimmed ? trimmed.split(/\s+/).length : 0;
+}
+
 /**
  * Format duration in a human-friendly way
  * - Under 1 minute: "42s"
@@ -303,6 +324,7 @@ interface ActiveToolInfo {
   startTime: number;
   endTime?: number;
   result?: ToolResult;
+  progress?: ToolProgress;
 }
 
 interface ActiveToolsPanelProps {
@@ -351,6 +373,7 @@ function ActiveToolsPanel({ activityLog, now, verboseTools }: ActiveToolsPanelPr
           startTime: entry.timestamp,
           endTime: resultInfo?.timestamp,
           result: resultInfo?.result,
+          progress: entry.progress,
         });
       }
     }
@@ -404,6 +427,9 @@ function ActiveToolsPanel({ activityLog, now, verboseTools }: ActiveToolsPanelPr
         const elapsedText = formatDuration(elapsedMs);
         const displayName = getToolDisplayName(call.toolCall);
         const context = getToolContext(call.toolCall);
+        const progressText = call.status === 'running' && call.progress
+          ? formatToolProgress(call.progress)
+          : '';
 
         return (
           <Box key={call.id} flexDirection="column" marginTop={1}>
@@ -414,6 +440,11 @@ function ActiveToolsPanel({ activityLog, now, verboseTools }: ActiveToolsPanelPr
               {context && <Text dimColor> · {context}</Text>}
               <Text dimColor> · {elapsedText}</Text>
             </Box>
+            {progressText && (
+              <Box marginLeft={2}>
+                <Text color="yellow" dimColor>↳ {truncate(progressText, Math.max(1, panelWidth - 8))}</Text>
+              </Box>
+            )}
             {call.result && (
               <Box marginLeft={2}>
                 <Text dimColor>↳ {truncateToolResult(call.result, 2, 200, { verbose: verboseTools })}</Text>
@@ -653,6 +684,9 @@ function getToolContext(toolCall: ToolCall): string {
     case 'write':
       const writePath = String(input.filename || input.path || input.file_path || '');
       return basename(writePath) || writePath;
+    case 'edit':
+      const editPath = String(input.path || input.file_path || '');
+      return basename(editPath) || editPath;
     case 'glob':
       return truncate(String(input.pattern || ''), 20);
     case 'grep':
@@ -697,6 +731,10 @@ function getToolDisplayName(toolCall: ToolCall): string {
       return 'read';
     case 'write':
       return 'write';
+    case 'edit':
+      return 'edit';
+    case 'apply_patch':
+      return 'patch';
     case 'glob':
       return 'glob';
     case 'grep':
@@ -737,6 +775,10 @@ function formatToolCall(toolCall: ToolCall): string {
       return `Reading: ${truncate(String(input.path || input.file_path || ''), 60)}`;
     case 'write':
       return `Writing: ${truncate(String(input.filename || input.path || input.file_path || ''), 60)}`;
+    case 'edit':
+      return `Editing: ${truncate(String(input.path || input.file_path || ''), 60)}`;
+    case 'apply_patch':
+      return 'Applying patch';
     case 'glob':
       return `Finding: ${truncate(String(input.pattern || ''), 60)}`;
     case 'grep':
@@ -1,6 +1,6 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { Box, Text } from 'ink';
-import type { SavedSessionInfo } from '@hasna/assistants-core';
+import { buildSessionTree, type SavedSessionInfo } from '@hasna/assistants-core';
 import { useSafeInput as useInput } from '../hooks/useSafeInput';
 
 type FilterMode = 'cwd' | 'all';
@@ -56,11 +56,16 @@ export function ResumePanel({
 
   const normalizedCwd = useMemo(() => normalizeCwd(activeCwd), [activeCwd]);
 
-  const filteredSessions = useMemo(() => {
-    if (mode === 'all') return sessions;
-    return sessions.filter((session) => normalizeCwd(session.cwd) === normalizedCwd);
+  // Forks are listed directly below the session they branched from
+  const tree = useMemo(() => {
+    const visible = mode === 'all'
+      ? sessions
+      : sessions.filter((session) => normalizeCwd(session.cwd) === normalizedCwd);
+    return buildSessionTree(visible);
   }, [mode, sessions, normalizedCwd]);
 
+  const filteredSessions = useMemo(() => tree.map((node) => node.session), [tree]);
+
   useEffect(() => {
     setSelectedIndex((prev) => Math.min(prev, Math.max(0, filteredSessions.length - 1)));
   }, [filteredSessions.length]);
@@ -123,7 +128,7 @@ export function ResumePanel({
             </Text>
           </Box>
         ) : (
-          filteredSessions.map((session, index) => {
+          tree.map(({ session, prefix: branch }, index) => {
             const isSelected = index === selectedIndex;
             const time = formatRelativeTime(session.updatedAt).padEnd(8);
             const assistant = (session.assistantId || 'default').slice(0, 12).padEnd(12);
@@ -132,7 +137,7 @@ export function ResumePanel({
             return (
               <Box key={`${session.id}-${session.assistantId ?? 'default'}`} paddingY={0}>
                 <Text inverse={isSelected}>
-                  {time} {assistant} {messages} {cwd}
+                  {branch}{time} {assistant} {messages} {cwd}
                 </Text>
               </Box>
             );
@@ -146,6 +151,7 @@ export function ResumePanel({
           <Text>ID: {selected.id}</Text>
           <Text>Assistant: {selected.assistantId || 'default'}</Text>
           <Text>Updated: {selected.updatedAt}</Text>
+          {selected.parentSessionId && <Text>Forked from: {selected.parentSessionId}</Text>}
           <Text>CWD: {selected.cwd}</Text>
         </Box>
       )}
@@ -1,6 +1,6 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { Box, Text } from 'ink';
-import type { SessionInfo } from '@hasna/assistants-core';
+import { buildSessionTree, type SessionInfo } from '@hasna/assistants-core';
 import { useSafeInput as useInput } from '../hooks/useSafeInput';
 
 interface SessionSelectorProps {
@@ -55,6 +55,8 @@ export function SessionSelector({
   onCancel,
 }: SessionSelectorProps) {
   const [selectedIndex, setSelectedIndex] = useState(0);
+  // Forks are listed directly below the session they branched from
+  const tree = useMemo(() => buildSessionTree(sessions), [sessions]);
 
   useEffect(() => {
     setSelectedIndex((prev) => Math.min(prev, sessions.length));
@@ -79,7 +81,7 @@ export function SessionSelector({
         // "New session" option or out of bounds
         onNew();
       } else {
-        onSelect(sessions[selectedIndex].id);
+        onSelect(tree[selectedIndex].session.id);
       }
       return;
     }
@@ -98,7 +100,7 @@ export function SessionSelector({
     // Number keys for quick selection (1-9)
     const num = parseInt(input, 10);
     if (!isNaN(num) && num >= 1 && num <= sessions.length) {
-      onSelect(sessions[num - 1].id);
+      onSelect(tree[num - 1].session.id);
       return;
     }
   });
@@ -109,7 +111,7 @@ export function SessionSelector({
         <Text bold>Sessions</Text>
       </Box>
 
-      {sessions.map((session, index) => {
+      {tree.map(({ session, prefix: branch }, index) => {
         const isActive = session.id === activeSessionId;
         const isSelected = index === selectedIndex;
         const prefix = isActive ? '[*]' : '   ';
@@ -124,7 +126,7 @@ export function SessionSelector({
               color={isActive ? 'green' : undefined}
               dimColor={!isSelected && !isActive}
             >
-              {prefix} {index + 1}. {time}  {path}{processing}
+              {prefix} {index + 1}. {branch}{time}  {path}{processing}
             </Text>
           </Box>
         );
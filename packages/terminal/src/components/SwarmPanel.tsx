@@ -1,13 +1,16 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Box, Text } from 'ink';
-import type { SerializableSwarmState, SwarmConfig } from '@hasna/assistants-core';
+import type { SerializableSwarmState, SwarmConfig, SwarmRunSummary, SwarmTimelineEntry } from '@hasna/assistants-core';
 import { useSafeInput as useInput } from '../hooks/useSafeInput';
 
 interface SwarmPanelProps {
   state: SerializableSwarmState | null;
   config: SwarmConfig | null;
   memoryStats?: { totalEntries: number; byCategory: Record<string, number> } | null;
+  /** Saved runs that did not complete (shown while no swarm is running) */
+  resumableRuns?: SwarmRunSummary[];
   onStop: () => void;
+  onResume?: (runId: string) => void;
   onCancel: () => void;
 }
 
@@ -34,6 +37,7 @@ function TaskStatusIcon({ status }: { status: string }) {
     completed: '✓',
     failed: '✗',
     blocked: '⊘',
+    skipped: '↷',
     cancelled: '—',
   };
   const colors: Record<string, string> = {
@@ -43,30 +47,93 @@ function TaskStatusIcon({ status }: { status: string }) {
     completed: 'green',
     failed: 'red',
     blocked: 'yellow',
+    skipped: 'gray',
     cancelled: 'gray',
   };
 
   return <Text color={colors[status] || 'gray'}>{icons[status] || '?'}</Text>;
 }
 
+function Timeline({ entries, describe }: { entries: SwarmTimelineEntry[]; describe: (id: string) => string }) {
+  const icons: Record<string, string> = { post: '📌', question: '❓', answer: '💬', unanswered: '⌛' };
+  const colors: Record<string, string> = { post: 'gray', question: 'yellow', answer: 'green', unanswered: 'red' };
+
+  return (
+    <Box flexDirection="column" marginTop={1}>
+      <Text bold dimColor>Timeline:</Text>
+      {entries.slice(-8).map((entry) => {
+        const target = entry.kind === 'post' ? entry.topic ?? 'blackboard' : describe(entry.to ?? 'coordinator');
+        return (
+          <Box key={entry.id} gap={1} paddingLeft={1}>
+            <Text color={colors[entry.kind]}>{icons[entry.kind] || '•'}</Text>
+            <Text color="cyan">{describe(entry.from)}</Text>
+            <Text dimColor>{entry.kind === 'post' ? 'on' : '→'} {target}:</Text>
+            <Text>{entry.content.replace(/\s+/g, ' ').slice(0, 70)}</Text>
+          </Box>
+        );
+      })}
+    </Box>
+  );
+}
+
+function ResumableRuns({ runs, selectedIndex }: { runs: SwarmRunSummary[]; selectedIndex: number }) {
+  return (
+    <Box flexDirection="column" marginTop={1}>
+      <Text bold dimColor>Resumable runs:</Text>
+      {runs.slice(0, 10).map((run, i) => (
+        <Box key={run.id} gap={1}>
+          <Text color={i === selectedIndex ? 'cyan' : undefined}>{i === selectedIndex ? '›' : ' '}</Text>
+          <Text color={run.interrupted ? 'yellow' : 'red'}>{run.interrupted ? 'interrupted' : run.status}</Text>
+          <Text dimColor>{run.id.slice(0, 8)}</Text>
+          <Text>{run.completedTasks}/{run.totalTasks}</Text>
+          <Text>{run.goal.slice(0, 50)}</Text>
+        </Box>
+      ))}
+    </Box>
+  );
+}
+
 export function SwarmPanel({
   state,
   config,
   memoryStats,
+  resumableRuns = [],
   onStop,
+  onResume,
   onCancel,
 }: SwarmPanelProps) {
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const isRunning = state ? !['completed', 'failed', 'cancelled'].includes(state.status) : false;
+  const runs = isRunning ? [] : resumableRuns.slice(0, 10);
+
   useInput((input, key) => {
     if (input === 's' || input === 'S') {
       onStop();
       return;
     }
+    if (runs.length > 0) {
+      if (key.upArrow) {
+        setSelectedIndex((prev) => (prev === 0 ? runs.length - 1 : prev - 1));
+        return;
+      }
+      if (key.downArrow) {
+        setSelectedIndex((prev) => (prev + 1) % runs.length);
+        return;
+      }
+      if ((input === 'r' || input === 'R') && onResume) {
+        const run = runs[Math.min(selectedIndex, runs.length - 1)];
+        if (run) onResume(run.id);
+        return;
+      }
+    }
     if (key.escape || input === 'q' || input === 'Q') {
       onCancel();
       return;
     }
   }, { isActive: true });
 
+  const resumeHint = runs.length > 0 && onResume ? '↑↓ select [r]esume ' : '';
+
   if (!state) {
     return (
       <Box flexDirection="column" paddingY={1}>
@@ -74,15 +141,20 @@ export function SwarmPanel({
         <Box marginTop={1}>
           <Text dimColor>No swarm currently running. Use /swarm &lt;goal&gt; to start.</Text>
         </Box>
+        {runs.length > 0 && <ResumableRuns runs={runs} selectedIndex={selectedIndex} />}
         <Box marginTop={1}>
-          <Text dimColor>[q]uit</Text>
+          <Text dimColor>{resumeHint}[q]uit</Text>
         </Box>
       </Box>
     );
   }
 
   const tasks = state.plan?.tasks || [];
-  const isRunning = !['completed', 'failed', 'cancelled'].includes(state.status);
+  const timeline = state.timeline || [];
+  const describeParticipant = (id: string) => {
+    const task = tasks.find((t) => t.id === id);
+    return task ? task.description.slice(0, 20) : id.slice(0, 8);
+  };
 
   return (
     <Box flexDirection="column" paddingY={1}>
@@ -172,6 +244,9 @@ export function SwarmPanel({
           </Box>
         )}
 
+        {/* Blackboard posts and questions between workers */}
+        {timeline.length > 0 && <Timeline entries={timeline} describe={describeParticipant} />}
+
         {/* Errors */}
         {state.errors && state.errors.length > 0 && (
           <Box marginTop={1} flexDirection="column">
@@ -183,9 +258,11 @@ export function SwarmPanel({
         )}
       </Box>
 
+      {runs.length > 0 && <ResumableRuns runs={runs} selectedIndex={selectedIndex} />}
+
       <Box marginTop={1}>
         <Text dimColor>
-          {isRunning ? '[s]top ' : ''}[q]uit
+          {isRunning ? '[s]top ' : ''}{resumeHint}[q]uit
         </Text>
       </Box>
     </Box>
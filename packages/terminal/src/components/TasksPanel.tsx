@@ -1,7 +1,7 @@
 import React, { useEffect, useState } from 'react';
 import { Box, Text } from 'ink';
 import TextInput from 'ink-text-input';
-import type { Task, TaskPriority, TaskStatus, TaskCreateOptions } from '@hasna/assistants-core';
+import type { Task, TaskPriority, TaskStatus, TaskCreateOptions, TaskRunnerStatus } from '@hasna/assistants-core';
 import { useSafeInput as useInput } from '../hooks/useSafeInput';
 
 interface TasksPanelProps {
@@ -14,6 +14,10 @@ interface TasksPanelProps {
   onClearCompleted: () => Promise<void>;
   onTogglePause: () => Promise<void>;
   onChangePriority: (id: string, priority: TaskPriority) => Promise<void>;
+  onCancel: (id: string) => Promise<void>;
+  /** Task runner snapshot; undefined when the session has no runner */
+  runner?: TaskRunnerStatus | null;
+  onToggleRunner?: () => Promise<void>;
   onClose: () => void;
 }
 
@@ -25,6 +29,7 @@ const STATUS_ICONS: Record<TaskStatus, string> = {
   in_progress: '◐',
   completed: '●',
   failed: '✗',
+  cancelled: '⊘',
 };
 
 const STATUS_COLORS: Record<TaskStatus, string | undefined> = {
@@ -32,6 +37,7 @@ const STATUS_COLORS: Record<TaskStatus, string | undefined> = {
   in_progress: 'yellow',
   completed: 'green',
   failed: 'red',
+  cancelled: 'gray',
 };
 
 const PRIORITY_ICONS: Record<TaskPriority, string> = {
@@ -68,6 +74,18 @@ function formatTaskTime(timestamp: number): string {
   }).toLowerCase();
 }
 
+/**
+ * Format a duration as a compact countdown or elapsed time
+ */
+function formatShortDuration(ms: number): string {
+  const secs = Math.max(0, Math.round(ms / 1000));
+  const mins = Math.floor(secs / 60);
+  const hrs = Math.floor(mins / 60);
+  if (hrs > 0) return `${hrs}h ${mins % 60}m`;
+  if (mins > 0) return `${mins}m ${secs % 60}s`;
+  return `${secs}s`;
+}
+
 export function TasksPanel({
   tasks,
   paused,
@@ -78,6 +96,9 @@ export function TasksPanel({
   onClearCompleted,
   onTogglePause,
   onChangePriority,
+  onCancel,
+  runner,
+  onToggleRunner,
   onClose,
 }: TasksPanelProps) {
   const [selectedIndex, setSelectedIndex] = useState(0);
@@ -281,6 +302,27 @@ export function TasksPanel({
       return;
     }
 
+    // s: start/stop the task runner
+    if ((input === 's' || input === 'S') && onToggleRunner) {
+      setIsSubmitting(true);
+      onToggleRunner().finally(() => {
+        setIsSubmitting(false);
+      });
+      return;
+    }
+
+    // x: cancel selected task and its dependents
+    if (input === 'x' || input === 'X') {
+      const task = tasks[selectedIndex];
+      if (task && (task.status === 'pending' || task.status === 'in_progress')) {
+        setIsSubmitting(true);
+        onCancel(task.id).finally(() => {
+          setIsSubmitting(false);
+        });
+      }
+      return;
+    }
+
     // Space: toggle pause
     if (input === ' ') {
       setIsSubmitting(true);
@@ -568,6 +610,9 @@ export function TasksPanel({
   const inProgressCount = tasks.filter((t) => t.status === 'in_progress').length;
   const completedCount = tasks.filter((t) => t.status === 'completed').length;
   const failedCount = tasks.filter((t) => t.status === 'failed').length;
+  const cancelledCount = tasks.filter((t) => t.status === 'cancelled').length;
+  const activeRuns = new Map((runner?.active ?? []).map((run) => [run.taskId, run]));
+  const now = Date.now();
 
   // List mode UI
   return (
@@ -579,16 +624,31 @@ export function TasksPanel({
             {paused ? '(Paused)' : '(Active)'}
           </Text>
         </Box>
-        <Text dimColor>[n]ew [Space]pause</Text>
+        <Text dimColor>[n]ew {runner !== undefined ? (runner?.running ? '[s]top runner ' : '[s]tart runner ') : ''}[Space]pause</Text>
       </Box>
 
       {/* Status summary */}
-      <Box marginBottom={1}>
+      <Box marginBottom={runner !== undefined ? 0 : 1}>
         <Text dimColor>
           {pendingCount} pending, {inProgressCount} running, {completedCount} done, {failedCount} failed
+          {cancelledCount > 0 ? `, ${cancelledCount} cancelled` : ''}
         </Text>
       </Box>
 
+      {/* Task runner */}
+      {runner !== undefined && (
+        <Box marginBottom={1}>
+          {runner?.running ? (
+            <Text color={runner.stopping ? 'yellow' : 'green'}>
+              Runner: {runner.stopping ? 'stopping' : 'running'} · {runner.active.length}/{runner.concurrency} busy
+              {runner.watch ? ' · watching' : ''} · {runner.completed} done, {runner.failed} failed, {runner.retried} retried
+            </Text>
+          ) : (
+            <Text dimColor>Runner: stopped</Text>
+          )}
+        </Box>
+      )}
+
       <Box
         flexDirection="column"
         borderStyle="round"
@@ -606,7 +666,13 @@ export function TasksPanel({
             const statusColor = STATUS_COLORS[task.status];
             const priorityIcon = PRIORITY_ICONS[task.priority];
             const priorityColor = PRIORITY_COLORS[task.priority];
-            const time = formatTaskTime(task.createdAt);
+            const run = activeRuns.get(task.id);
+            const waitingToRetry = task.status === 'pending' && task.nextAttemptAt !== undefined && task.nextAttemptAt > now;
+            const time = run
+              ? `${formatShortDuration(now - run.startedAt)} (${run.attempt}/${run.maxAttempts})`
+              : waitingToRetry
+                ? `retry in ${formatShortDuration(task.nextAttemptAt! - now)}`
+                : formatTaskTime(task.createdAt);
             const desc = task.description.slice(0, 40) + (task.description.length > 40 ? '...' : '');
 
             return (
@@ -681,9 +747,29 @@ export function TasksPanel({
               <Text dimColor>Project: {task.projectId}</Text>
             )}
 
+            {/* Runner attempts */}
+            {activeRuns.has(task.id) && (() => {
+              const run = activeRuns.get(task.id)!;
+              return (
+                <Text color="yellow">
+                  Attempt {run.attempt}/{run.maxAttempts} | times out in {formatShortDuration(run.startedAt + run.timeoutMs - now)}
+                </Text>
+              );
+            })()}
+            {!activeRuns.has(task.id) && task.attempts !== undefined && task.attempts > 0 && (
+              <Text dimColor>
+                Attempts: {task.attempts}{task.retry ? ` of ${task.retry.maxRetries + 1}` : ''}
+                {task.status === 'pending' && task.nextAttemptAt && task.nextAttemptAt > now
+                  ? ` | next in ${formatShortDuration(task.nextAttemptAt - now)}`
+                  : ''}
+              </Text>
+            )}
+
             {/* Result/Error */}
             {task.error && (
-              <Text color="red">Error: {task.error}</Text>
+              <Text color={task.status === 'cancelled' ? 'gray' : 'red'}>
+                {task.status === 'pending' ? 'Last error' : 'Error'}: {task.error}
+              </Text>
             )}
             {task.result && (
               <Text color="green">Result: {task.result}</Text>
@@ -694,7 +780,7 @@ export function TasksPanel({
 
       <Box marginTop={1}>
         <Text dimColor>
-          Enter/r run | p priority | d delete | c clear done | Esc close
+          Enter/r run | p priority | x cancel | d delete | c clear done | Esc close
         </Text>
       </Box>
     </Box>
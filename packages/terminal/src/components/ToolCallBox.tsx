@@ -1,11 +1,14 @@
 import React, { useState } from 'react';
 import { Box, Text } from 'ink';
-import type { ToolCall, ToolResult } from '@hasna/assistants-shared';
+import type { ToolCall, ToolProgressUpdate, ToolResult } from '@hasna/assistants-shared';
 import { useSafeInput as useInput } from '../hooks/useSafeInput';
+import { extractDiffLines, formatToolProgress } from './toolDisplay';
 
 interface ToolCallEntry {
   toolCall: ToolCall;
   result?: ToolResult;
+  /** Latest progress while the call runs */
+  progress?: ToolProgressUpdate;
 }
 
 interface ToolCallBoxProps {
@@ -66,14 +69,47 @@ interface ToolCallRowProps {
 }
 
 function ToolCallRow({ entry }: ToolCallRowProps) {
-  const { toolCall, result } = entry;
+  const { toolCall, result, progress } = entry;
   const statusIcon = result ? (result.isError ? '✗' : '✓') : '◐';
   const statusColor = result ? (result.isError ? 'red' : 'green') : 'yellow';
 
+  const showDiff = result && !result.isError && (toolCall.name === 'edit' || toolCall.name === 'apply_patch');
+  const progressText = !result && progress ? formatToolProgress(progress) : '';
+
+  return (
+    <Box flexDirection="column">
+      <Box>
+        <Text color={statusColor}>{statusIcon} </Text>
+        <Text dimColor>{formatToolCall(toolCall)}</Text>
+      </Box>
+      {progressText && (
+        <Box marginLeft={2}>
+          <Text color="yellow">{truncate(progressText, 70)}</Text>
+        </Box>
+      )}
+      {showDiff && <DiffPreview content={String(result.content || '')} />}
+    </Box>
+  );
+}
+
+function DiffPreview({ content }: { content: string }) {
+  const { lines, hidden } = extractDiffLines(content);
+  if (lines.length === 0) return null;
+
   return (
-    <Box>
-      <Text color={statusColor}>{statusIcon} </Text>
-      <Text dimColor>{formatToolCall(toolCall)}</Text>
+    <Box flexDirection="column" marginLeft={2}>
+      {lines.map((line, index) => {
+        if (line.kind === 'header') {
+          return <Text key={index} bold dimColor>{truncate(line.text, 70)}</Text>;
+        }
+        const color = line.kind === 'add' ? 'green' : line.kind === 'remove' ? 'red' : undefined;
+        return (
+          <Text key={index} color={color} dimColor={line.kind === 'context'}>
+            {truncate(line.text, 70)}
+          </Text>
+        );
+      })}
+      {hidden > 0 && <Text dimColor>  +{hidden} more diff lines</Text>}
     </Box>
   );
 }
@@ -93,6 +129,10 @@ function formatToolCall(toolCall: ToolCall): string {
       return `Reading: ${truncate(String(input.path || input.file_path || ''), 50)}`;
     case 'write':
       return `Writing: ${truncate(String(input.filename || input.path || input.file_path || ''), 50)}`;
+    case 'edit':
+      return `Editing: ${truncate(String(input.path || input.file_path || ''), 50)}`;
+    case 'apply_patch':
+      return `Patching: ${truncate(formatPatchTargets(String(input.patch || '')), 50)}`;
     case 'glob':
       return `Finding: ${truncate(String(input.pattern || ''), 50)}`;
     case 'grep':
@@ -130,6 +170,16 @@ function formatName(name: string): string {
     .replace(/\b\w/g, c => c.toUpperCase());
 }
 
+function formatPatchTargets(patch: string): string {
+  const targets = patch
+    .split('\n')
+    .filter((line) => line.startsWith('+++ '))
+    .map((line) => line.slice(4).split('\t')[0].replace(/^b\//, ''))
+    .filter((path) => path !== '/dev/null');
+  if (targets.length === 0) return 'patch';
+  return targets.length === 1 ? targets[0] : `${targets[0]} +${targets.length - 1} more`;
+}
+
 function formatScheduleAction(input: Record<string, unknown>): string {
   const action = String(input.action || '');
   switch (action) {
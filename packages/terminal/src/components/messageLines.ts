@@ -9,7 +9,7 @@ export type MessageGroup =
   | { type: 'grouped'; messages: DisplayMessage[] };
 
 export interface ActivityEntryLike {
-  type: 'text' | 'tool_call' | 'tool_result';
+  type: 'text' | 'thinking' | 'tool_call' | 'tool_result';
   content?: string;
   toolResult?: ToolResult;
 }
@@ -157,7 +157,8 @@ function stripAnsi(text: string): string {
 export function estimateActivityEntryLines(
   entry: ActivityEntryLike,
   wrapWidth: number,
-  renderWidth?: number
+  renderWidth?: number,
+  verbose = false
 ): number {
   const effectiveWidth = Math.max(1, wrapWidth - 2);
   switch (entry.type) {
@@ -169,6 +170,12 @@ export function estimateActivityEntryLines(
       const wrapped = countWrappedLines(lines, effectiveWidth);
       return Math.max(1, wrapped) + 2; // marginY=1
     }
+    case 'thinking': {
+      const content = entry.content?.trim() ?? '';
+      if (!content) return 0;
+      // Summary line, followed by the full text in verbose mode
+      return verbose ? 1 + countWrappedLines(content.split('\n'), effectiveWidth) : 1;
+    }
     case 'tool_call':
       // Two lines (call + elapsed) + marginY=1
       return 4;
@@ -189,9 +196,10 @@ function estimateToolResultEntryLines(entry: ActivityEntryLike, effectiveWidth:
 export function estimateActivityLogLines(
   entries: ActivityEntryLike[],
   wrapWidth: number,
-  renderWidth?: number
+  renderWidth?: number,
+  verbose = false
 ): number {
-  return entries.reduce((sum, entry) => sum + estimateActivityEntryLines(entry, wrapWidth, renderWidth), 0);
+  return entries.reduce((sum, entry) => sum + estimateActivityEntryLines(entry, wrapWidth, renderWidth, verbose), 0);
 }
 
 export function estimateDisplayMessagesLines(messages: DisplayMessage[], maxWidth?: number): number {
@@ -228,7 +236,8 @@ export function trimActivityLogByLines<T extends ActivityEntryLike>(
   entries: T[],
   wrapWidth: number,
   renderWidth: number | undefined,
-  maxLines: number
+  maxLines: number,
+  verbose = false
 ): { entries: T[]; trimmed: boolean } {
   if (maxLines <= 0) {
     return { entries: [], trimmed: entries.length > 0 };
@@ -239,7 +248,7 @@ export function trimActivityLogByLines<T extends ActivityEntryLike>(
 
   for (let i = entries.length - 1; i >= 0; i -= 1) {
     const entry = entries[i];
-    const lineCount = estimateActivityEntryLines(entry, wrapWidth, renderWidth);
+    const lineCount = estimateActivityEntryLines(entry, wrapWidth, renderWidth, verbose);
     if (lineCount <= remaining || kept.length === 0) {
       kept.unshift(entry);
       remaining -= Math.max(0, lineCount);
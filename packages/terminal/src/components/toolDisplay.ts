@@ -1,4 +1,4 @@
-import type { ToolResult } from '@hasna/assistants-shared';
+import type { ToolProgressUpdate, ToolResult } from '@hasna/assistants-shared';
 
 /**
  * Metadata about truncation that occurred
@@ -358,6 +358,9 @@ function formatToolResultNicely(toolName: string, content: string, isError?: boo
       return formatReadResult(content);
     case 'write':
       return formatWriteResult(content);
+    case 'edit':
+    case 'apply_patch':
+      return formatEditResult(content);
     case 'glob':
       return formatGlobResult(content);
     case 'grep':
@@ -418,6 +421,20 @@ function formatWriteResult(content: string): string | null {
   return null;
 }
 
+function formatEditResult(content: string): string | null {
+  const summary = content.split('\n')[0]?.trim();
+  if (!summary) return null;
+  const counts = summary.match(/\(([^)]*\+\d+ -\d+)\)\s*$/);
+  if (summary.startsWith('Edited ')) {
+    return counts ? `✓ File edited (${counts[1]})` : '✓ File edited';
+  }
+  if (summary.startsWith('Applied patch')) {
+    const files = summary.match(/^Applied patch to (\d+ files?)/);
+    return files ? `✓ Patch applied to ${files[1]}` : '✓ Patch applied';
+  }
+  return null;
+}
+
 function formatGlobResult(content: string): string | null {
   const lines = content.split('\n').filter((line) => line.trim());
   if (lines.length === 0) {
@@ -465,6 +482,83 @@ function formatSearchResult(content: string): string | null {
   return null;
 }
 
+/**
+ * One-line summary of a running tool's progress, e.g. "Fetched issues (50/200, 25%)"
+ */
+export function formatToolProgress(progress: ToolProgressUpdate): string {
+  const parts: string[] = [];
+  if (progress.current !== undefined) {
+    if (progress.total !== undefined && progress.total > 0) {
+      const percent = Math.min(100, Math.round((progress.current / progress.total) * 100));
+      parts.push(`${progress.current}/${progress.total}, ${percent}%`);
+    } else {
+      parts.push(String(progress.current));
+    }
+  }
+  const message = progress.message?.trim() ?? '';
+  if (parts.length === 0) return message;
+  return message ? `${message} (${parts.join('')})` : parts.join('');
+}
+
+/**
+ * A single line of a unified diff, classified for display
+ */
+export interface DiffLine {
+  kind: 'add' | 'remove' | 'context' | 'header';
+  text: string;
+}
+
+/**
+ * Extract the diff section from an edit/apply_patch result for display.
+ * File headers are kept as 'header' lines; hunk headers are dropped. Hunk
+ * line counts are followed so content lines that look like headers stay content.
+ */
+export function extractDiffLines(content: string, maxLines = 12): { lines: DiffLine[]; hidden: number } {
+  const all: DiffLine[] = [];
+  let inDiff = false;
+  let oldLeft = 0;
+  let newLeft = 0;
+  for (const raw of stripAnsi(content).split('\n')) {
+    if (oldLeft > 0 || newLeft > 0) {
+      if (raw.startsWith('\\')) continue; // \ No newline at end of file
+      if (raw.startsWith('+')) {
+        all.push({ kind: 'add', text: raw });
+        newLeft--;
+      } else if (raw.startsWith('-')) {
+        all.push({ kind: 'remove', text: raw });
+        oldLeft--;
+      } else {
+        all.push({ kind: 'context', text: raw });
+        oldLeft--;
+        newLeft--;
+      }
+      continue;
+    }
+    if (raw.startsWith('--- ')) {
+      inDiff = true;
+      continue;
+    }
+    if (!inDiff) continue;
+    const hunk = raw.match(/^@@ -\d+(?:,(\d+))? \+\d+(?:,(\d+))? @@/);
+    if (raw.startsWith('+++ ')) {
+      all.push({ kind: 'header', text: raw.slice(4) });
+    } else if (hunk) {
+      oldLeft = hunk[1] === undefined ? 1 : Number(hunk[1]);
+      newLeft = hunk[2] === undefined ? 1 : Number(hunk[2]);
+    } else if (raw.startsWith('@@')) {
+      continue;
+    } else if (raw.startsWith('+')) {
+      all.push({ kind: 'add', text: raw });
+    } else if (raw.startsWith('-')) {
+      all.push({ kind: 'remove', text: raw });
+    } else {
+      all.push({ kind: 'context', text: raw });
+    }
+  }
+  const lines = all.slice(0, maxLines);
+  return { lines, hidden: all.length - lines.length };
+}
+
 function stripAnsi(text: string): string {
   return text.replace(/\x1B\[[0-9;]*m/g, '');
 }
@@ -251,6 +251,17 @@ function formatStreamEvent(chunk: StreamChunk): Record<string, unknown> | null {
         },
         timestamp,
       };
+    case 'tool_progress':
+      return {
+        type: 'tool_progress',
+        tool_progress: {
+          tool_call_id: chunk.toolProgress?.toolCallId,
+          message: chunk.toolProgress?.message,
+          current: chunk.toolProgress?.current,
+          total: chunk.toolProgress?.total,
+        },
+        timestamp,
+      };
     case 'tool_result':
       return {
         type: 'tool_result',
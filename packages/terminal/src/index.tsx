@@ -8,6 +8,7 @@ import React from 'react';
 import { render } from 'ink';
 import { App } from './components/App';
 import { runHeadless } from './headless';
+import { runMcpServe } from './mcp-serve';
 import { sanitizeTerminalOutput } from './output/sanitize';
 import { parseArgs, main } from './cli/main';
 
@@ -102,6 +103,7 @@ assistants - Your personal AI assistant
 Usage:
   assistants [options]                    Start interactive mode
   assistants -p "<prompt>" [options]      Run in headless mode
+  assistants mcp serve [options]          Run as an MCP server on stdio
 
 Options:
   -h, --help                   Show this help message
@@ -118,6 +120,10 @@ Headless Mode:
   -r, --resume <session_id>    Resume a specific session by ID
   --cwd <path>                 Set working directory
 
+MCP Server:
+  --tools <tools>              Comma-separated tools or globs to offer (e.g., "read,grep,connect_*")
+  --no-ask-tool                Don't offer the ask_assistant tool
+
 Examples:
   # Ask a question
   assistants -p "What does the auth module do?"
@@ -137,6 +143,9 @@ Examples:
   # Continue conversation
   assistants -p "What else can you tell me?" --continue
 
+  # Offer the assistant to an MCP client (editor, another agent)
+  assistants mcp serve --tools "read,glob,grep"
+
 Interactive Mode:
   - Type your message and press Enter to send
   - Use $skill-name to invoke a skill
@@ -147,8 +156,23 @@ Interactive Mode:
   process.exit(0);
 }
 
-// Headless mode
-if (options.print !== null) {
+// MCP server mode
+if (options.mcpServe) {
+  runMcpServe({
+    cwd: options.cwd,
+    tools: options.mcpTools ?? undefined,
+    askTool: options.mcpAskTool ?? undefined,
+    version: VERSION,
+  })
+    .then(() => {
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('Error:', error.message);
+      process.exit(1);
+    });
+} else if (options.print !== null) {
+  // Headless mode
   if (!options.print.trim()) {
     console.error('Error: Prompt is required with -p/--print flag');
     process.exit(1);
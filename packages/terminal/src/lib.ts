@@ -52,6 +52,10 @@ export { EmbeddedClient } from '@hasna/assistants-core';
 export { runHeadless } from './headless';
 export type { HeadlessOptions, HeadlessResult } from './headless';
 
+// MCP server on stdio (`assistants mcp serve`)
+export { runMcpServe } from './mcp-serve';
+export type { McpServeOptions } from './mcp-serve';
+
 // ============================================================================
 // CLI Utilities
 // ============================================================================
@@ -0,0 +1,45 @@
+import { EmbeddedClient, createAssistantMcpServer, loadConfig } from '@hasna/assistants-core';
+
+export interface McpServeOptions {
+  cwd: string;
+  /** Registry tools to offer, by name or glob; overrides mcp.serve.tools */
+  tools?: string[];
+  /** Offer ask_assistant; overrides mcp.serve.askTool */
+  askTool?: boolean;
+  version?: string;
+}
+
+/**
+ * Run the assistant as an MCP server on stdin/stdout until stdin closes
+ */
+export async function runMcpServe(options: McpServeOptions): Promise<void> {
+  // stdout carries the protocol; anything else printed goes to stderr
+  const toStderr = (...args: unknown[]) => console.error(...args);
+  console.log = toStderr;
+  console.info = toStderr;
+  console.warn = toStderr;
+  console.debug = toStderr;
+
+  const config = await loadConfig(options.cwd);
+  const serveConfig = config.mcp?.serve ?? {};
+
+  const client = new EmbeddedClient(options.cwd);
+  await client.initialize();
+
+  const server = await createAssistantMcpServer(client, {
+    tools: options.tools ?? serveConfig.tools,
+    askTool: options.askTool ?? serveConfig.askTool,
+    version: options.version,
+  });
+
+  const toolNames = server.getToolNames();
+  process.stderr.write(`assistants MCP server ready (${toolNames.length > 0 ? toolNames.join(', ') : 'no tools'})\n`);
+
+  try {
+    await server.serve(process.stdin, (line) => {
+      process.stdout.write(line + '\n');
+    });
+  } finally {
+    client.disconnect();
+  }
+}
@@ -1,5 +1,5 @@
 import { describe, expect, test } from 'bun:test';
-import { parseArgs, main, type HeadlessOptions, type MainDependencies } from '../src/cli/main';
+import { parseArgs, main, type HeadlessOptions, type MainDependencies, type McpServeOptions } from '../src/cli/main';
 
 describe('parseArgs', () => {
   test('parses --version flag', () => {
@@ -664,3 +664,50 @@ describe('main - version and help', () => {
     expect(runHeadlessCalled).toBe(false);
   });
 });
+
+describe('mcp serve', () => {
+  test('parses mcp serve with tools and ask tool flags', () => {
+    const options = parseArgs(['node', 'cli', 'mcp', 'serve', '--tools', 'read, grep,read', '--no-ask-tool', '--cwd', '/tmp']);
+    expect(options.mcpServe).toBe(true);
+    expect(options.mcpTools).toEqual(['read', 'grep']);
+    expect(options.mcpAskTool).toBe(false);
+    expect(options.cwd).toBe('/tmp');
+    expect(options.print).toBeNull();
+    expect(options.errors).toEqual([]);
+  });
+
+  test('treats "mcp" without serve as a prompt', () => {
+    const options = parseArgs(['node', 'cli', 'mcp', 'docs']);
+    expect(options.mcpServe).toBe(false);
+    expect(options.print).toBe('mcp docs');
+  });
+
+  test('rejects serve flags outside mcp serve and prompts inside it', () => {
+    expect(parseArgs(['node', 'cli', '-p', 'hi', '--tools', 'read']).errors).toContain(
+      '--tools and --no-ask-tool are only valid with "assistants mcp serve"'
+    );
+    expect(parseArgs(['node', 'cli', 'mcp', 'serve', 'extra']).errors).toContain(
+      '"assistants mcp serve" does not take a prompt'
+    );
+  });
+
+  test('main runs the MCP server instead of headless mode', async () => {
+    let serveOptions: McpServeOptions | null = null;
+    let runHeadlessCalled = false;
+    const deps: MainDependencies = {
+      runHeadless: async () => {
+        runHeadlessCalled = true;
+      },
+      runMcpServe: async (options) => {
+        serveOptions = options;
+      },
+      print: () => {},
+      exit: () => {},
+      VERSION: '1.0.0',
+    };
+
+    await main(['node', 'cli', 'mcp', 'serve', '--tools', 'connect_*'], deps);
+    expect(runHeadlessCalled).toBe(false);
+    expect(serveOptions).toEqual({ cwd: process.cwd(), tools: ['connect_*'], askTool: undefined, version: '1.0.0' });
+  });
+});
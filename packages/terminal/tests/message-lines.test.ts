@@ -72,6 +72,16 @@ describe('message line estimation', () => {
     expect(__test__.estimateActivityEntryLines(entry, 80, 80)).toBe(4);
   });
 
+  test('counts thinking entries as one line unless verbose', () => {
+    const entry = {
+      type: 'thinking' as const,
+      content: 'first thought\nsecond thought that wraps',
+    };
+    expect(__test__.estimateActivityEntryLines(entry, 80, 80)).toBe(1);
+    expect(__test__.estimateActivityEntryLines(entry, 80, 80, true)).toBe(3);
+    expect(__test__.estimateActivityEntryLines(entry, 22, 22, true)).toBe(4);
+  });
+
   test('counts tool call and tool result activity entries', () => {
     const toolCall = { type: 'tool_call' as const };
     expect(__test__.estimateActivityEntryLines(toolCall, 80, 80)).toBe(4);
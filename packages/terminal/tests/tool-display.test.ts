@@ -6,6 +6,8 @@ import {
   parseErrorInfo,
   formatErrorConcise,
   formatTruncationInfo,
+  extractDiffLines,
+  formatToolProgress,
 } from '../src/components/toolDisplay';
 
 function makeResult(overrides: Partial<ToolResult>): ToolResult {
@@ -82,6 +84,11 @@ describe('truncateToolResult', () => {
 
     const searchOutput = truncateToolResult(makeResult({ toolName: 'web_search', content: 'https://example.com\nhttps://test.com' }));
     expect(searchOutput).toBe('🔍 Found 2 results');
+
+    const editOutput = truncateToolResult(makeResult({ toolName: 'edit', content: 'Edited /p/a.ts (1 replacement, +2 -1)\n\n--- a.ts' }));
+    expect(editOutput).toBe('✓ File edited (1 replacement, +2 -1)');
+    const patchOutput = truncateToolResult(makeResult({ toolName: 'apply_patch', content: 'Applied patch to 2 files: updated a.ts (+1 -1), created b.ts (+2 -0)' }));
+    expect(patchOutput).toBe('✓ Patch applied to 2 files');
   });
 
   test('falls back to raw content when formatter returns null', () => {
@@ -255,3 +262,64 @@ describe('truncateToolResultWithInfo', () => {
     expect(result.truncation.displayedLines).toBe(1);
   });
 });
+
+describe('extractDiffLines', () => {
+  test('classifies diff lines from edit results', () => {
+    const content = [
+      'Edited /p/a.ts (1 replacement, +1 -1)',
+      '',
+      '--- a.ts',
+      '+++ a.ts',
+      '@@ -1,2 +1,2 @@',
+      ' keep',
+      '-old',
+      '+new',
+    ].join('\n');
+    const { lines, hidden } = extractDiffLines(content);
+    expect(hidden).toBe(0);
+    expect(lines.map((line) => line.kind)).toEqual(['header', 'context', 'remove', 'add']);
+    expect(lines[0].text).toBe('a.ts');
+  });
+
+  test('keeps content lines that look like file headers', () => {
+    const content = [
+      '--- notes.md',
+      '+++ notes.md',
+      '@@ -1,2 +1,2 @@',
+      '--- old rule',
+      '+++ new rule',
+      ' keep',
+      '--- b.ts',
+      '+++ b.ts',
+      '@@ -1 +1 @@',
+      '-a',
+      '+b',
+    ].join('\n');
+    const { lines } = extractDiffLines(content);
+    expect(lines.map((line) => `${line.kind}:${line.text}`)).toEqual([
+      'header:notes.md',
+      'remove:--- old rule',
+      'add:+++ new rule',
+      'context: keep',
+      'header:b.ts',
+      'remove:-a',
+      'add:+b',
+    ]);
+  });
+
+  test('limits preview length', () => {
+    const body = Array.from({ length: 20 }, (_, i) => `+line ${i}`).join('\n');
+    const { lines, hidden } = extractDiffLines(`--- a\n+++ a\n@@ -0,0 +1,20 @@\n${body}`, 5);
+    expect(lines).toHaveLength(5);
+    expect(hidden).toBe(16);
+  });
+});
+
+describe('formatToolProgress', () => {
+  test('combines message and counts', () => {
+    expect(formatToolProgress({ message: 'Fetching issues', current: 50, total: 200 })).toBe('Fetching issues (50/200, 25%)');
+    expect(formatToolProgress({ current: 3 })).toBe('3');
+    expect(formatToolProgress({ message: 'Connecting' })).toBe('Connecting');
+    expect(formatToolProgress({})).toBe('');
+  });
+});